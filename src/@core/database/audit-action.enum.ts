@@ -0,0 +1,22 @@
+/**
+ * Tipos de acción auditables
+ */
+export enum AuditAction {
+  CREATE = 'CREATE',
+  UPDATE = 'UPDATE',
+  DELETE = 'DELETE',
+  ARCHIVE = 'ARCHIVE',
+  RESTORE = 'RESTORE',
+  ACTIVATE = 'ACTIVATE',
+  DEACTIVATE = 'DEACTIVATE',
+  PUBLISH = 'PUBLISH',
+  GRANT = 'GRANT',
+  REVOKE = 'REVOKE',
+  COMMUNICATE = 'COMMUNICATE',
+  ACCEPT = 'ACCEPT',
+  DISPUTE = 'DISPUTE',
+  CLOSE = 'CLOSE',
+  SUBMIT = 'SUBMIT',
+  RETURN = 'RETURN',
+  APPROVE = 'APPROVE',
+}
@@ -11,6 +11,11 @@ export const CURRENT_USER_ID_KEY = 'CURRENT_USER_ID'
  */
 export const CURRENT_USER_KEY = 'CURRENT_USER'
 
+/**
+ * Clave para almacenar la organización (tenant) que limita los datos del usuario
+ */
+export const CURRENT_TENANT_KEY = 'CURRENT_TENANT'
+
 /**
  * Información del usuario para auditoría granular
  * Snapshot inmutable del usuario en el momento de la acción
@@ -83,6 +88,25 @@ export class AuditService {
     return this.cls.get<string>(CURRENT_USER_ID_KEY)
   }
 
+  /**
+   * Limita los datos del contexto actual a una organización
+   * (entidades @TenantScoped, ver BaseRepository)
+   *
+   * @param organizationId - Organización del usuario, o undefined para no limitar
+   */
+  setCurrentTenantId(organizationId: string | undefined): void {
+    this.cls.set(CURRENT_TENANT_KEY, organizationId)
+  }
+
+  /**
+   * Obtiene la organización que limita los datos del contexto actual
+   *
+   * @returns organizationId, o undefined si no hay límite (admin, sistema, seeds)
+   */
+  getCurrentTenantId(): string | undefined {
+    return this.cls.get<string>(CURRENT_TENANT_KEY)
+  }
+
   /**
    * Verifica si hay un usuario en el contexto actual
    *
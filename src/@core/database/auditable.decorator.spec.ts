@@ -0,0 +1,58 @@
+import {
+  Auditable,
+  AuditableRegistry,
+  AUDIT_GLOBAL_IGNORED_FIELDS,
+} from './auditable.decorator'
+
+describe('Auditable', () => {
+  @Auditable()
+  class InvoiceEntity {
+    id: string
+  }
+
+  @Auditable<LineEntity>({
+    name: 'InvoiceLine',
+    ignore: ['position'],
+    redact: ['secret'],
+    rootId: (line) => line.invoiceId,
+  })
+  class LineEntity {
+    id: string
+    invoiceId: string
+    position: number
+    secret: string
+  }
+
+  class PlainEntity {
+    id: string
+  }
+
+  it('debe registrar la entidad con los valores por defecto', () => {
+    const config = AuditableRegistry.get(InvoiceEntity)
+
+    expect(config?.name).toBe('Invoice')
+    expect([...config!.ignore]).toEqual(AUDIT_GLOBAL_IGNORED_FIELDS)
+    expect(config?.redact.size).toBe(0)
+    expect(config?.rootId({ id: 'invoice-1' })).toBe('invoice-1')
+    expect(AuditableRegistry.getNames()).toEqual(
+      expect.arrayContaining(['Invoice', 'InvoiceLine']),
+    )
+  })
+
+  it('debe aplicar la configuración declarada en la entidad', () => {
+    const config = AuditableRegistry.get(LineEntity)
+
+    expect(config?.name).toBe('InvoiceLine')
+    expect(config?.ignore.has('position')).toBe(true)
+    expect(config?.ignore.has('updatedAt')).toBe(true)
+    expect(config?.redact.has('secret')).toBe(true)
+    expect(config?.rootId({ id: 'line-1', invoiceId: 'invoice-1' })).toBe(
+      'invoice-1',
+    )
+  })
+
+  it('debe retornar null para entidades no auditables', () => {
+    expect(AuditableRegistry.get(PlainEntity)).toBeNull()
+    expect(AuditableRegistry.get('PlainEntity')).toBeNull()
+  })
+})
@@ -0,0 +1,173 @@
+import 'reflect-metadata'
+import type { EntityManager } from 'typeorm'
+import type { AuditAction } from './audit-action.enum'
+
+/**
+ * Clave de metadata para identificar entidades auditables
+ */
+export const AUDITABLE_METADATA_KEY = Symbol('auditable')
+
+/**
+ * Valor que reemplaza a los campos sensibles en el historial
+ */
+export const AUDIT_REDACTED_VALUE = '[REDACTED]'
+
+/**
+ * Campos técnicos que nunca se registran como cambios
+ */
+export const AUDIT_GLOBAL_IGNORED_FIELDS = [
+  'createdAt',
+  'createdBy',
+  'updatedAt',
+  'updatedBy',
+  'deletedAt',
+]
+
+type EntityField<T> = Extract<keyof T, string>
+
+type AuditableTarget = abstract new (...args: any[]) => unknown
+
+/**
+ * Contexto que recibe la condición `when` de una entidad auditable
+ */
+export interface AuditableContext<T> {
+  /** Estado nuevo (puede ser parcial) */
+  entity: T
+  /** Estado anterior en base de datos (solo en UPDATE) */
+  previous: T | null
+  /** Manager de la operación en curso (misma transacción) */
+  manager: EntityManager
+}
+
+/**
+ * Configuración de auditoría de una entidad
+ */
+export interface AuditableOptions<T = any> {
+  /**
+   * Nombre con el que se registra la entidad en el historial
+   * @default nombre de la clase sin el sufijo "Entity"
+   */
+  name?: string
+
+  /**
+   * Campos que no se registran (además de los globales)
+   */
+  ignore?: EntityField<T>[]
+
+  /**
+   * Campos sensibles: se registra que cambiaron pero no sus valores
+   */
+  redact?: EntityField<T>[]
+
+  /**
+   * ID del agregado raíz que agrupa el historial (ej: el template de un standard)
+   * @default el propio ID de la entidad
+   */
+  rootId?: (entity: T) => string | null | undefined
+
+  /**
+   * Condición adicional para auditar un UPDATE (ej: no auditar borradores)
+   * La creación, eliminación y recuperación se auditan siempre
+   * @default siempre se audita
+   */
+  when?: (context: AuditableContext<T>) => boolean | Promise<boolean>
+
+  /**
+   * Transiciones con significado propio: si el campo cambia a uno de los
+   * valores declarados, el log se registra con esa acción en lugar de UPDATE
+   *
+   * @example
+   * ```typescript
+   * transitions: { isActive: { true: AuditAction.ACTIVATE, false: AuditAction.DEACTIVATE } }
+   * ```
+   */
+  transitions?: Partial<Record<EntityField<T>, Record<string, AuditAction>>>
+}
+
+/**
+ * Configuración resuelta (con valores por defecto aplicados)
+ */
+export interface AuditableConfig<T = any> {
+  name: string
+  ignore: Set<string>
+  redact: Set<string>
+  rootId: (entity: T) => string | null | undefined
+  when?: AuditableOptions<T>['when']
+  transitions: Map<string, Record<string, AuditAction>>
+}
+
+/**
+ * Marca una entidad para que sus cambios se registren en el historial
+ * granular (GranularAuditSubscriber)
+ *
+ * @example
+ * ```typescript
+ * @Auditable<StandardEntity>({
+ *   ignore: ['templateId'],
+ *   rootId: (standard) => standard.templateId,
+ * })
+ * @Entity('standards')
+ * export class StandardEntity extends BaseEntity { ... }
+ * ```
+ */
+export function Auditable<T>(
+  options: AuditableOptions<T> = {},
+): (target: AuditableTarget) => void {
+  return (target) => {
+    const config: AuditableConfig<T> = {
+      name: options.name ?? target.name.replace(/Entity$/, ''),
+      ignore: new Set([
+        ...AUDIT_GLOBAL_IGNORED_FIELDS,
+        ...(options.ignore ?? []),
+      ]),
+      redact: new Set(options.redact ?? []),
+      rootId:
+        options.rootId ??
+        ((entity) => (entity as { id?: string } | undefined)?.id),
+      when: options.when,
+      transitions: new Map(
+        Object.entries(options.transitions ?? {}) as [
+          string,
+          Record<string, AuditAction>,
+        ][],
+      ),
+    }
+
+    Reflect.defineMetadata(AUDITABLE_METADATA_KEY, config, target)
+    AuditableRegistry.register(target, config)
+  }
+}
+
+/**
+ * Registro de entidades auditables
+ *
+ * Se llena al cargar las clases decoradas con @Auditable
+ */
+export class AuditableRegistry {
+  private static readonly entries = new Map<AuditableTarget, AuditableConfig>()
+
+  static register(target: AuditableTarget, config: AuditableConfig): void {
+    this.entries.set(target, config)
+  }
+
+  /**
+   * Obtiene la configuración de una entidad (null = no auditable)
+   *
+   * @param target - Clase de la entidad (event.metadata.target en TypeORM)
+   */
+  static get(target: object | string): AuditableConfig | null {
+    if (typeof target === 'string') return null
+    return (
+      (Reflect.getMetadata(AUDITABLE_METADATA_KEY, target) as
+        | AuditableConfig
+        | undefined) ?? null
+    )
+  }
+
+  /**
+   * Nombres de todas las entidades auditables registradas
+   */
+  static getNames(): string[] {
+    return [...this.entries.values()].map((config) => config.name)
+  }
+}
@@ -0,0 +1,17 @@
+import { ForbiddenException } from '@nestjs/common'
+
+/**
+ * Un usuario intentó leer o modificar un registro de otra organización
+ *
+ * HttpExceptionFilter la registra como evento de seguridad
+ */
+export class CrossTenantAccessException extends ForbiddenException {
+  constructor(
+    readonly entity: string,
+    readonly entityId: string | undefined,
+    readonly tenantId: string,
+    readonly ownerTenantId: string | null,
+  ) {
+    super('No tiene acceso a registros de otra organización')
+  }
+}
@@ -2,7 +2,12 @@ export * from './database.module'
 export * from './transaction.service'
 export * from './audit.service'
 export * from './transactional.decorator'
+export * from './auditable.decorator'
+export * from './tenant-scoped.decorator'
+export * from './reviewable.decorator'
+export * from './cross-tenant-access.exception'
+export * from './audit-action.enum'
 export * from './transaction-discovery.service'
 export { ENTITY_MANAGER_KEY } from './transaction.service'
-export { CURRENT_USER_ID_KEY } from './audit.service'
+export { CURRENT_USER_ID_KEY, CURRENT_TENANT_KEY } from './audit.service'
 export { TRANSACTIONAL_METADATA_KEY } from './transactional.decorator'
@@ -0,0 +1,101 @@
+import { MigrationInterface, QueryRunner } from 'typeorm'
+
+export class CreateAudits1792437435200 implements MigrationInterface {
+  name = 'CreateAudits1792437435200'
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "audit_standards" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "created_at" TIMESTAMP NOT NULL DEFAULT now(), "updated_at" TIMESTAMP NOT NULL DEFAULT now(), "created_by" character varying, "updated_by" character varying, "deletedAt" TIMESTAMP, "auditId" uuid NOT NULL, "sourceStandardId" uuid NOT NULL, "parentId" uuid, "code" character varying(50) NOT NULL, "title" character varying(200) NOT NULL, "description" text, "order" integer NOT NULL, "level" integer NOT NULL DEFAULT '1', "isAuditable" boolean NOT NULL DEFAULT true, CONSTRAINT "PK_56c3462265bdd613f32d99e5de9" PRIMARY KEY ("id"))`,
+    )
+    await queryRunner.query(
+      `CREATE INDEX "IDX_eaf1242824e9c2b22b838d0941" ON "audit_standards" ("parentId") `,
+    )
+    await queryRunner.query(
+      `CREATE INDEX "IDX_0c625595cbb4329b63118cb66c" ON "audit_standards" ("auditId", "order") `,
+    )
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX "IDX_c49c50e0ecc7b2b7b5106d6fc8" ON "audit_standards" ("auditId", "code") `,
+    )
+    await queryRunner.query(
+      `CREATE TYPE "public"."audits_status_enum" AS ENUM('planned', 'in_fieldwork', 'in_review', 'closed')`,
+    )
+    await queryRunner.query(
+      `CREATE TABLE "audits" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "created_at" TIMESTAMP NOT NULL DEFAULT now(), "updated_at" TIMESTAMP NOT NULL DEFAULT now(), "created_by" character varying, "updated_by" character varying, "deletedAt" TIMESTAMP, "code" character varying(50) NOT NULL, "name" character varying(200) NOT NULL, "scope" text, "templateId" uuid NOT NULL, "organizationId" uuid NOT NULL, "frameworkId" uuid NOT NULL, "leadAuditorId" uuid NOT NULL, "plannedStartDate" date NOT NULL, "plannedEndDate" date NOT NULL, "startedAt" TIMESTAMP, "closedAt" TIMESTAMP, "status" "public"."audits_status_enum" NOT NULL DEFAULT 'planned', CONSTRAINT "PK_b2d7a2089999197dc7024820f28" PRIMARY KEY ("id"))`,
+    )
+    await queryRunner.query(
+      `CREATE INDEX "IDX_778ac560a42329b96e41de5d92" ON "audits" ("status") `,
+    )
+    await queryRunner.query(
+      `CREATE INDEX "IDX_9d388ca6ecd0a7da43c3fe144e" ON "audits" ("templateId") `,
+    )
+    await queryRunner.query(
+      `CREATE INDEX "IDX_59f6393ca7a2c7643fe0368a4d" ON "audits" ("organizationId") `,
+    )
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX "IDX_eb84d58992dcf34ef19634961d" ON "audits" ("code") WHERE "deletedAt" IS NULL`,
+    )
+    await queryRunner.query(
+      `ALTER TABLE "audit_standards" ADD CONSTRAINT "FK_5fe6cee4624d34e439dd17d7976" FOREIGN KEY ("auditId") REFERENCES "audits"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    )
+    await queryRunner.query(
+      `ALTER TABLE "audit_standards" ADD CONSTRAINT "FK_eaf1242824e9c2b22b838d0941a" FOREIGN KEY ("parentId") REFERENCES "audit_standards"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    )
+    await queryRunner.query(
+      `ALTER TABLE "audits" ADD CONSTRAINT "FK_9d388ca6ecd0a7da43c3fe144ee" FOREIGN KEY ("templateId") REFERENCES "templates"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`,
+    )
+    await queryRunner.query(
+      `ALTER TABLE "audits" ADD CONSTRAINT "FK_59f6393ca7a2c7643fe0368a4d2" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`,
+    )
+    await queryRunner.query(
+      `ALTER TABLE "audits" ADD CONSTRAINT "FK_314b932d31c60b010830ab9ae4a" FOREIGN KEY ("frameworkId") REFERENCES "maturity_frameworks"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`,
+    )
+    await queryRunner.query(
+      `ALTER TABLE "audits" ADD CONSTRAINT "FK_9b5941218ca2351d086da0f2bf3" FOREIGN KEY ("leadAuditorId") REFERENCES "users"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`,
+    )
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "audits" DROP CONSTRAINT "FK_9b5941218ca2351d086da0f2bf3"`,
+    )
+    await queryRunner.query(
+      `ALTER TABLE "audits" DROP CONSTRAINT "FK_314b932d31c60b010830ab9ae4a"`,
+    )
+    await queryRunner.query(
+      `ALTER TABLE "audits" DROP CONSTRAINT "FK_59f6393ca7a2c7643fe0368a4d2"`,
+    )
+    await queryRunner.query(
+      `ALTER TABLE "audits" DROP CONSTRAINT "FK_9d388ca6ecd0a7da43c3fe144ee"`,
+    )
+    await queryRunner.query(
+      `ALTER TABLE "audit_standards" DROP CONSTRAINT "FK_eaf1242824e9c2b22b838d0941a"`,
+    )
+    await queryRunner.query(
+      `ALTER TABLE "audit_standards" DROP CONSTRAINT "FK_5fe6cee4624d34e439dd17d7976"`,
+    )
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_eb84d58992dcf34ef19634961d"`,
+    )
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_59f6393ca7a2c7643fe0368a4d"`,
+    )
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_9d388ca6ecd0a7da43c3fe144e"`,
+    )
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_778ac560a42329b96e41de5d92"`,
+    )
+    await queryRunner.query(`DROP TABLE "audits"`)
+    await queryRunner.query(`DROP TYPE "public"."audits_status_enum"`)
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_c49c50e0ecc7b2b7b5106d6fc8"`,
+    )
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_0c625595cbb4329b63118cb66c"`,
+    )
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_eaf1242824e9c2b22b838d0941"`,
+    )
+    await queryRunner.query(`DROP TABLE "audit_standards"`)
+  }
+}
@@ -0,0 +1,45 @@
+import { MigrationInterface, QueryRunner } from 'typeorm'
+
+export class CreateAuditScores1792437461321 implements MigrationInterface {
+  name = 'CreateAuditScores1792437461321'
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "audit_scores" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "created_at" TIMESTAMP NOT NULL DEFAULT now(), "updated_at" TIMESTAMP NOT NULL DEFAULT now(), "created_by" character varying, "updated_by" character varying, "deletedAt" TIMESTAMP, "auditId" uuid NOT NULL, "auditStandardId" uuid NOT NULL, "maturityLevelId" uuid NOT NULL, "level" integer NOT NULL, "justification" text NOT NULL, "assessedById" uuid NOT NULL, "assessedAt" TIMESTAMP NOT NULL, CONSTRAINT "PK_1805d7ea723f3f47ee0391ad0c1" PRIMARY KEY ("id"))`,
+    )
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX "IDX_ad9b898109a1c3dc613acfe1b7" ON "audit_scores" ("auditId", "auditStandardId") WHERE "deletedAt" IS NULL`,
+    )
+    await queryRunner.query(
+      `ALTER TABLE "audit_scores" ADD CONSTRAINT "FK_7d94e01fa65473b5aaf49ad1449" FOREIGN KEY ("auditId") REFERENCES "audits"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    )
+    await queryRunner.query(
+      `ALTER TABLE "audit_scores" ADD CONSTRAINT "FK_2ba4f3f6e034190717af83f2a00" FOREIGN KEY ("auditStandardId") REFERENCES "audit_standards"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    )
+    await queryRunner.query(
+      `ALTER TABLE "audit_scores" ADD CONSTRAINT "FK_3f8a71f2c9a688a2daf2c3c09e4" FOREIGN KEY ("maturityLevelId") REFERENCES "maturity_levels"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`,
+    )
+    await queryRunner.query(
+      `ALTER TABLE "audit_scores" ADD CONSTRAINT "FK_4439ce2d65510435661e82715f5" FOREIGN KEY ("assessedById") REFERENCES "users"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`,
+    )
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "audit_scores" DROP CONSTRAINT "FK_4439ce2d65510435661e82715f5"`,
+    )
+    await queryRunner.query(
+      `ALTER TABLE "audit_scores" DROP CONSTRAINT "FK_3f8a71f2c9a688a2daf2c3c09e4"`,
+    )
+    await queryRunner.query(
+      `ALTER TABLE "audit_scores" DROP CONSTRAINT "FK_2ba4f3f6e034190717af83f2a00"`,
+    )
+    await queryRunner.query(
+      `ALTER TABLE "audit_scores" DROP CONSTRAINT "FK_7d94e01fa65473b5aaf49ad1449"`,
+    )
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_ad9b898109a1c3dc613acfe1b7"`,
+    )
+    await queryRunner.query(`DROP TABLE "audit_scores"`)
+  }
+}
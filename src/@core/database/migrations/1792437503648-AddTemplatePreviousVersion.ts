@@ -0,0 +1,29 @@
+import { MigrationInterface, QueryRunner } from 'typeorm'
+
+export class AddTemplatePreviousVersion1792437503648 implements MigrationInterface {
+  name = 'AddTemplatePreviousVersion1792437503648'
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "templates" ADD "previousVersionId" uuid`,
+    )
+    await queryRunner.query(
+      `CREATE INDEX "IDX_35644df0e4b775f902c13d8bd3" ON "templates" ("previousVersionId") `,
+    )
+    await queryRunner.query(
+      `ALTER TABLE "templates" ADD CONSTRAINT "FK_35644df0e4b775f902c13d8bd36" FOREIGN KEY ("previousVersionId") REFERENCES "templates"("id") ON DELETE SET NULL ON UPDATE NO ACTION`,
+    )
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "templates" DROP CONSTRAINT "FK_35644df0e4b775f902c13d8bd36"`,
+    )
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_35644df0e4b775f902c13d8bd3"`,
+    )
+    await queryRunner.query(
+      `ALTER TABLE "templates" DROP COLUMN "previousVersionId"`,
+    )
+  }
+}
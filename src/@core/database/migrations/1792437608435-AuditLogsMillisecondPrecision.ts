@@ -0,0 +1,29 @@
+import { MigrationInterface, QueryRunner } from 'typeorm'
+
+export class AuditLogsMillisecondPrecision1792437608435 implements MigrationInterface {
+  name = 'AuditLogsMillisecondPrecision1792437608435'
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_00f40b2db1b92c0afb3f8e4e00"`,
+    )
+    await queryRunner.query(
+      `ALTER TABLE "audit_logs" ALTER COLUMN "createdAt" TYPE TIMESTAMP(3)`,
+    )
+    await queryRunner.query(
+      `CREATE INDEX "IDX_00f40b2db1b92c0afb3f8e4e00" ON "audit_logs" ("rootId", "createdAt") `,
+    )
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_00f40b2db1b92c0afb3f8e4e00"`,
+    )
+    await queryRunner.query(
+      `ALTER TABLE "audit_logs" ALTER COLUMN "createdAt" TYPE TIMESTAMP(6)`,
+    )
+    await queryRunner.query(
+      `CREATE INDEX "IDX_00f40b2db1b92c0afb3f8e4e00" ON "audit_logs" ("createdAt", "rootId") `,
+    )
+  }
+}
@@ -0,0 +1,31 @@
+import { MigrationInterface, QueryRunner } from 'typeorm'
+
+export class AddAuditLogRestoreAction1792437654481 implements MigrationInterface {
+  name = 'AddAuditLogRestoreAction1792437654481'
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TYPE "public"."audit_logs_action_enum" RENAME TO "audit_logs_action_enum_old"`,
+    )
+    await queryRunner.query(
+      `CREATE TYPE "public"."audit_logs_action_enum" AS ENUM('CREATE', 'UPDATE', 'DELETE', 'ARCHIVE', 'RESTORE', 'ACTIVATE', 'DEACTIVATE', 'PUBLISH')`,
+    )
+    await queryRunner.query(
+      `ALTER TABLE "audit_logs" ALTER COLUMN "action" TYPE "public"."audit_logs_action_enum" USING "action"::"text"::"public"."audit_logs_action_enum"`,
+    )
+    await queryRunner.query(`DROP TYPE "public"."audit_logs_action_enum_old"`)
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TYPE "public"."audit_logs_action_enum_old" AS ENUM('CREATE', 'UPDATE', 'DELETE', 'ARCHIVE', 'ACTIVATE', 'DEACTIVATE', 'PUBLISH')`,
+    )
+    await queryRunner.query(
+      `ALTER TABLE "audit_logs" ALTER COLUMN "action" TYPE "public"."audit_logs_action_enum_old" USING "action"::"text"::"public"."audit_logs_action_enum_old"`,
+    )
+    await queryRunner.query(`DROP TYPE "public"."audit_logs_action_enum"`)
+    await queryRunner.query(
+      `ALTER TYPE "public"."audit_logs_action_enum_old" RENAME TO "audit_logs_action_enum"`,
+    )
+  }
+}
@@ -0,0 +1,72 @@
+import { MigrationInterface, QueryRunner } from 'typeorm'
+import { AuditChainService } from '../../../modules/audit-library/audit-log/services/audit-chain.service'
+import type { AuditLogEntity } from '../../../modules/audit-library/audit-log/entities/audit-log.entity'
+
+export class AddAuditLogHashChain1792437683782 implements MigrationInterface {
+  name = 'AddAuditLogHashChain1792437683782'
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "audit_logs" ADD "sequence" integer`)
+    await queryRunner.query(
+      `ALTER TABLE "audit_logs" ADD "previousHash" character varying(64)`,
+    )
+    await queryRunner.query(
+      `ALTER TABLE "audit_logs" ADD "hash" character varying(64)`,
+    )
+
+    await this.backfillChain(queryRunner)
+
+    await queryRunner.query(
+      `ALTER TABLE "audit_logs" ALTER COLUMN "sequence" SET NOT NULL`,
+    )
+    await queryRunner.query(
+      `ALTER TABLE "audit_logs" ALTER COLUMN "hash" SET NOT NULL`,
+    )
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX "IDX_ac264f0928eb0c20ad0ee53427" ON "audit_logs" ("rootId", "sequence") `,
+    )
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_ac264f0928eb0c20ad0ee53427"`,
+    )
+    await queryRunner.query(`ALTER TABLE "audit_logs" DROP COLUMN "hash"`)
+    await queryRunner.query(
+      `ALTER TABLE "audit_logs" DROP COLUMN "previousHash"`,
+    )
+    await queryRunner.query(`ALTER TABLE "audit_logs" DROP COLUMN "sequence"`)
+  }
+
+  /**
+   * Encadena los logs existentes de cada rootId en orden cronológico
+   *
+   * Usa el mismo AuditChainService que el subscriber para que la cadena
+   * resultante pase la verificación
+   */
+  private async backfillChain(queryRunner: QueryRunner): Promise<void> {
+    const chain = new AuditChainService()
+    const roots = (await queryRunner.query(
+      `SELECT DISTINCT "rootId" FROM "audit_logs"`,
+    )) as Array<{ rootId: string }>
+
+    for (const { rootId } of roots) {
+      const logs = (await queryRunner.query(
+        `SELECT * FROM "audit_logs" WHERE "rootId" = $1 ORDER BY "createdAt" ASC, "id" ASC`,
+        [rootId],
+      )) as AuditLogEntity[]
+
+      let previousHash: string | null = null
+      for (const [index, log] of logs.entries()) {
+        log.sequence = index + 1
+        log.previousHash = previousHash
+        log.hash = chain.computeHash(log)
+        await queryRunner.query(
+          `UPDATE "audit_logs" SET "sequence" = $1, "previousHash" = $2, "hash" = $3 WHERE "id" = $4`,
+          [log.sequence, log.previousHash, log.hash, log.id],
+        )
+        previousHash = log.hash
+      }
+    }
+  }
+}
@@ -0,0 +1,41 @@
+import { MigrationInterface, QueryRunner } from 'typeorm'
+
+export class CreateRoles1792437730392 implements MigrationInterface {
+  name = 'CreateRoles1792437730392'
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "roles" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "created_at" TIMESTAMP NOT NULL DEFAULT now(), "updated_at" TIMESTAMP NOT NULL DEFAULT now(), "created_by" character varying, "updated_by" character varying, "deletedAt" TIMESTAMP, "name" character varying(50) NOT NULL, "description" character varying(255), "isSystem" boolean NOT NULL DEFAULT false, CONSTRAINT "PK_c1433d71a4838793a49dcad46ab" PRIMARY KEY ("id"))`,
+    )
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX "IDX_e4951826423d2406fa794d36a7" ON "roles" ("name") WHERE "deletedAt" IS NULL`,
+    )
+    await queryRunner.query(
+      `ALTER TYPE "public"."audit_logs_action_enum" RENAME TO "audit_logs_action_enum_old"`,
+    )
+    await queryRunner.query(
+      `CREATE TYPE "public"."audit_logs_action_enum" AS ENUM('CREATE', 'UPDATE', 'DELETE', 'ARCHIVE', 'RESTORE', 'ACTIVATE', 'DEACTIVATE', 'PUBLISH', 'GRANT', 'REVOKE')`,
+    )
+    await queryRunner.query(
+      `ALTER TABLE "audit_logs" ALTER COLUMN "action" TYPE "public"."audit_logs_action_enum" USING "action"::"text"::"public"."audit_logs_action_enum"`,
+    )
+    await queryRunner.query(`DROP TYPE "public"."audit_logs_action_enum_old"`)
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TYPE "public"."audit_logs_action_enum_old" AS ENUM('CREATE', 'UPDATE', 'DELETE', 'ARCHIVE', 'RESTORE', 'ACTIVATE', 'DEACTIVATE', 'PUBLISH')`,
+    )
+    await queryRunner.query(
+      `ALTER TABLE "audit_logs" ALTER COLUMN "action" TYPE "public"."audit_logs_action_enum_old" USING "action"::"text"::"public"."audit_logs_action_enum_old"`,
+    )
+    await queryRunner.query(`DROP TYPE "public"."audit_logs_action_enum"`)
+    await queryRunner.query(
+      `ALTER TYPE "public"."audit_logs_action_enum_old" RENAME TO "audit_logs_action_enum"`,
+    )
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_e4951826423d2406fa794d36a7"`,
+    )
+    await queryRunner.query(`DROP TABLE "roles"`)
+  }
+}
@@ -0,0 +1,86 @@
+import { MigrationInterface, QueryRunner } from 'typeorm'
+import { AuditChainService } from '../../../modules/audit-library/audit-log/services/audit-chain.service'
+import type { AuditLogEntity } from '../../../modules/audit-library/audit-log/entities/audit-log.entity'
+
+export class AddAuditLogOrganization1792437770000 implements MigrationInterface {
+  name = 'AddAuditLogOrganization1792437770000'
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "audit_logs" ADD "organizationId" uuid`,
+    )
+    await queryRunner.query(
+      `CREATE INDEX "IDX_2d031e6155834882f54dcd6b4f" ON "audit_logs" ("organizationId") `,
+    )
+
+    // Entidades @TenantScoped con historial previo: usuarios y organizaciones
+    await queryRunner.query(
+      `UPDATE "audit_logs" SET "organizationId" = "users"."organizationId" FROM "users" WHERE "audit_logs"."entity" = 'User' AND "audit_logs"."entityId" = "users"."id"`,
+    )
+    await queryRunner.query(
+      `UPDATE "audit_logs" SET "organizationId" = "entityId" WHERE "entity" = 'Organization'`,
+    )
+
+    await this.rehashChains(
+      queryRunner,
+      await this.findScopedRoots(queryRunner),
+    )
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    const roots = await this.findScopedRoots(queryRunner)
+    await queryRunner.query(
+      `UPDATE "audit_logs" SET "organizationId" = NULL WHERE "organizationId" IS NOT NULL`,
+    )
+    await this.rehashChains(queryRunner, roots)
+
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_2d031e6155834882f54dcd6b4f"`,
+    )
+    await queryRunner.query(
+      `ALTER TABLE "audit_logs" DROP COLUMN "organizationId"`,
+    )
+  }
+
+  /**
+   * rootId con al menos un log asignado a una organización
+   */
+  private async findScopedRoots(queryRunner: QueryRunner): Promise<string[]> {
+    const rows = (await queryRunner.query(
+      `SELECT DISTINCT "rootId" FROM "audit_logs" WHERE "organizationId" IS NOT NULL`,
+    )) as Array<{ rootId: string }>
+    return rows.map((row) => row.rootId)
+  }
+
+  /**
+   * Recalcula la cadena de los rootId cuyo contenido cambió
+   *
+   * organizationId forma parte del hash cuando existe, así que los logs
+   * a los que se les asignó (o quitó) una organización cambian de hash
+   * y, con él, el previousHash de los siguientes eslabones
+   */
+  private async rehashChains(
+    queryRunner: QueryRunner,
+    rootIds: string[],
+  ): Promise<void> {
+    const chain = new AuditChainService()
+
+    for (const rootId of rootIds) {
+      const logs = (await queryRunner.query(
+        `SELECT * FROM "audit_logs" WHERE "rootId" = $1 ORDER BY "sequence" ASC`,
+        [rootId],
+      )) as AuditLogEntity[]
+
+      let previousHash: string | null = null
+      for (const log of logs) {
+        log.previousHash = previousHash
+        log.hash = chain.computeHash(log)
+        await queryRunner.query(
+          `UPDATE "audit_logs" SET "previousHash" = $1, "hash" = $2 WHERE "id" = $3`,
+          [log.previousHash, log.hash, log.id],
+        )
+        previousHash = log.hash
+      }
+    }
+  }
+}
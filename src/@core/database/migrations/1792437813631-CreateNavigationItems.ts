@@ -0,0 +1,27 @@
+import { MigrationInterface, QueryRunner } from 'typeorm'
+
+export class CreateNavigationItems1792437813631 implements MigrationInterface {
+  name = 'CreateNavigationItems1792437813631'
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "navigation_items" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "created_at" TIMESTAMP NOT NULL DEFAULT now(), "updated_at" TIMESTAMP NOT NULL DEFAULT now(), "created_by" character varying, "updated_by" character varying, "deletedAt" TIMESTAMP, "title" character varying(100) NOT NULL, "description" character varying(255), "url" character varying(255) NOT NULL, "icon" character varying(50), "badge" character varying(20), "order" integer NOT NULL DEFAULT '0', "roles" character varying array NOT NULL DEFAULT '{}', "disabled" boolean NOT NULL DEFAULT false, "includeTemplates" boolean NOT NULL DEFAULT false, "parentId" uuid, CONSTRAINT "PK_b2e93292f6312fafd3dbbf4a1bf" PRIMARY KEY ("id"))`,
+    )
+    await queryRunner.query(
+      `CREATE INDEX "IDX_d3adce37153e8743fb96ebe2d2" ON "navigation_items" ("parentId") `,
+    )
+    await queryRunner.query(
+      `ALTER TABLE "navigation_items" ADD CONSTRAINT "FK_d3adce37153e8743fb96ebe2d23" FOREIGN KEY ("parentId") REFERENCES "navigation_items"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    )
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "navigation_items" DROP CONSTRAINT "FK_d3adce37153e8743fb96ebe2d23"`,
+    )
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_d3adce37153e8743fb96ebe2d2"`,
+    )
+    await queryRunner.query(`DROP TABLE "navigation_items"`)
+  }
+}
@@ -0,0 +1,37 @@
+import { MigrationInterface, QueryRunner } from 'typeorm'
+
+export class CreateRoleGrants1792437853767 implements MigrationInterface {
+  name = 'CreateRoleGrants1792437853767'
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TYPE "public"."role_grants_role_enum" AS ENUM('admin', 'gerente', 'auditor', 'cliente')`,
+    )
+    await queryRunner.query(
+      `CREATE TABLE "role_grants" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "created_at" TIMESTAMP NOT NULL DEFAULT now(), "updated_at" TIMESTAMP NOT NULL DEFAULT now(), "created_by" character varying, "updated_by" character varying, "deletedAt" TIMESTAMP, "userId" uuid NOT NULL, "role" "public"."role_grants_role_enum" NOT NULL, "organizationId" uuid, "grantedById" uuid, "reason" character varying(255), "startsAt" TIMESTAMP NOT NULL, "expiresAt" TIMESTAMP NOT NULL, "revokedAt" TIMESTAMP, "revokedById" uuid, CONSTRAINT "PK_f7cf33da46b9f884f2d459e0eff" PRIMARY KEY ("id"))`,
+    )
+    await queryRunner.query(
+      `CREATE INDEX "IDX_089e9ac105d7729499c6a44212" ON "role_grants" ("expiresAt") WHERE "revokedAt" IS NULL`,
+    )
+    await queryRunner.query(
+      `CREATE INDEX "IDX_e35b3e509776aca1e4fe38e860" ON "role_grants" ("userId", "role") `,
+    )
+    await queryRunner.query(
+      `ALTER TABLE "role_grants" ADD CONSTRAINT "FK_7e9ed460f4d4b7a3abeac4b500d" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    )
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "role_grants" DROP CONSTRAINT "FK_7e9ed460f4d4b7a3abeac4b500d"`,
+    )
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_e35b3e509776aca1e4fe38e860"`,
+    )
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_089e9ac105d7729499c6a44212"`,
+    )
+    await queryRunner.query(`DROP TABLE "role_grants"`)
+    await queryRunner.query(`DROP TYPE "public"."role_grants_role_enum"`)
+  }
+}
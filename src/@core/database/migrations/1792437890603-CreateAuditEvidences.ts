@@ -0,0 +1,61 @@
+import { MigrationInterface, QueryRunner } from 'typeorm'
+
+export class CreateAuditEvidences1792437890603 implements MigrationInterface {
+  name = 'CreateAuditEvidences1792437890603'
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TYPE "public"."audit_evidence_versions_filetype_enum" AS ENUM('image', 'document', 'spreadsheet', 'pdf', 'video', 'audio')`,
+    )
+    await queryRunner.query(
+      `CREATE TABLE "audit_evidence_versions" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "created_at" TIMESTAMP NOT NULL DEFAULT now(), "updated_at" TIMESTAMP NOT NULL DEFAULT now(), "created_by" character varying, "updated_by" character varying, "deletedAt" TIMESTAMP, "evidenceId" uuid NOT NULL, "version" integer NOT NULL, "originalName" character varying(255) NOT NULL, "filePath" character varying(500) NOT NULL, "fileType" "public"."audit_evidence_versions_filetype_enum" NOT NULL, "mimeType" character varying(150) NOT NULL, "size" integer NOT NULL, "sha256" character(64) NOT NULL, "uploadedById" uuid NOT NULL, "uploadedAt" TIMESTAMP NOT NULL, CONSTRAINT "PK_9a90807e128f547b00eca4de5f6" PRIMARY KEY ("id"))`,
+    )
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX "IDX_60b855703da3107d42dbed429e" ON "audit_evidence_versions" ("evidenceId", "version") `,
+    )
+    await queryRunner.query(
+      `CREATE TABLE "audit_evidences" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "created_at" TIMESTAMP NOT NULL DEFAULT now(), "updated_at" TIMESTAMP NOT NULL DEFAULT now(), "created_by" character varying, "updated_by" character varying, "deletedAt" TIMESTAMP, "auditId" uuid NOT NULL, "auditStandardId" uuid NOT NULL, "title" character varying(200) NOT NULL, "description" text, "currentVersion" integer NOT NULL DEFAULT '1', CONSTRAINT "PK_1f24b7b023b4865a3037ea32e87" PRIMARY KEY ("id"))`,
+    )
+    await queryRunner.query(
+      `CREATE INDEX "IDX_c3e5834abd473cb3b9ece57763" ON "audit_evidences" ("auditId", "auditStandardId") `,
+    )
+    await queryRunner.query(
+      `ALTER TABLE "audit_evidence_versions" ADD CONSTRAINT "FK_4b972cc29801d7316e7f9479092" FOREIGN KEY ("evidenceId") REFERENCES "audit_evidences"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    )
+    await queryRunner.query(
+      `ALTER TABLE "audit_evidence_versions" ADD CONSTRAINT "FK_60ed581ebbb52d1dd40147fdb79" FOREIGN KEY ("uploadedById") REFERENCES "users"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`,
+    )
+    await queryRunner.query(
+      `ALTER TABLE "audit_evidences" ADD CONSTRAINT "FK_78665ef3ffe3b36a9f2f74d78a0" FOREIGN KEY ("auditId") REFERENCES "audits"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    )
+    await queryRunner.query(
+      `ALTER TABLE "audit_evidences" ADD CONSTRAINT "FK_23af89e54044f56676fd7c9214a" FOREIGN KEY ("auditStandardId") REFERENCES "audit_standards"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    )
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "audit_evidences" DROP CONSTRAINT "FK_23af89e54044f56676fd7c9214a"`,
+    )
+    await queryRunner.query(
+      `ALTER TABLE "audit_evidences" DROP CONSTRAINT "FK_78665ef3ffe3b36a9f2f74d78a0"`,
+    )
+    await queryRunner.query(
+      `ALTER TABLE "audit_evidence_versions" DROP CONSTRAINT "FK_60ed581ebbb52d1dd40147fdb79"`,
+    )
+    await queryRunner.query(
+      `ALTER TABLE "audit_evidence_versions" DROP CONSTRAINT "FK_4b972cc29801d7316e7f9479092"`,
+    )
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_c3e5834abd473cb3b9ece57763"`,
+    )
+    await queryRunner.query(`DROP TABLE "audit_evidences"`)
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_60b855703da3107d42dbed429e"`,
+    )
+    await queryRunner.query(`DROP TABLE "audit_evidence_versions"`)
+    await queryRunner.query(
+      `DROP TYPE "public"."audit_evidence_versions_filetype_enum"`,
+    )
+  }
+}
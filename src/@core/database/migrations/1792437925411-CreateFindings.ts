@@ -0,0 +1,83 @@
+import { MigrationInterface, QueryRunner } from 'typeorm'
+
+export class CreateFindings1792437925411 implements MigrationInterface {
+  name = 'CreateFindings1792437925411'
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TYPE "public"."findings_type_enum" AS ENUM('major_nonconformity', 'minor_nonconformity', 'observation', 'opportunity_for_improvement')`,
+    )
+    await queryRunner.query(
+      `CREATE TYPE "public"."findings_riskrating_enum" AS ENUM('low', 'medium', 'high', 'critical')`,
+    )
+    await queryRunner.query(
+      `CREATE TYPE "public"."findings_status_enum" AS ENUM('draft', 'communicated', 'accepted', 'disputed', 'closed')`,
+    )
+    await queryRunner.query(
+      `CREATE TABLE "findings" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "created_at" TIMESTAMP NOT NULL DEFAULT now(), "updated_at" TIMESTAMP NOT NULL DEFAULT now(), "created_by" character varying, "updated_by" character varying, "deletedAt" TIMESTAMP, "title" character varying(200) NOT NULL, "description" text NOT NULL, "type" "public"."findings_type_enum" NOT NULL, "riskRating" "public"."findings_riskrating_enum" NOT NULL, "rootCause" text, "status" "public"."findings_status_enum" NOT NULL DEFAULT 'draft', "organizationId" uuid NOT NULL, "standardId" uuid NOT NULL, "reportedById" uuid NOT NULL, "communicatedAt" TIMESTAMP, "response" text, "respondedAt" TIMESTAMP, "closedAt" TIMESTAMP, CONSTRAINT "PK_ae9807d6293c23c13ff8804d09c" PRIMARY KEY ("id"))`,
+    )
+    await queryRunner.query(
+      `CREATE INDEX "IDX_ac266f5c90629a39ea35446efe" ON "findings" ("status") `,
+    )
+    await queryRunner.query(
+      `CREATE INDEX "IDX_b6d68985b783536a54b2e67fba" ON "findings" ("standardId") `,
+    )
+    await queryRunner.query(
+      `CREATE INDEX "IDX_d8fec3b85144412395dcfa2208" ON "findings" ("organizationId") `,
+    )
+    await queryRunner.query(
+      `ALTER TYPE "public"."audit_logs_action_enum" RENAME TO "audit_logs_action_enum_old"`,
+    )
+    await queryRunner.query(
+      `CREATE TYPE "public"."audit_logs_action_enum" AS ENUM('CREATE', 'UPDATE', 'DELETE', 'ARCHIVE', 'RESTORE', 'ACTIVATE', 'DEACTIVATE', 'PUBLISH', 'GRANT', 'REVOKE', 'COMMUNICATE', 'ACCEPT', 'DISPUTE', 'CLOSE')`,
+    )
+    await queryRunner.query(
+      `ALTER TABLE "audit_logs" ALTER COLUMN "action" TYPE "public"."audit_logs_action_enum" USING "action"::"text"::"public"."audit_logs_action_enum"`,
+    )
+    await queryRunner.query(`DROP TYPE "public"."audit_logs_action_enum_old"`)
+    await queryRunner.query(
+      `ALTER TABLE "findings" ADD CONSTRAINT "FK_d8fec3b85144412395dcfa2208a" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`,
+    )
+    await queryRunner.query(
+      `ALTER TABLE "findings" ADD CONSTRAINT "FK_b6d68985b783536a54b2e67fbaf" FOREIGN KEY ("standardId") REFERENCES "standards"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`,
+    )
+    await queryRunner.query(
+      `ALTER TABLE "findings" ADD CONSTRAINT "FK_5afb21623670d2a25f8a7c2a571" FOREIGN KEY ("reportedById") REFERENCES "users"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`,
+    )
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "findings" DROP CONSTRAINT "FK_5afb21623670d2a25f8a7c2a571"`,
+    )
+    await queryRunner.query(
+      `ALTER TABLE "findings" DROP CONSTRAINT "FK_b6d68985b783536a54b2e67fbaf"`,
+    )
+    await queryRunner.query(
+      `ALTER TABLE "findings" DROP CONSTRAINT "FK_d8fec3b85144412395dcfa2208a"`,
+    )
+    await queryRunner.query(
+      `CREATE TYPE "public"."audit_logs_action_enum_old" AS ENUM('CREATE', 'UPDATE', 'DELETE', 'ARCHIVE', 'RESTORE', 'ACTIVATE', 'DEACTIVATE', 'PUBLISH', 'GRANT', 'REVOKE')`,
+    )
+    await queryRunner.query(
+      `ALTER TABLE "audit_logs" ALTER COLUMN "action" TYPE "public"."audit_logs_action_enum_old" USING "action"::"text"::"public"."audit_logs_action_enum_old"`,
+    )
+    await queryRunner.query(`DROP TYPE "public"."audit_logs_action_enum"`)
+    await queryRunner.query(
+      `ALTER TYPE "public"."audit_logs_action_enum_old" RENAME TO "audit_logs_action_enum"`,
+    )
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_d8fec3b85144412395dcfa2208"`,
+    )
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_b6d68985b783536a54b2e67fba"`,
+    )
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_ac266f5c90629a39ea35446efe"`,
+    )
+    await queryRunner.query(`DROP TABLE "findings"`)
+    await queryRunner.query(`DROP TYPE "public"."findings_status_enum"`)
+    await queryRunner.query(`DROP TYPE "public"."findings_riskrating_enum"`)
+    await queryRunner.query(`DROP TYPE "public"."findings_type_enum"`)
+  }
+}
@@ -0,0 +1,73 @@
+import { MigrationInterface, QueryRunner } from 'typeorm'
+
+export class CreateCorrectiveActions1792437973536 implements MigrationInterface {
+  name = 'CreateCorrectiveActions1792437973536'
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "corrective_action_notes" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "created_at" TIMESTAMP NOT NULL DEFAULT now(), "updated_at" TIMESTAMP NOT NULL DEFAULT now(), "created_by" character varying, "updated_by" character varying, "deletedAt" TIMESTAMP, "actionId" uuid NOT NULL, "note" text NOT NULL, "progress" integer, "authorId" uuid NOT NULL, CONSTRAINT "PK_e729940a3f51706ca3a0b57e8da" PRIMARY KEY ("id"))`,
+    )
+    await queryRunner.query(
+      `CREATE INDEX "IDX_c547d2c926c866916476a04cd5" ON "corrective_action_notes" ("actionId", "created_at") `,
+    )
+    await queryRunner.query(
+      `CREATE TYPE "public"."corrective_actions_status_enum" AS ENUM('open', 'in_progress', 'completed', 'cancelled')`,
+    )
+    await queryRunner.query(
+      `CREATE TABLE "corrective_actions" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "created_at" TIMESTAMP NOT NULL DEFAULT now(), "updated_at" TIMESTAMP NOT NULL DEFAULT now(), "created_by" character varying, "updated_by" character varying, "deletedAt" TIMESTAMP, "findingId" uuid NOT NULL, "organizationId" uuid NOT NULL, "description" text NOT NULL, "ownerId" uuid NOT NULL, "dueDate" date NOT NULL, "status" "public"."corrective_actions_status_enum" NOT NULL DEFAULT 'open', "progress" integer NOT NULL DEFAULT '0', "completedAt" TIMESTAMP, "lastReminderAt" TIMESTAMP, "escalatedAt" TIMESTAMP, CONSTRAINT "PK_b1382eccccc5ca8d821e3688ade" PRIMARY KEY ("id"))`,
+    )
+    await queryRunner.query(
+      `CREATE INDEX "IDX_867db2dfa3b5f1a8619104e8b6" ON "corrective_actions" ("status", "dueDate") `,
+    )
+    await queryRunner.query(
+      `CREATE INDEX "IDX_8ffa6fb6443cdb17cd4de6e70b" ON "corrective_actions" ("ownerId") `,
+    )
+    await queryRunner.query(
+      `CREATE INDEX "IDX_38389fc1cad4ee543d79ced918" ON "corrective_actions" ("findingId") `,
+    )
+    await queryRunner.query(
+      `ALTER TABLE "corrective_action_notes" ADD CONSTRAINT "FK_46fea797e22619068119f1420c7" FOREIGN KEY ("actionId") REFERENCES "corrective_actions"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    )
+    await queryRunner.query(
+      `ALTER TABLE "corrective_action_notes" ADD CONSTRAINT "FK_8485d45014ed59d1e5324111550" FOREIGN KEY ("authorId") REFERENCES "users"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`,
+    )
+    await queryRunner.query(
+      `ALTER TABLE "corrective_actions" ADD CONSTRAINT "FK_38389fc1cad4ee543d79ced9183" FOREIGN KEY ("findingId") REFERENCES "findings"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`,
+    )
+    await queryRunner.query(
+      `ALTER TABLE "corrective_actions" ADD CONSTRAINT "FK_8ffa6fb6443cdb17cd4de6e70b1" FOREIGN KEY ("ownerId") REFERENCES "users"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`,
+    )
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "corrective_actions" DROP CONSTRAINT "FK_8ffa6fb6443cdb17cd4de6e70b1"`,
+    )
+    await queryRunner.query(
+      `ALTER TABLE "corrective_actions" DROP CONSTRAINT "FK_38389fc1cad4ee543d79ced9183"`,
+    )
+    await queryRunner.query(
+      `ALTER TABLE "corrective_action_notes" DROP CONSTRAINT "FK_8485d45014ed59d1e5324111550"`,
+    )
+    await queryRunner.query(
+      `ALTER TABLE "corrective_action_notes" DROP CONSTRAINT "FK_46fea797e22619068119f1420c7"`,
+    )
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_38389fc1cad4ee543d79ced918"`,
+    )
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_8ffa6fb6443cdb17cd4de6e70b"`,
+    )
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_867db2dfa3b5f1a8619104e8b6"`,
+    )
+    await queryRunner.query(`DROP TABLE "corrective_actions"`)
+    await queryRunner.query(
+      `DROP TYPE "public"."corrective_actions_status_enum"`,
+    )
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_c547d2c926c866916476a04cd5"`,
+    )
+    await queryRunner.query(`DROP TABLE "corrective_action_notes"`)
+  }
+}
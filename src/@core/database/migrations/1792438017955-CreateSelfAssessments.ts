@@ -0,0 +1,149 @@
+import { MigrationInterface, QueryRunner } from 'typeorm'
+
+export class CreateSelfAssessments1792438017955 implements MigrationInterface {
+  name = 'CreateSelfAssessments1792438017955'
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TYPE "public"."self_assessment_attachments_filetype_enum" AS ENUM('image', 'document', 'spreadsheet', 'pdf', 'video', 'audio')`,
+    )
+    await queryRunner.query(
+      `CREATE TABLE "self_assessment_attachments" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "created_at" TIMESTAMP NOT NULL DEFAULT now(), "updated_at" TIMESTAMP NOT NULL DEFAULT now(), "created_by" character varying, "updated_by" character varying, "deletedAt" TIMESTAMP, "responseId" uuid NOT NULL, "originalName" character varying(255) NOT NULL, "filePath" character varying(500) NOT NULL, "fileType" "public"."self_assessment_attachments_filetype_enum" NOT NULL, "mimeType" character varying(150) NOT NULL, "size" integer NOT NULL, "uploadedById" uuid NOT NULL, CONSTRAINT "PK_ec9d06a09a5fe4dc84507b13cea" PRIMARY KEY ("id"))`,
+    )
+    await queryRunner.query(
+      `CREATE INDEX "IDX_c2fdc4d42c0250a9754e4b5ffc" ON "self_assessment_attachments" ("responseId") `,
+    )
+    await queryRunner.query(
+      `CREATE TYPE "public"."self_assessment_responses_answer_enum" AS ENUM('implemented', 'partially_implemented', 'not_implemented', 'not_applicable')`,
+    )
+    await queryRunner.query(
+      `CREATE TYPE "public"."self_assessment_responses_reviewstatus_enum" AS ENUM('pending', 'accepted', 'challenged')`,
+    )
+    await queryRunner.query(
+      `CREATE TABLE "self_assessment_responses" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "created_at" TIMESTAMP NOT NULL DEFAULT now(), "updated_at" TIMESTAMP NOT NULL DEFAULT now(), "created_by" character varying, "updated_by" character varying, "deletedAt" TIMESTAMP, "selfAssessmentId" uuid NOT NULL, "sourceStandardId" uuid NOT NULL, "code" character varying(50) NOT NULL, "title" character varying(200) NOT NULL, "description" text, "order" integer NOT NULL, "answer" "public"."self_assessment_responses_answer_enum", "comment" text, "answeredById" uuid, "answeredAt" TIMESTAMP, "reviewStatus" "public"."self_assessment_responses_reviewstatus_enum" NOT NULL DEFAULT 'pending', "reviewComment" text, "reviewedById" uuid, "reviewedAt" TIMESTAMP, CONSTRAINT "PK_dee5fbe21652f70e2de44420963" PRIMARY KEY ("id"))`,
+    )
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX "IDX_94160910012547e4caa21afb65" ON "self_assessment_responses" ("selfAssessmentId", "sourceStandardId") `,
+    )
+    await queryRunner.query(
+      `CREATE INDEX "IDX_dffb05991bafc27da5dc5107e8" ON "self_assessment_responses" ("selfAssessmentId", "order") `,
+    )
+    await queryRunner.query(
+      `CREATE TYPE "public"."self_assessments_status_enum" AS ENUM('open', 'submitted', 'returned', 'completed')`,
+    )
+    await queryRunner.query(
+      `CREATE TABLE "self_assessments" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "created_at" TIMESTAMP NOT NULL DEFAULT now(), "updated_at" TIMESTAMP NOT NULL DEFAULT now(), "created_by" character varying, "updated_by" character varying, "deletedAt" TIMESTAMP, "title" character varying(200) NOT NULL, "templateId" uuid NOT NULL, "organizationId" uuid NOT NULL, "assignedById" uuid NOT NULL, "dueDate" date, "status" "public"."self_assessments_status_enum" NOT NULL DEFAULT 'open', "submittedAt" TIMESTAMP, "completedAt" TIMESTAMP, CONSTRAINT "PK_204a0d64684ffe2cf6f5a56346f" PRIMARY KEY ("id"))`,
+    )
+    await queryRunner.query(
+      `CREATE INDEX "IDX_2463e7c7f20ee0fa3aed7f0a97" ON "self_assessments" ("status") `,
+    )
+    await queryRunner.query(
+      `CREATE INDEX "IDX_e13d892391f7dea52ff652887f" ON "self_assessments" ("templateId") `,
+    )
+    await queryRunner.query(
+      `CREATE INDEX "IDX_61f403b95bfc3ad03ae523b140" ON "self_assessments" ("organizationId") `,
+    )
+    await queryRunner.query(
+      `ALTER TYPE "public"."audit_logs_action_enum" RENAME TO "audit_logs_action_enum_old"`,
+    )
+    await queryRunner.query(
+      `CREATE TYPE "public"."audit_logs_action_enum" AS ENUM('CREATE', 'UPDATE', 'DELETE', 'ARCHIVE', 'RESTORE', 'ACTIVATE', 'DEACTIVATE', 'PUBLISH', 'GRANT', 'REVOKE', 'COMMUNICATE', 'ACCEPT', 'DISPUTE', 'CLOSE', 'SUBMIT', 'RETURN')`,
+    )
+    await queryRunner.query(
+      `ALTER TABLE "audit_logs" ALTER COLUMN "action" TYPE "public"."audit_logs_action_enum" USING "action"::"text"::"public"."audit_logs_action_enum"`,
+    )
+    await queryRunner.query(`DROP TYPE "public"."audit_logs_action_enum_old"`)
+    await queryRunner.query(
+      `ALTER TABLE "self_assessment_attachments" ADD CONSTRAINT "FK_c2fdc4d42c0250a9754e4b5ffca" FOREIGN KEY ("responseId") REFERENCES "self_assessment_responses"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    )
+    await queryRunner.query(
+      `ALTER TABLE "self_assessment_attachments" ADD CONSTRAINT "FK_18b8f5dab1bdb98e496fd3ff92e" FOREIGN KEY ("uploadedById") REFERENCES "users"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`,
+    )
+    await queryRunner.query(
+      `ALTER TABLE "self_assessment_responses" ADD CONSTRAINT "FK_a487e64e0d3b0406efa55f67d10" FOREIGN KEY ("selfAssessmentId") REFERENCES "self_assessments"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    )
+    await queryRunner.query(
+      `ALTER TABLE "self_assessment_responses" ADD CONSTRAINT "FK_8ceaaac98d04a65ba5a50fa833d" FOREIGN KEY ("answeredById") REFERENCES "users"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`,
+    )
+    await queryRunner.query(
+      `ALTER TABLE "self_assessment_responses" ADD CONSTRAINT "FK_4220a78d49db82de3fb4c34342b" FOREIGN KEY ("reviewedById") REFERENCES "users"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`,
+    )
+    await queryRunner.query(
+      `ALTER TABLE "self_assessments" ADD CONSTRAINT "FK_e13d892391f7dea52ff652887f6" FOREIGN KEY ("templateId") REFERENCES "templates"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`,
+    )
+    await queryRunner.query(
+      `ALTER TABLE "self_assessments" ADD CONSTRAINT "FK_61f403b95bfc3ad03ae523b1405" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`,
+    )
+    await queryRunner.query(
+      `ALTER TABLE "self_assessments" ADD CONSTRAINT "FK_178b48fe09d14666730e96bef49" FOREIGN KEY ("assignedById") REFERENCES "users"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`,
+    )
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "self_assessments" DROP CONSTRAINT "FK_178b48fe09d14666730e96bef49"`,
+    )
+    await queryRunner.query(
+      `ALTER TABLE "self_assessments" DROP CONSTRAINT "FK_61f403b95bfc3ad03ae523b1405"`,
+    )
+    await queryRunner.query(
+      `ALTER TABLE "self_assessments" DROP CONSTRAINT "FK_e13d892391f7dea52ff652887f6"`,
+    )
+    await queryRunner.query(
+      `ALTER TABLE "self_assessment_responses" DROP CONSTRAINT "FK_4220a78d49db82de3fb4c34342b"`,
+    )
+    await queryRunner.query(
+      `ALTER TABLE "self_assessment_responses" DROP CONSTRAINT "FK_8ceaaac98d04a65ba5a50fa833d"`,
+    )
+    await queryRunner.query(
+      `ALTER TABLE "self_assessment_responses" DROP CONSTRAINT "FK_a487e64e0d3b0406efa55f67d10"`,
+    )
+    await queryRunner.query(
+      `ALTER TABLE "self_assessment_attachments" DROP CONSTRAINT "FK_18b8f5dab1bdb98e496fd3ff92e"`,
+    )
+    await queryRunner.query(
+      `ALTER TABLE "self_assessment_attachments" DROP CONSTRAINT "FK_c2fdc4d42c0250a9754e4b5ffca"`,
+    )
+    await queryRunner.query(
+      `CREATE TYPE "public"."audit_logs_action_enum_old" AS ENUM('CREATE', 'UPDATE', 'DELETE', 'ARCHIVE', 'RESTORE', 'ACTIVATE', 'DEACTIVATE', 'PUBLISH', 'GRANT', 'REVOKE', 'COMMUNICATE', 'ACCEPT', 'DISPUTE', 'CLOSE')`,
+    )
+    await queryRunner.query(
+      `ALTER TABLE "audit_logs" ALTER COLUMN "action" TYPE "public"."audit_logs_action_enum_old" USING "action"::"text"::"public"."audit_logs_action_enum_old"`,
+    )
+    await queryRunner.query(`DROP TYPE "public"."audit_logs_action_enum"`)
+    await queryRunner.query(
+      `ALTER TYPE "public"."audit_logs_action_enum_old" RENAME TO "audit_logs_action_enum"`,
+    )
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_61f403b95bfc3ad03ae523b140"`,
+    )
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_e13d892391f7dea52ff652887f"`,
+    )
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_2463e7c7f20ee0fa3aed7f0a97"`,
+    )
+    await queryRunner.query(`DROP TABLE "self_assessments"`)
+    await queryRunner.query(`DROP TYPE "public"."self_assessments_status_enum"`)
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_dffb05991bafc27da5dc5107e8"`,
+    )
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_94160910012547e4caa21afb65"`,
+    )
+    await queryRunner.query(`DROP TABLE "self_assessment_responses"`)
+    await queryRunner.query(
+      `DROP TYPE "public"."self_assessment_responses_reviewstatus_enum"`,
+    )
+    await queryRunner.query(
+      `DROP TYPE "public"."self_assessment_responses_answer_enum"`,
+    )
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_c2fdc4d42c0250a9754e4b5ffc"`,
+    )
+    await queryRunner.query(`DROP TABLE "self_assessment_attachments"`)
+    await queryRunner.query(
+      `DROP TYPE "public"."self_assessment_attachments_filetype_enum"`,
+    )
+  }
+}
@@ -0,0 +1,105 @@
+import { MigrationInterface, QueryRunner } from 'typeorm'
+
+export class CreateReviews1792438063209 implements MigrationInterface {
+  name = 'CreateReviews1792438063209'
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TYPE "public"."review_sign_offs_action_enum" AS ENUM('submit', 'approve', 'return')`,
+    )
+    await queryRunner.query(
+      `CREATE TYPE "public"."review_sign_offs_role_enum" AS ENUM('admin', 'gerente', 'auditor', 'cliente')`,
+    )
+    await queryRunner.query(
+      `CREATE TABLE "review_sign_offs" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "created_at" TIMESTAMP NOT NULL DEFAULT now(), "updated_at" TIMESTAMP NOT NULL DEFAULT now(), "created_by" character varying, "updated_by" character varying, "deletedAt" TIMESTAMP, "reviewId" uuid NOT NULL, "action" "public"."review_sign_offs_action_enum" NOT NULL, "userId" uuid NOT NULL, "role" "public"."review_sign_offs_role_enum" NOT NULL, "contentHash" character varying(64) NOT NULL, "comment" text, "signedAt" TIMESTAMP NOT NULL, CONSTRAINT "PK_6363572d1b051e3636236cb4203" PRIMARY KEY ("id"))`,
+    )
+    await queryRunner.query(
+      `CREATE INDEX "IDX_faba2b4ddfbcc169a009cfc74f" ON "review_sign_offs" ("userId") `,
+    )
+    await queryRunner.query(
+      `CREATE INDEX "IDX_2b0084ac9e9f63523ca9248934" ON "review_sign_offs" ("reviewId") `,
+    )
+    await queryRunner.query(
+      `CREATE TYPE "public"."reviews_status_enum" AS ENUM('submitted', 'returned', 'approved')`,
+    )
+    await queryRunner.query(
+      `CREATE TABLE "reviews" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "created_at" TIMESTAMP NOT NULL DEFAULT now(), "updated_at" TIMESTAMP NOT NULL DEFAULT now(), "created_by" character varying, "updated_by" character varying, "deletedAt" TIMESTAMP, "subjectType" character varying(50) NOT NULL, "subjectId" uuid NOT NULL, "organizationId" uuid, "status" "public"."reviews_status_enum" NOT NULL DEFAULT 'submitted', "contentHash" character varying(64) NOT NULL, "submittedById" uuid NOT NULL, "submittedAt" TIMESTAMP NOT NULL, "reviewedById" uuid, "reviewedAt" TIMESTAMP, "reviewComment" text, CONSTRAINT "PK_231ae565c273ee700b283f15c1d" PRIMARY KEY ("id"))`,
+    )
+    await queryRunner.query(
+      `CREATE INDEX "IDX_7b06c23cf52ca8aea0dcaf0ee2" ON "reviews" ("status") `,
+    )
+    await queryRunner.query(
+      `CREATE INDEX "IDX_ea45afa5b8e08b1fdf7ae96b3d" ON "reviews" ("organizationId") `,
+    )
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX "IDX_23f735e3086cf0b4a73ecb80ee" ON "reviews" ("subjectType", "subjectId") WHERE "deletedAt" IS NULL`,
+    )
+    await queryRunner.query(
+      `ALTER TYPE "public"."audit_logs_action_enum" RENAME TO "audit_logs_action_enum_old"`,
+    )
+    await queryRunner.query(
+      `CREATE TYPE "public"."audit_logs_action_enum" AS ENUM('CREATE', 'UPDATE', 'DELETE', 'ARCHIVE', 'RESTORE', 'ACTIVATE', 'DEACTIVATE', 'PUBLISH', 'GRANT', 'REVOKE', 'COMMUNICATE', 'ACCEPT', 'DISPUTE', 'CLOSE', 'SUBMIT', 'RETURN', 'APPROVE')`,
+    )
+    await queryRunner.query(
+      `ALTER TABLE "audit_logs" ALTER COLUMN "action" TYPE "public"."audit_logs_action_enum" USING "action"::"text"::"public"."audit_logs_action_enum"`,
+    )
+    await queryRunner.query(`DROP TYPE "public"."audit_logs_action_enum_old"`)
+    await queryRunner.query(
+      `ALTER TABLE "review_sign_offs" ADD CONSTRAINT "FK_2b0084ac9e9f63523ca9248934a" FOREIGN KEY ("reviewId") REFERENCES "reviews"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    )
+    await queryRunner.query(
+      `ALTER TABLE "review_sign_offs" ADD CONSTRAINT "FK_faba2b4ddfbcc169a009cfc74f2" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`,
+    )
+    await queryRunner.query(
+      `ALTER TABLE "reviews" ADD CONSTRAINT "FK_cf0f066c384c7315d29b229dc0f" FOREIGN KEY ("submittedById") REFERENCES "users"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`,
+    )
+    await queryRunner.query(
+      `ALTER TABLE "reviews" ADD CONSTRAINT "FK_8c931e094b159bbb67ffd2434c9" FOREIGN KEY ("reviewedById") REFERENCES "users"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`,
+    )
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "reviews" DROP CONSTRAINT "FK_8c931e094b159bbb67ffd2434c9"`,
+    )
+    await queryRunner.query(
+      `ALTER TABLE "reviews" DROP CONSTRAINT "FK_cf0f066c384c7315d29b229dc0f"`,
+    )
+    await queryRunner.query(
+      `ALTER TABLE "review_sign_offs" DROP CONSTRAINT "FK_faba2b4ddfbcc169a009cfc74f2"`,
+    )
+    await queryRunner.query(
+      `ALTER TABLE "review_sign_offs" DROP CONSTRAINT "FK_2b0084ac9e9f63523ca9248934a"`,
+    )
+    await queryRunner.query(
+      `CREATE TYPE "public"."audit_logs_action_enum_old" AS ENUM('CREATE', 'UPDATE', 'DELETE', 'ARCHIVE', 'RESTORE', 'ACTIVATE', 'DEACTIVATE', 'PUBLISH', 'GRANT', 'REVOKE', 'COMMUNICATE', 'ACCEPT', 'DISPUTE', 'CLOSE', 'SUBMIT', 'RETURN')`,
+    )
+    await queryRunner.query(
+      `ALTER TABLE "audit_logs" ALTER COLUMN "action" TYPE "public"."audit_logs_action_enum_old" USING "action"::"text"::"public"."audit_logs_action_enum_old"`,
+    )
+    await queryRunner.query(`DROP TYPE "public"."audit_logs_action_enum"`)
+    await queryRunner.query(
+      `ALTER TYPE "public"."audit_logs_action_enum_old" RENAME TO "audit_logs_action_enum"`,
+    )
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_23f735e3086cf0b4a73ecb80ee"`,
+    )
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_ea45afa5b8e08b1fdf7ae96b3d"`,
+    )
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_7b06c23cf52ca8aea0dcaf0ee2"`,
+    )
+    await queryRunner.query(`DROP TABLE "reviews"`)
+    await queryRunner.query(`DROP TYPE "public"."reviews_status_enum"`)
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_2b0084ac9e9f63523ca9248934"`,
+    )
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_faba2b4ddfbcc169a009cfc74f"`,
+    )
+    await queryRunner.query(`DROP TABLE "review_sign_offs"`)
+    await queryRunner.query(`DROP TYPE "public"."review_sign_offs_role_enum"`)
+    await queryRunner.query(`DROP TYPE "public"."review_sign_offs_action_enum"`)
+  }
+}
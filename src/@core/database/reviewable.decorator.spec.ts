@@ -0,0 +1,50 @@
+import { Reviewable, ReviewableRegistry } from './reviewable.decorator'
+import { TenantScoped } from './tenant-scoped.decorator'
+
+describe('Reviewable', () => {
+  @TenantScoped<ReportEntity>('organizationId')
+  @Reviewable<ReportEntity>({ type: 'report', ignore: ['status'] })
+  class ReportEntity {
+    id: string
+    organizationId: string
+    status: string
+  }
+
+  @Reviewable<EngagementEntity>({ type: 'engagement' })
+  class EngagementEntity {
+    id: string
+    organizationId: string
+  }
+
+  it('debe registrar la entidad por su tipo', () => {
+    const config = ReviewableRegistry.get('report')
+
+    expect(config?.target).toBe(ReportEntity)
+    expect(config?.ignore.has('status')).toBe(true)
+    expect(config?.ignore.has('updatedAt')).toBe(true)
+    expect(ReviewableRegistry.getTypes()).toEqual(
+      expect.arrayContaining(['report', 'engagement']),
+    )
+  })
+
+  it('debe tomar la organización de la columna de tenant por defecto', () => {
+    const config = ReviewableRegistry.get('report')
+
+    expect(
+      config?.organizationId({ id: 'report-1', organizationId: 'org-1' }),
+    ).toBe('org-1')
+  })
+
+  it('no debe asignar organización a una entidad sin tenant', () => {
+    const config = ReviewableRegistry.get('engagement')
+
+    expect(config?.target).toBe(EngagementEntity)
+    expect(
+      config?.organizationId({ id: 'eng-1', organizationId: 'org-2' }),
+    ).toBeNull()
+  })
+
+  it('debe retornar null para un tipo no registrado', () => {
+    expect(ReviewableRegistry.get('invoice')).toBeNull()
+  })
+})
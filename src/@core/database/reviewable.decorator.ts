@@ -0,0 +1,138 @@
+import 'reflect-metadata'
+import type { EntityManager } from 'typeorm'
+import { AUDIT_GLOBAL_IGNORED_FIELDS } from './auditable.decorator'
+import { getTenantColumn } from './tenant-scoped.decorator'
+
+/**
+ * Clave de metadata para identificar entidades sujetas a revisión
+ */
+export const REVIEWABLE_METADATA_KEY = Symbol('reviewable')
+
+type EntityField<T> = Extract<keyof T, string>
+
+type ReviewableTarget = abstract new (...args: any[]) => unknown
+
+/**
+ * Contexto que reciben las funciones `content` y `authors` de una entidad revisable
+ */
+export interface ReviewableContext<T> {
+  /** Entidad revisada (sin relaciones) */
+  entity: T
+  /** Manager de la operación en curso (misma transacción) */
+  manager: EntityManager
+}
+
+/**
+ * Configuración de revisión (maker/checker) de una entidad
+ */
+export interface ReviewableOptions<T = any> {
+  /**
+   * Tipo con el que se identifica la entidad en las rutas de revisión
+   * (ej: 'finding' → /reviews/finding/:subjectId)
+   */
+  type: string
+
+  /**
+   * Campos que no forman parte del contenido firmado (además de los globales)
+   */
+  ignore?: EntityField<T>[]
+
+  /**
+   * Contenido que se firma además de las columnas de la entidad
+   * (ej: los registros hijos que forman el trabajo revisado)
+   */
+  content?: (context: ReviewableContext<T>) => Promise<Record<string, unknown>>
+
+  /**
+   * Quienes prepararon el trabajo además de quien creó o editó el registro
+   * (ej: los auditores que evaluaron los controles). No pueden revisarlo
+   */
+  authors?: (context: ReviewableContext<T>) => Promise<string[]>
+}
+
+/**
+ * Configuración resuelta (con valores por defecto aplicados)
+ */
+export interface ReviewableConfig<T = any> {
+  type: string
+  target: ReviewableTarget
+  ignore: Set<string>
+  content?: ReviewableOptions<T>['content']
+  authors?: ReviewableOptions<T>['authors']
+  /** Organización dueña del registro (columna de @TenantScoped) */
+  organizationId: (entity: T) => string | null
+}
+
+/**
+ * Marca una entidad para que pase por el flujo de revisión y firma
+ * (un auditor prepara, un gerente aprueba o devuelve)
+ *
+ * @example
+ * ```typescript
+ * @Reviewable<AuditEntity>({
+ *   type: 'audit',
+ *   ignore: ['status'],
+ *   content: async ({ entity, manager }) => ({
+ *     scores: await manager.find(AuditScoreEntity, {
+ *       where: { auditId: entity.id },
+ *     }),
+ *   }),
+ * })
+ * @Entity('audits')
+ * export class AuditEntity extends BaseEntity { ... }
+ * ```
+ */
+export function Reviewable<T>(
+  options: ReviewableOptions<T>,
+): (target: ReviewableTarget) => void {
+  return (target) => {
+    const config: ReviewableConfig<T> = {
+      type: options.type,
+      target,
+      ignore: new Set([
+        ...AUDIT_GLOBAL_IGNORED_FIELDS,
+        ...(options.ignore ?? []),
+      ]),
+      content: options.content,
+      authors: options.authors,
+      organizationId: (entity) => {
+        // Se resuelve al usarla: @TenantScoped puede aplicarse después
+        const column = getTenantColumn(target)
+        if (!column) return null
+        return (entity as Record<string, string | null>)[column] ?? null
+      },
+    }
+
+    Reflect.defineMetadata(REVIEWABLE_METADATA_KEY, config, target)
+    ReviewableRegistry.register(config)
+  }
+}
+
+/**
+ * Registro de entidades revisables
+ *
+ * Se llena al cargar las clases decoradas con @Reviewable
+ */
+export class ReviewableRegistry {
+  private static readonly entries = new Map<string, ReviewableConfig>()
+
+  static register(config: ReviewableConfig): void {
+    this.entries.set(config.type, config)
+  }
+
+  /**
+   * Obtiene la configuración de un tipo (null = no revisable)
+   *
+   * @param type - Tipo declarado en @Reviewable (ej: 'finding')
+   */
+  static get(type: string): ReviewableConfig | null {
+    return this.entries.get(type) ?? null
+  }
+
+  /**
+   * Tipos de todas las entidades revisables registradas
+   */
+  static getTypes(): string[] {
+    return [...this.entries.keys()]
+  }
+}
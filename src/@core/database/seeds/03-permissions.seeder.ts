@@ -169,6 +169,44 @@ export default class PermissionsSeeder implements Seeder {
       })
     })
 
+    // Menú de navegación - un item se muestra con permiso read sobre su url
+    ;[
+      {
+        resource: '/',
+        roles: [Role.ADMIN, Role.GERENTE, Role.AUDITOR, Role.CLIENTE],
+      },
+      { resource: '/admin/organizations', roles: [Role.ADMIN] },
+      { resource: '/admin/frameworks', roles: [Role.ADMIN] },
+      { resource: '/admin/standards', roles: [Role.ADMIN] },
+      {
+        resource: '/frameworks',
+        roles: [Role.GERENTE, Role.AUDITOR, Role.CLIENTE],
+      },
+      {
+        resource: '/templates',
+        roles: [Role.GERENTE, Role.AUDITOR, Role.CLIENTE],
+      },
+      {
+        resource: '/standards',
+        roles: [Role.GERENTE, Role.AUDITOR, Role.CLIENTE],
+      },
+      {
+        resource: '/self-assessments',
+        roles: [Role.GERENTE, Role.AUDITOR, Role.CLIENTE],
+      },
+    ].forEach(({ resource, roles }) => {
+      roles.forEach((role) => {
+        permissions.push({
+          role,
+          resource,
+          action: PolicyAction.READ,
+          app: AppType.FRONTEND,
+          module: 'navigation',
+          description: 'Ver en el menú de navegación',
+        })
+      })
+    })
+
     // ==================== PERMISOS BACKEND ====================
 
     // Users endpoints
@@ -266,6 +304,73 @@ export default class PermissionsSeeder implements Seeder {
         })
       },
     )
+    permissions.push({
+      role: Role.ADMIN,
+      resource: '/api/templates/import/document',
+      action: PolicyAction.POST,
+      app: AppType.BACKEND,
+      module: 'templates',
+      description: 'Importar plantillas desde JSON / YAML',
+    })
+    permissions.push({
+      role: Role.ADMIN,
+      resource: '/api/templates/:id/import',
+      action: PolicyAction.POST,
+      app: AppType.BACKEND,
+      module: 'templates',
+      description: 'Actualizar plantillas desde archivo',
+    })
+    ;[
+      '/api/templates/import/preview',
+      '/api/templates/import/preview/annotated',
+    ].forEach((resource) => {
+      permissions.push({
+        role: Role.ADMIN,
+        resource,
+        action: PolicyAction.POST,
+        app: AppType.BACKEND,
+        module: 'templates',
+        description: 'Previsualizar importación de plantillas',
+      })
+    })
+    ;[PolicyAction.GET, PolicyAction.POST].forEach((action) => {
+      permissions.push({
+        role: Role.ADMIN,
+        resource: '/api/templates/:id/versions',
+        action,
+        app: AppType.BACKEND,
+        module: 'templates',
+        description: 'Versiones de plantillas',
+      })
+    })
+    ;[Role.ADMIN, Role.AUDITOR].forEach((role) => {
+      ;['/api/templates/:id/diff', '/api/templates/:id/diff/export'].forEach(
+        (resource) => {
+          permissions.push({
+            role,
+            resource,
+            action: PolicyAction.GET,
+            app: AppType.BACKEND,
+            module: 'templates',
+            description: 'Comparar versiones de plantillas',
+          })
+        },
+      )
+    })
+    ;[Role.ADMIN, Role.AUDITOR].forEach((role) => {
+      ;['/api/templates/:id/as-of', '/api/templates/:id/as-of/export'].forEach(
+        (resource) => {
+          permissions.push({
+            role,
+            resource,
+            action: PolicyAction.GET,
+            app: AppType.BACKEND,
+            module: 'templates',
+            description: 'Plantilla vigente a una fecha',
+          })
+        },
+      )
+    })
 
     // Audits endpoints - GERENTE + AUDITOR (limitado)
     ;[PolicyAction.GET, PolicyAction.POST].forEach((action) => {
@@ -298,6 +403,392 @@ export default class PermissionsSeeder implements Seeder {
       module: 'audits',
       description: 'Ver auditoría',
     })
+    ;[Role.GERENTE, Role.AUDITOR].forEach((role) => {
+      permissions.push({
+        role,
+        resource: '/api/audits/:id/standards',
+        action: PolicyAction.GET,
+        app: AppType.BACKEND,
+        module: 'audits',
+        description: 'Ver standards de auditoría',
+      })
+    })
+    ;[Role.GERENTE, Role.AUDITOR].forEach((role) => {
+      permissions.push({
+        role,
+        resource: '/api/audits/:id/maturity',
+        action: PolicyAction.GET,
+        app: AppType.BACKEND,
+        module: 'audits',
+        description: 'Madurez agregada y brechas',
+      })
+    })
+    ;[Role.GERENTE, Role.AUDITOR].forEach((role) => {
+      ;[PolicyAction.GET, PolicyAction.POST].forEach((action) => {
+        permissions.push({
+          role,
+          resource: '/api/audits/:id/scores',
+          action,
+          app: AppType.BACKEND,
+          module: 'audits',
+          description: 'Evaluaciones de madurez',
+        })
+      })
+    })
+    ;[Role.GERENTE, Role.AUDITOR].forEach((role) => {
+      ;[
+        {
+          resource: '/api/audits/:id/evidences',
+          actions: [PolicyAction.GET, PolicyAction.POST],
+        },
+        {
+          resource: '/api/audits/:id/evidences/:evidenceId',
+          actions: [PolicyAction.GET],
+        },
+        {
+          resource: '/api/audits/:id/evidences/:evidenceId/versions',
+          actions: [PolicyAction.POST],
+        },
+        {
+          resource:
+            '/api/audits/:id/evidences/:evidenceId/versions/:version/verify',
+          actions: [PolicyAction.GET],
+        },
+      ].forEach(({ resource, actions }) => {
+        actions.forEach((action) => {
+          permissions.push({
+            role,
+            resource,
+            action,
+            app: AppType.BACKEND,
+            module: 'audits',
+            description: 'Evidencias de auditoría',
+          })
+        })
+      })
+    })
+    ;[
+      '/api/audits/:id/start-fieldwork',
+      '/api/audits/:id/submit-review',
+      '/api/audits/:id/close',
+    ].forEach((resource) => {
+      permissions.push({
+        role: Role.GERENTE,
+        resource,
+        action: PolicyAction.PATCH,
+        app: AppType.BACKEND,
+        module: 'audits',
+        description: 'Ciclo de vida de auditoría',
+      })
+    })
+
+    // Findings endpoints - GERENTE + AUDITOR registran, CLIENTE responde
+    ;[Role.GERENTE, Role.AUDITOR].forEach((role) => {
+      ;[
+        {
+          resource: '/api/findings',
+          actions: [PolicyAction.GET, PolicyAction.POST],
+        },
+        {
+          resource: '/api/findings/:id',
+          actions: [
+            PolicyAction.GET,
+            PolicyAction.PATCH,
+            PolicyAction.HTTP_DELETE,
+          ],
+        },
+        {
+          resource: '/api/findings/:id/communicate',
+          actions: [PolicyAction.PATCH],
+        },
+        { resource: '/api/findings/:id/close', actions: [PolicyAction.PATCH] },
+      ].forEach(({ resource, actions }) => {
+        actions.forEach((action) => {
+          permissions.push({
+            role,
+            resource,
+            action,
+            app: AppType.BACKEND,
+            module: 'findings',
+            description: 'Registro de hallazgos',
+          })
+        })
+      })
+    })
+    ;[
+      { resource: '/api/findings', action: PolicyAction.GET },
+      { resource: '/api/findings/:id', action: PolicyAction.GET },
+      { resource: '/api/findings/:id/accept', action: PolicyAction.PATCH },
+      { resource: '/api/findings/:id/dispute', action: PolicyAction.PATCH },
+    ].forEach(({ resource, action }) => {
+      permissions.push({
+        role: Role.CLIENTE,
+        resource,
+        action,
+        app: AppType.BACKEND,
+        module: 'findings',
+        description: 'Respuesta a hallazgos',
+      })
+    })
+
+    // Corrective actions endpoints - CLIENTE gestiona su plan de acción,
+    // GERENTE + AUDITOR le dan seguimiento (solo lectura)
+    ;[
+      {
+        resource: '/api/findings/:id/corrective-actions',
+        actions: [PolicyAction.GET, PolicyAction.POST],
+      },
+      {
+        resource: '/api/findings/:id/corrective-actions/:actionId',
+        actions: [PolicyAction.GET, PolicyAction.PATCH],
+      },
+      {
+        resource: '/api/findings/:id/corrective-actions/:actionId/status',
+        actions: [PolicyAction.PATCH],
+      },
+      {
+        resource: '/api/findings/:id/corrective-actions/:actionId/notes',
+        actions: [PolicyAction.POST],
+      },
+    ].forEach(({ resource, actions }) => {
+      actions.forEach((action) => {
+        permissions.push({
+          role: Role.CLIENTE,
+          resource,
+          action,
+          app: AppType.BACKEND,
+          module: 'findings',
+          description: 'Plan de acción correctiva',
+        })
+      })
+    })
+    ;[Role.GERENTE, Role.AUDITOR].forEach((role) => {
+      ;[
+        '/api/findings/:id/corrective-actions',
+        '/api/findings/:id/corrective-actions/:actionId',
+      ].forEach((resource) => {
+        permissions.push({
+          role,
+          resource,
+          action: PolicyAction.GET,
+          app: AppType.BACKEND,
+          module: 'findings',
+          description: 'Seguimiento de acciones correctivas',
+        })
+      })
+    })
+
+    // Self-assessment endpoints - GERENTE + AUDITOR asignan y revisan,
+    // CLIENTE responde
+    ;[Role.GERENTE, Role.AUDITOR].forEach((role) => {
+      ;[
+        {
+          resource: '/api/self-assessments',
+          actions: [PolicyAction.GET, PolicyAction.POST],
+        },
+        {
+          resource: '/api/self-assessments/:id',
+          actions: [PolicyAction.GET, PolicyAction.HTTP_DELETE],
+        },
+        {
+          resource: '/api/self-assessments/:id/responses/:responseId/review',
+          actions: [PolicyAction.PATCH],
+        },
+        {
+          resource: '/api/self-assessments/:id/return',
+          actions: [PolicyAction.PATCH],
+        },
+        {
+          resource: '/api/self-assessments/:id/complete',
+          actions: [PolicyAction.PATCH],
+        },
+      ].forEach(({ resource, actions }) => {
+        actions.forEach((action) => {
+          permissions.push({
+            role,
+            resource,
+            action,
+            app: AppType.BACKEND,
+            module: 'self-assessments',
+            description: 'Asignación y revisión de autoevaluaciones',
+          })
+        })
+      })
+    })
+    ;[
+      { resource: '/api/self-assessments', action: PolicyAction.GET },
+      { resource: '/api/self-assessments/:id', action: PolicyAction.GET },
+      {
+        resource: '/api/self-assessments/:id/responses/:responseId',
+        action: PolicyAction.PATCH,
+      },
+      {
+        resource: '/api/self-assessments/:id/responses/:responseId/attachments',
+        action: PolicyAction.POST,
+      },
+      {
+        resource:
+          '/api/self-assessments/:id/responses/:responseId/attachments/:attachmentId',
+        action: PolicyAction.HTTP_DELETE,
+      },
+      {
+        resource: '/api/self-assessments/:id/submit',
+        action: PolicyAction.PATCH,
+      },
+    ].forEach(({ resource, action }) => {
+      permissions.push({
+        role: Role.CLIENTE,
+        resource,
+        action,
+        app: AppType.BACKEND,
+        module: 'self-assessments',
+        description: 'Respuesta de autoevaluaciones',
+      })
+    })
+
+    // Review endpoints - maker/checker: AUDITOR envía, GERENTE aprueba o
+    // devuelve (se autorizan solo con el rol activo, ver @CurrentRoleOnly)
+    ;[
+      {
+        path: '/api/reviews',
+        roles: [Role.GERENTE, Role.AUDITOR],
+        actions: [PolicyAction.GET],
+      },
+      {
+        path: '/api/reviews/:subjectType/:subjectId',
+        roles: [Role.GERENTE, Role.AUDITOR],
+        actions: [PolicyAction.GET],
+      },
+      {
+        path: '/api/reviews/:subjectType/:subjectId/submit',
+        roles: [Role.AUDITOR],
+        actions: [PolicyAction.PATCH],
+      },
+      {
+        path: '/api/reviews/:subjectType/:subjectId/approve',
+        roles: [Role.GERENTE],
+        actions: [PolicyAction.PATCH],
+      },
+      {
+        path: '/api/reviews/:subjectType/:subjectId/return',
+        roles: [Role.GERENTE],
+        actions: [PolicyAction.PATCH],
+      },
+    ].forEach(({ path, roles, actions }) => {
+      roles.forEach((role) => {
+        actions.forEach((action) => {
+          permissions.push({
+            role,
+            resource: path,
+            action,
+            app: AppType.BACKEND,
+            module: 'reviews',
+            description: 'Revisión y firma (maker/checker)',
+          })
+        })
+      })
+    })
+
+    // Audit log endpoints - ADMIN + AUDITOR (solo lectura)
+    ;[Role.ADMIN, Role.AUDITOR].forEach((role) => {
+      ;[
+        '/api/audit-log',
+        '/api/audit-log/:rootId',
+        '/api/audit-log/:rootId/verify',
+        '/api/audit-log/entities/:id/timeline',
+      ].forEach((resource) => {
+        permissions.push({
+          role,
+          resource,
+          action: PolicyAction.GET,
+          app: AppType.BACKEND,
+          module: 'audit-log',
+          description: 'Historial de auditoría',
+        })
+      })
+    })
+
+    // Roles y permisos (Casbin) - Solo ADMIN
+    ;[
+      {
+        resource: '/api/roles',
+        actions: [PolicyAction.GET, PolicyAction.POST],
+      },
+      { resource: '/api/roles/:id', actions: [PolicyAction.HTTP_DELETE] },
+      {
+        resource: '/api/roles/:id/permissions',
+        actions: [
+          PolicyAction.GET,
+          PolicyAction.POST,
+          PolicyAction.HTTP_DELETE,
+        ],
+      },
+      { resource: '/api/roles/:id/users', actions: [PolicyAction.POST] },
+      {
+        resource: '/api/roles/:id/users/:userId',
+        actions: [PolicyAction.HTTP_DELETE],
+      },
+      { resource: '/api/permissions/coverage', actions: [PolicyAction.GET] },
+    ].forEach(({ resource, actions }) => {
+      actions.forEach((action) => {
+        permissions.push({
+          role: Role.ADMIN,
+          resource,
+          action,
+          app: AppType.BACKEND,
+          module: 'roles',
+          description: 'Administración de roles y permisos',
+        })
+      })
+    })
+
+    // Items de navegación - Solo ADMIN
+    ;[
+      {
+        resource: '/api/navigation/items',
+        actions: [PolicyAction.GET, PolicyAction.POST],
+      },
+      {
+        resource: '/api/navigation/items/:id',
+        actions: [PolicyAction.PATCH, PolicyAction.HTTP_DELETE],
+      },
+    ].forEach(({ resource, actions }) => {
+      actions.forEach((action) => {
+        permissions.push({
+          role: Role.ADMIN,
+          resource,
+          action,
+          app: AppType.BACKEND,
+          module: 'navigation',
+          description: 'Administración del menú de navegación',
+        })
+      })
+    })
+
+    // Asignaciones temporales de rol (delegación) - ADMIN y GERENTE
+    ;[Role.ADMIN, Role.GERENTE].forEach((role) => {
+      ;[
+        {
+          resource: '/api/role-grants',
+          actions: [PolicyAction.GET, PolicyAction.POST],
+        },
+        {
+          resource: '/api/role-grants/:id',
+          actions: [PolicyAction.HTTP_DELETE],
+        },
+      ].forEach(({ resource, actions }) => {
+        actions.forEach((action) => {
+          permissions.push({
+            role,
+            resource,
+            action,
+            app: AppType.BACKEND,
+            module: 'roles',
+            description: 'Asignaciones temporales de rol',
+          })
+        })
+      })
+    })
 
     // Convertir a CasbinRule entities
     const casbinRules = permissions.map((perm) => {
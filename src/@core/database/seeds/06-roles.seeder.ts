@@ -0,0 +1,43 @@
+import { Seeder } from 'typeorm-extension'
+import { DataSource } from 'typeorm'
+import { RoleEntity } from '../../../modules/authorization/entities/role.entity'
+import { Role } from '../../../modules/users/entities/user.entity'
+
+/**
+ * Seeder de Roles
+ *
+ * Registra los roles del sistema (enum Role) en el catálogo de roles,
+ * junto a los que luego se definan desde la administración
+ */
+export default class RolesSeeder implements Seeder {
+  async run(dataSource: DataSource): Promise<void> {
+    const roleRepository = dataSource.getRepository(RoleEntity)
+
+    console.log('🔑 Seeding system roles...')
+
+    const descriptions: Record<Role, string> = {
+      [Role.ADMIN]: 'Administrador del sistema',
+      [Role.GERENTE]: 'Gerente de auditoría',
+      [Role.AUDITOR]: 'Auditor',
+      [Role.CLIENTE]: 'Cliente auditado',
+    }
+
+    for (const name of Object.values(Role)) {
+      const exists = await roleRepository.findOne({ where: { name } })
+      if (exists) {
+        console.log(`  ⏭️  Role already exists: ${name}`)
+        continue
+      }
+
+      const role = roleRepository.create({
+        name,
+        description: descriptions[name],
+        isSystem: true,
+      })
+      await roleRepository.save(role)
+      console.log(`  ✓ Created role: ${name}`)
+    }
+
+    console.log('✅ System roles seeded successfully!')
+  }
+}
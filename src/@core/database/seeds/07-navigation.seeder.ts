@@ -0,0 +1,112 @@
+import { Seeder } from 'typeorm-extension'
+import { DataSource, DeepPartial } from 'typeorm'
+import { NavigationItemEntity } from '../../../modules/navigation/entities/navigation-item.entity'
+
+/**
+ * Seeder de Navegación
+ *
+ * Carga los items del menú (sidebar). Cada item se muestra a los roles con
+ * permiso read sobre su url (ver menú de navegación en 03-permissions)
+ */
+export default class NavigationSeeder implements Seeder {
+  async run(dataSource: DataSource): Promise<void> {
+    const itemRepository = dataSource.getRepository(NavigationItemEntity)
+
+    console.log('🧭 Seeding navigation items...')
+
+    const items: DeepPartial<NavigationItemEntity>[] = [
+      // Comunes
+      {
+        title: 'Home',
+        description: 'Página principal',
+        url: '/',
+        icon: 'home',
+        order: 1,
+      },
+
+      // Administración
+      {
+        title: 'Organizaciones',
+        description: 'Gestión de Organizaciones',
+        url: '/admin/organizations',
+        icon: 'folder',
+        order: 10,
+      },
+      {
+        title: 'Usuarios',
+        description: 'Gestión de usuarios del sistema',
+        url: '/admin/users',
+        icon: 'users',
+        order: 20,
+      },
+      {
+        title: 'Frameworks',
+        description: 'Frameworks de madurez (COBIT, CMMI)',
+        url: '/admin/frameworks',
+        icon: 'layers',
+        order: 30,
+      },
+      {
+        title: 'Plantillas',
+        description: 'Gestión de plantillas de auditoría',
+        url: '/admin/templates',
+        icon: 'folder',
+        order: 40,
+      },
+      {
+        title: 'Controles',
+        description: 'Controles y estándares por plantilla',
+        url: '/admin/standards',
+        icon: 'files',
+        order: 50,
+        includeTemplates: true,
+      },
+
+      // Consulta
+      {
+        title: 'Frameworks',
+        description: 'Ver frameworks de madurez',
+        url: '/frameworks',
+        icon: 'layers',
+        order: 30,
+      },
+      {
+        title: 'Plantillas',
+        description: 'Plantillas disponibles',
+        url: '/templates',
+        icon: 'folder',
+        order: 40,
+      },
+      {
+        title: 'Controles',
+        description: 'Ver controles y estándares',
+        url: '/standards',
+        icon: 'files',
+        order: 50,
+        includeTemplates: true,
+      },
+      {
+        title: 'Autoevaluaciones',
+        description: 'Cuestionarios de autoevaluación por organización',
+        url: '/self-assessments',
+        icon: 'files',
+        order: 60,
+      },
+    ]
+
+    for (const data of items) {
+      const exists = await itemRepository.findOne({
+        where: { url: data.url },
+      })
+      if (exists) {
+        console.log(`  ⏭️  Navigation item already exists: ${data.url}`)
+        continue
+      }
+
+      await itemRepository.save(itemRepository.create(data))
+      console.log(`  ✓ Created navigation item: ${data.title} (${data.url})`)
+    }
+
+    console.log('✅ Navigation items seeded successfully!')
+  }
+}
@@ -5,6 +5,8 @@ import UsersSeeder from './02-users.seeder'
 import PermissionsSeeder from './03-permissions.seeder'
 import TemplatesSeeder from './04-templates.seeder'
 import MaturityFrameworksSeeder from './05-maturity-frameworks.seeder'
+import RolesSeeder from './06-roles.seeder'
+import NavigationSeeder from './07-navigation.seeder'
 
 async function runAllSeeds() {
   try {
@@ -20,6 +22,8 @@ async function runAllSeeds() {
     // 3. Permisos (sistema de autorización)
     // 4. Templates (plantillas de auditoría)
     // 5. Maturity Frameworks (frameworks de madurez - COBIT 5, CMMI, etc.)
+    // 6. Roles (catálogo de roles del sistema para la administración)
+    // 7. Navegación (items del menú, visibles según los permisos de frontend)
     await runSeeders(dataSource, {
       seeds: [
         OrganizationsSeeder, // 1. Crear organizaciones primero
@@ -27,6 +31,8 @@ async function runAllSeeds() {
         PermissionsSeeder, // 3. Cargar permisos de Casbin
         TemplatesSeeder, // 4. Cargar plantillas (ISO 27001, ASFI, etc.)
         MaturityFrameworksSeeder, // 5. Cargar frameworks de madurez (COBIT 5, etc.)
+        RolesSeeder, // 6. Registrar roles del sistema
+        NavigationSeeder, // 7. Cargar items del menú de navegación
       ],
     })
 
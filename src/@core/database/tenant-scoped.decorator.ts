@@ -0,0 +1,46 @@
+import 'reflect-metadata'
+
+/**
+ * Clave de metadata para identificar entidades separadas por organización
+ */
+export const TENANT_SCOPED_METADATA_KEY = Symbol('tenantScoped')
+
+/**
+ * Marca una entidad como perteneciente a una organización (tenant)
+ *
+ * BaseRepository agrega el filtro por la organización del usuario actual
+ * (ver AuditService.getCurrentTenantId) en las lecturas y escrituras.
+ *
+ * @param column - Columna que guarda el ID de la organización dueña
+ *
+ * @example
+ * ```typescript
+ * @TenantScoped<UserEntity>('organizationId')
+ * @Entity('users')
+ * export class UserEntity extends BaseEntity { ... }
+ *
+ * // La propia organización: su ID es el tenant
+ * @TenantScoped<OrganizationEntity>('id')
+ * ```
+ */
+export function TenantScoped<T>(
+  column: Extract<keyof T, string>,
+): ClassDecorator {
+  return (target) => {
+    Reflect.defineMetadata(TENANT_SCOPED_METADATA_KEY, column, target)
+  }
+}
+
+/**
+ * Columna de tenant de una entidad (null = no está separada por organización)
+ *
+ * @param target - Clase de la entidad (repository.target en TypeORM)
+ */
+export function getTenantColumn(target: object | string): string | null {
+  if (typeof target === 'string') return null
+  return (
+    (Reflect.getMetadata(TENANT_SCOPED_METADATA_KEY, target) as
+      | string
+      | undefined) ?? null
+  )
+}
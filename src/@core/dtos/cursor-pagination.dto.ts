@@ -0,0 +1,50 @@
+import { IsOptional, IsInt, Min, Max, IsString } from 'class-validator'
+import { Type } from 'class-transformer'
+import { ApiPropertyOptional } from '@nestjs/swagger'
+
+/**
+ * DTO Base para Paginación por cursor (keyset)
+ *
+ * Útil para listados grandes que solo crecen (logs, historial), donde
+ * OFFSET se degrada y los registros nuevos desplazan las páginas
+ *
+ * @example
+ * ```typescript
+ * export class FindLogsDto extends CursorPaginationDto {
+ *   @IsOptional()
+ *   @IsUUID('4')
+ *   userId?: string
+ * }
+ * ```
+ */
+export class CursorPaginationDto {
+  /**
+   * Cursor opaco devuelto en `meta.nextCursor` de la página anterior
+   */
+  @ApiPropertyOptional({
+    description:
+      'Cursor de la página siguiente (meta.nextCursor de la respuesta anterior)',
+  })
+  @IsOptional()
+  @IsString()
+  cursor?: string
+
+  /**
+   * Cantidad de registros por página
+   * @default 50
+   * @max 500
+   */
+  @ApiPropertyOptional({
+    description: 'Cantidad de registros por página',
+    example: 50,
+    default: 50,
+    minimum: 1,
+    maximum: 500,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(500)
+  limit?: number = 50
+}
@@ -1,4 +1,5 @@
 export * from './pagination.dto'
+export * from './cursor-pagination.dto'
 export * from './paginated-response.dto'
 export * from './uuid-param.dto'
 export * from './standard-response.dto'
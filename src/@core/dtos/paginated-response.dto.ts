@@ -82,6 +82,56 @@ export interface PaginatedResponse<T> {
   meta: PaginationMeta
 }
 
+/**
+ * Metadata de paginación por cursor (keyset)
+ *
+ * No incluye total ni páginas: el cliente pide la siguiente página
+ * enviando `nextCursor` hasta que `hasNextPage` sea false
+ */
+export interface CursorPaginationMeta {
+  /**
+   * Registros por página
+   */
+  limit: number
+
+  /**
+   * Cursor opaco para obtener la siguiente página (null = última página)
+   */
+  nextCursor: string | null
+
+  /**
+   * Indica si hay una página siguiente
+   */
+  hasNextPage: boolean
+}
+
+/**
+ * Respuesta paginada por cursor
+ *
+ * @example
+ * ```typescript
+ * {
+ *   data: [...],
+ *   meta: {
+ *     limit: 50,
+ *     nextCursor: 'eyJjcmVhdGVkQXQiOi...',
+ *     hasNextPage: true
+ *   }
+ * }
+ * ```
+ */
+export interface CursorPaginatedResponse<T> {
+  /**
+   * Array de datos paginados
+   */
+  data: T[]
+
+  /**
+   * Metadata de la paginación
+   */
+  meta: CursorPaginationMeta
+}
+
 /**
  * Clase helper para crear respuestas paginadas
  */
@@ -165,6 +215,43 @@ export class PaginatedResponseBuilder {
     }
   }
 
+  /**
+   * Crea una respuesta paginada por cursor
+   *
+   * @param data - Registros obtenidos (se esperan hasta limit + 1)
+   * @param limit - Registros por página
+   * @param getCursor - Genera el cursor a partir del último registro de la página
+   * @returns Respuesta con como máximo `limit` registros y el cursor siguiente
+   *
+   * @example
+   * ```typescript
+   * // El repositorio trae limit + 1 para saber si hay otra página
+   * const rows = await query.take(limit + 1).getMany()
+   * const response = PaginatedResponseBuilder.createWithCursor(
+   *   rows,
+   *   limit,
+   *   (last) => CursorUtil.encode({ createdAt: last.createdAt, id: last.id }),
+   * )
+   * ```
+   */
+  static createWithCursor<T>(
+    data: T[],
+    limit: number,
+    getCursor: (last: T) => string,
+  ): CursorPaginatedResponse<T> {
+    const hasNextPage = data.length > limit
+    const page = hasNextPage ? data.slice(0, limit) : data
+
+    return {
+      data: page,
+      meta: {
+        limit,
+        nextCursor: hasNextPage ? getCursor(page[page.length - 1]) : null,
+        hasNextPage,
+      },
+    }
+  }
+
   /**
    * Crea una respuesta vacía (sin datos)
    *
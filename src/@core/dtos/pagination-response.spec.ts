@@ -51,4 +51,33 @@ describe('PaginatedResponseBuilder', () => {
     expect(response.meta.hasNextPage).toBe(false)
     expect(response.meta.hasPrevPage).toBe(true)
   })
+
+  it('debe crear una respuesta por cursor cuando hay más registros', () => {
+    const data = [{ id: 1 }, { id: 2 }, { id: 3 }]
+
+    const response = PaginatedResponseBuilder.createWithCursor(
+      data,
+      2,
+      (last) => `cursor-${last.id}`,
+    )
+
+    expect(response.data).toEqual([{ id: 1 }, { id: 2 }])
+    expect(response.meta.limit).toBe(2)
+    expect(response.meta.hasNextPage).toBe(true)
+    expect(response.meta.nextCursor).toBe('cursor-2')
+  })
+
+  it('debe indicar la última página por cursor', () => {
+    const data = [{ id: 1 }, { id: 2 }]
+
+    const response = PaginatedResponseBuilder.createWithCursor(
+      data,
+      2,
+      (last) => `cursor-${last.id}`,
+    )
+
+    expect(response.data).toEqual(data)
+    expect(response.meta.hasNextPage).toBe(false)
+    expect(response.meta.nextCursor).toBeNull()
+  })
 })
@@ -5,12 +5,16 @@ import {
   SendResetPasswordEmailEvent,
   SendVerificationEmailEvent,
   SendWelcomeEmailEvent,
+  SendCorrectiveActionReminderEmailEvent,
+  SendCorrectiveActionEscalationEmailEvent,
 } from './events/email.events'
 import {
   TwoFactorEmailData,
   ResetPasswordEmailData,
   WelcomeEmailData,
   VerifyEmailData,
+  CorrectiveActionReminderEmailData,
+  CorrectiveActionEscalationEmailData,
 } from './interfaces'
 
 /**
@@ -74,4 +78,26 @@ export class EmailEventService {
     const event = new SendWelcomeEmailEvent(data)
     this.eventEmitter.emit(event.eventName, event)
   }
+
+  /**
+   * Emite evento: Enviar recordatorio de acción correctiva vencida
+   * El email se envía de forma asíncrona sin bloquear la respuesta
+   */
+  emitSendCorrectiveActionReminder(
+    data: CorrectiveActionReminderEmailData,
+  ): void {
+    const event = new SendCorrectiveActionReminderEmailEvent(data)
+    this.eventEmitter.emit(event.eventName, event)
+  }
+
+  /**
+   * Emite evento: Enviar escalamiento de acción correctiva vencida
+   * El email se envía de forma asíncrona sin bloquear la respuesta
+   */
+  emitSendCorrectiveActionEscalation(
+    data: CorrectiveActionEscalationEmailData,
+  ): void {
+    const event = new SendCorrectiveActionEscalationEmailEvent(data)
+    this.eventEmitter.emit(event.eventName, event)
+  }
 }
@@ -10,6 +10,8 @@ import {
   ResetPasswordEmailData,
   WelcomeEmailData,
   VerifyEmailData,
+  CorrectiveActionReminderEmailData,
+  CorrectiveActionEscalationEmailData,
 } from './interfaces'
 import { ImageHelper } from './utils'
 
@@ -21,6 +23,8 @@ import { ImageHelper } from './utils'
  * - sendResetPasswordEmail: Envía link de recuperación de contraseña
  * - sendWelcomeEmail: Envía email de bienvenida a nuevos usuarios
  * - sendVerificationEmail: Envía email de verificación de cuenta
+ * - sendCorrectiveActionReminderEmail: Recordatorio de acción correctiva vencida
+ * - sendCorrectiveActionEscalationEmail: Escalamiento de acción correctiva vencida
  */
 @Injectable()
 export class EmailService {
@@ -169,6 +173,50 @@ export class EmailService {
     })
   }
 
+  /**
+   * Envía recordatorio al responsable de una acción correctiva vencida
+   */
+  async sendCorrectiveActionReminderEmail(
+    data: CorrectiveActionReminderEmailData,
+  ): Promise<void> {
+    await this.sendEmail({
+      to: data.to,
+      subject: `Acción correctiva vencida - ${this.appName}`,
+      template: 'corrective-action-reminder',
+      context: {
+        userName: data.userName,
+        findingTitle: data.findingTitle,
+        actionDescription: data.actionDescription,
+        dueDate: data.dueDate,
+        daysOverdue: data.daysOverdue,
+        actionLink: data.actionLink,
+      },
+    })
+  }
+
+  /**
+   * Envía escalamiento de una acción correctiva vencida (responsable y gerencia)
+   */
+  async sendCorrectiveActionEscalationEmail(
+    data: CorrectiveActionEscalationEmailData,
+  ): Promise<void> {
+    await this.sendEmail({
+      to: data.to,
+      subject: `Escalamiento: acción correctiva vencida - ${this.appName}`,
+      template: 'corrective-action-escalation',
+      context: {
+        userName: data.userName,
+        ownerName: data.ownerName,
+        organizationName: data.organizationName,
+        findingTitle: data.findingTitle,
+        actionDescription: data.actionDescription,
+        dueDate: data.dueDate,
+        daysOverdue: data.daysOverdue,
+        actionLink: data.actionLink,
+      },
+    })
+  }
+
   /**
    * Método genérico para enviar emails personalizados
    */
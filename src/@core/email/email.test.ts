@@ -4,7 +4,8 @@
  * Herramienta consolidada para testing de emails con múltiples modos:
  * - setup: Configurar cuenta de prueba Ethereal
  * - all: Probar todos los tipos de email
- * - [tipo]: Probar un tipo específico (welcome, verify, 2fa, reset)
+ * - [tipo]: Probar un tipo específico (welcome, verify, 2fa, reset,
+ *   corrective-reminder, corrective-escalation)
  * - custom: Probar un template personalizado
  *
  * Uso:
@@ -160,6 +161,42 @@ const EMAIL_TESTS: Record<string, EmailTest> = {
       })
     },
   },
+
+  'corrective-reminder': {
+    name: 'Recordatorio de Acción Correctiva',
+    icon: '⏰',
+    async send(emailService: EmailService, to: string) {
+      await emailService.sendCorrectiveActionReminderEmail({
+        to,
+        userName: 'Luis Fernández',
+        findingTitle: 'Cuentas de usuarios cesados siguen activas',
+        actionDescription:
+          'Depurar las cuentas y automatizar las bajas con RRHH',
+        dueDate: '2025-04-30',
+        daysOverdue: 3,
+        actionLink: 'https://audit-core.com/findings/abc123',
+      })
+    },
+  },
+
+  'corrective-escalation': {
+    name: 'Escalamiento de Acción Correctiva',
+    icon: '🚨',
+    async send(emailService: EmailService, to: string) {
+      await emailService.sendCorrectiveActionEscalationEmail({
+        to,
+        userName: 'Sofía Torres',
+        ownerName: 'Luis Fernández',
+        organizationName: 'Banco Unión',
+        findingTitle: 'Cuentas de usuarios cesados siguen activas',
+        actionDescription:
+          'Depurar las cuentas y automatizar las bajas con RRHH',
+        dueDate: '2025-04-30',
+        daysOverdue: 7,
+        actionLink: 'https://audit-core.com/findings/abc123',
+      })
+    },
+  },
 }
 
 // ============================================================================
@@ -360,6 +397,8 @@ function showHelp() {
   console.log(chalk.green('    npm run email:test verify'))
   console.log(chalk.green('    npm run email:test 2fa'))
   console.log(chalk.green('    npm run email:test reset'))
+  console.log(chalk.green('    npm run email:test corrective-reminder'))
+  console.log(chalk.green('    npm run email:test corrective-escalation'))
   console.log('')
   console.log(chalk.white('  Probar template personalizado:'))
   console.log(chalk.green('    npm run email:test custom mi-template'))
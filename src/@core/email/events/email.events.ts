@@ -31,6 +31,28 @@ export interface WelcomeEmailPayload {
   loginLink: string
 }
 
+export interface CorrectiveActionReminderEmailPayload {
+  to: string
+  userName: string
+  findingTitle: string
+  actionDescription: string
+  dueDate: string
+  daysOverdue: number
+  actionLink: string
+}
+
+export interface CorrectiveActionEscalationEmailPayload {
+  to: string
+  userName: string
+  ownerName: string
+  organizationName: string
+  findingTitle: string
+  actionDescription: string
+  dueDate: string
+  daysOverdue: number
+  actionLink: string
+}
+
 /**
  * Clase base para eventos de email
  */
@@ -76,3 +98,21 @@ export class SendWelcomeEmailEvent extends EmailEvent {
     super('email.send.welcome', payload)
   }
 }
+
+/**
+ * Evento: Enviar recordatorio de acción correctiva vencida
+ */
+export class SendCorrectiveActionReminderEmailEvent extends EmailEvent {
+  constructor(public readonly payload: CorrectiveActionReminderEmailPayload) {
+    super('email.send.corrective-action-reminder', payload)
+  }
+}
+
+/**
+ * Evento: Enviar escalamiento de acción correctiva vencida
+ */
+export class SendCorrectiveActionEscalationEmailEvent extends EmailEvent {
+  constructor(public readonly payload: CorrectiveActionEscalationEmailPayload) {
+    super('email.send.corrective-action-escalation', payload)
+  }
+}
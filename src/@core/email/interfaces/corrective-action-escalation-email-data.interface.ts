@@ -0,0 +1,11 @@
+export interface CorrectiveActionEscalationEmailData {
+  to: string
+  userName: string
+  ownerName: string
+  organizationName: string
+  findingTitle: string
+  actionDescription: string
+  dueDate: string
+  daysOverdue: number
+  actionLink: string
+}
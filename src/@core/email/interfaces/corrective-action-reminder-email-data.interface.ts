@@ -0,0 +1,9 @@
+export interface CorrectiveActionReminderEmailData {
+  to: string
+  userName: string
+  findingTitle: string
+  actionDescription: string
+  dueDate: string
+  daysOverdue: number
+  actionLink: string
+}
@@ -3,3 +3,5 @@ export * from './two-factor-email-data.interface'
 export * from './reset-password-email-data.interface'
 export * from './welcome-email-data.interface'
 export * from './verify-email-data.interface'
+export * from './corrective-action-reminder-email-data.interface'
+export * from './corrective-action-escalation-email-data.interface'
@@ -7,6 +7,8 @@ import {
   SendResetPasswordEmailEvent,
   SendVerificationEmailEvent,
   SendWelcomeEmailEvent,
+  SendCorrectiveActionReminderEmailEvent,
+  SendCorrectiveActionEscalationEmailEvent,
 } from '../events/email.events'
 
 /**
@@ -105,4 +107,44 @@ export class EmailListener {
       )
     }
   }
+
+  /**
+   * Escucha evento: Enviar recordatorio de acción correctiva vencida
+   */
+  @OnEvent('email.send.corrective-action-reminder', { async: true })
+  async handleSendCorrectiveActionReminderEmail(
+    event: SendCorrectiveActionReminderEmailEvent,
+  ): Promise<void> {
+    try {
+      await this.emailService.sendCorrectiveActionReminderEmail(event.payload)
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error)
+      const stack = error instanceof Error ? error.stack : undefined
+      this.logger.error(
+        `Error al enviar recordatorio de acción correctiva: ${errorMessage}`,
+        stack,
+      )
+    }
+  }
+
+  /**
+   * Escucha evento: Enviar escalamiento de acción correctiva vencida
+   */
+  @OnEvent('email.send.corrective-action-escalation', { async: true })
+  async handleSendCorrectiveActionEscalationEmail(
+    event: SendCorrectiveActionEscalationEmailEvent,
+  ): Promise<void> {
+    try {
+      await this.emailService.sendCorrectiveActionEscalationEmail(event.payload)
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error)
+      const stack = error instanceof Error ? error.stack : undefined
+      this.logger.error(
+        `Error al enviar escalamiento de acción correctiva: ${errorMessage}`,
+        stack,
+      )
+    }
+  }
 }
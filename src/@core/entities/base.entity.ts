@@ -36,5 +36,5 @@ export abstract class BaseEntity {
 
   @Exclude()
   @DeleteDateColumn({ select: false })
-  deletedAt?: Date
+  deletedAt?: Date | null
 }
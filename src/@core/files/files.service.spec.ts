@@ -36,6 +36,7 @@ describe('FilesService', () => {
     const mockStorageService: Partial<jest.Mocked<IStorageService>> = {
       saveFile: jest.fn().mockResolvedValue(mockSaveResult),
       deleteFile: jest.fn().mockResolvedValue(undefined),
+      readFile: jest.fn().mockResolvedValue(Buffer.from('test file content')),
       fileExists: jest.fn().mockResolvedValue(true),
       getFileUrl: jest.fn((path) => `http://localhost:3001/uploads/${path}`),
     }
@@ -287,6 +288,19 @@ describe('FilesService', () => {
     })
   })
 
+  describe('readFile', () => {
+    it('should return the stored file content', async () => {
+      // Act
+      const content = await service.readFile('documents/abc-123.pdf')
+
+      // Assert
+      expect(content.toString()).toBe('test file content')
+      expect(storageService.readFile).toHaveBeenCalledWith(
+        'documents/abc-123.pdf',
+      )
+    })
+  })
+
   describe('fileExists', () => {
     it('should return true when file exists', async () => {
       // Arrange
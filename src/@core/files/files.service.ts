@@ -91,6 +91,13 @@ export class FilesService {
     await this.storageService.deleteFile({ filePath })
   }
 
+  /**
+   * Lee el contenido de un archivo (ej: para verificar su integridad)
+   */
+  async readFile(filePath: string): Promise<Buffer> {
+    return await this.storageService.readFile(filePath)
+  }
+
   /**
    * Verifica si un archivo existe
    */
@@ -93,6 +93,11 @@ export interface IStorageService {
    */
   deleteFile(options: DeleteFileOptions): Promise<void>
 
+  /**
+   * Lee el contenido de un archivo
+   */
+  readFile(filePath: string): Promise<Buffer>
+
   /**
    * Verifica si un archivo existe
    */
@@ -36,9 +36,7 @@ export class LocalStorageService implements IStorageService {
   private readonly uploadsDir: string
   private readonly baseUrl: string
 
-  constructor(
-    private readonly logger: LoggerService,
-  ) {
+  constructor(private readonly logger: LoggerService) {
     // Directorio raíz para uploads (configuración centralizada)
     this.uploadsDir = envs.files.uploadsDir
 
@@ -157,6 +155,25 @@ export class LocalStorageService implements IStorageService {
     }
   }
 
+  /**
+   * Lee el contenido de un archivo del sistema local
+   *
+   * @throws Error si el archivo no existe o no se puede leer
+   */
+  async readFile(filePath: string): Promise<Buffer> {
+    try {
+      return await fs.readFile(path.join(this.uploadsDir, filePath))
+    } catch (error) {
+      this.logger.error(
+        `Error leyendo archivo ${filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      )
+
+      throw new Error(
+        `Error al leer archivo: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      )
+    }
+  }
+
   /**
    * Verifica si un archivo existe
    */
@@ -8,6 +8,7 @@ import {
 import { Request, Response } from 'express'
 import { LoggerService } from '../logger/logger.service'
 import { envs } from '../config'
+import { CrossTenantAccessException } from '../database/cross-tenant-access.exception'
 
 // 1. Definimos una interfaz para el Error de DB (Postgres/TypeORM)
 interface DatabaseError extends Error {
@@ -126,6 +127,20 @@ export class HttpExceptionFilter implements ExceptionFilter {
       user: userContext,
     }
 
+    // Acceso a datos de otra organización: además es un evento de seguridad
+    if (exception instanceof CrossTenantAccessException) {
+      this.logger.security.logCrossTenantAccess(
+        {
+          entity: exception.entity,
+          entityId: exception.entityId,
+          tenantId: exception.tenantId,
+          ownerTenantId: exception.ownerTenantId,
+        },
+        request,
+        userContext,
+      )
+    }
+
     if (exception instanceof Error) {
       this.logger.logException(exception, {
         req: request,
@@ -9,7 +9,7 @@ import { Observable } from 'rxjs'
 import { map } from 'rxjs/operators'
 import { Request, Response } from 'express'
 import { RESPONSE_MESSAGE_KEY } from '../decorators/response-message.decorator'
-import { PaginationMeta } from '@core/dtos'
+import { PaginationMeta, CursorPaginationMeta } from '@core/dtos'
 
 // ---------------------------------------------------------------------------
 // Interfaces
@@ -20,14 +20,14 @@ export interface StandardResponse<T> {
   statusCode: number
   message: string
   data: T | null
-  meta?: PaginationMeta
+  meta?: PaginationMeta | CursorPaginationMeta
   timestamp: string
 }
 
 // Interfaz interna para detectar si viene paginado
 interface PaginatedResult<T> {
   data: T[]
-  meta: PaginationMeta
+  meta: PaginationMeta | CursorPaginationMeta
 }
 
 // ---------------------------------------------------------------------------
@@ -5,6 +5,7 @@ import {
   ExceptionLogger,
   TypeOrmDatabaseLogger,
   StartupLogger,
+  SecurityLogger,
 } from './loggers'
 import { WinstonProvider } from './providers'
 
@@ -17,6 +18,7 @@ import { WinstonProvider } from './providers'
     ExceptionLogger,
     TypeOrmDatabaseLogger,
     StartupLogger,
+    SecurityLogger,
   ],
   exports: [
     WinstonProvider,
@@ -25,6 +27,7 @@ import { WinstonProvider } from './providers'
     ExceptionLogger,
     TypeOrmDatabaseLogger,
     StartupLogger,
+    SecurityLogger,
   ],
 })
 export class LoggerModule {}
@@ -5,6 +5,7 @@ import {
   ExceptionLogger,
   TypeOrmDatabaseLogger,
   StartupLogger,
+  SecurityLogger,
 } from './loggers'
 import { UserContext } from './types'
 import { JwtPayload } from '../../modules/auth/core/interfaces/jwt-payload.interface'
@@ -15,17 +16,20 @@ export class LoggerService implements NestLoggerService {
   public readonly exception: ExceptionLogger
   public readonly database: TypeOrmDatabaseLogger
   public readonly startup: StartupLogger
+  public readonly security: SecurityLogger
 
   constructor(
     httpLogger: HttpLogger,
     exceptionLogger: ExceptionLogger,
     databaseLogger: TypeOrmDatabaseLogger,
     startupLogger: StartupLogger,
+    securityLogger: SecurityLogger,
   ) {
     this.http = httpLogger
     this.exception = exceptionLogger
     this.database = databaseLogger
     this.startup = startupLogger
+    this.security = securityLogger
   }
 
   // ===== NESTJS LOGGER SERVICE INTERFACE =====
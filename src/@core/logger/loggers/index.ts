@@ -3,3 +3,4 @@ export * from './http.logger'
 export * from './exception.logger'
 export * from './startup.logger'
 export * from './typeorm-database.logger'
+export * from './security.logger'
@@ -0,0 +1,49 @@
+import { Injectable } from '@nestjs/common'
+import { Request } from 'express'
+import { BaseLogger } from './base.logger'
+import {
+  SecurityLogContext,
+  SecurityEventContext,
+  UserContext,
+  LogLevel,
+} from '../types'
+import { IpExtractor } from '../utils'
+import { WinstonProvider } from '../providers'
+
+/**
+ * SecurityLogger - Eventos de seguridad (ej: acceso a datos de otra organización)
+ *
+ * Se registran siempre como WARN para que queden también en los archivos
+ * aunque el nivel de log sea bajo
+ */
+@Injectable()
+export class SecurityLogger extends BaseLogger {
+  constructor(winstonProvider: WinstonProvider) {
+    super(winstonProvider.getLogger(), 'security')
+  }
+
+  logCrossTenantAccess(
+    event: Omit<SecurityEventContext, 'type'>,
+    req?: Request,
+    user?: UserContext,
+  ): void {
+    const context: SecurityLogContext = {
+      user,
+      event: { type: 'CROSS_TENANT_ACCESS', ...event },
+    }
+
+    if (req) {
+      context.request = {
+        method: req.method,
+        url: req.url,
+        ip: IpExtractor.extract(req),
+      }
+    }
+
+    this.writeLog(
+      LogLevel.WARN,
+      `🚫 Cross-tenant access: ${event.entity} ${event.entityId ?? ''} (tenant ${event.tenantId})`.trim(),
+      context,
+    )
+  }
+}
@@ -70,3 +70,17 @@ export interface DatabaseLogContext extends BaseLogContext {
   query?: string
   additionalData?: Record<string, unknown>
 }
+
+export interface SecurityEventContext {
+  type: 'CROSS_TENANT_ACCESS'
+  entity: string
+  entityId?: string
+  tenantId: string
+  ownerTenantId: string | null
+}
+
+export interface SecurityLogContext extends BaseLogContext {
+  user?: UserContext
+  request?: Pick<HttpRequestContext, 'method' | 'url' | 'ip'>
+  event: SecurityEventContext
+}
@@ -8,6 +8,22 @@ import { TemplateEntity } from '../../modules/audit-library/templates/entities/t
 import { StandardEntity } from '../../modules/audit-library/standards/entities/standard.entity'
 import { MaturityFrameworkEntity } from '../../modules/maturity/frameworks/entities/maturity-framework.entity'
 import { MaturityLevelEntity } from '../../modules/maturity/levels/entities/maturity-level.entity'
+import { AuditEntity } from '../../modules/audits/entities/audit.entity'
+import { AuditStandardEntity } from '../../modules/audits/entities/audit-standard.entity'
+import { AuditScoreEntity } from '../../modules/audits/entities/audit-score.entity'
+import { AuditEvidenceEntity } from '../../modules/audits/entities/audit-evidence.entity'
+import { AuditEvidenceVersionEntity } from '../../modules/audits/entities/audit-evidence-version.entity'
+import { RoleEntity } from '../../modules/authorization/entities/role.entity'
+import { RoleGrantEntity } from '../../modules/authorization/entities/role-grant.entity'
+import { NavigationItemEntity } from '../../modules/navigation/entities/navigation-item.entity'
+import { FindingEntity } from '../../modules/findings/entities/finding.entity'
+import { CorrectiveActionEntity } from '../../modules/findings/entities/corrective-action.entity'
+import { CorrectiveActionNoteEntity } from '../../modules/findings/entities/corrective-action-note.entity'
+import { SelfAssessmentEntity } from '../../modules/self-assessments/entities/self-assessment.entity'
+import { SelfAssessmentResponseEntity } from '../../modules/self-assessments/entities/self-assessment-response.entity'
+import { SelfAssessmentAttachmentEntity } from '../../modules/self-assessments/entities/self-assessment-attachment.entity'
+import { ReviewEntity } from '../../modules/reviews/entities/review.entity'
+import { ReviewSignOffEntity } from '../../modules/reviews/entities/review-sign-off.entity'
 
 // ========== REPOSITORIES ==========
 import { UsersRepository } from '../../modules/users/repositories/users.repository'
@@ -16,6 +32,22 @@ import { TemplatesRepository } from '../../modules/audit-library/templates/repos
 import { StandardsRepository } from '../../modules/audit-library/standards/repositories/standards.repository'
 import { MaturityFrameworksRepository } from '../../modules/maturity/frameworks/repositories/frameworks.repository'
 import { MaturityLevelsRepository } from '../../modules/maturity/levels/repositories/maturity-levels.repository'
+import { AuditsRepository } from '../../modules/audits/repositories/audits.repository'
+import { AuditStandardsRepository } from '../../modules/audits/repositories/audit-standards.repository'
+import { AuditScoresRepository } from '../../modules/audits/repositories/audit-scores.repository'
+import { AuditEvidencesRepository } from '../../modules/audits/repositories/audit-evidences.repository'
+import { AuditEvidenceVersionsRepository } from '../../modules/audits/repositories/audit-evidence-versions.repository'
+import { RolesRepository } from '../../modules/authorization/repositories/roles.repository'
+import { RoleGrantsRepository } from '../../modules/authorization/repositories/role-grants.repository'
+import { NavigationItemsRepository } from '../../modules/navigation/repositories/navigation-items.repository'
+import { FindingsRepository } from '../../modules/findings/repositories/findings.repository'
+import { CorrectiveActionsRepository } from '../../modules/findings/repositories/corrective-actions.repository'
+import { CorrectiveActionNotesRepository } from '../../modules/findings/repositories/corrective-action-notes.repository'
+import { SelfAssessmentsRepository } from '../../modules/self-assessments/repositories/self-assessments.repository'
+import { SelfAssessmentResponsesRepository } from '../../modules/self-assessments/repositories/self-assessment-responses.repository'
+import { SelfAssessmentAttachmentsRepository } from '../../modules/self-assessments/repositories/self-assessment-attachments.repository'
+import { ReviewsRepository } from '../../modules/reviews/repositories/reviews.repository'
+import { ReviewSignOffsRepository } from '../../modules/reviews/repositories/review-sign-offs.repository'
 
 // ========== TOKENS ==========
 import { USERS_REPOSITORY } from '../../modules/users/tokens'
@@ -24,6 +56,32 @@ import { FRAMEWORKS_REPOSITORY } from '../../modules/maturity/frameworks/tokens'
 import { LEVELS_REPOSITORY } from '../../modules/maturity/levels/tokens'
 import { TEMPLATES_REPOSITORY } from 'src/modules/audit-library/templates/tokens'
 import { STANDARDS_REPOSITORY } from 'src/modules/audit-library/standards/tokens'
+import {
+  AUDITS_REPOSITORY,
+  AUDIT_STANDARDS_REPOSITORY,
+  AUDIT_SCORES_REPOSITORY,
+  AUDIT_EVIDENCES_REPOSITORY,
+  AUDIT_EVIDENCE_VERSIONS_REPOSITORY,
+} from '../../modules/audits/tokens'
+import {
+  ROLES_REPOSITORY,
+  ROLE_GRANTS_REPOSITORY,
+} from '../../modules/authorization/tokens'
+import { NAVIGATION_ITEMS_REPOSITORY } from '../../modules/navigation/tokens'
+import {
+  FINDINGS_REPOSITORY,
+  CORRECTIVE_ACTIONS_REPOSITORY,
+  CORRECTIVE_ACTION_NOTES_REPOSITORY,
+} from '../../modules/findings/tokens'
+import {
+  SELF_ASSESSMENTS_REPOSITORY,
+  SELF_ASSESSMENT_RESPONSES_REPOSITORY,
+  SELF_ASSESSMENT_ATTACHMENTS_REPOSITORY,
+} from '../../modules/self-assessments/tokens'
+import {
+  REVIEWS_REPOSITORY,
+  REVIEW_SIGN_OFFS_REPOSITORY,
+} from '../../modules/reviews/tokens'
 
 @Global()
 @Module({
@@ -35,6 +93,22 @@ import { STANDARDS_REPOSITORY } from 'src/modules/audit-library/standards/tokens
       StandardEntity,
       MaturityFrameworkEntity,
       MaturityLevelEntity,
+      AuditEntity,
+      AuditStandardEntity,
+      AuditScoreEntity,
+      AuditEvidenceEntity,
+      AuditEvidenceVersionEntity,
+      RoleEntity,
+      RoleGrantEntity,
+      NavigationItemEntity,
+      FindingEntity,
+      CorrectiveActionEntity,
+      CorrectiveActionNoteEntity,
+      SelfAssessmentEntity,
+      SelfAssessmentResponseEntity,
+      SelfAssessmentAttachmentEntity,
+      ReviewEntity,
+      ReviewSignOffEntity,
     ]),
   ],
   providers: [
@@ -73,6 +147,86 @@ import { STANDARDS_REPOSITORY } from 'src/modules/audit-library/standards/tokens
       provide: LEVELS_REPOSITORY,
       useClass: MaturityLevelsRepository,
     },
+
+    // ========== Audits Repositories ==========
+    {
+      provide: AUDITS_REPOSITORY,
+      useClass: AuditsRepository,
+    },
+    {
+      provide: AUDIT_STANDARDS_REPOSITORY,
+      useClass: AuditStandardsRepository,
+    },
+    {
+      provide: AUDIT_SCORES_REPOSITORY,
+      useClass: AuditScoresRepository,
+    },
+    {
+      provide: AUDIT_EVIDENCES_REPOSITORY,
+      useClass: AuditEvidencesRepository,
+    },
+    {
+      provide: AUDIT_EVIDENCE_VERSIONS_REPOSITORY,
+      useClass: AuditEvidenceVersionsRepository,
+    },
+
+    // ========== Roles Repository ==========
+    {
+      provide: ROLES_REPOSITORY,
+      useClass: RolesRepository,
+    },
+
+    // ========== Role Grants Repository ==========
+    {
+      provide: ROLE_GRANTS_REPOSITORY,
+      useClass: RoleGrantsRepository,
+    },
+
+    // ========== Navigation Items Repository ==========
+    {
+      provide: NAVIGATION_ITEMS_REPOSITORY,
+      useClass: NavigationItemsRepository,
+    },
+
+    // ========== Findings Repository ==========
+    {
+      provide: FINDINGS_REPOSITORY,
+      useClass: FindingsRepository,
+    },
+
+    // ========== Corrective Actions Repositories ==========
+    {
+      provide: CORRECTIVE_ACTIONS_REPOSITORY,
+      useClass: CorrectiveActionsRepository,
+    },
+    {
+      provide: CORRECTIVE_ACTION_NOTES_REPOSITORY,
+      useClass: CorrectiveActionNotesRepository,
+    },
+
+    // ========== Self Assessments Repositories ==========
+    {
+      provide: SELF_ASSESSMENTS_REPOSITORY,
+      useClass: SelfAssessmentsRepository,
+    },
+    {
+      provide: SELF_ASSESSMENT_RESPONSES_REPOSITORY,
+      useClass: SelfAssessmentResponsesRepository,
+    },
+    {
+      provide: SELF_ASSESSMENT_ATTACHMENTS_REPOSITORY,
+      useClass: SelfAssessmentAttachmentsRepository,
+    },
+
+    // ========== Reviews Repositories ==========
+    {
+      provide: REVIEWS_REPOSITORY,
+      useClass: ReviewsRepository,
+    },
+    {
+      provide: REVIEW_SIGN_OFFS_REPOSITORY,
+      useClass: ReviewSignOffsRepository,
+    },
   ],
   exports: [
     USERS_REPOSITORY,
@@ -81,6 +235,22 @@ import { STANDARDS_REPOSITORY } from 'src/modules/audit-library/standards/tokens
     STANDARDS_REPOSITORY,
     FRAMEWORKS_REPOSITORY,
     LEVELS_REPOSITORY,
+    AUDITS_REPOSITORY,
+    AUDIT_STANDARDS_REPOSITORY,
+    AUDIT_SCORES_REPOSITORY,
+    AUDIT_EVIDENCES_REPOSITORY,
+    AUDIT_EVIDENCE_VERSIONS_REPOSITORY,
+    ROLES_REPOSITORY,
+    ROLE_GRANTS_REPOSITORY,
+    NAVIGATION_ITEMS_REPOSITORY,
+    FINDINGS_REPOSITORY,
+    CORRECTIVE_ACTIONS_REPOSITORY,
+    CORRECTIVE_ACTION_NOTES_REPOSITORY,
+    SELF_ASSESSMENTS_REPOSITORY,
+    SELF_ASSESSMENT_RESPONSES_REPOSITORY,
+    SELF_ASSESSMENT_ATTACHMENTS_REPOSITORY,
+    REVIEWS_REPOSITORY,
+    REVIEW_SIGN_OFFS_REPOSITORY,
   ],
 })
 export class PersistenceModule {}
@@ -1,7 +1,12 @@
 import { Repository, EntityManager, Entity, Column } from 'typeorm'
 import { BaseRepository } from './base.repository'
 import { BaseEntity } from '@core/entities'
-import { TransactionService, AuditService } from '@core/database'
+import {
+  TransactionService,
+  AuditService,
+  TenantScoped,
+  CrossTenantAccessException,
+} from '@core/database'
 
 /**
  * Tests para BaseRepository - Solo lógica de conmutación de repositorio
@@ -18,6 +23,38 @@ class TestEntity extends BaseEntity {
   name: string
 }
 
+@TenantScoped<TenantTestEntity>('organizationId')
+@Entity('tenant_test_entities')
+class TenantTestEntity extends BaseEntity {
+  @Column()
+  organizationId: string
+}
+
+class TenantTestRepository extends BaseRepository<TenantTestEntity> {
+  constructor(
+    repository: Repository<TenantTestEntity>,
+    transactionService: TransactionService,
+    auditService: AuditService,
+  ) {
+    super(repository, transactionService, auditService)
+  }
+}
+
+// Registro hijo: la organización está en el padre
+class ChildTestEntity extends BaseEntity {
+  parent: TenantTestEntity
+}
+
+class ChildTestRepository extends BaseRepository<ChildTestEntity> {
+  constructor(
+    repository: Repository<ChildTestEntity>,
+    transactionService: TransactionService,
+    auditService: AuditService,
+  ) {
+    super(repository, transactionService, auditService)
+  }
+}
+
 // Repository con método público para testing
 class TestRepository extends BaseRepository<TestEntity> {
   constructor(
@@ -260,4 +297,129 @@ describe('BaseRepository - Conmutación de Repositorio con TransactionService',
       expect(testRepository['auditService']).toBeDefined()
     })
   })
+
+  describe('Separación por organización (@TenantScoped)', () => {
+    const rows = [
+      { id: 'row-1', organizationId: 'org-1' },
+      { id: 'row-2', organizationId: 'org-2' },
+    ]
+
+    /**
+     * Repositorio en memoria: solo lo que usa findById
+     */
+    const findOne = jest.fn(({ where }: { where: Partial<TenantTestEntity> }) =>
+      Promise.resolve(
+        rows.find(
+          (row) =>
+            row.id === where.id &&
+            (!where.organizationId ||
+              row.organizationId === where.organizationId),
+        ) ?? null,
+      ),
+    )
+
+    const buildRepository = (tenantId: string | undefined) =>
+      new TenantTestRepository(
+        {
+          target: TenantTestEntity,
+          findOne,
+          metadata: { name: 'TenantTestEntity' },
+        } as unknown as Repository<TenantTestEntity>,
+        mockTransactionService as unknown as TransactionService,
+        {
+          getCurrentTenantId: () => tenantId,
+        } as unknown as AuditService,
+      )
+
+    it('no debe filtrar cuando el contexto no tiene tenant', async () => {
+      // Act
+      const row = await buildRepository(undefined).findById('row-2')
+
+      // Assert
+      expect(row).toEqual(rows[1])
+      expect(findOne).toHaveBeenCalledWith({ where: { id: 'row-2' } })
+    })
+
+    it('debe filtrar por la organización del contexto', async () => {
+      // Act
+      const row = await buildRepository('org-1').findById('row-1')
+
+      // Assert
+      expect(row).toEqual(rows[0])
+      expect(findOne).toHaveBeenCalledWith({
+        where: { id: 'row-1', organizationId: 'org-1' },
+      })
+    })
+
+    it('debe rechazar el acceso a un registro de otra organización', async () => {
+      // Act & Assert
+      await expect(buildRepository('org-1').findById('row-2')).rejects.toThrow(
+        CrossTenantAccessException,
+      )
+    })
+
+    it('debe devolver null si el registro no existe en ninguna organización', async () => {
+      // Act & Assert
+      await expect(
+        buildRepository('org-1').findById('row-3'),
+      ).resolves.toBeNull()
+    })
+
+    it('debe impedir mover un registro a otra organización', async () => {
+      // Arrange
+      const repository = buildRepository('org-1')
+      const entity = Object.assign(new TenantTestEntity(), rows[0])
+
+      // Act & Assert
+      expect(() =>
+        repository['assertSameTenant'](
+          Object.assign(entity, { organizationId: 'org-2' }),
+        ),
+      ).toThrow(CrossTenantAccessException)
+    })
+
+    describe('Registros hijos (organización en la entidad padre)', () => {
+      const buildChildRepository = (tenantId: string | undefined) =>
+        new ChildTestRepository(
+          { target: ChildTestEntity } as Repository<ChildTestEntity>,
+          mockTransactionService as unknown as TransactionService,
+          {
+            getCurrentTenantId: () => tenantId,
+          } as unknown as AuditService,
+        )
+
+      it('debe filtrar por la organización del padre', () => {
+        // Act
+        const scope = buildChildRepository('org-1')['parentTenantScope'](
+          'parent',
+          TenantTestEntity,
+        )
+
+        // Assert
+        expect(scope).toEqual({ parent: { organizationId: 'org-1' } })
+      })
+
+      it('no debe filtrar cuando el contexto no tiene tenant', () => {
+        // Act
+        const scope = buildChildRepository(undefined)['parentTenantScope'](
+          'parent',
+          TenantTestEntity,
+        )
+
+        // Assert
+        expect(scope).toEqual({})
+      })
+
+      it('no debe filtrar si el padre no está separado por organización', () => {
+        // Act
+        const scope = buildChildRepository('org-1')['parentTenantScope'](
+          'parent',
+          TestEntity,
+        )
+
+        // Assert
+        expect(scope).toEqual({})
+      })
+    })
+  })
 })
@@ -7,11 +7,18 @@ import {
   type Repository,
   FindOptionsOrder,
   In,
+  IsNull,
+  Not,
   SelectQueryBuilder,
 } from 'typeorm'
 import type { QueryDeepPartialEntity } from 'typeorm/query-builder/QueryPartialEntity'
 import { IBaseRepository } from './base-repository.interface'
-import { TransactionService, AuditService } from '@core/database'
+import {
+  TransactionService,
+  AuditService,
+  CrossTenantAccessException,
+  getTenantColumn,
+} from '@core/database'
 import { PaginationDto, PaginatedData } from '@core/dtos'
 
 export abstract class BaseRepository<
@@ -47,6 +54,106 @@ export abstract class BaseRepository<
     return this.repository
   }
 
+  // ---------- Separación por organización (tenant) ----------
+  // Las entidades @TenantScoped se filtran por la organización del usuario
+  // actual (AuditService.getCurrentTenantId). Sin tenant en el contexto
+  // (admin, sistema, seeds) no se filtra nada.
+
+  /**
+   * Condición por la organización actual (vacía si no aplica)
+   */
+  protected tenantScope(): FindOptionsWhere<T> {
+    const column = getTenantColumn(this.repository.target)
+    const tenantId = this.auditService.getCurrentTenantId()
+    if (!column || !tenantId) return {}
+
+    return { [column]: tenantId } as FindOptionsWhere<T>
+  }
+
+  /**
+   * Condición por la organización actual a través de la entidad padre,
+   * para registros hijos que no guardan la organización
+   * (ej: las evaluaciones de una auditoría se filtran por audit.organizationId)
+   *
+   * @param relation - Relación con el padre (ej: 'audit')
+   * @param parent - Clase de la entidad padre (@TenantScoped)
+   */
+  protected parentTenantScope(
+    relation: Extract<keyof T, string>,
+    parent: object,
+  ): FindOptionsWhere<T> {
+    const column = getTenantColumn(parent)
+    const tenantId = this.auditService.getCurrentTenantId()
+    if (!column || !tenantId) return {}
+
+    return { [relation]: { [column]: tenantId } } as FindOptionsWhere<T>
+  }
+
+  /**
+   * Agrega la condición de tenant a un where (o a cada rama de un OR)
+   */
+  protected scopeWhere(
+    where?: FindOptionsWhere<T> | FindOptionsWhere<T>[],
+  ): FindOptionsWhere<T> | FindOptionsWhere<T>[] {
+    const scope = this.tenantScope()
+    if (Array.isArray(where)) {
+      return where.map((condition) => ({ ...condition, ...scope }))
+    }
+    return { ...where, ...scope }
+  }
+
+  /**
+   * Si un registro no se encontró con el filtro de tenant pero existe en
+   * otra organización, se trata como un acceso cruzado
+   *
+   * @throws {CrossTenantAccessException} Si el registro es de otra organización
+   */
+  protected async assertNotCrossTenant(id: string): Promise<void> {
+    const column = getTenantColumn(this.repository.target)
+    const tenantId = this.auditService.getCurrentTenantId()
+    if (!column || !tenantId) return
+
+    const entity = await this.getRepo().findOne({
+      where: { id } as FindOptionsWhere<T>,
+      withDeleted: true,
+    })
+    const owner = entity ? this.getTenantValue(entity, column) : null
+    if (entity && owner !== tenantId) {
+      throw new CrossTenantAccessException(
+        this.getRepo().metadata.name,
+        id,
+        tenantId,
+        owner,
+      )
+    }
+  }
+
+  /**
+   * Impide guardar un registro de otra organización (o moverlo a otra)
+   *
+   * @throws {CrossTenantAccessException} Si el registro es de otra organización
+   */
+  protected assertSameTenant(entity: T): void {
+    const column = getTenantColumn(this.repository.target)
+    const tenantId = this.auditService.getCurrentTenantId()
+    if (!column || !tenantId) return
+
+    const owner = this.getTenantValue(entity, column)
+    if (owner && owner !== tenantId) {
+      throw new CrossTenantAccessException(
+        this.getRepo().metadata.name,
+        entity.id,
+        tenantId,
+        owner,
+      )
+    }
+  }
+
+  private getTenantValue(entity: T, column: string): string | null {
+    const value = (entity as Record<string, unknown>)[column]
+    return typeof value === 'string' ? value : null
+  }
+
   // ---------- Métodos de creación ----------
   protected create(data: DeepPartial<T>): T {
     return this.getRepo().create(data)
@@ -63,6 +170,7 @@ export abstract class BaseRepository<
     // Aplicar auditoría automática (createdBy para nuevas entidades)
     // Solo aplica si la entidad no tiene ID (es nueva)
     const isNew = !createdEntity.id
+    this.assertSameTenant(createdEntity)
     this.auditService.applyAudit(createdEntity, isNew)
 
     return await this.getRepo().save(createdEntity)
@@ -73,6 +181,7 @@ export abstract class BaseRepository<
 
     entities.forEach((entity) => {
       const isNew = !entity.id
+      this.assertSameTenant(entity)
       this.auditService.applyAudit(entity, isNew)
     })
 
@@ -81,21 +190,26 @@ export abstract class BaseRepository<
 
   // ---------- Métodos de búsqueda ----------
   async findById(id: string): Promise<T | null> {
-    return await this.getRepo().findOne({
-      where: { id } as FindOptionsWhere<T>,
+    const entity = await this.getRepo().findOne({
+      where: this.scopeWhere({ id } as FindOptionsWhere<T>),
     })
+    if (!entity) await this.assertNotCrossTenant(id)
+    return entity
   }
 
   async findByIds(ids: Array<string>): Promise<T[]> {
     return await this.getRepo().find({
-      where: {
-        id: In(ids),
-      },
-    } as FindManyOptions<T>)
+      where: this.scopeWhere({ id: In(ids) } as FindOptionsWhere<T>),
+    })
   }
 
   protected async findAll(options?: FindManyOptions<T>): Promise<T[]> {
-    return await this.getRepo().find(options)
+    return await this.getRepo().find({
+      ...options,
+      where: this.scopeWhere(
+        options?.where as FindOptionsWhere<T> | FindOptionsWhere<T>[],
+      ),
+    })
   }
 
   // Búsqueda genérica
@@ -104,8 +218,8 @@ export abstract class BaseRepository<
     options?: FindOneOptions<T>,
   ): Promise<T | null> {
     return await this.getRepo().findOne({
-      where,
       ...options,
+      where: this.scopeWhere(where),
     })
   }
 
@@ -114,13 +228,13 @@ export abstract class BaseRepository<
     options?: FindManyOptions<T>,
   ): Promise<T[]> {
     return await this.getRepo().find({
-      where,
       ...options,
+      where: this.scopeWhere(where),
     })
   }
 
   protected async count(where?: FindOptionsWhere<T>): Promise<number> {
-    return await this.getRepo().count({ where })
+    return await this.getRepo().count({ where: this.scopeWhere(where) })
   }
 
   protected async exists(where: FindOptionsWhere<T>): Promise<boolean> {
@@ -157,6 +271,9 @@ export abstract class BaseRepository<
     const skip = (page - 1) * limit
     const [data, total] = await this.getRepo().findAndCount({
       ...findOptions,
+      where: this.scopeWhere(
+        findOptions.where as FindOptionsWhere<T> | FindOptionsWhere<T>[],
+      ),
       take: limit,
       skip,
     })
@@ -170,6 +287,13 @@ export abstract class BaseRepository<
   ): Promise<PaginatedData<T>> {
     const { page = 1, limit = 10, all = false, sortBy, sortOrder } = query
 
+    // 0. Limitar a la organización actual (entidades @TenantScoped)
+    const column = getTenantColumn(this.repository.target)
+    const tenantId = this.auditService.getCurrentTenantId()
+    if (column && tenantId) {
+      qb.andWhere(`${qb.alias}.${column} = :tenantId`, { tenantId })
+    }
+
     // 1. Aplicar Ordenamiento Dinámico
     if (sortBy) {
       // Protegemos contra inyección SQL simple verificando que sea una columna válida
@@ -205,8 +329,17 @@ export abstract class BaseRepository<
     const auditData = this.auditService.getUpdateAudit()
     const dataWithAudit = { ...partialEntity, ...auditData }
 
+    // Limitar a la organización actual (un ID se convierte en condición)
+    const where =
+      typeof criteria === 'object'
+        ? this.scopeWhere(criteria)
+        : this.scopeWhere({ id: criteria } as FindOptionsWhere<T>)
+
     // Ejecución
-    const result = await this.getRepo().update(criteria, dataWithAudit)
+    const result = await this.getRepo().update(
+      where as FindOptionsWhere<T>,
+      dataWithAudit,
+    )
 
     // Tu mapeo estándar a booleano
     return (result.affected ?? 0) > 0
@@ -215,6 +348,9 @@ export abstract class BaseRepository<
   async patch(entity: T, partialEntity: DeepPartial<T>): Promise<T> {
     const updatedEntity = this.getRepo().merge(entity, partialEntity)
 
+    // No se puede mover un registro a otra organización
+    this.assertSameTenant(updatedEntity)
+
     // Aplicar auditoría (updatedBy) - no es nueva entidad
     this.auditService.applyAudit(updatedEntity, false)
 
@@ -222,14 +358,26 @@ export abstract class BaseRepository<
   }
 
   // ---------- Métodos de eliminación ----------
+  // Se cargan las entidades y se usan remove / softRemove / recover (en lugar
+  // de DELETE / UPDATE directos) para que los subscribers de TypeORM reciban
+  // el evento y el historial de auditoría registre la operación.
 
   /**
    * Eliminación permanente (hard delete)
    * El registro se elimina completamente de la base de datos
    */
   async delete(id: string): Promise<boolean> {
-    const result = await this.getRepo().delete(id)
-    return (result.affected ?? 0) > 0
+    const entity = await this.getRepo().findOne({
+      where: this.scopeWhere({ id } as FindOptionsWhere<T>),
+      withDeleted: true,
+    })
+    if (!entity) {
+      await this.assertNotCrossTenant(id)
+      return false
+    }
+
+    await this.getRepo().remove(entity)
+    return true
   }
 
   /**
@@ -237,15 +385,30 @@ export abstract class BaseRepository<
    * El registro permanece en la BD pero marca deletedAt
    */
   async softDelete(id: string): Promise<boolean> {
-    const result = await this.getRepo().softDelete(id)
-    return (result.affected ?? 0) > 0
+    const entity = await this.findById(id)
+    if (!entity) return false
+
+    await this.getRepo().softRemove(entity)
+    return true
   }
 
   /**
    * Recupera un registro soft-deleted
    */
   async recover(id: string): Promise<boolean> {
-    const result = await this.getRepo().restore(id)
-    return (result.affected ?? 0) > 0
+    const entity = await this.getRepo().findOne({
+      where: this.scopeWhere({
+        id,
+        deletedAt: Not(IsNull()),
+      } as FindOptionsWhere<T>),
+      withDeleted: true,
+    })
+    if (!entity) {
+      await this.assertNotCrossTenant(id)
+      return false
+    }
+
+    await this.getRepo().recover(entity)
+    return true
   }
 }
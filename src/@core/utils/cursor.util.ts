@@ -0,0 +1,43 @@
+import { BadRequestException } from '@nestjs/common'
+
+/**
+ * Posición de un registro en un listado ordenado por fecha + id
+ */
+export interface CursorPosition {
+  createdAt: Date
+  id: string
+}
+
+/**
+ * Utilidades para cursores de paginación (keyset)
+ *
+ * El cursor es opaco para el cliente: base64url de la fecha y el id
+ * del último registro de la página
+ */
+export class CursorUtil {
+  static encode(position: CursorPosition): string {
+    return Buffer.from(
+      JSON.stringify([position.createdAt.toISOString(), position.id]),
+    ).toString('base64url')
+  }
+
+  /**
+   * @throws {BadRequestException} Si el cursor no es válido
+   */
+  static decode(cursor: string): CursorPosition {
+    try {
+      const [createdAt, id] = JSON.parse(
+        Buffer.from(cursor, 'base64url').toString('utf8'),
+      ) as [string, string]
+      const date = new Date(createdAt)
+
+      if (typeof id !== 'string' || isNaN(date.getTime())) {
+        throw new Error('Cursor incompleto')
+      }
+
+      return { createdAt: date, id }
+    } catch {
+      throw new BadRequestException('El cursor de paginación no es válido')
+    }
+  }
+}
@@ -1 +1,2 @@
 export * from './time.util'
+export * from './cursor.util'
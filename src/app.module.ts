@@ -24,9 +24,14 @@ import { OrganizationsModule } from './modules/organizations/organizations.modul
 import { AuthModule } from './modules/auth/auth.module'
 import { AuthorizationModule } from './modules/authorization/authorization.module'
 import { PermissionsGuard } from './modules/authorization/guards/permissions.guard'
+import { TenantInterceptor } from './modules/authorization/interceptors'
 import { TemplatesModule } from './modules/audit-library/templates/templates.module'
 import { StandardsModule } from './modules/audit-library/standards/standards.module'
 import { MaturityModule } from './modules/maturity/maturity.module'
+import { AuditsModule } from './modules/audits/audits.module'
+import { FindingsModule } from './modules/findings/findings.module'
+import { SelfAssessmentsModule } from './modules/self-assessments/self-assessments.module'
+import { ReviewsModule } from './modules/reviews/reviews.module'
 
 import { ThrottlerModule, ThrottlerGuard } from '@nestjs/throttler'
 import { AuditLogModule } from './modules/audit-library/audit-log/audit-log.module'
@@ -78,6 +83,10 @@ import { ReportsModule } from '@core/reports/reports.module'
     TemplatesModule, // Must be imported before StandardsModule (dependency)
     StandardsModule,
     MaturityModule,
+    AuditsModule, // Audit engagements (templates + organizations + frameworks)
+    FindingsModule, // Findings / nonconformities register
+    SelfAssessmentsModule, // Client self-assessment questionnaires
+    ReviewsModule, // Maker/checker review and sign-off (@Reviewable entities)
     NavigationModule, // Navigation menu (static + dynamic)
     // ImportModule, // Template & Standards import (obsoleto - funcionalidad movida a TemplatesModule)
   ],
@@ -122,7 +131,12 @@ import { ReportsModule } from '@core/reports/reports.module'
       provide: APP_INTERCEPTOR,
       useClass: AuditInterceptor,
     },
-    // 3. TransformInterceptor: Estandariza todas las respuestas exitosas
+    // 3. TenantInterceptor: Limita los datos a la organización del usuario (CLS)
+    {
+      provide: APP_INTERCEPTOR,
+      useClass: TenantInterceptor,
+    },
+    // 4. TransformInterceptor: Estandariza todas las respuestas exitosas
     {
       provide: APP_INTERCEPTOR,
       useClass: TransformInterceptor,
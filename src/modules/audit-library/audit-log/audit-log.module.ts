@@ -3,19 +3,31 @@ import { TypeOrmModule } from '@nestjs/typeorm'
 import { AuditLogEntity } from './entities/audit-log.entity'
 import { AuditLogRepository } from './repositories/audit-log.repository'
 import { GranularAuditSubscriber } from './subscribers/granular-audit.subscriber'
-import { GetAuditHistoryUseCase } from './use-cases'
+import {
+  GetAuditHistoryUseCase,
+  GetFieldTimelineUseCase,
+  VerifyAuditChainUseCase,
+} from './use-cases'
+import {
+  AuditTimelineService,
+  AuditChainService,
+  AuditTrailService,
+} from './services'
 import { AuditLogController } from './controllers'
 
 /**
  * Audit Log Module
  *
- * Módulo de auditoría granular para Templates y Standards
+ * Módulo de auditoría granular para las entidades marcadas con @Auditable
  *
  * Características:
- * - Subscriber automático que detecta cambios en Template/Standard
+ * - Subscriber automático que detecta cambios en las entidades @Auditable
+ *   (Template, Standard, User, Organization, MaturityFramework, MaturityLevel)
  * - Guarda snapshots del usuario y cambios campo por campo
  * - Repositorio optimizado para consultas por template (rootId)
- * - Use cases para obtener historial completo
+ * - Use cases para buscar en el historial (cursor) y seguir un campo en el tiempo
+ * - Cadena de hashes por rootId verificable (endpoint y npm run audit:verify)
+ * - AuditTrailService para registrar cambios fuera de las entidades (ej: Casbin)
  *
  * IMPORTANTE:
  * 1. Este módulo debe ser importado en AppModule
@@ -33,8 +45,15 @@ import { AuditLogController } from './controllers'
     // TypeORM lo instanciará automáticamente, pero NestJS inyectará AuditService
     GranularAuditSubscriber,
 
+    // Services
+    AuditTimelineService,
+    AuditChainService,
+    AuditTrailService,
+
     // Use Cases
     GetAuditHistoryUseCase,
+    GetFieldTimelineUseCase,
+    VerifyAuditChainUseCase,
   ],
   exports: [
     // Exportar repositorio para otros módulos si es necesario
@@ -42,6 +61,9 @@ import { AuditLogController } from './controllers'
 
     // Exportar use case para controllers
     GetAuditHistoryUseCase,
+
+    // Registro manual de cambios que no son entidades @Auditable
+    AuditTrailService,
   ],
 })
 export class AuditLogModule {}
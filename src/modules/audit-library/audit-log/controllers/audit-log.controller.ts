@@ -7,8 +7,12 @@ import {
   ApiBearerAuth,
 } from '@nestjs/swagger'
 import { UuidParamDto } from '@core/dtos'
-import { GetAuditHistoryUseCase } from '../use-cases'
-import { GetAuditHistoryDto } from '../dtos'
+import {
+  GetAuditHistoryUseCase,
+  GetFieldTimelineUseCase,
+  VerifyAuditChainUseCase,
+} from '../use-cases'
+import { GetAuditHistoryDto, GetFieldTimelineDto } from '../dtos'
 import { AuditLogEntity } from '../entities'
 
 /**
@@ -22,8 +26,90 @@ import { AuditLogEntity } from '../entities'
 export class AuditLogController {
   constructor(
     private readonly getAuditHistoryUseCase: GetAuditHistoryUseCase,
+    private readonly getFieldTimelineUseCase: GetFieldTimelineUseCase,
+    private readonly verifyAuditChainUseCase: VerifyAuditChainUseCase,
   ) {}
 
+  /**
+   * GET /audit-log
+   *
+   * Busca en todo el historial con filtros y paginación por cursor
+   */
+  @Get()
+  @ApiOperation({
+    summary: 'Buscar en el historial de auditoría',
+    description:
+      'Retorna los cambios que cumplen los filtros (plantilla, tipo de entidad, entidad, usuario, acción y rango de fechas), ' +
+      'ordenados por fecha descendente. Paginación por cursor: enviar meta.nextCursor como "cursor" para obtener la siguiente página.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Página del historial de auditoría',
+    type: [AuditLogEntity],
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Filtros o cursor inválidos',
+  })
+  async search(@Query() query: GetAuditHistoryDto) {
+    return await this.getAuditHistoryUseCase.execute(query)
+  }
+
+  /**
+   * GET /audit-log/entities/:id/timeline
+   *
+   * Obtiene todos los valores que tuvo un campo de una entidad
+   */
+  @Get('entities/:id/timeline')
+  @ApiOperation({
+    summary: 'Línea de tiempo de un campo',
+    description:
+      'Retorna cada valor que tuvo un campo de una entidad (ej: el título de un standard) a lo largo del tiempo, ' +
+      'con el valor anterior, la fecha, la acción y el usuario de cada cambio. Ordenado del más antiguo al más reciente.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Línea de tiempo del campo',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'ID de entidad o campo inválido',
+  })
+  async getFieldTimeline(
+    @Param() { id }: UuidParamDto,
+    @Query() { field }: GetFieldTimelineDto,
+  ) {
+    return await this.getFieldTimelineUseCase.execute(id, field)
+  }
+
+  /**
+   * GET /audit-log/:rootId/verify
+   *
+   * Verifica que el historial de una plantilla no haya sido editado
+   */
+  @Get(':rootId/verify')
+  @ApiOperation({
+    summary: 'Verificar integridad del historial',
+    description:
+      'Recalcula la cadena de hashes (SHA-256) de todos los cambios de una plantilla y sus standards. ' +
+      'Si algún registro fue modificado, eliminado o insertado fuera de orden, retorna valid = false ' +
+      'y el primer eslabón roto (brokenAt) con el motivo.',
+  })
+  @ApiParam({
+    name: 'rootId',
+    description: 'ID del template cuyo historial se verifica',
+    type: 'string',
+    format: 'uuid',
+    example: '550e8400-e29b-41d4-a716-446655440000',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Resultado de la verificación',
+  })
+  async verifyChain(@Param('rootId') rootId: string) {
+    return await this.verifyAuditChainUseCase.execute(rootId)
+  }
+
   /**
    * GET /audit-log/:rootId
    *
@@ -35,7 +121,8 @@ export class AuditLogController {
     summary: 'Obtener historial de auditoría de una plantilla',
     description:
       'Retorna todos los cambios realizados en una plantilla y sus standards, ordenados por fecha descendente. ' +
-      'Incluye información del usuario que realizó cada cambio, el tipo de acción (CREATE, UPDATE, DELETE, etc.) y los cambios específicos realizados.',
+      'Incluye información del usuario que realizó cada cambio, el tipo de acción (CREATE, UPDATE, DELETE, etc.) y los cambios específicos realizados. ' +
+      'Acepta los mismos filtros y la misma paginación por cursor que GET /audit-log.',
   })
   @ApiParam({
     name: 'rootId',
@@ -51,17 +138,12 @@ export class AuditLogController {
   })
   @ApiResponse({
     status: 400,
-    description: 'ID de template inválido',
+    description: 'ID de template, filtros o cursor inválidos',
   })
   async getHistory(
     @Param('rootId') rootId: string,
-    @Query('limit') limit?: number,
-  ): Promise<AuditLogEntity[]> {
-    const dto: GetAuditHistoryDto = {
-      rootId,
-      limit: limit ? Number(limit) : undefined,
-    }
-
-    return await this.getAuditHistoryUseCase.execute(dto)
+    @Query() query: GetAuditHistoryDto,
+  ) {
+    return await this.getAuditHistoryUseCase.execute({ ...query, rootId })
   }
 }
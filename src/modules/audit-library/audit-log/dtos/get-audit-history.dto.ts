@@ -1,29 +1,76 @@
-import { IsUUID, IsOptional, IsInt, Min, Max } from '@core/i18n'
-import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger'
-import { Type } from 'class-transformer'
+import {
+  IsUUID,
+  IsOptional,
+  IsEnum,
+  IsString,
+  IsDateString,
+  MaxLength,
+} from '@core/i18n'
+import { ApiPropertyOptional } from '@nestjs/swagger'
+import { CursorPaginationDto } from '@core/dtos'
+import { AuditAction } from '../entities'
 
 /**
  * DTO para consultar el historial de auditoría
+ *
+ * Todos los filtros son opcionales y se combinan con AND.
+ * Paginación por cursor (más reciente primero).
  */
-export class GetAuditHistoryDto {
-  @ApiProperty({
+export class GetAuditHistoryDto extends CursorPaginationDto {
+  @ApiPropertyOptional({
     description: 'ID del template (rootId) para obtener todo su historial',
     example: '550e8400-e29b-41d4-a716-446655440000',
   })
+  @IsOptional()
+  @IsUUID('4')
+  rootId?: string
+
+  @ApiPropertyOptional({
+    description: 'Tipo de entidad afectada',
+    example: 'Standard',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  entity?: string
+
+  @ApiPropertyOptional({
+    description: 'ID de la entidad afectada',
+    example: '550e8400-e29b-41d4-a716-446655440000',
+  })
+  @IsOptional()
+  @IsUUID('4')
+  entityId?: string
+
+  @ApiPropertyOptional({
+    description: 'ID del usuario que realizó la acción',
+    example: '550e8400-e29b-41d4-a716-446655440000',
+  })
+  @IsOptional()
   @IsUUID('4')
-  rootId: string
+  userId?: string
+
+  @ApiPropertyOptional({
+    description: 'Acción realizada',
+    enum: AuditAction,
+  })
+  @IsOptional()
+  @IsEnum(AuditAction)
+  action?: AuditAction
+
+  @ApiPropertyOptional({
+    description: 'Fecha inicial (inclusive, ISO 8601)',
+    example: '2026-01-01T00:00:00.000Z',
+  })
+  @IsOptional()
+  @IsDateString()
+  from?: string
 
   @ApiPropertyOptional({
-    description: 'Límite de registros a retornar',
-    example: 100,
-    minimum: 1,
-    maximum: 500,
-    default: 100,
+    description: 'Fecha final (inclusive, ISO 8601)',
+    example: '2026-12-31T23:59:59.999Z',
   })
   @IsOptional()
-  @Type(() => Number)
-  @IsInt()
-  @Min(1)
-  @Max(500)
-  limit?: number
+  @IsDateString()
+  to?: string
 }
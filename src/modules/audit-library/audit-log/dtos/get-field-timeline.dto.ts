@@ -0,0 +1,16 @@
+import { IsString, IsNotEmpty, MaxLength } from '@core/i18n'
+import { ApiProperty } from '@nestjs/swagger'
+
+/**
+ * DTO para consultar la línea de tiempo de un campo
+ */
+export class GetFieldTimelineDto {
+  @ApiProperty({
+    description: 'Nombre del campo (propiedad de la entidad)',
+    example: 'title',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  field: string
+}
@@ -1 +1,2 @@
 export * from './get-audit-history.dto'
+export * from './get-field-timeline.dto'
@@ -5,19 +5,9 @@ import {
   CreateDateColumn,
   Index,
 } from 'typeorm'
+import { AuditAction } from '@core/database/audit-action.enum'
 
-/**
- * Tipos de acción auditables
- */
-export enum AuditAction {
-  CREATE = 'CREATE',
-  UPDATE = 'UPDATE',
-  DELETE = 'DELETE',
-  ARCHIVE = 'ARCHIVE',
-  ACTIVATE = 'ACTIVATE',
-  DEACTIVATE = 'DEACTIVATE',
-  PUBLISH = 'PUBLISH',
-}
+export { AuditAction }
 
 /**
  * Formato de un cambio individual en el audit log
@@ -31,7 +21,7 @@ export interface AuditChange {
 /**
  * Entidad de Auditoría Granular
  *
- * Guarda un snapshot completo de cada cambio realizado en Template y Standard.
+ * Guarda un snapshot completo de cada cambio realizado en las entidades @Auditable.
  * Diseñada para ser consultada eficientemente por rootId (el ID del template).
  *
  * Características:
@@ -39,6 +29,9 @@ export interface AuditChange {
  * - Desnormalización: guarda rootId para agrupar todo el historial de una plantilla
  * - Cambios en formato JSONB para flexibilidad y consultas rápidas
  * - Índices optimizados para queries por template
+ * - Cadena de hashes por rootId (sequence + previousHash + hash) para
+ *   demostrar que el historial no fue editado (ver AuditChainService)
+ * - Organización dueña (organizationId) para separar el historial por tenant
  *
  * @example
  * ```typescript
@@ -51,13 +44,18 @@ export interface AuditChange {
  */
 @Entity('audit_logs')
 @Index(['rootId', 'createdAt']) // Query principal: historial de template ordenado
+@Index(['rootId', 'sequence'], { unique: true }) // Un solo eslabón por posición
 @Index(['entityId']) // Query por entidad específica
 @Index(['userId']) // Query por usuario
 export class AuditLogEntity {
   @PrimaryGeneratedColumn('uuid')
   id: string
 
-  @CreateDateColumn()
+  /**
+   * Precisión de milisegundos (la misma de Date en JS) para que el cursor
+   * de paginación (createdAt + id) identifique exactamente cada registro
+   */
+  @CreateDateColumn({ precision: 3 })
   createdAt: Date
 
   // ========================================
@@ -90,8 +88,8 @@ export class AuditLogEntity {
   // ========================================
 
   /**
-   * Tipo de entidad afectada
-   * 'Template' o 'Standard'
+   * Tipo de entidad afectada (nombre declarado en @Auditable)
+   * Ej: 'Template', 'Standard', 'User', 'Organization', 'MaturityLevel'
    */
   @Column({ type: 'varchar', length: 50 })
   entity: string
@@ -103,10 +101,11 @@ export class AuditLogEntity {
   entityId: string
 
   /**
-   * ID del Template raíz (agrupador)
+   * ID del agregado raíz (agrupador), resuelto por @Auditable
    *
    * - Si entity = 'Template' → rootId = template.id
    * - Si entity = 'Standard' → rootId = standard.templateId
+   * - Si entity = 'MaturityLevel' → rootId = level.frameworkId
    *
    * Permite traer todo el historial de una plantilla con una query:
    * WHERE rootId = templateId ORDER BY createdAt DESC
@@ -115,6 +114,17 @@ export class AuditLogEntity {
   @Column({ type: 'uuid' })
   rootId: string
 
+  /**
+   * Organización dueña del registro auditado (null = dato global, ej: plantillas)
+   *
+   * Se toma de la columna @TenantScoped de la entidad; las entidades hijas
+   * (ej: respuestas de una autoevaluación) la heredan del log anterior de
+   * su rootId. AuditLogRepository filtra por ella.
+   */
+  @Index()
+  @Column({ type: 'uuid', nullable: true })
+  organizationId: string | null
+
   // ========================================
   // CÓMO (Tipo de acción)
   // ========================================
@@ -137,8 +147,9 @@ export class AuditLogEntity {
    *
    * Formato: [{ field: campo, oldValue: valor_anterior, newValue: valor_nuevo }]
    *
-   * Para CREATE: null o []
-   * Para DELETE/ARCHIVE: null o snapshot del estado final
+   * Para CREATE: snapshot inicial (oldValue = null en todos los campos)
+   * Para DELETE: tombstone con el estado final (newValue = null)
+   * Para ARCHIVE/RESTORE: null
    *
    * @example
    * [
@@ -164,4 +175,26 @@ export class AuditLogEntity {
    */
   @Column({ type: 'jsonb', nullable: true })
   metadata: Record<string, unknown> | null
+
+  // ========================================
+  // INTEGRIDAD (Cadena de hashes por rootId)
+  // ========================================
+
+  /**
+   * Posición del log en la cadena de su rootId (empieza en 1)
+   */
+  @Column({ type: 'int' })
+  sequence: number
+
+  /**
+   * Hash del log anterior del mismo rootId (null en el primero)
+   */
+  @Column({ type: 'varchar', length: 64, nullable: true })
+  previousHash: string | null
+
+  /**
+   * SHA-256 (hex) del contenido del log, incluido previousHash
+   */
+  @Column({ type: 'varchar', length: 64 })
+  hash: string
 }
@@ -0,0 +1,38 @@
+/**
+ * Motivo por el que un eslabón de la cadena no es válido
+ *
+ * - SEQUENCE_GAP: falta un log (o se insertó uno fuera de orden)
+ * - PREVIOUS_HASH_MISMATCH: el log no apunta al hash del anterior
+ * - HASH_MISMATCH: el contenido del log fue modificado
+ */
+export type AuditChainBreakReason =
+  | 'SEQUENCE_GAP'
+  | 'PREVIOUS_HASH_MISMATCH'
+  | 'HASH_MISMATCH'
+
+/**
+ * Primer eslabón roto de la cadena
+ */
+export interface AuditChainBreak {
+  logId: string
+  sequence: number
+  createdAt: Date
+  reason: AuditChainBreakReason
+  /** Valor esperado (secuencia o hash) */
+  expected: string | number | null
+  /** Valor almacenado (secuencia o hash) */
+  actual: string | number | null
+}
+
+/**
+ * Resultado de verificar la cadena de hashes de un agregado raíz
+ */
+export interface AuditChainVerification {
+  rootId: string
+  valid: boolean
+  /** Logs verificados antes de encontrar el primer eslabón roto */
+  checked: number
+  /** Hash del último log (null si no hay historial) */
+  lastHash: string | null
+  brokenAt: AuditChainBreak | null
+}
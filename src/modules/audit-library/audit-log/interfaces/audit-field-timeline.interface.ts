@@ -0,0 +1,30 @@
+import type { AuditAction } from '../entities'
+
+/**
+ * Un valor que tuvo el campo a partir de un cambio registrado
+ */
+export interface AuditFieldTimelineEntry {
+  logId: string
+  changedAt: Date
+  action: AuditAction
+  previousValue: unknown
+  value: unknown
+  userId: string | null
+  userFullName: string | null
+  userEmail: string | null
+}
+
+/**
+ * Línea de tiempo de un campo de una entidad (más antiguo primero)
+ */
+export interface AuditFieldTimeline {
+  entityId: string
+  /** Tipo de entidad (null si el campo nunca cambió) */
+  entity: string | null
+  field: string
+  /** Valor antes del primer cambio registrado (null si nunca cambió) */
+  initialValue: unknown
+  /** Valor después del último cambio registrado (null si nunca cambió) */
+  currentValue: unknown
+  entries: AuditFieldTimelineEntry[]
+}
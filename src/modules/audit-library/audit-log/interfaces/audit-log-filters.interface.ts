@@ -0,0 +1,23 @@
+import type { CursorPosition } from '@core/utils'
+import type { AuditAction } from '../entities'
+
+/**
+ * Filtros de búsqueda del historial (se combinan con AND)
+ */
+export interface AuditLogFilters {
+  rootId?: string
+  entity?: string
+  entityId?: string
+  userId?: string
+  action?: AuditAction
+  from?: Date
+  to?: Date
+}
+
+/**
+ * Página a obtener: posición del último registro de la página anterior
+ */
+export interface AuditLogPageRequest {
+  after?: CursorPosition
+  limit: number
+}
@@ -0,0 +1,3 @@
+export * from './audit-field-timeline.interface'
+export * from './audit-log-filters.interface'
+export * from './audit-chain.interface'
@@ -1,21 +1,66 @@
 import { Injectable } from '@nestjs/common'
 import { InjectRepository } from '@nestjs/typeorm'
-import { Repository } from 'typeorm'
+import {
+  Repository,
+  Brackets,
+  MoreThan,
+  IsNull,
+  FindOptionsWhere,
+  SelectQueryBuilder,
+} from 'typeorm'
+import { AuditService } from '@core/database/audit.service'
 import { AuditLogEntity } from '../entities/audit-log.entity'
+import type { AuditLogFilters, AuditLogPageRequest } from '../interfaces'
 
 /**
  * Audit Log Repository
  *
  * Repositorio para consultar el historial de auditoría granular
  * NO extiende BaseRepository porque es read-only (no se crean/actualizan/eliminan logs manualmente)
+ *
+ * Todas las consultas se limitan a la organización actual: sus logs y los
+ * de datos globales (organizationId null, ej: plantillas)
  */
 @Injectable()
 export class AuditLogRepository {
   constructor(
     @InjectRepository(AuditLogEntity)
     private readonly repository: Repository<AuditLogEntity>,
+    private readonly auditService: AuditService,
   ) {}
 
+  /**
+   * Agrega el filtro de organización a un where (OR con los logs globales)
+   * Sin tenant en el contexto (admin, sistema, CLI) no se filtra nada
+   */
+  private scopeWhere(
+    where: FindOptionsWhere<AuditLogEntity>,
+  ): FindOptionsWhere<AuditLogEntity> | FindOptionsWhere<AuditLogEntity>[] {
+    const tenantId = this.auditService.getCurrentTenantId()
+    if (!tenantId) return where
+
+    return [
+      { ...where, organizationId: tenantId },
+      { ...where, organizationId: IsNull() },
+    ]
+  }
+
+  /**
+   * Agrega el filtro de organización a una query (alias 'log')
+   */
+  private scopeQuery(
+    query: SelectQueryBuilder<AuditLogEntity>,
+  ): SelectQueryBuilder<AuditLogEntity> {
+    const tenantId = this.auditService.getCurrentTenantId()
+    if (tenantId) {
+      query.andWhere(
+        '(log.organizationId = :tenantId OR log.organizationId IS NULL)',
+        { tenantId },
+      )
+    }
+    return query
+  }
+
   /**
    * Obtiene el historial completo de una plantilla (template + sus standards)
    *
@@ -28,12 +73,138 @@ export class AuditLogRepository {
     limit: number = 100,
   ): Promise<AuditLogEntity[]> {
     return await this.repository.find({
-      where: { rootId },
+      where: this.scopeWhere({ rootId }),
       order: { createdAt: 'DESC' },
       take: limit,
     })
   }
 
+  /**
+   * Busca en el historial con filtros y paginación por cursor (keyset)
+   *
+   * Ordena por createdAt DESC, id DESC y trae limit + 1 registros para
+   * que el use case sepa si existe una página siguiente
+   *
+   * @param filters - Filtros opcionales (se combinan con AND)
+   * @param page - Cursor (posición del último registro ya entregado) y límite
+   * @returns Hasta limit + 1 logs ordenados por fecha descendente
+   */
+  async findWithFilters(
+    filters: AuditLogFilters,
+    page: AuditLogPageRequest,
+  ): Promise<AuditLogEntity[]> {
+    const query = this.scopeQuery(this.repository.createQueryBuilder('log'))
+
+    if (filters.rootId) {
+      query.andWhere('log.rootId = :rootId', { rootId: filters.rootId })
+    }
+    if (filters.entity) {
+      query.andWhere('log.entity = :entity', { entity: filters.entity })
+    }
+    if (filters.entityId) {
+      query.andWhere('log.entityId = :entityId', {
+        entityId: filters.entityId,
+      })
+    }
+    if (filters.userId) {
+      query.andWhere('log.userId = :userId', { userId: filters.userId })
+    }
+    if (filters.action) {
+      query.andWhere('log.action = :action', { action: filters.action })
+    }
+    if (filters.from) {
+      query.andWhere('log.createdAt >= :from', { from: filters.from })
+    }
+    if (filters.to) {
+      query.andWhere('log.createdAt <= :to', { to: filters.to })
+    }
+
+    if (page.after) {
+      const { createdAt, id } = page.after
+      query.andWhere(
+        new Brackets((qb) => {
+          qb.where('log.createdAt < :cursorDate', {
+            cursorDate: createdAt,
+          }).orWhere('log.createdAt = :cursorDate AND log.id < :cursorId', {
+            cursorDate: createdAt,
+            cursorId: id,
+          })
+        }),
+      )
+    }
+
+    return await query
+      .orderBy('log.createdAt', 'DESC')
+      .addOrderBy('log.id', 'DESC')
+      .take(page.limit + 1)
+      .getMany()
+  }
+
+  /**
+   * Obtiene los logs de una entidad que modificaron un campo específico
+   *
+   * @param entityId - ID de la entidad
+   * @param field - Nombre del campo (AuditChange.field)
+   * @returns Logs ordenados por fecha ascendente (más antiguo primero)
+   */
+  async findFieldChanges(
+    entityId: string,
+    field: string,
+  ): Promise<AuditLogEntity[]> {
+    return await this.scopeQuery(this.repository.createQueryBuilder('log'))
+      .andWhere('log.entityId = :entityId', { entityId })
+      .andWhere('log.changes @> :change::jsonb', {
+        change: JSON.stringify([{ field }]),
+      })
+      .orderBy('log.createdAt', 'ASC')
+      .addOrderBy('log.id', 'ASC')
+      .getMany()
+  }
+
+  /**
+   * Obtiene los cambios de un agregado raíz posteriores a una fecha
+   *
+   * @param rootId - ID del agregado raíz (ej: el template)
+   * @param after - Fecha desde la que se traen los logs (exclusiva)
+   * @returns Logs del más reciente al más antiguo (orden de la cadena)
+   */
+  async findByRootIdAfter(
+    rootId: string,
+    after: Date,
+  ): Promise<AuditLogEntity[]> {
+    return await this.repository.find({
+      where: this.scopeWhere({ rootId, createdAt: MoreThan(after) }),
+      order: { sequence: 'DESC' },
+    })
+  }
+
+  /**
+   * Obtiene la cadena completa de un agregado raíz para verificarla
+   *
+   * @param rootId - ID del agregado raíz
+   * @returns Logs ordenados por posición en la cadena (sequence ascendente)
+   */
+  async findChain(rootId: string): Promise<AuditLogEntity[]> {
+    return await this.repository.find({
+      where: this.scopeWhere({ rootId }),
+      order: { sequence: 'ASC' },
+    })
+  }
+
+  /**
+   * Obtiene los rootId distintos que tienen historial
+   *
+   * @returns IDs de todos los agregados raíz con al menos un log
+   */
+  async findRootIds(): Promise<string[]> {
+    const rows = await this.scopeQuery(
+      this.repository.createQueryBuilder('log'),
+    )
+      .select('DISTINCT log.rootId', 'rootId')
+      .getRawMany<{ rootId: string }>()
+    return rows.map((row) => row.rootId)
+  }
+
   /**
    * Obtiene el historial de una entidad específica (un template o standard)
    *
@@ -46,7 +217,7 @@ export class AuditLogRepository {
     limit: number = 50,
   ): Promise<AuditLogEntity[]> {
     return await this.repository.find({
-      where: { entityId },
+      where: this.scopeWhere({ entityId }),
       order: { createdAt: 'DESC' },
       take: limit,
     })
@@ -64,7 +235,7 @@ export class AuditLogRepository {
     limit: number = 100,
   ): Promise<AuditLogEntity[]> {
     return await this.repository.find({
-      where: { userId },
+      where: this.scopeWhere({ userId }),
       order: { createdAt: 'DESC' },
       take: limit,
     })
@@ -83,9 +254,8 @@ export class AuditLogRepository {
     startDate: Date,
     endDate: Date,
   ): Promise<AuditLogEntity[]> {
-    return await this.repository
-      .createQueryBuilder('log')
-      .where('log.rootId = :rootId', { rootId })
+    return await this.scopeQuery(this.repository.createQueryBuilder('log'))
+      .andWhere('log.rootId = :rootId', { rootId })
       .andWhere('log.createdAt >= :startDate', { startDate })
       .andWhere('log.createdAt <= :endDate', { endDate })
       .orderBy('log.createdAt', 'DESC')
@@ -100,7 +270,7 @@ export class AuditLogRepository {
    */
   async countByRootId(rootId: string): Promise<number> {
     return await this.repository.count({
-      where: { rootId },
+      where: this.scopeWhere({ rootId }),
     })
   }
 }
@@ -0,0 +1,140 @@
+import { AuditChainService } from './audit-chain.service'
+import { AuditLogEntity, AuditAction } from '../entities'
+
+describe('AuditChainService', () => {
+  let service: AuditChainService
+
+  /**
+   * Cadena válida de n logs para template-1
+   */
+  const buildChain = (length: number): AuditLogEntity[] => {
+    const logs: AuditLogEntity[] = []
+    for (let i = 1; i <= length; i++) {
+      const log = Object.assign(new AuditLogEntity(), {
+        id: `log-${i}`,
+        createdAt: new Date(`2026-01-0${i}T10:00:00.123Z`),
+        entity: 'Standard',
+        entityId: 'standard-1',
+        rootId: 'template-1',
+        action: AuditAction.UPDATE,
+        userId: 'user-1',
+        userFullName: 'Ana Pérez',
+        userEmail: 'ana@example.com',
+        changes: [{ field: 'title', oldValue: `v${i - 1}`, newValue: `v${i}` }],
+        metadata: null,
+        sequence: i,
+        previousHash: logs[i - 2]?.hash ?? null,
+      })
+      log.hash = service.computeHash(log)
+      logs.push(log)
+    }
+    return logs
+  }
+
+  beforeEach(() => {
+    service = new AuditChainService()
+  })
+
+  it('should not depend on the key order of the JSON changes', () => {
+    // Arrange: JSONB devuelve las claves en otro orden
+    const [log] = buildChain(1)
+    const reloaded = Object.assign(new AuditLogEntity(), log, {
+      changes: [{ newValue: 'v1', field: 'title', oldValue: 'v0' }],
+    })
+
+    // Act & Assert
+    expect(service.computeHash(reloaded)).toBe(log.hash)
+  })
+
+  it('should keep the hash of logs without organization', () => {
+    // Arrange: logs globales escritos antes de la columna organizationId
+    const [log] = buildChain(1)
+    const reloaded = Object.assign(new AuditLogEntity(), log, {
+      organizationId: null,
+    })
+
+    // Act & Assert
+    expect(service.computeHash(reloaded)).toBe(log.hash)
+  })
+
+  it('should detect a log moved to another organization', () => {
+    // Arrange
+    const logs = buildChain(2)
+    logs[1].organizationId = 'org-2'
+
+    // Act
+    const result = service.verify('template-1', logs)
+
+    // Assert
+    expect(result.valid).toBe(false)
+    expect(result.brokenAt?.reason).toBe('HASH_MISMATCH')
+    expect(result.brokenAt?.sequence).toBe(2)
+  })
+
+  it('should accept an intact chain', () => {
+    // Arrange
+    const logs = buildChain(3)
+
+    // Act
+    const result = service.verify('template-1', logs)
+
+    // Assert
+    expect(result.valid).toBe(true)
+    expect(result.checked).toBe(3)
+    expect(result.lastHash).toBe(logs[2].hash)
+    expect(result.brokenAt).toBeNull()
+  })
+
+  it('should report the first edited log', () => {
+    // Arrange
+    const logs = buildChain(3)
+    logs[1].changes = [{ field: 'title', oldValue: 'v1', newValue: 'editado' }]
+
+    // Act
+    const result = service.verify('template-1', logs)
+
+    // Assert
+    expect(result.valid).toBe(false)
+    expect(result.checked).toBe(1)
+    expect(result.brokenAt).toMatchObject({
+      logId: 'log-2',
+      sequence: 2,
+      reason: 'HASH_MISMATCH',
+      actual: logs[1].hash,
+    })
+  })
+
+  it('should report a deleted log as a sequence gap', () => {
+    // Arrange
+    const logs = buildChain(3)
+    logs.splice(1, 1)
+
+    // Act
+    const result = service.verify('template-1', logs)
+
+    // Assert
+    expect(result.brokenAt).toMatchObject({
+      logId: 'log-3',
+      reason: 'SEQUENCE_GAP',
+      expected: 2,
+      actual: 3,
+    })
+  })
+
+  it('should report a log rehashed without its predecessor', () => {
+    // Arrange: se edita log-1 y se recalcula su hash
+    const logs = buildChain(2)
+    logs[0].userFullName = 'Otro usuario'
+    logs[0].hash = service.computeHash(logs[0])
+
+    // Act
+    const result = service.verify('template-1', logs)
+
+    // Assert
+    expect(result.brokenAt).toMatchObject({
+      logId: 'log-2',
+      reason: 'PREVIOUS_HASH_MISMATCH',
+      expected: logs[0].hash,
+    })
+  })
+})
@@ -0,0 +1,134 @@
+import { Injectable } from '@nestjs/common'
+import { createHash } from 'crypto'
+import type { AuditLogEntity } from '../entities'
+import type { AuditChainBreak, AuditChainVerification } from '../interfaces'
+
+/**
+ * Audit Chain Service
+ *
+ * Encadena los logs de un mismo agregado raíz: cada log guarda el SHA-256
+ * de su contenido más el hash del log anterior, de modo que editar o
+ * eliminar un registro rompe todos los eslabones siguientes
+ */
+@Injectable()
+export class AuditChainService {
+  /**
+   * Calcula el hash de un log (incluye previousHash y sequence)
+   *
+   * Las claves se serializan ordenadas: JSONB no conserva el orden
+   * de las claves y el hash debe poder recalcularse al leer el log.
+   * organizationId solo entra si existe (los logs globales conservan
+   * el hash que tenían antes de la columna)
+   */
+  computeHash(log: AuditLogEntity): string {
+    const content = this.canonicalize({
+      id: log.id,
+      sequence: log.sequence,
+      previousHash: log.previousHash,
+      rootId: log.rootId,
+      organizationId: log.organizationId ?? undefined,
+      entity: log.entity,
+      entityId: log.entityId,
+      action: log.action,
+      userId: log.userId,
+      userFullName: log.userFullName,
+      userEmail: log.userEmail,
+      changes: log.changes,
+      metadata: log.metadata ?? null,
+      createdAt: log.createdAt.toISOString(),
+    })
+    return createHash('sha256').update(content).digest('hex')
+  }
+
+  /**
+   * Recorre la cadena y reporta el primer eslabón roto
+   *
+   * @param rootId - ID del agregado raíz
+   * @param logs - Logs del agregado ordenados por sequence ascendente
+   */
+  verify(rootId: string, logs: AuditLogEntity[]): AuditChainVerification {
+    let previousHash: string | null = null
+
+    for (const [index, log] of logs.entries()) {
+      const brokenAt = this.checkLink(log, index + 1, previousHash)
+      if (brokenAt) {
+        return {
+          rootId,
+          valid: false,
+          checked: index,
+          lastHash: null,
+          brokenAt,
+        }
+      }
+      previousHash = log.hash
+    }
+
+    return {
+      rootId,
+      valid: true,
+      checked: logs.length,
+      lastHash: previousHash,
+      brokenAt: null,
+    }
+  }
+
+  private checkLink(
+    log: AuditLogEntity,
+    expectedSequence: number,
+    previousHash: string | null,
+  ): AuditChainBreak | null {
+    const link = {
+      logId: log.id,
+      sequence: log.sequence,
+      createdAt: log.createdAt,
+    }
+
+    if (log.sequence !== expectedSequence) {
+      return {
+        ...link,
+        reason: 'SEQUENCE_GAP',
+        expected: expectedSequence,
+        actual: log.sequence,
+      }
+    }
+    if (log.previousHash !== previousHash) {
+      return {
+        ...link,
+        reason: 'PREVIOUS_HASH_MISMATCH',
+        expected: previousHash,
+        actual: log.previousHash,
+      }
+    }
+
+    const hash = this.computeHash(log)
+    if (log.hash !== hash) {
+      return {
+        ...link,
+        reason: 'HASH_MISMATCH',
+        expected: hash,
+        actual: log.hash,
+      }
+    }
+    return null
+  }
+
+  /**
+   * JSON con las claves de los objetos ordenadas (en todos los niveles)
+   */
+  private canonicalize(value: unknown): string {
+    if (Array.isArray(value)) {
+      return `[${value.map((item) => this.canonicalize(item)).join(',')}]`
+    }
+    if (value && typeof value === 'object' && !(value instanceof Date)) {
+      const entries = Object.keys(value)
+        .sort()
+        .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+        .map(
+          (key) =>
+            `${JSON.stringify(key)}:${this.canonicalize((value as Record<string, unknown>)[key])}`,
+        )
+      return `{${entries.join(',')}}`
+    }
+    return JSON.stringify(value ?? null)
+  }
+}
@@ -0,0 +1,64 @@
+import { AuditTimelineService } from './audit-timeline.service'
+import { AuditLogEntity, AuditAction, AuditChange } from '../entities'
+
+describe('AuditTimelineService', () => {
+  let service: AuditTimelineService
+
+  const buildLog = (
+    id: string,
+    createdAt: string,
+    changes: AuditChange[],
+  ): AuditLogEntity =>
+    Object.assign(new AuditLogEntity(), {
+      id,
+      createdAt: new Date(createdAt),
+      entity: 'Standard',
+      entityId: 'standard-1',
+      rootId: 'template-1',
+      action: AuditAction.UPDATE,
+      userId: 'user-1',
+      userFullName: 'Ana Pérez',
+      userEmail: 'ana@example.com',
+      changes,
+    })
+
+  beforeEach(() => {
+    service = new AuditTimelineService()
+  })
+
+  it('should list every value the field had, oldest first', () => {
+    // Arrange
+    const logs = [
+      buildLog('log-1', '2026-01-01T10:00:00Z', [
+        { field: 'title', oldValue: 'Contraseñas', newValue: 'Claves' },
+        { field: 'order', oldValue: 1, newValue: 2 },
+      ]),
+      buildLog('log-2', '2026-02-01T10:00:00Z', [
+        { field: 'title', oldValue: 'Claves', newValue: 'Política de claves' },
+      ]),
+    ]
+
+    // Act
+    const timeline = service.buildFieldTimeline('standard-1', 'title', logs)
+
+    // Assert
+    expect(timeline.entity).toBe('Standard')
+    expect(timeline.initialValue).toBe('Contraseñas')
+    expect(timeline.currentValue).toBe('Política de claves')
+    expect(timeline.entries.map((e) => [e.logId, e.value])).toEqual([
+      ['log-1', 'Claves'],
+      ['log-2', 'Política de claves'],
+    ])
+    expect(timeline.entries[0].userFullName).toBe('Ana Pérez')
+  })
+
+  it('should return an empty timeline when the field never changed', () => {
+    // Act
+    const timeline = service.buildFieldTimeline('standard-1', 'title', [])
+
+    // Assert
+    expect(timeline.entity).toBeNull()
+    expect(timeline.initialValue).toBeNull()
+    expect(timeline.entries).toEqual([])
+  })
+})
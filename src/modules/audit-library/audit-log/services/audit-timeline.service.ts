@@ -0,0 +1,54 @@
+import { Injectable } from '@nestjs/common'
+import type { AuditLogEntity } from '../entities'
+import type { AuditFieldTimeline, AuditFieldTimelineEntry } from '../interfaces'
+
+/**
+ * Audit Timeline Service
+ *
+ * Reconstruye la historia de valores de un campo a partir de los
+ * AuditChange registrados (sin acceso a datos)
+ */
+@Injectable()
+export class AuditTimelineService {
+  /**
+   * @param entityId - ID de la entidad
+   * @param field - Campo a seguir
+   * @param logs - Logs de la entidad que modificaron el campo (más antiguo primero)
+   * @returns Línea de tiempo con un registro por cada cambio del campo
+   */
+  buildFieldTimeline(
+    entityId: string,
+    field: string,
+    logs: AuditLogEntity[],
+  ): AuditFieldTimeline {
+    const entries: AuditFieldTimelineEntry[] = []
+
+    logs.forEach((log) => {
+      const change = log.changes?.find((c) => c.field === field)
+      if (!change) return
+
+      entries.push({
+        logId: log.id,
+        changedAt: log.createdAt,
+        action: log.action,
+        previousValue: change.oldValue,
+        value: change.newValue,
+        userId: log.userId,
+        userFullName: log.userFullName,
+        userEmail: log.userEmail,
+      })
+    })
+
+    const first = entries[0]
+    const last = entries[entries.length - 1]
+
+    return {
+      entityId,
+      entity: logs[0]?.entity ?? null,
+      field,
+      initialValue: first ? first.previousValue : null,
+      currentValue: last ? last.value : null,
+      entries,
+    }
+  }
+}
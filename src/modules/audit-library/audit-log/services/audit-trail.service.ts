@@ -0,0 +1,101 @@
+import { Injectable } from '@nestjs/common'
+import { randomUUID } from 'crypto'
+import type { EntityManager } from 'typeorm'
+import { AuditService } from '@core/database/audit.service'
+import { TransactionService } from '@core/database/transaction.service'
+import { AuditLogEntity } from '../entities'
+import type { AuditAction, AuditChange } from '../entities'
+import { AuditChainService } from './audit-chain.service'
+
+/**
+ * Datos de un registro del historial
+ */
+export interface AuditTrailEntry {
+  /** Tipo de entidad (ej: 'Template', 'Role') */
+  entity: string
+  entityId: string
+  /** Agregado raíz que agrupa el historial */
+  rootId: string
+  action: AuditAction
+  changes: AuditChange[] | null
+  /** Organización dueña (por defecto, la del log anterior del mismo rootId) */
+  organizationId?: string | null
+}
+
+/**
+ * Audit Trail Service
+ *
+ * Escribe los registros del historial de auditoría encadenados (ver
+ * AuditChainService). Lo usa GranularAuditSubscriber para las entidades
+ * @Auditable y cualquier caso de uso que modifique datos que no son
+ * entidades (ej: políticas de Casbin).
+ */
+@Injectable()
+export class AuditTrailService {
+  constructor(
+    private readonly auditService: AuditService,
+    private readonly transactionService: TransactionService,
+    private readonly auditChainService: AuditChainService,
+  ) {}
+
+  /**
+   * Registra un cambio en la transacción activa (o en una nueva)
+   */
+  async record(entry: AuditTrailEntry): Promise<AuditLogEntity> {
+    return await this.transactionService.runInTransaction(
+      async (manager) => await this.write(manager, entry),
+    )
+  }
+
+  /**
+   * Registra un cambio con el manager indicado (debe estar en una transacción)
+   */
+  async write(
+    manager: EntityManager,
+    entry: AuditTrailEntry,
+  ): Promise<AuditLogEntity> {
+    const user = this.auditService.getCurrentUser()
+
+    const log = new AuditLogEntity()
+    log.userId = user?.userId || null
+    log.userFullName = user?.fullName || 'System'
+    log.userEmail = user?.email || null
+    log.entity = entry.entity
+    log.entityId = entry.entityId
+    log.rootId = entry.rootId
+    log.action = entry.action
+    log.changes = entry.changes
+    log.organizationId = entry.organizationId ?? null
+
+    await this.chain(manager, log)
+    return await manager.save(AuditLogEntity, log)
+  }
+
+  /**
+   * Enlaza el log con el último de su rootId y calcula su hash
+   *
+   * El bloqueo (hasta el fin de la transacción) evita que dos operaciones
+   * concurrentes sobre el mismo agregado tomen el mismo eslabón anterior
+   */
+  private async chain(
+    manager: EntityManager,
+    log: AuditLogEntity,
+  ): Promise<void> {
+    await manager.query('SELECT pg_advisory_xact_lock(hashtext($1))', [
+      log.rootId,
+    ])
+    const last = await manager.findOne(AuditLogEntity, {
+      where: { rootId: log.rootId },
+      order: { sequence: 'DESC' },
+    })
+
+    // id y fecha se asignan aquí porque forman parte del hash
+    log.id = randomUUID()
+    log.createdAt = new Date()
+    log.sequence = (last?.sequence ?? 0) + 1
+    log.previousHash = last?.hash ?? null
+    log.organizationId ??= last?.organizationId ?? null
+    log.metadata = null
+    log.hash = this.auditChainService.computeHash(log)
+  }
+}
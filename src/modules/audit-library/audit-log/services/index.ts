@@ -0,0 +1,3 @@
+export * from './audit-timeline.service'
+export * from './audit-chain.service'
+export * from './audit-trail.service'
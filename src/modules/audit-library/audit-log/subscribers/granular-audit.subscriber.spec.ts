@@ -0,0 +1,245 @@
+import type {
+  DataSource,
+  InsertEvent,
+  ObjectLiteral,
+  RemoveEvent,
+  UpdateEvent,
+} from 'typeorm'
+import type { AuditService } from '@core/database/audit.service'
+import type { TransactionService } from '@core/database/transaction.service'
+import { GranularAuditSubscriber } from './granular-audit.subscriber'
+import { AuditChainService } from '../services/audit-chain.service'
+import { AuditTrailService } from '../services/audit-trail.service'
+import { AuditLogEntity, AuditAction } from '../entities'
+import { TemplateEntity } from '../../templates/entities'
+import { TemplateStatus } from '../../templates/constants'
+import { UserEntity } from '../../../users/entities/user.entity'
+import {
+  SelfAssessmentEntity,
+  SelfAssessmentResponseEntity,
+} from '../../../self-assessments/entities'
+
+describe('GranularAuditSubscriber', () => {
+  let subscriber: GranularAuditSubscriber
+  let saved: AuditLogEntity[]
+
+  const manager = {
+    save: jest.fn((_target: unknown, log: AuditLogEntity) => {
+      saved.push(log)
+      return Promise.resolve(log)
+    }),
+    query: jest.fn(() => Promise.resolve([])),
+    findOne: jest.fn(() => Promise.resolve(saved[saved.length - 1] ?? null)),
+  }
+
+  /**
+   * Metadata mínima: solo lo que lee el subscriber
+   */
+  const buildMetadata = (target: object, fields: string[]) => ({
+    target,
+    columns: fields.map((propertyName) => ({
+      propertyName,
+      getEntityValue: (entity: ObjectLiteral) => entity[propertyName],
+    })),
+  })
+
+  beforeEach(() => {
+    saved = []
+    const dataSource = { subscribers: [] } as unknown as DataSource
+    const auditService = {
+      getCurrentUser: () => ({
+        userId: 'user-1',
+        fullName: 'Ana Pérez',
+        email: 'ana@example.com',
+      }),
+    } as unknown as AuditService
+    subscriber = new GranularAuditSubscriber(
+      dataSource,
+      new AuditTrailService(
+        auditService,
+        {} as TransactionService,
+        new AuditChainService(),
+      ),
+    )
+  })
+
+  it('should record a creation snapshot with sensitive fields redacted', async () => {
+    // Arrange
+    const user = Object.assign(new UserEntity(), {
+      id: 'user-2',
+      names: 'Juan',
+      password: 'hash',
+      createdAt: new Date(),
+    })
+    const event = {
+      entity: user,
+      manager,
+      metadata: buildMetadata(UserEntity, [
+        'id',
+        'names',
+        'password',
+        'createdAt',
+      ]),
+    } as unknown as InsertEvent<ObjectLiteral>
+
+    // Act
+    await subscriber.afterInsert(event)
+
+    // Assert
+    expect(saved).toHaveLength(1)
+    expect(saved[0].action).toBe(AuditAction.CREATE)
+    expect(saved[0].entityId).toBe('user-2')
+    expect(saved[0].changes).toEqual([
+      { field: 'id', oldValue: null, newValue: 'user-2' },
+      { field: 'names', oldValue: null, newValue: 'Juan' },
+      { field: 'password', oldValue: null, newValue: '[REDACTED]' },
+    ])
+  })
+
+  it('should record a declared transition as its semantic action', async () => {
+    // Arrange
+    const previous = Object.assign(new TemplateEntity(), {
+      id: 'template-1',
+      status: TemplateStatus.DRAFT,
+    })
+    const template = Object.assign(new TemplateEntity(), {
+      id: 'template-1',
+      status: TemplateStatus.PUBLISHED,
+    })
+    const metadata = buildMetadata(TemplateEntity, ['status'])
+    const event = {
+      entity: template,
+      databaseEntity: previous,
+      updatedColumns: metadata.columns,
+      manager,
+      metadata,
+    } as unknown as UpdateEvent<ObjectLiteral>
+
+    // Act
+    await subscriber.afterUpdate(event)
+
+    // Assert
+    expect(saved[0].action).toBe(AuditAction.PUBLISH)
+    expect(saved[0].rootId).toBe('template-1')
+    expect(saved[0].changes).toEqual([
+      {
+        field: 'status',
+        oldValue: TemplateStatus.DRAFT,
+        newValue: TemplateStatus.PUBLISHED,
+      },
+    ])
+  })
+
+  it('should record a tombstone with the final state on hard delete', async () => {
+    // Arrange: tras remove() TypeORM deja la entidad sin id
+    const user = Object.assign(new UserEntity(), { names: 'Juan' })
+    const event = {
+      entity: user,
+      databaseEntity: undefined,
+      entityId: 'user-2',
+      manager,
+      metadata: buildMetadata(UserEntity, ['names']),
+    } as unknown as RemoveEvent<ObjectLiteral>
+
+    // Act
+    await subscriber.afterRemove(event)
+
+    // Assert
+    expect(saved[0].action).toBe(AuditAction.DELETE)
+    expect(saved[0].entityId).toBe('user-2')
+    expect(saved[0].changes).toEqual([
+      { field: 'names', oldValue: 'Juan', newValue: null },
+    ])
+  })
+
+  it('should chain each log to the previous one of the same root', async () => {
+    // Arrange
+    const metadata = buildMetadata(TemplateEntity, ['status'])
+    const buildEvent = (from: TemplateStatus, to: TemplateStatus) =>
+      ({
+        entity: Object.assign(new TemplateEntity(), {
+          id: 'template-1',
+          status: to,
+        }),
+        databaseEntity: Object.assign(new TemplateEntity(), {
+          id: 'template-1',
+          status: from,
+        }),
+        updatedColumns: metadata.columns,
+        manager,
+        metadata,
+      }) as unknown as UpdateEvent<ObjectLiteral>
+
+    // Act
+    await subscriber.afterUpdate(
+      buildEvent(TemplateStatus.DRAFT, TemplateStatus.PUBLISHED),
+    )
+    await subscriber.afterUpdate(
+      buildEvent(TemplateStatus.PUBLISHED, TemplateStatus.ARCHIVED),
+    )
+
+    // Assert
+    expect(manager.query).toHaveBeenCalledWith(
+      'SELECT pg_advisory_xact_lock(hashtext($1))',
+      ['template-1'],
+    )
+    expect(saved.map((log) => [log.sequence, log.action])).toEqual([
+      [1, AuditAction.PUBLISH],
+      [2, AuditAction.ARCHIVE],
+    ])
+    expect(saved[0].previousHash).toBeNull()
+    expect(saved[1].previousHash).toBe(saved[0].hash)
+    expect(new AuditChainService().verify('template-1', saved).valid).toBe(true)
+  })
+
+  it('should record the organization of a tenant-scoped entity', async () => {
+    // Arrange
+    const user = Object.assign(new UserEntity(), {
+      id: 'user-2',
+      names: 'Juan',
+      organizationId: 'org-1',
+    })
+    const event = {
+      entity: user,
+      manager,
+      metadata: buildMetadata(UserEntity, ['names']),
+    } as unknown as InsertEvent<ObjectLiteral>
+
+    // Act
+    await subscriber.afterInsert(event)
+
+    // Assert
+    expect(saved[0].organizationId).toBe('org-1')
+  })
+
+  it('should inherit the organization of the root for child entities', async () => {
+    // Arrange: la respuesta no guarda la organización, su cuestionario sí
+    const assessment = Object.assign(new SelfAssessmentEntity(), {
+      id: 'assessment-1',
+      organizationId: 'org-1',
+    })
+    const response = Object.assign(new SelfAssessmentResponseEntity(), {
+      id: 'response-1',
+      selfAssessmentId: 'assessment-1',
+      code: 'A.1',
+    })
+
+    // Act
+    await subscriber.afterInsert({
+      entity: assessment,
+      manager,
+      metadata: buildMetadata(SelfAssessmentEntity, ['id']),
+    } as unknown as InsertEvent<ObjectLiteral>)
+    await subscriber.afterInsert({
+      entity: response,
+      manager,
+      metadata: buildMetadata(SelfAssessmentResponseEntity, ['code']),
+    } as unknown as InsertEvent<ObjectLiteral>)
+
+    // Assert
+    expect(saved.map((log) => [log.rootId, log.organizationId])).toEqual([
+      ['assessment-1', 'org-1'],
+      ['assessment-1', 'org-1'],
+    ])
+  })
+})
@@ -1,26 +1,42 @@
 import {
   EventSubscriber,
   EntitySubscriberInterface,
+  InsertEvent,
   UpdateEvent,
+  RemoveEvent,
   SoftRemoveEvent,
+  RecoverEvent,
   DataSource,
   ObjectLiteral,
 } from 'typeorm'
 import { Injectable, Logger } from '@nestjs/common'
-import { AuditService } from '@core/database/audit.service'
-import { TemplateEntity } from '../../templates/entities/template.entity'
-import { StandardEntity } from '../../standards/entities/standard.entity'
-import { TemplateStatus } from '../../templates/constants/template-status.enum'
 import {
-  AuditLogEntity,
-  AuditAction,
-  AuditChange,
-} from '../entities/audit-log.entity'
+  AuditableRegistry,
+  AuditableConfig,
+  AUDIT_REDACTED_VALUE,
+} from '@core/database/auditable.decorator'
+import { getTenantColumn } from '@core/database/tenant-scoped.decorator'
+import { AuditAction, AuditChange } from '../entities/audit-log.entity'
+import { AuditTrailService } from '../services/audit-trail.service'
 
 type SafeData = Record<string, unknown>
-// Tipo unión para acceso seguro a propiedades
-type AuditableEntity = TemplateEntity | StandardEntity
 
+type AuditEvent =
+  | InsertEvent<ObjectLiteral>
+  | UpdateEvent<ObjectLiteral>
+  | RemoveEvent<ObjectLiteral>
+  | SoftRemoveEvent<ObjectLiteral>
+  | RecoverEvent<ObjectLiteral>
+
+/**
+ * Granular Audit Subscriber
+ *
+ * Registra los cambios campo por campo de toda entidad marcada con
+ * @Auditable. Qué campos se ignoran o se ocultan, cómo se resuelve el
+ * agregado raíz y cuándo auditar se declara en cada entidad.
+ *
+ * Los logs se escriben con AuditTrailService (encadenados por rootId).
+ */
 @Injectable()
 @EventSubscriber()
 export class GranularAuditSubscriber implements EntitySubscriberInterface<ObjectLiteral> {
@@ -28,123 +44,139 @@ export class GranularAuditSubscriber implements EntitySubscriberInterface<Object
 
   constructor(
     dataSource: DataSource,
-    private readonly auditService: AuditService,
+    private readonly auditTrailService: AuditTrailService,
   ) {
     dataSource.subscribers.push(this)
   }
 
   /**
-   * ❌ afterInsert ELIMINADO
-   * No auditamos la creación porque no hay cambios que comparar.
+   * Después de INSERT - Registra el snapshot inicial
+   * (oldValue = null en todos los campos)
    */
+  async afterInsert(event: InsertEvent<ObjectLiteral>): Promise<void> {
+    const config = AuditableRegistry.get(event.metadata.target)
+    if (!config || !event.entity) return
+
+    const changes = this.snapshot(event, config, event.entity).map(
+      ({ field, value }) => ({ field, oldValue: null, newValue: value }),
+    )
+    await this.saveLog(event, config, AuditAction.CREATE, changes)
+  }
 
   /**
    * Después de UPDATE - Registra cambios campo por campo
    */
   async afterUpdate(event: UpdateEvent<ObjectLiteral>): Promise<void> {
     // 1. Filtrar entidad
-    if (!this.shouldAudit(event.metadata.name)) return
+    const config = AuditableRegistry.get(event.metadata.target)
+    if (!config) return
 
     // 2. Verificar datos necesarios
     if (!event.databaseEntity || !event.entity) return
 
-    // 3. Filtrar por Estado (Ruido DRAFT vs PUBLISHED)
-    const shouldAudit = await this.shouldAuditUpdate(event)
-    if (!shouldAudit) return
+    // 3. Condición propia de la entidad (ej: borradores)
+    if (
+      config.when &&
+      !(await config.when({
+        entity: event.entity,
+        previous: event.databaseEntity,
+        manager: event.manager,
+      }))
+    ) {
+      return
+    }
 
     // 4. Calcular cambios
-    const changes = this.calculateChanges(event)
+    const changes = this.calculateChanges(event, config)
 
-    // 5. Guardar solo si hay diferencias reales
+    // 5. Guardar solo si hay diferencias reales, con la acción semántica
+    //    si alguna transición declarada aplica (ej: status → published)
     if (changes.length > 0) {
-      await this.saveLog(event, AuditAction.UPDATE, changes)
+      await this.saveLog(
+        event,
+        config,
+        this.resolveAction(changes, config),
+        changes,
+      )
     }
   }
 
+  /**
+   * Después de DELETE (hard) - Registra un tombstone con el estado final
+   * (newValue = null en todos los campos)
+   */
+  async afterRemove(event: RemoveEvent<ObjectLiteral>): Promise<void> {
+    const config = AuditableRegistry.get(event.metadata.target)
+    const finalState = event.databaseEntity ?? event.entity
+    if (!config || !finalState) return
+
+    const changes = this.snapshot(event, config, finalState).map(
+      ({ field, value }) => ({ field, oldValue: value, newValue: null }),
+    )
+    await this.saveLog(event, config, AuditAction.DELETE, changes)
+  }
+
   /**
    * Después de SOFT_REMOVE - Registra archivo/eliminación
    * Esto SÍ se mantiene porque es un evento crítico de ciclo de vida.
    */
   async afterSoftRemove(event: SoftRemoveEvent<ObjectLiteral>): Promise<void> {
-    if (!this.shouldAudit(event.metadata.name)) return
-    await this.saveLog(event, AuditAction.ARCHIVE, null)
+    const config = AuditableRegistry.get(event.metadata.target)
+    if (!config || !event.entity) return
+    await this.saveLog(event, config, AuditAction.ARCHIVE, null)
   }
 
   /**
-   * Filtro rápido de entidades
+   * Después de RECOVER - Registra la recuperación de un soft-delete
    */
-  private shouldAudit(entityName: string): boolean {
-    return entityName === 'TemplateEntity' || entityName === 'StandardEntity'
+  async afterRecover(event: RecoverEvent<ObjectLiteral>): Promise<void> {
+    const config = AuditableRegistry.get(event.metadata.target)
+    if (!config || !event.entity) return
+    await this.saveLog(event, config, AuditAction.RESTORE, null)
   }
 
   /**
-   * 🚦 EL PORTERO: Lógica simplificada solo para UPDATES
-   * Verifica si vale la pena auditar el cambio basándose en el estado.
+   * Acción del UPDATE: la primera transición declarada que aplique
    */
-  private async shouldAuditUpdate(
-    event: UpdateEvent<ObjectLiteral>,
-  ): Promise<boolean> {
-    const entityName = event.metadata.name
-
-    // Casting seguro
-    const newData = event.entity as AuditableEntity
-    const oldData = event.databaseEntity as AuditableEntity
-
-    // ----------------------------------------
-    // Lógica TEMPLATE
-    // ----------------------------------------
-    if (entityName === 'TemplateEntity') {
-      const newTemplate = newData as TemplateEntity
-      const oldTemplate = oldData as TemplateEntity
-
-      // Si estaba en DRAFT y sigue en DRAFT -> NO auditar (edición de borrador)
-      if (
-        oldTemplate.status === TemplateStatus.DRAFT &&
-        newTemplate.status === TemplateStatus.DRAFT
-      ) {
-        return false
-      }
-
-      // Si cambia de estado o ya estaba publicado -> SÍ auditar
-      return true
-    }
-
-    // ----------------------------------------
-    // Lógica STANDARD
-    // ----------------------------------------
-    if (entityName === 'StandardEntity') {
-      const newStandard = newData as StandardEntity
-      const oldStandard = oldData as StandardEntity
-
-      const templateId = newStandard.templateId || oldStandard.templateId
-      if (!templateId) return true // Fallback por seguridad
-
-      // Si la relación ya vino cargada (optimización)
-      if (newStandard.template?.status) {
-        return newStandard.template.status !== TemplateStatus.DRAFT
-      }
-
-      // Consultar estado del padre en BD
-      const template = await event.manager.findOne(TemplateEntity, {
-        where: { id: templateId },
-        select: ['status'],
-      })
-
-      // Si el padre es DRAFT -> El hijo es borrador, NO auditar
-      if (!template || template.status === TemplateStatus.DRAFT) {
-        return false
-      }
-
-      return true
+  private resolveAction(
+    changes: AuditChange[],
+    config: AuditableConfig,
+  ): AuditAction {
+    for (const change of changes) {
+      const action = config.transitions.get(change.field)?.[
+        String(change.newValue)
+      ]
+      if (action) return action
     }
+    return AuditAction.UPDATE
+  }
 
-    return true
+  /**
+   * Valores de todas las columnas auditables de un estado de la entidad
+   */
+  private snapshot(
+    event: AuditEvent,
+    config: AuditableConfig,
+    state: ObjectLiteral,
+  ): Array<{ field: string; value: unknown }> {
+    return event.metadata.columns
+      .filter((col) => !config.ignore.has(col.propertyName))
+      .map((col) => ({
+        field: col.propertyName,
+        value: config.redact.has(col.propertyName)
+          ? AUDIT_REDACTED_VALUE
+          : this.normalize(col.getEntityValue(state)),
+      }))
   }
+
   /**
    * Calcula las diferencias entre el estado anterior y el nuevo
    * Retorna un array de cambios en lugar de un objeto anidado
    */
-  private calculateChanges(event: UpdateEvent<ObjectLiteral>): AuditChange[] {
+  private calculateChanges(
+    event: UpdateEvent<ObjectLiteral>,
+    config: AuditableConfig,
+  ): AuditChange[] {
     const changes: AuditChange[] = []
 
     // Forzamos el tipado a ObjectLiteral para asegurar acceso por índice
@@ -153,95 +185,89 @@ export class GranularAuditSubscriber implements EntitySubscriberInterface<Object
 
     if (!oldData || !newData) return changes
 
-    const ignoredFields = [
-      'updatedAt',
-      'updatedBy',
-      'deletedAt',
-      'version',
-      'templateId',
-    ]
-
     event.updatedColumns.forEach((col) => {
       const key = col.propertyName
-      if (ignoredFields.includes(key)) return
-
-      // Al usar SafeData (Record<string, unknown>), el acceso ya devuelve 'unknown'
-      // No necesitamos castear a 'any' ni 'unknown' aquí.
-      const oldVal = oldData[key]
-      const newVal = newData[key]
-
-      if (oldVal !== newVal) {
-        const cleanNew = newVal === undefined ? null : newVal
-        const cleanOld = oldVal === undefined ? null : oldVal
-
-        if (cleanOld !== cleanNew) {
-          changes.push({
-            field: key,
-            oldValue: cleanOld,
-            newValue: cleanNew,
-          })
-        }
+      if (config.ignore.has(key)) return
+
+      const cleanOld = this.normalize(oldData[key])
+      const cleanNew = this.normalize(newData[key])
+
+      if (!this.isEqual(cleanOld, cleanNew)) {
+        const redacted = config.redact.has(key)
+        changes.push({
+          field: key,
+          oldValue: redacted ? AUDIT_REDACTED_VALUE : cleanOld,
+          newValue: redacted ? AUDIT_REDACTED_VALUE : cleanNew,
+        })
       }
     })
     return changes
   }
 
+  /**
+   * undefined → null y fechas → ISO (se guardan en JSONB)
+   */
+  private normalize(value: unknown): unknown {
+    if (value === undefined) return null
+    if (value instanceof Date) return value.toISOString()
+    return value
+  }
+
+  /**
+   * Compara por valor (arrays como roles u objetos JSON)
+   */
+  private isEqual(a: unknown, b: unknown): boolean {
+    if (a === b) return true
+    if (typeof a !== 'object' || typeof b !== 'object' || !a || !b) {
+      return false
+    }
+    return JSON.stringify(a) === JSON.stringify(b)
+  }
+
   /**
    * Guardado de log
    */
   private async saveLog(
-    event: UpdateEvent<ObjectLiteral> | SoftRemoveEvent<ObjectLiteral>,
+    event: AuditEvent,
+    config: AuditableConfig,
     action: AuditAction,
     changes: AuditChange[] | null,
   ): Promise<void> {
-    const user = this.auditService.getCurrentUser()
-
-    // Casting seguro a la unión de tipos
-    const entity = event.entity as AuditableEntity
+    const entity: ObjectLiteral = event.entity ?? {}
     const oldEntity =
-      'databaseEntity' in event
-        ? (event.databaseEntity as AuditableEntity)
-        : null
-
-    const entityName = event.metadata.name.replace('Entity', '')
-
-    // Determinar Root ID
-    let rootId: string | undefined
-
-    if (entityName === 'Template') {
-      rootId = entity.id
-    } else {
-      // TypeScript necesita ayuda aquí.
-      // Usamos el operador 'in' como Type Guard.
-      // Esto le dice a TS: "Si 'templateId' existe en este objeto, es seguro usarlo"
-      if ('templateId' in entity && typeof entity.templateId === 'string') {
-        rootId = entity.templateId
-      } else if (
-        oldEntity &&
-        'templateId' in oldEntity &&
-        typeof oldEntity.templateId === 'string'
-      ) {
-        rootId = oldEntity.templateId
-      }
-    }
+      'databaseEntity' in event ? (event.databaseEntity ?? null) : null
+
+    // Tras un remove() TypeORM limpia el id de la entidad
+    const entityId = (entity.id ??
+      oldEntity?.id ??
+      ('entityId' in event ? event.entityId : undefined)) as string
 
-    if (!rootId && entityName === 'Standard') {
+    // Determinar Root ID (el estado nuevo puede ser parcial)
+    const rootId =
+      config.rootId(entity) ?? (oldEntity ? config.rootId(oldEntity) : null)
+
+    if (!rootId) {
       this.logger.warn(
-        `No se pudo determinar rootId para log de ${entityName} ${entity.id}`,
+        `No se pudo determinar rootId para log de ${config.name} ${entityId}`,
       )
-      // Opcional: throw new Error(...) si quieres ser estricto
     }
 
-    const log = new AuditLogEntity()
-    log.userId = user?.userId || null
-    log.userFullName = user?.fullName || 'System'
-    log.userEmail = user?.email || null
-    log.entity = entityName
-    log.entityId = entity.id
-    log.rootId = rootId || entity.id
-    log.action = action
-    log.changes = changes
-
-    await event.manager.save(AuditLogEntity, log)
+    // Organización dueña: la columna @TenantScoped de la entidad
+    // (sin ella, el log hereda la del anterior de su rootId)
+    const tenantColumn = getTenantColumn(event.metadata.target)
+    const organizationId = tenantColumn
+      ? ((entity[tenantColumn] ?? oldEntity?.[tenantColumn] ?? null) as
+          | string
+          | null)
+      : null
+
+    await this.auditTrailService.write(event.manager, {
+      entity: config.name,
+      entityId,
+      rootId: rootId || entityId,
+      action,
+      changes,
+      organizationId,
+    })
   }
 }
@@ -1,4 +1,6 @@
 import { Injectable } from '@nestjs/common'
+import { PaginatedResponseBuilder, CursorPaginatedResponse } from '@core/dtos'
+import { CursorUtil } from '@core/utils'
 import { AuditLogRepository } from '../repositories/audit-log.repository'
 import type { AuditLogEntity } from '../entities/audit-log.entity'
 import type { GetAuditHistoryDto } from '../dtos'
@@ -6,8 +8,8 @@ import type { GetAuditHistoryDto } from '../dtos'
 /**
  * Get Audit History Use Case
  *
- * Obtiene el historial de cambios de una plantilla completa
- * (incluyendo todos sus standards hijos)
+ * Busca en el historial de cambios (por plantilla, entidad, usuario,
+ * acción y rango de fechas) con paginación por cursor
  *
  * Retorna datos listos para mostrar en el frontend sin necesidad
  * de consultas adicionales gracias a la desnormalización.
@@ -19,12 +21,26 @@ export class GetAuditHistoryUseCase {
   /**
    * Ejecuta la consulta del historial
    *
-   * @param dto - Parámetros de consulta (rootId y limit)
-   * @returns Lista de logs ordenados por fecha descendente
+   * @param dto - Filtros, cursor y límite
+   * @returns Página de logs ordenados por fecha descendente
+   * @throws {BadRequestException} Si el cursor no es válido
    */
-  async execute(dto: GetAuditHistoryDto): Promise<AuditLogEntity[]> {
-    const { rootId, limit = 100 } = dto
+  async execute(
+    dto: GetAuditHistoryDto,
+  ): Promise<CursorPaginatedResponse<AuditLogEntity>> {
+    const { cursor, limit = 50, from, to, ...filters } = dto
 
-    return await this.auditLogRepository.findByRootId(rootId, limit)
+    const logs = await this.auditLogRepository.findWithFilters(
+      {
+        ...filters,
+        from: from ? new Date(from) : undefined,
+        to: to ? new Date(to) : undefined,
+      },
+      { after: cursor ? CursorUtil.decode(cursor) : undefined, limit },
+    )
+
+    return PaginatedResponseBuilder.createWithCursor(logs, limit, (last) =>
+      CursorUtil.encode({ createdAt: last.createdAt, id: last.id }),
+    )
   }
 }
@@ -0,0 +1,28 @@
+import { Injectable } from '@nestjs/common'
+import { AuditLogRepository } from '../repositories/audit-log.repository'
+import { AuditTimelineService } from '../services'
+import type { AuditFieldTimeline } from '../interfaces'
+
+/**
+ * Get Field Timeline Use Case
+ *
+ * Obtiene todos los valores que tuvo un campo de una entidad
+ * (ej: el título de un standard) a lo largo del tiempo
+ */
+@Injectable()
+export class GetFieldTimelineUseCase {
+  constructor(
+    private readonly auditLogRepository: AuditLogRepository,
+    private readonly auditTimelineService: AuditTimelineService,
+  ) {}
+
+  /**
+   * @param entityId - ID de la entidad (template o standard)
+   * @param field - Nombre del campo
+   * @returns Línea de tiempo del campo (más antiguo primero)
+   */
+  async execute(entityId: string, field: string): Promise<AuditFieldTimeline> {
+    const logs = await this.auditLogRepository.findFieldChanges(entityId, field)
+    return this.auditTimelineService.buildFieldTimeline(entityId, field, logs)
+  }
+}
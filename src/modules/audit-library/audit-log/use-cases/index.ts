@@ -1 +1,3 @@
 export * from './get-audit-history.use-case'
+export * from './get-field-timeline.use-case'
+export * from './verify-audit-chain.use-case'
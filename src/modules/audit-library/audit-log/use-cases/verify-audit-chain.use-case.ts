@@ -0,0 +1,27 @@
+import { Injectable } from '@nestjs/common'
+import { AuditLogRepository } from '../repositories/audit-log.repository'
+import { AuditChainService } from '../services'
+import type { AuditChainVerification } from '../interfaces'
+
+/**
+ * Verify Audit Chain Use Case
+ *
+ * Recalcula la cadena de hashes del historial de un agregado raíz
+ * (ej: una plantilla) y reporta el primer eslabón roto
+ */
+@Injectable()
+export class VerifyAuditChainUseCase {
+  constructor(
+    private readonly auditLogRepository: AuditLogRepository,
+    private readonly auditChainService: AuditChainService,
+  ) {}
+
+  /**
+   * @param rootId - ID del agregado raíz
+   * @returns Resultado de la verificación (valid = false si hay un eslabón roto)
+   */
+  async execute(rootId: string): Promise<AuditChainVerification> {
+    const logs = await this.auditLogRepository.findChain(rootId)
+    return this.auditChainService.verify(rootId, logs)
+  }
+}
@@ -0,0 +1,111 @@
+/**
+ * Script de Verificación - Cadena de Auditoría
+ *
+ * Recorre la cadena de hashes de cada agregado raíz (plantilla, framework,
+ * usuario, etc.) y reporta el primer eslabón roto. Sirve como evidencia
+ * de que el historial de auditoría no fue editado.
+ *
+ * Uso:
+ *   npm run audit:verify                 # Todos los agregados
+ *   npm run audit:verify -- <rootId>...  # Solo los indicados
+ */
+
+import chalk from 'chalk'
+import { ClsServiceManager } from 'nestjs-cls'
+import dataSource from '@core/database/config/data-source'
+import { AuditService } from '@core/database/audit.service'
+import { AuditLogEntity } from './entities/audit-log.entity'
+import { AuditLogRepository } from './repositories/audit-log.repository'
+import { AuditChainService } from './services/audit-chain.service'
+import type { AuditChainVerification } from './interfaces'
+
+function printHeader() {
+  console.log(chalk.cyan('\n' + '═'.repeat(70)))
+  console.log(chalk.bold.cyan('  🔗 Verificación de la Cadena de Auditoría'))
+  console.log(chalk.cyan('═'.repeat(70) + '\n'))
+}
+
+function printResult(result: AuditChainVerification) {
+  if (result.valid) {
+    console.log(`${chalk.green('✓')} ${chalk.white(result.rootId)}`)
+    console.log(`  ${chalk.green(`${result.checked} registros íntegros`)}\n`)
+    return
+  }
+
+  const broken = result.brokenAt!
+  console.log(`${chalk.red('✗')} ${chalk.white(result.rootId)}`)
+  console.log(
+    `  ${chalk.red(`Eslabón roto en sequence ${broken.sequence}: ${broken.reason}`)}`,
+  )
+  console.log(`  ${chalk.gray('→')} Log: ${broken.logId}`)
+  console.log(`  ${chalk.gray('→')} Fecha: ${broken.createdAt.toISOString()}`)
+  console.log(`  ${chalk.gray('→')} Esperado: ${String(broken.expected)}`)
+  console.log(`  ${chalk.gray('→')} Almacenado: ${String(broken.actual)}\n`)
+}
+
+function printSummary(results: AuditChainVerification[]) {
+  const broken = results.filter((r) => !r.valid).length
+  const logs = results.reduce((total, r) => total + r.checked, 0)
+
+  console.log(chalk.cyan('═'.repeat(70)))
+  console.log(chalk.bold.white('\n📊 Resumen de Verificación:\n'))
+  console.log(`   ${chalk.white('Agregados:')}       ${results.length}`)
+  console.log(`   ${chalk.white('Logs verificados:')} ${logs}`)
+  console.log(`   ${chalk.red('✗ Cadenas rotas:')}  ${broken}\n`)
+
+  if (broken === 0) {
+    console.log(
+      chalk.green.bold('🎉 ¡El historial de auditoría está íntegro!\n'),
+    )
+  } else {
+    console.log(
+      chalk.red.bold(
+        '❌ Hay registros modificados, eliminados o fuera de orden\n',
+      ),
+    )
+  }
+  console.log(chalk.cyan('═'.repeat(70) + '\n'))
+}
+
+async function main() {
+  printHeader()
+
+  try {
+    await dataSource.initialize()
+
+    // Sin contexto CLS no hay tenant: se verifican todas las organizaciones
+    const repository = new AuditLogRepository(
+      dataSource.getRepository(AuditLogEntity),
+      new AuditService(ClsServiceManager.getClsService()),
+    )
+    const chainService = new AuditChainService()
+
+    const requested = process.argv.slice(2)
+    const rootIds =
+      requested.length > 0 ? requested : await repository.findRootIds()
+
+    // Un agregado a la vez para no cargar todo el historial en memoria
+    const results: AuditChainVerification[] = []
+    for (const rootId of rootIds) {
+      const logs = await repository.findChain(rootId)
+      const result = chainService.verify(rootId, logs)
+      printResult(result)
+      results.push(result)
+    }
+
+    printSummary(results)
+    await dataSource.destroy()
+    process.exit(results.some((r) => !r.valid) ? 1 : 0)
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error)
+    console.error(
+      chalk.red('\n❌ Error durante la verificación:'),
+      errorMessage,
+    )
+    if (dataSource.isInitialized) await dataSource.destroy()
+    process.exit(1)
+  }
+}
+
+// Ejecutar
+void main()
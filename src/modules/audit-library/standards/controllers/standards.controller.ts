@@ -26,6 +26,9 @@ import {
   StandardResponseDto,
   ReorderStandardDto,
   FindStandardsDto,
+  MoveStandardDto,
+  ReorderSiblingsDto,
+  BulkDeleteStandardsDto,
 } from '../dtos'
 import {
   CreateStandardUseCase,
@@ -36,6 +39,9 @@ import {
   ActivateAuditableUseCase,
   DeactivateAuditableUseCase,
   GetTemplateStandardsTreeUseCase,
+  MoveStandardUseCase,
+  ReorderSiblingsUseCase,
+  BulkDeleteStandardsUseCase,
 } from '../use-cases'
 
 @ApiTags('standards')
@@ -50,6 +56,9 @@ export class StandardsController {
     private readonly reorderStandard: ReorderStandardUseCase,
     private readonly activateAuditable: ActivateAuditableUseCase,
     private readonly deactivateAuditable: DeactivateAuditableUseCase,
+    private readonly moveStandard: MoveStandardUseCase,
+    private readonly reorderSiblings: ReorderSiblingsUseCase,
+    private readonly bulkDeleteStandards: BulkDeleteStandardsUseCase,
   ) {}
 
   @Post()
@@ -63,6 +72,31 @@ export class StandardsController {
     return await this.createStandard.execute(createStandardDto)
   }
 
+  @Patch('bulk/reorder')
+  @ApiOperation({
+    summary: 'Reordenar todos los hermanos de un nivel',
+    description:
+      'Recibe los IDs de todos los hermanos (mismo padre) en el orden deseado, tal como lo envía el drag & drop. ' +
+      'La lista debe contener exactamente a todos los hermanos.',
+  })
+  @ApiOkResponse(StandardResponseDto, 'Hermanos reordenados exitosamente', true)
+  @ApiStandardResponses({ exclude: [200] })
+  async reorderAll(@Body() reorderSiblingsDto: ReorderSiblingsDto) {
+    return await this.reorderSiblings.execute(reorderSiblingsDto)
+  }
+
+  @Post('bulk/delete')
+  @ResponseMessage('Estándares eliminados exitosamente')
+  @ApiOperation({
+    summary: 'Eliminar varios estándares',
+    description:
+      'Elimina (soft delete) los estándares indicados junto con todos sus descendientes en una sola operación atómica.',
+  })
+  @ApiStandardResponses()
+  async bulkDelete(@Body() bulkDeleteDto: BulkDeleteStandardsDto) {
+    return await this.bulkDeleteStandards.execute(bulkDeleteDto)
+  }
+
   @Get(':id')
   @ApiFindOne(StandardResponseDto)
   async findOne(@Param() { id }: UuidParamDto) {
@@ -117,6 +151,20 @@ export class StandardsController {
     return await this.reorderStandard.execute(id, reorderDto)
   }
 
+  @Patch(':id/move')
+  @ApiOperation({
+    summary: 'Mover un estándar a otro padre',
+    description:
+      'Mueve el estándar con todo su subárbol debajo de otro padre (o a nivel raíz). ' +
+      'Recalcula el nivel de todos los descendientes y rechaza movimientos que generen ciclos.',
+  })
+  @ApiOkResponse(StandardResponseDto, 'Estándar movido exitosamente', false)
+  @ApiNotFoundResponse('Estándar no encontrado')
+  @ApiStandardResponses({ exclude: [200, 404] })
+  async move(@Param() { id }: UuidParamDto, @Body() moveDto: MoveStandardDto) {
+    return await this.moveStandard.execute(id, moveDto)
+  }
+
   @Patch(':id/activate')
   @ApiOperation({
     summary: 'Activar si un estándar es auditable',
@@ -0,0 +1,17 @@
+import { ArrayNotEmpty, ArrayUnique, IsUUID } from '@core/i18n'
+import { ApiProperty } from '@nestjs/swagger'
+
+/**
+ * DTO para eliminar varios standards a la vez (incluye sus descendientes)
+ */
+export class BulkDeleteStandardsDto {
+  @ApiProperty({
+    description: 'IDs de los standards a eliminar',
+    type: [String],
+    example: ['550e8400-e29b-41d4-a716-446655440002'],
+  })
+  @ArrayNotEmpty()
+  @ArrayUnique()
+  @IsUUID('4', { each: true })
+  ids: string[]
+}
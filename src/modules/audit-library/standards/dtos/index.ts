@@ -5,3 +5,6 @@ export * from './import-standard.dto'
 export * from './reorder-standard.dto'
 export * from './toggle-auditable.dto'
 export * from './find-standards.dto'
+export * from './move-standard.dto'
+export * from './reorder-siblings.dto'
+export * from './bulk-delete-standards.dto'
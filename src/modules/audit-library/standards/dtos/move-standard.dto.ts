@@ -0,0 +1,16 @@
+import { IsOptional, IsUUID } from '@core/i18n'
+import { ApiPropertyOptional } from '@nestjs/swagger'
+
+/**
+ * DTO para mover un standard (con todo su subárbol) a otro padre
+ */
+export class MoveStandardDto {
+  @ApiPropertyOptional({
+    description: 'ID del nuevo padre (null u omitido para mover a nivel raíz)',
+    example: '550e8400-e29b-41d4-a716-446655440001',
+    nullable: true,
+  })
+  @IsOptional()
+  @IsUUID('4')
+  newParentId?: string | null
+}
@@ -0,0 +1,38 @@
+import { ArrayNotEmpty, ArrayUnique, IsOptional, IsUUID } from '@core/i18n'
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger'
+
+/**
+ * DTO para reordenar todos los hermanos de un nivel (drag & drop)
+ *
+ * La posición en la lista define el nuevo orden (1, 2, 3...)
+ */
+export class ReorderSiblingsDto {
+  @ApiProperty({
+    description: 'ID del template al que pertenecen los standards',
+    example: '550e8400-e29b-41d4-a716-446655440000',
+  })
+  @IsUUID('4')
+  templateId: string
+
+  @ApiPropertyOptional({
+    description: 'ID del padre común (null u omitido para el nivel raíz)',
+    example: '550e8400-e29b-41d4-a716-446655440001',
+    nullable: true,
+  })
+  @IsOptional()
+  @IsUUID('4')
+  parentId?: string | null
+
+  @ApiProperty({
+    description: 'IDs de todos los hermanos en el orden deseado',
+    type: [String],
+    example: [
+      '550e8400-e29b-41d4-a716-446655440003',
+      '550e8400-e29b-41d4-a716-446655440002',
+    ],
+  })
+  @ArrayNotEmpty()
+  @ArrayUnique()
+  @IsUUID('4', { each: true })
+  orderedIds: string[]
+}
@@ -7,6 +7,8 @@ import {
   Index,
 } from 'typeorm'
 import { BaseEntity } from '@core/entities/base.entity'
+import { Auditable } from '@core/database/auditable.decorator'
+import { TemplateStatus } from '../../templates/constants/template-status.enum'
 import { TemplateEntity } from '../../templates/entities/template.entity'
 import { STANDARDS_CONSTRAINTS } from '../constants'
 import { BadRequestException } from '@nestjs/common'
@@ -36,6 +38,26 @@ import { BadRequestException } from '@nestjs/common'
  * }
  * ```
  */
+@Auditable<StandardEntity>({
+  ignore: ['templateId'],
+  rootId: (standard) => standard.templateId,
+  // Solo se auditan los standards de plantillas que no están en DRAFT
+  when: async ({ entity, previous, manager }) => {
+    const templateId = entity.templateId || previous?.templateId
+    if (!templateId) return true // Fallback por seguridad
+
+    // Si la relación ya vino cargada (optimización)
+    if (entity.template?.status) {
+      return entity.template.status !== TemplateStatus.DRAFT
+    }
+
+    const template = await manager.findOne(TemplateEntity, {
+      where: { id: templateId },
+      select: ['status'],
+    })
+    return !!template && template.status !== TemplateStatus.DRAFT
+  },
+})
 @Entity('standards')
 @Index(['templateId', 'code'], { unique: true })
 @Index(['templateId', 'order'])
@@ -4,3 +4,6 @@ export * from './standard-repeat-code.exception'
 export * from './standard-cannot-modify-structure.exception'
 export * from './standard-cannot-modify-content.exception'
 export * from './standard-with-children-cannot-be-auditable.exception'
+export * from './standard-move-cycle.exception'
+export * from './standard-parent-in-other-template.exception'
+export * from './standard-invalid-sibling-order.exception'
@@ -0,0 +1,9 @@
+import { BadRequestException } from '@nestjs/common'
+
+export class StandardInvalidSiblingOrderException extends BadRequestException {
+  constructor(expected: number, received: number) {
+    super(
+      `La lista de orden debe contener exactamente los ${expected} standard(s) hermanos, sin repetir (se recibieron ${received}).`,
+    )
+  }
+}
@@ -0,0 +1,9 @@
+import { BadRequestException } from '@nestjs/common'
+
+export class StandardMoveCycleException extends BadRequestException {
+  constructor(standardCode: string, parentCode: string) {
+    super(
+      `No se puede mover el standard "${standardCode}" debajo de "${parentCode}" porque "${parentCode}" es el mismo standard o uno de sus descendientes.`,
+    )
+  }
+}
@@ -0,0 +1,9 @@
+import { BadRequestException } from '@nestjs/common'
+
+export class StandardParentInOtherTemplateException extends BadRequestException {
+  constructor(parentCode: string) {
+    super(
+      `El standard padre "${parentCode}" pertenece a otra plantilla. Solo se puede mover dentro de la misma plantilla.`,
+    )
+  }
+}
@@ -5,3 +5,4 @@ export * from './repositories'
 export * from './exceptions'
 export * from './factories'
 export * from './validators'
+export * from './services'
@@ -9,6 +9,7 @@ import type { StandardEntity } from '../../entities/standard.entity'
 export interface IStandardsRepository extends IBaseRepository<StandardEntity> {
   getTree(templateId: string, search?: string): Promise<StandardEntity[]>
   findByTemplate(templateId: string): Promise<StandardEntity[]>
+  findDeletedByTemplate(templateId: string): Promise<StandardEntity[]>
   findByParent(
     templateId: string,
     parentId: string | null,
@@ -21,6 +22,8 @@ export interface IStandardsRepository extends IBaseRepository<StandardEntity> {
     excludeId?: string,
   ): Promise<boolean>
   countChildren(parentId: string): Promise<number>
+  softDeleteMany(ids: string[]): Promise<number>
+  recoverMany(ids: string[]): Promise<number>
   getMaxOrderByParent(
     templateId: string,
     parentId: string | null,
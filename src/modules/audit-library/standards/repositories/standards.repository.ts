@@ -1,6 +1,6 @@
 import { Injectable } from '@nestjs/common'
 import { InjectRepository } from '@nestjs/typeorm'
-import { Repository, IsNull } from 'typeorm'
+import { Repository, IsNull, Not, In } from 'typeorm'
 import { BaseRepository } from '@core/repositories'
 import { TransactionService, AuditService } from '@core/database'
 import { StandardEntity } from '../entities/standard.entity'
@@ -69,6 +69,18 @@ export class StandardsRepository
     })
   }
 
+  /**
+   * Obtiene los standards eliminados (soft-delete) de una plantilla.
+   * Se usa al sincronizar desde un archivo para recuperarlos por código
+   * (el índice único templateId + code incluye a los eliminados).
+   */
+  async findDeletedByTemplate(templateId: string): Promise<StandardEntity[]> {
+    return await this.getRepo().find({
+      where: { templateId, deletedAt: Not(IsNull()) },
+      withDeleted: true,
+    })
+  }
+
   /**
    * Busca hijos directos de un padre específico (o raíces si parentId es null).
    */
@@ -147,6 +159,33 @@ export class StandardsRepository
     })
   }
 
+  /**
+   * Eliminación lógica de varios standards (softRemove para que quede
+   * registrada en el historial de auditoría).
+   * Retorna la cantidad de registros afectados.
+   */
+  async softDeleteMany(ids: string[]): Promise<number> {
+    if (ids.length === 0) return 0
+    const standards = await this.findByIds(ids)
+    await this.getRepo().softRemove(standards)
+    return standards.length
+  }
+
+  /**
+   * Recupera varios standards eliminados (recover para que quede
+   * registrada en el historial de auditoría).
+   * Retorna la cantidad de registros afectados.
+   */
+  async recoverMany(ids: string[]): Promise<number> {
+    if (ids.length === 0) return 0
+    const standards = await this.getRepo().find({
+      where: { id: In(ids), deletedAt: Not(IsNull()) },
+      withDeleted: true,
+    })
+    await this.getRepo().recover(standards)
+    return standards.length
+  }
+
   /**
    * Obtiene el siguiente número de orden disponible.
    */
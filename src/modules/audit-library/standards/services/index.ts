@@ -0,0 +1 @@
+export * from './standard-tree.service'
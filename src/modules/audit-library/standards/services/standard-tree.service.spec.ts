@@ -0,0 +1,75 @@
+import { StandardTreeService } from './standard-tree.service'
+import { StandardEntity } from '../entities/standard.entity'
+
+describe('StandardTreeService', () => {
+  let service: StandardTreeService
+
+  const buildStandard = (
+    id: string,
+    parentId: string | null,
+    level: number,
+  ): StandardEntity =>
+    Object.assign(new StandardEntity(), {
+      id,
+      templateId: 'template-1',
+      parentId,
+      code: id.toUpperCase(),
+      title: `Standard ${id}`,
+      level,
+      order: 1,
+    })
+
+  // a
+  // ├── a1
+  // │   └── a1x
+  // └── a2
+  // b
+  const buildTree = () => [
+    buildStandard('a', null, 1),
+    buildStandard('a1', 'a', 2),
+    buildStandard('a1x', 'a1', 3),
+    buildStandard('a2', 'a', 2),
+    buildStandard('b', null, 1),
+  ]
+
+  beforeEach(() => {
+    service = new StandardTreeService()
+  })
+
+  describe('getDescendants', () => {
+    it('should return every descendant of the subtree', () => {
+      // Arrange
+      const standards = buildTree()
+
+      // Act
+      const descendants = service.getDescendants(standards, 'a')
+
+      // Assert
+      expect(descendants.map((s) => s.id)).toEqual(['a1', 'a2', 'a1x'])
+    })
+
+    it('should return an empty list for leaves', () => {
+      // Act
+      const descendants = service.getDescendants(buildTree(), 'b')
+
+      // Assert
+      expect(descendants).toEqual([])
+    })
+  })
+
+  describe('relevelSubtree', () => {
+    it('should shift the level of the root and all its descendants', () => {
+      // Arrange
+      const standards = buildTree()
+      const root = standards.find((s) => s.id === 'a1')!
+      const descendants = service.getDescendants(standards, 'a1')
+
+      // Act
+      service.relevelSubtree(root, descendants, 1)
+
+      // Assert
+      expect(root.level).toBe(1)
+      expect(descendants[0].level).toBe(2)
+    })
+  })
+})
@@ -0,0 +1,67 @@
+import { Injectable } from '@nestjs/common'
+import type { StandardEntity } from '../entities'
+
+/**
+ * Standard Tree Service
+ *
+ * Operaciones en memoria sobre la jerarquía plana de standards de una
+ * plantilla (descendientes y recálculo de niveles)
+ */
+@Injectable()
+export class StandardTreeService {
+  /**
+   * Obtiene todos los descendientes de un standard (sin incluirlo)
+   *
+   * @param standards - Standards planos de la plantilla
+   * @param rootId - ID del standard raíz del subárbol
+   * @returns Descendientes en orden de recorrido por niveles
+   */
+  getDescendants(
+    standards: StandardEntity[],
+    rootId: string,
+  ): StandardEntity[] {
+    const childrenByParent = new Map<string, StandardEntity[]>()
+    standards.forEach((standard) => {
+      if (!standard.parentId) return
+      const siblings = childrenByParent.get(standard.parentId) ?? []
+      siblings.push(standard)
+      childrenByParent.set(standard.parentId, siblings)
+    })
+
+    const descendants: StandardEntity[] = []
+    const visited = new Set<string>([rootId])
+    const queue = [rootId]
+
+    while (queue.length > 0) {
+      const children = childrenByParent.get(queue.shift()!) ?? []
+      children
+        .filter((child) => !visited.has(child.id))
+        .forEach((child) => {
+          visited.add(child.id)
+          descendants.push(child)
+          queue.push(child.id)
+        })
+    }
+
+    return descendants
+  }
+
+  /**
+   * Desplaza el nivel de un subárbol para que su raíz quede en newLevel
+   *
+   * @param root - Standard raíz del subárbol (se modifica)
+   * @param descendants - Descendientes del subárbol (se modifican)
+   * @param newLevel - Nuevo nivel de la raíz
+   */
+  relevelSubtree(
+    root: StandardEntity,
+    descendants: StandardEntity[],
+    newLevel: number,
+  ): void {
+    const delta = newLevel - root.level
+    root.level = newLevel
+    descendants.forEach((descendant) => {
+      descendant.level += delta
+    })
+  }
+}
@@ -2,6 +2,7 @@ import { Module } from '@nestjs/common'
 import { StandardsController } from './controllers/standards.controller'
 import { StandardFactory } from './factories'
 import { StandardValidator } from './validators'
+import { StandardTreeService } from './services'
 
 // Use Cases
 import {
@@ -13,6 +14,9 @@ import {
   GetTemplateStandardsTreeUseCase,
   ActivateAuditableUseCase,
   DeactivateAuditableUseCase,
+  MoveStandardUseCase,
+  ReorderSiblingsUseCase,
+  BulkDeleteStandardsUseCase,
 } from './use-cases'
 
 @Module({
@@ -21,6 +25,7 @@ import {
   providers: [
     StandardFactory,
     StandardValidator,
+    StandardTreeService,
 
     // Use Cases
     CreateStandardUseCase,
@@ -31,6 +36,9 @@ import {
     ReorderStandardUseCase,
     ActivateAuditableUseCase,
     DeactivateAuditableUseCase,
+    MoveStandardUseCase,
+    ReorderSiblingsUseCase,
+    BulkDeleteStandardsUseCase,
   ],
   exports: [],
 })
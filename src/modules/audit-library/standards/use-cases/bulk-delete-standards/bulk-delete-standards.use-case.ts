@@ -0,0 +1,73 @@
+import { Inject, Injectable } from '@nestjs/common'
+import { Transactional } from '@core/database/transactional.decorator'
+import { StandardValidator } from '../../validators'
+import { StandardTreeService } from '../../services'
+import { STANDARDS_REPOSITORY } from '../../tokens'
+import type { BulkDeleteStandardsDto } from '../../dtos/bulk-delete-standards.dto'
+import type { IStandardsRepository } from '../../repositories'
+import { StandardNotFoundException } from '../../exceptions'
+
+/**
+ * Bulk Delete Standards Use Case
+ *
+ * Elimina (soft delete) un conjunto de standards junto con sus descendientes
+ *
+ * Reglas de negocio:
+ * - Todos los standards deben existir
+ * - Los templates involucrados deben ser editables (DRAFT)
+ * - Se eliminan también los descendientes para no dejar huérfanos
+ * - La operación es atómica: si algo falla no se elimina nada
+ */
+@Injectable()
+export class BulkDeleteStandardsUseCase {
+  constructor(
+    @Inject(STANDARDS_REPOSITORY)
+    private readonly standardsRepository: IStandardsRepository,
+    private readonly standardValidator: StandardValidator,
+    private readonly standardTreeService: StandardTreeService,
+  ) {}
+
+  /**
+   * Ejecuta la eliminación masiva
+   *
+   * @param dto - IDs de los standards a eliminar
+   * @returns Cantidad de standards eliminados (incluye descendientes)
+   * @throws {StandardNotFoundException} Si algún standard no existe
+   * @throws {StandardCannotModifyStructureException} Si no se puede modificar la estructura
+   */
+  @Transactional()
+  async execute(dto: BulkDeleteStandardsDto): Promise<{ deleted: number }> {
+    // 1. Validar que existen todos
+    const standards = await this.standardsRepository.findByIds(dto.ids)
+    const foundIds = new Set(standards.map((s) => s.id))
+    const missingId = dto.ids.find((id) => !foundIds.has(id))
+    if (missingId) {
+      throw new StandardNotFoundException(missingId)
+    }
+
+    // 2. Verificar cada template involucrado y reunir los descendientes
+    const idsToDelete = new Set<string>(dto.ids)
+    const templateIds = [...new Set(standards.map((s) => s.templateId))]
+
+    for (const templateId of templateIds) {
+      await this.standardValidator.validateCanModifyStructure(templateId)
+
+      const templateStandards =
+        await this.standardsRepository.findByTemplate(templateId)
+      standards
+        .filter((s) => s.templateId === templateId)
+        .forEach((standard) => {
+          this.standardTreeService
+            .getDescendants(templateStandards, standard.id)
+            .forEach((descendant) => idsToDelete.add(descendant.id))
+        })
+    }
+
+    // 3. Eliminar (soft delete)
+    const deleted = await this.standardsRepository.softDeleteMany([
+      ...idsToDelete,
+    ])
+
+    return { deleted }
+  }
+}
@@ -7,3 +7,6 @@ export * from './find-standards-by-template/find-standards-by-template.use-case'
 export * from './reorder-standard/reorder-standard.use-case'
 export * from './activate-auditable/activate-auditable.use-case'
 export * from './deactivate-auditable/deactivate-auditable.use-case'
+export * from './move-standard/move-standard.use-case'
+export * from './reorder-siblings/reorder-siblings.use-case'
+export * from './bulk-delete-standards/bulk-delete-standards.use-case'
@@ -0,0 +1,90 @@
+import { Inject, Injectable } from '@nestjs/common'
+import { Transactional } from '@core/database/transactional.decorator'
+import { StandardValidator } from '../../validators'
+import { StandardTreeService } from '../../services'
+import { STANDARDS_REPOSITORY } from '../../tokens'
+import type { MoveStandardDto } from '../../dtos/move-standard.dto'
+import type { IStandardsRepository } from '../../repositories'
+import { StandardEntity } from '../../entities'
+
+/**
+ * Move Standard Use Case
+ *
+ * Mueve un standard (con todo su subárbol) a otro padre o a nivel raíz
+ *
+ * Reglas de negocio:
+ * - El standard y el nuevo padre deben existir
+ * - El template debe ser editable (DRAFT)
+ * - El nuevo padre debe ser de la misma plantilla
+ * - No se permiten ciclos (mover debajo de sí mismo o de un descendiente)
+ * - El standard queda al final de sus nuevos hermanos
+ * - Se recalcula el nivel de todos los descendientes
+ */
+@Injectable()
+export class MoveStandardUseCase {
+  constructor(
+    @Inject(STANDARDS_REPOSITORY)
+    private readonly standardsRepository: IStandardsRepository,
+    private readonly standardValidator: StandardValidator,
+    private readonly standardTreeService: StandardTreeService,
+  ) {}
+
+  /**
+   * Ejecuta el movimiento del subárbol
+   *
+   * @param id - ID del standard a mover
+   * @param dto - Nuevo padre
+   * @returns Standard movido
+   * @throws {StandardNotFoundException} Si el standard o el nuevo padre no existen
+   * @throws {StandardCannotModifyStructureException} Si no se puede modificar la estructura
+   * @throws {StandardParentInOtherTemplateException} Si el padre es de otra plantilla
+   * @throws {StandardMoveCycleException} Si el movimiento genera un ciclo
+   */
+  @Transactional()
+  async execute(id: string, dto: MoveStandardDto): Promise<StandardEntity> {
+    // 1. Validar y obtener standard
+    const standard = await this.standardValidator.validateAndGetStandard(id)
+
+    // 2. Verificar que se puede modificar la estructura
+    await this.standardValidator.validateCanModifyStructure(standard.templateId)
+
+    // 3. Obtener el subárbol actual
+    const standards = await this.standardsRepository.findByTemplate(
+      standard.templateId,
+    )
+    const descendants = this.standardTreeService.getDescendants(
+      standards,
+      standard.id,
+    )
+
+    // 4. Validar el nuevo padre y calcular el nuevo nivel
+    const newParentId = dto.newParentId ?? null
+    let level = 1
+    if (newParentId) {
+      const newParent =
+        await this.standardValidator.validateAndGetStandard(newParentId)
+      this.standardValidator.validateNewParent(standard, newParent, descendants)
+      level = newParent.level + 1
+    }
+
+    // Sin cambio de padre: nada que hacer
+    if (newParentId === standard.parentId) {
+      return standard
+    }
+
+    // 5. Ubicar al final de los nuevos hermanos
+    const maxOrder = await this.standardsRepository.getMaxOrderByParent(
+      standard.templateId,
+      newParentId,
+    )
+    standard.parentId = newParentId
+    standard.order = maxOrder + 1
+
+    // 6. Recalcular niveles del subárbol
+    this.standardTreeService.relevelSubtree(standard, descendants, level)
+
+    // 7. Guardar
+    await this.standardsRepository.saveMany(descendants)
+    return await this.standardsRepository.save(standard)
+  }
+}
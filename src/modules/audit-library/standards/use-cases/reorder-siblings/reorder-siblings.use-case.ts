@@ -0,0 +1,60 @@
+import { Inject, Injectable } from '@nestjs/common'
+import { Transactional } from '@core/database/transactional.decorator'
+import { StandardValidator } from '../../validators'
+import { STANDARDS_REPOSITORY } from '../../tokens'
+import type { ReorderSiblingsDto } from '../../dtos/reorder-siblings.dto'
+import type { IStandardsRepository } from '../../repositories'
+import { StandardEntity } from '../../entities'
+
+/**
+ * Reorder Siblings Use Case
+ *
+ * Reordena todos los hermanos de un nivel a partir de la lista de IDs
+ * que envía el drag & drop de la interfaz
+ *
+ * Reglas de negocio:
+ * - El template debe ser editable (DRAFT)
+ * - La lista debe contener exactamente a todos los hermanos, sin repetir
+ * - El orden resultante es la posición en la lista (1, 2, 3...)
+ */
+@Injectable()
+export class ReorderSiblingsUseCase {
+  constructor(
+    @Inject(STANDARDS_REPOSITORY)
+    private readonly standardsRepository: IStandardsRepository,
+    private readonly standardValidator: StandardValidator,
+  ) {}
+
+  /**
+   * Ejecuta el reordenamiento
+   *
+   * @param dto - Template, padre común y nuevo orden de los hermanos
+   * @returns Hermanos en el nuevo orden
+   * @throws {TemplateNotFoundException} Si el template no existe
+   * @throws {StandardCannotModifyStructureException} Si no se puede modificar la estructura
+   * @throws {StandardInvalidSiblingOrderException} Si la lista no coincide con los hermanos
+   */
+  @Transactional()
+  async execute(dto: ReorderSiblingsDto): Promise<StandardEntity[]> {
+    // 1. Verificar que se puede modificar la estructura
+    await this.standardValidator.validateCanModifyStructure(dto.templateId)
+
+    // 2. Obtener hermanos actuales y validar la lista
+    const siblings = await this.standardsRepository.findByParent(
+      dto.templateId,
+      dto.parentId ?? null,
+    )
+    this.standardValidator.validateSiblingOrder(siblings, dto.orderedIds)
+
+    // 3. Asignar el orden según la posición en la lista
+    const siblingsById = new Map(siblings.map((s) => [s.id, s]))
+    const reordered = dto.orderedIds.map((id, index) => {
+      const sibling = siblingsById.get(id)!
+      sibling.changeOrder(index + 1)
+      return sibling
+    })
+
+    // 4. Guardar
+    return await this.standardsRepository.saveMany(reordered)
+  }
+}
@@ -7,6 +7,9 @@ import {
   StandardCannotModifyStructureException,
   StandardCannotModifyContentException,
   StandardWithChildrenCannotBeAuditableException,
+  StandardMoveCycleException,
+  StandardParentInOtherTemplateException,
+  StandardInvalidSiblingOrderException,
 } from '../exceptions'
 import { TemplateNotFoundException } from '../../templates/exceptions'
 import { STANDARDS_REPOSITORY } from '../tokens'
@@ -173,4 +176,55 @@ export class StandardValidator {
       )
     }
   }
+
+  /**
+   * Valida que el nuevo padre es válido para mover un standard
+   *
+   * @param standard - Standard a mover
+   * @param newParent - Nuevo padre
+   * @param descendants - Descendientes actuales del standard
+   * @throws {StandardParentInOtherTemplateException} Si el padre es de otra plantilla
+   * @throws {StandardMoveCycleException} Si el padre es el propio standard o un descendiente
+   */
+  validateNewParent(
+    standard: StandardEntity,
+    newParent: StandardEntity,
+    descendants: StandardEntity[],
+  ): void {
+    if (newParent.templateId !== standard.templateId) {
+      throw new StandardParentInOtherTemplateException(newParent.code)
+    }
+
+    const isCycle =
+      newParent.id === standard.id ||
+      descendants.some((descendant) => descendant.id === newParent.id)
+
+    if (isCycle) {
+      throw new StandardMoveCycleException(standard.code, newParent.code)
+    }
+  }
+
+  /**
+   * Valida que la lista de orden contiene exactamente a todos los hermanos
+   *
+   * @param siblings - Hermanos actuales (mismo padre)
+   * @param orderedIds - IDs recibidos en el nuevo orden
+   * @throws {StandardInvalidSiblingOrderException} Si faltan, sobran o se repiten IDs
+   */
+  validateSiblingOrder(siblings: StandardEntity[], orderedIds: string[]): void {
+    const siblingIds = new Set(siblings.map((sibling) => sibling.id))
+    const uniqueIds = new Set(orderedIds)
+
+    const isValid =
+      uniqueIds.size === orderedIds.length &&
+      orderedIds.length === siblingIds.size &&
+      orderedIds.every((id) => siblingIds.has(id))
+
+    if (!isValid) {
+      throw new StandardInvalidSiblingOrderException(
+        siblingIds.size,
+        orderedIds.length,
+      )
+    }
+  }
 }
@@ -1,2 +1,5 @@
 export * from './template-status.enum'
 export * from './template-schema.constants'
+export * from './template-diff-change.enum'
+export * from './template-columns.constants'
+export * from './template-file-format.enum'
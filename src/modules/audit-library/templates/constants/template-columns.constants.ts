@@ -0,0 +1,29 @@
+/**
+ * Columnas del formato tabular de standards (Excel / CSV)
+ *
+ * Cada campo acepta varios alias de cabecera (comparación en minúsculas)
+ */
+export const TEMPLATE_COLUMN_DEFINITIONS = {
+  code: ['código', 'codigo', 'code'],
+  title: ['título', 'titulo', 'title'],
+  description: ['descripción', 'descripcion', 'description'],
+  parentCode: ['código padre', 'codigo padre', 'parent code', 'parentcode'],
+  order: ['orden', 'order'],
+  level: ['nivel', 'level'],
+  isAuditable: ['auditable', 'es auditable', 'is auditable'],
+} as const
+
+export type TemplateColumnField = keyof typeof TEMPLATE_COLUMN_DEFINITIONS
+
+/**
+ * Cabeceras usadas al exportar (cada una coincide con un alias de importación)
+ */
+export const TEMPLATE_COLUMN_HEADERS: Record<TemplateColumnField, string> = {
+  code: 'Código',
+  title: 'Título',
+  description: 'Descripción',
+  parentCode: 'Código Padre',
+  order: 'Orden',
+  level: 'Nivel',
+  isAuditable: 'Auditable',
+}
@@ -0,0 +1,35 @@
+/**
+ * Tipos de cambio detectados al comparar dos versiones de una plantilla
+ * (los standards se emparejan por código)
+ */
+export enum TemplateDiffChangeType {
+  /**
+   * El standard solo existe en la versión destino
+   */
+  ADDED = 'added',
+
+  /**
+   * El standard solo existe en la versión base
+   */
+  REMOVED = 'removed',
+
+  /**
+   * Cambió el standard padre
+   */
+  MOVED = 'moved',
+
+  /**
+   * Mismo padre, distinta posición entre sus hermanos
+   */
+  REORDERED = 'reordered',
+
+  /**
+   * Cambió el título
+   */
+  RETITLED = 'retitled',
+
+  /**
+   * Cambió el indicador de auditable
+   */
+  AUDITABLE_CHANGED = 'auditable_changed',
+}
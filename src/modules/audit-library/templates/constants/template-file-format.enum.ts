@@ -0,0 +1,35 @@
+/**
+ * Formatos de archivo soportados para importar/exportar plantillas
+ */
+export enum TemplateFileFormat {
+  /**
+   * Excel con hojas "Template" y "Standards"
+   */
+  XLSX = 'xlsx',
+
+  /**
+   * Standards en formato plano (mismas columnas que el Excel)
+   */
+  CSV = 'csv',
+
+  /**
+   * Documento canónico con metadatos y árbol de standards anidado
+   */
+  JSON = 'json',
+
+  /**
+   * Mismo documento canónico que JSON, en YAML
+   */
+  YAML = 'yaml',
+}
+
+/**
+ * Content-Type de cada formato para las descargas
+ */
+export const TEMPLATE_FILE_CONTENT_TYPES: Record<TemplateFileFormat, string> = {
+  [TemplateFileFormat.XLSX]:
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  [TemplateFileFormat.CSV]: 'text/csv; charset=utf-8',
+  [TemplateFileFormat.JSON]: 'application/json; charset=utf-8',
+  [TemplateFileFormat.YAML]: 'application/yaml; charset=utf-8',
+}
@@ -9,6 +9,8 @@ import {
   Res,
   UploadedFile,
   BadRequestException,
+  HttpCode,
+  HttpStatus,
 } from '@nestjs/common'
 import { ApiTags, ApiOperation, ApiResponse, ApiBody } from '@nestjs/swagger'
 import type { Response } from 'express'
@@ -20,7 +22,7 @@ import {
 } from '@core/swagger'
 import { UuidParamDto } from '@core/dtos'
 import { ResponseMessage } from '@core/decorators'
-import { UploadSpreadsheet } from '@core/files/decorators'
+import { UploadSpreadsheet, UploadDocument } from '@core/files/decorators'
 import {
   CreateTemplateUseCase,
   UpdateTemplateUseCase,
@@ -30,17 +32,36 @@ import {
   ArchiveTemplateUseCase,
   ExportTemplateUseCase,
   ImportTemplateUseCase,
+  CreateTemplateVersionUseCase,
+  GetTemplateVersionHistoryUseCase,
+  CompareTemplatesUseCase,
+  ExportTemplateDiffUseCase,
+  PreviewImportTemplateUseCase,
+  AnnotateImportFileUseCase,
+  ImportTemplateDocumentUseCase,
+  UpdateTemplateFromFileUseCase,
+  GetTemplateAsOfUseCase,
+  ExportTemplateAsOfUseCase,
 } from '../use-cases'
 import { TemplateExampleService } from '../services'
 import {
   CreateTemplateDto,
+  CreateTemplateVersionDto,
+  CompareTemplatesDto,
+  ExportTemplateDto,
   FindTemplatesDto,
   TEMPLATE_SEARCH_FIELDS,
   TEMPLATE_SORTABLE_FIELDS,
   UpdateTemplateDto,
+  UpdateTemplateFromFileDto,
+  GetTemplateAsOfDto,
 } from '../dtos'
 import { TemplateEntity } from '../entities'
-import { TemplateStatus } from '../constants'
+import {
+  TemplateStatus,
+  TemplateFileFormat,
+  TEMPLATE_FILE_CONTENT_TYPES,
+} from '../constants'
 
 @ApiTags('templates')
 @Controller('templates')
@@ -55,6 +76,16 @@ export class TemplatesController {
     private readonly exportTemplateUseCase: ExportTemplateUseCase,
     private readonly importTemplateUseCase: ImportTemplateUseCase,
     private readonly templateExampleService: TemplateExampleService,
+    private readonly createTemplateVersionUseCase: CreateTemplateVersionUseCase,
+    private readonly getTemplateVersionHistoryUseCase: GetTemplateVersionHistoryUseCase,
+    private readonly compareTemplatesUseCase: CompareTemplatesUseCase,
+    private readonly exportTemplateDiffUseCase: ExportTemplateDiffUseCase,
+    private readonly previewImportTemplateUseCase: PreviewImportTemplateUseCase,
+    private readonly annotateImportFileUseCase: AnnotateImportFileUseCase,
+    private readonly importTemplateDocumentUseCase: ImportTemplateDocumentUseCase,
+    private readonly updateTemplateFromFileUseCase: UpdateTemplateFromFileUseCase,
+    private readonly getTemplateAsOfUseCase: GetTemplateAsOfUseCase,
+    private readonly exportTemplateAsOfUseCase: ExportTemplateAsOfUseCase,
   ) {}
 
   @Post()
@@ -116,7 +147,7 @@ export class TemplatesController {
   @UploadSpreadsheet({
     fieldName: 'file',
     description:
-      'Archivo Excel (.xlsx) con la hoja "Standards" que contiene las columnas: código, título, descripción, código padre, orden, nivel, auditable.',
+      'Archivo Excel (.xlsx) con la hoja "Standards" o CSV (.csv) con las columnas: código, título, descripción, código padre, orden, nivel, auditable.',
   })
   @ApiBody({
     description: 'Archivo Excel + metadatos de la plantilla',
@@ -127,7 +158,8 @@ export class TemplatesController {
         file: {
           type: 'string',
           format: 'binary',
-          description: 'Archivo Excel (.xlsx) con la hoja "Standards"',
+          description:
+            'Archivo Excel (.xlsx) con la hoja "Standards" o CSV (.csv)',
         },
         name: {
           type: 'string',
@@ -153,7 +185,7 @@ export class TemplatesController {
     },
   })
   @ApiOperation({
-    summary: 'Importar plantilla desde Excel',
+    summary: 'Importar plantilla desde Excel o CSV',
     description:
       'Importa una plantilla completa con todos sus standards desde un archivo Excel. ' +
       'El archivo debe tener una hoja "Standards" con las columnas: código, título, descripción, código padre, orden, nivel, auditable.',
@@ -174,7 +206,145 @@ export class TemplatesController {
     if (!file) {
       throw new BadRequestException('No se proporcionó archivo')
     }
-    return await this.importTemplateUseCase.execute(file.buffer, metadata)
+
+    const isCsv =
+      file.mimetype === 'text/csv' ||
+      file.originalname.toLowerCase().endsWith('.csv')
+
+    return await this.importTemplateUseCase.execute(
+      file.buffer,
+      metadata,
+      isCsv ? TemplateFileFormat.CSV : TemplateFileFormat.XLSX,
+    )
+  }
+
+  @Post('import/document')
+  @UploadDocument({
+    fieldName: 'file',
+    description:
+      'Documento canónico de la plantilla (.json, .yaml o .yml) con las secciones "template" y "standards".',
+  })
+  @ApiOperation({
+    summary: 'Importar plantilla desde JSON o YAML',
+    description:
+      'Crea una plantilla (DRAFT) desde el documento canónico generado por la exportación JSON / YAML. ' +
+      'Los metadatos (código, nombre, versión, descripción) se leen del propio documento.',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Plantilla importada exitosamente',
+    type: TemplateEntity,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Errores de validación en el documento',
+  })
+  async importDocument(
+    @UploadedFile() file: Express.Multer.File,
+  ): Promise<TemplateEntity> {
+    if (!file) {
+      throw new BadRequestException('No se proporcionó archivo')
+    }
+
+    const fileName = file.originalname.toLowerCase()
+    const format = /\.ya?ml$/.test(fileName)
+      ? TemplateFileFormat.YAML
+      : fileName.endsWith('.json')
+        ? TemplateFileFormat.JSON
+        : null
+
+    if (!format) {
+      throw new BadRequestException(
+        'Formato no soportado. Use un archivo .json, .yaml o .yml',
+      )
+    }
+
+    return await this.importTemplateDocumentUseCase.execute(
+      file.buffer.toString('utf8'),
+      format,
+    )
+  }
+
+  @Post('import/preview')
+  @UploadSpreadsheet({
+    fieldName: 'file',
+    description:
+      'Archivo Excel (.xlsx) con la hoja "Standards" a validar (no se guarda nada).',
+  })
+  @ApiOperation({
+    summary: 'Previsualizar importación de plantilla',
+    description:
+      'Modo preview de la importación: valida el archivo completo sin persistir nada. ' +
+      'Retorna todos los errores con fila y columna (código padre inexistente, nivel inconsistente con el padre, ' +
+      'códigos duplicados, orden no numérico, etc.), el árbol resultante y un resumen.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Resultado del análisis del archivo',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Archivo inválido o columnas obligatorias faltantes',
+  })
+  @HttpCode(HttpStatus.OK)
+  async previewImport(@UploadedFile() file: Express.Multer.File) {
+    if (!file) {
+      throw new BadRequestException('No se proporcionó archivo')
+    }
+    return await this.previewImportTemplateUseCase.execute(file.buffer)
+  }
+
+  @Post('import/preview/annotated')
+  @UploadSpreadsheet({
+    fieldName: 'file',
+    description: 'Archivo Excel (.xlsx) con la hoja "Standards" a anotar.',
+  })
+  @ApiOperation({
+    summary: 'Descargar Excel anotado con los errores de importación',
+    description:
+      'Retorna una copia del archivo subido con las celdas erróneas resaltadas en rojo, ' +
+      'una nota con el mensaje en cada celda y una columna final "Errores" por fila.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Archivo Excel anotado',
+    headers: {
+      'Content-Type': {
+        description:
+          'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      },
+      'Content-Disposition': {
+        description: 'attachment; filename=NombreArchivo_errores.xlsx',
+      },
+    },
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Archivo inválido o columnas obligatorias faltantes',
+  })
+  @HttpCode(HttpStatus.OK)
+  async annotateImport(
+    @UploadedFile() file: Express.Multer.File,
+    @Res() res: Response,
+  ): Promise<void> {
+    if (!file) {
+      throw new BadRequestException('No se proporcionó archivo')
+    }
+
+    const buffer = await this.annotateImportFileUseCase.execute(file.buffer)
+
+    const baseName = file.originalname
+      .replace(/\.xlsx$/i, '')
+      .replace(/[^a-zA-Z0-9]/g, '_')
+    const fileName = `${baseName}_errores.xlsx`
+
+    res.setHeader(
+      'Content-Type',
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    )
+    res.setHeader('Content-Disposition', `attachment; filename=${fileName}`)
+
+    res.send(buffer)
   }
 
   @Get()
@@ -228,6 +398,106 @@ export class TemplatesController {
     await this.publishTemplateUseCase.execute(id)
   }
 
+  @Post(':id/import')
+  @UploadSpreadsheet({
+    fieldName: 'file',
+    description:
+      'Archivo con los standards: Excel (.xlsx) con la hoja "Standards", CSV (.csv) o documento canónico (.json, .yaml, .yml).',
+  })
+  @ApiBody({
+    description: 'Archivo + opciones de sincronización',
+    schema: {
+      type: 'object',
+      required: ['file'],
+      properties: {
+        file: {
+          type: 'string',
+          format: 'binary',
+          description: 'Archivo Excel, CSV, JSON o YAML',
+        },
+        removeMissing: {
+          type: 'boolean',
+          description:
+            'Eliminar los standards que no vienen en el archivo (por defecto false)',
+          example: false,
+        },
+      },
+    },
+  })
+  @ApiOperation({
+    summary: 'Actualizar una plantilla DRAFT desde un archivo',
+    description:
+      'Sincroniza los standards de la plantilla con el archivo emparejando por código: actualiza títulos, ' +
+      'descripciones, orden y auditable; inserta los códigos nuevos (o recupera los eliminados); mueve los que ' +
+      'cambiaron de código padre y, con removeMissing, elimina los que no vienen en el archivo. ' +
+      'El archivo se valida con las mismas reglas que la importación. Retorna el reporte de cambios.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Reporte de cambios aplicados',
+  })
+  @ApiResponse({
+    status: 400,
+    description:
+      'Errores de validación en el archivo o plantilla no está en DRAFT',
+  })
+  @HttpCode(HttpStatus.OK)
+  async updateFromFile(
+    @Param() { id }: UuidParamDto,
+    @UploadedFile() file: Express.Multer.File,
+    @Body() dto: UpdateTemplateFromFileDto,
+  ) {
+    if (!file) {
+      throw new BadRequestException('No se proporcionó archivo')
+    }
+
+    const fileName = file.originalname.toLowerCase()
+    const format = /\.ya?ml$/.test(fileName)
+      ? TemplateFileFormat.YAML
+      : fileName.endsWith('.json')
+        ? TemplateFileFormat.JSON
+        : file.mimetype === 'text/csv' || fileName.endsWith('.csv')
+          ? TemplateFileFormat.CSV
+          : TemplateFileFormat.XLSX
+
+    return await this.updateTemplateFromFileUseCase.execute(
+      id,
+      file.buffer,
+      format,
+      dto,
+    )
+  }
+
+  @Post(':id/versions')
+  @ApiCreate(TemplateEntity, {
+    summary: 'Crear una nueva versión de una plantilla publicada',
+    description:
+      'Copia la plantilla y toda su jerarquía de standards (códigos y orden incluidos) en una nueva versión DRAFT ' +
+      'que queda vinculada a la versión de origen.',
+    conflictMessage: 'Ya existe una plantilla con ese código y versión',
+  })
+  async createVersion(
+    @Param() { id }: UuidParamDto,
+    @Body() dto: CreateTemplateVersionDto,
+  ) {
+    return await this.createTemplateVersionUseCase.execute(id, dto)
+  }
+
+  @Get(':id/versions')
+  @ApiOperation({
+    summary: 'Historial de versiones de una plantilla',
+    description:
+      'Retorna el linaje completo de la plantilla (versiones anteriores y derivadas), de la más antigua a la más nueva.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Versiones de la plantilla',
+    type: [TemplateEntity],
+  })
+  async getVersionHistory(@Param() { id }: UuidParamDto) {
+    return await this.getTemplateVersionHistoryUseCase.execute(id)
+  }
+
   @Patch(':id/archive')
   @ResponseMessage('Plantilla archivada exitosamente')
   @ApiUpdateWithMessage({
@@ -241,22 +511,24 @@ export class TemplatesController {
 
   @Get(':id/export')
   @ApiOperation({
-    summary: 'Exportar plantilla a Excel',
+    summary: 'Exportar plantilla',
     description:
-      'Exporta una plantilla completa con todos sus standards a un archivo Excel. ' +
-      'El archivo contiene 2 hojas: "Template" con metadatos y "Standards" con todos los controles ordenados jerárquicamente. ' +
-      'Útil para backup, compartir entre entornos o generar datos de prueba.',
+      'Exporta una plantilla completa con todos sus standards. Formatos (parámetro "format"): ' +
+      'xlsx (por defecto) con 2 hojas: "Template" con metadatos y "Standards" con todos los controles ordenados jerárquicamente; ' +
+      'csv plano con las mismas columnas; json / yaml con el documento canónico (árbol anidado). ' +
+      'Todos los formatos se pueden volver a importar sin pérdida de información. ' +
+      'Útil para backup, compartir entre entornos, generar datos de prueba o versionar plantillas en git.',
   })
   @ApiResponse({
     status: 200,
-    description: 'Archivo Excel generado exitosamente',
+    description: 'Archivo generado exitosamente',
     headers: {
       'Content-Type': {
-        description:
-          'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+        description: Object.values(TEMPLATE_FILE_CONTENT_TYPES).join(' | '),
       },
       'Content-Disposition': {
-        description: 'attachment; filename=NombrePlantilla_vVersion_Date.xlsx',
+        description:
+          'attachment; filename=NombrePlantilla_vVersion_Date.(xlsx|csv|json|yaml)',
       },
     },
   })
@@ -266,27 +538,160 @@ export class TemplatesController {
   })
   async exportTemplate(
     @Param() { id }: UuidParamDto,
+    @Query() { format = TemplateFileFormat.XLSX }: ExportTemplateDto,
     @Res() res: Response,
   ): Promise<void> {
     // Obtener el template para generar el nombre del archivo
     const template = await this.findTemplateUseCase.execute(id)
 
-    // Exportar el template a Excel
-    const buffer = await this.exportTemplateUseCase.execute(id)
+    // Exportar el template en el formato solicitado
+    const buffer = await this.exportTemplateUseCase.execute(id, format)
 
     // Generar nombre del archivo
     const sanitizedName = template.name.replace(/[^a-zA-Z0-9]/g, '_')
     const timestamp = new Date().toISOString().split('T')[0]
-    const fileName = `${sanitizedName}_v${template.version}_${timestamp}.xlsx`
+    const fileName = `${sanitizedName}_v${template.version}_${timestamp}.${format}`
 
     // Configurar headers para descarga
+    res.setHeader('Content-Type', TEMPLATE_FILE_CONTENT_TYPES[format])
+    res.setHeader('Content-Disposition', `attachment; filename=${fileName}`)
+
+    // Enviar buffer
+    res.send(buffer)
+  }
+
+  @Get(':id/diff')
+  @ApiOperation({
+    summary: 'Comparar dos versiones de una plantilla',
+    description:
+      'Compara la plantilla de la ruta (base) con la versión destino standard por standard, emparejando por código. ' +
+      'Reporta standards agregados, eliminados, movidos (cambio de padre), reordenados, con título modificado ' +
+      'y cambios en el indicador de auditable.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Diferencias entre ambas versiones',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Plantilla no encontrada',
+  })
+  async compare(
+    @Param() { id }: UuidParamDto,
+    @Query() { targetId }: CompareTemplatesDto,
+  ) {
+    return await this.compareTemplatesUseCase.execute(id, targetId)
+  }
+
+  @Get(':id/diff/export')
+  @ApiOperation({
+    summary: 'Exportar diferencias entre versiones a Excel',
+    description:
+      'Genera un archivo Excel con 2 hojas: "Resumen" con la cantidad de cambios por tipo ' +
+      'y "Cambios" con el detalle (valores anterior y nuevo) de cada standard modificado.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Archivo Excel generado exitosamente',
+    headers: {
+      'Content-Type': {
+        description:
+          'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      },
+      'Content-Disposition': {
+        description:
+          'attachment; filename=Codigo_diff_vBase_vDestino_Date.xlsx',
+      },
+    },
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Plantilla no encontrada',
+  })
+  async exportDiff(
+    @Param() { id }: UuidParamDto,
+    @Query() { targetId }: CompareTemplatesDto,
+    @Res() res: Response,
+  ): Promise<void> {
+    const { buffer, fileName } = await this.exportTemplateDiffUseCase.execute(
+      id,
+      targetId,
+    )
+
+    res.setHeader(
+      'Content-Type',
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    )
+    res.setHeader('Content-Disposition', `attachment; filename=${fileName}`)
+
+    res.send(buffer)
+  }
+
+  @Get(':id/as-of')
+  @ApiOperation({
+    summary: 'Reconstruir una plantilla a una fecha',
+    description:
+      'Retorna la plantilla y su árbol de standards tal como estaban en la fecha indicada ("at"), ' +
+      'deshaciendo sobre el estado actual los cambios registrados en el historial de auditoría después de esa fecha. ' +
+      'Las ediciones de una plantilla en borrador no se auditan: para fechas en que la plantilla era borrador, ' +
+      'los textos corresponden a los que tenía al publicarse.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Plantilla reconstruida',
+    type: TemplateEntity,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Plantilla no encontrada o inexistente en la fecha',
+  })
+  async findAsOf(
+    @Param() { id }: UuidParamDto,
+    @Query() { at }: GetTemplateAsOfDto,
+  ) {
+    return await this.getTemplateAsOfUseCase.execute(id, new Date(at))
+  }
+
+  @Get(':id/as-of/export')
+  @ApiOperation({
+    summary: 'Exportar a Excel una plantilla reconstruida a una fecha',
+    description:
+      'Genera el mismo Excel que la exportación normal (hojas "Template" y "Standards") ' +
+      'con la plantilla tal como estaba en la fecha indicada ("at").',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Archivo Excel generado exitosamente',
+    headers: {
+      'Content-Type': {
+        description:
+          'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      },
+      'Content-Disposition': {
+        description: 'attachment; filename=Nombre_vX_al_Date.xlsx',
+      },
+    },
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Plantilla no encontrada o inexistente en la fecha',
+  })
+  async exportAsOf(
+    @Param() { id }: UuidParamDto,
+    @Query() { at }: GetTemplateAsOfDto,
+    @Res() res: Response,
+  ): Promise<void> {
+    const { buffer, fileName } = await this.exportTemplateAsOfUseCase.execute(
+      id,
+      new Date(at),
+    )
+
     res.setHeader(
       'Content-Type',
       'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
     )
     res.setHeader('Content-Disposition', `attachment; filename=${fileName}`)
 
-    // Enviar buffer
     res.send(buffer)
   }
 }
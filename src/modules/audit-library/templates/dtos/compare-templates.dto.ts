@@ -0,0 +1,12 @@
+import { IsUUID } from '@core/i18n'
+import { ApiProperty } from '@nestjs/swagger'
+
+export class CompareTemplatesDto {
+  @ApiProperty({
+    description:
+      'ID de la versión destino (la plantilla de la ruta es la base)',
+    example: '550e8400-e29b-41d4-a716-446655440000',
+  })
+  @IsUUID()
+  targetId: string
+}
@@ -0,0 +1,39 @@
+import { IsString, IsOptional, MinLength, MaxLength } from '@core/i18n'
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger'
+import { TEMPLATE_CONSTRAINTS } from '../constants'
+
+export class CreateTemplateVersionDto {
+  @ApiProperty({
+    description: 'Identificador de la nueva versión',
+    example: '2.0',
+    minLength: TEMPLATE_CONSTRAINTS.VERSION.MIN_LENGTH,
+    maxLength: TEMPLATE_CONSTRAINTS.VERSION.MAX_LENGTH,
+  })
+  @IsString()
+  @MinLength(TEMPLATE_CONSTRAINTS.VERSION.MIN_LENGTH)
+  @MaxLength(TEMPLATE_CONSTRAINTS.VERSION.MAX_LENGTH)
+  version: string
+
+  @ApiPropertyOptional({
+    description:
+      'Nombre de la nueva versión (por defecto se copia el de origen)',
+    example: 'Norma ISO/IEC 27001:2022 Seguridad de la Información',
+    minLength: TEMPLATE_CONSTRAINTS.NAME.MIN_LENGTH,
+    maxLength: TEMPLATE_CONSTRAINTS.NAME.MAX_LENGTH,
+  })
+  @IsOptional()
+  @IsString()
+  @MinLength(TEMPLATE_CONSTRAINTS.NAME.MIN_LENGTH)
+  @MaxLength(TEMPLATE_CONSTRAINTS.NAME.MAX_LENGTH)
+  name?: string
+
+  @ApiPropertyOptional({
+    description:
+      'Descripción de la nueva versión (por defecto se copia la de origen)',
+    maxLength: TEMPLATE_CONSTRAINTS.DESCRIPTION.MAX_LENGTH,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(TEMPLATE_CONSTRAINTS.DESCRIPTION.MAX_LENGTH)
+  description?: string
+}
@@ -0,0 +1,14 @@
+import { IsOptional, IsEnum } from '@core/i18n'
+import { ApiPropertyOptional } from '@nestjs/swagger'
+import { TemplateFileFormat } from '../constants'
+
+export class ExportTemplateDto {
+  @ApiPropertyOptional({
+    description: 'Formato del archivo exportado',
+    enum: TemplateFileFormat,
+    default: TemplateFileFormat.XLSX,
+  })
+  @IsOptional()
+  @IsEnum(TemplateFileFormat)
+  format?: TemplateFileFormat = TemplateFileFormat.XLSX
+}
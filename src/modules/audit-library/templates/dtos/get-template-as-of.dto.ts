@@ -0,0 +1,11 @@
+import { IsDateString } from '@core/i18n'
+import { ApiProperty } from '@nestjs/swagger'
+
+export class GetTemplateAsOfDto {
+  @ApiProperty({
+    description: 'Fecha y hora (ISO 8601) a la que se reconstruye la plantilla',
+    example: '2026-03-15T12:00:00.000Z',
+  })
+  @IsDateString()
+  at: string
+}
@@ -2,6 +2,11 @@ export * from './update-template.dto'
 export * from './create-template.dto'
 export * from './template-response.dto'
 export * from './find-templates.dto'
+export * from './create-template-version.dto'
+export * from './compare-templates.dto'
+export * from './export-template.dto'
+export * from './update-template-from-file.dto'
+export * from './get-template-as-of.dto'
 
 export {
   TEMPLATE_SORTABLE_FIELDS,
@@ -0,0 +1,19 @@
+import { Transform } from 'class-transformer'
+import { IsOptional, IsBoolean } from '@core/i18n'
+import { ApiPropertyOptional } from '@nestjs/swagger'
+
+export class UpdateTemplateFromFileDto {
+  @ApiPropertyOptional({
+    description:
+      'Eliminar los standards de la plantilla que no vienen en el archivo',
+    default: false,
+  })
+  @IsOptional()
+  @Transform(({ value }) => {
+    if (value === 'true') return true
+    if (value === 'false') return false
+    return Boolean(value)
+  })
+  @IsBoolean()
+  removeMissing?: boolean = false
+}
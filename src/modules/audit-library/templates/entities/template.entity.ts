@@ -1,10 +1,34 @@
-import { Entity, Column, OneToMany, Index } from 'typeorm'
+import {
+  Entity,
+  Column,
+  OneToMany,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm'
 import { StandardEntity } from '../../standards/entities/standard.entity'
 import { TemplateStatus } from '../constants/template-status.enum'
 import { TEMPLATE_CONSTRAINTS } from '../constants'
 import { BaseEntity } from '@core/entities'
+import { Auditable } from '@core/database/auditable.decorator'
+import { AuditAction } from '@core/database/audit-action.enum'
+@Auditable<TemplateEntity>({
+  // Ediciones de un borrador (DRAFT → DRAFT) no se auditan
+  when: ({ entity, previous }) =>
+    !(
+      previous?.status === TemplateStatus.DRAFT &&
+      entity.status === TemplateStatus.DRAFT
+    ),
+  transitions: {
+    status: {
+      [TemplateStatus.PUBLISHED]: AuditAction.PUBLISH,
+      [TemplateStatus.ARCHIVED]: AuditAction.ARCHIVE,
+    },
+  },
+})
 @Entity('templates')
 @Index(['name', 'version'], { unique: true })
+@Index(['previousVersionId'])
 export class TemplateEntity extends BaseEntity {
   @Column({ type: 'varchar', length: TEMPLATE_CONSTRAINTS.CODE.MAX_LENGTH })
   code: string
@@ -30,6 +54,17 @@ export class TemplateEntity extends BaseEntity {
   })
   standards: StandardEntity[]
 
+  /**
+   * Linaje: versión de la que se derivó esta plantilla
+   * null = primera versión (creada o importada desde cero)
+   */
+  @Column({ type: 'uuid', nullable: true })
+  previousVersionId: string | null
+
+  @ManyToOne(() => TemplateEntity, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'previousVersionId' })
+  previousVersion: TemplateEntity | null
+
   get isEditable(): boolean {
     return this.status === TemplateStatus.DRAFT
   }
@@ -72,4 +107,12 @@ export class TemplateEntity extends BaseEntity {
   get canStartAudit(): boolean {
     return this.status === TemplateStatus.PUBLISHED
   }
+
+  /**
+   * ¿Se puede derivar una nueva versión?
+   * Solo de plantillas publicadas (los borradores se editan directamente).
+   */
+  get canCreateNewVersion(): boolean {
+    return this.status === TemplateStatus.PUBLISHED
+  }
 }
@@ -1,3 +1,6 @@
 export * from './template-not-found.exception'
 export * from './template-already-exists.exception'
 export * from './template-not-editable.exception'
+export * from './template-not-versionable.exception'
+export * from './template-not-updatable.exception'
+export * from './template-not-found-at-date.exception'
@@ -0,0 +1,7 @@
+import { NotFoundException } from '@nestjs/common'
+
+export class TemplateNotFoundAtDateException extends NotFoundException {
+  constructor(name: string, at: Date) {
+    super(`La plantilla ${name} no existía en la fecha ${at.toISOString()}`)
+  }
+}
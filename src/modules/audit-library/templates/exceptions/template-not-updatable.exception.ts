@@ -0,0 +1,9 @@
+import { BadRequestException } from '@nestjs/common'
+
+export class TemplateNotUpdatableException extends BadRequestException {
+  constructor(name: string, status: string) {
+    super(
+      `No se puede actualizar la plantilla ${name} desde un archivo porque está en estado "${status}" (debe estar en borrador)`,
+    )
+  }
+}
@@ -0,0 +1,9 @@
+import { BadRequestException } from '@nestjs/common'
+
+export class TemplateNotVersionableException extends BadRequestException {
+  constructor(name: string, status: string) {
+    super(
+      `No se puede crear una nueva versión de la plantilla ${name} porque está en estado "${status}" (debe estar publicada)`,
+    )
+  }
+}
@@ -1,6 +1,10 @@
 import { Injectable } from '@nestjs/common'
 import { TemplateEntity } from '../entities'
-import { CreateTemplateDto, UpdateTemplateDto } from '../dtos'
+import {
+  CreateTemplateDto,
+  CreateTemplateVersionDto,
+  UpdateTemplateDto,
+} from '../dtos'
 
 @Injectable()
 export class TemplateFactory {
@@ -42,4 +46,28 @@ export class TemplateFactory {
 
     return template
   }
+
+  /**
+   * Crea una nueva versión (DRAFT) a partir de una plantilla existente.
+   * Conserva el código y registra el linaje hacia la versión de origen.
+   *
+   * @param source - Plantilla de origen
+   * @param dto - Versión y, opcionalmente, nombre/descripción nuevos
+   * @returns Nueva instancia de TemplateEntity (sin standards)
+   */
+  createNewVersion(
+    source: TemplateEntity,
+    dto: CreateTemplateVersionDto,
+  ): TemplateEntity {
+    const template = new TemplateEntity()
+    template.code = source.code
+    template.name = dto.name?.trim() || source.name
+    template.version = dto.version.trim()
+    template.description =
+      dto.description !== undefined
+        ? dto.description.trim() || null
+        : source.description
+    template.previousVersionId = source.id
+    return template
+  }
 }
@@ -1,4 +1,5 @@
 import { ImportStandardDto } from '../../standards/dtos'
+import type { StandardEntity } from '../../standards/entities'
 
 /**
  * Validation error for a specific row/field
@@ -6,6 +7,8 @@ import { ImportStandardDto } from '../../standards/dtos'
 export interface ValidationError {
   row: number
   field: string
+  /** Letra de la columna en el Excel (null si la columna no existe) */
+  column: string | null
   value: unknown
   message: string
 }
@@ -26,3 +29,25 @@ export interface ImportResult {
   errors?: ValidationError[]
   message: string
 }
+
+/**
+ * Resultado del modo preview de la importación (no persiste nada)
+ */
+export interface ImportPreviewResult {
+  valid: boolean
+  summary: ImportPreviewSummary
+  errors: ValidationError[]
+  /** Árbol construido con las filas que se pudieron enlazar */
+  tree: StandardEntity[]
+}
+
+export interface ImportPreviewSummary {
+  totalRows: number
+  validRows: number
+  invalidRows: number
+  errorCount: number
+  standardsCount: number
+  rootCount: number
+  auditableCount: number
+  maxLevel: number
+}
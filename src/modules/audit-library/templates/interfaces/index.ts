@@ -1 +1,4 @@
 export * from './import-data.interface'
+export * from './template-diff.interface'
+export * from './template-document.interface'
+export * from './template-merge.interface'
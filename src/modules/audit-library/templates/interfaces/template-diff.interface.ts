@@ -0,0 +1,44 @@
+import { TemplateDiffChangeType } from '../constants'
+
+/**
+ * Datos de una versión de plantilla involucrada en la comparación
+ */
+export interface TemplateDiffVersion {
+  id: string
+  code: string
+  name: string
+  version: string
+  status: string
+}
+
+/**
+ * Estado de un standard en una de las versiones comparadas
+ */
+export interface TemplateDiffStandardState {
+  title: string
+  parentCode: string | null
+  order: number
+  level: number
+  isAuditable: boolean
+}
+
+/**
+ * Diferencias de un standard (emparejado por código)
+ */
+export interface TemplateDiffEntry {
+  code: string
+  changes: TemplateDiffChangeType[]
+  /** null = no existe en la versión base */
+  before: TemplateDiffStandardState | null
+  /** null = no existe en la versión destino */
+  after: TemplateDiffStandardState | null
+}
+
+export interface TemplateDiffResult {
+  base: TemplateDiffVersion
+  target: TemplateDiffVersion
+  /** Cantidad de standards afectados por cada tipo de cambio */
+  summary: Record<TemplateDiffChangeType, number>
+  unchangedCount: number
+  entries: TemplateDiffEntry[]
+}
@@ -0,0 +1,36 @@
+/**
+ * Representación canónica de una plantilla (JSON / YAML)
+ *
+ * - El nivel no se guarda: se deriva de la profundidad en el árbol
+ * - Los hijos se ordenan por 'order' y luego por 'code' (salida estable para git)
+ * - 'description' y 'children' se omiten cuando están vacíos
+ */
+export interface TemplateDocument {
+  formatVersion: number
+  template: TemplateDocumentMetadata
+  standards: TemplateDocumentStandard[]
+}
+
+export interface TemplateDocumentMetadata {
+  code: string
+  name: string
+  version: string
+  description?: string
+}
+
+export interface TemplateDocumentStandard {
+  code: string
+  title: string
+  description?: string
+  order: number
+  isAuditable: boolean
+  children?: TemplateDocumentStandard[]
+}
+
+/**
+ * Datos tabulares (CSV): cabeceras + filas de celdas en texto
+ */
+export interface TemplateTable {
+  headers: string[]
+  records: string[][]
+}
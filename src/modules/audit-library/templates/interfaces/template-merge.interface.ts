@@ -0,0 +1,77 @@
+import type { StandardEntity } from '../../standards/entities'
+
+/**
+ * Campos de contenido que se comparan al sincronizar un standard
+ */
+export type TemplateMergeField =
+  | 'title'
+  | 'description'
+  | 'order'
+  | 'isAuditable'
+
+export interface TemplateMergeOptions {
+  /** Eliminar (soft-delete) los standards que no vienen en el archivo */
+  removeMissing: boolean
+}
+
+/**
+ * Standard existente cuyo contenido cambió
+ */
+export interface TemplateMergeUpdate {
+  code: string
+  fields: TemplateMergeField[]
+}
+
+/**
+ * Standard existente que cambió de padre
+ */
+export interface TemplateMergeMove {
+  code: string
+  /** null = era raíz */
+  fromParentCode: string | null
+  /** null = pasa a ser raíz */
+  toParentCode: string | null
+}
+
+/**
+ * Reporte de cambios de la sincronización de una plantilla con un archivo
+ */
+export interface TemplateMergeReport {
+  templateId: string
+  removeMissing: boolean
+  summary: {
+    created: number
+    restored: number
+    updated: number
+    moved: number
+    removed: number
+    missing: number
+    unchanged: number
+  }
+  /** Códigos nuevos */
+  created: string[]
+  /** Códigos eliminados anteriormente que el archivo vuelve a incluir */
+  restored: string[]
+  updated: TemplateMergeUpdate[]
+  moved: TemplateMergeMove[]
+  /** Códigos eliminados por no venir en el archivo (removeMissing) */
+  removed: string[]
+  /** Códigos que no vienen en el archivo y se conservaron */
+  missing: string[]
+}
+
+/**
+ * Resultado de planificar la sincronización (sin persistir)
+ */
+export interface TemplateMergePlan {
+  report: TemplateMergeReport
+  /**
+   * Standards a guardar (nuevos o modificados), ordenados por nivel.
+   * El padre viene en `parent` porque los nuevos aún no tienen ID
+   */
+  standards: StandardEntity[]
+  /** IDs de standards eliminados que se deben recuperar */
+  restoredIds: string[]
+  /** IDs de standards a eliminar */
+  removedIds: string[]
+}
@@ -9,6 +9,8 @@ export interface ITemplatesRepository extends IBaseRepository<TemplateEntity> {
     version: string,
     excludeId?: string,
   ): Promise<boolean>
+  findDerivedVersions(templateId: string): Promise<TemplateEntity[]>
+  findPublished(): Promise<TemplateEntity[]>
   paginateTemplates(
     query: FindTemplatesDto,
   ): Promise<PaginatedData<TemplateEntity>>
@@ -7,6 +7,7 @@ import { TemplateEntity } from '../entities/template.entity'
 import { PaginatedData } from '@core/dtos'
 import { FindTemplatesDto, TEMPLATE_SEARCH_FIELDS } from '../dtos'
 import { ITemplatesRepository } from './templates-repository.interface'
+import { TemplateStatus } from '../constants'
 
 /**
  * Templates Repository
@@ -46,6 +47,26 @@ export class TemplatesRepository
     return count > 0
   }
 
+  /**
+   * Obtiene las versiones derivadas directamente de una plantilla (linaje)
+   */
+  async findDerivedVersions(templateId: string): Promise<TemplateEntity[]> {
+    return await this.getRepo().find({
+      where: { previousVersionId: templateId },
+      order: { createdAt: 'ASC' },
+    })
+  }
+
+  /**
+   * Plantillas publicadas (usables), de la más antigua a la más reciente
+   */
+  async findPublished(): Promise<TemplateEntity[]> {
+    return await this.getRepo().find({
+      where: { status: TemplateStatus.PUBLISHED },
+      order: { createdAt: 'ASC' },
+    })
+  }
+
   async paginateTemplates(
     query: FindTemplatesDto,
   ): Promise<PaginatedData<TemplateEntity>> {
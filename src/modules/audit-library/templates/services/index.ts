@@ -1,3 +1,8 @@
 export * from './template-import.service'
 export * from './template-export.service'
+export * from './template-format.service'
 export * from './template-example.service'
+export * from './template-versioning.service'
+export * from './template-diff.service'
+export * from './template-merge.service'
+export * from './template-snapshot.service'
@@ -0,0 +1,130 @@
+import { TemplateDiffService } from './template-diff.service'
+import { StandardEntity } from '../../standards/entities/standard.entity'
+import { TemplateEntity } from '../entities'
+import { TemplateDiffChangeType } from '../constants'
+
+describe('TemplateDiffService', () => {
+  let service: TemplateDiffService
+
+  const buildTemplate = (id: string, version: string): TemplateEntity =>
+    Object.assign(new TemplateEntity(), {
+      id,
+      code: 'ISO27001',
+      name: 'ISO 27001',
+      version,
+    })
+
+  const buildStandard = (
+    id: string,
+    code: string,
+    parentId: string | null,
+    order: number,
+    overrides: Partial<StandardEntity> = {},
+  ): StandardEntity =>
+    Object.assign(new StandardEntity(), {
+      id,
+      code,
+      parentId,
+      title: `Standard ${code}`,
+      description: null,
+      level: parentId ? 2 : 1,
+      order,
+      isAuditable: !!parentId,
+      ...overrides,
+    })
+
+  beforeEach(() => {
+    service = new TemplateDiffService()
+  })
+
+  describe('compare', () => {
+    it('should match standards by code and report each change type', () => {
+      // Arrange
+      const baseStandards = [
+        buildStandard('b-a', 'A', null, 1),
+        buildStandard('b-b', 'B', null, 2),
+        buildStandard('b-a1', 'A.1', 'b-a', 1),
+        buildStandard('b-a2', 'A.2', 'b-a', 2),
+        buildStandard('b-a3', 'A.3', 'b-a', 3),
+        buildStandard('b-a4', 'A.4', 'b-a', 4),
+      ]
+      const targetStandards = [
+        buildStandard('t-a', 'A', null, 1),
+        buildStandard('t-b', 'B', null, 2),
+        buildStandard('t-a1', 'A.1', 't-a', 1),
+        buildStandard('t-a2', 'A.2', 't-b', 1), // movido
+        buildStandard('t-a3', 'A.3', 't-a', 2, {
+          title: 'Nuevo título',
+          isAuditable: false,
+        }), // reordenado + retitulado + auditable
+        buildStandard('t-a5', 'A.5', 't-a', 3), // agregado
+      ] // A.4 eliminado
+
+      // Act
+      const diff = service.compare(
+        buildTemplate('base', '2013'),
+        baseStandards,
+        buildTemplate('target', '2022'),
+        targetStandards,
+      )
+
+      // Assert
+      const changesByCode = Object.fromEntries(
+        diff.entries.map((entry) => [entry.code, entry.changes]),
+      )
+      expect(changesByCode).toEqual({
+        'A.2': [TemplateDiffChangeType.MOVED],
+        'A.3': [
+          TemplateDiffChangeType.REORDERED,
+          TemplateDiffChangeType.RETITLED,
+          TemplateDiffChangeType.AUDITABLE_CHANGED,
+        ],
+        'A.5': [TemplateDiffChangeType.ADDED],
+        'A.4': [TemplateDiffChangeType.REMOVED],
+      })
+      expect(diff.unchangedCount).toBe(3)
+      expect(diff.summary[TemplateDiffChangeType.MOVED]).toBe(1)
+      expect(
+        diff.entries.find((e) => e.code === 'A.2')?.after?.parentCode,
+      ).toBe('B')
+    })
+
+    it('should report no entries for identical versions', () => {
+      // Arrange
+      const standards = [
+        buildStandard('a', 'A', null, 1),
+        buildStandard('a1', 'A.1', 'a', 1),
+      ]
+
+      // Act
+      const diff = service.compare(
+        buildTemplate('base', '1'),
+        standards,
+        buildTemplate('target', '2'),
+        standards,
+      )
+
+      // Assert
+      expect(diff.entries).toEqual([])
+      expect(diff.unchangedCount).toBe(2)
+    })
+  })
+
+  describe('exportDiff', () => {
+    it('should generate an Excel buffer', async () => {
+      // Arrange
+      const diff = service.compare(
+        buildTemplate('base', '1'),
+        [buildStandard('a', 'A', null, 1)],
+        buildTemplate('target', '2'),
+        [],
+      )
+
+      // Act
+      const buffer = await service.exportDiff(diff)
+
+      // Assert
+      expect(buffer.length).toBeGreaterThan(0)
+    })
+  })
+})
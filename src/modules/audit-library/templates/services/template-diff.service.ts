@@ -0,0 +1,280 @@
+import { Injectable } from '@nestjs/common'
+import * as ExcelJS from 'exceljs'
+import type { StandardEntity } from '../../standards/entities'
+import type { TemplateEntity } from '../entities'
+import { TemplateDiffChangeType } from '../constants'
+import type {
+  TemplateDiffEntry,
+  TemplateDiffResult,
+  TemplateDiffStandardState,
+  TemplateDiffVersion,
+} from '../interfaces'
+
+const CHANGE_LABELS: Record<TemplateDiffChangeType, string> = {
+  [TemplateDiffChangeType.ADDED]: 'Agregado',
+  [TemplateDiffChangeType.REMOVED]: 'Eliminado',
+  [TemplateDiffChangeType.MOVED]: 'Movido',
+  [TemplateDiffChangeType.REORDERED]: 'Reordenado',
+  [TemplateDiffChangeType.RETITLED]: 'Título modificado',
+  [TemplateDiffChangeType.AUDITABLE_CHANGED]: 'Auditable modificado',
+}
+
+/**
+ * Template Diff Service
+ *
+ * Compara dos versiones de una plantilla standard por standard
+ * (emparejando por código) y genera el reporte en Excel
+ */
+@Injectable()
+export class TemplateDiffService {
+  /**
+   * Compara la estructura de dos versiones
+   *
+   * @param base - Versión base (anterior)
+   * @param baseStandards - Standards planos de la versión base
+   * @param target - Versión destino (nueva)
+   * @param targetStandards - Standards planos de la versión destino
+   * @returns Diferencias por standard y resumen por tipo de cambio
+   */
+  compare(
+    base: TemplateEntity,
+    baseStandards: StandardEntity[],
+    target: TemplateEntity,
+    targetStandards: StandardEntity[],
+  ): TemplateDiffResult {
+    const before = this.indexByCode(baseStandards)
+    const after = this.indexByCode(targetStandards)
+
+    const summary = Object.values(TemplateDiffChangeType).reduce(
+      (acc, type) => ({ ...acc, [type]: 0 }),
+      {} as Record<TemplateDiffChangeType, number>,
+    )
+    const entries: TemplateDiffEntry[] = []
+    let unchangedCount = 0
+
+    // Recorrer primero el orden de la versión destino y luego los eliminados
+    const codes = [
+      ...after.keys(),
+      ...[...before.keys()].filter((code) => !after.has(code)),
+    ]
+
+    codes.forEach((code) => {
+      const previous = before.get(code) ?? null
+      const current = after.get(code) ?? null
+      const changes = this.detectChanges(previous, current)
+
+      if (changes.length === 0) {
+        unchangedCount++
+        return
+      }
+
+      changes.forEach((change) => summary[change]++)
+      entries.push({ code, changes, before: previous, after: current })
+    })
+
+    return {
+      base: this.toVersion(base),
+      target: this.toVersion(target),
+      summary,
+      unchangedCount,
+      entries,
+    }
+  }
+
+  /**
+   * Genera el Excel con el resumen y el detalle de diferencias
+   */
+  async exportDiff(diff: TemplateDiffResult): Promise<Buffer> {
+    const workbook = new ExcelJS.Workbook()
+    workbook.creator = 'Audit Core'
+    workbook.created = new Date()
+
+    this.createSummarySheet(workbook, diff)
+    this.createChangesSheet(workbook, diff)
+
+    const buffer = await workbook.xlsx.writeBuffer()
+    return Buffer.from(buffer)
+  }
+
+  getFileName(diff: TemplateDiffResult): string {
+    const sanitizedCode = diff.target.code.replace(/[^a-zA-Z0-9]/g, '_')
+    const timestamp = new Date().toISOString().split('T')[0]
+    return `${sanitizedCode}_diff_v${diff.base.version}_v${diff.target.version}_${timestamp}.xlsx`
+  }
+
+  private detectChanges(
+    before: TemplateDiffStandardState | null,
+    after: TemplateDiffStandardState | null,
+  ): TemplateDiffChangeType[] {
+    if (!before) return [TemplateDiffChangeType.ADDED]
+    if (!after) return [TemplateDiffChangeType.REMOVED]
+
+    const changes: TemplateDiffChangeType[] = []
+
+    if (before.parentCode !== after.parentCode) {
+      changes.push(TemplateDiffChangeType.MOVED)
+    } else if (before.order !== after.order) {
+      changes.push(TemplateDiffChangeType.REORDERED)
+    }
+
+    if (before.title !== after.title) {
+      changes.push(TemplateDiffChangeType.RETITLED)
+    }
+
+    if (before.isAuditable !== after.isAuditable) {
+      changes.push(TemplateDiffChangeType.AUDITABLE_CHANGED)
+    }
+
+    return changes
+  }
+
+  /**
+   * Indexa los standards por código, resolviendo el código del padre
+   * (los IDs no sirven para comparar entre versiones)
+   */
+  private indexByCode(
+    standards: StandardEntity[],
+  ): Map<string, TemplateDiffStandardState> {
+    const codeById = new Map(standards.map((s) => [s.id, s.code]))
+    const sorted = [...standards].sort(
+      (a, b) => a.level - b.level || a.order - b.order,
+    )
+
+    return new Map(
+      sorted.map((standard) => [
+        standard.code,
+        {
+          title: standard.title,
+          parentCode: standard.parentId
+            ? (codeById.get(standard.parentId) ?? null)
+            : null,
+          order: standard.order,
+          level: standard.level,
+          isAuditable: standard.isAuditable,
+        },
+      ]),
+    )
+  }
+
+  private toVersion(template: TemplateEntity): TemplateDiffVersion {
+    return {
+      id: template.id,
+      code: template.code,
+      name: template.name,
+      version: template.version,
+      status: template.status,
+    }
+  }
+
+  private createSummarySheet(
+    workbook: ExcelJS.Workbook,
+    diff: TemplateDiffResult,
+  ): void {
+    const sheet = workbook.addWorksheet('Resumen')
+
+    sheet.columns = [
+      { header: 'Campo', key: 'field', width: 25 },
+      { header: 'Valor', key: 'value', width: 50 },
+    ]
+    this.styleHeader(sheet, 'FF4472C4')
+
+    sheet.addRows([
+      {
+        field: 'Versión base',
+        value: `${diff.base.name} (v${diff.base.version})`,
+      },
+      {
+        field: 'Versión destino',
+        value: `${diff.target.name} (v${diff.target.version})`,
+      },
+      ...Object.values(TemplateDiffChangeType).map((type) => ({
+        field: CHANGE_LABELS[type],
+        value: diff.summary[type],
+      })),
+      { field: 'Sin cambios', value: diff.unchangedCount },
+    ])
+
+    this.applyBorders(sheet)
+  }
+
+  private createChangesSheet(
+    workbook: ExcelJS.Workbook,
+    diff: TemplateDiffResult,
+  ): void {
+    const sheet = workbook.addWorksheet('Cambios')
+
+    sheet.columns = [
+      { header: 'Código', key: 'code', width: 15 },
+      { header: 'Cambios', key: 'changes', width: 30 },
+      { header: 'Título Anterior', key: 'titleBefore', width: 60 },
+      { header: 'Título Nuevo', key: 'titleAfter', width: 60 },
+      { header: 'Padre Anterior', key: 'parentBefore', width: 15 },
+      { header: 'Padre Nuevo', key: 'parentAfter', width: 15 },
+      { header: 'Orden Anterior', key: 'orderBefore', width: 15 },
+      { header: 'Orden Nuevo', key: 'orderAfter', width: 15 },
+      { header: 'Auditable Anterior', key: 'auditableBefore', width: 18 },
+      { header: 'Auditable Nuevo', key: 'auditableAfter', width: 18 },
+    ]
+    this.styleHeader(sheet, 'FF70AD47')
+
+    const yesNo = (value?: boolean) =>
+      value === undefined ? '' : value ? 'Sí' : 'No'
+
+    sheet.addRows(
+      diff.entries.map(({ code, changes, before, after }) => ({
+        code,
+        changes: changes.map((change) => CHANGE_LABELS[change]).join(', '),
+        titleBefore: before?.title ?? '',
+        titleAfter: after?.title ?? '',
+        parentBefore: before?.parentCode ?? '',
+        parentAfter: after?.parentCode ?? '',
+        orderBefore: before?.order ?? '',
+        orderAfter: after?.order ?? '',
+        auditableBefore: yesNo(before?.isAuditable),
+        auditableAfter: yesNo(after?.isAuditable),
+      })),
+    )
+
+    this.applyBorders(sheet)
+
+    // Resaltar altas y bajas
+    diff.entries.forEach((entry, index) => {
+      const row = sheet.getRow(index + 2) // +2 porque la fila 1 es header
+      if (entry.changes.includes(TemplateDiffChangeType.ADDED)) {
+        row.fill = {
+          type: 'pattern',
+          pattern: 'solid',
+          fgColor: { argb: 'FFE7F3E7' }, // Verde muy claro
+        }
+      } else if (entry.changes.includes(TemplateDiffChangeType.REMOVED)) {
+        row.fill = {
+          type: 'pattern',
+          pattern: 'solid',
+          fgColor: { argb: 'FFFDE9E7' }, // Rojo muy claro
+        }
+      }
+    })
+  }
+
+  private styleHeader(sheet: ExcelJS.Worksheet, color: string): void {
+    sheet.getRow(1).fill = {
+      type: 'pattern',
+      pattern: 'solid',
+      fgColor: { argb: color },
+    }
+    sheet.getRow(1).font = { bold: true, color: { argb: 'FFFFFFFF' } }
+  }
+
+  private applyBorders(sheet: ExcelJS.Worksheet): void {
+    sheet.eachRow((row) => {
+      row.eachCell((cell) => {
+        cell.border = {
+          top: { style: 'thin' },
+          left: { style: 'thin' },
+          bottom: { style: 'thin' },
+          right: { style: 'thin' },
+        }
+      })
+    })
+  }
+}
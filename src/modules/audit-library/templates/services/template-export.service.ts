@@ -7,6 +7,9 @@ import type { StandardEntity } from '../../standards/entities'
 import type { TemplateEntity } from '../entities'
 import { TEMPLATES_REPOSITORY } from '../tokens'
 import { STANDARDS_REPOSITORY } from '../../standards/tokens'
+import { TemplateFileFormat } from '../constants'
+import type { TemplateDocument } from '../interfaces'
+import { TemplateFormatService } from './template-format.service'
 
 /**
  * Template Export Service
@@ -20,8 +23,46 @@ export class TemplateExportService {
     private readonly templatesRepository: ITemplatesRepository,
     @Inject(STANDARDS_REPOSITORY)
     private readonly standardsRepository: IStandardsRepository,
+    private readonly templateFormatService: TemplateFormatService,
   ) {}
 
+  /**
+   * Exporta la plantilla en el formato indicado
+   *
+   * @param templateId - ID de la plantilla
+   * @param format - Formato de salida (xlsx, csv, json, yaml)
+   * @returns Buffer con el contenido del archivo
+   */
+  async exportTemplateAs(
+    templateId: string,
+    format: TemplateFileFormat,
+  ): Promise<Buffer> {
+    if (format === TemplateFileFormat.XLSX) {
+      return await this.exportTemplate(templateId)
+    }
+
+    const document = await this.exportDocument(templateId)
+    const content =
+      format === TemplateFileFormat.CSV
+        ? this.templateFormatService.toCsv(document)
+        : this.templateFormatService.stringifyDocument(document, format)
+
+    return Buffer.from(content, 'utf8')
+  }
+
+  /**
+   * Construye el documento canónico (JSON / YAML) de la plantilla
+   */
+  async exportDocument(templateId: string): Promise<TemplateDocument> {
+    const template = await this.templatesRepository.findById(templateId)
+    if (!template) {
+      throw new TemplateNotFoundException(templateId)
+    }
+
+    const standards = await this.standardsRepository.findByTemplate(templateId)
+    return this.templateFormatService.toDocument(template, standards)
+  }
+
   async exportTemplate(templateId: string): Promise<Buffer> {
     this.logger.log(`Exportando plantilla ${templateId} a Excel`)
 
@@ -31,7 +72,17 @@ export class TemplateExportService {
     }
 
     const standards = await this.standardsRepository.findByTemplate(templateId)
+    return await this.exportWorkbook(template, standards)
+  }
 
+  /**
+   * Genera el Excel a partir de una plantilla y sus standards ya cargados
+   * (ej: una plantilla reconstruida a una fecha)
+   */
+  async exportWorkbook(
+    template: TemplateEntity,
+    standards: StandardEntity[],
+  ): Promise<Buffer> {
     const workbook = new ExcelJS.Workbook()
     workbook.creator = 'Audit Core'
     workbook.created = new Date()
@@ -232,9 +283,12 @@ export class TemplateExportService {
     return result
   }
 
-  getFileName(template: TemplateEntity): string {
+  getFileName(
+    template: TemplateEntity,
+    format: TemplateFileFormat = TemplateFileFormat.XLSX,
+  ): string {
     const sanitizedName = template.name.replace(/[^a-zA-Z0-9]/g, '_')
     const timestamp = new Date().toISOString().split('T')[0]
-    return `${sanitizedName}_v${template.version}_${timestamp}.xlsx`
+    return `${sanitizedName}_v${template.version}_${timestamp}.${format}`
   }
 }
@@ -0,0 +1,148 @@
+import { BadRequestException } from '@nestjs/common'
+import { TemplateFormatService } from './template-format.service'
+import { TemplateImportService } from './template-import.service'
+import { StandardEntity } from '../../standards/entities/standard.entity'
+import { TemplateEntity } from '../entities'
+import { TemplateFileFormat } from '../constants'
+
+describe('TemplateFormatService', () => {
+  let service: TemplateFormatService
+  let importService: TemplateImportService
+
+  const template = Object.assign(new TemplateEntity(), {
+    id: 'template-1',
+    code: 'ISO27001',
+    name: 'ISO 27001',
+    version: '2022',
+    description: null,
+  })
+
+  const buildStandard = (
+    id: string,
+    parentId: string | null,
+    level: number,
+    order: number,
+    overrides: Partial<StandardEntity> = {},
+  ): StandardEntity =>
+    Object.assign(new StandardEntity(), {
+      id,
+      templateId: template.id,
+      parentId,
+      code: id.toUpperCase(),
+      title: `Standard ${id}`,
+      description: null,
+      level,
+      order,
+      isAuditable: level > 1,
+      ...overrides,
+    })
+
+  const standards = [
+    buildStandard('a.6', null, 1, 2),
+    buildStandard('a.5', null, 1, 1, { description: 'Políticas' }),
+    buildStandard('a.5.2', 'a.5', 2, 2, {
+      title: 'Título con "comillas", comas\ny saltos de línea',
+    }),
+    buildStandard('a.5.1', 'a.5', 2, 1),
+    buildStandard('a.6.1', 'a.6', 2, 5, { isAuditable: false }),
+  ]
+
+  /**
+   * Reconstruye los standards planos (con IDs) desde un árbol importado
+   */
+  const flatten = (
+    nodes: StandardEntity[],
+    parentId: string | null = null,
+  ): StandardEntity[] =>
+    nodes.flatMap((node) => {
+      const copy = Object.assign(new StandardEntity(), node, {
+        id: node.code.toLowerCase(),
+        parentId,
+        children: undefined,
+      })
+      return [copy, ...flatten(node.children, copy.id)]
+    })
+
+  beforeEach(() => {
+    service = new TemplateFormatService()
+    importService = new TemplateImportService()
+  })
+
+  describe('toDocument', () => {
+    it('should nest standards sorted by order and omit empty fields', () => {
+      // Act
+      const document = service.toDocument(template, standards)
+
+      // Assert
+      expect(document.template).toEqual({
+        code: 'ISO27001',
+        name: 'ISO 27001',
+        version: '2022',
+      })
+      expect(document.standards.map((s) => s.code)).toEqual(['A.5', 'A.6'])
+      expect(document.standards[0].description).toBe('Políticas')
+      expect(document.standards[0].children?.map((s) => s.code)).toEqual([
+        'A.5.1',
+        'A.5.2',
+      ])
+      expect(document.standards[0].children?.[0]).not.toHaveProperty('children')
+      expect(document.standards[1]).not.toHaveProperty('description')
+    })
+  })
+
+  describe('round-trip', () => {
+    it.each([TemplateFileFormat.JSON, TemplateFileFormat.YAML] as const)(
+      'should be lossless through %s',
+      async (format) => {
+        // Arrange
+        const document = service.toDocument(template, standards)
+
+        // Act
+        const content = service.stringifyDocument(document, format)
+        const parsed = service.parseDocument(content, format)
+        const roots = await importService.importFromDocument(parsed)
+
+        // Assert
+        expect(parsed).toEqual(document)
+        expect(service.toDocument(template, flatten(roots))).toEqual(document)
+      },
+    )
+
+    it('should be lossless through CSV', async () => {
+      // Arrange
+      const document = service.toDocument(template, standards)
+
+      // Act
+      const csv = service.toCsv(document)
+      const roots = await importService.importFromTable(service.parseCsv(csv))
+
+      // Assert
+      expect(service.toDocument(template, flatten(roots))).toEqual(document)
+      expect(flatten(roots).find((s) => s.code === 'A.6.1')?.level).toBe(2)
+    })
+  })
+
+  describe('parseDocument', () => {
+    it('should reject documents without standards', () => {
+      // Act & Assert
+      expect(() =>
+        service.parseDocument('{"template": {}}', TemplateFileFormat.JSON),
+      ).toThrow(BadRequestException)
+    })
+  })
+
+  describe('parseCsv', () => {
+    it('should accept any column alias and a BOM', async () => {
+      // Arrange
+      const csv = '\uFEFFcode,title,level\r\nA.5,Políticas,1\r\n'
+
+      // Act
+      const table = service.parseCsv(csv)
+      const roots = await importService.importFromTable(table)
+
+      // Assert
+      expect(table.headers).toEqual(['code', 'title', 'level'])
+      expect(roots.map((s) => s.code)).toEqual(['A.5'])
+    })
+  })
+})
@@ -0,0 +1,259 @@
+import { Injectable, BadRequestException } from '@nestjs/common'
+import * as YAML from 'yaml'
+import type { StandardEntity } from '../../standards/entities'
+import type { TemplateEntity } from '../entities'
+import {
+  TemplateFileFormat,
+  TEMPLATE_COLUMN_HEADERS,
+  type TemplateColumnField,
+} from '../constants'
+import type {
+  TemplateDocument,
+  TemplateDocumentMetadata,
+  TemplateDocumentStandard,
+  TemplateTable,
+} from '../interfaces'
+
+const DOCUMENT_FORMAT_VERSION = 1
+
+const CSV_COLUMNS: TemplateColumnField[] = [
+  'code',
+  'title',
+  'description',
+  'parentCode',
+  'order',
+  'level',
+  'isAuditable',
+]
+
+/**
+ * Template Format Service
+ *
+ * Conversión (sin acceso a datos) entre plantillas y sus formatos de texto:
+ * - Documento canónico JSON / YAML con el árbol anidado
+ * - CSV plano con las mismas columnas que el Excel
+ *
+ * El importador (TemplateImportService) acepta todo lo que se exporta aquí,
+ * por lo que exportar e importar no pierde información.
+ */
+@Injectable()
+export class TemplateFormatService {
+  /**
+   * Construye el documento canónico de una plantilla
+   *
+   * @param template - Plantilla (metadatos)
+   * @param standards - Standards planos de la plantilla
+   * @returns Documento con el árbol de standards anidado y ordenado
+   */
+  toDocument(
+    template: TemplateEntity,
+    standards: StandardEntity[],
+  ): TemplateDocument {
+    const childrenByParent = new Map<string | null, StandardEntity[]>()
+    const ids = new Set(standards.map((s) => s.id))
+
+    standards.forEach((standard) => {
+      // Huérfanos (padre inexistente) se tratan como raíces
+      const parentId =
+        standard.parentId && ids.has(standard.parentId)
+          ? standard.parentId
+          : null
+      const siblings = childrenByParent.get(parentId) ?? []
+      siblings.push(standard)
+      childrenByParent.set(parentId, siblings)
+    })
+
+    const build = (parentId: string | null): TemplateDocumentStandard[] =>
+      (childrenByParent.get(parentId) ?? [])
+        .sort((a, b) => a.order - b.order || a.code.localeCompare(b.code))
+        .map((standard) => {
+          const children = build(standard.id)
+          return {
+            code: standard.code,
+            title: standard.title,
+            ...(standard.description && { description: standard.description }),
+            order: standard.order,
+            isAuditable: standard.isAuditable,
+            ...(children.length > 0 && { children }),
+          }
+        })
+
+    const metadata: TemplateDocumentMetadata = {
+      code: template.code,
+      name: template.name,
+      version: template.version,
+      ...(template.description && { description: template.description }),
+    }
+
+    return {
+      formatVersion: DOCUMENT_FORMAT_VERSION,
+      template: metadata,
+      standards: build(null),
+    }
+  }
+
+  /**
+   * Serializa el documento canónico a JSON o YAML
+   */
+  stringifyDocument(
+    document: TemplateDocument,
+    format: TemplateFileFormat.JSON | TemplateFileFormat.YAML,
+  ): string {
+    return format === TemplateFileFormat.YAML
+      ? YAML.stringify(document)
+      : `${JSON.stringify(document, null, 2)}\n`
+  }
+
+  /**
+   * Lee un documento canónico desde JSON o YAML
+   *
+   * Solo valida la forma general; el contenido de los standards se valida
+   * al importarlo (mismas reglas que el Excel)
+   *
+   * @throws {BadRequestException} Si el contenido no se puede leer
+   */
+  parseDocument(
+    content: string,
+    format: TemplateFileFormat.JSON | TemplateFileFormat.YAML,
+  ): TemplateDocument {
+    let parsed: unknown
+    try {
+      parsed =
+        format === TemplateFileFormat.YAML
+          ? YAML.parse(content)
+          : JSON.parse(content)
+    } catch (error) {
+      throw new BadRequestException(
+        `El archivo ${format.toUpperCase()} no es válido: ${(error as Error).message}`,
+      )
+    }
+
+    const document = parsed as Partial<TemplateDocument> | null
+    if (
+      !document ||
+      typeof document !== 'object' ||
+      typeof document.template !== 'object' ||
+      document.template === null ||
+      !Array.isArray(document.standards)
+    ) {
+      throw new BadRequestException(
+        'El documento debe contener las secciones "template" y "standards".',
+      )
+    }
+
+    if (
+      document.formatVersion !== undefined &&
+      document.formatVersion !== DOCUMENT_FORMAT_VERSION
+    ) {
+      throw new BadRequestException(
+        `Versión de formato no soportada: ${document.formatVersion} (se esperaba ${DOCUMENT_FORMAT_VERSION}).`,
+      )
+    }
+
+    return document as TemplateDocument
+  }
+
+  /**
+   * Genera el CSV plano (una fila por standard, en orden jerárquico)
+   */
+  toCsv(document: TemplateDocument): string {
+    const lines: string[][] = [
+      CSV_COLUMNS.map((field) => TEMPLATE_COLUMN_HEADERS[field]),
+    ]
+
+    const visit = (
+      nodes: TemplateDocumentStandard[] | undefined,
+      parentCode: string,
+      level: number,
+    ) => {
+      nodes?.forEach((node) => {
+        lines.push([
+          node.code,
+          node.title,
+          node.description ?? '',
+          parentCode,
+          String(node.order),
+          String(level),
+          node.isAuditable ? 'Sí' : 'No',
+        ])
+        visit(node.children, node.code, level + 1)
+      })
+    }
+    visit(document.standards, '', 1)
+
+    return lines
+      .map((line) => line.map((value) => this.escapeCsv(value)).join(','))
+      .join('\r\n')
+      .concat('\r\n')
+  }
+
+  /**
+   * Lee un CSV (RFC 4180: comillas dobles, saltos de línea dentro de campos)
+   *
+   * @throws {BadRequestException} Si el CSV está vacío o mal formado
+   */
+  parseCsv(content: string): TemplateTable {
+    const text = content.replace(/^\uFEFF/, '') // BOM de Excel
+    const records: string[][] = []
+    let record: string[] = []
+    let field = ''
+    let inQuotes = false
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i]
+
+      if (inQuotes) {
+        if (char === '"' && text[i + 1] === '"') {
+          field += '"'
+          i++
+        } else if (char === '"') {
+          inQuotes = false
+        } else {
+          field += char
+        }
+        continue
+      }
+
+      if (char === '"') {
+        inQuotes = true
+      } else if (char === ',') {
+        record.push(field)
+        field = ''
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && text[i + 1] === '\n') i++
+        record.push(field)
+        records.push(record)
+        record = []
+        field = ''
+      } else {
+        field += char
+      }
+    }
+
+    if (inQuotes) {
+      throw new BadRequestException(
+        'El archivo CSV no es válido: comillas sin cerrar.',
+      )
+    }
+
+    if (field !== '' || record.length > 0) {
+      record.push(field)
+      records.push(record)
+    }
+
+    const [headers, ...rows] = records.filter(
+      (row) => !(row.length === 1 && row[0] === ''),
+    )
+    if (!headers) {
+      throw new BadRequestException('El archivo CSV está vacío.')
+    }
+
+    return { headers, records: rows }
+  }
+
+  private escapeCsv(value: string): string {
+    return /[",\r\n]/.test(value) || value !== value.trim()
+      ? `"${value.replace(/"/g, '""')}"`
+      : value
+  }
+}
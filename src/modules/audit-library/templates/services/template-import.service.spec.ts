@@ -0,0 +1,110 @@
+import * as ExcelJS from 'exceljs'
+import { BadRequestException } from '@nestjs/common'
+import { TemplateImportService } from './template-import.service'
+
+describe('TemplateImportService', () => {
+  let service: TemplateImportService
+
+  const HEADERS = ['Código', 'Título', 'Código Padre', 'Orden', 'Nivel']
+
+  const buildWorkbook = async (rows: (string | number)[][]) => {
+    const workbook = new ExcelJS.Workbook()
+    const sheet = workbook.addWorksheet('Standards')
+    sheet.addRow(HEADERS)
+    rows.forEach((row) => sheet.addRow(row))
+    return Buffer.from(await workbook.xlsx.writeBuffer())
+  }
+
+  const VALID_ROWS = [
+    ['A.5', 'Políticas', '', 1, 1],
+    ['A.5.1', 'Directrices', 'A.5', 1, 2],
+    ['A.5.1.1', 'Política de seguridad', 'A.5.1', 1, 3],
+  ]
+
+  beforeEach(() => {
+    service = new TemplateImportService()
+  })
+
+  describe('previewImport', () => {
+    it('should return the parsed tree and summary for a valid file', async () => {
+      // Arrange
+      const buffer = await buildWorkbook(VALID_ROWS)
+
+      // Act
+      const result = await service.previewImport(buffer)
+
+      // Assert
+      expect(result.valid).toBe(true)
+      expect(result.errors).toEqual([])
+      expect(result.tree).toHaveLength(1)
+      expect(result.tree[0].children[0].children[0].code).toBe('A.5.1.1')
+      expect(result.summary).toMatchObject({
+        totalRows: 3,
+        validRows: 3,
+        standardsCount: 3,
+        rootCount: 1,
+        maxLevel: 3,
+      })
+    })
+
+    it('should report every row error with row and column', async () => {
+      // Arrange
+      const buffer = await buildWorkbook([
+        ['A.5', 'Políticas', '', 1, 1],
+        ['A.5.1', 'Directrices', 'A.5', 'abc', 2], // orden no numérico
+        ['A.5.1', 'Duplicado', 'A.5', 2, 2], // código duplicado
+        ['A.6.1', 'Huérfano', 'A.6', 1, 2], // padre inexistente
+        ['A.5.2', 'Nivel incorrecto', 'A.5', 3, 3], // nivel != padre + 1
+      ])
+
+      // Act
+      const result = await service.previewImport(buffer)
+
+      // Assert
+      expect(result.valid).toBe(false)
+      expect(
+        result.errors.map(({ row, field, column }) => ({ row, field, column })),
+      ).toEqual([
+        { row: 3, field: 'order', column: 'D' },
+        { row: 4, field: 'code', column: 'A' },
+        { row: 5, field: 'parentCode', column: 'C' },
+        { row: 6, field: 'level', column: 'E' },
+      ])
+      expect(result.summary.invalidRows).toBe(4)
+    })
+  })
+
+  describe('importTemplate', () => {
+    it('should throw with all errors when the file is invalid', async () => {
+      // Arrange
+      const buffer = await buildWorkbook([['A.6.1', 'Huérfano', 'A.6', 1, 2]])
+
+      // Act & Assert
+      await expect(service.importTemplate(buffer)).rejects.toThrow(
+        BadRequestException,
+      )
+    })
+  })
+
+  describe('annotateWorkbook', () => {
+    it('should highlight invalid cells and add an errors column', async () => {
+      // Arrange
+      const buffer = await buildWorkbook([
+        ['A.5', 'Políticas', '', 1, 1],
+        ['A.6.1', 'Huérfano', 'A.6', 1, 2],
+      ])
+
+      // Act
+      const annotated = await service.annotateWorkbook(buffer)
+
+      // Assert
+      const workbook = new ExcelJS.Workbook()
+      await workbook.xlsx.load(annotated)
+      const sheet = workbook.getWorksheet('Standards')!
+      expect(sheet.getRow(1).getCell(6).text).toBe('Errores')
+      expect(sheet.getRow(3).getCell(6).text).toContain("'A.6'")
+      expect(sheet.getRow(3).getCell(3).note).toBeDefined()
+      expect(sheet.getRow(2).getCell(6).text).toBe('')
+    })
+  })
+})
@@ -4,18 +4,47 @@ import { validate } from 'class-validator'
 import { plainToInstance } from 'class-transformer'
 import { ImportStandardDto, StandardEntity } from '../../standards'
 import { TemplateEntity } from '../entities'
+import { TEMPLATE_COLUMN_DEFINITIONS } from '../constants'
+import type {
+  ImportPreviewResult,
+  ImportPreviewSummary,
+  TemplateDocument,
+  TemplateDocumentStandard,
+  TemplateTable,
+  ValidationError,
+} from '../interfaces'
 
 // Definimos interfaz local para evitar 'any' en el parseo
 interface RawExcelRow {
+  rowNumber: number
   code: string
   title: string
   description?: string
   parentCode?: string
-  order: number
-  level: number
+  // Texto crudo: la conversión numérica se valida fila por fila
+  order: string
+  level: string
   isAuditable: boolean
 }
 
+interface ParsedRows {
+  rows: RawExcelRow[]
+  // Campo -> letra de columna (para reportar errores)
+  columnLetters: Map<string, string>
+}
+
+interface ParsedSheet extends ParsedRows {
+  sheet: ExcelJS.Worksheet
+  // Campo -> número de columna en el Excel
+  columnMap: Map<string, number>
+}
+
+interface AnalyzedRows {
+  dtos: ImportStandardDto[]
+  rowNumbers: number[]
+  errors: ValidationError[]
+}
+
 @Injectable()
 export class TemplateImportService {
   private readonly logger = new Logger(TemplateImportService.name)
@@ -26,33 +55,174 @@ export class TemplateImportService {
     const start = Date.now()
 
     // 1. PARSEO: Buffer -> Objetos Crudos Tipados
-    const rawRows = await this.parseExcel(fileBuffer)
+    const parsed = await this.parseExcel(fileBuffer)
 
-    // 2. VALIDACIÓN: Objetos Crudos -> DTOs Validados
-    const validDTOs = await this.validateRows(rawRows)
+    // 2. VALIDACIÓN Y CONSTRUCCIÓN
+    const roots = await this.buildFromRows(parsed)
 
     this.logger.log(`✅ Importación completada en ${Date.now() - start}ms.`)
-    // 3. CONSTRUCCIÓN: DTOs -> Entidades en Árbol
-    return this.buildHierarchy(validDTOs)
+    return roots
+  }
+
+  /**
+   * Importa standards desde datos tabulares (CSV)
+   *
+   * @param table - Cabeceras y filas del CSV
+   * @returns Raíces del árbol de standards (sin persistir)
+   * @throws {BadRequestException} Si hay errores de validación
+   */
+  async importFromTable(table: TemplateTable): Promise<StandardEntity[]> {
+    return await this.buildFromRows(this.parseTable(table))
+  }
+
+  /**
+   * Importa standards desde el documento canónico (JSON / YAML)
+   *
+   * @param document - Documento canónico de la plantilla
+   * @returns Raíces del árbol de standards (sin persistir)
+   * @throws {BadRequestException} Si hay errores de validación
+   */
+  async importFromDocument(
+    document: TemplateDocument,
+  ): Promise<StandardEntity[]> {
+    return await this.buildFromRows(this.parseDocument(document))
+  }
+
+  /**
+   * Valida todas las filas y construye el árbol; lanza si hay errores
+   */
+  private async buildFromRows({
+    rows,
+    columnLetters,
+  }: ParsedRows): Promise<StandardEntity[]> {
+    // 1. VALIDACIÓN: Objetos Crudos -> DTOs Validados (todas las filas)
+    const { dtos, errors } = await this.analyzeRows(rows, columnLetters)
+
+    if (errors.length > 0) {
+      const messages = errors.map((error) => this.formatError(error))
+      throw new BadRequestException({
+        message: 'El archivo contiene errores de validación',
+        errors: messages.slice(0, 20),
+        totalErrors: messages.length,
+      })
+    }
+
+    // 2. CONSTRUCCIÓN: DTOs -> Entidades en Árbol
+    const roots = this.buildHierarchy(dtos)
+
+    // Validación final de sanidad
+    if (roots.length === 0 && dtos.length > 0) {
+      throw new BadRequestException(
+        'Error Circular: No se encontraron nodos raíz.',
+      )
+    }
+
+    return roots
+  }
+
+  /**
+   * Modo preview: analiza el archivo completo sin lanzar errores ni persistir
+   *
+   * @param fileBuffer - Buffer del archivo Excel
+   * @returns Errores por fila/columna, árbol resultante y resumen
+   */
+  async previewImport(fileBuffer: Buffer): Promise<ImportPreviewResult> {
+    const { rows, columnLetters } = await this.parseExcel(fileBuffer)
+    const { dtos, rowNumbers, errors } = await this.analyzeRows(
+      rows,
+      columnLetters,
+    )
+
+    const tree = this.buildHierarchy(dtos)
+    const invalidRows = new Set(errors.map((error) => error.row)).size
+
+    const summary: ImportPreviewSummary = {
+      totalRows: rowNumbers.length,
+      validRows: rowNumbers.length - invalidRows,
+      invalidRows,
+      errorCount: errors.length,
+      standardsCount: 0,
+      rootCount: tree.length,
+      auditableCount: 0,
+      maxLevel: 0,
+    }
+
+    const visit = (nodes: StandardEntity[]) => {
+      nodes.forEach((node) => {
+        summary.standardsCount++
+        if (node.isAuditable) summary.auditableCount++
+        summary.maxLevel = Math.max(summary.maxLevel, node.level)
+        visit(node.children)
+      })
+    }
+    visit(tree)
+
+    return { valid: errors.length === 0, summary, errors, tree }
+  }
+
+  /**
+   * Genera una copia del Excel subido con las celdas erróneas resaltadas
+   * (relleno rojo + nota con el mensaje) y una columna final "Errores"
+   *
+   * @param fileBuffer - Buffer del archivo Excel original
+   * @returns Buffer del Excel anotado
+   */
+  async annotateWorkbook(fileBuffer: Buffer): Promise<Buffer> {
+    const { sheet, rows, columnMap, columnLetters } =
+      await this.parseExcel(fileBuffer)
+    const { errors } = await this.analyzeRows(rows, columnLetters)
+
+    const errorsColumn = sheet.columnCount + 1
+    const headerCell = sheet.getRow(1).getCell(errorsColumn)
+    headerCell.value = 'Errores'
+    headerCell.font = { bold: true, color: { argb: 'FFFFFFFF' } }
+    headerCell.fill = {
+      type: 'pattern',
+      pattern: 'solid',
+      fgColor: { argb: 'FFC00000' },
+    }
+    sheet.getColumn(errorsColumn).width = 80
+
+    // Agrupar errores por fila y por celda
+    const messagesByRow = new Map<number, string[]>()
+    const messagesByCell = new Map<string, string[]>()
+
+    errors.forEach((error) => {
+      const rowMessages = messagesByRow.get(error.row) ?? []
+      rowMessages.push(error.message)
+      messagesByRow.set(error.row, rowMessages)
+
+      const colNumber = columnMap.get(error.field) ?? columnMap.get('code')!
+      const cellKey = `${error.row}:${colNumber}`
+      const cellMessages = messagesByCell.get(cellKey) ?? []
+      cellMessages.push(error.message)
+      messagesByCell.set(cellKey, cellMessages)
+    })
+
+    messagesByCell.forEach((messages, cellKey) => {
+      const [rowNumber, colNumber] = cellKey.split(':').map(Number)
+      const cell = sheet.getRow(rowNumber).getCell(colNumber)
+      cell.fill = {
+        type: 'pattern',
+        pattern: 'solid',
+        fgColor: { argb: 'FFFFC7CE' }, // Rojo claro
+      }
+      cell.note = messages.join('\n')
+    })
+
+    messagesByRow.forEach((messages, rowNumber) => {
+      sheet.getRow(rowNumber).getCell(errorsColumn).value = messages.join('; ')
+    })
+
+    const buffer = await sheet.workbook.xlsx.writeBuffer()
+    return Buffer.from(buffer)
   }
 
   // ===========================================================================
   // HELPERS PRIVADOS
   // ===========================================================================
 
-  private readonly COLUMN_DEFINITIONS = {
-    code: ['código', 'codigo', 'code'],
-    title: ['título', 'titulo', 'title'],
-    description: ['descripción', 'descripcion', 'description'],
-    parentCode: ['código padre', 'codigo padre', 'parent code', 'parentcode'],
-    order: ['orden', 'order'],
-    level: ['nivel', 'level'],
-    isAuditable: ['auditable', 'es auditable', 'is auditable'],
-  }
-
-  private async parseExcel(
-    buffer: Buffer | Uint8Array,
-  ): Promise<RawExcelRow[]> {
+  private async parseExcel(buffer: Buffer | Uint8Array): Promise<ParsedSheet> {
     const workbook = new ExcelJS.Workbook()
 
     await workbook.xlsx.load(buffer)
@@ -60,26 +230,111 @@ export class TemplateImportService {
     if (!sheet) throw new BadRequestException('El archivo Excel no es válido.')
 
     // 1. MAPEO DINÁMICO DE COLUMNAS
-    // Creamos un mapa: { 'code': 2, 'title': 3, ... }
+    const headers: string[] = []
+    sheet.getRow(1).eachCell((cell, colNumber) => {
+      headers[colNumber - 1] = cell.text
+    })
+    const columnMap = this.mapColumns(headers, 'Excel')
+
+    // 2. LEER DATOS USANDO EL MAPA
+    const rows: RawExcelRow[] = []
+
+    sheet.eachRow((row, rowNumber) => {
+      if (rowNumber === 1) return // Saltar header
+
+      const rawRow = this.readRow(
+        rowNumber,
+        (colNumber) => row.getCell(colNumber).text,
+        columnMap,
+      )
+      if (rawRow) rows.push(rawRow)
+    })
+
+    return {
+      sheet,
+      rows,
+      columnMap,
+      columnLetters: this.getColumnLetters(columnMap),
+    }
+  }
+
+  /**
+   * Igual que parseExcel pero a partir de datos tabulares (CSV)
+   */
+  private parseTable(table: TemplateTable): ParsedRows {
+    const columnMap = this.mapColumns(table.headers, 'CSV')
+
+    const rows: RawExcelRow[] = []
+    table.records.forEach((record, index) => {
+      const rawRow = this.readRow(
+        index + 2, // +2 porque la fila 1 es header
+        (colNumber) => record[colNumber - 1],
+        columnMap,
+      )
+      if (rawRow) rows.push(rawRow)
+    })
+
+    return { rows, columnLetters: this.getColumnLetters(columnMap) }
+  }
+
+  /**
+   * Aplana el documento canónico a filas (nivel = profundidad en el árbol)
+   * Los errores se reportan con la posición del standard en el documento
+   */
+  private parseDocument(document: TemplateDocument): ParsedRows {
+    const rows: RawExcelRow[] = []
+
+    const visit = (
+      nodes: TemplateDocumentStandard[] | undefined,
+      parentCode: string | undefined,
+      level: number,
+    ) => {
+      if (!Array.isArray(nodes)) return
+      nodes.forEach((node) => {
+        rows.push({
+          rowNumber: rows.length + 1,
+          code: node.code,
+          title: node.title,
+          description: node.description,
+          parentCode,
+          order: String(node.order ?? 0),
+          level: String(level),
+          isAuditable: node.isAuditable === true,
+        })
+        visit(node.children, node.code, level + 1)
+      })
+    }
+    visit(document.standards, undefined, 1)
+
+    return { rows, columnLetters: new Map() }
+  }
+
+  /**
+   * Mapea cabeceras a campos usando los alias de TEMPLATE_COLUMN_DEFINITIONS
+   * Retorna: { 'code': 2, 'title': 3, ... } (columnas base 1)
+   */
+  private mapColumns(
+    headers: Array<string | undefined>,
+    source: string,
+  ): Map<string, number> {
     const columnMap = new Map<string, number>()
-    const headerRow = sheet.getRow(1)
 
-    headerRow.eachCell((cell, colNumber) => {
-      const headerText = cell.text?.toLowerCase().trim()
+    headers.forEach((header, index) => {
+      const headerText = header?.toLowerCase().trim()
       if (!headerText) return
 
       // Buscamos a qué campo corresponde esta cabecera
       for (const [fieldKey, possibleNames] of Object.entries(
-        this.COLUMN_DEFINITIONS,
+        TEMPLATE_COLUMN_DEFINITIONS,
       )) {
-        if (possibleNames.includes(headerText)) {
-          columnMap.set(fieldKey, colNumber)
+        if ((possibleNames as readonly string[]).includes(headerText)) {
+          columnMap.set(fieldKey, index + 1)
           break
         }
       }
     })
 
-    // 2. VALIDAR COLUMNAS OBLIGATORIAS
+    // VALIDAR COLUMNAS OBLIGATORIAS
     const requiredFields = ['code', 'title', 'level']
     const missingFields = requiredFields.filter(
       (field) => !columnMap.has(field),
@@ -87,106 +342,219 @@ export class TemplateImportService {
 
     if (missingFields.length > 0) {
       throw new BadRequestException(
-        `Faltan columnas obligatorias en el Excel: ${missingFields.join(', ')}`,
+        `Faltan columnas obligatorias en el ${source}: ${missingFields.join(', ')}`,
       )
     }
 
-    // 3. LEER DATOS USANDO EL MAPA
-    const rows: RawExcelRow[] = []
-
-    sheet.eachRow((row, rowNumber) => {
-      if (rowNumber === 1) return // Saltar header
-
-      const getVal = (key: string) => {
-        const colIndex = columnMap.get(key)
-        // 1. Obtenemos el texto
-        const rawVal = colIndex ? row.getCell(colIndex).text : undefined
+    return columnMap
+  }
 
-        // 2. Quitamos espacios en blanco
-        const trimmedVal = rawVal?.trim()
+  private readRow(
+    rowNumber: number,
+    getCellText: (colNumber: number) => string | undefined,
+    columnMap: Map<string, number>,
+  ): RawExcelRow | null {
+    const getVal = (key: string) => {
+      const colIndex = columnMap.get(key)
+      // 1. Obtenemos el texto
+      const rawVal = colIndex ? getCellText(colIndex) : undefined
+
+      // 2. Quitamos espacios en blanco
+      const trimmedVal = rawVal?.trim()
+
+      // 3. EL TRUCO: Si es string vacío, devolvemos undefined
+      return trimmedVal === '' ? undefined : trimmedVal
+    }
+    // Si la fila no tiene código, la ignoramos (fila vacía)
+    const code = getVal('code')
+    if (!code) return null
+
+    return {
+      rowNumber,
+      code: code,
+      title: getVal('title') || '',
+      description: getVal('description'),
+      parentCode: getVal('parentCode'),
+      // Valores por defecto si la celda está vacía
+      order: getVal('order') ?? '0',
+      level: getVal('level') ?? '1',
+      isAuditable: this.parseBoolean(getVal('isAuditable')),
+    }
+  }
 
-        // 3. EL TRUCO: Si es string vacío, devolvemos undefined
-        return trimmedVal === '' ? undefined : trimmedVal
+  private getColumnLetters(
+    columnMap: Map<string, number>,
+  ): Map<string, string> {
+    const columnLetters = new Map<string, string>()
+    columnMap.forEach((colNumber, field) => {
+      let letter = ''
+      let n = colNumber
+      while (n > 0) {
+        letter = String.fromCharCode(65 + ((n - 1) % 26)) + letter
+        n = Math.floor((n - 1) / 26)
       }
-      // Si la fila no tiene código, la ignoramos (fila vacía)
-      const code = getVal('code')
-      if (!code) return
-
-      rows.push({
-        code: code,
-        title: getVal('title') || '',
-        description: getVal('description'),
-        parentCode: getVal('parentCode'),
-        // Conversión segura de números
-        order: this.parseNumber(getVal('order'), 0),
-        level: this.parseNumber(getVal('level'), 1),
-        isAuditable: this.parseBoolean(getVal('isAuditable')),
-      })
+      columnLetters.set(field, letter)
     })
-
-    return rows
-  }
-
-  // Helper para números seguros
-  private parseNumber(val: string | undefined, fallback: number): number {
-    if (!val) return fallback
-    const num = Number(val)
-    return isNaN(num) ? fallback : num
+    return columnLetters
   }
 
-  private async validateRows(
+  /**
+   * Valida TODAS las filas y acumula los errores (no lanza excepciones):
+   * - Reglas del DTO (class-validator)
+   * - Orden y nivel numéricos
+   * - Códigos duplicados
+   * - Código padre inexistente (huérfanos)
+   * - Nivel inconsistente con el del padre
+   */
+  private async analyzeRows(
     rawRows: RawExcelRow[],
-  ): Promise<ImportStandardDto[]> {
-    const errors: string[] = []
+    columnLetters: Map<string, string>,
+  ): Promise<AnalyzedRows> {
+    const errors: ValidationError[] = []
+
+    const addError = (
+      row: number,
+      field: string,
+      value: unknown,
+      message: string,
+    ) => {
+      errors.push({
+        row,
+        field,
+        column: columnLetters.get(field) ?? null,
+        value,
+        message,
+      })
+    }
 
-    // Transformamos a DTO
-    const dtos = rawRows.map((row) => plainToInstance(ImportStandardDto, row))
+    // 1. Orden y nivel numéricos
+    rawRows.forEach((row) => {
+      if (!this.isNumeric(row.order)) {
+        addError(
+          row.rowNumber,
+          'order',
+          row.order,
+          `El orden debe ser numérico (valor: '${row.order}')`,
+        )
+      }
+      if (!this.isNumeric(row.level)) {
+        addError(
+          row.rowNumber,
+          'level',
+          row.level,
+          `El nivel debe ser numérico (valor: '${row.level}')`,
+        )
+      }
+    })
 
-    // Validamos en paralelo
-    const validationResults = await Promise.all(
-      dtos.map(async (dto, index) => {
-        const validationErrors = await validate(dto)
-        return validationErrors.length > 0
-          ? { row: index + 2, errs: validationErrors }
-          : null
+    // 2. Transformamos a DTO (los valores no numéricos ya fueron reportados)
+    const dtos = rawRows.map((row) =>
+      plainToInstance(ImportStandardDto, {
+        code: row.code,
+        title: row.title,
+        description: row.description,
+        parentCode: row.parentCode,
+        order: this.isNumeric(row.order) ? row.order : '0',
+        level: this.isNumeric(row.level) ? row.level : '1',
+        isAuditable: row.isAuditable,
       }),
     )
 
-    // Recolectamos errores formateados
-    validationResults.forEach((res) => {
-      if (res) {
-        const messages = res.errs
-          .map((e) => Object.values(e.constraints || {}).join(', '))
-          .join('; ')
-        errors.push(`Fila ${res.row}: ${messages}`)
+    // 3. Validamos en paralelo
+    const validationResults = await Promise.all(
+      dtos.map((dto) => validate(dto)),
+    )
+    validationResults.forEach((validationErrors, index) => {
+      validationErrors.forEach((e) => {
+        addError(
+          rawRows[index].rowNumber,
+          e.property,
+          e.value,
+          Object.values(e.constraints || {}).join(', '),
+        )
+      })
+    })
+
+    // 4. Códigos duplicados (se conserva la primera aparición)
+    const firstRowByCode = new Map<string, RawExcelRow>()
+    rawRows.forEach((row) => {
+      const first = firstRowByCode.get(row.code)
+      if (first) {
+        addError(
+          row.rowNumber,
+          'code',
+          row.code,
+          `Código duplicado: '${row.code}' ya está definido en la fila ${first.rowNumber}`,
+        )
+      } else {
+        firstRowByCode.set(row.code, row)
       }
     })
 
-    if (errors.length > 0) {
-      throw new BadRequestException({
-        message: 'El archivo contiene errores de validación',
-        errors: errors.slice(0, 20),
-        totalErrors: errors.length,
-      })
-    }
+    // 5. Padre inexistente y nivel inconsistente
+    rawRows.forEach((row) => {
+      const level = Number(row.level)
+      const parentCode = this.normalizeParentCode(row.parentCode)
+
+      if (!parentCode) {
+        if (this.isNumeric(row.level) && level !== 1) {
+          addError(
+            row.rowNumber,
+            'level',
+            row.level,
+            `Un standard sin padre debe tener nivel 1 (tiene ${level})`,
+          )
+        }
+        return
+      }
+
+      const parent = firstRowByCode.get(parentCode)
+      if (!parent) {
+        addError(
+          row.rowNumber,
+          'parentCode',
+          parentCode,
+          `El padre '${parentCode}' no existe (referenciado por '${row.code}')`,
+        )
+        return
+      }
+
+      if (
+        this.isNumeric(row.level) &&
+        this.isNumeric(parent.level) &&
+        level !== Number(parent.level) + 1
+      ) {
+        addError(
+          row.rowNumber,
+          'level',
+          row.level,
+          `El nivel debe ser ${Number(parent.level) + 1} (padre '${parentCode}' tiene nivel ${parent.level})`,
+        )
+      }
+    })
 
-    return dtos
+    errors.sort((a, b) => a.row - b.row)
+
+    return {
+      dtos,
+      rowNumbers: rawRows.map((row) => row.rowNumber),
+      errors,
+    }
   }
 
   /**
    * Construye el árbol usando Entidades reales de TypeORM
+   *
+   * Tolerante a errores (para el preview): ignora códigos duplicados
+   * y filas cuyo padre no existe; la validación ya los reportó
    */
   private buildHierarchy(dtos: ImportStandardDto[]): StandardEntity[] {
     const map = new Map<string, StandardEntity>()
     const roots: StandardEntity[] = []
-    const hierarchyErrors: string[] = []
 
     // Paso A: Crear Instancias (Sin relaciones)
     dtos.forEach((dto) => {
-      if (map.has(dto.code)) {
-        hierarchyErrors.push(`Código duplicado detectado: ${dto.code}`)
-        return
-      }
+      if (map.has(dto.code)) return
 
       const entity = new StandardEntity()
       entity.code = dto.code
@@ -200,50 +568,40 @@ export class TemplateImportService {
       map.set(dto.code, entity)
     })
 
-    if (hierarchyErrors.length > 0)
-      throw new BadRequestException({
-        message: 'Errores estructurales',
-        errors: hierarchyErrors,
-      })
-
     // Paso B: Enlazar (O(N))
+    const linked = new Set<StandardEntity>()
     dtos.forEach((dto) => {
-      const currentEntity = map.get(dto.code)! // Seguro porque acabamos de llenarlo
-      const parentCode = dto.parentCode
+      const currentEntity = map.get(dto.code)!
+      // Solo se enlaza la primera aparición de cada código
+      if (linked.has(currentEntity)) return
+      linked.add(currentEntity)
 
-      if (parentCode && parentCode !== '-') {
-        const parentEntity = map.get(parentCode)
+      const parentCode = this.normalizeParentCode(dto.parentCode)
 
-        if (!parentEntity) {
-          hierarchyErrors.push(
-            `El padre '${parentCode}' no existe (referenciado por '${dto.code}')`,
-          )
-        } else {
-          // TypeORM Cascade necesita que el padre tenga al hijo en 'children'
-          parentEntity.children.push(currentEntity)
-          // Opcional: Asignar también el padre para doble seguridad
-          // currentEntity.parent = parentEntity;
-        }
+      if (parentCode) {
+        // TypeORM Cascade necesita que el padre tenga al hijo en 'children'
+        map.get(parentCode)?.children.push(currentEntity)
       } else {
         roots.push(currentEntity)
       }
     })
 
-    if (hierarchyErrors.length > 0) {
-      throw new BadRequestException({
-        message: 'Errores de jerarquía',
-        errors: hierarchyErrors,
-      })
-    }
+    return roots
+  }
 
-    // Validación final de sanidad
-    if (roots.length === 0 && dtos.length > 0) {
-      throw new BadRequestException(
-        'Error Circular: No se encontraron nodos raíz.',
-      )
-    }
+  private normalizeParentCode(parentCode?: string): string | undefined {
+    return parentCode && parentCode !== '-' ? parentCode : undefined
+  }
 
-    return roots
+  private isNumeric(val: string): boolean {
+    return val.trim() !== '' && !isNaN(Number(val))
+  }
+
+  private formatError(error: ValidationError): string {
+    const location = error.column
+      ? `Fila ${error.row}, columna ${error.column}`
+      : `Fila ${error.row}`
+    return `${location}: ${error.message}`
   }
 
   private parseBoolean(val: any): boolean {
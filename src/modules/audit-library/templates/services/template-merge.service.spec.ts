@@ -0,0 +1,223 @@
+import { TemplateMergeService } from './template-merge.service'
+import { StandardEntity } from '../../standards/entities/standard.entity'
+import { TemplateEntity } from '../entities'
+
+describe('TemplateMergeService', () => {
+  let service: TemplateMergeService
+
+  const template = Object.assign(new TemplateEntity(), {
+    id: 'template-1',
+    name: 'ASFI',
+  })
+
+  const buildStandard = (
+    id: string,
+    parentId: string | null,
+    level: number,
+    order: number,
+    overrides: Partial<StandardEntity> = {},
+  ): StandardEntity =>
+    Object.assign(new StandardEntity(), {
+      id,
+      templateId: template.id,
+      parentId,
+      code: id.toUpperCase(),
+      title: `Standard ${id}`,
+      description: null,
+      level,
+      order,
+      isAuditable: true,
+      ...overrides,
+    })
+
+  /**
+   * Nodo importado desde el archivo (sin ID, con hijos)
+   */
+  const buildIncoming = (
+    code: string,
+    level: number,
+    order: number,
+    children: StandardEntity[] = [],
+    overrides: Partial<StandardEntity> = {},
+  ): StandardEntity =>
+    Object.assign(new StandardEntity(), {
+      code,
+      title: `Standard ${code.toLowerCase()}`,
+      description: null,
+      level,
+      order,
+      isAuditable: true,
+      children,
+      ...overrides,
+    })
+
+  // a.1
+  //   a.1.1
+  //     a.1.1.1
+  //   a.1.2
+  // a.2
+  const existing = () => [
+    buildStandard('a.1', null, 1, 1),
+    buildStandard('a.1.1', 'a.1', 2, 1),
+    buildStandard('a.1.1.1', 'a.1.1', 3, 1),
+    buildStandard('a.1.2', 'a.1', 2, 2),
+    buildStandard('a.2', null, 1, 2),
+  ]
+
+  beforeEach(() => {
+    service = new TemplateMergeService()
+  })
+
+  it('should report nothing when the file matches the template', () => {
+    // Arrange
+    const incoming = [
+      buildIncoming('A.1', 1, 1, [
+        buildIncoming('A.1.1', 2, 1, [buildIncoming('A.1.1.1', 3, 1)]),
+        buildIncoming('A.1.2', 2, 2),
+      ]),
+      buildIncoming('A.2', 1, 2),
+    ]
+
+    // Act
+    const plan = service.plan(template, existing(), [], incoming, {
+      removeMissing: false,
+    })
+
+    // Assert
+    expect(plan.standards).toHaveLength(0)
+    expect(plan.report.summary).toEqual({
+      created: 0,
+      restored: 0,
+      updated: 0,
+      moved: 0,
+      removed: 0,
+      missing: 0,
+      unchanged: 5,
+    })
+  })
+
+  it('should update content, insert new codes and re-parent moved ones', () => {
+    // Arrange: A.1.1 pasa bajo A.2 (con su hijo) y se agrega A.2.2
+    const standards = existing()
+    const incoming = [
+      buildIncoming('A.1', 1, 1, [
+        buildIncoming('A.1.2', 2, 1, [], { title: 'Nuevo título' }),
+      ]),
+      buildIncoming('A.2', 1, 2, [
+        buildIncoming('A.1.1', 2, 1, [buildIncoming('A.1.1.1', 3, 1)]),
+        buildIncoming('A.2.2', 2, 2, [], { description: 'Nuevo' }),
+      ]),
+    ]
+
+    // Act
+    const plan = service.plan(template, standards, [], incoming, {
+      removeMissing: false,
+    })
+
+    // Assert
+    expect(plan.report.created).toEqual(['A.2.2'])
+    expect(plan.report.updated).toEqual([
+      { code: 'A.1.2', fields: ['title', 'order'] },
+    ])
+    expect(plan.report.moved).toEqual([
+      { code: 'A.1.1', fromParentCode: 'A.1', toParentCode: 'A.2' },
+    ])
+
+    const moved = standards.find((s) => s.code === 'A.1.1')!
+    expect(moved.parentId).toBe('a.2')
+    const created = plan.standards.find((s) => s.code === 'A.2.2')!
+    expect(created.templateId).toBe(template.id)
+    expect(created.parent).toBe(standards.find((s) => s.code === 'A.2'))
+    expect(plan.standards.map((s) => s.level)).toEqual([2, 2, 2])
+  })
+
+  it('should relevel the subtree of a moved standard', () => {
+    // Arrange: A.1.1 pasa a ser raíz
+    const standards = existing()
+    const incoming = [
+      buildIncoming('A.1', 1, 1, [buildIncoming('A.1.2', 2, 2)]),
+      buildIncoming('A.2', 1, 2),
+      buildIncoming('A.1.1', 1, 3, [buildIncoming('A.1.1.1', 2, 1)]),
+    ]
+
+    // Act
+    const plan = service.plan(template, standards, [], incoming, {
+      removeMissing: false,
+    })
+
+    // Assert
+    expect(plan.report.moved).toEqual([
+      { code: 'A.1.1', fromParentCode: 'A.1', toParentCode: null },
+    ])
+    expect(plan.standards.map((s) => [s.code, s.level, s.parentId])).toEqual([
+      ['A.1.1', 1, null],
+      ['A.1.1.1', 2, 'a.1.1'],
+    ])
+  })
+
+  it('should keep missing standards and fix their level by default', () => {
+    // Arrange: el archivo no trae A.1.1.1 y su padre sube a raíz
+    const standards = existing()
+    const incoming = [
+      buildIncoming('A.1', 1, 1, [buildIncoming('A.1.2', 2, 2)]),
+      buildIncoming('A.1.1', 1, 2),
+      buildIncoming('A.2', 1, 3),
+    ]
+
+    // Act
+    const plan = service.plan(template, standards, [], incoming, {
+      removeMissing: false,
+    })
+
+    // Assert
+    expect(plan.report.missing).toEqual(['A.1.1.1'])
+    expect(plan.removedIds).toEqual([])
+    expect(standards.find((s) => s.code === 'A.1.1.1')!.level).toBe(2)
+  })
+
+  it('should remove missing standards when requested', () => {
+    // Arrange
+    const incoming = [buildIncoming('A.1', 1, 1), buildIncoming('A.2', 1, 2)]
+
+    // Act
+    const plan = service.plan(template, existing(), [], incoming, {
+      removeMissing: true,
+    })
+
+    // Assert
+    expect(plan.report.removed).toEqual(['A.1.1', 'A.1.1.1', 'A.1.2'])
+    expect(plan.removedIds).toEqual(['a.1.1', 'a.1.1.1', 'a.1.2'])
+    expect(plan.report.summary.unchanged).toBe(2)
+  })
+
+  it('should restore soft-deleted standards instead of inserting duplicates', () => {
+    // Arrange
+    const deleted = [
+      buildStandard('a.3', null, 1, 3, {
+        title: 'Viejo',
+        deletedAt: new Date('2026-01-01'),
+      }),
+    ]
+    const incoming = [
+      buildIncoming('A.1', 1, 1, [
+        buildIncoming('A.1.1', 2, 1, [buildIncoming('A.1.1.1', 3, 1)]),
+        buildIncoming('A.1.2', 2, 2),
+      ]),
+      buildIncoming('A.2', 1, 2),
+      buildIncoming('A.3', 1, 3),
+    ]
+
+    // Act
+    const plan = service.plan(template, existing(), deleted, incoming, {
+      removeMissing: false,
+    })
+
+    // Assert
+    expect(plan.report.restored).toEqual(['A.3'])
+    expect(plan.report.created).toEqual([])
+    expect(plan.restoredIds).toEqual(['a.3'])
+    expect(plan.standards).toEqual([deleted[0]])
+    expect(deleted[0].title).toBe('Standard a.3')
+    expect(deleted[0].deletedAt).toBeNull()
+  })
+})
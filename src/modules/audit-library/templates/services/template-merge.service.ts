@@ -0,0 +1,209 @@
+import { Injectable } from '@nestjs/common'
+import { StandardEntity } from '../../standards/entities'
+import type { TemplateEntity } from '../entities'
+import type {
+  TemplateMergeField,
+  TemplateMergeOptions,
+  TemplateMergePlan,
+  TemplateMergeReport,
+} from '../interfaces'
+
+/**
+ * Template Merge Service
+ *
+ * Sincroniza (en memoria) los standards de una plantilla DRAFT con el árbol
+ * importado desde un archivo, emparejando por código:
+ * - Códigos nuevos se insertan
+ * - Códigos existentes actualizan título, descripción, orden y auditable
+ * - Si cambia el código padre, el standard se mueve (con su nivel)
+ * - Los que no vienen en el archivo se conservan o se eliminan (removeMissing)
+ */
+@Injectable()
+export class TemplateMergeService {
+  /**
+   * Calcula los cambios sin persistir nada
+   *
+   * @param template - Plantilla destino
+   * @param existing - Standards activos de la plantilla (planos)
+   * @param deleted - Standards eliminados (soft-delete) de la plantilla
+   * @param incoming - Árbol importado y validado desde el archivo
+   * @param options - Opciones de sincronización
+   * @returns Standards a guardar, IDs a recuperar / eliminar y el reporte
+   */
+  plan(
+    template: TemplateEntity,
+    existing: StandardEntity[],
+    deleted: StandardEntity[],
+    incoming: StandardEntity[],
+    options: TemplateMergeOptions,
+  ): TemplateMergePlan {
+    const report: TemplateMergeReport = {
+      templateId: template.id,
+      removeMissing: options.removeMissing,
+      summary: {
+        created: 0,
+        restored: 0,
+        updated: 0,
+        moved: 0,
+        removed: 0,
+        missing: 0,
+        unchanged: 0,
+      },
+      created: [],
+      restored: [],
+      updated: [],
+      moved: [],
+      removed: [],
+      missing: [],
+    }
+
+    const existingByCode = new Map(existing.map((s) => [s.code, s]))
+    const deletedByCode = new Map(deleted.map((s) => [s.code, s]))
+    const codeById = new Map(existing.map((s) => [s.id, s.code]))
+
+    const changed = new Set<StandardEntity>()
+    const resolved = new Map<string, StandardEntity>()
+    const restoredIds: string[] = []
+
+    // 1. Recorrer el archivo (pre-orden: el padre siempre se resuelve antes)
+    const visit = (nodes: StandardEntity[], parent: StandardEntity | null) => {
+      nodes.forEach((node) => {
+        const current = existingByCode.get(node.code)
+        const revived = current ? undefined : deletedByCode.get(node.code)
+        const target = current ?? revived ?? new StandardEntity()
+        const parentCode = parent?.code ?? null
+
+        if (current) {
+          const fields = this.detectChangedFields(current, node)
+          const previousParentCode = current.parentId
+            ? (codeById.get(current.parentId) ?? null)
+            : null
+
+          if (fields.length > 0) {
+            report.updated.push({ code: node.code, fields })
+          }
+          if (previousParentCode !== parentCode) {
+            report.moved.push({
+              code: node.code,
+              fromParentCode: previousParentCode,
+              toParentCode: parentCode,
+            })
+          }
+          if (
+            fields.length > 0 ||
+            previousParentCode !== parentCode ||
+            current.level !== node.level
+          ) {
+            changed.add(current)
+          } else {
+            report.summary.unchanged++
+          }
+        } else {
+          if (revived) {
+            // Es la misma entidad eliminada: al guardarla no debe volver a
+            // escribir su deletedAt
+            revived.deletedAt = null
+            report.restored.push(node.code)
+            restoredIds.push(revived.id)
+          } else {
+            report.created.push(node.code)
+          }
+          target.templateId = template.id
+          target.code = node.code
+          changed.add(target)
+        }
+
+        target.title = node.title
+        target.description = node.description
+        target.order = node.order
+        target.level = node.level
+        target.isAuditable = node.isAuditable
+        target.parent = parent
+        target.parentId = parent?.id ?? null
+        resolved.set(node.code, target)
+
+        visit(node.children ?? [], target)
+      })
+    }
+    visit(incoming, null)
+
+    // 2. Standards que no vienen en el archivo
+    const missing = existing.filter((s) => !resolved.has(s.code))
+    const removedIds: string[] = []
+
+    if (options.removeMissing) {
+      missing.forEach((standard) => {
+        report.removed.push(standard.code)
+        removedIds.push(standard.id)
+      })
+    } else {
+      report.missing.push(...missing.map((s) => s.code))
+      this.relevelMissing(missing, existing, resolved, changed)
+    }
+
+    report.summary.created = report.created.length
+    report.summary.restored = report.restored.length
+    report.summary.updated = report.updated.length
+    report.summary.moved = report.moved.length
+    report.summary.removed = report.removed.length
+    report.summary.missing = report.missing.length
+
+    return {
+      report,
+      standards: [...changed].sort((a, b) => a.level - b.level),
+      restoredIds,
+      removedIds,
+    }
+  }
+
+  private detectChangedFields(
+    current: StandardEntity,
+    incoming: StandardEntity,
+  ): TemplateMergeField[] {
+    const fields: TemplateMergeField[] = []
+
+    if (current.title !== incoming.title) fields.push('title')
+    if ((current.description ?? null) !== (incoming.description ?? null)) {
+      fields.push('description')
+    }
+    if (current.order !== incoming.order) fields.push('order')
+    if (current.isAuditable !== incoming.isAuditable) {
+      fields.push('isAuditable')
+    }
+
+    return fields
+  }
+
+  /**
+   * Recalcula el nivel de los standards conservados que no vienen en el
+   * archivo (su padre pudo haberse movido a otro nivel)
+   */
+  private relevelMissing(
+    missing: StandardEntity[],
+    existing: StandardEntity[],
+    resolved: Map<string, StandardEntity>,
+    changed: Set<StandardEntity>,
+  ): void {
+    const byId = new Map(existing.map((s) => [s.id, s]))
+    const levels = new Map<StandardEntity, number>()
+
+    const resolveLevel = (standard: StandardEntity): number => {
+      if (resolved.get(standard.code) === standard) return standard.level
+      const known = levels.get(standard)
+      if (known !== undefined) return known
+
+      const parent = standard.parentId ? byId.get(standard.parentId) : null
+      const level = parent ? resolveLevel(parent) + 1 : 1
+      levels.set(standard, level)
+      return level
+    }
+
+    missing.forEach((standard) => {
+      const level = resolveLevel(standard)
+      if (standard.level !== level) {
+        standard.level = level
+        changed.add(standard)
+      }
+    })
+  }
+}
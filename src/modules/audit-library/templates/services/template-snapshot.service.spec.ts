@@ -0,0 +1,156 @@
+import { TemplateSnapshotService } from './template-snapshot.service'
+import { StandardEntity } from '../../standards/entities/standard.entity'
+import { TemplateEntity } from '../entities'
+import { TemplateStatus } from '../constants'
+import { TemplateNotFoundAtDateException } from '../exceptions'
+import {
+  AuditLogEntity,
+  AuditAction,
+  AuditChange,
+} from '../../audit-log/entities'
+
+describe('TemplateSnapshotService', () => {
+  let service: TemplateSnapshotService
+
+  const at = new Date('2026-03-01T00:00:00Z')
+
+  const buildTemplate = () =>
+    Object.assign(new TemplateEntity(), {
+      id: 'template-1',
+      name: 'ASFI',
+      version: '2.0',
+      status: TemplateStatus.PUBLISHED,
+    })
+
+  const buildStandard = (
+    id: string,
+    parentId: string | null,
+    level: number,
+    order: number,
+    title: string,
+  ): StandardEntity =>
+    Object.assign(new StandardEntity(), {
+      id,
+      templateId: 'template-1',
+      parentId,
+      code: id.toUpperCase(),
+      title,
+      level,
+      order,
+      isAuditable: true,
+    })
+
+  const buildLog = (
+    entity: string,
+    entityId: string,
+    action: AuditAction,
+    changes: AuditChange[] | null,
+  ): AuditLogEntity =>
+    Object.assign(new AuditLogEntity(), {
+      entity,
+      entityId,
+      rootId: 'template-1',
+      action,
+      changes,
+    })
+
+  beforeEach(() => {
+    service = new TemplateSnapshotService()
+  })
+
+  it('should undo later edits to rebuild the wording in force', () => {
+    // Arrange: logs del más reciente al más antiguo
+    const template = buildTemplate()
+    const standards = [
+      buildStandard('a.1', null, 1, 1, 'Política de claves v3'),
+      buildStandard('a.1.1', 'a.1', 2, 1, 'Rotación'),
+    ]
+    const logs = [
+      buildLog('Standard', 'a.1', AuditAction.UPDATE, [
+        {
+          field: 'title',
+          oldValue: 'Política de claves v2',
+          newValue: 'Política de claves v3',
+        },
+      ]),
+      buildLog('Standard', 'a.1', AuditAction.UPDATE, [
+        {
+          field: 'title',
+          oldValue: 'Política de claves',
+          newValue: 'Política de claves v2',
+        },
+      ]),
+      buildLog('Template', 'template-1', AuditAction.PUBLISH, [
+        {
+          field: 'status',
+          oldValue: TemplateStatus.DRAFT,
+          newValue: TemplateStatus.PUBLISHED,
+        },
+      ]),
+    ]
+
+    // Act
+    const snapshot = service.rebuild(template, standards, [], logs, at)
+
+    // Assert
+    expect(snapshot.template.status).toBe(TemplateStatus.DRAFT)
+    expect(snapshot.standards.map((s) => s.title)).toEqual([
+      'Política de claves',
+      'Rotación',
+    ])
+    expect(standards[0].title).toBe('Política de claves v3')
+    expect(template.status).toBe(TemplateStatus.PUBLISHED)
+  })
+
+  it('should drop standards created later and bring back removed ones', () => {
+    // Arrange: a.2 se creó después; a.3 se archivó y a.4 se eliminó después
+    const standards = [
+      buildStandard('a.1', null, 1, 1, 'Uno'),
+      buildStandard('a.2', null, 1, 2, 'Dos'),
+    ]
+    const deleted = [buildStandard('a.3', null, 1, 3, 'Tres')]
+    const logs = [
+      buildLog('Standard', 'a.4', AuditAction.DELETE, [
+        { field: 'code', oldValue: 'A.4', newValue: null },
+        { field: 'title', oldValue: 'Cuatro', newValue: null },
+        { field: 'parentId', oldValue: 'a.1', newValue: null },
+        { field: 'level', oldValue: 2, newValue: null },
+        { field: 'order', oldValue: 1, newValue: null },
+      ]),
+      buildLog('Standard', 'a.3', AuditAction.ARCHIVE, null),
+      buildLog('Standard', 'a.2', AuditAction.CREATE, [
+        { field: 'title', oldValue: null, newValue: 'Dos' },
+      ]),
+    ]
+
+    // Act
+    const snapshot = service.rebuild(
+      buildTemplate(),
+      standards,
+      deleted,
+      logs,
+      at,
+    )
+    const tree = service.buildTree(snapshot.standards)
+
+    // Assert
+    expect(tree.map((s) => s.code)).toEqual(['A.1', 'A.3'])
+    expect(tree[0].children.map((s) => [s.code, s.title])).toEqual([
+      ['A.4', 'Cuatro'],
+    ])
+  })
+
+  it('should reject a date before the template was created', () => {
+    // Arrange
+    const logs = [
+      buildLog('Template', 'template-1', AuditAction.CREATE, [
+        { field: 'name', oldValue: null, newValue: 'ASFI' },
+      ]),
+    ]
+
+    // Act & Assert
+    expect(() => service.rebuild(buildTemplate(), [], [], logs, at)).toThrow(
+      TemplateNotFoundAtDateException,
+    )
+  })
+})
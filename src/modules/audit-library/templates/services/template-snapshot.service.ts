@@ -0,0 +1,158 @@
+import { Injectable } from '@nestjs/common'
+import { AUDIT_REDACTED_VALUE } from '@core/database/auditable.decorator'
+import { StandardEntity } from '../../standards/entities/standard.entity'
+import { TemplateEntity } from '../entities'
+import { TemplateNotFoundAtDateException } from '../exceptions'
+import { AuditAction } from '../../audit-log/entities'
+import type { AuditChange, AuditLogEntity } from '../../audit-log/entities'
+
+/**
+ * Estado de un registro durante la reconstrucción
+ */
+interface SnapshotNode<T> {
+  entity: T
+  exists: boolean
+}
+
+/**
+ * Template Snapshot Service
+ *
+ * Reconstruye una plantilla y sus standards tal como estaban en una fecha,
+ * deshaciendo (del más reciente al más antiguo) los cambios del historial
+ * de auditoría posteriores a esa fecha (sin acceso a datos)
+ */
+@Injectable()
+export class TemplateSnapshotService {
+  /**
+   * @param template - Estado actual de la plantilla
+   * @param existing - Standards actuales
+   * @param deleted - Standards eliminados (soft-delete) de la plantilla
+   * @param logs - Logs del rootId posteriores a la fecha, del más reciente al más antiguo
+   * @param at - Fecha a reconstruir
+   * @returns Plantilla y standards (planos) vigentes en la fecha
+   * @throws {TemplateNotFoundAtDateException} Si la plantilla se creó después de la fecha
+   */
+  rebuild(
+    template: TemplateEntity,
+    existing: StandardEntity[],
+    deleted: StandardEntity[],
+    logs: AuditLogEntity[],
+    at: Date,
+  ): { template: TemplateEntity; standards: StandardEntity[] } {
+    // 1. Partir del estado actual (copias: no se modifican las entidades)
+    const root: SnapshotNode<TemplateEntity> = {
+      entity: Object.assign(new TemplateEntity(), template),
+      exists: true,
+    }
+    const standards = new Map<string, SnapshotNode<StandardEntity>>()
+    existing.forEach((s) =>
+      standards.set(s.id, { entity: this.copyStandard(s), exists: true }),
+    )
+    deleted.forEach((s) =>
+      standards.set(s.id, { entity: this.copyStandard(s), exists: false }),
+    )
+
+    // 2. Deshacer cada cambio, del más reciente al más antiguo
+    for (const log of logs) {
+      const node: SnapshotNode<object> | null =
+        log.entity === 'Template' && log.entityId === template.id
+          ? root
+          : this.resolveStandard(standards, log, template.id)
+      if (node) this.undo(node, log)
+    }
+
+    if (!root.exists) {
+      throw new TemplateNotFoundAtDateException(template.name, at)
+    }
+
+    // 3. Solo los standards que existían en la fecha
+    const alive = [...standards.values()]
+      .filter((node) => node.exists)
+      .map((node) => node.entity)
+
+    return { template: root.entity, standards: alive }
+  }
+
+  /**
+   * Arma el árbol (raíces con children) a partir de la lista plana
+   */
+  buildTree(standards: StandardEntity[]): StandardEntity[] {
+    const sorted = [...standards].sort(
+      (a, b) => a.level - b.level || a.order - b.order,
+    )
+    const byId = new Map(sorted.map((s) => [s.id, s]))
+    const roots: StandardEntity[] = []
+
+    sorted.forEach((standard) => {
+      standard.children = []
+    })
+    sorted.forEach((standard) => {
+      const parent = standard.parentId ? byId.get(standard.parentId) : null
+      if (parent) {
+        parent.children.push(standard)
+      } else {
+        roots.push(standard)
+      }
+    })
+    return roots
+  }
+
+  /**
+   * Standard afectado por el log. Un hard delete (tombstone) de un standard
+   * que ya no está en la base de datos lo vuelve a crear.
+   */
+  private resolveStandard(
+    standards: Map<string, SnapshotNode<StandardEntity>>,
+    log: AuditLogEntity,
+    templateId: string,
+  ): SnapshotNode<StandardEntity> | null {
+    if (log.entity !== 'Standard') return null
+
+    let node = standards.get(log.entityId)
+    if (!node && log.action === AuditAction.DELETE) {
+      node = {
+        entity: Object.assign(new StandardEntity(), {
+          id: log.entityId,
+          templateId,
+        }),
+        exists: false,
+      }
+      standards.set(log.entityId, node)
+    }
+    return node ?? null
+  }
+
+  /**
+   * Deshace un log: restaura los valores anteriores y, según la acción,
+   * si el registro existía antes de ese cambio
+   */
+  private undo<T extends object>(node: SnapshotNode<T>, log: AuditLogEntity) {
+    switch (log.action) {
+      case AuditAction.CREATE:
+        node.exists = false
+        return
+      case AuditAction.DELETE:
+        node.exists = true
+        break
+      case AuditAction.RESTORE:
+        node.exists = false
+        return
+      case AuditAction.ARCHIVE:
+        // Sin cambios = soft-delete; con cambios = transición de estado
+        if (!log.changes) node.exists = true
+        break
+    }
+    this.revert(node.entity, log.changes ?? [])
+  }
+
+  private revert<T extends object>(entity: T, changes: AuditChange[]): void {
+    changes.forEach(({ field, oldValue }) => {
+      if (field === 'id' || oldValue === AUDIT_REDACTED_VALUE) return
+      ;(entity as Record<string, unknown>)[field] = oldValue
+    })
+  }
+
+  private copyStandard(standard: StandardEntity): StandardEntity {
+    return Object.assign(new StandardEntity(), standard, { children: [] })
+  }
+}
@@ -0,0 +1,65 @@
+import { TemplateVersioningService } from './template-versioning.service'
+import { StandardEntity } from '../../standards/entities/standard.entity'
+
+describe('TemplateVersioningService', () => {
+  let service: TemplateVersioningService
+
+  const buildStandard = (
+    id: string,
+    parentId: string | null,
+    level: number,
+    order: number,
+  ): StandardEntity =>
+    Object.assign(new StandardEntity(), {
+      id,
+      templateId: 'template-1',
+      parentId,
+      code: id.toUpperCase(),
+      title: `Standard ${id}`,
+      description: null,
+      level,
+      order,
+      isAuditable: level > 1,
+    })
+
+  beforeEach(() => {
+    service = new TemplateVersioningService()
+  })
+
+  describe('cloneStandardsTree', () => {
+    it('should copy the hierarchy keeping codes and order', () => {
+      // Arrange
+      const standards = [
+        buildStandard('a', null, 1, 1),
+        buildStandard('a1', 'a', 2, 1),
+        buildStandard('a2', 'a', 2, 2),
+        buildStandard('b', null, 1, 2),
+      ]
+
+      // Act
+      const roots = service.cloneStandardsTree(standards)
+
+      // Assert
+      expect(roots.map((s) => s.code)).toEqual(['A', 'B'])
+      expect(roots[0].children.map((s) => [s.code, s.order])).toEqual([
+        ['A1', 1],
+        ['A2', 2],
+      ])
+      expect(roots[0].children[0].isAuditable).toBe(true)
+      expect(roots[1].children).toEqual([])
+    })
+
+    it('should not reuse source identifiers', () => {
+      // Arrange
+      const standards = [buildStandard('a', null, 1, 1)]
+
+      // Act
+      const [root] = service.cloneStandardsTree(standards)
+
+      // Assert
+      expect(root).not.toBe(standards[0])
+      expect(root.id).toBeUndefined()
+      expect(root.templateId).toBeUndefined()
+    })
+  })
+})
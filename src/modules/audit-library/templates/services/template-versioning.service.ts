@@ -0,0 +1,52 @@
+import { Injectable } from '@nestjs/common'
+import { StandardEntity } from '../../standards/entities/standard.entity'
+
+/**
+ * Template Versioning Service
+ *
+ * Copia profunda del árbol de standards de una plantilla para derivar
+ * una nueva versión. Los IDs se regeneran al guardar; la jerarquía se
+ * reconstruye mediante 'children' (mismo enfoque que la importación).
+ */
+@Injectable()
+export class TemplateVersioningService {
+  /**
+   * Clona los standards planos de una plantilla en un árbol nuevo
+   *
+   * @param standards - Standards de la plantilla de origen (planos)
+   * @returns Raíces del árbol clonado (sin IDs ni templateId)
+   */
+  cloneStandardsTree(standards: StandardEntity[]): StandardEntity[] {
+    const copies = new Map<string, StandardEntity>()
+    const roots: StandardEntity[] = []
+
+    // Paso A: Copiar cada standard (conserva código, orden, nivel)
+    standards.forEach((standard) => {
+      const copy = new StandardEntity()
+      copy.code = standard.code
+      copy.title = standard.title
+      copy.description = standard.description
+      copy.order = standard.order
+      copy.level = standard.level
+      copy.isAuditable = standard.isAuditable
+      copy.children = []
+      copies.set(standard.id, copy)
+    })
+
+    // Paso B: Reenlazar con la copia del padre (remapeo de parentId)
+    standards.forEach((standard) => {
+      const copy = copies.get(standard.id)!
+      const parentCopy = standard.parentId
+        ? copies.get(standard.parentId)
+        : undefined
+
+      if (parentCopy) {
+        parentCopy.children.push(copy)
+      } else {
+        roots.push(copy)
+      }
+    })
+
+    return roots
+  }
+}
@@ -10,6 +10,16 @@ import {
   ArchiveTemplateUseCase,
   ExportTemplateUseCase,
   ImportTemplateUseCase,
+  CreateTemplateVersionUseCase,
+  GetTemplateVersionHistoryUseCase,
+  CompareTemplatesUseCase,
+  ExportTemplateDiffUseCase,
+  PreviewImportTemplateUseCase,
+  AnnotateImportFileUseCase,
+  ImportTemplateDocumentUseCase,
+  UpdateTemplateFromFileUseCase,
+  GetTemplateAsOfUseCase,
+  ExportTemplateAsOfUseCase,
 } from './use-cases'
 
 import { TemplatesController } from './controllers/templates.controller'
@@ -19,11 +29,17 @@ import {
   TemplateExportService,
   TemplateImportService,
   TemplateExampleService,
+  TemplateVersioningService,
+  TemplateDiffService,
+  TemplateFormatService,
+  TemplateMergeService,
+  TemplateSnapshotService,
 } from './services'
 import { TEMPLATES_REPOSITORY } from './tokens'
+import { AuditLogModule } from '../audit-log/audit-log.module'
 
 @Module({
-  imports: [],
+  imports: [AuditLogModule],
   controllers: [TemplatesController],
   providers: [
     {
@@ -36,6 +52,11 @@ import { TEMPLATES_REPOSITORY } from './tokens'
     TemplateExportService,
     TemplateImportService,
     TemplateExampleService,
+    TemplateVersioningService,
+    TemplateDiffService,
+    TemplateFormatService,
+    TemplateMergeService,
+    TemplateSnapshotService,
 
     // Template Use Cases
     CreateTemplateUseCase,
@@ -46,6 +67,16 @@ import { TEMPLATES_REPOSITORY } from './tokens'
     ArchiveTemplateUseCase,
     ExportTemplateUseCase,
     ImportTemplateUseCase,
+    CreateTemplateVersionUseCase,
+    GetTemplateVersionHistoryUseCase,
+    CompareTemplatesUseCase,
+    ExportTemplateDiffUseCase,
+    PreviewImportTemplateUseCase,
+    AnnotateImportFileUseCase,
+    ImportTemplateDocumentUseCase,
+    UpdateTemplateFromFileUseCase,
+    GetTemplateAsOfUseCase,
+    ExportTemplateAsOfUseCase,
   ],
   exports: [
     // Export use cases for other modules
@@ -0,0 +1,22 @@
+import { Injectable } from '@nestjs/common'
+import { TemplateImportService } from '../../services'
+
+/**
+ * Annotate Import File Use Case
+ *
+ * Retorna una copia del Excel subido con las celdas erróneas resaltadas
+ * para que el autor de la plantilla pueda corregirlas. No persiste nada.
+ */
+@Injectable()
+export class AnnotateImportFileUseCase {
+  constructor(private readonly templateImportService: TemplateImportService) {}
+
+  /**
+   * @param fileBuffer - Buffer del archivo Excel original
+   * @returns Buffer del Excel anotado
+   * @throws {BadRequestException} Si el archivo no es un Excel válido o faltan columnas obligatorias
+   */
+  async execute(fileBuffer: Buffer): Promise<Buffer> {
+    return await this.templateImportService.annotateWorkbook(fileBuffer)
+  }
+}
@@ -0,0 +1,49 @@
+import { Inject, Injectable } from '@nestjs/common'
+import { TemplateValidator } from '../../validators'
+import { TemplateDiffService } from '../../services'
+import type { TemplateDiffResult } from '../../interfaces'
+import { STANDARDS_REPOSITORY } from '../../../standards/tokens'
+import type { IStandardsRepository } from '../../../standards/repositories'
+
+/**
+ * Compare Templates Use Case
+ *
+ * Compara dos versiones de una plantilla standard por standard (por código):
+ * agregados, eliminados, movidos, reordenados, con título modificado y
+ * cambios en el indicador de auditable
+ */
+@Injectable()
+export class CompareTemplatesUseCase {
+  constructor(
+    @Inject(STANDARDS_REPOSITORY)
+    private readonly standardsRepository: IStandardsRepository,
+    private readonly templateValidator: TemplateValidator,
+    private readonly templateDiffService: TemplateDiffService,
+  ) {}
+
+  /**
+   * @param baseId - ID de la versión base (anterior)
+   * @param targetId - ID de la versión destino (nueva)
+   * @returns Diferencias estructurales entre ambas versiones
+   * @throws {TemplateNotFoundException} Si alguna de las plantillas no existe
+   */
+  async execute(baseId: string, targetId: string): Promise<TemplateDiffResult> {
+    // 1. Validar ambas versiones
+    const base = await this.templateValidator.validateAndGetTemplate(baseId)
+    const target = await this.templateValidator.validateAndGetTemplate(targetId)
+
+    // 2. Obtener standards planos de cada versión
+    const baseStandards = await this.standardsRepository.findByTemplate(base.id)
+    const targetStandards = await this.standardsRepository.findByTemplate(
+      target.id,
+    )
+
+    // 3. Comparar
+    return this.templateDiffService.compare(
+      base,
+      baseStandards,
+      target,
+      targetStandards,
+    )
+  }
+}
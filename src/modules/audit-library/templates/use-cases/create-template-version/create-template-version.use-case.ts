@@ -0,0 +1,80 @@
+import { Inject, Injectable } from '@nestjs/common'
+import { Transactional } from '@core/database/transactional.decorator'
+import type { TemplateEntity } from '../../entities'
+import type { ITemplatesRepository } from '../../repositories'
+import { TEMPLATES_REPOSITORY } from '../../tokens'
+import { CreateTemplateVersionDto } from '../../dtos'
+import { TemplateValidator } from '../../validators'
+import { TemplateFactory } from '../../factories'
+import {
+  TemplateImportService,
+  TemplateVersioningService,
+} from '../../services'
+import { TemplateNotVersionableException } from '../../exceptions'
+import { STANDARDS_REPOSITORY } from '../../../standards/tokens'
+import type { IStandardsRepository } from '../../../standards/repositories'
+
+/**
+ * Create Template Version Use Case
+ *
+ * Deriva una nueva versión DRAFT de una plantilla publicada, copiando
+ * toda su jerarquía de standards y registrando el linaje
+ */
+@Injectable()
+export class CreateTemplateVersionUseCase {
+  constructor(
+    @Inject(TEMPLATES_REPOSITORY)
+    private readonly templatesRepository: ITemplatesRepository,
+    @Inject(STANDARDS_REPOSITORY)
+    private readonly standardsRepository: IStandardsRepository,
+    private readonly templateValidator: TemplateValidator,
+    private readonly templateFactory: TemplateFactory,
+    private readonly templateVersioningService: TemplateVersioningService,
+    private readonly templateImportService: TemplateImportService,
+  ) {}
+
+  /**
+   * Ejecuta la creación de la nueva versión
+   *
+   * @param id - ID de la plantilla de origen
+   * @param dto - Datos de la nueva versión
+   * @returns Nueva plantilla en DRAFT con sus standards
+   * @throws {TemplateNotFoundException} Si la plantilla de origen no existe
+   * @throws {TemplateNotVersionableException} Si la plantilla de origen no está publicada
+   * @throws {TemplateAlreadyExistsException} Si la versión ya existe para ese código
+   */
+  @Transactional()
+  async execute(
+    id: string,
+    dto: CreateTemplateVersionDto,
+  ): Promise<TemplateEntity> {
+    // 1. Validar plantilla de origen
+    const source = await this.templateValidator.validateAndGetTemplate(id)
+
+    if (!source.canCreateNewVersion) {
+      throw new TemplateNotVersionableException(source.name, source.status)
+    }
+
+    await this.templateValidator.validateUniqueConstraint(
+      source.code,
+      dto.version.trim(),
+    )
+
+    // 2. Clonar el árbol de standards
+    const standards = await this.standardsRepository.findByTemplate(source.id)
+    const rootStandards =
+      this.templateVersioningService.cloneStandardsTree(standards)
+
+    // 3. Guardar la nueva versión primero para obtener el ID
+    const template = this.templateFactory.createNewVersion(source, dto)
+    const savedTemplate = await this.templatesRepository.save(template)
+
+    // 4. Vincular el árbol y guardar en cascada
+    this.templateImportService.assignTemplateToTree(
+      rootStandards,
+      savedTemplate,
+    )
+    savedTemplate.standards = rootStandards
+    return await this.templatesRepository.save(savedTemplate)
+  }
+}
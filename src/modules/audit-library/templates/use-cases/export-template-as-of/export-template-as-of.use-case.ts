@@ -0,0 +1,48 @@
+import { Injectable } from '@nestjs/common'
+import type { StandardEntity } from '../../../standards/entities'
+import { TemplateExportService } from '../../services'
+import { GetTemplateAsOfUseCase } from '../get-template-as-of/get-template-as-of.use-case'
+
+/**
+ * Export Template As Of Use Case
+ *
+ * Genera el Excel de una plantilla tal como estaba en una fecha
+ * (mismo formato que la exportación normal)
+ */
+@Injectable()
+export class ExportTemplateAsOfUseCase {
+  constructor(
+    private readonly getTemplateAsOfUseCase: GetTemplateAsOfUseCase,
+    private readonly templateExportService: TemplateExportService,
+  ) {}
+
+  /**
+   * @param id - ID de la plantilla
+   * @param at - Fecha a reconstruir
+   * @returns Buffer del archivo Excel y nombre sugerido
+   * @throws {TemplateNotFoundException} Si la plantilla no existe
+   * @throws {TemplateNotFoundAtDateException} Si la plantilla no existía en la fecha
+   */
+  async execute(
+    id: string,
+    at: Date,
+  ): Promise<{ buffer: Buffer; fileName: string }> {
+    const template = await this.getTemplateAsOfUseCase.execute(id, at)
+    const standards = this.flatten(template.standards)
+
+    const sanitizedName = template.name.replace(/[^a-zA-Z0-9]/g, '_')
+    const date = at.toISOString().split('T')[0]
+
+    return {
+      buffer: await this.templateExportService.exportWorkbook(
+        template,
+        standards,
+      ),
+      fileName: `${sanitizedName}_v${template.version}_al_${date}.xlsx`,
+    }
+  }
+
+  private flatten(nodes: StandardEntity[]): StandardEntity[] {
+    return nodes.flatMap((node) => [node, ...this.flatten(node.children)])
+  }
+}
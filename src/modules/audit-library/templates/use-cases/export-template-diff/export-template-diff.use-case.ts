@@ -0,0 +1,34 @@
+import { Injectable } from '@nestjs/common'
+import { TemplateDiffService } from '../../services'
+import { CompareTemplatesUseCase } from '../compare-templates/compare-templates.use-case'
+
+/**
+ * Export Template Diff Use Case
+ *
+ * Genera el Excel con las diferencias entre dos versiones de una plantilla
+ */
+@Injectable()
+export class ExportTemplateDiffUseCase {
+  constructor(
+    private readonly compareTemplatesUseCase: CompareTemplatesUseCase,
+    private readonly templateDiffService: TemplateDiffService,
+  ) {}
+
+  /**
+   * @param baseId - ID de la versión base (anterior)
+   * @param targetId - ID de la versión destino (nueva)
+   * @returns Buffer del archivo Excel y nombre sugerido
+   * @throws {TemplateNotFoundException} Si alguna de las plantillas no existe
+   */
+  async execute(
+    baseId: string,
+    targetId: string,
+  ): Promise<{ buffer: Buffer; fileName: string }> {
+    const diff = await this.compareTemplatesUseCase.execute(baseId, targetId)
+
+    return {
+      buffer: await this.templateDiffService.exportDiff(diff),
+      fileName: this.templateDiffService.getFileName(diff),
+    }
+  }
+}
@@ -1,16 +1,19 @@
 import { Injectable } from '@nestjs/common'
 import { TemplateExportService } from '../../services'
+import { TemplateFileFormat } from '../../constants'
 
 /**
  * Export Template Use Case
  *
- * Exporta una plantilla completa (con todos sus standards) a Excel
+ * Exporta una plantilla completa (con todos sus standards) a Excel,
+ * CSV plano o al documento canónico JSON / YAML
  *
  * Casos de uso:
  * - Backup de plantillas
  * - Compartir plantillas entre entornos (dev, staging, prod)
  * - Generar datos de prueba para desarrollo
  * - Documentación offline de plantillas
+ * - Versionar plantillas regulatorias en git (JSON / YAML / CSV)
  *
  * @example
  * const buffer = await exportTemplateUseCase.execute('template-id')
@@ -24,10 +27,14 @@ export class ExportTemplateUseCase {
    * Ejecuta la exportación de la plantilla
    *
    * @param templateId - ID de la plantilla a exportar
-   * @returns Buffer del archivo Excel
+   * @param format - Formato de salida (por defecto Excel)
+   * @returns Buffer del archivo
    * @throws {TemplateNotFoundException} Si la plantilla no existe
    */
-  async execute(templateId: string): Promise<Buffer> {
-    return await this.templateExportService.exportTemplate(templateId)
+  async execute(
+    templateId: string,
+    format: TemplateFileFormat = TemplateFileFormat.XLSX,
+  ): Promise<Buffer> {
+    return await this.templateExportService.exportTemplateAs(templateId, format)
   }
 }
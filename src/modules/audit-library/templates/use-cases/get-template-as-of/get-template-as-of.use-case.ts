@@ -0,0 +1,55 @@
+import { Inject, Injectable } from '@nestjs/common'
+import { STANDARDS_REPOSITORY } from '../../../standards/tokens'
+import type { IStandardsRepository } from '../../../standards/repositories'
+import { AuditLogRepository } from '../../../audit-log/repositories/audit-log.repository'
+import type { TemplateEntity } from '../../entities'
+import { TemplateValidator } from '../../validators'
+import { TemplateSnapshotService } from '../../services'
+
+/**
+ * Get Template As Of Use Case
+ *
+ * Reconstruye una plantilla y su árbol de standards tal como estaban en
+ * una fecha, a partir del historial de auditoría (ej: qué redacción de un
+ * control estaba vigente el día en que se realizó una auditoría)
+ */
+@Injectable()
+export class GetTemplateAsOfUseCase {
+  constructor(
+    @Inject(STANDARDS_REPOSITORY)
+    private readonly standardsRepository: IStandardsRepository,
+    private readonly auditLogRepository: AuditLogRepository,
+    private readonly templateValidator: TemplateValidator,
+    private readonly templateSnapshotService: TemplateSnapshotService,
+  ) {}
+
+  /**
+   * @param id - ID de la plantilla
+   * @param at - Fecha a reconstruir
+   * @returns Plantilla con el árbol de standards (standards = raíces) vigente en la fecha
+   * @throws {TemplateNotFoundException} Si la plantilla no existe
+   * @throws {TemplateNotFoundAtDateException} Si la plantilla no existía en la fecha
+   */
+  async execute(id: string, at: Date): Promise<TemplateEntity> {
+    // 1. Estado actual
+    const template = await this.templateValidator.validateAndGetTemplate(id)
+    const existing = await this.standardsRepository.findByTemplate(id)
+    const deleted = await this.standardsRepository.findDeletedByTemplate(id)
+
+    // 2. Cambios posteriores a la fecha (del más reciente al más antiguo)
+    const logs = await this.auditLogRepository.findByRootIdAfter(id, at)
+
+    // 3. Deshacerlos sobre el estado actual y armar el árbol
+    const snapshot = this.templateSnapshotService.rebuild(
+      template,
+      existing,
+      deleted,
+      logs,
+      at,
+    )
+    snapshot.template.standards = this.templateSnapshotService.buildTree(
+      snapshot.standards,
+    )
+    return snapshot.template
+  }
+}
@@ -0,0 +1,64 @@
+import { Inject, Injectable } from '@nestjs/common'
+import type { TemplateEntity } from '../../entities'
+import type { ITemplatesRepository } from '../../repositories'
+import { TEMPLATES_REPOSITORY } from '../../tokens'
+import { TemplateValidator } from '../../validators'
+
+/**
+ * Get Template Version History Use Case
+ *
+ * Reconstruye el linaje de una plantilla: versiones anteriores (siguiendo
+ * previousVersionId) y versiones derivadas, de la más antigua a la más nueva
+ */
+@Injectable()
+export class GetTemplateVersionHistoryUseCase {
+  constructor(
+    @Inject(TEMPLATES_REPOSITORY)
+    private readonly templatesRepository: ITemplatesRepository,
+    private readonly templateValidator: TemplateValidator,
+  ) {}
+
+  /**
+   * @param id - ID de cualquier versión de la plantilla
+   * @returns Versiones del linaje ordenadas de la más antigua a la más nueva
+   * @throws {TemplateNotFoundException} Si la plantilla no existe
+   */
+  async execute(id: string): Promise<TemplateEntity[]> {
+    const template = await this.templateValidator.validateAndGetTemplate(id)
+    const visited = new Set<string>([template.id])
+
+    // 1. Versiones anteriores
+    const ancestors: TemplateEntity[] = []
+    let current = template
+    while (
+      current.previousVersionId &&
+      !visited.has(current.previousVersionId)
+    ) {
+      const previous = await this.templatesRepository.findById(
+        current.previousVersionId,
+      )
+      if (!previous) break
+      visited.add(previous.id)
+      ancestors.unshift(previous)
+      current = previous
+    }
+
+    // 2. Versiones derivadas (recorrido en anchura)
+    const descendants: TemplateEntity[] = []
+    const queue = [template.id]
+    while (queue.length > 0) {
+      const derived = await this.templatesRepository.findDerivedVersions(
+        queue.shift()!,
+      )
+      derived
+        .filter((version) => !visited.has(version.id))
+        .forEach((version) => {
+          visited.add(version.id)
+          descendants.push(version)
+          queue.push(version.id)
+        })
+    }
+
+    return [...ancestors, template, ...descendants]
+  }
+}
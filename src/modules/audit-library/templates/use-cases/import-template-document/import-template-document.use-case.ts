@@ -0,0 +1,66 @@
+import { Inject, Injectable } from '@nestjs/common'
+import { Transactional } from '@core/database/transactional.decorator'
+import type { TemplateEntity } from '../../entities'
+import type { ITemplatesRepository } from '../../repositories'
+import { TEMPLATES_REPOSITORY } from '../../tokens'
+import { TemplateValidator } from '../../validators'
+import { TemplateFactory } from '../../factories'
+import { TemplateImportService, TemplateFormatService } from '../../services'
+import { TemplateFileFormat } from '../../constants'
+
+/**
+ * Import Template Document Use Case
+ *
+ * Crea una plantilla (DRAFT) desde el documento canónico JSON / YAML.
+ * Los metadatos vienen en el propio documento.
+ */
+@Injectable()
+export class ImportTemplateDocumentUseCase {
+  constructor(
+    @Inject(TEMPLATES_REPOSITORY)
+    private readonly templatesRepository: ITemplatesRepository,
+    private readonly templateValidator: TemplateValidator,
+    private readonly templateFactory: TemplateFactory,
+    private readonly templateImportService: TemplateImportService,
+    private readonly templateFormatService: TemplateFormatService,
+  ) {}
+
+  /**
+   * @param content - Contenido del archivo
+   * @param format - Formato del documento (json o yaml)
+   * @returns Template creado con todos sus standards
+   * @throws {BadRequestException} Si el documento o sus standards no son válidos
+   * @throws {TemplateAlreadyExistsException} Si ya existe el código + versión
+   */
+  @Transactional()
+  async execute(
+    content: string,
+    format: TemplateFileFormat.JSON | TemplateFileFormat.YAML,
+  ): Promise<TemplateEntity> {
+    // 1. Leer y validar el documento
+    const document = this.templateFormatService.parseDocument(content, format)
+    const dto = await this.templateValidator.validateDocumentMetadata(
+      document.template,
+    )
+    await this.templateValidator.validateUniqueConstraint(
+      dto.code.trim().toUpperCase(),
+      dto.version.trim(),
+    )
+
+    // 2. Construir el árbol de standards
+    const rootStandards =
+      await this.templateImportService.importFromDocument(document)
+
+    // 3. Guardar template primero para obtener el ID
+    const template = this.templateFactory.createFromDto(dto)
+    const savedTemplate = await this.templatesRepository.save(template)
+
+    // 4. Vincular el árbol y guardar en cascada
+    this.templateImportService.assignTemplateToTree(
+      rootStandards,
+      savedTemplate,
+    )
+    savedTemplate.standards = rootStandards
+    return await this.templatesRepository.save(savedTemplate)
+  }
+}
@@ -6,7 +6,8 @@ import { TEMPLATES_REPOSITORY } from '../../tokens'
 import { CreateTemplateDto } from '../../dtos'
 import { TemplateValidator } from '../../validators'
 import { TemplateFactory } from '../../factories'
-import { TemplateImportService } from '../../services'
+import { TemplateImportService, TemplateFormatService } from '../../services'
+import { TemplateFileFormat } from '../../constants'
 
 @Injectable()
 export class ImportTemplateUseCase {
@@ -16,13 +17,15 @@ export class ImportTemplateUseCase {
     private readonly templateValidator: TemplateValidator,
     private readonly templateFactory: TemplateFactory,
     private readonly templateImportService: TemplateImportService,
+    private readonly templateFormatService: TemplateFormatService,
   ) {}
 
   /**
    * Ejecuta la importación del template
    *
-   * @param fileBuffer - Buffer del archivo Excel
+   * @param fileBuffer - Buffer del archivo Excel o CSV
    * @param metadata - Metadatos del template (name, version, description)
+   * @param format - Formato del archivo (por defecto Excel)
    * @returns Template creado con todos sus standards
    * @throws {BadRequestException} Si hay errores de validación
    */
@@ -30,15 +33,22 @@ export class ImportTemplateUseCase {
   async execute(
     fileBuffer: Buffer,
     dto: CreateTemplateDto,
+    format:
+      | TemplateFileFormat.XLSX
+      | TemplateFileFormat.CSV = TemplateFileFormat.XLSX,
   ): Promise<TemplateEntity> {
     await this.templateValidator.validateUniqueConstraint(dto.code, dto.version)
 
     // 1. Crear template sin guardarlo aún
     const template = this.templateFactory.createFromDto(dto)
 
-    // 2. Importar standards desde Excel
+    // 2. Importar standards desde Excel o CSV
     const rootStandards =
-      await this.templateImportService.importTemplate(fileBuffer)
+      format === TemplateFileFormat.CSV
+        ? await this.templateImportService.importFromTable(
+            this.templateFormatService.parseCsv(fileBuffer.toString('utf8')),
+          )
+        : await this.templateImportService.importTemplate(fileBuffer)
 
     // 3. Guardar template primero para obtener el ID
     const savedTemplate = await this.templateRespository.save(template)
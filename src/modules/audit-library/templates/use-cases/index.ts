@@ -6,3 +6,13 @@ export * from './find-template/find-template.use-case'
 export * from './find-templates/find-templates.use-case'
 export * from './update-template/update-template.use-case'
 export * from './publish-template/publish-template.use-case'
+export * from './create-template-version/create-template-version.use-case'
+export * from './get-template-version-history/get-template-version-history.use-case'
+export * from './compare-templates/compare-templates.use-case'
+export * from './export-template-diff/export-template-diff.use-case'
+export * from './preview-import-template/preview-import-template.use-case'
+export * from './annotate-import-file/annotate-import-file.use-case'
+export * from './import-template-document/import-template-document.use-case'
+export * from './update-template-from-file/update-template-from-file.use-case'
+export * from './get-template-as-of/get-template-as-of.use-case'
+export * from './export-template-as-of/export-template-as-of.use-case'
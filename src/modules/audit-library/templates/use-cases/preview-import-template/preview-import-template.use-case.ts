@@ -0,0 +1,24 @@
+import { Injectable } from '@nestjs/common'
+import { TemplateImportService } from '../../services'
+import type { ImportPreviewResult } from '../../interfaces'
+
+/**
+ * Preview Import Template Use Case
+ *
+ * Modo preview de la importación: valida el Excel completo y retorna todos
+ * los errores por fila/columna, el árbol resultante y un resumen.
+ * No persiste nada.
+ */
+@Injectable()
+export class PreviewImportTemplateUseCase {
+  constructor(private readonly templateImportService: TemplateImportService) {}
+
+  /**
+   * @param fileBuffer - Buffer del archivo Excel
+   * @returns Resultado del análisis (errores, árbol y resumen)
+   * @throws {BadRequestException} Si el archivo no es un Excel válido o faltan columnas obligatorias
+   */
+  async execute(fileBuffer: Buffer): Promise<ImportPreviewResult> {
+    return await this.templateImportService.previewImport(fileBuffer)
+  }
+}
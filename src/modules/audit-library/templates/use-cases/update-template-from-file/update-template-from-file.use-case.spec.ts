@@ -0,0 +1,116 @@
+import { UpdateTemplateFromFileUseCase } from './update-template-from-file.use-case'
+import type { IStandardsRepository } from '../../../standards/repositories'
+import { StandardEntity } from '../../../standards/entities/standard.entity'
+import { TemplateEntity } from '../../entities'
+import type { TemplateValidator } from '../../validators'
+import {
+  TemplateFormatService,
+  TemplateImportService,
+  TemplateMergeService,
+} from '../../services'
+import { TemplateFileFormat, TemplateStatus } from '../../constants'
+
+describe('UpdateTemplateFromFileUseCase', () => {
+  let useCase: UpdateTemplateFromFileUseCase
+  let rows: Map<string, StandardEntity>
+
+  const template = Object.assign(new TemplateEntity(), {
+    id: 'template-1',
+    name: 'ASFI',
+    status: TemplateStatus.DRAFT,
+  })
+
+  const buildRow = (
+    id: string,
+    code: string,
+    order: number,
+    deletedAt: Date | null = null,
+  ): StandardEntity =>
+    Object.assign(new StandardEntity(), {
+      id,
+      templateId: template.id,
+      parentId: null,
+      code,
+      title: `Standard ${code}`,
+      description: null,
+      level: 1,
+      order,
+      isAuditable: true,
+      deletedAt,
+    })
+
+  // Copias, como las entidades que devuelve la BD
+  const copy = (row: StandardEntity) => Object.assign(new StandardEntity(), row)
+
+  beforeEach(() => {
+    rows = new Map([
+      ['standard-1', buildRow('standard-1', 'A.1', 1)],
+      ['standard-2', buildRow('standard-2', 'A.2', 2, new Date('2026-01-01'))],
+    ])
+
+    // Igual que TypeORM: save escribe todas las columnas definidas
+    const standardsRepository = {
+      findByTemplate: jest.fn(() =>
+        Promise.resolve(
+          [...rows.values()].filter((r) => !r.deletedAt).map(copy),
+        ),
+      ),
+      findDeletedByTemplate: jest.fn(() =>
+        Promise.resolve(
+          [...rows.values()].filter((r) => r.deletedAt).map(copy),
+        ),
+      ),
+      recoverMany: jest.fn((ids: string[]) => {
+        ids.forEach((id) => Object.assign(rows.get(id)!, { deletedAt: null }))
+        return Promise.resolve(ids.length)
+      }),
+      saveMany: jest.fn((standards: StandardEntity[]) => {
+        standards.forEach((standard) => {
+          const id = standard.id ?? `standard-${rows.size + 1}`
+          const values = Object.fromEntries(
+            Object.entries(standard).filter(([, value]) => value !== undefined),
+          )
+          rows.set(
+            id,
+            Object.assign(rows.get(id) ?? new StandardEntity(), values, { id }),
+          )
+        })
+        return Promise.resolve(standards)
+      }),
+      softDeleteMany: jest.fn().mockResolvedValue(0),
+    } as unknown as IStandardsRepository
+
+    const templateValidator = {
+      validateAndGetTemplate: jest.fn().mockResolvedValue(template),
+    } as unknown as TemplateValidator
+
+    useCase = new UpdateTemplateFromFileUseCase(
+      standardsRepository,
+      templateValidator,
+      new TemplateImportService(),
+      new TemplateFormatService(),
+      new TemplateMergeService(),
+    )
+  })
+
+  it('should leave a previously deleted standard live after importing its code again', async () => {
+    // Arrange: A.2 fue eliminado y vuelve en el archivo
+    const csv = 'code,title,level\nA.1,Standard A.1,1\nA.2,Restaurado,1\n'
+
+    // Act
+    const report = await useCase.execute(
+      template.id,
+      Buffer.from(csv),
+      TemplateFileFormat.CSV,
+      { removeMissing: false },
+    )
+
+    // Assert
+    expect(report.restored).toEqual(['A.2'])
+    expect(rows.size).toBe(2)
+    expect(rows.get('standard-2')).toMatchObject({
+      title: 'Restaurado',
+      deletedAt: null,
+    })
+  })
+})
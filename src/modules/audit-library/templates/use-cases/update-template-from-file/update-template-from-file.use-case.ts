@@ -0,0 +1,112 @@
+import { Inject, Injectable } from '@nestjs/common'
+import { Transactional } from '@core/database/transactional.decorator'
+import type { StandardEntity } from '../../../standards/entities'
+import { STANDARDS_REPOSITORY } from '../../../standards/tokens'
+import type { IStandardsRepository } from '../../../standards/repositories'
+import { UpdateTemplateFromFileDto } from '../../dtos'
+import { TemplateValidator } from '../../validators'
+import {
+  TemplateImportService,
+  TemplateFormatService,
+  TemplateMergeService,
+} from '../../services'
+import { TemplateNotUpdatableException } from '../../exceptions'
+import { TemplateFileFormat } from '../../constants'
+import type { TemplateMergeReport } from '../../interfaces'
+
+/**
+ * Update Template From File Use Case
+ *
+ * Sincroniza una plantilla DRAFT con un archivo (Excel, CSV, JSON o YAML)
+ * emparejando los standards por código. En JSON / YAML se ignoran los
+ * metadatos del documento: solo se sincronizan los standards.
+ */
+@Injectable()
+export class UpdateTemplateFromFileUseCase {
+  constructor(
+    @Inject(STANDARDS_REPOSITORY)
+    private readonly standardsRepository: IStandardsRepository,
+    private readonly templateValidator: TemplateValidator,
+    private readonly templateImportService: TemplateImportService,
+    private readonly templateFormatService: TemplateFormatService,
+    private readonly templateMergeService: TemplateMergeService,
+  ) {}
+
+  /**
+   * @param id - ID de la plantilla a actualizar
+   * @param fileBuffer - Contenido del archivo
+   * @param format - Formato del archivo
+   * @param dto - Opciones de sincronización
+   * @returns Reporte de cambios aplicados
+   * @throws {TemplateNotFoundException} Si la plantilla no existe
+   * @throws {TemplateNotUpdatableException} Si la plantilla no está en DRAFT
+   * @throws {BadRequestException} Si el archivo tiene errores de validación
+   */
+  @Transactional()
+  async execute(
+    id: string,
+    fileBuffer: Buffer,
+    format: TemplateFileFormat,
+    dto: UpdateTemplateFromFileDto,
+  ): Promise<TemplateMergeReport> {
+    // 1. Validar plantilla
+    const template = await this.templateValidator.validateAndGetTemplate(id)
+
+    if (!template.canModifyStructure) {
+      throw new TemplateNotUpdatableException(template.name, template.status)
+    }
+
+    // 2. Leer y validar el archivo (mismas reglas que la importación)
+    const incoming = await this.readStandards(fileBuffer, format)
+
+    // 3. Calcular los cambios contra los standards actuales
+    const existing = await this.standardsRepository.findByTemplate(id)
+    const deleted = await this.standardsRepository.findDeletedByTemplate(id)
+    const plan = this.templateMergeService.plan(
+      template,
+      existing,
+      deleted,
+      incoming,
+      { removeMissing: dto.removeMissing ?? false },
+    )
+
+    // 4. Aplicar: recuperar, guardar por niveles (el padre obtiene su ID
+    //    antes que sus hijos) y eliminar los que ya no vienen
+    await this.standardsRepository.recoverMany(plan.restoredIds)
+
+    const levels = [...new Set(plan.standards.map((s) => s.level))]
+    for (const level of levels) {
+      const batch = plan.standards.filter((s) => s.level === level)
+      batch.forEach((standard) => {
+        if (standard.parent) standard.parentId = standard.parent.id
+      })
+      await this.standardsRepository.saveMany(batch)
+    }
+
+    await this.standardsRepository.softDeleteMany(plan.removedIds)
+
+    return plan.report
+  }
+
+  private async readStandards(
+    fileBuffer: Buffer,
+    format: TemplateFileFormat,
+  ): Promise<StandardEntity[]> {
+    switch (format) {
+      case TemplateFileFormat.CSV:
+        return await this.templateImportService.importFromTable(
+          this.templateFormatService.parseCsv(fileBuffer.toString('utf8')),
+        )
+      case TemplateFileFormat.JSON:
+      case TemplateFileFormat.YAML:
+        return await this.templateImportService.importFromDocument(
+          this.templateFormatService.parseDocument(
+            fileBuffer.toString('utf8'),
+            format,
+          ),
+        )
+      default:
+        return await this.templateImportService.importTemplate(fileBuffer)
+    }
+  }
+}
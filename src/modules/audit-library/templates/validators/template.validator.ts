@@ -1,4 +1,6 @@
-import { Injectable, Inject } from '@nestjs/common'
+import { Injectable, Inject, BadRequestException } from '@nestjs/common'
+import { validate } from 'class-validator'
+import { plainToInstance } from 'class-transformer'
 import type { ITemplatesRepository } from '../repositories'
 import { TemplateEntity } from '../entities'
 import {
@@ -6,6 +8,8 @@ import {
   TemplateNotFoundException,
 } from '../exceptions'
 import { TEMPLATES_REPOSITORY } from '../tokens'
+import { CreateTemplateDto } from '../dtos'
+import type { TemplateDocumentMetadata } from '../interfaces'
 
 @Injectable()
 export class TemplateValidator {
@@ -36,4 +40,30 @@ export class TemplateValidator {
     }
     return template
   }
+
+  /**
+   * Valida los metadatos de un documento importado (JSON / YAML)
+   * con las mismas reglas que la creación de plantillas
+   *
+   * @param metadata - Sección "template" del documento
+   * @returns DTO de creación validado
+   * @throws {BadRequestException} Si algún campo no es válido
+   */
+  async validateDocumentMetadata(
+    metadata: TemplateDocumentMetadata,
+  ): Promise<CreateTemplateDto> {
+    const dto = plainToInstance(CreateTemplateDto, metadata)
+    const errors = await validate(dto)
+
+    if (errors.length > 0) {
+      throw new BadRequestException({
+        message: 'Los metadatos de la plantilla no son válidos',
+        errors: errors.map((e) =>
+          Object.values(e.constraints || {}).join(', '),
+        ),
+      })
+    }
+
+    return dto
+  }
 }
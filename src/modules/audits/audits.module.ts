@@ -0,0 +1,77 @@
+import { Module } from '@nestjs/common'
+import { ReviewsModule } from '../reviews/reviews.module'
+import { AuditsController } from './controllers/audits.controller'
+import { AuditEvidencesController } from './controllers/audit-evidences.controller'
+import {
+  AuditFactory,
+  AuditScoreFactory,
+  AuditEvidenceFactory,
+} from './factories'
+import {
+  AuditValidator,
+  AuditScoreValidator,
+  AuditEvidenceValidator,
+} from './validators'
+import {
+  AuditSnapshotService,
+  MaturityRollupService,
+  AuditEvidenceFilesService,
+} from './services'
+
+// Use Cases
+import {
+  CreateAuditUseCase,
+  UpdateAuditUseCase,
+  FindAuditUseCase,
+  FindAuditsUseCase,
+  GetAuditStandardsTreeUseCase,
+  StartAuditFieldworkUseCase,
+  SubmitAuditForReviewUseCase,
+  CloseAuditUseCase,
+  DeleteAuditUseCase,
+  ScoreAuditStandardUseCase,
+  FindAuditScoresUseCase,
+  GetAuditMaturityRollupUseCase,
+  UploadAuditEvidenceUseCase,
+  UploadAuditEvidenceVersionUseCase,
+  FindAuditEvidencesUseCase,
+  FindAuditEvidenceUseCase,
+  VerifyAuditEvidenceUseCase,
+} from './use-cases'
+
+@Module({
+  imports: [ReviewsModule],
+  controllers: [AuditsController, AuditEvidencesController],
+  providers: [
+    AuditFactory,
+    AuditScoreFactory,
+    AuditEvidenceFactory,
+    AuditValidator,
+    AuditScoreValidator,
+    AuditEvidenceValidator,
+    AuditSnapshotService,
+    MaturityRollupService,
+    AuditEvidenceFilesService,
+
+    // Use Cases
+    CreateAuditUseCase,
+    UpdateAuditUseCase,
+    FindAuditUseCase,
+    FindAuditsUseCase,
+    GetAuditStandardsTreeUseCase,
+    StartAuditFieldworkUseCase,
+    SubmitAuditForReviewUseCase,
+    CloseAuditUseCase,
+    DeleteAuditUseCase,
+    ScoreAuditStandardUseCase,
+    FindAuditScoresUseCase,
+    GetAuditMaturityRollupUseCase,
+    UploadAuditEvidenceUseCase,
+    UploadAuditEvidenceVersionUseCase,
+    FindAuditEvidencesUseCase,
+    FindAuditEvidenceUseCase,
+    VerifyAuditEvidenceUseCase,
+  ],
+  exports: [AuditValidator],
+})
+export class AuditsModule {}
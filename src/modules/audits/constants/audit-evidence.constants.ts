@@ -0,0 +1,28 @@
+import { FileType } from '@core/files/enums'
+import { FILE_UPLOAD_CONFIGS } from '@core/files/dtos'
+import type { FileUploadOptions } from '@core/files/dtos'
+
+export const AUDIT_EVIDENCE_CONSTRAINTS = {
+  TITLE: {
+    MIN_LENGTH: 3,
+    MAX_LENGTH: 200,
+  },
+  DESCRIPTION: {
+    MAX_LENGTH: 2000,
+  },
+  FILE_NAME: {
+    MAX_LENGTH: 255,
+  },
+} as const
+
+/**
+ * Tipos de archivo aceptados como evidencia y su validación
+ * (políticas, exportaciones, capturas en PDF)
+ */
+export const AUDIT_EVIDENCE_UPLOAD_CONFIGS: Partial<
+  Record<FileType, FileUploadOptions>
+> = {
+  [FileType.DOCUMENT]: FILE_UPLOAD_CONFIGS.DOCUMENT,
+  [FileType.PDF]: FILE_UPLOAD_CONFIGS.PDF,
+  [FileType.SPREADSHEET]: FILE_UPLOAD_CONFIGS.SPREADSHEET,
+}
@@ -0,0 +1,17 @@
+export const AUDIT_CONSTRAINTS = {
+  CODE: {
+    MIN_LENGTH: 3,
+    MAX_LENGTH: 50,
+  },
+  NAME: {
+    MIN_LENGTH: 5,
+    MAX_LENGTH: 200,
+  },
+  SCOPE: {
+    MAX_LENGTH: 5000,
+  },
+  JUSTIFICATION: {
+    MIN_LENGTH: 10,
+    MAX_LENGTH: 5000,
+  },
+} as const
@@ -0,0 +1,32 @@
+export enum AuditStatus {
+  /**
+   * Planificada - Definida pero aún sin trabajo de campo
+   */
+  PLANNED = 'planned',
+
+  /**
+   * En trabajo de campo - Los auditores están evaluando los controles
+   */
+  IN_FIELDWORK = 'in_fieldwork',
+
+  /**
+   * En revisión - Trabajo de campo concluido, pendiente de revisión
+   */
+  IN_REVIEW = 'in_review',
+
+  /**
+   * Cerrada - Auditoría concluida, no admite más cambios
+   */
+  CLOSED = 'closed',
+}
+
+/**
+ * Transiciones permitidas del ciclo de vida de una auditoría
+ * planned → in_fieldwork → in_review → closed
+ */
+export const AUDIT_STATUS_TRANSITIONS: Record<AuditStatus, AuditStatus[]> = {
+  [AuditStatus.PLANNED]: [AuditStatus.IN_FIELDWORK],
+  [AuditStatus.IN_FIELDWORK]: [AuditStatus.IN_REVIEW],
+  [AuditStatus.IN_REVIEW]: [AuditStatus.CLOSED],
+  [AuditStatus.CLOSED]: [],
+}
@@ -0,0 +1,4 @@
+export * from './audit-status.enum'
+export * from './audit-schema.constants'
+export * from './maturity-rollup-strategy.enum'
+export * from './audit-evidence.constants'
@@ -0,0 +1,21 @@
+/**
+ * Estrategias para agregar la madurez de los hijos en cada nodo padre
+ */
+export enum MaturityRollupStrategy {
+  /**
+   * Promedio ponderado por la cantidad de standards evaluados de cada rama
+   * (equivale al promedio de todas las hojas evaluadas del subárbol)
+   */
+  WEIGHTED_AVERAGE = 'weighted_average',
+
+  /**
+   * El nodo vale lo que su hijo más débil (enfoque conservador)
+   */
+  MINIMUM = 'minimum',
+
+  /**
+   * Mediana de todas las evaluaciones del subárbol (no de las medianas de
+   * los hijos directos)
+   */
+  MEDIAN = 'median',
+}
@@ -0,0 +1,68 @@
+import type { INestApplication } from '@nestjs/common'
+import request from 'supertest'
+import { AuditEvidencesController } from './audit-evidences.controller'
+import {
+  FindAuditEvidencesUseCase,
+  UploadAuditEvidenceUseCase,
+  UploadAuditEvidenceVersionUseCase,
+} from '../use-cases'
+import { Role } from '../../users/entities/user.entity'
+import type { JwtPayload } from '../../auth/core/interfaces'
+import { createPermissionsTestingApp } from '../../authorization/testing'
+
+describe('AuditEvidencesController (permissions)', () => {
+  let app: INestApplication
+  let user: Partial<JwtPayload>
+
+  const buildUser = (role: Role) => ({
+    sub: 'user-1',
+    roles: [role],
+    currentRole: role,
+    organizationId: 'org-1',
+  })
+
+  beforeAll(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined)
+    app = await createPermissionsTestingApp(
+      AuditEvidencesController,
+      () => user,
+    )
+  })
+
+  afterEach(() => {
+    jest.clearAllMocks()
+  })
+
+  afterAll(async () => {
+    await app.close()
+    jest.restoreAllMocks()
+  })
+
+  it('should not let a CLIENTE upload or version evidence', async () => {
+    user = buildUser(Role.CLIENTE)
+
+    await request(app.getHttpServer())
+      .post('/api/audits/audit-1/evidences')
+      .attach('file', Buffer.from('politica'), 'politica.pdf')
+      .expect(403)
+    await request(app.getHttpServer())
+      .post('/api/audits/audit-1/evidences/evidence-1/versions')
+      .attach('file', Buffer.from('politica v2'), 'politica.pdf')
+      .expect(403)
+
+    expect(app.get(UploadAuditEvidenceUseCase).execute).not.toHaveBeenCalled()
+    expect(
+      app.get(UploadAuditEvidenceVersionUseCase).execute,
+    ).not.toHaveBeenCalled()
+  })
+
+  it('should let an AUDITOR list the evidence', async () => {
+    user = buildUser(Role.AUDITOR)
+
+    await request(app.getHttpServer())
+      .get('/api/audits/audit-1/evidences')
+      .expect(200)
+
+    expect(app.get(FindAuditEvidencesUseCase).execute).toHaveBeenCalled()
+  })
+})
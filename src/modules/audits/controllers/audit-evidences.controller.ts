@@ -0,0 +1,175 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  UploadedFile,
+  BadRequestException,
+  UseGuards,
+} from '@nestjs/common'
+import { ApiTags, ApiOperation } from '@nestjs/swagger'
+import {
+  ApiOkResponse,
+  ApiNotFoundResponse,
+  ApiStandardResponses,
+} from '@core/swagger'
+import { UuidParamDto } from '@core/dtos'
+import { FileType, FILE_EXTENSIONS, createUploadDecorator } from '@core/files'
+import {
+  UploadAuditEvidenceDto,
+  FindAuditEvidencesDto,
+  AuditEvidenceParamDto,
+  AuditEvidenceVersionParamDto,
+} from '../dtos'
+import { AuditEvidenceEntity } from '../entities'
+import {
+  UploadAuditEvidenceUseCase,
+  UploadAuditEvidenceVersionUseCase,
+  FindAuditEvidencesUseCase,
+  FindAuditEvidenceUseCase,
+  VerifyAuditEvidenceUseCase,
+} from '../use-cases'
+import { GetUser } from '../../auth/core'
+import { PermissionsGuard } from '../../authorization/guards'
+import { CheckPermissions } from '../../authorization/decorators'
+
+/**
+ * Upload de evidencias: documentos, PDF y hojas de cálculo en el campo 'file'
+ * (el tamaño máximo real lo valida cada tipo de archivo)
+ */
+const UploadEvidenceFile = () =>
+  createUploadDecorator({
+    fileType: FileType.PDF,
+    defaultFieldName: 'file',
+    defaultMaxSize: 20 * 1024 * 1024, // 20MB
+    allowedExtensions: [
+      ...FILE_EXTENSIONS[FileType.DOCUMENT],
+      ...FILE_EXTENSIONS[FileType.PDF],
+      ...FILE_EXTENSIONS[FileType.SPREADSHEET],
+    ],
+  })
+
+/**
+ * Audit Evidences Controller
+ *
+ * GERENTE y AUDITOR adjuntan, versionan y verifican las evidencias de la
+ * auditoría.
+ */
+@ApiTags('audits')
+@Controller('audits')
+@UseGuards(PermissionsGuard)
+export class AuditEvidencesController {
+  constructor(
+    private readonly uploadAuditEvidenceUseCase: UploadAuditEvidenceUseCase,
+    private readonly uploadAuditEvidenceVersionUseCase: UploadAuditEvidenceVersionUseCase,
+    private readonly findAuditEvidencesUseCase: FindAuditEvidencesUseCase,
+    private readonly findAuditEvidenceUseCase: FindAuditEvidenceUseCase,
+    private readonly verifyAuditEvidenceUseCase: VerifyAuditEvidenceUseCase,
+  ) {}
+
+  @Get(':id/evidences')
+  @CheckPermissions()
+  @ApiOperation({
+    summary: 'Listar evidencias de la auditoría',
+    description:
+      'Retorna las evidencias con su standard y el historial de versiones (la más reciente primero). ' +
+      'Se puede filtrar por standard.',
+  })
+  @ApiOkResponse(AuditEvidenceEntity, 'Evidencias de la auditoría', true)
+  @ApiNotFoundResponse('Auditoría no encontrada')
+  @ApiStandardResponses({ exclude: [200, 404] })
+  async findAll(
+    @Param() { id }: UuidParamDto,
+    @Query() query: FindAuditEvidencesDto,
+  ) {
+    return await this.findAuditEvidencesUseCase.execute(id, query)
+  }
+
+  @Post(':id/evidences')
+  @CheckPermissions()
+  @UploadEvidenceFile()
+  @ApiOperation({
+    summary: 'Adjuntar una evidencia a un standard',
+    description:
+      'Sube el archivo como versión 1 de una evidencia nueva del standard (campos auditStandardId, title y description en el formulario). ' +
+      'Se guarda quién lo subió, cuándo y su hash SHA-256. No se permite en auditorías cerradas.',
+  })
+  @ApiOkResponse(AuditEvidenceEntity, 'Evidencia adjuntada exitosamente', false)
+  @ApiNotFoundResponse('Auditoría o standard no encontrado')
+  @ApiStandardResponses({ exclude: [200, 404] })
+  async upload(
+    @Param() { id }: UuidParamDto,
+    @Body() dto: UploadAuditEvidenceDto,
+    @UploadedFile() file: Express.Multer.File,
+    @GetUser('sub') userId: string,
+  ) {
+    if (!file) {
+      throw new BadRequestException('No se proporcionó archivo')
+    }
+    return await this.uploadAuditEvidenceUseCase.execute(id, dto, file, userId)
+  }
+
+  @Get(':id/evidences/:evidenceId')
+  @CheckPermissions()
+  @ApiOperation({
+    summary: 'Obtener una evidencia',
+    description:
+      'Retorna la evidencia con todas sus versiones (autor, fecha, tamaño y hash).',
+  })
+  @ApiOkResponse(AuditEvidenceEntity, 'Evidencia encontrada', false)
+  @ApiNotFoundResponse('Auditoría o evidencia no encontrada')
+  @ApiStandardResponses({ exclude: [200, 404] })
+  async findOne(@Param() { id, evidenceId }: AuditEvidenceParamDto) {
+    return await this.findAuditEvidenceUseCase.execute(id, evidenceId)
+  }
+
+  @Post(':id/evidences/:evidenceId/versions')
+  @CheckPermissions()
+  @UploadEvidenceFile()
+  @ApiOperation({
+    summary: 'Subir una nueva versión de la evidencia',
+    description:
+      'Agrega una versión con el archivo nuevo. Las versiones anteriores se conservan. ' +
+      'No se permite en auditorías cerradas.',
+  })
+  @ApiOkResponse(AuditEvidenceEntity, 'Versión subida exitosamente', false)
+  @ApiNotFoundResponse('Auditoría o evidencia no encontrada')
+  @ApiStandardResponses({ exclude: [200, 404] })
+  async uploadVersion(
+    @Param() { id, evidenceId }: AuditEvidenceParamDto,
+    @UploadedFile() file: Express.Multer.File,
+    @GetUser('sub') userId: string,
+  ) {
+    if (!file) {
+      throw new BadRequestException('No se proporcionó archivo')
+    }
+    return await this.uploadAuditEvidenceVersionUseCase.execute(
+      id,
+      evidenceId,
+      file,
+      userId,
+    )
+  }
+
+  @Get(':id/evidences/:evidenceId/versions/:version/verify')
+  @CheckPermissions()
+  @ApiOperation({
+    summary: 'Verificar la integridad de una versión',
+    description:
+      'Recalcula el hash SHA-256 del archivo guardado y lo compara con el registrado al subirlo. ' +
+      'valid = false si el archivo fue modificado o ya no existe.',
+  })
+  @ApiNotFoundResponse('Auditoría, evidencia o versión no encontrada')
+  @ApiStandardResponses({ exclude: [404] })
+  async verify(
+    @Param() { id, evidenceId, version }: AuditEvidenceVersionParamDto,
+  ) {
+    return await this.verifyAuditEvidenceUseCase.execute(
+      id,
+      evidenceId,
+      version,
+    )
+  }
+}
@@ -0,0 +1,82 @@
+import type { INestApplication } from '@nestjs/common'
+import request from 'supertest'
+import { AuditsController } from './audits.controller'
+import {
+  CloseAuditUseCase,
+  CreateAuditUseCase,
+  ScoreAuditStandardUseCase,
+} from '../use-cases'
+import { Role } from '../../users/entities/user.entity'
+import type { JwtPayload } from '../../auth/core/interfaces'
+import { createPermissionsTestingApp } from '../../authorization/testing'
+
+describe('AuditsController (permissions)', () => {
+  let app: INestApplication
+  let user: Partial<JwtPayload>
+
+  const buildUser = (role: Role) => ({
+    sub: 'user-1',
+    roles: [role],
+    currentRole: role,
+    organizationId: 'org-1',
+  })
+
+  beforeAll(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined)
+    app = await createPermissionsTestingApp(AuditsController, () => user)
+  })
+
+  afterEach(() => {
+    jest.clearAllMocks()
+  })
+
+  afterAll(async () => {
+    await app.close()
+    jest.restoreAllMocks()
+  })
+
+  it('should not let a CLIENTE create, score or close their own audit', async () => {
+    user = buildUser(Role.CLIENTE)
+
+    await request(app.getHttpServer())
+      .post('/api/audits')
+      .send({ name: 'Auditoría 2026' })
+      .expect(403)
+    await request(app.getHttpServer())
+      .post('/api/audits/audit-1/scores')
+      .send({ auditStandardId: 'standard-1', maturityLevelId: 'level-1' })
+      .expect(403)
+    await request(app.getHttpServer())
+      .patch('/api/audits/audit-1/close')
+      .expect(403)
+
+    expect(app.get(CreateAuditUseCase).execute).not.toHaveBeenCalled()
+    expect(app.get(ScoreAuditStandardUseCase).execute).not.toHaveBeenCalled()
+    expect(app.get(CloseAuditUseCase).execute).not.toHaveBeenCalled()
+  })
+
+  it('should let an AUDITOR score but not close the audit', async () => {
+    user = buildUser(Role.AUDITOR)
+
+    await request(app.getHttpServer())
+      .post('/api/audits/audit-1/scores')
+      .send({ auditStandardId: 'standard-1', maturityLevelId: 'level-1' })
+      .expect(201)
+    await request(app.getHttpServer())
+      .patch('/api/audits/audit-1/close')
+      .expect(403)
+
+    expect(app.get(ScoreAuditStandardUseCase).execute).toHaveBeenCalled()
+    expect(app.get(CloseAuditUseCase).execute).not.toHaveBeenCalled()
+  })
+
+  it('should let a GERENTE close the audit', async () => {
+    user = buildUser(Role.GERENTE)
+
+    await request(app.getHttpServer())
+      .patch('/api/audits/audit-1/close')
+      .expect(200)
+
+    expect(app.get(CloseAuditUseCase).execute).toHaveBeenCalledWith('audit-1')
+  })
+})
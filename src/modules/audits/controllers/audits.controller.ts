@@ -0,0 +1,249 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  Query,
+  UseGuards,
+} from '@nestjs/common'
+import { ApiTags, ApiOperation } from '@nestjs/swagger'
+import {
+  ApiCreate,
+  ApiList,
+  ApiFindOne,
+  ApiUpdateWithMessage,
+  ApiRemoveWithMessage,
+  ApiOkResponse,
+  ApiNotFoundResponse,
+  ApiStandardResponses,
+} from '@core/swagger'
+import { UuidParamDto } from '@core/dtos'
+import { ResponseMessage } from '@core/decorators'
+import {
+  CreateAuditDto,
+  UpdateAuditDto,
+  FindAuditsDto,
+  ScoreAuditStandardDto,
+  GetMaturityRollupDto,
+  AUDIT_SEARCH_FIELDS,
+  AUDIT_SORTABLE_FIELDS,
+} from '../dtos'
+import { AuditEntity, AuditScoreEntity, AuditStandardEntity } from '../entities'
+import { AuditStatus } from '../constants'
+import {
+  CreateAuditUseCase,
+  UpdateAuditUseCase,
+  FindAuditUseCase,
+  FindAuditsUseCase,
+  GetAuditStandardsTreeUseCase,
+  StartAuditFieldworkUseCase,
+  SubmitAuditForReviewUseCase,
+  CloseAuditUseCase,
+  DeleteAuditUseCase,
+  ScoreAuditStandardUseCase,
+  FindAuditScoresUseCase,
+  GetAuditMaturityRollupUseCase,
+} from '../use-cases'
+import { GetUser } from '../../auth/core'
+import { PermissionsGuard } from '../../authorization/guards'
+import { CheckPermissions } from '../../authorization/decorators'
+
+/**
+ * Audits Controller
+ *
+ * El GERENTE planifica la auditoría y gestiona su ciclo de vida; el AUDITOR
+ * la consulta y evalúa sus standards. El CLIENTE no accede a este módulo.
+ */
+@ApiTags('audits')
+@Controller('audits')
+@UseGuards(PermissionsGuard)
+export class AuditsController {
+  constructor(
+    private readonly createAuditUseCase: CreateAuditUseCase,
+    private readonly updateAuditUseCase: UpdateAuditUseCase,
+    private readonly findAuditUseCase: FindAuditUseCase,
+    private readonly findAuditsUseCase: FindAuditsUseCase,
+    private readonly getAuditStandardsTreeUseCase: GetAuditStandardsTreeUseCase,
+    private readonly startAuditFieldworkUseCase: StartAuditFieldworkUseCase,
+    private readonly submitAuditForReviewUseCase: SubmitAuditForReviewUseCase,
+    private readonly closeAuditUseCase: CloseAuditUseCase,
+    private readonly deleteAuditUseCase: DeleteAuditUseCase,
+    private readonly scoreAuditStandardUseCase: ScoreAuditStandardUseCase,
+    private readonly findAuditScoresUseCase: FindAuditScoresUseCase,
+    private readonly getAuditMaturityRollupUseCase: GetAuditMaturityRollupUseCase,
+  ) {}
+
+  @Post()
+  @CheckPermissions()
+  @ApiCreate(AuditEntity, {
+    summary: 'Crear una nueva auditoría',
+    description:
+      'Crea una auditoría en estado PLANNED a partir de una plantilla PUBLICADA. ' +
+      'Se guarda una copia de los standards auditables de la plantilla para que cambios posteriores no afecten a la auditoría.',
+    conflictMessage: 'Ya existe una auditoría con ese código',
+  })
+  async create(@Body() createAuditDto: CreateAuditDto) {
+    return await this.createAuditUseCase.execute(createAuditDto)
+  }
+
+  @Get()
+  @CheckPermissions()
+  @ApiList(AuditEntity, {
+    summary: 'Listar auditorías con paginación y filtros',
+    searchFields: AUDIT_SEARCH_FIELDS,
+    sortableFields: AUDIT_SORTABLE_FIELDS.map(String),
+    defaultSortBy: 'createdAt',
+    filterFields: [
+      {
+        name: 'status',
+        description: 'Filtrar por estado de la auditoría',
+        type: `enum: ${Object.values(AuditStatus).join(', ')}`,
+        example: 'planned',
+      },
+    ],
+  })
+  async findAll(@Query() query: FindAuditsDto) {
+    return await this.findAuditsUseCase.execute(query)
+  }
+
+  @Get(':id')
+  @CheckPermissions()
+  @ApiFindOne(AuditEntity, {
+    summary: 'Obtener una auditoría por ID',
+    description:
+      'Retorna la auditoría con su plantilla, organización, framework y auditor líder.',
+  })
+  async findOne(@Param() { id }: UuidParamDto) {
+    return await this.findAuditUseCase.execute(id)
+  }
+
+  @Get(':id/standards')
+  @CheckPermissions()
+  @ApiOperation({
+    summary: 'Obtener el árbol de standards de la auditoría',
+    description:
+      'Retorna el snapshot jerárquico de standards tomado al crear la auditoría.',
+  })
+  @ApiOkResponse(AuditStandardEntity, 'Árbol de standards', true)
+  @ApiNotFoundResponse('Auditoría no encontrada')
+  @ApiStandardResponses({ exclude: [200, 404] })
+  async getStandardsTree(@Param() { id }: UuidParamDto) {
+    return await this.getAuditStandardsTreeUseCase.execute(id)
+  }
+
+  @Get(':id/scores')
+  @CheckPermissions()
+  @ApiOperation({
+    summary: 'Listar evaluaciones de madurez de la auditoría',
+    description:
+      'Retorna las evaluaciones registradas con su standard, nivel de madurez y auditor.',
+  })
+  @ApiOkResponse(AuditScoreEntity, 'Evaluaciones de madurez', true)
+  @ApiNotFoundResponse('Auditoría no encontrada')
+  @ApiStandardResponses({ exclude: [200, 404] })
+  async findScores(@Param() { id }: UuidParamDto) {
+    return await this.findAuditScoresUseCase.execute(id)
+  }
+
+  @Get(':id/maturity')
+  @CheckPermissions()
+  @ApiOperation({
+    summary: 'Madurez agregada y análisis de brechas',
+    description:
+      'Retorna el árbol de standards de la auditoría con la madurez agregada en cada nodo padre ' +
+      '(promedio ponderado, mínimo o mediana) y la brecha contra los niveles objetivo (isTarget) ' +
+      'y mínimo aceptable (isMinimumAcceptable) del framework.',
+  })
+  @ApiNotFoundResponse('Auditoría no encontrada')
+  @ApiStandardResponses({ exclude: [404] })
+  async getMaturity(
+    @Param() { id }: UuidParamDto,
+    @Query() query: GetMaturityRollupDto,
+  ) {
+    return await this.getAuditMaturityRollupUseCase.execute(id, query)
+  }
+
+  @Post(':id/scores')
+  @CheckPermissions()
+  @ApiOperation({
+    summary: 'Evaluar la madurez de un standard',
+    description:
+      'Registra el nivel de madurez de un standard auditable usando un nivel del framework de la auditoría. ' +
+      'Si el standard ya fue evaluado, se sobrescribe la evaluación. Solo en trabajo de campo o revisión.',
+  })
+  @ApiOkResponse(AuditScoreEntity, 'Evaluación registrada exitosamente', false)
+  @ApiNotFoundResponse('Auditoría, standard o nivel no encontrado')
+  @ApiStandardResponses({ exclude: [200, 404] })
+  async score(
+    @Param() { id }: UuidParamDto,
+    @Body() dto: ScoreAuditStandardDto,
+    @GetUser('sub') userId: string,
+  ) {
+    return await this.scoreAuditStandardUseCase.execute(id, dto, userId)
+  }
+
+  @Patch(':id')
+  @CheckPermissions()
+  @ResponseMessage('Auditoría actualizada exitosamente')
+  @ApiUpdateWithMessage({
+    summary: 'Actualizar una auditoría',
+    description:
+      'Actualiza nombre, alcance, fechas planificadas o auditor líder. No se permite en auditorías cerradas.',
+  })
+  async update(
+    @Param() { id }: UuidParamDto,
+    @Body() updateAuditDto: UpdateAuditDto,
+  ) {
+    await this.updateAuditUseCase.execute(id, updateAuditDto)
+  }
+
+  @Patch(':id/start-fieldwork')
+  @CheckPermissions()
+  @ResponseMessage('Trabajo de campo iniciado exitosamente')
+  @ApiUpdateWithMessage({
+    summary: 'Iniciar trabajo de campo (planned → in_fieldwork)',
+    description: 'Registra la fecha real de inicio de la auditoría.',
+  })
+  async startFieldwork(@Param() { id }: UuidParamDto) {
+    await this.startAuditFieldworkUseCase.execute(id)
+  }
+
+  @Patch(':id/submit-review')
+  @CheckPermissions()
+  @ResponseMessage('Auditoría enviada a revisión exitosamente')
+  @ApiUpdateWithMessage({
+    summary: 'Enviar a revisión (in_fieldwork → in_review)',
+    description:
+      'Concluye el trabajo de campo y deja la auditoría en revisión.',
+  })
+  async submitForReview(@Param() { id }: UuidParamDto) {
+    await this.submitAuditForReviewUseCase.execute(id)
+  }
+
+  @Patch(':id/close')
+  @CheckPermissions()
+  @ResponseMessage('Auditoría cerrada exitosamente')
+  @ApiUpdateWithMessage({
+    summary: 'Cerrar auditoría (in_review → closed)',
+    description:
+      'Cierra la auditoría. Requiere que un revisor haya aprobado su contenido actual (PATCH /reviews/audit/:id/approve). Una auditoría cerrada ya no admite modificaciones.',
+  })
+  async close(@Param() { id }: UuidParamDto) {
+    await this.closeAuditUseCase.execute(id)
+  }
+
+  @Delete(':id')
+  @CheckPermissions()
+  @ResponseMessage('Auditoría eliminada exitosamente')
+  @ApiRemoveWithMessage({
+    summary: 'Eliminar una auditoría',
+    description:
+      'Elimina una auditoría que aún está en estado PLANNED. Retorna un mensaje de confirmación.',
+  })
+  async remove(@Param() { id }: UuidParamDto) {
+    await this.deleteAuditUseCase.execute(id)
+  }
+}
@@ -0,0 +1,29 @@
+import { IsUUID, IsInt, Min, ToNumber } from '@core/i18n'
+import { ApiProperty } from '@nestjs/swagger'
+import { UuidParamDto } from '@core/dtos'
+
+/**
+ * Parámetros de ruta /audits/:id/evidences/:evidenceId
+ */
+export class AuditEvidenceParamDto extends UuidParamDto {
+  @ApiProperty({
+    description: 'ID de la evidencia',
+    format: 'uuid',
+  })
+  @IsUUID()
+  evidenceId: string
+}
+
+/**
+ * Parámetros de ruta /audits/:id/evidences/:evidenceId/versions/:version
+ */
+export class AuditEvidenceVersionParamDto extends AuditEvidenceParamDto {
+  @ApiProperty({
+    description: 'Número de versión',
+    example: 1,
+  })
+  @ToNumber()
+  @IsInt()
+  @Min(1)
+  version: number
+}
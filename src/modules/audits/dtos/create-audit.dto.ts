@@ -0,0 +1,86 @@
+import {
+  IsString,
+  IsOptional,
+  IsUUID,
+  IsDateString,
+  MinLength,
+  MaxLength,
+} from '@core/i18n'
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger'
+import { AUDIT_CONSTRAINTS } from '../constants'
+
+export class CreateAuditDto {
+  @ApiProperty({
+    description: 'Código único de la auditoría',
+    example: 'AUD-2025-001',
+    minLength: AUDIT_CONSTRAINTS.CODE.MIN_LENGTH,
+    maxLength: AUDIT_CONSTRAINTS.CODE.MAX_LENGTH,
+  })
+  @IsString()
+  @MinLength(AUDIT_CONSTRAINTS.CODE.MIN_LENGTH)
+  @MaxLength(AUDIT_CONSTRAINTS.CODE.MAX_LENGTH)
+  code: string
+
+  @ApiProperty({
+    description: 'Nombre descriptivo de la auditoría',
+    example: 'Auditoría ISO 27001 - Gestión 2025',
+    minLength: AUDIT_CONSTRAINTS.NAME.MIN_LENGTH,
+    maxLength: AUDIT_CONSTRAINTS.NAME.MAX_LENGTH,
+  })
+  @IsString()
+  @MinLength(AUDIT_CONSTRAINTS.NAME.MIN_LENGTH)
+  @MaxLength(AUDIT_CONSTRAINTS.NAME.MAX_LENGTH)
+  name: string
+
+  @ApiPropertyOptional({
+    description: 'Alcance de la auditoría (procesos, áreas, sistemas)',
+    example: 'Procesos de TI de la oficina central',
+    maxLength: AUDIT_CONSTRAINTS.SCOPE.MAX_LENGTH,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(AUDIT_CONSTRAINTS.SCOPE.MAX_LENGTH)
+  scope?: string
+
+  @ApiProperty({
+    description: 'ID de la plantilla publicada a aplicar',
+    example: '550e8400-e29b-41d4-a716-446655440000',
+  })
+  @IsUUID()
+  templateId: string
+
+  @ApiProperty({
+    description: 'ID de la organización auditada',
+    example: '550e8400-e29b-41d4-a716-446655440001',
+  })
+  @IsUUID()
+  organizationId: string
+
+  @ApiProperty({
+    description: 'ID del framework de madurez para la evaluación',
+    example: '550e8400-e29b-41d4-a716-446655440002',
+  })
+  @IsUUID()
+  frameworkId: string
+
+  @ApiProperty({
+    description: 'ID del usuario auditor líder',
+    example: '550e8400-e29b-41d4-a716-446655440003',
+  })
+  @IsUUID()
+  leadAuditorId: string
+
+  @ApiProperty({
+    description: 'Fecha planificada de inicio (YYYY-MM-DD)',
+    example: '2025-03-01',
+  })
+  @IsDateString()
+  plannedStartDate: string
+
+  @ApiProperty({
+    description: 'Fecha planificada de finalización (YYYY-MM-DD)',
+    example: '2025-03-31',
+  })
+  @IsDateString()
+  plannedEndDate: string
+}
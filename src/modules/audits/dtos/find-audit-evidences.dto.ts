@@ -0,0 +1,12 @@
+import { IsOptional, IsUUID } from '@core/i18n'
+import { ApiPropertyOptional } from '@nestjs/swagger'
+
+export class FindAuditEvidencesDto {
+  @ApiPropertyOptional({
+    description: 'Filtrar por standard (snapshot de la auditoría)',
+    example: '550e8400-e29b-41d4-a716-446655440000',
+  })
+  @IsOptional()
+  @IsUUID()
+  auditStandardId?: string
+}
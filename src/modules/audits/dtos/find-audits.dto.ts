@@ -0,0 +1,57 @@
+import { IsOptional, IsString, IsEnum, IsUUID } from 'class-validator'
+import { ApiPropertyOptional } from '@nestjs/swagger'
+import { PaginationDto } from '@core/dtos'
+import { IsIn } from '@core/i18n'
+import { AuditStatus } from '../constants'
+import { AuditEntity } from '../entities/audit.entity'
+
+/**
+ * Campos por los que se puede ordenar la lista de auditorías
+ */
+export const AUDIT_SORTABLE_FIELDS: (keyof AuditEntity)[] = [
+  'code',
+  'name',
+  'status',
+  'plannedStartDate',
+  'plannedEndDate',
+  'createdAt',
+]
+
+/**
+ * Campos en los que busca el parámetro 'search'
+ */
+export const AUDIT_SEARCH_FIELDS: (keyof AuditEntity)[] = [
+  'code',
+  'name',
+  'scope',
+]
+
+export class FindAuditsDto extends PaginationDto {
+  @IsOptional()
+  @IsString()
+  search?: string
+
+  @ApiPropertyOptional({ enum: AuditStatus })
+  @IsOptional()
+  @IsEnum(AuditStatus)
+  status?: AuditStatus
+
+  @ApiPropertyOptional({ description: 'Filtrar por organización' })
+  @IsOptional()
+  @IsUUID()
+  organizationId?: string
+
+  @ApiPropertyOptional({ description: 'Filtrar por plantilla' })
+  @IsOptional()
+  @IsUUID()
+  templateId?: string
+
+  @ApiPropertyOptional({ description: 'Filtrar por auditor líder' })
+  @IsOptional()
+  @IsUUID()
+  leadAuditorId?: string
+
+  @IsOptional()
+  @IsIn(AUDIT_SORTABLE_FIELDS)
+  sortBy?: string = 'createdAt'
+}
@@ -0,0 +1,14 @@
+import { IsOptional, IsEnum } from '@core/i18n'
+import { ApiPropertyOptional } from '@nestjs/swagger'
+import { MaturityRollupStrategy } from '../constants'
+
+export class GetMaturityRollupDto {
+  @ApiPropertyOptional({
+    description: 'Estrategia de agregación para los nodos padre',
+    enum: MaturityRollupStrategy,
+    default: MaturityRollupStrategy.WEIGHTED_AVERAGE,
+  })
+  @IsOptional()
+  @IsEnum(MaturityRollupStrategy)
+  strategy?: MaturityRollupStrategy = MaturityRollupStrategy.WEIGHTED_AVERAGE
+}
@@ -0,0 +1,8 @@
+export * from './create-audit.dto'
+export * from './update-audit.dto'
+export * from './find-audits.dto'
+export * from './score-audit-standard.dto'
+export * from './get-maturity-rollup.dto'
+export * from './upload-audit-evidence.dto'
+export * from './find-audit-evidences.dto'
+export * from './audit-evidence-param.dto'
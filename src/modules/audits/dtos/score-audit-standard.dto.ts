@@ -0,0 +1,31 @@
+import { IsString, IsUUID, MinLength, MaxLength } from '@core/i18n'
+import { ApiProperty } from '@nestjs/swagger'
+import { AUDIT_CONSTRAINTS } from '../constants'
+
+export class ScoreAuditStandardDto {
+  @ApiProperty({
+    description: 'ID del standard (snapshot de la auditoría) a evaluar',
+    example: '550e8400-e29b-41d4-a716-446655440000',
+  })
+  @IsUUID()
+  auditStandardId: string
+
+  @ApiProperty({
+    description:
+      'ID del nivel de madurez asignado (del framework de la auditoría)',
+    example: '550e8400-e29b-41d4-a716-446655440001',
+  })
+  @IsUUID()
+  maturityLevelId: string
+
+  @ApiProperty({
+    description: 'Justificación de la evaluación (evidencia observada)',
+    example: 'Existe una política aprobada pero no se revisa periódicamente.',
+    minLength: AUDIT_CONSTRAINTS.JUSTIFICATION.MIN_LENGTH,
+    maxLength: AUDIT_CONSTRAINTS.JUSTIFICATION.MAX_LENGTH,
+  })
+  @IsString()
+  @MinLength(AUDIT_CONSTRAINTS.JUSTIFICATION.MIN_LENGTH)
+  @MaxLength(AUDIT_CONSTRAINTS.JUSTIFICATION.MAX_LENGTH)
+  justification: string
+}
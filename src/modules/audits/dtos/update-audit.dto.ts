@@ -0,0 +1,15 @@
+import { OmitType, PartialType } from '@nestjs/swagger'
+import { CreateAuditDto } from './create-audit.dto'
+
+/**
+ * La plantilla, la organización y el framework no se pueden cambiar
+ * una vez creada la auditoría (el snapshot depende de ellos).
+ */
+export class UpdateAuditDto extends PartialType(
+  OmitType(CreateAuditDto, [
+    'code',
+    'templateId',
+    'organizationId',
+    'frameworkId',
+  ]),
+) {}
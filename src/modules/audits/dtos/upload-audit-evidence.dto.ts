@@ -0,0 +1,37 @@
+import { IsString, IsUUID, IsOptional, MinLength, MaxLength } from '@core/i18n'
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger'
+import { AUDIT_EVIDENCE_CONSTRAINTS } from '../constants'
+
+/**
+ * Campos del formulario (multipart) al adjuntar una evidencia nueva
+ * El archivo va en el campo 'file'
+ */
+export class UploadAuditEvidenceDto {
+  @ApiProperty({
+    description: 'ID del standard (snapshot de la auditoría) que respalda',
+    example: '550e8400-e29b-41d4-a716-446655440000',
+  })
+  @IsUUID()
+  auditStandardId: string
+
+  @ApiProperty({
+    description: 'Título de la evidencia',
+    example: 'Política de contraseñas aprobada',
+    minLength: AUDIT_EVIDENCE_CONSTRAINTS.TITLE.MIN_LENGTH,
+    maxLength: AUDIT_EVIDENCE_CONSTRAINTS.TITLE.MAX_LENGTH,
+  })
+  @IsString()
+  @MinLength(AUDIT_EVIDENCE_CONSTRAINTS.TITLE.MIN_LENGTH)
+  @MaxLength(AUDIT_EVIDENCE_CONSTRAINTS.TITLE.MAX_LENGTH)
+  title: string
+
+  @ApiPropertyOptional({
+    description: 'Descripción de lo que demuestra la evidencia',
+    example: 'Versión firmada por la gerencia general',
+    maxLength: AUDIT_EVIDENCE_CONSTRAINTS.DESCRIPTION.MAX_LENGTH,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(AUDIT_EVIDENCE_CONSTRAINTS.DESCRIPTION.MAX_LENGTH)
+  description?: string
+}
@@ -0,0 +1,74 @@
+import { Entity, Column, ManyToOne, JoinColumn, Index } from 'typeorm'
+import { BaseEntity } from '@core/entities/base.entity'
+import { FileType } from '@core/files/enums'
+import { UserEntity } from '../../users/entities/user.entity'
+import { AUDIT_EVIDENCE_CONSTRAINTS } from '../constants'
+import { AuditEvidenceEntity } from './audit-evidence.entity'
+
+/**
+ * Audit Evidence Version Entity
+ *
+ * Archivo de una versión de la evidencia. Guarda quién lo subió, cuándo y
+ * el hash SHA-256 del contenido para verificar después que no fue alterado.
+ */
+@Entity('audit_evidence_versions')
+@Index(['evidenceId', 'version'], { unique: true })
+export class AuditEvidenceVersionEntity extends BaseEntity {
+  @Column({ type: 'uuid' })
+  evidenceId: string
+
+  @ManyToOne(() => AuditEvidenceEntity, (evidence) => evidence.versions, {
+    onDelete: 'CASCADE',
+  })
+  @JoinColumn({ name: 'evidenceId' })
+  evidence: AuditEvidenceEntity
+
+  /**
+   * Número de versión (1, 2, 3...)
+   */
+  @Column({ type: 'int' })
+  version: number
+
+  /**
+   * Nombre del archivo tal como se subió
+   */
+  @Column({
+    type: 'varchar',
+    length: AUDIT_EVIDENCE_CONSTRAINTS.FILE_NAME.MAX_LENGTH,
+  })
+  originalName: string
+
+  /**
+   * Path del archivo (relativo a uploads)
+   */
+  @Column({ type: 'varchar', length: 500 })
+  filePath: string
+
+  @Column({ type: 'enum', enum: FileType })
+  fileType: FileType
+
+  @Column({ type: 'varchar', length: 150 })
+  mimeType: string
+
+  /**
+   * Tamaño en bytes
+   */
+  @Column({ type: 'int' })
+  size: number
+
+  /**
+   * Hash SHA-256 (hex) del contenido al subirlo
+   */
+  @Column({ type: 'char', length: 64 })
+  sha256: string
+
+  @Column({ type: 'uuid' })
+  uploadedById: string
+
+  @ManyToOne(() => UserEntity)
+  @JoinColumn({ name: 'uploadedById' })
+  uploadedBy: UserEntity
+
+  @Column({ type: 'timestamp' })
+  uploadedAt: Date
+}
@@ -0,0 +1,59 @@
+import {
+  Entity,
+  Column,
+  ManyToOne,
+  OneToMany,
+  JoinColumn,
+  Index,
+} from 'typeorm'
+import { BaseEntity } from '@core/entities/base.entity'
+import { AUDIT_EVIDENCE_CONSTRAINTS } from '../constants'
+import { AuditEntity } from './audit.entity'
+import { AuditStandardEntity } from './audit-standard.entity'
+import { AuditEvidenceVersionEntity } from './audit-evidence-version.entity'
+
+/**
+ * Audit Evidence Entity
+ *
+ * Evidencia adjunta a un standard auditable de la auditoría (política,
+ * captura, exportación). El archivo vive en sus versiones: subir una nueva
+ * versión no reemplaza ni elimina las anteriores.
+ */
+@Entity('audit_evidences')
+@Index(['auditId', 'auditStandardId'])
+export class AuditEvidenceEntity extends BaseEntity {
+  @Column({ type: 'uuid' })
+  auditId: string
+
+  @ManyToOne(() => AuditEntity, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'auditId' })
+  audit: AuditEntity
+
+  /**
+   * Standard al que respalda (del snapshot de la auditoría)
+   */
+  @Column({ type: 'uuid' })
+  auditStandardId: string
+
+  @ManyToOne(() => AuditStandardEntity, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'auditStandardId' })
+  auditStandard: AuditStandardEntity
+
+  @Column({
+    type: 'varchar',
+    length: AUDIT_EVIDENCE_CONSTRAINTS.TITLE.MAX_LENGTH,
+  })
+  title: string
+
+  @Column({ type: 'text', nullable: true })
+  description: string | null
+
+  /**
+   * Número de la última versión subida
+   */
+  @Column({ type: 'int', default: 1 })
+  currentVersion: number
+
+  @OneToMany(() => AuditEvidenceVersionEntity, (version) => version.evidence)
+  versions: AuditEvidenceVersionEntity[]
+}
@@ -0,0 +1,70 @@
+import { Entity, Column, ManyToOne, JoinColumn, Index } from 'typeorm'
+import { BaseEntity } from '@core/entities/base.entity'
+import { MaturityLevelEntity } from '../../maturity/levels/entities/maturity-level.entity'
+import { UserEntity } from '../../users/entities/user.entity'
+import { AuditEntity } from './audit.entity'
+import { AuditStandardEntity } from './audit-standard.entity'
+
+/**
+ * Audit Score Entity
+ *
+ * Evaluación de madurez de un standard auditable dentro de una auditoría.
+ * Cada standard tiene como máximo una evaluación vigente; volver a
+ * evaluarlo sobrescribe el nivel, la justificación y el auditor.
+ */
+@Entity('audit_scores')
+@Index(['auditId', 'auditStandardId'], {
+  unique: true,
+  where: '"deletedAt" IS NULL',
+})
+export class AuditScoreEntity extends BaseEntity {
+  @Column({ type: 'uuid' })
+  auditId: string
+
+  @ManyToOne(() => AuditEntity, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'auditId' })
+  audit: AuditEntity
+
+  /**
+   * Standard evaluado (del snapshot de la auditoría)
+   */
+  @Column({ type: 'uuid' })
+  auditStandardId: string
+
+  @ManyToOne(() => AuditStandardEntity, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'auditStandardId' })
+  auditStandard: AuditStandardEntity
+
+  /**
+   * Nivel de madurez asignado (del framework de la auditoría)
+   */
+  @Column({ type: 'uuid' })
+  maturityLevelId: string
+
+  @ManyToOne(() => MaturityLevelEntity)
+  @JoinColumn({ name: 'maturityLevelId' })
+  maturityLevel: MaturityLevelEntity
+
+  /**
+   * Valor numérico del nivel al momento de evaluar (ej: 3)
+   * Se guarda para cálculos sin tener que cargar el nivel
+   */
+  @Column({ type: 'int' })
+  level: number
+
+  @Column({ type: 'text' })
+  justification: string
+
+  /**
+   * Auditor que realizó la evaluación
+   */
+  @Column({ type: 'uuid' })
+  assessedById: string
+
+  @ManyToOne(() => UserEntity)
+  @JoinColumn({ name: 'assessedById' })
+  assessedBy: UserEntity
+
+  @Column({ type: 'timestamp' })
+  assessedAt: Date
+}
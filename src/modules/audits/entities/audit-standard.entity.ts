@@ -0,0 +1,78 @@
+import {
+  Entity,
+  Column,
+  ManyToOne,
+  OneToMany,
+  JoinColumn,
+  Index,
+} from 'typeorm'
+import { BaseEntity } from '@core/entities/base.entity'
+import { STANDARDS_CONSTRAINTS } from '../../audit-library/standards/constants'
+import { AuditEntity } from './audit.entity'
+
+/**
+ * Audit Standard Entity
+ *
+ * Copia inmutable de un StandardEntity tomada al crear la auditoría.
+ * Incluye los standards auditables y sus ancestros (agrupadores) para
+ * conservar la jerarquía original.
+ *
+ * El parentId apunta a otro AuditStandardEntity de la misma auditoría,
+ * nunca al standard original de la plantilla.
+ */
+@Entity('audit_standards')
+@Index(['auditId', 'code'], { unique: true })
+@Index(['auditId', 'order'])
+@Index(['parentId'])
+export class AuditStandardEntity extends BaseEntity {
+  @Column({ type: 'uuid' })
+  auditId: string
+
+  @ManyToOne(() => AuditEntity, (audit) => audit.standards, {
+    onDelete: 'CASCADE',
+  })
+  @JoinColumn({ name: 'auditId' })
+  audit: AuditEntity
+
+  /**
+   * ID del standard original de la plantilla (trazabilidad)
+   */
+  @Column({ type: 'uuid' })
+  sourceStandardId: string
+
+  @Column({ type: 'uuid', nullable: true })
+  parentId: string | null
+
+  @ManyToOne(() => AuditStandardEntity, (standard) => standard.children, {
+    nullable: true,
+    onDelete: 'CASCADE',
+  })
+  @JoinColumn({ name: 'parentId' })
+  parent: AuditStandardEntity | null
+
+  @OneToMany(() => AuditStandardEntity, (standard) => standard.parent, {
+    cascade: ['insert', 'update'],
+  })
+  children: AuditStandardEntity[]
+
+  @Column({ type: 'varchar', length: STANDARDS_CONSTRAINTS.CODE.MAX_LENGTH })
+  code: string
+
+  @Column({ type: 'varchar', length: STANDARDS_CONSTRAINTS.TITLE.MAX_LENGTH })
+  title: string
+
+  @Column({ type: 'text', nullable: true })
+  description: string | null
+
+  @Column({ type: 'int' })
+  order: number
+
+  @Column({ type: 'int', default: 1 })
+  level: number
+
+  /**
+   * false = agrupador copiado solo para mantener la jerarquía
+   */
+  @Column({ type: 'boolean', default: true })
+  isAuditable: boolean
+}
@@ -0,0 +1,202 @@
+import {
+  Entity,
+  Column,
+  ManyToOne,
+  OneToMany,
+  JoinColumn,
+  Index,
+} from 'typeorm'
+import { BaseEntity } from '@core/entities/base.entity'
+import { TenantScoped } from '@core/database/tenant-scoped.decorator'
+import { Reviewable } from '@core/database/reviewable.decorator'
+import { TemplateEntity } from '../../audit-library/templates/entities/template.entity'
+import { OrganizationEntity } from '../../organizations/entities/organization.entity'
+import { MaturityFrameworkEntity } from '../../maturity/frameworks/entities/maturity-framework.entity'
+import { UserEntity } from '../../users/entities/user.entity'
+import {
+  AUDIT_CONSTRAINTS,
+  AUDIT_STATUS_TRANSITIONS,
+  AuditStatus,
+} from '../constants'
+import { AuditStandardEntity } from './audit-standard.entity'
+import { AuditScoreEntity } from './audit-score.entity'
+
+/**
+ * Audit Entity
+ *
+ * Representa un encargo de auditoría: la aplicación de una plantilla
+ * PUBLICADA a una organización, evaluada con un framework de madurez.
+ *
+ * Al crearse se guarda una copia (snapshot) de los standards auditables
+ * de la plantilla, de modo que ediciones posteriores de la plantilla
+ * no alteren una auditoría en curso.
+ *
+ * Ciclo de vida: planned → in_fieldwork → in_review → closed
+ *
+ * El trabajo del auditor (datos generales y evaluaciones) pasa por la
+ * revisión maker/checker ('audit' en /reviews) antes de cerrarse.
+ *
+ * Pertenece a la organización auditada: sus evaluaciones, evidencias y
+ * snapshot de standards se filtran a través de ella.
+ */
+@TenantScoped<AuditEntity>('organizationId')
+@Reviewable<AuditEntity>({
+  type: 'audit',
+  ignore: ['status', 'closedAt'],
+  content: async ({ entity, manager }) => ({
+    scores: (
+      await manager.find(AuditScoreEntity, {
+        where: { auditId: entity.id },
+        order: { auditStandardId: 'ASC' },
+      })
+    ).map((score) => ({
+      auditStandardId: score.auditStandardId,
+      maturityLevelId: score.maturityLevelId,
+      level: score.level,
+      justification: score.justification,
+    })),
+  }),
+  authors: async ({ entity, manager }) =>
+    (
+      await manager.find(AuditScoreEntity, {
+        where: { auditId: entity.id },
+        select: { assessedById: true },
+      })
+    ).map((score) => score.assessedById),
+})
+@Entity('audits')
+@Index(['code'], { unique: true, where: '"deletedAt" IS NULL' })
+@Index(['organizationId'])
+@Index(['templateId'])
+@Index(['status'])
+export class AuditEntity extends BaseEntity {
+  /**
+   * Código único de la auditoría (ej: 'AUD-2025-001')
+   */
+  @Column({ type: 'varchar', length: AUDIT_CONSTRAINTS.CODE.MAX_LENGTH })
+  code: string
+
+  @Column({ type: 'varchar', length: AUDIT_CONSTRAINTS.NAME.MAX_LENGTH })
+  name: string
+
+  /**
+   * Alcance de la auditoría (procesos, áreas, sistemas incluidos)
+   */
+  @Column({ type: 'text', nullable: true })
+  scope: string | null
+
+  /**
+   * Plantilla de la que se originó la auditoría
+   */
+  @Column({ type: 'uuid' })
+  templateId: string
+
+  @ManyToOne(() => TemplateEntity)
+  @JoinColumn({ name: 'templateId' })
+  template: TemplateEntity
+
+  /**
+   * Organización auditada
+   */
+  @Column({ type: 'uuid' })
+  organizationId: string
+
+  @ManyToOne(() => OrganizationEntity)
+  @JoinColumn({ name: 'organizationId' })
+  organization: OrganizationEntity
+
+  /**
+   * Framework de madurez con el que se evalúan los controles
+   */
+  @Column({ type: 'uuid' })
+  frameworkId: string
+
+  @ManyToOne(() => MaturityFrameworkEntity)
+  @JoinColumn({ name: 'frameworkId' })
+  framework: MaturityFrameworkEntity
+
+  /**
+   * Auditor líder responsable del encargo
+   */
+  @Column({ type: 'uuid' })
+  leadAuditorId: string
+
+  @ManyToOne(() => UserEntity)
+  @JoinColumn({ name: 'leadAuditorId' })
+  leadAuditor: UserEntity
+
+  @Column({ type: 'date' })
+  plannedStartDate: string
+
+  @Column({ type: 'date' })
+  plannedEndDate: string
+
+  /**
+   * Fecha real de inicio del trabajo de campo
+   */
+  @Column({ type: 'timestamp', nullable: true })
+  startedAt: Date | null
+
+  /**
+   * Fecha de cierre de la auditoría
+   */
+  @Column({ type: 'timestamp', nullable: true })
+  closedAt: Date | null
+
+  @Column({
+    type: 'enum',
+    enum: AuditStatus,
+    default: AuditStatus.PLANNED,
+  })
+  status: AuditStatus
+
+  /**
+   * Snapshot de los standards de la plantilla (solo raíces, hijos anidados)
+   */
+  @OneToMany(() => AuditStandardEntity, (standard) => standard.audit, {
+    cascade: ['insert', 'update'],
+  })
+  standards: AuditStandardEntity[]
+
+  /**
+   * ¿Se pueden editar los datos generales? (nombre, alcance, fechas, líder)
+   * Prohibido una vez cerrada.
+   */
+  get isEditable(): boolean {
+    return this.status !== AuditStatus.CLOSED
+  }
+
+  /**
+   * Solo se puede eliminar una auditoría que aún no empezó
+   */
+  get isDeletable(): boolean {
+    return this.status === AuditStatus.PLANNED
+  }
+
+  /**
+   * Solo se evalúan standards durante el trabajo de campo o la revisión
+   */
+  get canBeScored(): boolean {
+    return [AuditStatus.IN_FIELDWORK, AuditStatus.IN_REVIEW].includes(
+      this.status,
+    )
+  }
+
+  canTransitionTo(status: AuditStatus): boolean {
+    return AUDIT_STATUS_TRANSITIONS[this.status].includes(status)
+  }
+
+  startFieldwork(): void {
+    this.status = AuditStatus.IN_FIELDWORK
+    this.startedAt = new Date()
+  }
+
+  submitForReview(): void {
+    this.status = AuditStatus.IN_REVIEW
+  }
+
+  close(): void {
+    this.status = AuditStatus.CLOSED
+    this.closedAt = new Date()
+  }
+}
@@ -0,0 +1,5 @@
+export * from './audit.entity'
+export * from './audit-standard.entity'
+export * from './audit-score.entity'
+export * from './audit-evidence.entity'
+export * from './audit-evidence-version.entity'
@@ -0,0 +1,9 @@
+import { NotFoundException } from '@nestjs/common'
+
+export class AuditEvidenceNotFoundException extends NotFoundException {
+  constructor(evidenceId: string, auditId: string) {
+    super(
+      `Evidencia con ID ${evidenceId} no encontrada en la auditoría ${auditId}`,
+    )
+  }
+}
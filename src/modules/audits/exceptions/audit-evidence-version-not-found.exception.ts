@@ -0,0 +1,7 @@
+import { NotFoundException } from '@nestjs/common'
+
+export class AuditEvidenceVersionNotFoundException extends NotFoundException {
+  constructor(version: number, title: string) {
+    super(`La evidencia "${title}" no tiene la versión ${version}`)
+  }
+}
@@ -0,0 +1,10 @@
+import { BadRequestException } from '@nestjs/common'
+import { AuditStatus } from '../constants'
+
+export class AuditNotEditableException extends BadRequestException {
+  constructor(code: string, status: AuditStatus) {
+    super(
+      `La auditoría ${code} no se puede modificar porque está en estado "${status}"`,
+    )
+  }
+}
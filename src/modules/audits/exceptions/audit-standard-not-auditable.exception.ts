@@ -0,0 +1,9 @@
+import { BadRequestException } from '@nestjs/common'
+
+export class AuditStandardNotAuditableException extends BadRequestException {
+  constructor(code: string) {
+    super(
+      `El standard ${code} es un agrupador (no auditable) y no puede evaluarse`,
+    )
+  }
+}
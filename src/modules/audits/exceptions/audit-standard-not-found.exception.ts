@@ -0,0 +1,9 @@
+import { NotFoundException } from '@nestjs/common'
+
+export class AuditStandardNotFoundException extends NotFoundException {
+  constructor(auditStandardId: string, auditId: string) {
+    super(
+      `Standard con ID ${auditStandardId} no encontrado en la auditoría ${auditId}`,
+    )
+  }
+}
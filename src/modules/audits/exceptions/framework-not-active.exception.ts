@@ -0,0 +1,9 @@
+import { BadRequestException } from '@nestjs/common'
+
+export class FrameworkNotActiveException extends BadRequestException {
+  constructor(frameworkName: string) {
+    super(
+      `El framework de madurez "${frameworkName}" está inactivo y no puede asignarse a nuevas auditorías`,
+    )
+  }
+}
@@ -0,0 +1,16 @@
+export * from './audit-not-found.exception'
+export * from './audit-already-exists.exception'
+export * from './audit-not-editable.exception'
+export * from './template-not-usable-for-audit.exception'
+export * from './framework-not-active.exception'
+export * from './organization-not-active.exception'
+export * from './invalid-lead-auditor.exception'
+export * from './invalid-audit-dates.exception'
+export * from './invalid-audit-status-transition.exception'
+export * from './audit-standard-not-found.exception'
+export * from './audit-standard-not-auditable.exception'
+export * from './maturity-level-not-in-framework.exception'
+export * from './maturity-level-out-of-range.exception'
+export * from './audit-evidence-not-found.exception'
+export * from './audit-evidence-version-not-found.exception'
+export * from './unsupported-evidence-file.exception'
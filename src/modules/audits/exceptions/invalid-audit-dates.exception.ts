@@ -0,0 +1,9 @@
+import { BadRequestException } from '@nestjs/common'
+
+export class InvalidAuditDatesException extends BadRequestException {
+  constructor(startDate: string, endDate: string) {
+    super(
+      `Rango de fechas inválido: la fecha de inicio (${startDate}) debe ser anterior o igual a la fecha de fin (${endDate})`,
+    )
+  }
+}
@@ -0,0 +1,10 @@
+import { BadRequestException } from '@nestjs/common'
+import { AuditStatus } from '../constants'
+
+export class InvalidAuditStatusTransitionException extends BadRequestException {
+  constructor(from: AuditStatus, to: AuditStatus) {
+    super(
+      `No se puede cambiar el estado de la auditoría de "${from}" a "${to}"`,
+    )
+  }
+}
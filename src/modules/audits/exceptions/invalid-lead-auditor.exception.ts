@@ -0,0 +1,13 @@
+import { BadRequestException } from '@nestjs/common'
+
+/**
+ * Excepción lanzada cuando el usuario no puede ser auditor líder
+ * (inactivo o sin rol de auditor)
+ */
+export class InvalidLeadAuditorException extends BadRequestException {
+  constructor(username: string) {
+    super(
+      `El usuario "${username}" no puede ser auditor líder: debe estar activo y tener el rol de auditor`,
+    )
+  }
+}
@@ -0,0 +1,12 @@
+import { BadRequestException } from '@nestjs/common'
+
+/**
+ * Excepción lanzada cuando el nivel elegido no pertenece al framework de la auditoría
+ */
+export class MaturityLevelNotInFrameworkException extends BadRequestException {
+  constructor(levelName: string, frameworkName: string) {
+    super(
+      `El nivel de madurez "${levelName}" no pertenece al framework "${frameworkName}" de la auditoría`,
+    )
+  }
+}
@@ -0,0 +1,9 @@
+import { BadRequestException } from '@nestjs/common'
+
+export class MaturityLevelOutOfRangeException extends BadRequestException {
+  constructor(level: number, minLevel: number, maxLevel: number) {
+    super(
+      `El nivel ${level} está fuera del rango del framework (${minLevel}-${maxLevel})`,
+    )
+  }
+}
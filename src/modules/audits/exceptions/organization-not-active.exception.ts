@@ -0,0 +1,9 @@
+import { BadRequestException } from '@nestjs/common'
+
+export class OrganizationNotActiveException extends BadRequestException {
+  constructor(organizationName: string) {
+    super(
+      `La organización "${organizationName}" está inactiva y no puede ser auditada`,
+    )
+  }
+}
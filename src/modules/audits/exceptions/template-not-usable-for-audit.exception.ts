@@ -0,0 +1,13 @@
+import { BadRequestException } from '@nestjs/common'
+
+/**
+ * Excepción lanzada cuando la plantilla no puede usarse para iniciar una auditoría
+ * (no está publicada o no tiene standards auditables)
+ */
+export class TemplateNotUsableForAuditException extends BadRequestException {
+  constructor(templateName: string, reason: string) {
+    super(
+      `La plantilla "${templateName}" no puede usarse para una auditoría: ${reason}`,
+    )
+  }
+}
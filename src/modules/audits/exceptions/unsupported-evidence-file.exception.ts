@@ -0,0 +1,9 @@
+import { BadRequestException } from '@nestjs/common'
+
+export class UnsupportedEvidenceFileException extends BadRequestException {
+  constructor(mimeType: string, allowed: string[]) {
+    super(
+      `Tipo de archivo "${mimeType}" no admitido como evidencia. Tipos permitidos: ${allowed.join(', ')}`,
+    )
+  }
+}
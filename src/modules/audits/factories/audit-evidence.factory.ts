@@ -0,0 +1,61 @@
+import { Injectable } from '@nestjs/common'
+import type { FileType } from '@core/files'
+import { AuditEvidenceEntity, AuditEvidenceVersionEntity } from '../entities'
+import { UploadAuditEvidenceDto } from '../dtos'
+import type { StoredAuditEvidenceFile } from '../interfaces'
+
+@Injectable()
+export class AuditEvidenceFactory {
+  /**
+   * Crea una evidencia (sin archivo) para un standard de la auditoría
+   *
+   * @param auditId - ID de la auditoría
+   * @param dto - Standard, título y descripción
+   * @returns Nueva instancia de AuditEvidenceEntity en la versión 1
+   */
+  createFromDto(
+    auditId: string,
+    dto: UploadAuditEvidenceDto,
+  ): AuditEvidenceEntity {
+    const evidence = new AuditEvidenceEntity()
+    evidence.auditId = auditId
+    evidence.auditStandardId = dto.auditStandardId
+    evidence.title = dto.title.trim()
+    evidence.description = dto.description?.trim() || null
+    evidence.currentVersion = 1
+    return evidence
+  }
+
+  /**
+   * Crea la versión con el archivo ya guardado
+   *
+   * @param evidenceId - ID de la evidencia
+   * @param version - Número de versión
+   * @param file - Archivo subido (nombre original)
+   * @param fileType - Tipo validado
+   * @param stored - Path, tamaño y hash del archivo guardado
+   * @param uploadedById - ID del usuario que sube el archivo
+   * @returns Nueva instancia de AuditEvidenceVersionEntity
+   */
+  createVersion(
+    evidenceId: string,
+    version: number,
+    file: Express.Multer.File,
+    fileType: FileType,
+    stored: StoredAuditEvidenceFile,
+    uploadedById: string,
+  ): AuditEvidenceVersionEntity {
+    const entity = new AuditEvidenceVersionEntity()
+    entity.evidenceId = evidenceId
+    entity.version = version
+    entity.originalName = file.originalname
+    entity.filePath = stored.filePath
+    entity.fileType = fileType
+    entity.mimeType = stored.mimeType
+    entity.size = stored.size
+    entity.sha256 = stored.sha256
+    entity.uploadedById = uploadedById
+    entity.uploadedAt = new Date()
+    return entity
+  }
+}
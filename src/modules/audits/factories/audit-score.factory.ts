@@ -0,0 +1,51 @@
+import { Injectable } from '@nestjs/common'
+import { AuditScoreEntity } from '../entities'
+import { ScoreAuditStandardDto } from '../dtos'
+import { MaturityLevelEntity } from '../../maturity/levels/entities/maturity-level.entity'
+
+@Injectable()
+export class AuditScoreFactory {
+  /**
+   * Crea una nueva evaluación de madurez para un standard de la auditoría
+   *
+   * @param auditId - ID de la auditoría
+   * @param dto - Datos de la evaluación
+   * @param level - Nivel de madurez ya validado
+   * @param assessedById - ID del auditor que evalúa
+   * @returns Nueva instancia de AuditScoreEntity
+   */
+  createFromDto(
+    auditId: string,
+    dto: ScoreAuditStandardDto,
+    level: MaturityLevelEntity,
+    assessedById: string,
+  ): AuditScoreEntity {
+    const score = new AuditScoreEntity()
+    score.auditId = auditId
+    score.auditStandardId = dto.auditStandardId
+    return this.updateFromDto(score, dto, level, assessedById)
+  }
+
+  /**
+   * Sobrescribe una evaluación existente (re-evaluación)
+   *
+   * @param score - Evaluación original
+   * @param dto - Nuevos datos
+   * @param level - Nivel de madurez ya validado
+   * @param assessedById - ID del auditor que re-evalúa
+   * @returns La misma entidad con los datos nuevos
+   */
+  updateFromDto(
+    score: AuditScoreEntity,
+    dto: ScoreAuditStandardDto,
+    level: MaturityLevelEntity,
+    assessedById: string,
+  ): AuditScoreEntity {
+    score.maturityLevelId = level.id
+    score.level = level.level
+    score.justification = dto.justification.trim()
+    score.assessedById = assessedById
+    score.assessedAt = new Date()
+    return score
+  }
+}
@@ -0,0 +1,63 @@
+import { Injectable } from '@nestjs/common'
+import { AuditEntity } from '../entities'
+import { AuditStatus } from '../constants'
+import { CreateAuditDto, UpdateAuditDto } from '../dtos'
+
+@Injectable()
+export class AuditFactory {
+  /**
+   * Crea una nueva entidad AuditEntity desde el DTO.
+   * Aplica normalización de datos (trim, uppercase para code).
+   *
+   * @param dto - Datos de la auditoría a crear
+   * @returns Nueva instancia de AuditEntity en estado PLANNED
+   */
+  createFromDto(dto: CreateAuditDto): AuditEntity {
+    const audit = new AuditEntity()
+    audit.code = dto.code.trim().toUpperCase()
+    audit.name = dto.name.trim()
+    audit.scope = dto.scope?.trim() || null
+    audit.templateId = dto.templateId
+    audit.organizationId = dto.organizationId
+    audit.frameworkId = dto.frameworkId
+    audit.leadAuditorId = dto.leadAuditorId
+    audit.plannedStartDate = dto.plannedStartDate
+    audit.plannedEndDate = dto.plannedEndDate
+    audit.startedAt = null
+    audit.closedAt = null
+    audit.status = AuditStatus.PLANNED
+    return audit
+  }
+
+  /**
+   * Actualiza una entidad existente.
+   * Solo actualiza los campos que vienen definidos en el DTO.
+   *
+   * @param audit - La entidad original recuperada de la BD
+   * @param dto - Los datos a actualizar (Partial)
+   * @returns La misma entidad con los datos nuevos
+   */
+  updateFromDto(audit: AuditEntity, dto: UpdateAuditDto): AuditEntity {
+    if (dto.name !== undefined) {
+      audit.name = dto.name.trim()
+    }
+
+    if (dto.scope !== undefined) {
+      audit.scope = dto.scope?.trim() || null
+    }
+
+    if (dto.leadAuditorId !== undefined) {
+      audit.leadAuditorId = dto.leadAuditorId
+    }
+
+    if (dto.plannedStartDate !== undefined) {
+      audit.plannedStartDate = dto.plannedStartDate
+    }
+
+    if (dto.plannedEndDate !== undefined) {
+      audit.plannedEndDate = dto.plannedEndDate
+    }
+
+    return audit
+  }
+}
@@ -0,0 +1,3 @@
+export * from './audit.factory'
+export * from './audit-score.factory'
+export * from './audit-evidence.factory'
@@ -0,0 +1,8 @@
+export * from './audits.module'
+export * from './constants'
+export * from './entities'
+export * from './dtos'
+export * from './interfaces'
+export * from './repositories'
+export * from './exceptions'
+export * from './tokens'
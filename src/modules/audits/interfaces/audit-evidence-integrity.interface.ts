@@ -0,0 +1,25 @@
+/**
+ * Resultado de verificar el archivo de una versión de evidencia
+ */
+export interface AuditEvidenceIntegrity {
+  evidenceId: string
+  version: number
+  filePath: string
+  /** Hash SHA-256 guardado al subir el archivo */
+  expectedSha256: string
+  /** Hash del archivo almacenado hoy. null = el archivo ya no existe */
+  actualSha256: string | null
+  /** true = el archivo no fue alterado ni eliminado */
+  valid: boolean
+  verifiedAt: Date
+}
+
+/**
+ * Archivo de evidencia guardado, con su hash
+ */
+export interface StoredAuditEvidenceFile {
+  filePath: string
+  size: number
+  mimeType: string
+  sha256: string
+}
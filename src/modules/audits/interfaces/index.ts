@@ -0,0 +1,2 @@
+export * from './maturity-rollup.interface'
+export * from './audit-evidence-integrity.interface'
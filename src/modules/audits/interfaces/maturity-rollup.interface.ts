@@ -0,0 +1,49 @@
+import { MaturityRollupStrategy } from '../constants'
+
+/**
+ * Nivel de referencia del framework (objetivo o mínimo aceptable)
+ */
+export interface MaturityReferenceLevel {
+  id: string
+  level: number
+  name: string
+  color: string
+}
+
+/**
+ * Nodo del árbol de standards anotado con la madurez agregada y sus brechas
+ */
+export interface MaturityRollupNode {
+  id: string
+  code: string
+  title: string
+  level: number
+  order: number
+  isAuditable: boolean
+  /** Madurez del nodo (propia si es hoja, agregada si es padre). null = sin evaluar */
+  maturity: number | null
+  /** Standards auditables evaluados en el subárbol */
+  scoredCount: number
+  /** Standards auditables en el subárbol */
+  auditableCount: number
+  /** Positivo = por debajo del objetivo, negativo = por encima */
+  gapToTarget: number | null
+  /** Positivo = por debajo del mínimo aceptable */
+  gapToMinimum: number | null
+  meetsTarget: boolean | null
+  meetsMinimum: boolean | null
+  children: MaturityRollupNode[]
+}
+
+export interface MaturityRollupResult {
+  auditId: string
+  strategy: MaturityRollupStrategy
+  target: MaturityReferenceLevel | null
+  minimumAcceptable: MaturityReferenceLevel | null
+  /** Madurez global de la auditoría (agregación de las raíces) */
+  overall: Omit<
+    MaturityRollupNode,
+    'id' | 'code' | 'title' | 'level' | 'order' | 'isAuditable' | 'children'
+  >
+  tree: MaturityRollupNode[]
+}
@@ -0,0 +1,22 @@
+import { Injectable } from '@nestjs/common'
+import { InjectRepository } from '@nestjs/typeorm'
+import { Repository } from 'typeorm'
+import { BaseRepository } from '@core/repositories'
+import { TransactionService, AuditService } from '@core/database'
+import { AuditEvidenceVersionEntity } from '../entities/audit-evidence-version.entity'
+import type { IAuditEvidenceVersionsRepository } from './interfaces/audit-evidence-versions-repository.interface'
+
+@Injectable()
+export class AuditEvidenceVersionsRepository
+  extends BaseRepository<AuditEvidenceVersionEntity>
+  implements IAuditEvidenceVersionsRepository
+{
+  constructor(
+    @InjectRepository(AuditEvidenceVersionEntity)
+    repository: Repository<AuditEvidenceVersionEntity>,
+    transactionService: TransactionService,
+    auditService: AuditService,
+  ) {
+    super(repository, transactionService, auditService)
+  }
+}
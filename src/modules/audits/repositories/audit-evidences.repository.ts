@@ -0,0 +1,81 @@
+import { Injectable } from '@nestjs/common'
+import { InjectRepository } from '@nestjs/typeorm'
+import { Repository } from 'typeorm'
+import { BaseRepository } from '@core/repositories'
+import { TransactionService, AuditService } from '@core/database'
+import { AuditEvidenceEntity } from '../entities/audit-evidence.entity'
+import { AuditEntity } from '../entities/audit.entity'
+import type { IAuditEvidencesRepository } from './interfaces/audit-evidences-repository.interface'
+
+@Injectable()
+export class AuditEvidencesRepository
+  extends BaseRepository<AuditEvidenceEntity>
+  implements IAuditEvidencesRepository
+{
+  constructor(
+    @InjectRepository(AuditEvidenceEntity)
+    repository: Repository<AuditEvidenceEntity>,
+    transactionService: TransactionService,
+    auditService: AuditService,
+  ) {
+    super(repository, transactionService, auditService)
+  }
+
+  /**
+   * Evidencias de la auditoría (opcionalmente de un standard) con su
+   * standard y versiones, la más reciente primero
+   */
+  async findByAudit(
+    auditId: string,
+    auditStandardId?: string,
+  ): Promise<AuditEvidenceEntity[]> {
+    return await this.getRepo().find({
+      where: {
+        auditId,
+        ...(auditStandardId ? { auditStandardId } : {}),
+        ...this.parentTenantScope('audit', AuditEntity),
+      },
+      relations: { auditStandard: true, versions: { uploadedBy: true } },
+      order: {
+        auditStandard: { level: 'ASC', order: 'ASC' },
+        createdAt: 'ASC',
+        versions: { version: 'DESC' },
+      },
+    })
+  }
+
+  /**
+   * Busca una evidencia asegurando que pertenece a la auditoría
+   */
+  async findOneInAudit(
+    auditId: string,
+    evidenceId: string,
+  ): Promise<AuditEvidenceEntity | null> {
+    return await this.getRepo().findOne({
+      where: {
+        id: evidenceId,
+        auditId,
+        ...this.parentTenantScope('audit', AuditEntity),
+      },
+      relations: { auditStandard: true, versions: { uploadedBy: true } },
+      order: { versions: { version: 'DESC' } },
+    })
+  }
+
+  /**
+   * Bloquea la evidencia (SELECT ... FOR UPDATE) hasta que termine la
+   * transacción actual, para que las subidas simultáneas de versiones
+   * se ejecuten una detrás de otra
+   */
+  async lockInAudit(auditId: string, evidenceId: string): Promise<void> {
+    await this.getRepo().findOne({
+      where: {
+        id: evidenceId,
+        auditId,
+        ...this.parentTenantScope('audit', AuditEntity),
+      },
+      // Solo la evidencia: el join con la auditoría (tenant) no se bloquea
+      lock: { mode: 'pessimistic_write', tables: ['audit_evidences'] },
+    })
+  }
+}
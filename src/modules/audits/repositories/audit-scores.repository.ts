@@ -0,0 +1,51 @@
+import { Injectable } from '@nestjs/common'
+import { InjectRepository } from '@nestjs/typeorm'
+import { Repository } from 'typeorm'
+import { BaseRepository } from '@core/repositories'
+import { TransactionService, AuditService } from '@core/database'
+import { AuditScoreEntity } from '../entities/audit-score.entity'
+import { AuditEntity } from '../entities/audit.entity'
+import type { IAuditScoresRepository } from './interfaces/audit-scores-repository.interface'
+
+@Injectable()
+export class AuditScoresRepository
+  extends BaseRepository<AuditScoreEntity>
+  implements IAuditScoresRepository
+{
+  constructor(
+    @InjectRepository(AuditScoreEntity)
+    repository: Repository<AuditScoreEntity>,
+    transactionService: TransactionService,
+    auditService: AuditService,
+  ) {
+    super(repository, transactionService, auditService)
+  }
+
+  /**
+   * Obtiene las evaluaciones de una auditoría con su nivel, standard y auditor
+   */
+  async findByAudit(auditId: string): Promise<AuditScoreEntity[]> {
+    return await this.getRepo().find({
+      where: { auditId, ...this.parentTenantScope('audit', AuditEntity) },
+      relations: {
+        auditStandard: true,
+        maturityLevel: true,
+        assessedBy: true,
+      },
+      order: { auditStandard: { level: 'ASC', order: 'ASC' } },
+    })
+  }
+
+  async findByAuditAndStandard(
+    auditId: string,
+    auditStandardId: string,
+  ): Promise<AuditScoreEntity | null> {
+    return await this.getRepo().findOne({
+      where: {
+        auditId,
+        auditStandardId,
+        ...this.parentTenantScope('audit', AuditEntity),
+      },
+    })
+  }
+}
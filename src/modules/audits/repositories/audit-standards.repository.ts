@@ -0,0 +1,74 @@
+import { Injectable } from '@nestjs/common'
+import { InjectRepository } from '@nestjs/typeorm'
+import { Repository } from 'typeorm'
+import { BaseRepository } from '@core/repositories'
+import { TransactionService, AuditService } from '@core/database'
+import { AuditStandardEntity } from '../entities/audit-standard.entity'
+import { AuditEntity } from '../entities/audit.entity'
+import type { IAuditStandardsRepository } from './interfaces/audit-standards-repository.interface'
+
+@Injectable()
+export class AuditStandardsRepository
+  extends BaseRepository<AuditStandardEntity>
+  implements IAuditStandardsRepository
+{
+  constructor(
+    @InjectRepository(AuditStandardEntity)
+    repository: Repository<AuditStandardEntity>,
+    transactionService: TransactionService,
+    auditService: AuditService,
+  ) {
+    super(repository, transactionService, auditService)
+  }
+
+  /**
+   * Reconstruye el árbol del snapshot (mismo cableado que StandardsRepository.getTree)
+   */
+  async getTree(auditId: string): Promise<AuditStandardEntity[]> {
+    const items = await this.findByAudit(auditId)
+
+    const roots: AuditStandardEntity[] = []
+    const map = new Map<string, AuditStandardEntity>()
+
+    items.forEach((item) => {
+      item.children = []
+      map.set(item.id, item)
+    })
+
+    items.forEach((item) => {
+      if (item.parentId && map.has(item.parentId)) {
+        map.get(item.parentId)!.children.push(item)
+      } else {
+        roots.push(item)
+      }
+    })
+
+    return roots
+  }
+
+  /**
+   * Obtiene todo el snapshot de forma plana, ordenado jerárquicamente
+   */
+  async findByAudit(auditId: string): Promise<AuditStandardEntity[]> {
+    return await this.getRepo().find({
+      where: { auditId, ...this.parentTenantScope('audit', AuditEntity) },
+      order: { level: 'ASC', order: 'ASC' },
+    })
+  }
+
+  /**
+   * Busca un standard del snapshot asegurando que pertenece a la auditoría
+   */
+  async findOneInAudit(
+    auditId: string,
+    auditStandardId: string,
+  ): Promise<AuditStandardEntity | null> {
+    return await this.getRepo().findOne({
+      where: {
+        id: auditStandardId,
+        auditId,
+        ...this.parentTenantScope('audit', AuditEntity),
+      },
+    })
+  }
+}
@@ -0,0 +1,103 @@
+import { Injectable } from '@nestjs/common'
+import { InjectRepository } from '@nestjs/typeorm'
+import { Brackets, Repository } from 'typeorm'
+import { BaseRepository } from '@core/repositories'
+import { TransactionService, AuditService } from '@core/database'
+import { PaginatedData } from '@core/dtos'
+import { AuditEntity } from '../entities/audit.entity'
+import { FindAuditsDto, AUDIT_SEARCH_FIELDS } from '../dtos'
+import type { IAuditsRepository } from './interfaces/audits-repository.interface'
+
+/**
+ * Audits Repository
+ *
+ * Repositorio para gestionar auditorías (encargos)
+ * Usa BaseRepository para integración con CLS y transacciones
+ */
+@Injectable()
+export class AuditsRepository
+  extends BaseRepository<AuditEntity>
+  implements IAuditsRepository
+{
+  constructor(
+    @InjectRepository(AuditEntity)
+    repository: Repository<AuditEntity>,
+    transactionService: TransactionService,
+    auditService: AuditService,
+  ) {
+    super(repository, transactionService, auditService)
+  }
+
+  /**
+   * Obtiene una auditoría con plantilla, organización, framework y auditor líder
+   *
+   * @param id - ID de la auditoría
+   * @returns Auditoría con relaciones o null
+   */
+  async findOneWithRelations(id: string): Promise<AuditEntity | null> {
+    const audit = await this.getRepo().findOne({
+      where: this.scopeWhere({ id }),
+      relations: {
+        template: true,
+        organization: true,
+        framework: true,
+        leadAuditor: true,
+      },
+    })
+    if (!audit) await this.assertNotCrossTenant(id)
+    return audit
+  }
+
+  async existsByCode(code: string, excludeId?: string): Promise<boolean> {
+    const query = this.getRepo()
+      .createQueryBuilder('audit')
+      .where('audit.code = :code', { code })
+
+    if (excludeId) {
+      query.andWhere('audit.id != :excludeId', { excludeId })
+    }
+
+    return (await query.getCount()) > 0
+  }
+
+  async paginateAudits(
+    query: FindAuditsDto,
+  ): Promise<PaginatedData<AuditEntity>> {
+    const { search, status, organizationId, templateId, leadAuditorId } = query
+
+    const qb = this.getRepo()
+      .createQueryBuilder('audit')
+      .leftJoinAndSelect('audit.organization', 'organization')
+      .leftJoinAndSelect('audit.template', 'template')
+
+    if (status) {
+      qb.andWhere('audit.status = :status', { status })
+    }
+
+    if (organizationId) {
+      qb.andWhere('audit.organizationId = :organizationId', { organizationId })
+    }
+
+    if (templateId) {
+      qb.andWhere('audit.templateId = :templateId', { templateId })
+    }
+
+    if (leadAuditorId) {
+      qb.andWhere('audit.leadAuditorId = :leadAuditorId', { leadAuditorId })
+    }
+
+    if (search) {
+      qb.andWhere(
+        new Brackets((innerQb) => {
+          AUDIT_SEARCH_FIELDS.forEach((field) => {
+            innerQb.orWhere(`LOWER(audit.${field}) LIKE LOWER(:search)`, {
+              search: `%${search}%`,
+            })
+          })
+        }),
+      )
+    }
+
+    return await this.paginateQueryBuilder(qb, query)
+  }
+}
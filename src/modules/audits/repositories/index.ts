@@ -0,0 +1,10 @@
+export * from './audits.repository'
+export * from './audit-standards.repository'
+export * from './interfaces/audits-repository.interface'
+export * from './interfaces/audit-standards-repository.interface'
+export * from './audit-scores.repository'
+export * from './interfaces/audit-scores-repository.interface'
+export * from './audit-evidences.repository'
+export * from './interfaces/audit-evidences-repository.interface'
+export * from './audit-evidence-versions.repository'
+export * from './interfaces/audit-evidence-versions-repository.interface'
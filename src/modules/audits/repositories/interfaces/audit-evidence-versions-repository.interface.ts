@@ -0,0 +1,5 @@
+import type { IBaseRepository } from '@core/repositories'
+import type { AuditEvidenceVersionEntity } from '../../entities/audit-evidence-version.entity'
+
+export type IAuditEvidenceVersionsRepository =
+  IBaseRepository<AuditEvidenceVersionEntity>
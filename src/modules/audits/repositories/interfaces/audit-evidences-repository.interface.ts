@@ -0,0 +1,14 @@
+import type { IBaseRepository } from '@core/repositories'
+import type { AuditEvidenceEntity } from '../../entities/audit-evidence.entity'
+
+export interface IAuditEvidencesRepository extends IBaseRepository<AuditEvidenceEntity> {
+  findByAudit(
+    auditId: string,
+    auditStandardId?: string,
+  ): Promise<AuditEvidenceEntity[]>
+  findOneInAudit(
+    auditId: string,
+    evidenceId: string,
+  ): Promise<AuditEvidenceEntity | null>
+  lockInAudit(auditId: string, evidenceId: string): Promise<void>
+}
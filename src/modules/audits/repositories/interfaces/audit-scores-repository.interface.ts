@@ -0,0 +1,10 @@
+import type { IBaseRepository } from '@core/repositories'
+import type { AuditScoreEntity } from '../../entities/audit-score.entity'
+
+export interface IAuditScoresRepository extends IBaseRepository<AuditScoreEntity> {
+  findByAudit(auditId: string): Promise<AuditScoreEntity[]>
+  findByAuditAndStandard(
+    auditId: string,
+    auditStandardId: string,
+  ): Promise<AuditScoreEntity | null>
+}
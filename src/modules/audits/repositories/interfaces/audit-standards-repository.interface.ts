@@ -0,0 +1,16 @@
+import type { IBaseRepository } from '@core/repositories'
+import type { AuditStandardEntity } from '../../entities/audit-standard.entity'
+
+/**
+ * Audit Standards Repository Interface
+ *
+ * Acceso de solo lectura al snapshot de standards de una auditoría
+ */
+export interface IAuditStandardsRepository extends IBaseRepository<AuditStandardEntity> {
+  getTree(auditId: string): Promise<AuditStandardEntity[]>
+  findByAudit(auditId: string): Promise<AuditStandardEntity[]>
+  findOneInAudit(
+    auditId: string,
+    auditStandardId: string,
+  ): Promise<AuditStandardEntity | null>
+}
@@ -0,0 +1,10 @@
+import type { IBaseRepository } from '@core/repositories'
+import type { AuditEntity } from '../../entities/audit.entity'
+import { FindAuditsDto } from '../../dtos'
+import { PaginatedData } from '@core/dtos'
+
+export interface IAuditsRepository extends IBaseRepository<AuditEntity> {
+  findOneWithRelations(id: string): Promise<AuditEntity | null>
+  existsByCode(code: string, excludeId?: string): Promise<boolean>
+  paginateAudits(query: FindAuditsDto): Promise<PaginatedData<AuditEntity>>
+}
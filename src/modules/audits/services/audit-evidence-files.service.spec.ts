@@ -0,0 +1,131 @@
+/* eslint-disable @typescript-eslint/unbound-method */
+import { Readable } from 'stream'
+import type { FilesService } from '@core/files'
+import { FileType } from '@core/files'
+import { AuditEvidenceFilesService } from './audit-evidence-files.service'
+import { AuditEvidenceVersionEntity } from '../entities'
+
+describe('AuditEvidenceFilesService', () => {
+  let service: AuditEvidenceFilesService
+  let filesService: jest.Mocked<FilesService>
+
+  // SHA-256 de 'politica v1'
+  const content = Buffer.from('politica v1')
+  const contentHash =
+    '1f5e7794557acc7edcb1d8e6215cc5ea9927f2b408b58e5bb9b0c2d1f95daae0'
+
+  const file: Express.Multer.File = {
+    fieldname: 'file',
+    originalname: 'politica.pdf',
+    encoding: '7bit',
+    mimetype: 'application/pdf',
+    size: content.length,
+    buffer: content,
+    stream: new Readable(),
+    destination: '',
+    filename: '',
+    path: '',
+  }
+
+  const buildVersion = (sha256: string): AuditEvidenceVersionEntity =>
+    Object.assign(new AuditEvidenceVersionEntity(), {
+      evidenceId: 'evidence-1',
+      version: 1,
+      filePath: 'audits/audit-1/evidences/evidence-1/v1.pdf',
+      sha256,
+    })
+
+  beforeEach(() => {
+    filesService = {
+      uploadFile: jest.fn().mockResolvedValue({
+        fileName: 'v1.pdf',
+        filePath: 'audits/audit-1/evidences/evidence-1/v1.pdf',
+        url: 'http://localhost:3000/uploads/audits/audit-1/evidences/evidence-1/v1.pdf',
+        size: content.length,
+        mimeType: 'application/pdf',
+      }),
+      fileExists: jest.fn().mockResolvedValue(true),
+      readFile: jest.fn().mockResolvedValue(content),
+      deleteFile: jest.fn().mockResolvedValue(undefined),
+    } as unknown as jest.Mocked<FilesService>
+    service = new AuditEvidenceFilesService(filesService)
+  })
+
+  describe('store', () => {
+    it('should save each version under its own name with the content hash', async () => {
+      // Act
+      const stored = await service.store(
+        'audit-1',
+        'evidence-1',
+        1,
+        file,
+        FileType.PDF,
+      )
+
+      // Assert
+      expect(filesService.uploadFile).toHaveBeenCalledWith(
+        expect.objectContaining({
+          folder: 'audits/audit-1/evidences/evidence-1',
+          customFileName: 'v1',
+          validationOptions: expect.objectContaining({
+            fileType: FileType.PDF,
+          }) as unknown,
+        }),
+      )
+      expect(stored.sha256).toBe(contentHash)
+    })
+  })
+
+  describe('remove', () => {
+    it('should delete the file of a version that was not registered', async () => {
+      // Act
+      await service.remove({
+        filePath: 'audits/audit-1/evidences/evidence-1/v2.pdf',
+        size: content.length,
+        mimeType: 'application/pdf',
+        sha256: contentHash,
+      })
+
+      // Assert
+      expect(filesService.deleteFile).toHaveBeenCalledWith(
+        'audits/audit-1/evidences/evidence-1/v2.pdf',
+      )
+    })
+  })
+
+  describe('verify', () => {
+    it('should report a file that still matches its hash as valid', async () => {
+      // Act
+      const result = await service.verify(buildVersion(contentHash))
+
+      // Assert
+      expect(result.valid).toBe(true)
+      expect(result.actualSha256).toBe(result.expectedSha256)
+    })
+
+    it('should report an altered file as invalid', async () => {
+      // Arrange: el archivo almacenado cambió después de subirlo
+      filesService.readFile.mockResolvedValue(Buffer.from('politica v2'))
+
+      // Act
+      const result = await service.verify(buildVersion(contentHash))
+
+      // Assert
+      expect(result.valid).toBe(false)
+      expect(result.actualSha256).not.toBe(contentHash)
+    })
+
+    it('should report a missing file as invalid', async () => {
+      // Arrange
+      filesService.fileExists.mockResolvedValue(false)
+
+      // Act
+      const result = await service.verify(buildVersion(contentHash))
+
+      // Assert
+      expect(result.valid).toBe(false)
+      expect(result.actualSha256).toBeNull()
+      expect(filesService.readFile).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,89 @@
+import { Injectable } from '@nestjs/common'
+import { createHash } from 'crypto'
+import { FilesService, FileType } from '@core/files'
+import { AUDIT_EVIDENCE_UPLOAD_CONFIGS } from '../constants'
+import type { AuditEvidenceVersionEntity } from '../entities'
+import type {
+  AuditEvidenceIntegrity,
+  StoredAuditEvidenceFile,
+} from '../interfaces'
+
+/**
+ * Audit Evidence Files Service
+ *
+ * Guarda los archivos de evidencia (uno por versión, sin sobrescribir) y
+ * verifica su integridad con el hash SHA-256 calculado al subirlos
+ */
+@Injectable()
+export class AuditEvidenceFilesService {
+  constructor(private readonly filesService: FilesService) {}
+
+  /**
+   * Guarda el archivo de una versión en audits/<auditId>/evidences/<evidenceId>
+   *
+   * @param auditId - ID de la auditoría
+   * @param evidenceId - ID de la evidencia
+   * @param version - Número de versión (nombre del archivo: v<version>)
+   * @param file - Archivo subido
+   * @param fileType - Tipo ya validado (ver AUDIT_EVIDENCE_UPLOAD_CONFIGS)
+   * @returns Path, tamaño y hash del archivo guardado
+   */
+  async store(
+    auditId: string,
+    evidenceId: string,
+    version: number,
+    file: Express.Multer.File,
+    fileType: FileType,
+  ): Promise<StoredAuditEvidenceFile> {
+    const result = await this.filesService.uploadFile({
+      file,
+      folder: `audits/${auditId}/evidences/${evidenceId}`,
+      customFileName: `v${version}`,
+      validationOptions: AUDIT_EVIDENCE_UPLOAD_CONFIGS[fileType]!,
+    })
+
+    return {
+      filePath: result.filePath,
+      size: result.size,
+      mimeType: result.mimeType,
+      sha256: this.hash(file.buffer),
+    }
+  }
+
+  /**
+   * Elimina el archivo de una versión que no llegó a registrarse
+   * (ej: la transacción se revirtió después de guardarlo)
+   */
+  async remove(stored: StoredAuditEvidenceFile): Promise<void> {
+    await this.filesService.deleteFile(stored.filePath)
+  }
+
+  /**
+   * Recalcula el hash del archivo almacenado y lo compara con el guardado
+   */
+  async verify(
+    version: AuditEvidenceVersionEntity,
+  ): Promise<AuditEvidenceIntegrity> {
+    const exists = await this.filesService.fileExists(version.filePath)
+    const actualSha256 = exists
+      ? this.hash(await this.filesService.readFile(version.filePath))
+      : null
+
+    return {
+      evidenceId: version.evidenceId,
+      version: version.version,
+      filePath: version.filePath,
+      expectedSha256: version.sha256,
+      actualSha256,
+      valid: actualSha256 === version.sha256,
+      verifiedAt: new Date(),
+    }
+  }
+
+  /**
+   * Hash SHA-256 (hex) de un contenido
+   */
+  hash(content: Buffer): string {
+    return createHash('sha256').update(content).digest('hex')
+  }
+}
@@ -0,0 +1,98 @@
+import { AuditSnapshotService } from './audit-snapshot.service'
+import { StandardEntity } from '../../audit-library/standards/entities/standard.entity'
+import { AuditEntity, AuditStandardEntity } from '../entities'
+
+describe('AuditSnapshotService', () => {
+  let service: AuditSnapshotService
+
+  const buildStandard = (
+    id: string,
+    parentId: string | null,
+    level: number,
+    order: number,
+    isAuditable: boolean,
+  ): StandardEntity =>
+    Object.assign(new StandardEntity(), {
+      id,
+      templateId: 'template-1',
+      parentId,
+      code: id.toUpperCase(),
+      title: `Standard ${id}`,
+      description: null,
+      level,
+      order,
+      isAuditable,
+    })
+
+  beforeEach(() => {
+    service = new AuditSnapshotService()
+  })
+
+  describe('buildSnapshot', () => {
+    it('should keep auditable standards and their ancestors', () => {
+      // Arrange
+      const standards = [
+        buildStandard('a', null, 1, 1, false),
+        buildStandard('a1', 'a', 2, 1, true),
+        buildStandard('a2', 'a', 2, 2, false),
+        buildStandard('b', null, 1, 2, false),
+        buildStandard('b1', 'b', 2, 1, false),
+      ]
+
+      // Act
+      const roots = service.buildSnapshot(standards)
+
+      // Assert
+      expect(roots).toHaveLength(1)
+      expect(roots[0]).toBeInstanceOf(AuditStandardEntity)
+      expect(roots[0].sourceStandardId).toBe('a')
+      expect(roots[0].isAuditable).toBe(false)
+      expect(roots[0].children.map((c) => c.sourceStandardId)).toEqual(['a1'])
+    })
+
+    it('should preserve hierarchy and sibling order regardless of input order', () => {
+      // Arrange
+      const standards = [
+        buildStandard('a2', 'a', 2, 2, true),
+        buildStandard('a1b', 'a1', 3, 1, true),
+        buildStandard('a', null, 1, 1, false),
+        buildStandard('a1', 'a', 2, 1, false),
+      ]
+
+      // Act
+      const roots = service.buildSnapshot(standards)
+
+      // Assert
+      const [root] = roots
+      expect(root.children.map((c) => c.code)).toEqual(['A1', 'A2'])
+      expect(root.children[0].children.map((c) => c.code)).toEqual(['A1B'])
+      expect(root.children[0].children[0].level).toBe(3)
+    })
+
+    it('should return an empty snapshot when there are no auditable standards', () => {
+      // Arrange
+      const standards = [buildStandard('a', null, 1, 1, false)]
+
+      // Act & Assert
+      expect(service.buildSnapshot(standards)).toEqual([])
+    })
+  })
+
+  describe('assignAuditToTree', () => {
+    it('should assign the audit id to every node recursively', () => {
+      // Arrange
+      const roots = service.buildSnapshot([
+        buildStandard('a', null, 1, 1, false),
+        buildStandard('a1', 'a', 2, 1, true),
+      ])
+      const audit = Object.assign(new AuditEntity(), { id: 'audit-1' })
+
+      // Act
+      service.assignAuditToTree(roots, audit)
+
+      // Assert
+      expect(roots[0].auditId).toBe('audit-1')
+      expect(roots[0].children[0].auditId).toBe('audit-1')
+    })
+  })
+})
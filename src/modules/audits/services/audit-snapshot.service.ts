@@ -0,0 +1,82 @@
+import { Injectable } from '@nestjs/common'
+import { StandardEntity } from '../../audit-library/standards/entities/standard.entity'
+import { AuditEntity, AuditStandardEntity } from '../entities'
+
+/**
+ * Audit Snapshot Service
+ *
+ * Copia el árbol de standards de una plantilla al crear una auditoría.
+ * Se conservan los standards auditables y todos sus ancestros, para que
+ * la jerarquía del snapshot sea la misma que la de la plantilla.
+ */
+@Injectable()
+export class AuditSnapshotService {
+  /**
+   * Construye el snapshot (árbol de AuditStandardEntity) a partir de los
+   * standards planos de la plantilla
+   *
+   * @param standards - Todos los standards de la plantilla (planos)
+   * @returns Nodos raíz del snapshot con sus hijos anidados
+   */
+  buildSnapshot(standards: StandardEntity[]): AuditStandardEntity[] {
+    const byId = new Map(standards.map((standard) => [standard.id, standard]))
+
+    // 1. Marcar los auditables y subir por sus ancestros
+    const keep = new Set<string>()
+    standards
+      .filter((standard) => standard.isAuditable)
+      .forEach((standard) => {
+        let current: StandardEntity | undefined = standard
+        while (current && !keep.has(current.id)) {
+          keep.add(current.id)
+          current = current.parentId ? byId.get(current.parentId) : undefined
+        }
+      })
+
+    // 2. Copiar en orden jerárquico (los padres antes que los hijos)
+    const sorted = standards
+      .filter((standard) => keep.has(standard.id))
+      .sort((a, b) => a.level - b.level || a.order - b.order)
+
+    const copies = new Map<string, AuditStandardEntity>()
+    const roots: AuditStandardEntity[] = []
+
+    sorted.forEach((standard) => {
+      const copy = new AuditStandardEntity()
+      copy.sourceStandardId = standard.id
+      copy.code = standard.code
+      copy.title = standard.title
+      copy.description = standard.description
+      copy.order = standard.order
+      copy.level = standard.level
+      copy.isAuditable = standard.isAuditable
+      copy.children = []
+      copies.set(standard.id, copy)
+
+      // 3. Enlazar con la copia del padre (TypeORM cascade vía 'children')
+      const parentCopy = standard.parentId
+        ? copies.get(standard.parentId)
+        : undefined
+
+      if (parentCopy) {
+        parentCopy.children.push(copy)
+      } else {
+        roots.push(copy)
+      }
+    })
+
+    return roots
+  }
+
+  /**
+   * Asigna la auditoría a todos los nodos del snapshot (recursivo)
+   */
+  assignAuditToTree(nodes: AuditStandardEntity[], audit: AuditEntity): void {
+    nodes.forEach((node) => {
+      node.auditId = audit.id
+      if (node.children?.length > 0) {
+        this.assignAuditToTree(node.children, audit)
+      }
+    })
+  }
+}
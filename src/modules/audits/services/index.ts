@@ -0,0 +1,3 @@
+export * from './audit-snapshot.service'
+export * from './maturity-rollup.service'
+export * from './audit-evidence-files.service'
@@ -0,0 +1,190 @@
+import { MaturityRollupService } from './maturity-rollup.service'
+import { AuditScoreEntity, AuditStandardEntity } from '../entities'
+import { MaturityRollupStrategy } from '../constants'
+import { MaturityReferenceLevel } from '../interfaces'
+
+describe('MaturityRollupService', () => {
+  let service: MaturityRollupService
+
+  const target: MaturityReferenceLevel = {
+    id: 'level-4',
+    level: 4,
+    name: 'Administrado',
+    color: '#16A34A',
+  }
+  const minimum: MaturityReferenceLevel = {
+    id: 'level-3',
+    level: 3,
+    name: 'Definido',
+    color: '#CA8A04',
+  }
+
+  const node = (
+    id: string,
+    isAuditable: boolean,
+    children: AuditStandardEntity[] = [],
+  ): AuditStandardEntity =>
+    Object.assign(new AuditStandardEntity(), {
+      id,
+      code: id.toUpperCase(),
+      title: id,
+      level: 1,
+      order: 1,
+      isAuditable,
+      children,
+    })
+
+  const score = (auditStandardId: string, level: number): AuditScoreEntity =>
+    Object.assign(new AuditScoreEntity(), { auditStandardId, level })
+
+  // A (grupo)
+  // ├── A1 (grupo) → A1a = 2, A1b = 4, A1c = 3
+  // └── A2 = 5
+  const buildTree = () => [
+    node('a', false, [
+      node('a1', false, [
+        node('a1a', true),
+        node('a1b', true),
+        node('a1c', true),
+      ]),
+      node('a2', true),
+    ]),
+  ]
+  const scores = [
+    score('a1a', 2),
+    score('a1b', 4),
+    score('a1c', 3),
+    score('a2', 5),
+  ]
+
+  beforeEach(() => {
+    service = new MaturityRollupService()
+  })
+
+  it('should weight the average by the scored standards of each branch', () => {
+    // Act
+    const result = service.buildRollup(
+      'audit-1',
+      buildTree(),
+      scores,
+      MaturityRollupStrategy.WEIGHTED_AVERAGE,
+      target,
+      minimum,
+    )
+
+    // Assert
+    const [root] = result.tree
+    expect(root.children[0].maturity).toBe(3)
+    expect(root.maturity).toBe(3.5) // (2 + 4 + 3 + 5) / 4
+    expect(root.scoredCount).toBe(4)
+    expect(root.auditableCount).toBe(4)
+    expect(result.overall.maturity).toBe(3.5)
+  })
+
+  it('should take the weakest child with the minimum strategy', () => {
+    const result = service.buildRollup(
+      'audit-1',
+      buildTree(),
+      scores,
+      MaturityRollupStrategy.MINIMUM,
+      target,
+      minimum,
+    )
+
+    expect(result.tree[0].maturity).toBe(2)
+    expect(result.tree[0].meetsMinimum).toBe(false)
+    expect(result.tree[0].gapToMinimum).toBe(1)
+  })
+
+  it('should use the median of the scored standards with the median strategy', () => {
+    const result = service.buildRollup(
+      'audit-1',
+      buildTree(),
+      scores,
+      MaturityRollupStrategy.MEDIAN,
+      target,
+      minimum,
+    )
+
+    const [root] = result.tree
+    expect(root.children[0].maturity).toBe(3) // mediana de 2, 3, 4
+    expect(root.maturity).toBe(3.5) // mediana de 2, 3, 4, 5
+  })
+
+  it('should not take the median of the children medians in an unbalanced tree', () => {
+    // Arrange
+    // B (grupo)
+    // ├── B1 (grupo) → B1a = 1, B1b = 1, B1c = 2
+    // ├── B2 = 5
+    // └── B3 = 5
+    const tree = [
+      node('b', false, [
+        node('b1', false, [
+          node('b1a', true),
+          node('b1b', true),
+          node('b1c', true),
+        ]),
+        node('b2', true),
+        node('b3', true),
+      ]),
+    ]
+
+    // Act
+    const result = service.buildRollup(
+      'audit-1',
+      tree,
+      [
+        score('b1a', 1),
+        score('b1b', 1),
+        score('b1c', 2),
+        score('b2', 5),
+        score('b3', 5),
+      ],
+      MaturityRollupStrategy.MEDIAN,
+      target,
+      minimum,
+    )
+
+    // Assert: la mediana de las medianas (1, 5, 5) sería 5
+    const [root] = result.tree
+    expect(root.children[0].maturity).toBe(1)
+    expect(root.maturity).toBe(2) // mediana de 1, 1, 2, 5, 5
+    expect(result.overall.maturity).toBe(2)
+  })
+
+  it('should compute gaps against target and minimum acceptable levels', () => {
+    const result = service.buildRollup(
+      'audit-1',
+      buildTree(),
+      scores,
+      MaturityRollupStrategy.WEIGHTED_AVERAGE,
+      target,
+      minimum,
+    )
+
+    const a2 = result.tree[0].children[1]
+    expect(a2.gapToTarget).toBe(-1)
+    expect(a2.meetsTarget).toBe(true)
+    expect(result.tree[0].gapToTarget).toBe(0.5)
+    expect(result.tree[0].meetsTarget).toBe(false)
+    expect(result.tree[0].meetsMinimum).toBe(true)
+  })
+
+  it('should leave unscored branches and missing reference levels as null', () => {
+    const result = service.buildRollup(
+      'audit-1',
+      buildTree(),
+      [score('a2', 5)],
+      MaturityRollupStrategy.WEIGHTED_AVERAGE,
+      null,
+      null,
+    )
+
+    const [root] = result.tree
+    expect(root.children[0].maturity).toBeNull()
+    expect(root.children[0].scoredCount).toBe(0)
+    expect(root.maturity).toBe(5)
+    expect(root.gapToTarget).toBeNull()
+    expect(root.meetsMinimum).toBeNull()
+  })
+})
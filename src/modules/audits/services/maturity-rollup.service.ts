@@ -0,0 +1,234 @@
+import { Injectable } from '@nestjs/common'
+import { AuditScoreEntity, AuditStandardEntity } from '../entities'
+import { MaturityRollupStrategy } from '../constants'
+import {
+  MaturityReferenceLevel,
+  MaturityRollupNode,
+  MaturityRollupResult,
+} from '../interfaces'
+
+/**
+ * Valor parcial de un subárbol: madurez agregada + peso (hojas evaluadas)
+ * + las evaluaciones del subárbol (la mediana se calcula sobre ellas, no
+ * sobre las medianas de los hijos)
+ */
+interface RollupValue {
+  maturity: number | null
+  weight: number
+  scores: number[]
+}
+
+/**
+ * Nodo anotado junto con las evaluaciones de su subárbol
+ */
+interface AnnotatedNode {
+  node: MaturityRollupNode
+  scores: number[]
+}
+
+/**
+ * Maturity Rollup Service
+ *
+ * Agrega las evaluaciones por standard hacia los nodos padre del árbol
+ * y calcula la brecha de cada nodo contra los niveles objetivo y
+ * mínimo aceptable del framework.
+ */
+@Injectable()
+export class MaturityRollupService {
+  /**
+   * Construye el árbol anotado con la madurez agregada
+   *
+   * @param auditId - ID de la auditoría
+   * @param roots - Raíces del snapshot (con hijos anidados)
+   * @param scores - Evaluaciones registradas en la auditoría
+   * @param strategy - Estrategia de agregación
+   * @param target - Nivel objetivo del framework (isTarget)
+   * @param minimumAcceptable - Nivel mínimo aceptable del framework (isMinimumAcceptable)
+   */
+  buildRollup(
+    auditId: string,
+    roots: AuditStandardEntity[],
+    scores: AuditScoreEntity[],
+    strategy: MaturityRollupStrategy,
+    target: MaturityReferenceLevel | null,
+    minimumAcceptable: MaturityReferenceLevel | null,
+  ): MaturityRollupResult {
+    const scoreByStandard = new Map(
+      scores.map((score) => [score.auditStandardId, score.level]),
+    )
+
+    const annotated = roots.map((root) =>
+      this.annotateNode(
+        root,
+        scoreByStandard,
+        strategy,
+        target,
+        minimumAcceptable,
+      ),
+    )
+    const tree = annotated.map(({ node }) => node)
+
+    const overallMaturity = this.aggregate(
+      annotated.map(({ node, scores }) => ({
+        maturity: node.maturity,
+        weight: node.scoredCount,
+        scores,
+      })),
+      strategy,
+    )
+
+    return {
+      auditId,
+      strategy,
+      target,
+      minimumAcceptable,
+      overall: {
+        maturity: overallMaturity,
+        scoredCount: this.sum(tree.map((node) => node.scoredCount)),
+        auditableCount: this.sum(tree.map((node) => node.auditableCount)),
+        ...this.computeGaps(overallMaturity, target, minimumAcceptable),
+      },
+      tree,
+    }
+  }
+
+  /**
+   * Recorre el árbol bottom-up calculando la madurez de cada nodo
+   */
+  private annotateNode(
+    node: AuditStandardEntity,
+    scoreByStandard: Map<string, number>,
+    strategy: MaturityRollupStrategy,
+    target: MaturityReferenceLevel | null,
+    minimumAcceptable: MaturityReferenceLevel | null,
+  ): AnnotatedNode {
+    // 1. Resolver primero los hijos
+    const annotated = (node.children || []).map((child) =>
+      this.annotateNode(
+        child,
+        scoreByStandard,
+        strategy,
+        target,
+        minimumAcceptable,
+      ),
+    )
+    const children = annotated.map(({ node: child }) => child)
+
+    // 2. Reunir los valores: hijos + evaluación propia (si es auditable)
+    const values: RollupValue[] = annotated.map(({ node: child, scores }) => ({
+      maturity: child.maturity,
+      weight: child.scoredCount,
+      scores,
+    }))
+
+    const ownScore = node.isAuditable
+      ? (scoreByStandard.get(node.id) ?? null)
+      : null
+
+    if (ownScore !== null) {
+      values.push({ maturity: ownScore, weight: 1, scores: [ownScore] })
+    }
+
+    // 3. Agregar y calcular brechas
+    const maturity = this.aggregate(values, strategy)
+
+    const annotatedNode: MaturityRollupNode = {
+      id: node.id,
+      code: node.code,
+      title: node.title,
+      level: node.level,
+      order: node.order,
+      isAuditable: node.isAuditable,
+      maturity,
+      scoredCount:
+        this.sum(children.map((child) => child.scoredCount)) +
+        (ownScore !== null ? 1 : 0),
+      auditableCount:
+        this.sum(children.map((child) => child.auditableCount)) +
+        (node.isAuditable ? 1 : 0),
+      ...this.computeGaps(maturity, target, minimumAcceptable),
+      children,
+    }
+
+    return {
+      node: annotatedNode,
+      scores: values.flatMap((value) => value.scores),
+    }
+  }
+
+  /**
+   * Aplica la estrategia sobre los valores evaluados (ignora ramas sin evaluar)
+   */
+  private aggregate(
+    values: RollupValue[],
+    strategy: MaturityRollupStrategy,
+  ): number | null {
+    const scored = values.filter(
+      (value): value is RollupValue & { maturity: number } =>
+        value.maturity !== null,
+    )
+
+    if (scored.length === 0) {
+      return null
+    }
+
+    switch (strategy) {
+      case MaturityRollupStrategy.MINIMUM:
+        return Math.min(...scored.map((value) => value.maturity))
+
+      case MaturityRollupStrategy.MEDIAN: {
+        const sorted = scored
+          .flatMap((value) => value.scores)
+          .sort((a, b) => a - b)
+        const middle = Math.floor(sorted.length / 2)
+        const median =
+          sorted.length % 2 === 0
+            ? (sorted[middle - 1] + sorted[middle]) / 2
+            : sorted[middle]
+        return this.round(median)
+      }
+
+      case MaturityRollupStrategy.WEIGHTED_AVERAGE:
+      default: {
+        const totalWeight = this.sum(scored.map((value) => value.weight))
+        const weighted = this.sum(
+          scored.map((value) => value.maturity * value.weight),
+        )
+        return this.round(weighted / totalWeight)
+      }
+    }
+  }
+
+  private computeGaps(
+    maturity: number | null,
+    target: MaturityReferenceLevel | null,
+    minimumAcceptable: MaturityReferenceLevel | null,
+  ): Pick<
+    MaturityRollupNode,
+    'gapToTarget' | 'gapToMinimum' | 'meetsTarget' | 'meetsMinimum'
+  > {
+    const hasValue = maturity !== null
+
+    return {
+      gapToTarget:
+        hasValue && target ? this.round(target.level - maturity) : null,
+      gapToMinimum:
+        hasValue && minimumAcceptable
+          ? this.round(minimumAcceptable.level - maturity)
+          : null,
+      meetsTarget: hasValue && target ? maturity >= target.level : null,
+      meetsMinimum:
+        hasValue && minimumAcceptable
+          ? maturity >= minimumAcceptable.level
+          : null,
+    }
+  }
+
+  private sum(values: number[]): number {
+    return values.reduce((acc, value) => acc + value, 0)
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100
+  }
+}
@@ -0,0 +1,7 @@
+export const AUDITS_REPOSITORY = Symbol('AUDITS_REPOSITORY')
+export const AUDIT_STANDARDS_REPOSITORY = Symbol('AUDIT_STANDARDS_REPOSITORY')
+export const AUDIT_SCORES_REPOSITORY = Symbol('AUDIT_SCORES_REPOSITORY')
+export const AUDIT_EVIDENCES_REPOSITORY = Symbol('AUDIT_EVIDENCES_REPOSITORY')
+export const AUDIT_EVIDENCE_VERSIONS_REPOSITORY = Symbol(
+  'AUDIT_EVIDENCE_VERSIONS_REPOSITORY',
+)
@@ -0,0 +1,37 @@
+import { Inject, Injectable } from '@nestjs/common'
+import { Transactional } from '@core/database/transactional.decorator'
+import { ReviewValidator } from '../../../reviews/validators'
+import type { AuditEntity } from '../../entities'
+import { AuditStatus } from '../../constants'
+import { AuditValidator } from '../../validators'
+import { AUDITS_REPOSITORY } from '../../tokens'
+import type { IAuditsRepository } from '../../repositories'
+
+@Injectable()
+export class CloseAuditUseCase {
+  constructor(
+    @Inject(AUDITS_REPOSITORY)
+    private readonly auditsRepository: IAuditsRepository,
+    private readonly auditValidator: AuditValidator,
+    private readonly reviewValidator: ReviewValidator,
+  ) {}
+
+  /**
+   * Cierra la auditoría (in_review → closed)
+   *
+   * @param id - ID de la auditoría
+   * @returns Auditoría actualizada
+   * @throws {AuditNotFoundException} Si la auditoría no existe
+   * @throws {InvalidAuditStatusTransitionException} Si la transición no está permitida
+   * @throws {ReviewNotApprovedException} Si un revisor no aprobó la auditoría
+   * @throws {ReviewContentChangedException} Si la auditoría cambió después de aprobarse
+   */
+  @Transactional()
+  async execute(id: string): Promise<AuditEntity> {
+    const audit = await this.auditValidator.validateAndGetAudit(id)
+    this.auditValidator.validateTransition(audit, AuditStatus.CLOSED)
+    await this.reviewValidator.validateApproved('audit', audit)
+    audit.close()
+    return await this.auditsRepository.save(audit)
+  }
+}
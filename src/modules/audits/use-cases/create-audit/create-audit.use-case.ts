@@ -0,0 +1,76 @@
+import { Inject, Injectable } from '@nestjs/common'
+import { Transactional } from '@core/database/transactional.decorator'
+import type { CreateAuditDto } from '../../dtos'
+import type { AuditEntity } from '../../entities'
+import { AuditFactory } from '../../factories'
+import { AuditValidator } from '../../validators'
+import { AuditSnapshotService } from '../../services'
+import { AUDITS_REPOSITORY } from '../../tokens'
+import type { IAuditsRepository } from '../../repositories'
+import { TemplateNotUsableForAuditException } from '../../exceptions'
+import { STANDARDS_REPOSITORY } from '../../../audit-library/standards/tokens'
+import type { IStandardsRepository } from '../../../audit-library/standards/repositories'
+
+/**
+ * Create Audit Use Case
+ *
+ * Crea una auditoría a partir de una plantilla publicada y guarda el
+ * snapshot de sus standards auditables
+ */
+@Injectable()
+export class CreateAuditUseCase {
+  constructor(
+    @Inject(AUDITS_REPOSITORY)
+    private readonly auditsRepository: IAuditsRepository,
+    @Inject(STANDARDS_REPOSITORY)
+    private readonly standardsRepository: IStandardsRepository,
+    private readonly auditFactory: AuditFactory,
+    private readonly auditValidator: AuditValidator,
+    private readonly auditSnapshotService: AuditSnapshotService,
+  ) {}
+
+  /**
+   * Ejecuta la creación de la auditoría
+   *
+   * @param dto - Datos de la auditoría
+   * @returns Auditoría creada (estado PLANNED)
+   * @throws {AuditAlreadyExistsException} Si el código ya existe
+   * @throws {TemplateNotUsableForAuditException} Si la plantilla no está publicada o no tiene standards auditables
+   * @throws {FrameworkNotActiveException} Si el framework está inactivo
+   * @throws {OrganizationNotActiveException} Si la organización está inactiva
+   * @throws {InvalidLeadAuditorException} Si el auditor líder no es válido
+   * @throws {InvalidAuditDatesException} Si el rango de fechas es inválido
+   */
+  @Transactional()
+  async execute(dto: CreateAuditDto): Promise<AuditEntity> {
+    // 1. Validar referencias y reglas de negocio
+    await this.auditValidator.validateUniqueCode(dto.code)
+    const template = await this.auditValidator.validateTemplateForAudit(
+      dto.templateId,
+    )
+    await this.auditValidator.validateOrganization(dto.organizationId)
+    await this.auditValidator.validateFramework(dto.frameworkId)
+    await this.auditValidator.validateLeadAuditor(dto.leadAuditorId)
+    this.auditValidator.validateDates(dto.plannedStartDate, dto.plannedEndDate)
+
+    // 2. Construir el snapshot de standards auditables
+    const standards = await this.standardsRepository.findByTemplate(template.id)
+    const snapshot = this.auditSnapshotService.buildSnapshot(standards)
+
+    if (snapshot.length === 0) {
+      throw new TemplateNotUsableForAuditException(
+        template.name,
+        'no tiene standards auditables',
+      )
+    }
+
+    // 3. Guardar la auditoría primero para obtener el ID
+    const audit = this.auditFactory.createFromDto(dto)
+    const savedAudit = await this.auditsRepository.save(audit)
+
+    // 4. Vincular el snapshot y guardar en cascada
+    this.auditSnapshotService.assignAuditToTree(snapshot, savedAudit)
+    savedAudit.standards = snapshot
+    return await this.auditsRepository.save(savedAudit)
+  }
+}
@@ -0,0 +1,38 @@
+import { Inject, Injectable } from '@nestjs/common'
+import { Transactional } from '@core/database/transactional.decorator'
+import { AuditValidator } from '../../validators'
+import { AUDITS_REPOSITORY } from '../../tokens'
+import type { IAuditsRepository } from '../../repositories'
+import { AuditNotEditableException } from '../../exceptions'
+
+/**
+ * Delete Audit Use Case
+ *
+ * Elimina (soft delete) una auditoría que aún no inició el trabajo de campo
+ */
+@Injectable()
+export class DeleteAuditUseCase {
+  constructor(
+    @Inject(AUDITS_REPOSITORY)
+    private readonly auditsRepository: IAuditsRepository,
+    private readonly auditValidator: AuditValidator,
+  ) {}
+
+  /**
+   * @param id - ID de la auditoría
+   * @throws {AuditNotFoundException} Si la auditoría no existe
+   * @throws {AuditNotEditableException} Si la auditoría ya no está en PLANNED
+   */
+  @Transactional()
+  async execute(id: string): Promise<void> {
+    // 1. Verificar que existe y que no empezó
+    const audit = await this.auditValidator.validateAndGetAudit(id)
+
+    if (!audit.isDeletable) {
+      throw new AuditNotEditableException(audit.code, audit.status)
+    }
+
+    // 2. Eliminar (soft delete)
+    await this.auditsRepository.softDelete(id)
+  }
+}
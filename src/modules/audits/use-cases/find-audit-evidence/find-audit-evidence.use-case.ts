@@ -0,0 +1,31 @@
+import { Injectable } from '@nestjs/common'
+import type { AuditEvidenceEntity } from '../../entities'
+import { AuditValidator, AuditEvidenceValidator } from '../../validators'
+
+@Injectable()
+export class FindAuditEvidenceUseCase {
+  constructor(
+    private readonly auditValidator: AuditValidator,
+    private readonly auditEvidenceValidator: AuditEvidenceValidator,
+  ) {}
+
+  /**
+   * Obtiene una evidencia con el historial de versiones
+   *
+   * @param auditId - ID de la auditoría
+   * @param evidenceId - ID de la evidencia
+   * @returns Evidencia con sus versiones (la más reciente primero)
+   * @throws {AuditNotFoundException} Si la auditoría no existe
+   * @throws {AuditEvidenceNotFoundException} Si la evidencia no pertenece a la auditoría
+   */
+  async execute(
+    auditId: string,
+    evidenceId: string,
+  ): Promise<AuditEvidenceEntity> {
+    await this.auditValidator.validateAndGetAudit(auditId)
+    return await this.auditEvidenceValidator.validateAndGetEvidence(
+      auditId,
+      evidenceId,
+    )
+  }
+}
@@ -0,0 +1,34 @@
+import { Inject, Injectable } from '@nestjs/common'
+import type { AuditEvidenceEntity } from '../../entities'
+import type { FindAuditEvidencesDto } from '../../dtos'
+import { AuditValidator } from '../../validators'
+import { AUDIT_EVIDENCES_REPOSITORY } from '../../tokens'
+import type { IAuditEvidencesRepository } from '../../repositories'
+
+@Injectable()
+export class FindAuditEvidencesUseCase {
+  constructor(
+    @Inject(AUDIT_EVIDENCES_REPOSITORY)
+    private readonly auditEvidencesRepository: IAuditEvidencesRepository,
+    private readonly auditValidator: AuditValidator,
+  ) {}
+
+  /**
+   * Obtiene las evidencias de la auditoría (opcionalmente de un standard)
+   *
+   * @param auditId - ID de la auditoría
+   * @param query - Filtro por standard
+   * @returns Evidencias con su standard y versiones
+   * @throws {AuditNotFoundException} Si la auditoría no existe
+   */
+  async execute(
+    auditId: string,
+    query: FindAuditEvidencesDto,
+  ): Promise<AuditEvidenceEntity[]> {
+    await this.auditValidator.validateAndGetAudit(auditId)
+    return await this.auditEvidencesRepository.findByAudit(
+      auditId,
+      query.auditStandardId,
+    )
+  }
+}
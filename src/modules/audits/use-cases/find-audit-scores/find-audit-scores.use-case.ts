@@ -0,0 +1,26 @@
+import { Inject, Injectable } from '@nestjs/common'
+import type { AuditScoreEntity } from '../../entities'
+import { AuditValidator } from '../../validators'
+import { AUDIT_SCORES_REPOSITORY } from '../../tokens'
+import type { IAuditScoresRepository } from '../../repositories'
+
+@Injectable()
+export class FindAuditScoresUseCase {
+  constructor(
+    @Inject(AUDIT_SCORES_REPOSITORY)
+    private readonly auditScoresRepository: IAuditScoresRepository,
+    private readonly auditValidator: AuditValidator,
+  ) {}
+
+  /**
+   * Obtiene las evaluaciones de madurez registradas en la auditoría
+   *
+   * @param auditId - ID de la auditoría
+   * @returns Evaluaciones con su standard, nivel y auditor
+   * @throws {AuditNotFoundException} Si la auditoría no existe
+   */
+  async execute(auditId: string): Promise<AuditScoreEntity[]> {
+    await this.auditValidator.validateAndGetAudit(auditId)
+    return await this.auditScoresRepository.findByAudit(auditId)
+  }
+}
@@ -0,0 +1,30 @@
+import { Inject, Injectable } from '@nestjs/common'
+import type { AuditEntity } from '../../entities'
+import { AUDITS_REPOSITORY } from '../../tokens'
+import type { IAuditsRepository } from '../../repositories'
+import { AuditNotFoundException } from '../../exceptions'
+
+@Injectable()
+export class FindAuditUseCase {
+  constructor(
+    @Inject(AUDITS_REPOSITORY)
+    private readonly auditsRepository: IAuditsRepository,
+  ) {}
+
+  /**
+   * Obtiene una auditoría con plantilla, organización, framework y auditor líder
+   *
+   * @param id - ID de la auditoría
+   * @returns Auditoría encontrada
+   * @throws {AuditNotFoundException} Si la auditoría no existe
+   */
+  async execute(id: string): Promise<AuditEntity> {
+    const audit = await this.auditsRepository.findOneWithRelations(id)
+
+    if (!audit) {
+      throw new AuditNotFoundException(id)
+    }
+
+    return audit
+  }
+}
@@ -0,0 +1,34 @@
+import { Inject, Injectable } from '@nestjs/common'
+import type { AuditEntity } from '../../entities'
+import { AUDITS_REPOSITORY } from '../../tokens'
+import type { IAuditsRepository } from '../../repositories'
+import { FindAuditsDto } from '../../dtos'
+import { PaginatedResponse, PaginatedResponseBuilder } from '@core/dtos'
+
+/**
+ * Find Audits Use Case
+ *
+ * Lista las auditorías con filtros por estado, organización, plantilla y auditor líder
+ */
+@Injectable()
+export class FindAuditsUseCase {
+  constructor(
+    @Inject(AUDITS_REPOSITORY)
+    private readonly auditsRepository: IAuditsRepository,
+  ) {}
+
+  async execute(dto: FindAuditsDto): Promise<PaginatedResponse<AuditEntity>> {
+    const { data, total } = await this.auditsRepository.paginateAudits(dto)
+
+    if (dto.all) {
+      return PaginatedResponseBuilder.createAll(data)
+    }
+
+    return PaginatedResponseBuilder.create(
+      data,
+      total,
+      dto.page || 1,
+      dto.limit || 10,
+    )
+  }
+}
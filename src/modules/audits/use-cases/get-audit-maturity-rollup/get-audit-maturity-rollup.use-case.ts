@@ -0,0 +1,85 @@
+import { Inject, Injectable } from '@nestjs/common'
+import { AuditValidator } from '../../validators'
+import { MaturityRollupService } from '../../services'
+import { MaturityRollupStrategy } from '../../constants'
+import type { GetMaturityRollupDto } from '../../dtos'
+import type {
+  MaturityReferenceLevel,
+  MaturityRollupResult,
+} from '../../interfaces'
+import {
+  AUDIT_SCORES_REPOSITORY,
+  AUDIT_STANDARDS_REPOSITORY,
+} from '../../tokens'
+import type {
+  IAuditScoresRepository,
+  IAuditStandardsRepository,
+} from '../../repositories'
+import { LEVELS_REPOSITORY } from '../../../maturity/levels/tokens'
+import type { IMaturityLevelsRepository } from '../../../maturity/levels/repositories'
+import type { MaturityLevelEntity } from '../../../maturity/levels/entities/maturity-level.entity'
+
+/**
+ * Get Audit Maturity Rollup Use Case
+ *
+ * Retorna el árbol de standards de la auditoría anotado con la madurez
+ * agregada por nodo y la brecha contra los niveles objetivo y mínimo aceptable
+ */
+@Injectable()
+export class GetAuditMaturityRollupUseCase {
+  constructor(
+    @Inject(AUDIT_STANDARDS_REPOSITORY)
+    private readonly auditStandardsRepository: IAuditStandardsRepository,
+    @Inject(AUDIT_SCORES_REPOSITORY)
+    private readonly auditScoresRepository: IAuditScoresRepository,
+    @Inject(LEVELS_REPOSITORY)
+    private readonly levelsRepository: IMaturityLevelsRepository,
+    private readonly auditValidator: AuditValidator,
+    private readonly maturityRollupService: MaturityRollupService,
+  ) {}
+
+  /**
+   * @param auditId - ID de la auditoría
+   * @param dto - Estrategia de agregación
+   * @returns Árbol anotado con madurez y brechas
+   * @throws {AuditNotFoundException} Si la auditoría no existe
+   */
+  async execute(
+    auditId: string,
+    dto: GetMaturityRollupDto,
+  ): Promise<MaturityRollupResult> {
+    // 1. Validar auditoría
+    const audit = await this.auditValidator.validateAndGetAudit(auditId)
+
+    // 2. Cargar árbol, evaluaciones y niveles de referencia del framework
+    const [tree, scores, target, minimumAcceptable] = await Promise.all([
+      this.auditStandardsRepository.getTree(auditId),
+      this.auditScoresRepository.findByAudit(auditId),
+      this.levelsRepository.findTarget(audit.frameworkId),
+      this.levelsRepository.findMinimumAcceptable(audit.frameworkId),
+    ])
+
+    // 3. Agregar
+    return this.maturityRollupService.buildRollup(
+      auditId,
+      tree,
+      scores,
+      dto.strategy || MaturityRollupStrategy.WEIGHTED_AVERAGE,
+      this.toReference(target),
+      this.toReference(minimumAcceptable),
+    )
+  }
+
+  private toReference(
+    level: MaturityLevelEntity | null,
+  ): MaturityReferenceLevel | null {
+    return level
+      ? {
+          id: level.id,
+          level: level.level,
+          name: level.name,
+          color: level.color,
+        }
+      : null
+  }
+}
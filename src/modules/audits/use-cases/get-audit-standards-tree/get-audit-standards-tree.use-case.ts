@@ -0,0 +1,29 @@
+import { Inject, Injectable } from '@nestjs/common'
+import type { AuditStandardEntity } from '../../entities'
+import { AuditValidator } from '../../validators'
+import { AUDIT_STANDARDS_REPOSITORY } from '../../tokens'
+import type { IAuditStandardsRepository } from '../../repositories'
+
+/**
+ * Get Audit Standards Tree Use Case
+ *
+ * Obtiene el snapshot de standards de la auditoría en estructura jerárquica
+ */
+@Injectable()
+export class GetAuditStandardsTreeUseCase {
+  constructor(
+    @Inject(AUDIT_STANDARDS_REPOSITORY)
+    private readonly auditStandardsRepository: IAuditStandardsRepository,
+    private readonly auditValidator: AuditValidator,
+  ) {}
+
+  /**
+   * @param auditId - ID de la auditoría
+   * @returns Standards raíz del snapshot (con hijos anidados)
+   * @throws {AuditNotFoundException} Si la auditoría no existe
+   */
+  async execute(auditId: string): Promise<AuditStandardEntity[]> {
+    await this.auditValidator.validateAndGetAudit(auditId)
+    return await this.auditStandardsRepository.getTree(auditId)
+  }
+}
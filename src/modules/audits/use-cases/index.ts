@@ -0,0 +1,17 @@
+export * from './create-audit/create-audit.use-case'
+export * from './update-audit/update-audit.use-case'
+export * from './find-audit/find-audit.use-case'
+export * from './find-audits/find-audits.use-case'
+export * from './get-audit-standards-tree/get-audit-standards-tree.use-case'
+export * from './start-audit-fieldwork/start-audit-fieldwork.use-case'
+export * from './submit-audit-for-review/submit-audit-for-review.use-case'
+export * from './close-audit/close-audit.use-case'
+export * from './delete-audit/delete-audit.use-case'
+export * from './score-audit-standard/score-audit-standard.use-case'
+export * from './find-audit-scores/find-audit-scores.use-case'
+export * from './get-audit-maturity-rollup/get-audit-maturity-rollup.use-case'
+export * from './upload-audit-evidence/upload-audit-evidence.use-case'
+export * from './upload-audit-evidence-version/upload-audit-evidence-version.use-case'
+export * from './find-audit-evidences/find-audit-evidences.use-case'
+export * from './find-audit-evidence/find-audit-evidence.use-case'
+export * from './verify-audit-evidence/verify-audit-evidence.use-case'
@@ -0,0 +1,69 @@
+import { Inject, Injectable } from '@nestjs/common'
+import { Transactional } from '@core/database/transactional.decorator'
+import type { ScoreAuditStandardDto } from '../../dtos'
+import type { AuditScoreEntity } from '../../entities'
+import { AuditScoreFactory } from '../../factories'
+import { AuditValidator, AuditScoreValidator } from '../../validators'
+import { AUDIT_SCORES_REPOSITORY } from '../../tokens'
+import type { IAuditScoresRepository } from '../../repositories'
+
+/**
+ * Score Audit Standard Use Case
+ *
+ * Registra (o sobrescribe) la evaluación de madurez de un standard auditable
+ */
+@Injectable()
+export class ScoreAuditStandardUseCase {
+  constructor(
+    @Inject(AUDIT_SCORES_REPOSITORY)
+    private readonly auditScoresRepository: IAuditScoresRepository,
+    private readonly auditValidator: AuditValidator,
+    private readonly auditScoreValidator: AuditScoreValidator,
+    private readonly auditScoreFactory: AuditScoreFactory,
+  ) {}
+
+  /**
+   * @param auditId - ID de la auditoría
+   * @param dto - Standard, nivel elegido y justificación
+   * @param assessedById - ID del auditor autenticado
+   * @returns Evaluación guardada
+   * @throws {AuditNotFoundException} Si la auditoría no existe
+   * @throws {AuditNotEditableException} Si la auditoría no está en trabajo de campo o revisión
+   * @throws {AuditStandardNotFoundException} Si el standard no pertenece a la auditoría
+   * @throws {AuditStandardNotAuditableException} Si el standard es un agrupador
+   * @throws {MaturityLevelNotInFrameworkException} Si el nivel es de otro framework
+   * @throws {MaturityLevelOutOfRangeException} Si el nivel está fuera del rango del framework
+   */
+  @Transactional()
+  async execute(
+    auditId: string,
+    dto: ScoreAuditStandardDto,
+    assessedById: string,
+  ): Promise<AuditScoreEntity> {
+    // 1. Validar auditoría y estado
+    const audit = await this.auditValidator.validateAndGetAudit(auditId)
+    this.auditScoreValidator.validateCanScore(audit)
+
+    // 2. Validar standard y nivel
+    await this.auditScoreValidator.validateAndGetAuditableStandard(
+      auditId,
+      dto.auditStandardId,
+    )
+    const level = await this.auditScoreValidator.validateAndGetLevel(
+      audit,
+      dto.maturityLevelId,
+    )
+
+    // 3. Crear o sobrescribir la evaluación
+    const existing = await this.auditScoresRepository.findByAuditAndStandard(
+      auditId,
+      dto.auditStandardId,
+    )
+
+    const score = existing
+      ? this.auditScoreFactory.updateFromDto(existing, dto, level, assessedById)
+      : this.auditScoreFactory.createFromDto(auditId, dto, level, assessedById)
+
+    return await this.auditScoresRepository.save(score)
+  }
+}
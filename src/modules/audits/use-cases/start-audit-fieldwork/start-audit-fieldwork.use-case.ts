@@ -0,0 +1,32 @@
+import { Inject, Injectable } from '@nestjs/common'
+import { Transactional } from '@core/database/transactional.decorator'
+import type { AuditEntity } from '../../entities'
+import { AuditStatus } from '../../constants'
+import { AuditValidator } from '../../validators'
+import { AUDITS_REPOSITORY } from '../../tokens'
+import type { IAuditsRepository } from '../../repositories'
+
+@Injectable()
+export class StartAuditFieldworkUseCase {
+  constructor(
+    @Inject(AUDITS_REPOSITORY)
+    private readonly auditsRepository: IAuditsRepository,
+    private readonly auditValidator: AuditValidator,
+  ) {}
+
+  /**
+   * Inicia el trabajo de campo (planned → in_fieldwork)
+   *
+   * @param id - ID de la auditoría
+   * @returns Auditoría actualizada
+   * @throws {AuditNotFoundException} Si la auditoría no existe
+   * @throws {InvalidAuditStatusTransitionException} Si la transición no está permitida
+   */
+  @Transactional()
+  async execute(id: string): Promise<AuditEntity> {
+    const audit = await this.auditValidator.validateAndGetAudit(id)
+    this.auditValidator.validateTransition(audit, AuditStatus.IN_FIELDWORK)
+    audit.startFieldwork()
+    return await this.auditsRepository.save(audit)
+  }
+}
@@ -0,0 +1,50 @@
+import { Inject, Injectable } from '@nestjs/common'
+import { Transactional } from '@core/database/transactional.decorator'
+import type { UpdateAuditDto } from '../../dtos'
+import type { AuditEntity } from '../../entities'
+import { AuditFactory } from '../../factories'
+import { AuditValidator } from '../../validators'
+import { AUDITS_REPOSITORY } from '../../tokens'
+import type { IAuditsRepository } from '../../repositories'
+
+@Injectable()
+export class UpdateAuditUseCase {
+  constructor(
+    @Inject(AUDITS_REPOSITORY)
+    private readonly auditsRepository: IAuditsRepository,
+    private readonly auditFactory: AuditFactory,
+    private readonly auditValidator: AuditValidator,
+  ) {}
+
+  /**
+   * Actualiza los datos generales de la auditoría
+   *
+   * @param id - ID de la auditoría
+   * @param dto - Datos a actualizar
+   * @returns Auditoría actualizada
+   * @throws {AuditNotFoundException} Si la auditoría no existe
+   * @throws {AuditNotEditableException} Si la auditoría está cerrada
+   * @throws {InvalidLeadAuditorException} Si el nuevo auditor líder no es válido
+   * @throws {InvalidAuditDatesException} Si el rango de fechas resultante es inválido
+   */
+  @Transactional()
+  async execute(id: string, dto: UpdateAuditDto): Promise<AuditEntity> {
+    // 1. Validar existencia y estado
+    const audit = await this.auditValidator.validateAndGetAudit(id)
+    this.auditValidator.validateCanEdit(audit)
+
+    // 2. Validar el nuevo auditor líder
+    if (dto.leadAuditorId && dto.leadAuditorId !== audit.leadAuditorId) {
+      await this.auditValidator.validateLeadAuditor(dto.leadAuditorId)
+    }
+
+    // 3. Aplicar cambios y validar el rango de fechas resultante
+    const updated = this.auditFactory.updateFromDto(audit, dto)
+    this.auditValidator.validateDates(
+      updated.plannedStartDate,
+      updated.plannedEndDate,
+    )
+
+    return await this.auditsRepository.save(updated)
+  }
+}
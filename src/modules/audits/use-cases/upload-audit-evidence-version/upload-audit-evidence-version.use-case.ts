@@ -0,0 +1,124 @@
+import { Inject, Injectable, Logger } from '@nestjs/common'
+import { TransactionService } from '@core/database'
+import type { AuditEvidenceEntity } from '../../entities'
+import type { StoredAuditEvidenceFile } from '../../interfaces'
+import { AuditEvidenceFactory } from '../../factories'
+import { AuditEvidenceFilesService } from '../../services'
+import { AuditValidator, AuditEvidenceValidator } from '../../validators'
+import {
+  AUDIT_EVIDENCES_REPOSITORY,
+  AUDIT_EVIDENCE_VERSIONS_REPOSITORY,
+} from '../../tokens'
+import type {
+  IAuditEvidencesRepository,
+  IAuditEvidenceVersionsRepository,
+} from '../../repositories'
+
+/**
+ * Upload Audit Evidence Version Use Case
+ *
+ * Sube una nueva versión del archivo de una evidencia. Las versiones
+ * anteriores (archivo y hash) se conservan.
+ *
+ * Usa runInTransaction en lugar de @Transactional para eliminar el archivo
+ * guardado si la transacción se revierte (incluido un fallo en el commit).
+ */
+@Injectable()
+export class UploadAuditEvidenceVersionUseCase {
+  private readonly logger = new Logger(UploadAuditEvidenceVersionUseCase.name)
+
+  constructor(
+    @Inject(AUDIT_EVIDENCES_REPOSITORY)
+    private readonly auditEvidencesRepository: IAuditEvidencesRepository,
+    @Inject(AUDIT_EVIDENCE_VERSIONS_REPOSITORY)
+    private readonly auditEvidenceVersionsRepository: IAuditEvidenceVersionsRepository,
+    private readonly auditValidator: AuditValidator,
+    private readonly auditEvidenceValidator: AuditEvidenceValidator,
+    private readonly auditEvidenceFactory: AuditEvidenceFactory,
+    private readonly auditEvidenceFilesService: AuditEvidenceFilesService,
+    private readonly transactionService: TransactionService,
+  ) {}
+
+  /**
+   * @param auditId - ID de la auditoría
+   * @param evidenceId - ID de la evidencia
+   * @param file - Archivo (documento, PDF u hoja de cálculo)
+   * @param uploadedById - ID del usuario autenticado
+   * @returns Evidencia con todas sus versiones (la nueva primero)
+   * @throws {AuditNotFoundException} Si la auditoría no existe
+   * @throws {AuditNotEditableException} Si la auditoría está cerrada
+   * @throws {AuditEvidenceNotFoundException} Si la evidencia no pertenece a la auditoría
+   * @throws {UnsupportedEvidenceFileException} Si el tipo de archivo no se admite
+   */
+  async execute(
+    auditId: string,
+    evidenceId: string,
+    file: Express.Multer.File,
+    uploadedById: string,
+  ): Promise<AuditEvidenceEntity> {
+    let stored: StoredAuditEvidenceFile | null = null
+
+    try {
+      return await this.transactionService.runInTransaction(async () => {
+        // 1. Validar auditoría y archivo
+        const audit = await this.auditValidator.validateAndGetAudit(auditId)
+        this.auditValidator.validateCanEdit(audit)
+        const fileType =
+          this.auditEvidenceValidator.validateAndGetFileType(file)
+
+        // 2. Bloquear la evidencia antes de leer su versión actual: las
+        // subidas simultáneas esperan al commit y continúan desde ella
+        await this.auditEvidencesRepository.lockInAudit(auditId, evidenceId)
+        const evidence =
+          await this.auditEvidenceValidator.validateAndGetEvidence(
+            auditId,
+            evidenceId,
+          )
+
+        // 3. Guardar el archivo con el siguiente número de versión
+        const next = evidence.currentVersion + 1
+        stored = await this.auditEvidenceFilesService.store(
+          auditId,
+          evidence.id,
+          next,
+          file,
+          fileType,
+        )
+        const version = await this.auditEvidenceVersionsRepository.save(
+          this.auditEvidenceFactory.createVersion(
+            evidence.id,
+            next,
+            file,
+            fileType,
+            stored,
+            uploadedById,
+          ),
+        )
+        await this.auditEvidencesRepository.update(evidence.id, {
+          currentVersion: next,
+        })
+
+        evidence.currentVersion = next
+        evidence.versions = [version, ...evidence.versions]
+        return evidence
+      })
+    } catch (error) {
+      // 4. La versión no se registró: no dejar el archivo huérfano
+      if (stored) await this.removeStoredFile(stored)
+      throw error
+    }
+  }
+
+  private async removeStoredFile(
+    stored: StoredAuditEvidenceFile,
+  ): Promise<void> {
+    try {
+      await this.auditEvidenceFilesService.remove(stored)
+    } catch (error) {
+      this.logger.error(
+        `Error al eliminar el archivo huérfano ${stored.filePath}:`,
+        error instanceof Error ? error.stack : String(error),
+      )
+    }
+  }
+}
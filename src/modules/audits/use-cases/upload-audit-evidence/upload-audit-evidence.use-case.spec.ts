@@ -0,0 +1,88 @@
+/* eslint-disable @typescript-eslint/unbound-method */
+import type { TransactionService } from '@core/database'
+import { UploadAuditEvidenceUseCase } from './upload-audit-evidence.use-case'
+import type {
+  IAuditEvidencesRepository,
+  IAuditEvidenceVersionsRepository,
+} from '../../repositories'
+import type { AuditEvidenceFactory } from '../../factories'
+import type { AuditEvidenceFilesService } from '../../services'
+import type {
+  AuditValidator,
+  AuditScoreValidator,
+  AuditEvidenceValidator,
+} from '../../validators'
+import type { StoredAuditEvidenceFile } from '../../interfaces'
+
+describe('UploadAuditEvidenceUseCase', () => {
+  let useCase: UploadAuditEvidenceUseCase
+  let auditEvidenceVersionsRepository: jest.Mocked<IAuditEvidenceVersionsRepository>
+  let auditEvidenceFilesService: jest.Mocked<AuditEvidenceFilesService>
+
+  const stored: StoredAuditEvidenceFile = {
+    filePath: 'audits/audit-1/evidence-1/v1.pdf',
+    size: 10,
+    mimeType: 'application/pdf',
+    sha256: 'hash',
+  }
+  const file = { originalname: 'acta.pdf' } as Express.Multer.File
+  const dto = { auditStandardId: 'standard-1', title: 'Acta' }
+
+  beforeEach(() => {
+    auditEvidenceVersionsRepository = {
+      save: jest.fn().mockResolvedValue({ id: 'version-1' }),
+    } as unknown as jest.Mocked<IAuditEvidenceVersionsRepository>
+    auditEvidenceFilesService = {
+      store: jest.fn().mockResolvedValue(stored),
+      remove: jest.fn().mockResolvedValue(undefined),
+    } as unknown as jest.Mocked<AuditEvidenceFilesService>
+
+    useCase = new UploadAuditEvidenceUseCase(
+      {
+        save: jest.fn().mockResolvedValue({ id: 'evidence-1' }),
+      } as unknown as IAuditEvidencesRepository,
+      auditEvidenceVersionsRepository,
+      {
+        validateAndGetAudit: jest.fn().mockResolvedValue({ id: 'audit-1' }),
+        validateCanEdit: jest.fn(),
+      } as unknown as AuditValidator,
+      {
+        validateAndGetAuditableStandard: jest.fn().mockResolvedValue({}),
+      } as unknown as AuditScoreValidator,
+      {
+        validateAndGetFileType: jest.fn().mockReturnValue('pdf'),
+      } as unknown as AuditEvidenceValidator,
+      {
+        createFromDto: jest.fn().mockReturnValue({}),
+        createVersion: jest.fn().mockReturnValue({}),
+      } as unknown as AuditEvidenceFactory,
+      auditEvidenceFilesService,
+      {
+        runInTransaction: jest.fn((operation: () => Promise<unknown>) =>
+          operation(),
+        ),
+      } as unknown as TransactionService,
+    )
+  })
+
+  it('should keep the stored file when the evidence is registered', async () => {
+    // Act
+    const evidence = await useCase.execute('audit-1', dto, file, 'user-1')
+
+    // Assert
+    expect(evidence.versions).toEqual([{ id: 'version-1' }])
+    expect(auditEvidenceFilesService.remove).not.toHaveBeenCalled()
+  })
+
+  it('should remove the stored file when the transaction fails', async () => {
+    // Arrange
+    const error = new Error('insert failed')
+    auditEvidenceVersionsRepository.save.mockRejectedValue(error)
+
+    // Act & Assert
+    await expect(
+      useCase.execute('audit-1', dto, file, 'user-1'),
+    ).rejects.toThrow(error)
+    expect(auditEvidenceFilesService.remove).toHaveBeenCalledWith(stored)
+  })
+})
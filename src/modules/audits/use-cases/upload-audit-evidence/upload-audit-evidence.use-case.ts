@@ -0,0 +1,125 @@
+import { Inject, Injectable, Logger } from '@nestjs/common'
+import { TransactionService } from '@core/database'
+import type { UploadAuditEvidenceDto } from '../../dtos'
+import type { AuditEvidenceEntity } from '../../entities'
+import type { StoredAuditEvidenceFile } from '../../interfaces'
+import { AuditEvidenceFactory } from '../../factories'
+import { AuditEvidenceFilesService } from '../../services'
+import {
+  AuditValidator,
+  AuditScoreValidator,
+  AuditEvidenceValidator,
+} from '../../validators'
+import {
+  AUDIT_EVIDENCES_REPOSITORY,
+  AUDIT_EVIDENCE_VERSIONS_REPOSITORY,
+} from '../../tokens'
+import type {
+  IAuditEvidencesRepository,
+  IAuditEvidenceVersionsRepository,
+} from '../../repositories'
+
+/**
+ * Upload Audit Evidence Use Case
+ *
+ * Adjunta una evidencia nueva (versión 1) a un standard auditable
+ *
+ * Igual que la subida de versiones, usa runInTransaction para eliminar el
+ * archivo guardado si la transacción se revierte.
+ */
+@Injectable()
+export class UploadAuditEvidenceUseCase {
+  private readonly logger = new Logger(UploadAuditEvidenceUseCase.name)
+
+  constructor(
+    @Inject(AUDIT_EVIDENCES_REPOSITORY)
+    private readonly auditEvidencesRepository: IAuditEvidencesRepository,
+    @Inject(AUDIT_EVIDENCE_VERSIONS_REPOSITORY)
+    private readonly auditEvidenceVersionsRepository: IAuditEvidenceVersionsRepository,
+    private readonly auditValidator: AuditValidator,
+    private readonly auditScoreValidator: AuditScoreValidator,
+    private readonly auditEvidenceValidator: AuditEvidenceValidator,
+    private readonly auditEvidenceFactory: AuditEvidenceFactory,
+    private readonly auditEvidenceFilesService: AuditEvidenceFilesService,
+    private readonly transactionService: TransactionService,
+  ) {}
+
+  /**
+   * @param auditId - ID de la auditoría
+   * @param dto - Standard, título y descripción
+   * @param file - Archivo (documento, PDF u hoja de cálculo)
+   * @param uploadedById - ID del usuario autenticado
+   * @returns Evidencia con su primera versión
+   * @throws {AuditNotFoundException} Si la auditoría no existe
+   * @throws {AuditNotEditableException} Si la auditoría está cerrada
+   * @throws {AuditStandardNotFoundException} Si el standard no pertenece a la auditoría
+   * @throws {AuditStandardNotAuditableException} Si el standard es un agrupador
+   * @throws {UnsupportedEvidenceFileException} Si el tipo de archivo no se admite
+   */
+  async execute(
+    auditId: string,
+    dto: UploadAuditEvidenceDto,
+    file: Express.Multer.File,
+    uploadedById: string,
+  ): Promise<AuditEvidenceEntity> {
+    let stored: StoredAuditEvidenceFile | null = null
+
+    try {
+      return await this.transactionService.runInTransaction(async () => {
+        // 1. Validar auditoría, standard y archivo
+        const audit = await this.auditValidator.validateAndGetAudit(auditId)
+        this.auditValidator.validateCanEdit(audit)
+        await this.auditScoreValidator.validateAndGetAuditableStandard(
+          auditId,
+          dto.auditStandardId,
+        )
+        const fileType =
+          this.auditEvidenceValidator.validateAndGetFileType(file)
+
+        // 2. Crear la evidencia (su ID define la carpeta del archivo)
+        const evidence = await this.auditEvidencesRepository.save(
+          this.auditEvidenceFactory.createFromDto(auditId, dto),
+        )
+
+        // 3. Guardar el archivo y la versión 1
+        stored = await this.auditEvidenceFilesService.store(
+          auditId,
+          evidence.id,
+          1,
+          file,
+          fileType,
+        )
+        const version = await this.auditEvidenceVersionsRepository.save(
+          this.auditEvidenceFactory.createVersion(
+            evidence.id,
+            1,
+            file,
+            fileType,
+            stored,
+            uploadedById,
+          ),
+        )
+
+        evidence.versions = [version]
+        return evidence
+      })
+    } catch (error) {
+      // 4. La evidencia no se registró: no dejar el archivo huérfano
+      if (stored) await this.removeStoredFile(stored)
+      throw error
+    }
+  }
+
+  private async removeStoredFile(
+    stored: StoredAuditEvidenceFile,
+  ): Promise<void> {
+    try {
+      await this.auditEvidenceFilesService.remove(stored)
+    } catch (error) {
+      this.logger.error(
+        `Error al eliminar el archivo huérfano ${stored.filePath}:`,
+        error instanceof Error ? error.stack : String(error),
+      )
+    }
+  }
+}
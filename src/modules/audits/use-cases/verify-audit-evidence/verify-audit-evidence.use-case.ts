@@ -0,0 +1,42 @@
+import { Injectable } from '@nestjs/common'
+import { AuditEvidenceFilesService } from '../../services'
+import { AuditValidator, AuditEvidenceValidator } from '../../validators'
+import type { AuditEvidenceIntegrity } from '../../interfaces'
+
+@Injectable()
+export class VerifyAuditEvidenceUseCase {
+  constructor(
+    private readonly auditValidator: AuditValidator,
+    private readonly auditEvidenceValidator: AuditEvidenceValidator,
+    private readonly auditEvidenceFilesService: AuditEvidenceFilesService,
+  ) {}
+
+  /**
+   * Verifica que el archivo de una versión no fue alterado desde que se subió
+   *
+   * @param auditId - ID de la auditoría
+   * @param evidenceId - ID de la evidencia
+   * @param version - Número de versión
+   * @returns Hash guardado, hash actual y resultado
+   * @throws {AuditNotFoundException} Si la auditoría no existe
+   * @throws {AuditEvidenceNotFoundException} Si la evidencia no pertenece a la auditoría
+   * @throws {AuditEvidenceVersionNotFoundException} Si la versión no existe
+   */
+  async execute(
+    auditId: string,
+    evidenceId: string,
+    version: number,
+  ): Promise<AuditEvidenceIntegrity> {
+    await this.auditValidator.validateAndGetAudit(auditId)
+    const evidence = await this.auditEvidenceValidator.validateAndGetEvidence(
+      auditId,
+      evidenceId,
+    )
+    const target = this.auditEvidenceValidator.validateAndGetVersion(
+      evidence,
+      version,
+    )
+
+    return await this.auditEvidenceFilesService.verify(target)
+  }
+}
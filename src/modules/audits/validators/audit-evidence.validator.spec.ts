@@ -0,0 +1,106 @@
+import { Test, TestingModule } from '@nestjs/testing'
+import { FileType } from '@core/files'
+import { AuditEvidenceValidator } from './audit-evidence.validator'
+import { AUDIT_EVIDENCES_REPOSITORY } from '../tokens'
+import type { IAuditEvidencesRepository } from '../repositories'
+import { AuditEvidenceEntity, AuditEvidenceVersionEntity } from '../entities'
+import {
+  AuditEvidenceNotFoundException,
+  AuditEvidenceVersionNotFoundException,
+  UnsupportedEvidenceFileException,
+} from '../exceptions'
+import { createMock } from '@core/testing'
+
+describe('AuditEvidenceValidator', () => {
+  let validator: AuditEvidenceValidator
+  let evidencesRepository: jest.Mocked<IAuditEvidencesRepository>
+
+  const evidence = Object.assign(new AuditEvidenceEntity(), {
+    id: 'evidence-1',
+    auditId: 'audit-1',
+    title: 'Política de contraseñas',
+    currentVersion: 2,
+    versions: [2, 1].map((version) =>
+      Object.assign(new AuditEvidenceVersionEntity(), {
+        evidenceId: 'evidence-1',
+        version,
+      }),
+    ),
+  })
+
+  const buildFile = (mimetype: string) =>
+    ({ mimetype, originalname: 'evidencia' }) as Express.Multer.File
+
+  beforeEach(async () => {
+    evidencesRepository = createMock<IAuditEvidencesRepository>({
+      findOneInAudit: jest.fn(),
+    })
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AuditEvidenceValidator,
+        { provide: AUDIT_EVIDENCES_REPOSITORY, useValue: evidencesRepository },
+      ],
+    }).compile()
+
+    validator = module.get<AuditEvidenceValidator>(AuditEvidenceValidator)
+  })
+
+  afterEach(() => {
+    jest.clearAllMocks()
+  })
+
+  describe('validateAndGetEvidence', () => {
+    it('should return the evidence when it belongs to the audit', async () => {
+      evidencesRepository.findOneInAudit.mockResolvedValue(evidence)
+
+      await expect(
+        validator.validateAndGetEvidence('audit-1', 'evidence-1'),
+      ).resolves.toBe(evidence)
+    })
+
+    it('should throw AuditEvidenceNotFoundException when it is not in the audit', async () => {
+      evidencesRepository.findOneInAudit.mockResolvedValue(null)
+
+      await expect(
+        validator.validateAndGetEvidence('audit-2', 'evidence-1'),
+      ).rejects.toThrow(AuditEvidenceNotFoundException)
+    })
+  })
+
+  describe('validateAndGetVersion', () => {
+    it('should return any earlier version', () => {
+      expect(validator.validateAndGetVersion(evidence, 1).version).toBe(1)
+    })
+
+    it('should throw AuditEvidenceVersionNotFoundException for an unknown version', () => {
+      expect(() => validator.validateAndGetVersion(evidence, 3)).toThrow(
+        AuditEvidenceVersionNotFoundException,
+      )
+    })
+  })
+
+  describe('validateAndGetFileType', () => {
+    it('should detect documents, PDFs and spreadsheets', () => {
+      expect(
+        validator.validateAndGetFileType(buildFile('application/pdf')),
+      ).toBe(FileType.PDF)
+      expect(validator.validateAndGetFileType(buildFile('text/csv'))).toBe(
+        FileType.SPREADSHEET,
+      )
+      expect(
+        validator.validateAndGetFileType(
+          buildFile(
+            'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+          ),
+        ),
+      ).toBe(FileType.DOCUMENT)
+    })
+
+    it('should throw UnsupportedEvidenceFileException for other files', () => {
+      expect(() =>
+        validator.validateAndGetFileType(buildFile('video/mp4')),
+      ).toThrow(UnsupportedEvidenceFileException)
+    })
+  })
+})
@@ -0,0 +1,79 @@
+import { Injectable, Inject } from '@nestjs/common'
+import { FileType, ALLOWED_MIME_TYPES } from '@core/files'
+import { AuditEvidenceEntity, AuditEvidenceVersionEntity } from '../entities'
+import {
+  AuditEvidenceNotFoundException,
+  AuditEvidenceVersionNotFoundException,
+  UnsupportedEvidenceFileException,
+} from '../exceptions'
+import { AUDIT_EVIDENCE_UPLOAD_CONFIGS } from '../constants'
+import { AUDIT_EVIDENCES_REPOSITORY } from '../tokens'
+import type { IAuditEvidencesRepository } from '../repositories'
+
+@Injectable()
+export class AuditEvidenceValidator {
+  constructor(
+    @Inject(AUDIT_EVIDENCES_REPOSITORY)
+    private readonly auditEvidencesRepository: IAuditEvidencesRepository,
+  ) {}
+
+  /**
+   * Valida que la evidencia pertenece a la auditoría y la retorna con
+   * sus versiones (la más reciente primero)
+   *
+   * @throws {AuditEvidenceNotFoundException} Si no pertenece a la auditoría
+   */
+  async validateAndGetEvidence(
+    auditId: string,
+    evidenceId: string,
+  ): Promise<AuditEvidenceEntity> {
+    const evidence = await this.auditEvidencesRepository.findOneInAudit(
+      auditId,
+      evidenceId,
+    )
+
+    if (!evidence) {
+      throw new AuditEvidenceNotFoundException(evidenceId, auditId)
+    }
+
+    return evidence
+  }
+
+  /**
+   * @throws {AuditEvidenceVersionNotFoundException} Si la versión no existe
+   */
+  validateAndGetVersion(
+    evidence: AuditEvidenceEntity,
+    version: number,
+  ): AuditEvidenceVersionEntity {
+    const found = evidence.versions.find((v) => v.version === version)
+
+    if (!found) {
+      throw new AuditEvidenceVersionNotFoundException(version, evidence.title)
+    }
+
+    return found
+  }
+
+  /**
+   * Determina el tipo de archivo (documento, PDF u hoja de cálculo) por su
+   * MIME type; la extensión y el tamaño se validan al guardarlo
+   *
+   * @throws {UnsupportedEvidenceFileException} Si no es un tipo admitido
+   */
+  validateAndGetFileType(file: Express.Multer.File): FileType {
+    const types = Object.keys(AUDIT_EVIDENCE_UPLOAD_CONFIGS) as FileType[]
+    const fileType = types.find((type) =>
+      ALLOWED_MIME_TYPES[type].includes(file.mimetype),
+    )
+
+    if (!fileType) {
+      throw new UnsupportedEvidenceFileException(
+        file.mimetype,
+        types.flatMap((type) => ALLOWED_MIME_TYPES[type]),
+      )
+    }
+
+    return fileType
+  }
+}
@@ -0,0 +1,162 @@
+/* eslint-disable @typescript-eslint/unbound-method */
+import { Test, TestingModule } from '@nestjs/testing'
+import { AuditScoreValidator } from './audit-score.validator'
+import { AUDIT_STANDARDS_REPOSITORY } from '../tokens'
+import type { IAuditStandardsRepository } from '../repositories'
+import { AuditEntity, AuditStandardEntity } from '../entities'
+import { AuditStatus } from '../constants'
+import {
+  AuditNotEditableException,
+  AuditStandardNotAuditableException,
+  AuditStandardNotFoundException,
+  MaturityLevelNotInFrameworkException,
+  MaturityLevelOutOfRangeException,
+} from '../exceptions'
+import { createMock } from '@core/testing'
+import { LEVELS_REPOSITORY } from '../../maturity/levels/tokens'
+import type { IMaturityLevelsRepository } from '../../maturity/levels/repositories'
+import { MaturityLevelEntity } from '../../maturity/levels/entities/maturity-level.entity'
+import { FRAMEWORKS_REPOSITORY } from '../../maturity/frameworks/tokens'
+import type { IFrameworksRepository } from '../../maturity/frameworks/repositories'
+import { MaturityFrameworkEntity } from '../../maturity/frameworks/entities/maturity-framework.entity'
+
+describe('AuditScoreValidator', () => {
+  let validator: AuditScoreValidator
+  let standardsRepository: jest.Mocked<IAuditStandardsRepository>
+  let levelsRepository: jest.Mocked<IMaturityLevelsRepository>
+  let frameworksRepository: jest.Mocked<IFrameworksRepository>
+
+  const audit = Object.assign(new AuditEntity(), {
+    id: 'audit-1',
+    code: 'AUD-001',
+    frameworkId: 'fw-1',
+    status: AuditStatus.IN_FIELDWORK,
+  })
+
+  const framework = Object.assign(new MaturityFrameworkEntity(), {
+    id: 'fw-1',
+    name: 'COBIT 5',
+    minLevel: 0,
+    maxLevel: 5,
+  })
+
+  const buildLevel = (frameworkId: string, level: number) =>
+    Object.assign(new MaturityLevelEntity(), {
+      id: `level-${level}`,
+      frameworkId,
+      level,
+      name: `Nivel ${level}`,
+    })
+
+  beforeEach(async () => {
+    standardsRepository = createMock<IAuditStandardsRepository>({
+      findOneInAudit: jest.fn(),
+    })
+    levelsRepository = createMock<IMaturityLevelsRepository>({
+      findById: jest.fn(),
+    })
+    frameworksRepository = createMock<IFrameworksRepository>({
+      findById: jest.fn().mockResolvedValue(framework),
+    })
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AuditScoreValidator,
+        { provide: AUDIT_STANDARDS_REPOSITORY, useValue: standardsRepository },
+        { provide: LEVELS_REPOSITORY, useValue: levelsRepository },
+        { provide: FRAMEWORKS_REPOSITORY, useValue: frameworksRepository },
+      ],
+    }).compile()
+
+    validator = module.get<AuditScoreValidator>(AuditScoreValidator)
+  })
+
+  afterEach(() => {
+    jest.clearAllMocks()
+  })
+
+  describe('validateCanScore', () => {
+    it('should allow scoring during fieldwork and review', () => {
+      expect(() => validator.validateCanScore(audit)).not.toThrow()
+      expect(() =>
+        validator.validateCanScore(
+          Object.assign(new AuditEntity(), {
+            ...audit,
+            status: AuditStatus.IN_REVIEW,
+          }),
+        ),
+      ).not.toThrow()
+    })
+
+    it('should throw AuditNotEditableException for planned or closed audits', () => {
+      ;[AuditStatus.PLANNED, AuditStatus.CLOSED].forEach((status) => {
+        const target = Object.assign(new AuditEntity(), { ...audit, status })
+        expect(() => validator.validateCanScore(target)).toThrow(
+          AuditNotEditableException,
+        )
+      })
+    })
+  })
+
+  describe('validateAndGetAuditableStandard', () => {
+    it('should throw AuditStandardNotFoundException when the standard is not in the audit', async () => {
+      // Arrange
+      standardsRepository.findOneInAudit.mockResolvedValue(null)
+
+      // Act & Assert
+      await expect(
+        validator.validateAndGetAuditableStandard('audit-1', 'std-x'),
+      ).rejects.toThrow(AuditStandardNotFoundException)
+    })
+
+    it('should throw AuditStandardNotAuditableException for grouping standards', async () => {
+      // Arrange
+      standardsRepository.findOneInAudit.mockResolvedValue(
+        Object.assign(new AuditStandardEntity(), {
+          code: 'A.5',
+          isAuditable: false,
+        }),
+      )
+
+      // Act & Assert
+      await expect(
+        validator.validateAndGetAuditableStandard('audit-1', 'std-1'),
+      ).rejects.toThrow(AuditStandardNotAuditableException)
+    })
+  })
+
+  describe('validateAndGetLevel', () => {
+    it('should return the level when it belongs to the framework and is in range', async () => {
+      // Arrange
+      const level = buildLevel('fw-1', 3)
+      levelsRepository.findById.mockResolvedValue(level)
+
+      // Act
+      const result = await validator.validateAndGetLevel(audit, level.id)
+
+      // Assert
+      expect(result).toBe(level)
+      expect(frameworksRepository.findById).toHaveBeenCalledWith('fw-1')
+    })
+
+    it('should throw MaturityLevelNotInFrameworkException for levels of another framework', async () => {
+      // Arrange
+      levelsRepository.findById.mockResolvedValue(buildLevel('fw-2', 3))
+
+      // Act & Assert
+      await expect(
+        validator.validateAndGetLevel(audit, 'level-3'),
+      ).rejects.toThrow(MaturityLevelNotInFrameworkException)
+    })
+
+    it('should throw MaturityLevelOutOfRangeException when the level is outside minLevel-maxLevel', async () => {
+      // Arrange
+      levelsRepository.findById.mockResolvedValue(buildLevel('fw-1', 6))
+
+      // Act & Assert
+      await expect(
+        validator.validateAndGetLevel(audit, 'level-6'),
+      ).rejects.toThrow(MaturityLevelOutOfRangeException)
+    })
+  })
+})
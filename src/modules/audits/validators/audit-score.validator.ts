@@ -0,0 +1,115 @@
+import { Injectable, Inject } from '@nestjs/common'
+import { AuditEntity, AuditStandardEntity } from '../entities'
+import {
+  AuditNotEditableException,
+  AuditStandardNotFoundException,
+  AuditStandardNotAuditableException,
+  MaturityLevelNotInFrameworkException,
+  MaturityLevelOutOfRangeException,
+} from '../exceptions'
+import { AUDIT_STANDARDS_REPOSITORY } from '../tokens'
+import type { IAuditStandardsRepository } from '../repositories'
+import { MaturityLevelEntity } from '../../maturity/levels/entities/maturity-level.entity'
+import { MaturityLevelNotFoundException } from '../../maturity/levels/exceptions'
+import { LEVELS_REPOSITORY } from '../../maturity/levels/tokens'
+import type { IMaturityLevelsRepository } from '../../maturity/levels/repositories'
+import { MaturityFrameworkNotFoundException } from '../../maturity/frameworks/exceptions'
+import { FRAMEWORKS_REPOSITORY } from '../../maturity/frameworks/tokens'
+import type { IFrameworksRepository } from '../../maturity/frameworks/repositories'
+
+@Injectable()
+export class AuditScoreValidator {
+  constructor(
+    @Inject(AUDIT_STANDARDS_REPOSITORY)
+    private readonly auditStandardsRepository: IAuditStandardsRepository,
+    @Inject(LEVELS_REPOSITORY)
+    private readonly levelsRepository: IMaturityLevelsRepository,
+    @Inject(FRAMEWORKS_REPOSITORY)
+    private readonly frameworksRepository: IFrameworksRepository,
+  ) {}
+
+  /**
+   * Valida que la auditoría admite evaluaciones (en trabajo de campo o revisión)
+   *
+   * @throws {AuditNotEditableException} Si la auditoría no está en un estado evaluable
+   */
+  validateCanScore(audit: AuditEntity): void {
+    if (!audit.canBeScored) {
+      throw new AuditNotEditableException(audit.code, audit.status)
+    }
+  }
+
+  /**
+   * Valida que el standard pertenece al snapshot de la auditoría y es auditable
+   *
+   * @param auditId - ID de la auditoría
+   * @param auditStandardId - ID del standard del snapshot
+   * @returns Standard del snapshot
+   * @throws {AuditStandardNotFoundException} Si no pertenece a la auditoría
+   * @throws {AuditStandardNotAuditableException} Si es un agrupador
+   */
+  async validateAndGetAuditableStandard(
+    auditId: string,
+    auditStandardId: string,
+  ): Promise<AuditStandardEntity> {
+    const standard = await this.auditStandardsRepository.findOneInAudit(
+      auditId,
+      auditStandardId,
+    )
+
+    if (!standard) {
+      throw new AuditStandardNotFoundException(auditStandardId, auditId)
+    }
+
+    if (!standard.isAuditable) {
+      throw new AuditStandardNotAuditableException(standard.code)
+    }
+
+    return standard
+  }
+
+  /**
+   * Valida que el nivel de madurez pertenece al framework de la auditoría
+   * y está dentro de su rango minLevel-maxLevel
+   *
+   * @param audit - Auditoría evaluada
+   * @param maturityLevelId - ID del nivel elegido
+   * @returns Nivel de madurez
+   * @throws {MaturityLevelNotFoundException} Si el nivel no existe
+   * @throws {MaturityFrameworkNotFoundException} Si el framework no existe
+   * @throws {MaturityLevelNotInFrameworkException} Si el nivel es de otro framework
+   * @throws {MaturityLevelOutOfRangeException} Si el nivel está fuera del rango
+   */
+  async validateAndGetLevel(
+    audit: AuditEntity,
+    maturityLevelId: string,
+  ): Promise<MaturityLevelEntity> {
+    const level = await this.levelsRepository.findById(maturityLevelId)
+
+    if (!level) {
+      throw new MaturityLevelNotFoundException(maturityLevelId)
+    }
+
+    const framework = await this.frameworksRepository.findById(
+      audit.frameworkId,
+    )
+
+    if (!framework) {
+      throw new MaturityFrameworkNotFoundException(audit.frameworkId)
+    }
+
+    if (level.frameworkId !== framework.id) {
+      throw new MaturityLevelNotInFrameworkException(level.name, framework.name)
+    }
+
+    if (level.level < framework.minLevel || level.level > framework.maxLevel) {
+      throw new MaturityLevelOutOfRangeException(
+        level.level,
+        framework.minLevel,
+        framework.maxLevel,
+      )
+    }
+
+    return level
+  }
+}
@@ -0,0 +1,193 @@
+import { Injectable, Inject } from '@nestjs/common'
+import { AuditEntity } from '../entities'
+import { AuditStatus } from '../constants'
+import {
+  AuditNotFoundException,
+  AuditAlreadyExistsException,
+  AuditNotEditableException,
+  TemplateNotUsableForAuditException,
+  FrameworkNotActiveException,
+  OrganizationNotActiveException,
+  InvalidLeadAuditorException,
+  InvalidAuditDatesException,
+  InvalidAuditStatusTransitionException,
+} from '../exceptions'
+import { AUDITS_REPOSITORY } from '../tokens'
+import type { IAuditsRepository } from '../repositories'
+import { TemplateEntity } from '../../audit-library/templates/entities/template.entity'
+import { TemplateNotFoundException } from '../../audit-library/templates/exceptions'
+import { TEMPLATES_REPOSITORY } from '../../audit-library/templates/tokens'
+import type { ITemplatesRepository } from '../../audit-library/templates/repositories'
+import { OrganizationNotFoundException } from '../../organizations/exceptions'
+import { ORGANIZATION_REPOSITORY } from '../../organizations/tokens'
+import type { IOrganizationRepository } from '../../organizations/repositories'
+import { MaturityFrameworkNotFoundException } from '../../maturity/frameworks/exceptions'
+import { FRAMEWORKS_REPOSITORY } from '../../maturity/frameworks/tokens'
+import type { IFrameworksRepository } from '../../maturity/frameworks/repositories'
+import { UserNotFoundException } from '../../users/exceptions'
+import { USERS_REPOSITORY } from '../../users/tokens'
+import type { IUsersRepository } from '../../users/repositories'
+import { Role } from '../../users/entities/user.entity'
+
+@Injectable()
+export class AuditValidator {
+  constructor(
+    @Inject(AUDITS_REPOSITORY)
+    private readonly auditsRepository: IAuditsRepository,
+    @Inject(TEMPLATES_REPOSITORY)
+    private readonly templatesRepository: ITemplatesRepository,
+    @Inject(ORGANIZATION_REPOSITORY)
+    private readonly organizationRepository: IOrganizationRepository,
+    @Inject(FRAMEWORKS_REPOSITORY)
+    private readonly frameworksRepository: IFrameworksRepository,
+    @Inject(USERS_REPOSITORY)
+    private readonly usersRepository: IUsersRepository,
+  ) {}
+
+  /**
+   * Valida que una auditoría existe y la retorna
+   *
+   * @param auditId - ID de la auditoría
+   * @returns Auditoría encontrada
+   * @throws {AuditNotFoundException} Si la auditoría no existe
+   */
+  async validateAndGetAudit(auditId: string): Promise<AuditEntity> {
+    const audit = await this.auditsRepository.findById(auditId)
+
+    if (!audit) {
+      throw new AuditNotFoundException(auditId)
+    }
+
+    return audit
+  }
+
+  /**
+   * Valida que el código de auditoría es único
+   *
+   * @throws {AuditAlreadyExistsException} Si ya existe otra auditoría con el código
+   */
+  async validateUniqueCode(code: string, excludeId?: string): Promise<void> {
+    const exists = await this.auditsRepository.existsByCode(
+      code.trim().toUpperCase(),
+      excludeId,
+    )
+
+    if (exists) {
+      throw new AuditAlreadyExistsException(code)
+    }
+  }
+
+  /**
+   * Valida que la plantilla existe y puede iniciar una auditoría (PUBLISHED)
+   *
+   * @param templateId - ID de la plantilla
+   * @returns Plantilla encontrada
+   * @throws {TemplateNotFoundException} Si la plantilla no existe
+   * @throws {TemplateNotUsableForAuditException} Si la plantilla no está publicada
+   */
+  async validateTemplateForAudit(templateId: string): Promise<TemplateEntity> {
+    const template = await this.templatesRepository.findById(templateId)
+
+    if (!template) {
+      throw new TemplateNotFoundException(templateId)
+    }
+
+    if (!template.canStartAudit) {
+      throw new TemplateNotUsableForAuditException(
+        template.name,
+        `su estado es "${template.status}" (debe estar publicada)`,
+      )
+    }
+
+    return template
+  }
+
+  /**
+   * Valida que la organización existe y está activa
+   *
+   * @throws {OrganizationNotFoundException} Si la organización no existe
+   * @throws {OrganizationNotActiveException} Si la organización está inactiva
+   */
+  async validateOrganization(organizationId: string): Promise<void> {
+    const organization =
+      await this.organizationRepository.findById(organizationId)
+
+    if (!organization) {
+      throw new OrganizationNotFoundException(organizationId)
+    }
+
+    if (!organization.isActive) {
+      throw new OrganizationNotActiveException(organization.name)
+    }
+  }
+
+  /**
+   * Valida que el framework de madurez existe y está activo
+   *
+   * @throws {MaturityFrameworkNotFoundException} Si el framework no existe
+   * @throws {FrameworkNotActiveException} Si el framework está inactivo
+   */
+  async validateFramework(frameworkId: string): Promise<void> {
+    const framework = await this.frameworksRepository.findById(frameworkId)
+
+    if (!framework) {
+      throw new MaturityFrameworkNotFoundException(frameworkId)
+    }
+
+    if (!framework.isActive) {
+      throw new FrameworkNotActiveException(framework.name)
+    }
+  }
+
+  /**
+   * Valida que el usuario puede liderar la auditoría
+   * (existe, está activo y tiene el rol AUDITOR)
+   *
+   * @throws {UserNotFoundException} Si el usuario no existe
+   * @throws {InvalidLeadAuditorException} Si el usuario no es un auditor activo
+   */
+  async validateLeadAuditor(userId: string): Promise<void> {
+    const user = await this.usersRepository.findById(userId)
+
+    if (!user) {
+      throw new UserNotFoundException(userId)
+    }
+
+    if (!user.isActive || !user.roles.includes(Role.AUDITOR)) {
+      throw new InvalidLeadAuditorException(user.username)
+    }
+  }
+
+  /**
+   * Valida que la fecha de inicio no sea posterior a la de fin
+   *
+   * @throws {InvalidAuditDatesException} Si el rango es inválido
+   */
+  validateDates(plannedStartDate: string, plannedEndDate: string): void {
+    if (new Date(plannedStartDate) > new Date(plannedEndDate)) {
+      throw new InvalidAuditDatesException(plannedStartDate, plannedEndDate)
+    }
+  }
+
+  /**
+   * Valida que la auditoría admite cambios (no está cerrada)
+   *
+   * @throws {AuditNotEditableException} Si la auditoría está cerrada
+   */
+  validateCanEdit(audit: AuditEntity): void {
+    if (!audit.isEditable) {
+      throw new AuditNotEditableException(audit.code, audit.status)
+    }
+  }
+
+  /**
+   * Valida que la auditoría puede pasar al estado indicado
+   *
+   * @throws {InvalidAuditStatusTransitionException} Si la transición no está permitida
+   */
+  validateTransition(audit: AuditEntity, status: AuditStatus): void {
+    if (!audit.canTransitionTo(status)) {
+      throw new InvalidAuditStatusTransitionException(audit.status, status)
+    }
+  }
+}
@@ -0,0 +1,3 @@
+export * from './audit.validator'
+export * from './audit-score.validator'
+export * from './audit-evidence.validator'
@@ -42,6 +42,8 @@ import { JwtAuthGuard } from '../../../core'
 
 import { USERS_REPOSITORY } from '../../../../users/tokens'
 import type { IUsersRepository } from '../../../../users/repositories'
+import { FindEffectivePermissionsUseCase } from '../../../../authorization/use-cases'
+import { EffectivePermissionsResponseDto } from '../../../../authorization/dtos'
 @UseGuards(JwtAuthGuard)
 @ApiTags('Auth')
 @Controller('auth')
@@ -51,6 +53,7 @@ export class AuthController {
     private readonly refreshTokenUseCase: RefreshTokenUseCase,
     private readonly logoutUseCase: LogoutUseCase,
     private readonly switchRoleUseCase: SwitchRoleUseCase,
+    private readonly findEffectivePermissionsUseCase: FindEffectivePermissionsUseCase,
     private readonly cookieService: CookieService,
     @Inject(USERS_REPOSITORY)
     private readonly usersRepository: IUsersRepository,
@@ -283,7 +286,7 @@ export class AuthController {
       address: profile.address,
       email: profile.email,
       image: profile.image,
-      roles: profile.roles,
+      roles: user.roles, // ← Desde el JWT (incluye asignaciones temporales)
       currentRole: user.currentRole, // ← Desde el JWT
       organizationId: profile.organizationId,
       organizationName: profile.organization?.name || 'Sin organización',
@@ -291,6 +294,42 @@ export class AuthController {
     }
   }
 
+  /**
+   * GET /auth/me/permissions
+   *
+   * Permisos efectivos del usuario autenticado con su rol activo
+   * El frontend los usa para mostrar u ocultar rutas y acciones
+   *
+   * @param user - Usuario autenticado (del JWT)
+   * @returns Políticas de frontend y backend del currentRole
+   */
+  @Get('me/permissions')
+  @HttpCode(HttpStatus.OK)
+  @ResponseMessage('Permisos obtenidos exitosamente')
+  @ApiOperation({
+    summary: 'Obtener permisos efectivos del usuario autenticado',
+    description:
+      'Retorna las políticas de Casbin (frontend y backend) del rol activo, incluyendo los roles que hereda y los roles personalizados asignados al usuario. ' +
+      'Al cambiar de rol (POST /auth/switch-role) los permisos cambian con el nuevo access token.',
+  })
+  @ApiWrappedResponse({
+    status: HttpStatus.OK,
+    description: 'Permisos efectivos del rol activo',
+    type: EffectivePermissionsResponseDto,
+  })
+  @ApiWrappedResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'No autenticado',
+  })
+  async getPermissions(
+    @GetUser() user: JwtPayload,
+  ): Promise<EffectivePermissionsResponseDto> {
+    return await this.findEffectivePermissionsUseCase.execute(
+      user.currentRole,
+      user.sub,
+    )
+  }
+
   /**
    * POST /auth/switch-role
    *
@@ -61,11 +61,11 @@ export class SwitchRoleUseCase {
       'SwitchRoleUseCase',
     )
 
-    // 4. Devolver respuesta
+    // 4. Devolver respuesta (roles propios y asignaciones temporales vigentes)
     return {
       accessToken,
       currentRole: newRole,
-      availableRoles: user.roles,
+      availableRoles: await this.tokensService.getEffectiveRoles(user),
     }
   }
 }
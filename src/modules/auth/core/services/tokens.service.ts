@@ -1,4 +1,4 @@
-import { Injectable } from '@nestjs/common'
+import { Injectable, Inject } from '@nestjs/common'
 import {
   JwtService,
   JsonWebTokenError,
@@ -14,6 +14,8 @@ import {
   StoredSession, // Importamos la interfaz desde el nuevo repo
 } from './token-storage.repository'
 import { UserEntity, Role } from '../../../users/entities/user.entity'
+import { ROLE_GRANTS_REPOSITORY } from '../../../authorization/tokens'
+import type { IRoleGrantsRepository } from '../../../authorization/repositories'
 import { JwtPayload, JwtRefreshPayload } from '../interfaces'
 import { InvalidTokenException } from '../exceptions'
 import { envs } from '@core/config'
@@ -36,6 +38,8 @@ export class TokensService {
     private readonly tokenStorage: TokenStorageRepository,
     private readonly connectionMetadataService: ConnectionMetadataService,
     private readonly logger: LoggerService,
+    @Inject(ROLE_GRANTS_REPOSITORY)
+    private readonly roleGrantsRepository: IRoleGrantsRepository,
   ) {
     this.accessTokenExpires = envs.jwt.accessExpiresIn
     this.refreshTokenExpires = envs.jwt.refreshExpiresIn
@@ -53,14 +57,19 @@ export class TokensService {
     const tokenId = this.tokenStorage.generateTokenId()
 
     // 2. Preparamos Payloads
-    // Determinar el rol activo: usar el parámetro o el más alto por defecto
-    const roleToUse = currentRole ?? this.getHighestRole(user.roles)
+    // Determinar el rol activo: usar el parámetro (si aún lo tiene, p. ej. una
+    // asignación temporal que venció) o el más alto por defecto
+    const roles = await this.getEffectiveRoles(user)
+    const roleToUse =
+      currentRole && roles.includes(currentRole)
+        ? currentRole
+        : this.getHighestRole(roles)
 
     const accessPayload: JwtPayload = {
       sub: user.id,
       email: user.email,
       username: user.username,
-      roles: user.roles,
+      roles,
       currentRole: roleToUse,
       organizationId: user.organizationId,
     }
@@ -158,7 +167,8 @@ export class TokensService {
     newRole: Role,
   ): Promise<string> {
     // Validar que el usuario tenga el rol solicitado
-    if (!user.roles.includes(newRole)) {
+    const roles = await this.getEffectiveRoles(user)
+    if (!roles.includes(newRole)) {
       throw new InvalidTokenException('No tienes permiso para usar este rol')
     }
 
@@ -166,7 +176,7 @@ export class TokensService {
       sub: user.id,
       email: user.email,
       username: user.username,
-      roles: user.roles,
+      roles,
       currentRole: newRole, // Usar el rol solicitado
       organizationId: user.organizationId,
     }
@@ -176,6 +186,15 @@ export class TokensService {
     })
   }
 
+  /**
+   * Roles del usuario (users.roles) más los de sus asignaciones temporales
+   * vigentes (ver RoleGrantEntity)
+   */
+  async getEffectiveRoles(user: UserEntity): Promise<Role[]> {
+    const granted = await this.roleGrantsRepository.findActiveRoles(user.id)
+    return [...new Set([...user.roles, ...granted])]
+  }
+
   /**
    * Actualiza el rol activo en TODAS las sesiones activas del usuario
    *
@@ -204,6 +223,31 @@ export class TokensService {
     )
   }
 
+  /**
+   * Cambia el rol activo solo en las sesiones que trabajan con `fromRole`
+   *
+   * Usado cuando el usuario pierde un rol: las sesiones con otro rol activo
+   * no se tocan
+   *
+   * @returns Cantidad de sesiones actualizadas
+   */
+  async replaceCurrentRoleInSessions(
+    userId: string,
+    fromRole: Role,
+    toRole: Role,
+  ): Promise<number> {
+    const sessions = await this.tokenStorage.findAllByUser(userId)
+    const affected = sessions.filter(
+      (session) => session.currentRole === fromRole,
+    )
+
+    for (const session of affected) {
+      await this.tokenStorage.save(userId, { ...session, currentRole: toRole })
+    }
+
+    return affected.length
+  }
+
   // --- METODOS DE UTILERÍA JWT ---
 
   decodeRefreshToken(refreshToken: string): JwtRefreshPayload {
@@ -258,7 +302,7 @@ export class TokensService {
    * Determina el rol más alto según la jerarquía de roles
    * Usado cuando el usuario tiene múltiples roles para elegir uno por defecto
    */
-  private getHighestRole(roles: Role[]): Role {
+  getHighestRole(roles: Role[]): Role {
     for (const role of ROLE_HIERARCHY) {
       if (roles.includes(role)) {
         return role
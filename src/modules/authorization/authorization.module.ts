@@ -1,8 +1,39 @@
 import { Module, Global } from '@nestjs/common'
+import { DiscoveryModule } from '@nestjs/core'
 import { TypeOrmModule } from '@nestjs/typeorm'
 import { CasbinRule } from './entities/casbin-rule.entity'
-import { AuthorizationService } from './services/authorization.service'
+import {
+  AuthorizationService,
+  PermissionDiscoveryService,
+  PermissionCoverageService,
+  RoleGrantsService,
+} from './services'
 import { PermissionsGuard } from './guards/permissions.guard'
+import { CasbinRulesRepository } from './repositories'
+import { RoleValidator, RoleGrantValidator } from './validators'
+import {
+  RolesController,
+  PermissionsController,
+  RoleGrantsController,
+} from './controllers'
+import {
+  FindRolesUseCase,
+  CreateRoleUseCase,
+  RemoveRoleUseCase,
+  FindRolePermissionsUseCase,
+  GrantPermissionUseCase,
+  RevokePermissionUseCase,
+  AssignRoleUseCase,
+  UnassignRoleUseCase,
+  GetPermissionCoverageUseCase,
+  FindEffectivePermissionsUseCase,
+  FindRoleGrantsUseCase,
+  CreateRoleGrantUseCase,
+  RevokeRoleGrantUseCase,
+} from './use-cases'
+import { RoleGrantExpirationJob } from './jobs'
+import { AuditLogModule } from '../audit-library/audit-log/audit-log.module'
+import { AuthModule } from '../auth/auth.module'
 
 /**
  * Authorization Module
@@ -15,6 +46,18 @@ import { PermissionsGuard } from './guards/permissions.guard'
  * - Verificación automática con @RequirePermission decorator
  * - Soporte para rutas frontend y endpoints backend
  * - Parámetros dinámicos en recursos (:id, :slug, etc.)
+ * - Separación de datos por organización (TenantInterceptor + @TenantScoped,
+ *   registrado en AppModule después de AuditInterceptor)
+ * - Administración de roles y permisos (/roles): roles personalizados
+ *   asignados con reglas g, recarga del enforcer y registro en auditoría
+ * - Reporte de cobertura (/permissions/coverage): endpoints descubiertos
+ *   con DiscoveryService cruzados con las políticas de Casbin
+ * - Permisos efectivos del rol activo (GET /auth/me/permissions), también
+ *   usados para armar el menú de navegación
+ * - Asignaciones temporales de rol (/role-grants): delegación con fecha de
+ *   fin, revocadas al vencer por RoleGrantExpirationJob
+ * - Permisos evaluados solo con el rol activo (@CurrentRoleOnly), para
+ *   acciones como aprobar una revisión
  *
  * @example
  * ```typescript
@@ -40,10 +83,48 @@ import { PermissionsGuard } from './guards/permissions.guard'
   imports: [
     // Registrar entidad de Casbin
     TypeOrmModule.forFeature([CasbinRule]),
+
+    // Registro de cambios de permisos en el historial de auditoría
+    AuditLogModule,
+
+    // Descubrimiento de controllers para el reporte de cobertura
+    DiscoveryModule,
+
+    // Sesiones activas al revocar asignaciones temporales de rol
+    AuthModule,
   ],
+  controllers: [RolesController, PermissionsController, RoleGrantsController],
   providers: [
-    // Service
+    // Services
     AuthorizationService,
+    PermissionDiscoveryService,
+    PermissionCoverageService,
+    RoleGrantsService,
+
+    // Repository (casbin_rule con metadatos)
+    CasbinRulesRepository,
+
+    // Validators
+    RoleValidator,
+    RoleGrantValidator,
+
+    // Use Cases
+    FindRolesUseCase,
+    CreateRoleUseCase,
+    RemoveRoleUseCase,
+    FindRolePermissionsUseCase,
+    GrantPermissionUseCase,
+    RevokePermissionUseCase,
+    AssignRoleUseCase,
+    UnassignRoleUseCase,
+    GetPermissionCoverageUseCase,
+    FindEffectivePermissionsUseCase,
+    FindRoleGrantsUseCase,
+    CreateRoleGrantUseCase,
+    RevokeRoleGrantUseCase,
+
+    // Job: revoca las asignaciones de rol vencidas
+    RoleGrantExpirationJob,
 
     // Guard (debe registrarse como provider para poder inyectarlo manualmente)
     PermissionsGuard,
@@ -56,6 +137,9 @@ import { PermissionsGuard } from './guards/permissions.guard'
     // Exportar service para uso en otros módulos
     AuthorizationService,
 
+    // Permisos efectivos (GET /auth/me/permissions y menú de navegación)
+    FindEffectivePermissionsUseCase,
+
     // Exportar guard para registro en AppModule
     PermissionsGuard,
   ],
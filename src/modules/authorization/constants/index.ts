@@ -1,2 +1,4 @@
 export * from './app-type.enum'
 export * from './policy-action.enum'
+export * from './role-schema.constants'
+export * from './role-grant.constants'
@@ -1,3 +1,5 @@
+import { AppType } from './app-type.enum'
+
 /**
  * Acciones de políticas
  *
@@ -28,3 +30,22 @@ export enum PolicyAction {
   PUT = 'PUT',
   HTTP_DELETE = 'DELETE',
 }
+
+/**
+ * Acciones válidas según la aplicación de la política
+ */
+export const POLICY_ACTIONS_BY_APP: Record<AppType, PolicyAction[]> = {
+  [AppType.FRONTEND]: [
+    PolicyAction.READ,
+    PolicyAction.CREATE,
+    PolicyAction.UPDATE,
+    PolicyAction.DELETE,
+  ],
+  [AppType.BACKEND]: [
+    PolicyAction.GET,
+    PolicyAction.POST,
+    PolicyAction.PATCH,
+    PolicyAction.PUT,
+    PolicyAction.HTTP_DELETE,
+  ],
+}
@@ -0,0 +1,15 @@
+/**
+ * Role Grant Constraints
+ *
+ * Límites de los campos de una asignación temporal de rol
+ */
+export const ROLE_GRANT_CONSTRAINTS = {
+  REASON: {
+    MAX: 255,
+  },
+} as const
+
+/**
+ * Cada cuánto se revocan las asignaciones vencidas (1 minuto)
+ */
+export const ROLE_GRANT_EXPIRATION_INTERVAL_MS = 60 * 1000
@@ -0,0 +1,19 @@
+/**
+ * Role Schema Constraints
+ *
+ * Límites de los campos de un rol (entity, DTOs y Swagger)
+ */
+export const ROLE_CONSTRAINTS = {
+  NAME: {
+    MIN: 3,
+    MAX: 50,
+    /** Minúsculas, números, guion y guion bajo (ej: auditor-senior) */
+    PATTERN: /^[a-z][a-z0-9_-]*$/,
+  },
+  DESCRIPTION: {
+    MAX: 255,
+  },
+  RESOURCE: {
+    MAX: 100,
+  },
+} as const
@@ -0,0 +1,3 @@
+export * from './roles.controller'
+export * from './permissions.controller'
+export * from './role-grants.controller'
@@ -0,0 +1,36 @@
+import { Controller, Get, UseGuards } from '@nestjs/common'
+import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger'
+import { GetPermissionCoverageUseCase } from '../use-cases'
+import { PermissionsGuard } from '../guards'
+import { CheckPermissions } from '../decorators'
+
+@ApiTags('permissions')
+@Controller('permissions')
+@UseGuards(PermissionsGuard)
+export class PermissionsController {
+  constructor(
+    private readonly getPermissionCoverageUseCase: GetPermissionCoverageUseCase,
+  ) {}
+
+  /**
+   * GET /permissions/coverage
+   *
+   * Reporte de cobertura: endpoints vs políticas de Casbin
+   */
+  @Get('coverage')
+  @CheckPermissions()
+  @ApiOperation({
+    summary: 'Reporte de cobertura de permisos',
+    description:
+      'Lista cada endpoint con el modo de verificación (@Public, @CheckPermissions, @RequirePermission o ninguno), ' +
+      'el recurso y la acción que verifica Casbin y los roles que lo alcanzan. ' +
+      'Incluye los endpoints no públicos que ningún rol puede alcanzar y las políticas de backend que apuntan a rutas que ya no existen.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Reporte de cobertura',
+  })
+  async coverage() {
+    return await this.getPermissionCoverageUseCase.execute()
+  }
+}
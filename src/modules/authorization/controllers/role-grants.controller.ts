@@ -0,0 +1,82 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Body,
+  Param,
+  Query,
+  HttpStatus,
+  UseGuards,
+} from '@nestjs/common'
+import { ApiTags, ApiOperation } from '@nestjs/swagger'
+import {
+  ApiCreate,
+  ApiRemoveWithMessage,
+  ApiWrappedResponse,
+} from '@core/swagger'
+import { UuidParamDto } from '@core/dtos'
+import { ResponseMessage } from '@core/decorators'
+import { GetUser } from '../../auth/core/decorators'
+import type { JwtPayload } from '../../auth/core/interfaces'
+import { RoleGrantEntity } from '../entities'
+import { CreateRoleGrantDto, FindRoleGrantsDto } from '../dtos'
+import {
+  FindRoleGrantsUseCase,
+  CreateRoleGrantUseCase,
+  RevokeRoleGrantUseCase,
+} from '../use-cases'
+import { PermissionsGuard } from '../guards'
+import { CheckPermissions } from '../decorators'
+
+@ApiTags('role-grants')
+@Controller('role-grants')
+@UseGuards(PermissionsGuard)
+export class RoleGrantsController {
+  constructor(
+    private readonly findRoleGrantsUseCase: FindRoleGrantsUseCase,
+    private readonly createRoleGrantUseCase: CreateRoleGrantUseCase,
+    private readonly revokeRoleGrantUseCase: RevokeRoleGrantUseCase,
+  ) {}
+
+  @Get()
+  @CheckPermissions()
+  @ApiOperation({
+    summary: 'Listar asignaciones temporales de rol',
+    description: 'Asignaciones de la organización, las más recientes primero',
+  })
+  @ApiWrappedResponse({
+    status: HttpStatus.OK,
+    description: 'Asignaciones de rol',
+    type: RoleGrantEntity,
+    isArray: true,
+  })
+  async findAll(@Query() query: FindRoleGrantsDto) {
+    return await this.findRoleGrantsUseCase.execute(query)
+  }
+
+  @Post()
+  @CheckPermissions()
+  @ApiCreate(RoleGrantEntity, {
+    summary: 'Asignar un rol por un periodo',
+    description:
+      'Delega un rol del sistema con fecha de fin. Solo se delegan roles propios (salvo administradores); al vencer se revoca automáticamente.',
+    conflictMessage:
+      'El usuario ya tiene el rol o una asignación en ese periodo',
+  })
+  async create(@Body() dto: CreateRoleGrantDto, @GetUser() user: JwtPayload) {
+    return await this.createRoleGrantUseCase.execute(dto, user.sub)
+  }
+
+  @Delete(':id')
+  @CheckPermissions()
+  @ResponseMessage('Asignación de rol revocada exitosamente')
+  @ApiRemoveWithMessage({
+    summary: 'Revocar una asignación de rol',
+    description:
+      'Termina la asignación antes de su vencimiento y quita el rol de las sesiones activas del usuario.',
+  })
+  async revoke(@Param() { id }: UuidParamDto, @GetUser() user: JwtPayload) {
+    await this.revokeRoleGrantUseCase.execute(id, user.sub)
+  }
+}
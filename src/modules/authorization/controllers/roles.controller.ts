@@ -0,0 +1,186 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Body,
+  Param,
+  Query,
+  HttpCode,
+  HttpStatus,
+  UseGuards,
+} from '@nestjs/common'
+import { ApiTags, ApiOperation } from '@nestjs/swagger'
+import {
+  ApiCreate,
+  ApiRemoveWithMessage,
+  ApiOkResponse,
+  ApiWrappedResponse,
+  ApiNotFoundResponse,
+  ApiStandardResponses,
+} from '@core/swagger'
+import { UuidParamDto } from '@core/dtos'
+import { ResponseMessage } from '@core/decorators'
+import { RoleEntity } from '../entities'
+import {
+  CreateRoleDto,
+  FindRolePermissionsDto,
+  GrantPermissionDto,
+  RevokePermissionDto,
+  AssignRoleDto,
+  RolePermissionResponseDto,
+} from '../dtos'
+import {
+  FindRolesUseCase,
+  CreateRoleUseCase,
+  RemoveRoleUseCase,
+  FindRolePermissionsUseCase,
+  GrantPermissionUseCase,
+  RevokePermissionUseCase,
+  AssignRoleUseCase,
+  UnassignRoleUseCase,
+} from '../use-cases'
+import { PermissionsGuard } from '../guards'
+import { CheckPermissions } from '../decorators'
+
+@ApiTags('roles')
+@Controller('roles')
+@UseGuards(PermissionsGuard)
+export class RolesController {
+  constructor(
+    private readonly findRolesUseCase: FindRolesUseCase,
+    private readonly createRoleUseCase: CreateRoleUseCase,
+    private readonly removeRoleUseCase: RemoveRoleUseCase,
+    private readonly findRolePermissionsUseCase: FindRolePermissionsUseCase,
+    private readonly grantPermissionUseCase: GrantPermissionUseCase,
+    private readonly revokePermissionUseCase: RevokePermissionUseCase,
+    private readonly assignRoleUseCase: AssignRoleUseCase,
+    private readonly unassignRoleUseCase: UnassignRoleUseCase,
+  ) {}
+
+  @Get()
+  @CheckPermissions()
+  @ApiOperation({
+    summary: 'Listar roles',
+    description: 'Roles del sistema (enum Role) y roles personalizados',
+  })
+  @ApiWrappedResponse({
+    status: HttpStatus.OK,
+    description: 'Catálogo de roles',
+    type: RoleEntity,
+    isArray: true,
+  })
+  async findAll() {
+    return await this.findRolesUseCase.execute()
+  }
+
+  @Post()
+  @CheckPermissions()
+  @ApiCreate(RoleEntity, {
+    summary: 'Crear un rol personalizado',
+    description:
+      'Define un rol sin permisos. Los permisos se otorgan con POST /roles/:id/permissions.',
+    conflictMessage: 'Ya existe un rol con ese nombre',
+  })
+  async create(@Body() dto: CreateRoleDto) {
+    return await this.createRoleUseCase.execute(dto)
+  }
+
+  @Delete(':id')
+  @CheckPermissions()
+  @ResponseMessage('Rol eliminado exitosamente')
+  @ApiRemoveWithMessage({
+    summary: 'Eliminar un rol personalizado',
+    description:
+      'Elimina el rol junto con sus permisos y asignaciones. Los roles del sistema no se eliminan.',
+  })
+  async remove(@Param() { id }: UuidParamDto) {
+    await this.removeRoleUseCase.execute(id)
+  }
+
+  @Get(':id/permissions')
+  @CheckPermissions()
+  @ApiOperation({
+    summary: 'Listar permisos de un rol',
+    description: 'Políticas de Casbin del rol, opcionalmente por aplicación',
+  })
+  @ApiWrappedResponse({
+    status: HttpStatus.OK,
+    description: 'Permisos del rol',
+    type: RolePermissionResponseDto,
+    isArray: true,
+  })
+  @ApiNotFoundResponse('Rol no encontrado')
+  async findPermissions(
+    @Param() { id }: UuidParamDto,
+    @Query() query: FindRolePermissionsDto,
+  ) {
+    return await this.findRolePermissionsUseCase.execute(id, query.app)
+  }
+
+  @Post(':id/permissions')
+  @CheckPermissions()
+  @ResponseMessage('Permiso otorgado exitosamente')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Otorgar un permiso a un rol',
+    description:
+      'Agrega la política y recarga Casbin. Frontend usa read/create/update/delete; backend, métodos HTTP.',
+  })
+  @ApiOkResponse(RoleEntity)
+  @ApiStandardResponses()
+  async grantPermission(
+    @Param() { id }: UuidParamDto,
+    @Body() dto: GrantPermissionDto,
+  ) {
+    return await this.grantPermissionUseCase.execute(id, dto)
+  }
+
+  @Delete(':id/permissions')
+  @CheckPermissions()
+  @ResponseMessage('Permiso revocado exitosamente')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Revocar un permiso de un rol',
+    description: 'Elimina la política y recarga Casbin',
+  })
+  @ApiOkResponse(RoleEntity)
+  @ApiStandardResponses()
+  async revokePermission(
+    @Param() { id }: UuidParamDto,
+    @Query() dto: RevokePermissionDto,
+  ) {
+    return await this.revokePermissionUseCase.execute(id, dto)
+  }
+
+  @Post(':id/users')
+  @CheckPermissions()
+  @ResponseMessage('Rol asignado exitosamente')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Asignar un rol personalizado a un usuario',
+    description:
+      'Los roles del sistema se asignan editando los roles del usuario (PATCH /users/:id)',
+  })
+  @ApiOkResponse(RoleEntity)
+  @ApiStandardResponses()
+  async assign(@Param() { id }: UuidParamDto, @Body() dto: AssignRoleDto) {
+    return await this.assignRoleUseCase.execute(id, dto.userId)
+  }
+
+  @Delete(':id/users/:userId')
+  @CheckPermissions()
+  @ResponseMessage('Rol quitado exitosamente')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Quitar un rol personalizado a un usuario',
+  })
+  @ApiOkResponse(RoleEntity)
+  @ApiStandardResponses()
+  async unassign(
+    @Param() { id }: UuidParamDto,
+    @Param('userId') userId: string,
+  ) {
+    return await this.unassignRoleUseCase.execute(id, userId)
+  }
+}
@@ -0,0 +1,26 @@
+import { SetMetadata } from '@nestjs/common'
+
+export const CURRENT_ROLE_ONLY_KEY = 'current_role_only'
+
+/**
+ * Decorator @CurrentRoleOnly()
+ *
+ * Hace que el PermissionsGuard verifique el permiso SOLO con el rol activo
+ * de la sesión (currentRole del JWT), sin considerar los demás roles del
+ * usuario ni sus permisos personalizados.
+ *
+ * Útil para acciones que dependen de la función con la que se actúa
+ * (ej: aprobar una revisión como GERENTE): un usuario que también es
+ * gerente no puede aprobar mientras trabaja como AUDITOR.
+ *
+ * Se combina con @CheckPermissions() o @RequirePermission().
+ *
+ * @example
+ * ```typescript
+ * @Patch(':id/approve')
+ * @CheckPermissions()
+ * @CurrentRoleOnly()
+ * async approve(@Param('id') id: string) { }
+ * ```
+ */
+export const CurrentRoleOnly = () => SetMetadata(CURRENT_ROLE_ONLY_KEY, true)
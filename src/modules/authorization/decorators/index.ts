@@ -1,2 +1,3 @@
 export * from './require-permission.decorator'
 export * from './check-permissions.decorator'
+export * from './current-role-only.decorator'
@@ -0,0 +1,11 @@
+import { IsUUID } from '@core/i18n'
+import { ApiProperty } from '@nestjs/swagger'
+
+export class AssignRoleDto {
+  @ApiProperty({
+    description: 'ID del usuario al que se asigna el rol',
+    example: '550e8400-e29b-41d4-a716-446655440000',
+  })
+  @IsUUID()
+  userId: string
+}
@@ -0,0 +1,53 @@
+import {
+  IsUUID,
+  IsEnum,
+  IsDateString,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from '@core/i18n'
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger'
+import { Role } from '../../users/entities/user.entity'
+import { ROLE_GRANT_CONSTRAINTS } from '../constants'
+
+export class CreateRoleGrantDto {
+  @ApiProperty({
+    description: 'ID del usuario que recibe el rol',
+    example: '550e8400-e29b-41d4-a716-446655440000',
+  })
+  @IsUUID()
+  userId: string
+
+  @ApiProperty({
+    description: 'Rol del sistema que se asigna',
+    enum: Role,
+    example: Role.GERENTE,
+  })
+  @IsEnum(Role)
+  role: Role
+
+  @ApiPropertyOptional({
+    description: 'Inicio de la vigencia (ISO 8601, por defecto: ahora)',
+    example: '2026-07-01T00:00:00.000Z',
+  })
+  @IsOptional()
+  @IsDateString()
+  startsAt?: string
+
+  @ApiProperty({
+    description: 'Fin de la vigencia (ISO 8601, exclusivo)',
+    example: '2026-07-15T00:00:00.000Z',
+  })
+  @IsDateString()
+  expiresAt: string
+
+  @ApiPropertyOptional({
+    description: 'Motivo de la asignación',
+    example: 'Vacaciones del gerente',
+    maxLength: ROLE_GRANT_CONSTRAINTS.REASON.MAX,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(ROLE_GRANT_CONSTRAINTS.REASON.MAX)
+  reason?: string
+}
@@ -0,0 +1,28 @@
+import { IsString, IsOptional, MinLength, MaxLength, Matches } from '@core/i18n'
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger'
+import { ROLE_CONSTRAINTS } from '../constants'
+
+export class CreateRoleDto {
+  @ApiProperty({
+    description:
+      'Nombre del rol (minúsculas, números, guion y guion bajo). Es el sujeto de las políticas de Casbin',
+    example: 'auditor-senior',
+    minLength: ROLE_CONSTRAINTS.NAME.MIN,
+    maxLength: ROLE_CONSTRAINTS.NAME.MAX,
+  })
+  @IsString()
+  @MinLength(ROLE_CONSTRAINTS.NAME.MIN)
+  @MaxLength(ROLE_CONSTRAINTS.NAME.MAX)
+  @Matches(ROLE_CONSTRAINTS.NAME.PATTERN)
+  name: string
+
+  @ApiPropertyOptional({
+    description: 'Descripción del rol',
+    example: 'Auditor con permiso para aprobar informes',
+    maxLength: ROLE_CONSTRAINTS.DESCRIPTION.MAX,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(ROLE_CONSTRAINTS.DESCRIPTION.MAX)
+  description?: string
+}
@@ -0,0 +1,26 @@
+import { ApiProperty } from '@nestjs/swagger'
+import { RolePermissionResponseDto } from './role-permission-response.dto'
+
+export class EffectivePermissionsResponseDto {
+  @ApiProperty({ description: 'Rol activo (currentRole)', example: 'gerente' })
+  role: string
+
+  @ApiProperty({
+    description:
+      'Roles efectivos: el rol activo, los que hereda y los roles personalizados asignados al usuario',
+    example: ['gerente', 'revisor-externo'],
+  })
+  roles: string[]
+
+  @ApiProperty({
+    description: 'Rutas del frontend y acciones permitidas',
+    type: [RolePermissionResponseDto],
+  })
+  frontend: RolePermissionResponseDto[]
+
+  @ApiProperty({
+    description: 'Endpoints del backend y métodos HTTP permitidos',
+    type: [RolePermissionResponseDto],
+  })
+  backend: RolePermissionResponseDto[]
+}
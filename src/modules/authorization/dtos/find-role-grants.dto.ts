@@ -0,0 +1,22 @@
+import { IsOptional, IsUUID, IsBoolean, ToBoolean } from '@core/i18n'
+import { ApiPropertyOptional } from '@nestjs/swagger'
+
+export class FindRoleGrantsDto {
+  @ApiPropertyOptional({
+    description: 'Filtrar por usuario',
+    example: '550e8400-e29b-41d4-a716-446655440000',
+  })
+  @IsOptional()
+  @IsUUID()
+  userId?: string
+
+  @ApiPropertyOptional({
+    description:
+      'true: vigentes o programadas; false: revocadas o vencidas (sin filtro: todas)',
+    example: true,
+  })
+  @IsOptional()
+  @ToBoolean()
+  @IsBoolean()
+  active?: boolean
+}
@@ -0,0 +1,13 @@
+import { IsOptional, IsEnum } from '@core/i18n'
+import { ApiPropertyOptional } from '@nestjs/swagger'
+import { AppType } from '../constants'
+
+export class FindRolePermissionsDto {
+  @ApiPropertyOptional({
+    description: 'Filtrar por aplicación (sin filtro: ambas)',
+    enum: AppType,
+  })
+  @IsOptional()
+  @IsEnum(AppType)
+  app?: AppType
+}
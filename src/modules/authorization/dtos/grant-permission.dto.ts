@@ -0,0 +1,34 @@
+import { IsString, IsEnum, IsOptional, MaxLength } from '@core/i18n'
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger'
+import { AppType, ROLE_CONSTRAINTS } from '../constants'
+import { RevokePermissionDto } from './revoke-permission.dto'
+
+export class GrantPermissionDto extends RevokePermissionDto {
+  @ApiProperty({
+    description: 'Aplicación a la que pertenece el recurso',
+    enum: AppType,
+    example: AppType.BACKEND,
+  })
+  @IsEnum(AppType)
+  app: AppType
+
+  @ApiPropertyOptional({
+    description: 'Módulo funcional (agrupa permisos en la administración)',
+    example: 'templates',
+    maxLength: ROLE_CONSTRAINTS.RESOURCE.MAX,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(ROLE_CONSTRAINTS.RESOURCE.MAX)
+  module?: string
+
+  @ApiPropertyOptional({
+    description: 'Descripción del permiso',
+    example: 'Ver detalle de plantillas',
+    maxLength: ROLE_CONSTRAINTS.DESCRIPTION.MAX,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(ROLE_CONSTRAINTS.DESCRIPTION.MAX)
+  description?: string
+}
@@ -0,0 +1,9 @@
+export * from './create-role.dto'
+export * from './find-role-permissions.dto'
+export * from './revoke-permission.dto'
+export * from './grant-permission.dto'
+export * from './assign-role.dto'
+export * from './role-permission-response.dto'
+export * from './effective-permissions-response.dto'
+export * from './create-role-grant.dto'
+export * from './find-role-grants.dto'
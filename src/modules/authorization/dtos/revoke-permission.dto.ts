@@ -0,0 +1,23 @@
+import { IsString, IsEnum, MaxLength } from '@core/i18n'
+import { ApiProperty } from '@nestjs/swagger'
+import { PolicyAction, ROLE_CONSTRAINTS } from '../constants'
+
+export class RevokePermissionDto {
+  @ApiProperty({
+    description: 'Recurso: ruta del frontend o endpoint del backend',
+    example: '/api/templates/:id',
+    maxLength: ROLE_CONSTRAINTS.RESOURCE.MAX,
+  })
+  @IsString()
+  @MaxLength(ROLE_CONSTRAINTS.RESOURCE.MAX)
+  resource: string
+
+  @ApiProperty({
+    description:
+      'Acción (frontend: read/create/update/delete, backend: método HTTP)',
+    enum: PolicyAction,
+    example: PolicyAction.GET,
+  })
+  @IsEnum(PolicyAction)
+  action: PolicyAction
+}
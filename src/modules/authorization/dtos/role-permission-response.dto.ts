@@ -0,0 +1,28 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger'
+import { AppType, PolicyAction } from '../constants'
+
+export class RolePermissionResponseDto {
+  @ApiProperty({
+    description: 'Recurso: ruta del frontend o endpoint del backend',
+    example: '/api/templates/:id',
+  })
+  resource: string
+
+  @ApiProperty({ description: 'Acción', enum: PolicyAction, example: 'GET' })
+  action: PolicyAction
+
+  @ApiProperty({ description: 'Aplicación', enum: AppType })
+  app: AppType
+
+  @ApiPropertyOptional({
+    description: 'Módulo funcional',
+    example: 'templates',
+  })
+  module: string | null
+
+  @ApiPropertyOptional({
+    description: 'Descripción del permiso',
+    example: 'Ver detalle de plantillas',
+  })
+  description: string | null
+}
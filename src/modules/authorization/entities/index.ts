@@ -1 +1,3 @@
 export * from './casbin-rule.entity'
+export * from './role.entity'
+export * from './role-grant.entity'
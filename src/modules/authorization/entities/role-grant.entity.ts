@@ -0,0 +1,61 @@
+import { Entity, Column, ManyToOne, JoinColumn, Index } from 'typeorm'
+import { BaseEntity } from '@core/entities/base.entity'
+import { TenantScoped } from '@core/database/tenant-scoped.decorator'
+import { UserEntity, Role } from '../../users/entities/user.entity'
+import { ROLE_GRANT_CONSTRAINTS } from '../constants/role-grant.constants'
+
+/**
+ * Role Grant Entity
+ *
+ * Asignación de un rol del sistema con ventana de vigencia [startsAt, expiresAt).
+ * Se suma a users.roles mientras está vigente (ej: un gerente delega la
+ * aprobación a un auditor durante sus vacaciones).
+ *
+ * - Vencida: RoleGrantExpirationJob la revoca (revokedAt) al pasar expiresAt
+ * - Revocada antes de tiempo: DELETE /role-grants/:id
+ *
+ * El historial (GRANT / REVOKE) se registra en el del usuario.
+ */
+@Index(['userId', 'role'])
+@Index(['expiresAt'], { where: '"revokedAt" IS NULL' })
+@TenantScoped<RoleGrantEntity>('organizationId')
+@Entity('role_grants')
+export class RoleGrantEntity extends BaseEntity {
+  @Column({ type: 'uuid' })
+  userId: string
+
+  @ManyToOne(() => UserEntity, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: UserEntity
+
+  @Column({ type: 'enum', enum: Role })
+  role: Role
+
+  /** Organización del usuario (separación por tenant) */
+  @Column({ type: 'uuid', nullable: true })
+  organizationId: string | null
+
+  /** Quién delegó el rol (null = sistema) */
+  @Column({ type: 'uuid', nullable: true })
+  grantedById: string | null
+
+  @Column({
+    type: 'varchar',
+    length: ROLE_GRANT_CONSTRAINTS.REASON.MAX,
+    nullable: true,
+  })
+  reason: string | null
+
+  @Column({ type: 'timestamp' })
+  startsAt: Date
+
+  @Column({ type: 'timestamp' })
+  expiresAt: Date
+
+  @Column({ type: 'timestamp', nullable: true })
+  revokedAt: Date | null
+
+  /** Quién la revocó antes de tiempo (null = vencimiento automático) */
+  @Column({ type: 'uuid', nullable: true })
+  revokedById: string | null
+}
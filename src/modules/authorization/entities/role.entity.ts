@@ -0,0 +1,32 @@
+import { Entity, Column, Index } from 'typeorm'
+import { BaseEntity } from '@core/entities/base.entity'
+import { Auditable } from '@core/database/auditable.decorator'
+import { ROLE_CONSTRAINTS } from '../constants/role-schema.constants'
+
+/**
+ * Role Entity
+ *
+ * Catálogo de roles de Casbin (v0 de las políticas)
+ *
+ * - Roles del sistema (isSystem = true): los del enum Role (admin, gerente,
+ *   auditor, cliente). Se asignan en users.roles.
+ * - Roles personalizados: definidos por un administrador. Se asignan a los
+ *   usuarios con reglas de agrupación de Casbin (g, userId, role).
+ */
+@Index(['name'], { unique: true, where: '"deletedAt" IS NULL' })
+@Auditable()
+@Entity('roles')
+export class RoleEntity extends BaseEntity {
+  @Column({ type: 'varchar', length: ROLE_CONSTRAINTS.NAME.MAX })
+  name: string
+
+  @Column({
+    type: 'varchar',
+    length: ROLE_CONSTRAINTS.DESCRIPTION.MAX,
+    nullable: true,
+  })
+  description: string | null
+
+  @Column({ type: 'boolean', default: false })
+  isSystem: boolean
+}
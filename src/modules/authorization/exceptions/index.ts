@@ -0,0 +1,13 @@
+export * from './role-not-found.exception'
+export * from './role-already-exists.exception'
+export * from './system-role.exception'
+export * from './invalid-policy-action.exception'
+export * from './permission-already-granted.exception'
+export * from './permission-not-granted.exception'
+export * from './role-already-assigned.exception'
+export * from './role-not-assigned.exception'
+export * from './role-grant-not-found.exception'
+export * from './invalid-role-grant-period.exception'
+export * from './role-grant-overlap.exception'
+export * from './role-delegation-not-allowed.exception'
+export * from './role-grant-already-revoked.exception'
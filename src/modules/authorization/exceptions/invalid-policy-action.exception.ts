@@ -0,0 +1,9 @@
+import { BadRequestException } from '@nestjs/common'
+
+export class InvalidPolicyActionException extends BadRequestException {
+  constructor(action: string, app: string, allowed: string[]) {
+    super(
+      `La acción '${action}' no es válida para ${app}. Acciones válidas: ${allowed.join(', ')}`,
+    )
+  }
+}
@@ -0,0 +1,7 @@
+import { BadRequestException } from '@nestjs/common'
+
+export class InvalidRoleGrantPeriodException extends BadRequestException {
+  constructor(reason: string) {
+    super(`Periodo de asignación inválido: ${reason}`)
+  }
+}
@@ -0,0 +1,7 @@
+import { ConflictException } from '@nestjs/common'
+
+export class PermissionAlreadyGrantedException extends ConflictException {
+  constructor(role: string, action: string, resource: string) {
+    super(`El rol '${role}' ya tiene el permiso ${action} ${resource}`)
+  }
+}
@@ -0,0 +1,7 @@
+import { NotFoundException } from '@nestjs/common'
+
+export class PermissionNotGrantedException extends NotFoundException {
+  constructor(role: string, action: string, resource: string) {
+    super(`El rol '${role}' no tiene el permiso ${action} ${resource}`)
+  }
+}
@@ -0,0 +1,7 @@
+import { ConflictException } from '@nestjs/common'
+
+export class RoleAlreadyAssignedException extends ConflictException {
+  constructor(role: string, username: string) {
+    super(`El usuario '${username}' ya tiene el rol '${role}'`)
+  }
+}
@@ -0,0 +1,7 @@
+import { ConflictException } from '@nestjs/common'
+
+export class RoleAlreadyExistsException extends ConflictException {
+  constructor(name: string) {
+    super(`Ya existe un rol con el nombre '${name}'`)
+  }
+}
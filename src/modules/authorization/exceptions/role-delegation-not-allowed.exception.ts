@@ -0,0 +1,10 @@
+import { ForbiddenException } from '@nestjs/common'
+
+/**
+ * Solo se delegan roles que el usuario tiene (salvo administradores)
+ */
+export class RoleDelegationNotAllowedException extends ForbiddenException {
+  constructor(role: string) {
+    super(`No puedes delegar el rol '${role}' porque no lo tienes`)
+  }
+}
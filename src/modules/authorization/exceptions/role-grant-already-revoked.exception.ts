@@ -0,0 +1,7 @@
+import { ConflictException } from '@nestjs/common'
+
+export class RoleGrantAlreadyRevokedException extends ConflictException {
+  constructor(id: string) {
+    super(`La asignación de rol ${id} ya fue revocada o venció`)
+  }
+}
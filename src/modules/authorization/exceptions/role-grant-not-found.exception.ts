@@ -0,0 +1,7 @@
+import { NotFoundException } from '@nestjs/common'
+
+export class RoleGrantNotFoundException extends NotFoundException {
+  constructor(id: string) {
+    super(`Asignación de rol con ID ${id} no encontrada`)
+  }
+}
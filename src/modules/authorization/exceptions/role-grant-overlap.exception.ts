@@ -0,0 +1,9 @@
+import { ConflictException } from '@nestjs/common'
+
+export class RoleGrantOverlapException extends ConflictException {
+  constructor(role: string, username: string) {
+    super(
+      `El usuario '${username}' ya tiene una asignación del rol '${role}' en ese periodo`,
+    )
+  }
+}
@@ -0,0 +1,7 @@
+import { NotFoundException } from '@nestjs/common'
+
+export class RoleNotAssignedException extends NotFoundException {
+  constructor(role: string, username: string) {
+    super(`El usuario '${username}' no tiene el rol '${role}'`)
+  }
+}
@@ -0,0 +1,7 @@
+import { NotFoundException } from '@nestjs/common'
+
+export class RoleNotFoundException extends NotFoundException {
+  constructor(identifier: string) {
+    super(`Rol con ID ${identifier} no encontrado`)
+  }
+}
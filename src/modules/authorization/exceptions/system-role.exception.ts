@@ -0,0 +1,15 @@
+import { BadRequestException } from '@nestjs/common'
+
+/**
+ * Los roles del sistema no se eliminan ni se asignan con la API de roles
+ * (se asignan en users.roles al crear o editar el usuario)
+ */
+export class SystemRoleException extends BadRequestException {
+  constructor(name: string, operation: 'eliminar' | 'asignar') {
+    super(
+      operation === 'eliminar'
+        ? `El rol del sistema '${name}' no puede ser eliminado`
+        : `El rol del sistema '${name}' se asigna editando los roles del usuario`,
+    )
+  }
+}
@@ -13,6 +13,7 @@ import {
   PermissionRequirement,
 } from '../decorators/require-permission.decorator'
 import { CHECK_PERMISSIONS_KEY } from '../decorators/check-permissions.decorator'
+import { CURRENT_ROLE_ONLY_KEY } from '../decorators/current-role-only.decorator'
 import { IS_PUBLIC_KEY } from '../../auth/core/decorators/public.decorator'
 import type { JwtPayload } from '../../auth/core/interfaces'
 
@@ -44,6 +45,12 @@ import type { JwtPayload } from '../../auth/core/interfaces'
  * @Get()
  * @CheckPermissions()
  * async findAll() { }
+ *
+ * // Solo con el rol activo de la sesión (currentRole)
+ * @Patch(':id/approve')
+ * @CheckPermissions()
+ * @CurrentRoleOnly()
+ * async approve() { }
  * ```
  */
 @Injectable()
@@ -84,7 +91,7 @@ export class PermissionsGuard implements CanActivate {
 
     // 4. Obtener usuario autenticado del request
     const request = context.switchToHttp().getRequest<Request>()
-    const user = request.user
+    const user = request.user as unknown as JwtPayload | undefined
 
     if (!user || !user.roles) {
       throw new ForbiddenException('Usuario no autenticado o sin roles')
@@ -108,13 +115,26 @@ export class PermissionsGuard implements CanActivate {
       action = permissionReq.action
     }
 
-    // 6. Verificar permiso con Casbin
-    const hasPermission = await this.authorizationService.checkPermission(
-      user.roles,
-      resource,
-      action,
+    // 6. Verificar permiso con Casbin (con @CurrentRoleOnly solo cuenta
+    // el rol activo, sin los demás roles ni los permisos personalizados)
+    const currentRoleOnly = this.reflector.getAllAndOverride<boolean>(
+      CURRENT_ROLE_ONLY_KEY,
+      [context.getHandler(), context.getClass()],
     )
 
+    const hasPermission = currentRoleOnly
+      ? await this.authorizationService.checkPermission(
+          user.currentRole,
+          resource,
+          action,
+        )
+      : await this.authorizationService.checkPermission(
+          user.roles,
+          resource,
+          action,
+          user.sub,
+        )
+
     if (!hasPermission) {
       throw new ForbiddenException(
         `No tiene permisos para ${action} en ${resource}`,
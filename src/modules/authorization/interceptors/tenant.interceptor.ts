@@ -0,0 +1,67 @@
+import {
+  Injectable,
+  NestInterceptor,
+  ExecutionContext,
+  CallHandler,
+} from '@nestjs/common'
+import { Observable, from, switchMap } from 'rxjs'
+import { Request } from 'express'
+import { AuditService } from '@core/database/audit.service'
+import { AuthorizationService } from '../services/authorization.service'
+import type { JwtPayload } from '../../auth/core/interfaces'
+
+/**
+ * Tenant Interceptor
+ *
+ * Limita los datos de la petición a la organización del usuario
+ * autenticado (multi-tenant). Guarda el organizationId en CLS y
+ * BaseRepository lo aplica a las entidades @TenantScoped.
+ *
+ * Quién puede ver todas las organizaciones lo decide Casbin (matcher m2
+ * del modelo): por defecto solo el rol admin. Se evalúa el rol activo
+ * (currentRole): un admin que cambió a otro rol queda limitado a su
+ * organización.
+ *
+ * Orden de ejecución:
+ * 1. JwtAuthGuard: Valida token y añade user a request
+ * 2. AuditInterceptor: Guarda el usuario en CLS
+ * 3. TenantInterceptor: Guarda la organización en CLS (si no es admin)
+ * 4. Repository: Filtra por organización
+ */
+@Injectable()
+export class TenantInterceptor implements NestInterceptor {
+  constructor(
+    private readonly auditService: AuditService,
+    private readonly authorizationService: AuthorizationService,
+  ) {}
+
+  intercept(context: ExecutionContext, next: CallHandler): Observable<unknown> {
+    if (context.getType() !== 'http') {
+      return next.handle()
+    }
+
+    const request = context.switchToHttp().getRequest<Request>()
+    const user = request.user as unknown as JwtPayload | undefined
+
+    // Peticiones públicas (login, recuperación, etc.): sin filtro
+    if (!user?.sub || !user.organizationId) {
+      return next.handle()
+    }
+
+    return from(
+      this.authorizationService.checkTenantAccess(
+        [user.currentRole],
+        user.organizationId,
+        '*',
+        user.sub,
+      ),
+    ).pipe(
+      switchMap((allTenants) => {
+        this.auditService.setCurrentTenantId(
+          allTenants ? undefined : user.organizationId,
+        )
+        return next.handle()
+      }),
+    )
+  }
+}
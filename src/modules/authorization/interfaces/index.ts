@@ -0,0 +1 @@
+export * from './permission-coverage.interface'
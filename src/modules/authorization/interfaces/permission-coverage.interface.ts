@@ -0,0 +1,62 @@
+/**
+ * Cómo verifica permisos el PermissionsGuard en una ruta
+ *
+ * - public: @Public(), no se verifica
+ * - automatic: @CheckPermissions(), ruta y método detectados
+ * - explicit: @RequirePermission(recurso, acción)
+ * - none: sin decorador, el guard deja pasar
+ */
+export type RoutePermissionMode = 'public' | 'automatic' | 'explicit' | 'none'
+
+/**
+ * Endpoint descubierto en los controllers
+ */
+export interface DiscoveredRoute {
+  controller: string
+  handler: string
+  /** Método HTTP (GET, POST, ...) */
+  method: string
+  /** Ruta completa con prefijo (ej: /api/users/:id) */
+  path: string
+  mode: RoutePermissionMode
+  /** Recurso y acción que se verifican en Casbin (null si es pública) */
+  resource: string | null
+  action: string | null
+}
+
+/**
+ * Endpoint con los roles cuyas políticas lo alcanzan
+ */
+export interface RouteCoverage extends DiscoveredRoute {
+  roles: string[]
+}
+
+/**
+ * Política de backend que no corresponde a ningún endpoint
+ */
+export interface StalePolicy {
+  role: string
+  resource: string
+  action: string
+  module: string | null
+}
+
+/**
+ * Reporte de cobertura de permisos (endpoints vs políticas de Casbin)
+ */
+export interface PermissionCoverageReport {
+  summary: {
+    routes: number
+    public: number
+    /** Con @CheckPermissions o @RequirePermission */
+    guarded: number
+    /** Sin decorador: el guard no las verifica */
+    unguarded: number
+    unreachable: number
+    stalePolicies: number
+  }
+  routes: RouteCoverage[]
+  /** Endpoints no públicos que ningún rol puede alcanzar */
+  unreachable: RouteCoverage[]
+  stalePolicies: StalePolicy[]
+}
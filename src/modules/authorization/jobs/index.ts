@@ -0,0 +1 @@
+export * from './role-grant-expiration.job'
@@ -0,0 +1,88 @@
+import {
+  Injectable,
+  Inject,
+  OnModuleInit,
+  OnModuleDestroy,
+} from '@nestjs/common'
+import { AuditService } from '@core/database'
+import { LoggerService } from '@core/logger'
+import { ROLE_GRANTS_REPOSITORY } from '../tokens'
+import type { IRoleGrantsRepository } from '../repositories'
+import { RoleGrantsService } from '../services'
+import { ROLE_GRANT_EXPIRATION_INTERVAL_MS } from '../constants'
+
+/**
+ * Role Grant Expiration Job
+ *
+ * Revoca periódicamente las asignaciones temporales de rol vencidas
+ * (ver RoleGrantsService.revoke: historial y sesiones activas)
+ */
+@Injectable()
+export class RoleGrantExpirationJob implements OnModuleInit, OnModuleDestroy {
+  private timer: NodeJS.Timeout | null = null
+  private running = false
+
+  constructor(
+    @Inject(ROLE_GRANTS_REPOSITORY)
+    private readonly roleGrantsRepository: IRoleGrantsRepository,
+    private readonly roleGrantsService: RoleGrantsService,
+    private readonly auditService: AuditService,
+    private readonly logger: LoggerService,
+  ) {}
+
+  onModuleInit(): void {
+    this.timer = setInterval(
+      () => void this.run(),
+      ROLE_GRANT_EXPIRATION_INTERVAL_MS,
+    )
+    // No mantener vivo el proceso solo por el job
+    this.timer.unref()
+  }
+
+  onModuleDestroy(): void {
+    if (this.timer) clearInterval(this.timer)
+    this.timer = null
+  }
+
+  /**
+   * Revoca las asignaciones vencidas (una ejecución a la vez)
+   *
+   * @returns Cantidad de asignaciones revocadas
+   */
+  async run(now = new Date()): Promise<number> {
+    if (this.running) return 0
+    this.running = true
+
+    try {
+      // Sin usuario en el contexto: el historial lo registra como 'System'
+      return await this.auditService.runWithoutUser(async () => {
+        const expired = await this.roleGrantsRepository.findExpired(now)
+        let revoked = 0
+
+        for (const grant of expired) {
+          try {
+            await this.roleGrantsService.revoke(grant, null)
+            revoked++
+          } catch (error) {
+            // Una asignación con error no detiene a las demás
+            this.logger.error(
+              error instanceof Error ? error : new Error(String(error)),
+              undefined,
+              'RoleGrantExpirationJob.run',
+            )
+          }
+        }
+
+        if (revoked > 0) {
+          this.logger.log(
+            `${revoked} asignación(es) de rol vencida(s) revocada(s)`,
+            'RoleGrantExpirationJob.run',
+          )
+        }
+        return revoked
+      })
+    } finally {
+      this.running = false
+    }
+  }
+}
@@ -0,0 +1,124 @@
+import { Injectable } from '@nestjs/common'
+import { InjectRepository } from '@nestjs/typeorm'
+import { In, Repository } from 'typeorm'
+import { TransactionService } from '@core/database'
+import { CasbinRule } from '../entities'
+import type { AppType } from '../constants'
+
+/**
+ * Casbin Rules Repository
+ *
+ * Acceso directo a la tabla casbin_rule para administrar políticas con sus
+ * metadatos (app, módulo, descripción), que el enforcer no expone.
+ * NO extiende BaseRepository porque CasbinRule no es un BaseEntity.
+ *
+ * IMPORTANTE: después de modificar reglas hay que recargar el enforcer
+ * (AuthorizationService.updatePolicies lo hace al confirmar la transacción)
+ */
+@Injectable()
+export class CasbinRulesRepository {
+  constructor(
+    @InjectRepository(CasbinRule)
+    private readonly repository: Repository<CasbinRule>,
+    private readonly transactionService: TransactionService,
+  ) {}
+
+  /**
+   * Usa el EntityManager de la transacción activa si existe
+   */
+  private getRepo(): Repository<CasbinRule> {
+    const manager = this.transactionService.getCurrentEntityManager()
+    return manager ? manager.getRepository(CasbinRule) : this.repository
+  }
+
+  /**
+   * Políticas (p) de un rol, opcionalmente de una sola aplicación
+   *
+   * @param role - Nombre del rol (v0)
+   * @param app - frontend / backend (v3)
+   */
+  async findPolicies(role: string, app?: AppType): Promise<CasbinRule[]> {
+    return await this.getRepo().find({
+      where: { ptype: 'p', v0: role, ...(app && { v3: app }) },
+      order: { v3: 'ASC', v1: 'ASC', v2: 'ASC' },
+    })
+  }
+
+  /**
+   * Políticas (p) de varios roles (sin duplicar recurso y acción)
+   *
+   * @param roles - Nombres de rol (v0)
+   * @param app - frontend / backend (v3)
+   */
+  async findPoliciesForRoles(
+    roles: string[],
+    app?: AppType,
+  ): Promise<CasbinRule[]> {
+    if (roles.length === 0) return []
+
+    const rules = await this.getRepo().find({
+      where: { ptype: 'p', v0: In(roles), ...(app && { v3: app }) },
+      order: { v3: 'ASC', v1: 'ASC', v2: 'ASC' },
+    })
+    const seen = new Set<string>()
+    return rules.filter((rule) => {
+      const key = `${rule.v3}|${rule.v1}|${rule.v2}`
+      if (seen.has(key)) return false
+      seen.add(key)
+      return true
+    })
+  }
+
+  /**
+   * Todas las políticas (p) de una aplicación, de todos los roles
+   *
+   * @param app - frontend / backend (v3)
+   */
+  async findPoliciesByApp(app: AppType): Promise<CasbinRule[]> {
+    return await this.getRepo().find({
+      where: { ptype: 'p', v3: app },
+      order: { v1: 'ASC', v2: 'ASC', v0: 'ASC' },
+    })
+  }
+
+  async findPolicy(
+    role: string,
+    resource: string,
+    action: string,
+  ): Promise<CasbinRule | null> {
+    return await this.getRepo().findOne({
+      where: { ptype: 'p', v0: role, v1: resource, v2: action },
+    })
+  }
+
+  /**
+   * Asignación (g) de un rol personalizado a un usuario
+   */
+  async findAssignment(
+    userId: string,
+    role: string,
+  ): Promise<CasbinRule | null> {
+    return await this.getRepo().findOne({
+      where: { ptype: 'g', v0: userId, v1: role },
+    })
+  }
+
+  async save(rule: Partial<CasbinRule>): Promise<CasbinRule> {
+    return await this.getRepo().save(this.getRepo().create(rule))
+  }
+
+  async remove(rule: CasbinRule): Promise<void> {
+    await this.getRepo().remove(rule)
+  }
+
+  /**
+   * Elimina las políticas de un rol y sus asignaciones a usuarios
+   *
+   * @returns Cantidad de reglas eliminadas
+   */
+  async deleteByRole(role: string): Promise<number> {
+    const policies = await this.getRepo().delete({ ptype: 'p', v0: role })
+    const assignments = await this.getRepo().delete({ ptype: 'g', v1: role })
+    return (policies.affected ?? 0) + (assignments.affected ?? 0)
+  }
+}
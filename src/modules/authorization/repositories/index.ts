@@ -0,0 +1,5 @@
+export * from './roles-repository.interface'
+export * from './roles.repository'
+export * from './casbin-rules.repository'
+export * from './role-grants-repository.interface'
+export * from './role-grants.repository'
@@ -0,0 +1,18 @@
+import type { IBaseRepository } from '@core/repositories'
+import type { Role } from '../../users/entities/user.entity'
+import type { RoleGrantEntity } from '../entities'
+
+export interface IRoleGrantsRepository extends IBaseRepository<RoleGrantEntity> {
+  findWithFilters(filters: {
+    userId?: string
+    active?: boolean
+  }): Promise<RoleGrantEntity[]>
+  findActiveRoles(userId: string, at?: Date): Promise<Role[]>
+  findOverlapping(
+    userId: string,
+    role: Role,
+    startsAt: Date,
+    expiresAt: Date,
+  ): Promise<RoleGrantEntity | null>
+  findExpired(at: Date): Promise<RoleGrantEntity[]>
+}
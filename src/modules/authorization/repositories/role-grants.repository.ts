@@ -0,0 +1,100 @@
+import { Injectable } from '@nestjs/common'
+import { InjectRepository } from '@nestjs/typeorm'
+import {
+  Repository,
+  IsNull,
+  Not,
+  LessThan,
+  LessThanOrEqual,
+  MoreThan,
+} from 'typeorm'
+import type { FindOptionsWhere } from 'typeorm'
+import { BaseRepository } from '@core/repositories'
+import { TransactionService, AuditService } from '@core/database'
+import type { Role } from '../../users/entities/user.entity'
+import { RoleGrantEntity } from '../entities'
+import type { IRoleGrantsRepository } from './role-grants-repository.interface'
+
+@Injectable()
+export class RoleGrantsRepository
+  extends BaseRepository<RoleGrantEntity>
+  implements IRoleGrantsRepository
+{
+  constructor(
+    @InjectRepository(RoleGrantEntity)
+    repository: Repository<RoleGrantEntity>,
+    transactionService: TransactionService,
+    auditService: AuditService,
+  ) {
+    super(repository, transactionService, auditService)
+  }
+
+  /**
+   * Asignaciones de la organización actual, las más recientes primero
+   *
+   * @param filters.active - true: sin revocar (vigentes o programadas);
+   *   false: revocadas o vencidas
+   */
+  async findWithFilters(filters: {
+    userId?: string
+    active?: boolean
+  }): Promise<RoleGrantEntity[]> {
+    const where: FindOptionsWhere<RoleGrantEntity> = {}
+    if (filters.userId) where.userId = filters.userId
+    if (filters.active !== undefined) {
+      where.revokedAt = filters.active ? IsNull() : Not(IsNull())
+    }
+
+    return await this.getRepo().find({
+      where: this.scopeWhere(where),
+      relations: { user: true },
+      order: { startsAt: 'DESC' },
+    })
+  }
+
+  /**
+   * Roles con una asignación vigente en la fecha (sin repetidos)
+   */
+  async findActiveRoles(userId: string, at = new Date()): Promise<Role[]> {
+    const grants = await this.getRepo().find({
+      select: { id: true, role: true },
+      where: {
+        userId,
+        revokedAt: IsNull(),
+        startsAt: LessThanOrEqual(at),
+        expiresAt: MoreThan(at),
+      },
+    })
+    return [...new Set(grants.map((grant) => grant.role))]
+  }
+
+  /**
+   * Asignación sin revocar del mismo rol que se cruza con el periodo
+   */
+  async findOverlapping(
+    userId: string,
+    role: Role,
+    startsAt: Date,
+    expiresAt: Date,
+  ): Promise<RoleGrantEntity | null> {
+    return await this.getRepo().findOne({
+      where: {
+        userId,
+        role,
+        revokedAt: IsNull(),
+        startsAt: LessThan(expiresAt),
+        expiresAt: MoreThan(startsAt),
+      },
+    })
+  }
+
+  /**
+   * Asignaciones vencidas que aún no se revocaron (de todas las organizaciones)
+   */
+  async findExpired(at: Date): Promise<RoleGrantEntity[]> {
+    return await this.getRepo().find({
+      where: { revokedAt: IsNull(), expiresAt: LessThanOrEqual(at) },
+      order: { expiresAt: 'ASC' },
+    })
+  }
+}
@@ -0,0 +1,7 @@
+import type { IBaseRepository } from '@core/repositories'
+import type { RoleEntity } from '../entities'
+
+export interface IRolesRepository extends IBaseRepository<RoleEntity> {
+  findByName(name: string): Promise<RoleEntity | null>
+  findAllOrdered(): Promise<RoleEntity[]>
+}
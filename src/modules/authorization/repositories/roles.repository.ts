@@ -0,0 +1,35 @@
+import { Injectable } from '@nestjs/common'
+import { InjectRepository } from '@nestjs/typeorm'
+import { Repository } from 'typeorm'
+import { BaseRepository } from '@core/repositories'
+import { TransactionService, AuditService } from '@core/database'
+import { RoleEntity } from '../entities'
+import type { IRolesRepository } from './roles-repository.interface'
+
+@Injectable()
+export class RolesRepository
+  extends BaseRepository<RoleEntity>
+  implements IRolesRepository
+{
+  constructor(
+    @InjectRepository(RoleEntity)
+    repository: Repository<RoleEntity>,
+    transactionService: TransactionService,
+    auditService: AuditService,
+  ) {
+    super(repository, transactionService, auditService)
+  }
+
+  async findByName(name: string): Promise<RoleEntity | null> {
+    return await this.getRepo().findOne({ where: { name } })
+  }
+
+  /**
+   * Roles del sistema primero y luego los personalizados, por nombre
+   */
+  async findAllOrdered(): Promise<RoleEntity[]> {
+    return await this.getRepo().find({
+      order: { isSystem: 'DESC', name: 'ASC' },
+    })
+  }
+}
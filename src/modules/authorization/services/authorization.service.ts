@@ -1,9 +1,10 @@
 import { Injectable, OnModuleInit } from '@nestjs/common'
 import { InjectDataSource } from '@nestjs/typeorm'
 import { DataSource } from 'typeorm'
-import { newEnforcer, Enforcer } from 'casbin'
+import { newEnforcer, Enforcer, EnforceContext } from 'casbin'
 import TypeORMAdapter from 'typeorm-adapter'
 import * as path from 'path'
+import { TransactionService } from '@core/database'
 import type { Role } from '../../users/entities/user.entity'
 
 /**
@@ -26,9 +27,15 @@ import type { Role } from '../../users/entities/user.entity'
 export class AuthorizationService implements OnModuleInit {
   private enforcer: Enforcer
 
+  /**
+   * Secciones r2/m2 del modelo: acceso por organización (tenant)
+   */
+  private readonly tenantContext = new EnforceContext('r2', 'p', 'e', 'm2')
+
   constructor(
     @InjectDataSource()
     private readonly dataSource: DataSource,
+    private readonly transactionService: TransactionService,
   ) {}
 
   /**
@@ -58,6 +65,8 @@ export class AuthorizationService implements OnModuleInit {
    * @param roles - Rol(es) del usuario
    * @param resource - Recurso (ruta o endpoint)
    * @param action - Acción (GET, POST, read, create, etc.)
+   * @param userId - ID del usuario, para los roles personalizados asignados
+   *   con reglas g (userId, rol)
    * @returns true si tiene permiso, false si no
    *
    * @example
@@ -73,11 +82,13 @@ export class AuthorizationService implements OnModuleInit {
     roles: Role | Role[],
     resource: string,
     action: string,
+    userId?: string,
   ): Promise<boolean> {
     const roleArray = Array.isArray(roles) ? roles : [roles]
 
-    // Verificar si ALGUNO de los roles tiene permiso
-    for (const role of roleArray) {
+    // Verificar si ALGUNO de los roles (o los personalizados del usuario) tiene permiso
+    const subjects: string[] = userId ? [...roleArray, userId] : roleArray
+    for (const role of subjects) {
       const hasPermission = await this.enforcer.enforce(role, resource, action)
       if (hasPermission) {
         return true
@@ -87,6 +98,46 @@ export class AuthorizationService implements OnModuleInit {
     return false
   }
 
+  /**
+   * Verifica si un usuario puede acceder a datos de una organización
+   * (matcher m2 del modelo: misma organización o rol admin)
+   *
+   * @param roles - Rol(es) del usuario
+   * @param organizationId - Organización del usuario
+   * @param ownerOrganizationId - Organización dueña del dato ('*' = cualquiera)
+   * @param userId - ID del usuario, para los roles personalizados
+   * @returns true si tiene acceso, false si no
+   *
+   * @example
+   * ```typescript
+   * // ¿Puede ver datos de todas las organizaciones?
+   * await checkTenantAccess([user.currentRole], user.organizationId, '*', user.sub)
+   * ```
+   */
+  async checkTenantAccess(
+    roles: Role | Role[],
+    organizationId: string,
+    ownerOrganizationId: string,
+    userId?: string,
+  ): Promise<boolean> {
+    const roleArray = Array.isArray(roles) ? roles : [roles]
+    const subjects: string[] = userId ? [...roleArray, userId] : roleArray
+
+    for (const subject of subjects) {
+      const allowed = await this.enforcer.enforce(
+        this.tenantContext,
+        subject,
+        organizationId,
+        ownerOrganizationId,
+      )
+      if (allowed) {
+        return true
+      }
+    }
+
+    return false
+  }
+
   /**
    * Agrega una nueva política de permiso
    *
@@ -127,6 +178,26 @@ export class AuthorizationService implements OnModuleInit {
     return await this.enforcer.getPermissionsForUser(role)
   }
 
+  /**
+   * Roles efectivos de un usuario: el rol activo, los roles que hereda y
+   * los roles personalizados asignados al usuario con reglas g
+   *
+   * @param role - Rol activo (currentRole)
+   * @param userId - ID del usuario
+   * @returns Nombres de rol (sujetos v0 de las políticas que le aplican)
+   */
+  async getEffectiveRoles(role: string, userId?: string): Promise<string[]> {
+    const roles = new Set<string>([
+      role,
+      ...(await this.enforcer.getImplicitRolesForUser(role)),
+    ])
+    if (userId) {
+      const assigned = await this.enforcer.getImplicitRolesForUser(userId)
+      assigned.forEach((assignedRole) => roles.add(assignedRole))
+    }
+    return [...roles]
+  }
+
   /**
    * Recarga las políticas desde la base de datos
    * Útil después de modificar permisos
@@ -134,4 +205,20 @@ export class AuthorizationService implements OnModuleInit {
   async reloadPolicies(): Promise<void> {
     await this.enforcer.loadPolicy()
   }
+
+  /**
+   * Ejecuta cambios sobre casbin_rule en una transacción y recarga las
+   * políticas al confirmarla
+   *
+   * IMPORTANTE: el adapter de Casbin usa su propia conexión, solo ve los
+   * cambios confirmados. No llamar dentro de un @Transactional().
+   *
+   * @param operation - Cambios a aplicar (CasbinRulesRepository, auditoría)
+   * @returns Resultado de la operación
+   */
+  async updatePolicies<T>(operation: () => Promise<T>): Promise<T> {
+    const result = await this.transactionService.runInTransaction(operation)
+    await this.reloadPolicies()
+    return result
+  }
 }
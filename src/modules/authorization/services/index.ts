@@ -1 +1,4 @@
 export * from './authorization.service'
+export * from './permission-discovery.service'
+export * from './permission-coverage.service'
+export * from './role-grants.service'
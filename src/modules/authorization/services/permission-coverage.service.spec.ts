@@ -0,0 +1,108 @@
+import { PermissionCoverageService } from './permission-coverage.service'
+import { CasbinRule } from '../entities'
+import type { DiscoveredRoute } from '../interfaces'
+
+describe('PermissionCoverageService', () => {
+  let service: PermissionCoverageService
+
+  const buildRoute = (
+    method: string,
+    path: string,
+    mode: DiscoveredRoute['mode'] = 'automatic',
+  ): DiscoveredRoute => ({
+    controller: 'UsersController',
+    handler: 'handler',
+    method,
+    path,
+    mode,
+    resource: mode === 'public' ? null : path,
+    action: mode === 'public' ? null : method,
+  })
+
+  const buildPolicy = (role: string, resource: string, action: string) =>
+    Object.assign(new CasbinRule(), {
+      ptype: 'p',
+      v0: role,
+      v1: resource,
+      v2: action,
+      v3: 'backend',
+      v4: 'users',
+    })
+
+  beforeEach(() => {
+    service = new PermissionCoverageService()
+  })
+
+  it('should list the roles whose policies reach each route', () => {
+    // Arrange: /api/users/* alcanza /api/users/:id (keyMatch)
+    const routes = [
+      buildRoute('GET', '/api/users'),
+      buildRoute('GET', '/api/users/:id'),
+    ]
+    const policies = [
+      buildPolicy('gerente', '/api/users', 'GET'),
+      buildPolicy('admin', '/api/users', 'GET'),
+      buildPolicy('admin', '/api/users/*', 'GET'),
+      buildPolicy('auditor', '/api/users', 'POST'),
+    ]
+
+    // Act
+    const report = service.build(routes, policies)
+
+    // Assert
+    expect(report.routes.map((r) => [r.path, r.roles])).toEqual([
+      ['/api/users', ['admin', 'gerente']],
+      ['/api/users/:id', ['admin']],
+    ])
+  })
+
+  it('should report non-public routes that no role can reach', () => {
+    // Arrange
+    const routes = [
+      buildRoute('POST', '/api/auth/login', 'public'),
+      buildRoute('GET', '/api/users', 'none'),
+      buildRoute('DELETE', '/api/users/:id'),
+    ]
+    const policies = [buildPolicy('admin', '/api/users', 'GET')]
+
+    // Act
+    const report = service.build(routes, policies)
+
+    // Assert
+    expect(report.unreachable.map((r) => `${r.method} ${r.path}`)).toEqual([
+      'DELETE /api/users/:id',
+    ])
+    expect(report.summary).toMatchObject({
+      routes: 3,
+      public: 1,
+      guarded: 1,
+      unguarded: 1,
+      unreachable: 1,
+    })
+  })
+
+  it('should report policies that reference routes that no longer exist', () => {
+    // Arrange
+    const routes = [buildRoute('GET', '/api/users')]
+    const policies = [
+      buildPolicy('admin', '/api/users', 'GET'),
+      buildPolicy('admin', '/api/users', 'PUT'),
+      buildPolicy('admin', '/api/clients', 'GET'),
+    ]
+
+    // Act
+    const report = service.build(routes, policies)
+
+    // Assert
+    expect(report.stalePolicies).toEqual([
+      { role: 'admin', resource: '/api/users', action: 'PUT', module: 'users' },
+      {
+        role: 'admin',
+        resource: '/api/clients',
+        action: 'GET',
+        module: 'users',
+      },
+    ])
+    expect(report.summary.stalePolicies).toBe(2)
+  })
+})
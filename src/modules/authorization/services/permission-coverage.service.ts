@@ -0,0 +1,94 @@
+import { Injectable } from '@nestjs/common'
+import { Util } from 'casbin'
+import type { CasbinRule } from '../entities'
+import type {
+  DiscoveredRoute,
+  PermissionCoverageReport,
+  RouteCoverage,
+  StalePolicy,
+} from '../interfaces'
+
+/**
+ * Permission Coverage Service
+ *
+ * Cruza los endpoints descubiertos con las políticas de backend de Casbin
+ * (sin acceso a datos). Una política alcanza un endpoint con las mismas
+ * reglas que el matcher del modelo: misma acción y recurso igual o keyMatch.
+ */
+@Injectable()
+export class PermissionCoverageService {
+  /**
+   * @param routes - Endpoints (PermissionDiscoveryService)
+   * @param policies - Políticas p de backend
+   * @returns Reporte con endpoints inalcanzables y políticas obsoletas
+   */
+  build(
+    routes: DiscoveredRoute[],
+    policies: CasbinRule[],
+  ): PermissionCoverageReport {
+    // 1. Roles que alcanzan cada endpoint
+    const coverage: RouteCoverage[] = routes.map((route) => ({
+      ...route,
+      roles: this.findRoles(route, policies),
+    }))
+
+    // 2. Endpoints no públicos sin ningún rol
+    const unreachable = coverage.filter(
+      (route) => route.mode !== 'public' && route.roles.length === 0,
+    )
+
+    // 3. Políticas que no corresponden a ningún endpoint
+    const stalePolicies: StalePolicy[] = policies
+      .filter(
+        (policy) =>
+          !routes.some(
+            (route) => route.mode !== 'public' && this.matches(route, policy),
+          ),
+      )
+      .map((policy) => ({
+        role: policy.v0 ?? '',
+        resource: policy.v1 ?? '',
+        action: policy.v2 ?? '',
+        module: policy.v4,
+      }))
+
+    const count = (mode: DiscoveredRoute['mode']) =>
+      routes.filter((route) => route.mode === mode).length
+
+    return {
+      summary: {
+        routes: routes.length,
+        public: count('public'),
+        guarded: count('automatic') + count('explicit'),
+        unguarded: count('none'),
+        unreachable: unreachable.length,
+        stalePolicies: stalePolicies.length,
+      },
+      routes: coverage,
+      unreachable,
+      stalePolicies,
+    }
+  }
+
+  private findRoles(route: DiscoveredRoute, policies: CasbinRule[]): string[] {
+    if (route.mode === 'public') return []
+
+    const roles = policies
+      .filter((policy) => this.matches(route, policy))
+      .map((policy) => policy.v0 ?? '')
+    return [...new Set(roles)].sort()
+  }
+
+  /**
+   * Misma comparación que el matcher m: r.obj == p.obj || keyMatch(r.obj, p.obj)
+   */
+  private matches(route: DiscoveredRoute, policy: CasbinRule): boolean {
+    if (!route.resource || !policy.v1 || route.action !== policy.v2) {
+      return false
+    }
+    return (
+      route.resource === policy.v1 ||
+      Util.keyMatchFunc(route.resource, policy.v1)
+    )
+  }
+}
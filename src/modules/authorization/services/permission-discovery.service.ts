@@ -0,0 +1,166 @@
+import { Injectable, RequestMethod } from '@nestjs/common'
+import { DiscoveryService, MetadataScanner, Reflector } from '@nestjs/core'
+import { METHOD_METADATA, PATH_METADATA } from '@nestjs/common/constants'
+import {
+  PERMISSION_KEY,
+  PermissionRequirement,
+} from '../decorators/require-permission.decorator'
+import { CHECK_PERMISSIONS_KEY } from '../decorators/check-permissions.decorator'
+import { IS_PUBLIC_KEY } from '../../auth/core/decorators/public.decorator'
+import type { DiscoveredRoute, RoutePermissionMode } from '../interfaces'
+
+/**
+ * Prefijo global de la API (main.ts: app.setGlobalPrefix)
+ */
+const API_PREFIX = '/api'
+
+/**
+ * Permission Discovery Service
+ *
+ * Recorre los controllers registrados (DiscoveryService, igual que
+ * TransactionDiscoveryService con los providers) y arma la lista de
+ * endpoints con el recurso y la acción que verificaría PermissionsGuard
+ */
+@Injectable()
+export class PermissionDiscoveryService {
+  constructor(
+    private readonly discoveryService: DiscoveryService,
+    private readonly metadataScanner: MetadataScanner,
+    private readonly reflector: Reflector,
+  ) {}
+
+  /**
+   * @returns Endpoints ordenados por ruta y método
+   */
+  discover(): DiscoveredRoute[] {
+    const routes: DiscoveredRoute[] = []
+
+    for (const wrapper of this.discoveryService.getControllers()) {
+      const { metatype } = wrapper
+      const instance = wrapper.instance as object | undefined
+      if (!metatype || !instance || typeof instance !== 'object') {
+        continue
+      }
+
+      const prototype = Object.getPrototypeOf(instance) as object
+      const controllerPaths = this.getPaths(metatype)
+
+      for (const methodName of this.metadataScanner.getAllMethodNames(
+        prototype,
+      )) {
+        const handler = (prototype as Record<string, unknown>)[methodName]
+        if (typeof handler !== 'function') continue
+
+        // Solo los métodos con @Get/@Post/... tienen PATH_METADATA
+        const handlerPath = Reflect.getMetadata(PATH_METADATA, handler) as
+          | string
+          | string[]
+          | undefined
+        if (handlerPath === undefined) continue
+
+        const requestMethod = Reflect.getMetadata(METHOD_METADATA, handler) as
+          | RequestMethod
+          | undefined
+        const method = RequestMethod[requestMethod ?? RequestMethod.GET]
+
+        for (const controllerPath of controllerPaths) {
+          for (const path of this.toArray(handlerPath)) {
+            routes.push(
+              this.describe(
+                metatype,
+                handler,
+                methodName,
+                method,
+                this.buildPath(controllerPath, path),
+              ),
+            )
+          }
+        }
+      }
+    }
+
+    return routes.sort(
+      (a, b) =>
+        a.path.localeCompare(b.path) || a.method.localeCompare(b.method),
+    )
+  }
+
+  /**
+   * Determina el modo de verificación con la misma precedencia que el guard
+   */
+  private describe(
+    controller: object,
+    handler: object,
+    handlerName: string,
+    method: string,
+    path: string,
+  ): DiscoveredRoute {
+    const targets = [handler, controller] as Parameters<
+      Reflector['getAllAndOverride']
+    >[1]
+    const isPublic = this.reflector.getAllAndOverride<boolean>(
+      IS_PUBLIC_KEY,
+      targets,
+    )
+    const isAutomatic = this.reflector.getAllAndOverride<boolean>(
+      CHECK_PERMISSIONS_KEY,
+      targets,
+    )
+    const requirement = this.reflector.getAllAndOverride<PermissionRequirement>(
+      PERMISSION_KEY,
+      targets,
+    )
+
+    let mode: RoutePermissionMode = 'none'
+    let resource: string | null = path
+    let action: string | null = method
+
+    if (isPublic) {
+      mode = 'public'
+      resource = null
+      action = null
+    } else if (isAutomatic) {
+      mode = 'automatic'
+    } else if (requirement) {
+      mode = 'explicit'
+      resource = requirement.resource
+      action = requirement.action
+    }
+
+    return {
+      controller: (controller as { name: string }).name,
+      handler: handlerName,
+      method,
+      path,
+      mode,
+      resource,
+      action,
+    }
+  }
+
+  /**
+   * Igual que PermissionsGuard.detectRoute: /api + controller + handler
+   */
+  private buildPath(controllerPath: string, handlerPath: string): string {
+    let fullPath = API_PREFIX
+    if (controllerPath) {
+      fullPath += `/${controllerPath.replace(/^\//, '')}`
+    }
+    if (handlerPath) {
+      fullPath += `/${handlerPath.replace(/^\//, '')}`
+    }
+    return fullPath.replace(/\/+/g, '/').replace(/(.)\/$/, '$1')
+  }
+
+  private getPaths(controller: object): string[] {
+    const path = Reflect.getMetadata(PATH_METADATA, controller) as
+      | string
+      | string[]
+      | undefined
+    return this.toArray(path ?? '')
+  }
+
+  private toArray(path: string | string[]): string[] {
+    return Array.isArray(path) ? path : [path]
+  }
+}
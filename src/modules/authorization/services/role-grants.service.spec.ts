@@ -0,0 +1,113 @@
+import type { JwtService } from '@nestjs/jwt'
+import type { TransactionService } from '@core/database'
+import type { ConnectionMetadataService } from '@core/common'
+import type { LoggerService } from '@core/logger'
+import { RoleGrantsService } from './role-grants.service'
+import type { IRoleGrantsRepository } from '../repositories'
+import { RoleGrantEntity } from '../entities'
+import type { AuditTrailService } from '../../audit-library/audit-log/services'
+import { TokensService } from '../../auth/core/services'
+import type {
+  StoredSession,
+  TokenStorageRepository,
+} from '../../auth/core/services/token-storage.repository'
+import type { IUsersRepository } from '../../users/repositories'
+import { Role, UserEntity } from '../../users/entities/user.entity'
+
+describe('RoleGrantsService', () => {
+  let service: RoleGrantsService
+  let sessions: Map<string, StoredSession>
+  let activeGrantedRoles: Role[]
+
+  const user = Object.assign(new UserEntity(), {
+    id: 'user-1',
+    roles: [Role.AUDITOR, Role.CLIENTE],
+  })
+
+  const grant = Object.assign(new RoleGrantEntity(), {
+    id: 'grant-1',
+    userId: user.id,
+    role: Role.GERENTE,
+  })
+
+  const buildSession = (tokenId: string, currentRole: Role): StoredSession => ({
+    tokenId,
+    userId: user.id,
+    currentRole,
+    ip: '127.0.0.1',
+    userAgent: 'jest',
+    createdAt: 0,
+    lastActiveAt: 0,
+    rememberMe: false,
+  })
+
+  beforeEach(() => {
+    activeGrantedRoles = []
+    sessions = new Map(
+      [
+        buildSession('session-1', Role.GERENTE),
+        buildSession('session-2', Role.CLIENTE),
+        buildSession('session-3', Role.GERENTE),
+      ].map((session) => [session.tokenId, session]),
+    )
+
+    const tokenStorage = {
+      findAllByUser: jest.fn(() => Promise.resolve([...sessions.values()])),
+      save: jest.fn((_userId: string, session: StoredSession) => {
+        sessions.set(session.tokenId, session)
+        return Promise.resolve()
+      }),
+    } as unknown as TokenStorageRepository
+    const roleGrantsRepository = {
+      patch: jest.fn((entity: RoleGrantEntity, partial: object) =>
+        Promise.resolve(Object.assign(entity, partial)),
+      ),
+      findActiveRoles: jest.fn(() => Promise.resolve(activeGrantedRoles)),
+    } as unknown as IRoleGrantsRepository
+    const logger = { log: jest.fn() } as unknown as LoggerService
+
+    service = new RoleGrantsService(
+      roleGrantsRepository,
+      {
+        findById: jest.fn().mockResolvedValue(user),
+      } as unknown as IUsersRepository,
+      {
+        runInTransaction: jest.fn((operation: () => Promise<unknown>) =>
+          operation(),
+        ),
+      } as unknown as TransactionService,
+      { record: jest.fn() } as unknown as AuditTrailService,
+      new TokensService(
+        {} as JwtService,
+        tokenStorage,
+        {} as ConnectionMetadataService,
+        logger,
+        roleGrantsRepository,
+      ),
+      logger,
+    )
+  })
+
+  it('should only move the sessions working with the revoked role', async () => {
+    // Act: las que trabajaban como GERENTE pasan a AUDITOR (su rol más alto)
+    await service.revoke(Object.assign(new RoleGrantEntity(), grant), null)
+
+    // Assert
+    expect(
+      [...sessions.values()].map((session) => session.currentRole),
+    ).toEqual([Role.AUDITOR, Role.CLIENTE, Role.AUDITOR])
+  })
+
+  it('should leave the sessions untouched while another grant keeps the role', async () => {
+    // Arrange
+    activeGrantedRoles = [Role.GERENTE]
+
+    // Act
+    await service.revoke(Object.assign(new RoleGrantEntity(), grant), null)
+
+    // Assert
+    expect(
+      [...sessions.values()].map((session) => session.currentRole),
+    ).toEqual([Role.GERENTE, Role.CLIENTE, Role.GERENTE])
+  })
+})
@@ -0,0 +1,93 @@
+import { Injectable, Inject } from '@nestjs/common'
+import { AuditAction, TransactionService } from '@core/database'
+import { LoggerService } from '@core/logger'
+import { AuditTrailService } from '../../audit-library/audit-log/services'
+import { TokensService } from '../../auth/core/services'
+import { USERS_REPOSITORY } from '../../users/tokens'
+import type { IUsersRepository } from '../../users/repositories'
+import { ROLE_GRANTS_REPOSITORY } from '../tokens'
+import type { IRoleGrantsRepository } from '../repositories'
+import type { RoleGrantEntity } from '../entities'
+
+/**
+ * Role Grants Service
+ *
+ * Revocación de asignaciones temporales de rol, compartida por la revocación
+ * manual (DELETE /role-grants/:id) y el vencimiento automático
+ * (RoleGrantExpirationJob)
+ */
+@Injectable()
+export class RoleGrantsService {
+  constructor(
+    @Inject(ROLE_GRANTS_REPOSITORY)
+    private readonly roleGrantsRepository: IRoleGrantsRepository,
+    @Inject(USERS_REPOSITORY)
+    private readonly usersRepository: IUsersRepository,
+    private readonly transactionService: TransactionService,
+    private readonly auditTrailService: AuditTrailService,
+    private readonly tokensService: TokensService,
+    private readonly logger: LoggerService,
+  ) {}
+
+  /**
+   * Revoca la asignación, la registra en el historial del usuario y saca
+   * el rol de sus sesiones activas
+   *
+   * Los access tokens ya emitidos conservan el rol hasta que expiran; el
+   * siguiente refresh ya no lo incluye.
+   *
+   * @param grant - Asignación sin revocar
+   * @param revokedById - Quién la revoca (null = vencimiento automático)
+   */
+  async revoke(
+    grant: RoleGrantEntity,
+    revokedById: string | null,
+  ): Promise<RoleGrantEntity> {
+    // 1. Marcar como revocada y registrar en el historial
+    const revoked = await this.transactionService.runInTransaction(async () => {
+      const updated = await this.roleGrantsRepository.patch(grant, {
+        revokedAt: new Date(),
+        revokedById,
+      })
+
+      await this.auditTrailService.record({
+        entity: 'User',
+        entityId: grant.userId,
+        rootId: grant.userId,
+        action: AuditAction.REVOKE,
+        changes: [{ field: 'role', oldValue: grant.role, newValue: null }],
+      })
+
+      return updated
+    })
+
+    // 2. Actualizar las sesiones (fuera de la transacción: Redis)
+    await this.removeFromSessions(revoked)
+
+    return revoked
+  }
+
+  /**
+   * Si el usuario ya no tiene el rol (por otra asignación o en users.roles),
+   * las sesiones que trabajaban con ese rol pasan a su rol más alto; las
+   * demás conservan el suyo
+   */
+  private async removeFromSessions(grant: RoleGrantEntity): Promise<void> {
+    const user = await this.usersRepository.findById(grant.userId)
+    if (!user) return
+
+    const roles = await this.tokensService.getEffectiveRoles(user)
+    if (roles.includes(grant.role)) return
+
+    const updated = await this.tokensService.replaceCurrentRoleInSessions(
+      user.id,
+      grant.role,
+      this.tokensService.getHighestRole(roles),
+    )
+
+    this.logger.log(
+      `Rol ${grant.role} retirado de ${updated} sesión(es) del usuario ${user.id}`,
+      'RoleGrantsService.removeFromSessions',
+    )
+  }
+}
@@ -0,0 +1,105 @@
+import type { INestApplication, Type } from '@nestjs/common'
+import { Test } from '@nestjs/testing'
+import { newEnforcer, StringAdapter } from 'casbin'
+import type { NextFunction, Request, Response } from 'express'
+import type { DataSource } from 'typeorm'
+import * as path from 'path'
+import type { TransactionService } from '@core/database'
+import PermissionsSeeder from '../../../@core/database/seeds/03-permissions.seeder'
+import type { CasbinRule } from '../entities'
+import { AuthorizationService } from '../services'
+import type { JwtPayload } from '../../auth/core/interfaces'
+
+/**
+ * Utilidades para probar la autorización de los controllers con las mismas
+ * políticas que carga el seeder de permisos, sin base de datos
+ */
+
+/**
+ * Políticas que el seeder de permisos guardaría en casbin_rule
+ */
+async function loadSeededPolicies(): Promise<CasbinRule[]> {
+  let rules: CasbinRule[] = []
+  const dataSource = {
+    query: () => Promise.resolve(),
+    getRepository: () => ({
+      save: (saved: CasbinRule[]) => {
+        rules = saved
+        return Promise.resolve(saved)
+      },
+    }),
+  } as unknown as DataSource
+
+  await new PermissionsSeeder().run(dataSource)
+  return rules
+}
+
+/**
+ * AuthorizationService que en onModuleInit carga el modelo de Casbin real
+ * con las políticas del seeder en memoria, en lugar de la base de datos
+ */
+class SeededAuthorizationService extends AuthorizationService {
+  async onModuleInit(): Promise<void> {
+    const policies = (await loadSeededPolicies())
+      .map((rule) => `p, ${rule.v0}, ${rule.v1}, ${rule.v2}`)
+      .join('\n')
+    const enforcer = await newEnforcer(
+      path.join(__dirname, '..', 'model.conf'),
+      new StringAdapter(policies),
+    )
+
+    // enforcer es privado en AuthorizationService
+    Object.assign(this, { enforcer })
+  }
+}
+
+/**
+ * AuthorizationService listo para usar con las políticas del seeder
+ */
+export async function createSeededAuthorizationService(): Promise<AuthorizationService> {
+  const service = new SeededAuthorizationService(
+    {} as DataSource,
+    {} as TransactionService,
+  )
+  await service.onModuleInit()
+  return service
+}
+
+/**
+ * App HTTP con un solo controller, su PermissionsGuard y las políticas del
+ * seeder. Los use cases se reemplazan por mocks (execute: jest.fn()) y
+ * getUser define el usuario autenticado de cada request (lo que haría
+ * JwtAuthGuard)
+ *
+ * @example
+ * ```typescript
+ * let user: Partial<JwtPayload>
+ * const app = await createPermissionsTestingApp(AuditsController, () => user)
+ * await request(app.getHttpServer()).patch('/api/audits/1/close').expect(403)
+ * ```
+ */
+export async function createPermissionsTestingApp(
+  controller: Type<unknown>,
+  getUser: () => Partial<JwtPayload>,
+): Promise<INestApplication> {
+  const module = await Test.createTestingModule({
+    controllers: [controller],
+    providers: [
+      {
+        provide: AuthorizationService,
+        useValue: await createSeededAuthorizationService(),
+      },
+    ],
+  })
+    .useMocker(() => ({ execute: jest.fn().mockResolvedValue({}) }))
+    .compile()
+
+  const app = module.createNestApplication()
+  app.setGlobalPrefix('api')
+  app.use((req: Request, _res: Response, next: NextFunction) => {
+    req.user = getUser()
+    next()
+  })
+  await app.init()
+  return app
+}
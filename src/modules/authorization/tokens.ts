@@ -0,0 +1,2 @@
+export const ROLES_REPOSITORY = Symbol('IRolesRepository')
+export const ROLE_GRANTS_REPOSITORY = Symbol('IRoleGrantsRepository')
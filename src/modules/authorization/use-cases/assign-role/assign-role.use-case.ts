@@ -0,0 +1,74 @@
+import { Inject, Injectable } from '@nestjs/common'
+import { AuditAction } from '@core/database'
+import { AuditTrailService } from '../../../audit-library/audit-log/services'
+import { USERS_REPOSITORY } from '../../../users/tokens'
+import type { IUsersRepository } from '../../../users/repositories'
+import { UserNotFoundException } from '../../../users/exceptions'
+import { CasbinRulesRepository } from '../../repositories'
+import { RoleValidator } from '../../validators'
+import { AuthorizationService } from '../../services'
+import { RoleAlreadyAssignedException } from '../../exceptions'
+import type { RoleEntity } from '../../entities'
+
+@Injectable()
+export class AssignRoleUseCase {
+  constructor(
+    @Inject(USERS_REPOSITORY)
+    private readonly usersRepository: IUsersRepository,
+    private readonly casbinRulesRepository: CasbinRulesRepository,
+    private readonly roleValidator: RoleValidator,
+    private readonly authorizationService: AuthorizationService,
+    private readonly auditTrailService: AuditTrailService,
+  ) {}
+
+  /**
+   * Asigna un rol personalizado a un usuario (regla g, userId, rol)
+   *
+   * @param id - ID del rol
+   * @param userId - ID del usuario
+   * @returns Rol asignado
+   * @throws {RoleNotFoundException} Si el rol no existe
+   * @throws {SystemRoleException} Si es un rol del sistema (van en users.roles)
+   * @throws {UserNotFoundException} Si el usuario no existe
+   * @throws {RoleAlreadyAssignedException} Si el usuario ya tiene el rol
+   */
+  async execute(id: string, userId: string): Promise<RoleEntity> {
+    // 1. Validar rol personalizado y usuario
+    const role = await this.roleValidator.validateAndGetRole(id)
+    this.roleValidator.validateCustomRole(role, 'asignar')
+
+    const user = await this.usersRepository.findById(userId)
+    if (!user) {
+      throw new UserNotFoundException(userId)
+    }
+
+    await this.authorizationService.updatePolicies(async () => {
+      // 2. Verificar que no esté asignado
+      const existing = await this.casbinRulesRepository.findAssignment(
+        user.id,
+        role.name,
+      )
+      if (existing) {
+        throw new RoleAlreadyAssignedException(role.name, user.username)
+      }
+
+      // 3. Crear la regla de agrupación
+      await this.casbinRulesRepository.save({
+        ptype: 'g',
+        v0: user.id,
+        v1: role.name,
+      })
+
+      // 4. Registrar en el historial del usuario
+      await this.auditTrailService.record({
+        entity: 'User',
+        entityId: user.id,
+        rootId: user.id,
+        action: AuditAction.GRANT,
+        changes: [{ field: 'role', oldValue: null, newValue: role.name }],
+      })
+    })
+
+    return role
+  }
+}
@@ -0,0 +1,97 @@
+import { Inject, Injectable } from '@nestjs/common'
+import { AuditAction, Transactional } from '@core/database'
+import { AuditTrailService } from '../../../audit-library/audit-log/services'
+import { USERS_REPOSITORY } from '../../../users/tokens'
+import type { IUsersRepository } from '../../../users/repositories'
+import { UserNotFoundException } from '../../../users/exceptions'
+import { ROLE_GRANTS_REPOSITORY } from '../../tokens'
+import type { IRoleGrantsRepository } from '../../repositories'
+import { RoleGrantValidator } from '../../validators'
+import type { CreateRoleGrantDto } from '../../dtos'
+import type { RoleGrantEntity } from '../../entities'
+
+@Injectable()
+export class CreateRoleGrantUseCase {
+  constructor(
+    @Inject(ROLE_GRANTS_REPOSITORY)
+    private readonly roleGrantsRepository: IRoleGrantsRepository,
+    @Inject(USERS_REPOSITORY)
+    private readonly usersRepository: IUsersRepository,
+    private readonly roleGrantValidator: RoleGrantValidator,
+    private readonly auditTrailService: AuditTrailService,
+  ) {}
+
+  /**
+   * Asigna un rol del sistema a un usuario por un periodo (delegación)
+   *
+   * El rol se suma a los del usuario desde su siguiente login o refresh
+   * y se revoca solo al vencer (RoleGrantExpirationJob).
+   *
+   * @param dto - Usuario, rol y periodo
+   * @param grantorId - Usuario que delega (del JWT)
+   * @returns Asignación creada
+   * @throws {UserNotFoundException} Si el usuario no existe
+   * @throws {InvalidRoleGrantPeriodException} Si el periodo es inválido
+   * @throws {RoleDelegationNotAllowedException} Si quien delega no tiene el rol
+   * @throws {RoleAlreadyAssignedException} Si el usuario ya tiene el rol
+   * @throws {RoleGrantOverlapException} Si ya hay una asignación en el periodo
+   */
+  @Transactional()
+  async execute(
+    dto: CreateRoleGrantDto,
+    grantorId: string,
+  ): Promise<RoleGrantEntity> {
+    // 1. Validar usuarios
+    const grantor = await this.usersRepository.findById(grantorId)
+    if (!grantor) {
+      throw new UserNotFoundException(grantorId)
+    }
+    const user = await this.usersRepository.findById(dto.userId)
+    if (!user) {
+      throw new UserNotFoundException(dto.userId)
+    }
+
+    // 2. Validar periodo y delegación
+    const startsAt = dto.startsAt ? new Date(dto.startsAt) : new Date()
+    const expiresAt = new Date(dto.expiresAt)
+    this.roleGrantValidator.validatePeriod(startsAt, expiresAt)
+    this.roleGrantValidator.validateDelegation(grantor, dto.role)
+    this.roleGrantValidator.validateNotHeld(user, dto.role)
+    await this.roleGrantValidator.validateNoOverlap(
+      user,
+      dto.role,
+      startsAt,
+      expiresAt,
+    )
+
+    // 3. Crear la asignación
+    const grant = await this.roleGrantsRepository.save({
+      userId: user.id,
+      role: dto.role,
+      organizationId: user.organizationId,
+      grantedById: grantor.id,
+      reason: dto.reason ?? null,
+      startsAt,
+      expiresAt,
+    })
+
+    // 4. Registrar en el historial del usuario
+    await this.auditTrailService.record({
+      entity: 'User',
+      entityId: user.id,
+      rootId: user.id,
+      action: AuditAction.GRANT,
+      changes: [
+        { field: 'role', oldValue: null, newValue: dto.role },
+        { field: 'startsAt', oldValue: null, newValue: startsAt.toISOString() },
+        {
+          field: 'expiresAt',
+          oldValue: null,
+          newValue: expiresAt.toISOString(),
+        },
+      ],
+    })
+
+    return grant
+  }
+}
@@ -0,0 +1,34 @@
+import { Inject, Injectable } from '@nestjs/common'
+import { Transactional } from '@core/database/transactional.decorator'
+import type { RoleEntity } from '../../entities'
+import { ROLES_REPOSITORY } from '../../tokens'
+import type { IRolesRepository } from '../../repositories'
+import { RoleValidator } from '../../validators'
+import type { CreateRoleDto } from '../../dtos'
+
+@Injectable()
+export class CreateRoleUseCase {
+  constructor(
+    @Inject(ROLES_REPOSITORY)
+    private readonly rolesRepository: IRolesRepository,
+    private readonly roleValidator: RoleValidator,
+  ) {}
+
+  /**
+   * Define un rol personalizado (sin permisos: se otorgan después)
+   *
+   * @param dto - Nombre y descripción del rol
+   * @returns Rol creado
+   * @throws {RoleAlreadyExistsException} Si ya existe un rol con ese nombre
+   */
+  @Transactional()
+  async execute(dto: CreateRoleDto): Promise<RoleEntity> {
+    await this.roleValidator.validateUniqueName(dto.name)
+
+    return await this.rolesRepository.save({
+      name: dto.name,
+      description: dto.description?.trim() || null,
+      isSystem: false,
+    })
+  }
+}
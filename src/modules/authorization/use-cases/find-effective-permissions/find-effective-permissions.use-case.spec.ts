@@ -0,0 +1,130 @@
+/* eslint-disable @typescript-eslint/unbound-method */
+import { StringAdapter } from 'casbin'
+import type { DataSource } from 'typeorm'
+import type { TransactionService } from '@core/database'
+import { FindEffectivePermissionsUseCase } from './find-effective-permissions.use-case'
+import { AuthorizationService } from '../../services'
+import type { CasbinRulesRepository } from '../../repositories'
+import { CasbinRule } from '../../entities'
+import { AppType, PolicyAction } from '../../constants'
+
+// Herencia de roles en memoria (en lugar de la tabla casbin_rule)
+jest.mock('typeorm-adapter', () => ({
+  __esModule: true,
+  default: {
+    newAdapter: jest.fn(() =>
+      Promise.resolve(
+        new StringAdapter(
+          [
+            'g, auditor, usuario',
+            'g, gerente, usuario',
+            'g, user-1, revisor-externo',
+          ].join('\n'),
+        ),
+      ),
+    ),
+  },
+}))
+
+describe('FindEffectivePermissionsUseCase', () => {
+  let useCase: FindEffectivePermissionsUseCase
+  let casbinRulesRepository: jest.Mocked<CasbinRulesRepository>
+
+  const buildPolicy = (
+    role: string,
+    resource: string,
+    action: PolicyAction,
+    app: AppType,
+  ) =>
+    Object.assign(new CasbinRule(), {
+      ptype: 'p',
+      v0: role,
+      v1: resource,
+      v2: action,
+      v3: app,
+      v4: 'audits',
+      v5: null,
+    })
+
+  const policies = [
+    buildPolicy('usuario', '/', PolicyAction.READ, AppType.FRONTEND),
+    buildPolicy('auditor', '/audits', PolicyAction.READ, AppType.FRONTEND),
+    buildPolicy('auditor', '/api/audits', PolicyAction.GET, AppType.BACKEND),
+    buildPolicy('gerente', '/admin/*', PolicyAction.READ, AppType.FRONTEND),
+    buildPolicy(
+      'revisor-externo',
+      '/reviews',
+      PolicyAction.READ,
+      AppType.FRONTEND,
+    ),
+  ]
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined)
+
+    const authorizationService = new AuthorizationService(
+      { options: {} } as DataSource,
+      {} as TransactionService,
+    )
+    await authorizationService.onModuleInit()
+
+    casbinRulesRepository = {
+      findPoliciesForRoles: jest.fn((roles: string[]) =>
+        Promise.resolve(
+          policies.filter((policy) => roles.includes(policy.v0 ?? '')),
+        ),
+      ),
+    } as unknown as jest.Mocked<CasbinRulesRepository>
+
+    useCase = new FindEffectivePermissionsUseCase(
+      authorizationService,
+      casbinRulesRepository,
+    )
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  it('should resolve the policies of the current role, the roles it inherits and the custom roles of the user', async () => {
+    // Act
+    const result = await useCase.execute('auditor', 'user-1')
+
+    // Assert
+    expect(result.role).toBe('auditor')
+    expect(result.roles).toEqual(
+      expect.arrayContaining(['auditor', 'usuario', 'revisor-externo']),
+    )
+    expect(result.frontend.map((permission) => permission.resource)).toEqual([
+      '/',
+      '/audits',
+      '/reviews',
+    ])
+    expect(result.backend).toEqual([
+      {
+        resource: '/api/audits',
+        action: PolicyAction.GET,
+        app: AppType.BACKEND,
+        module: 'audits',
+        description: null,
+      },
+    ])
+  })
+
+  it('should ignore the policies of the roles that are not active', async () => {
+    // Act: el mismo usuario cambió a gerente
+    const result = await useCase.execute('gerente', 'user-1')
+
+    // Assert
+    expect(result.roles).not.toContain('auditor')
+    expect(casbinRulesRepository.findPoliciesForRoles).toHaveBeenCalledWith(
+      expect.not.arrayContaining(['auditor']),
+    )
+    expect(result.frontend.map((permission) => permission.resource)).toEqual([
+      '/',
+      '/admin/*',
+      '/reviews',
+    ])
+    expect(result.backend).toEqual([])
+  })
+})
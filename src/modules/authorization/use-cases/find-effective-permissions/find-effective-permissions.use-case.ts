@@ -0,0 +1,54 @@
+import { Injectable } from '@nestjs/common'
+import { CasbinRulesRepository } from '../../repositories'
+import { AuthorizationService } from '../../services'
+import { AppType } from '../../constants'
+import type { CasbinRule } from '../../entities'
+import type { PolicyAction } from '../../constants'
+import type {
+  EffectivePermissionsResponseDto,
+  RolePermissionResponseDto,
+} from '../../dtos'
+
+@Injectable()
+export class FindEffectivePermissionsUseCase {
+  constructor(
+    private readonly authorizationService: AuthorizationService,
+    private readonly casbinRulesRepository: CasbinRulesRepository,
+  ) {}
+
+  /**
+   * Resuelve los permisos efectivos de un usuario con su rol activo
+   *
+   * @param role - Rol activo (currentRole del JWT)
+   * @param userId - ID del usuario, para sus roles personalizados
+   * @returns Políticas de frontend y backend que le aplican
+   */
+  async execute(
+    role: string,
+    userId: string,
+  ): Promise<EffectivePermissionsResponseDto> {
+    const roles = await this.authorizationService.getEffectiveRoles(
+      role,
+      userId,
+    )
+    const rules = await this.casbinRulesRepository.findPoliciesForRoles(roles)
+    const permissions = rules.map((rule) => this.toPermission(rule))
+
+    return {
+      role,
+      roles,
+      frontend: permissions.filter((p) => p.app === AppType.FRONTEND),
+      backend: permissions.filter((p) => p.app === AppType.BACKEND),
+    }
+  }
+
+  private toPermission(rule: CasbinRule): RolePermissionResponseDto {
+    return {
+      resource: rule.v1 ?? '',
+      action: rule.v2 as PolicyAction,
+      app: rule.v3 as AppType,
+      module: rule.v4,
+      description: rule.v5,
+    }
+  }
+}
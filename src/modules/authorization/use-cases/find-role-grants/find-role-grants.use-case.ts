@@ -0,0 +1,20 @@
+import { Inject, Injectable } from '@nestjs/common'
+import { ROLE_GRANTS_REPOSITORY } from '../../tokens'
+import type { IRoleGrantsRepository } from '../../repositories'
+import type { FindRoleGrantsDto } from '../../dtos'
+import type { RoleGrantEntity } from '../../entities'
+
+@Injectable()
+export class FindRoleGrantsUseCase {
+  constructor(
+    @Inject(ROLE_GRANTS_REPOSITORY)
+    private readonly roleGrantsRepository: IRoleGrantsRepository,
+  ) {}
+
+  /**
+   * Lista las asignaciones temporales de rol de la organización actual
+   */
+  async execute(filters: FindRoleGrantsDto): Promise<RoleGrantEntity[]> {
+    return await this.roleGrantsRepository.findWithFilters(filters)
+  }
+}
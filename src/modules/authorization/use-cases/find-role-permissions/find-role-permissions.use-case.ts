@@ -0,0 +1,41 @@
+import { Injectable } from '@nestjs/common'
+import { CasbinRulesRepository } from '../../repositories'
+import { RoleValidator } from '../../validators'
+import type { CasbinRule } from '../../entities'
+import type { AppType, PolicyAction } from '../../constants'
+import type { RolePermissionResponseDto } from '../../dtos'
+
+@Injectable()
+export class FindRolePermissionsUseCase {
+  constructor(
+    private readonly casbinRulesRepository: CasbinRulesRepository,
+    private readonly roleValidator: RoleValidator,
+  ) {}
+
+  /**
+   * Lista los permisos de un rol
+   *
+   * @param id - ID del rol
+   * @param app - Filtrar por aplicación (frontend / backend)
+   * @returns Permisos con sus metadatos
+   * @throws {RoleNotFoundException} Si el rol no existe
+   */
+  async execute(
+    id: string,
+    app?: AppType,
+  ): Promise<RolePermissionResponseDto[]> {
+    const role = await this.roleValidator.validateAndGetRole(id)
+    const rules = await this.casbinRulesRepository.findPolicies(role.name, app)
+    return rules.map((rule) => this.toPermission(rule))
+  }
+
+  private toPermission(rule: CasbinRule): RolePermissionResponseDto {
+    return {
+      resource: rule.v1 ?? '',
+      action: rule.v2 as PolicyAction,
+      app: rule.v3 as AppType,
+      module: rule.v4,
+      description: rule.v5,
+    }
+  }
+}
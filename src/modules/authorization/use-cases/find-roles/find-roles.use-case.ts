@@ -0,0 +1,21 @@
+import { Inject, Injectable } from '@nestjs/common'
+import type { RoleEntity } from '../../entities'
+import { ROLES_REPOSITORY } from '../../tokens'
+import type { IRolesRepository } from '../../repositories'
+
+@Injectable()
+export class FindRolesUseCase {
+  constructor(
+    @Inject(ROLES_REPOSITORY)
+    private readonly rolesRepository: IRolesRepository,
+  ) {}
+
+  /**
+   * Lista los roles: primero los del sistema y luego los personalizados
+   *
+   * @returns Catálogo de roles
+   */
+  async execute(): Promise<RoleEntity[]> {
+    return await this.rolesRepository.findAllOrdered()
+  }
+}
@@ -0,0 +1,31 @@
+import { Injectable } from '@nestjs/common'
+import { CasbinRulesRepository } from '../../repositories'
+import {
+  PermissionDiscoveryService,
+  PermissionCoverageService,
+} from '../../services'
+import { AppType } from '../../constants'
+import type { PermissionCoverageReport } from '../../interfaces'
+
+@Injectable()
+export class GetPermissionCoverageUseCase {
+  constructor(
+    private readonly casbinRulesRepository: CasbinRulesRepository,
+    private readonly permissionDiscoveryService: PermissionDiscoveryService,
+    private readonly permissionCoverageService: PermissionCoverageService,
+  ) {}
+
+  /**
+   * Cruza los endpoints registrados con las políticas de backend
+   *
+   * @returns Endpoints con sus roles, endpoints que ningún rol alcanza y
+   * políticas que apuntan a rutas que ya no existen
+   */
+  async execute(): Promise<PermissionCoverageReport> {
+    const routes = this.permissionDiscoveryService.discover()
+    const policies = await this.casbinRulesRepository.findPoliciesByApp(
+      AppType.BACKEND,
+    )
+    return this.permissionCoverageService.build(routes, policies)
+  }
+}
@@ -0,0 +1,83 @@
+import { Injectable } from '@nestjs/common'
+import { AuditAction } from '@core/database'
+import { AuditTrailService } from '../../../audit-library/audit-log/services'
+import { CasbinRulesRepository } from '../../repositories'
+import { RoleValidator } from '../../validators'
+import { AuthorizationService } from '../../services'
+import { PermissionAlreadyGrantedException } from '../../exceptions'
+import type { RoleEntity } from '../../entities'
+import type { GrantPermissionDto } from '../../dtos'
+
+@Injectable()
+export class GrantPermissionUseCase {
+  constructor(
+    private readonly casbinRulesRepository: CasbinRulesRepository,
+    private readonly roleValidator: RoleValidator,
+    private readonly authorizationService: AuthorizationService,
+    private readonly auditTrailService: AuditTrailService,
+  ) {}
+
+  /**
+   * Otorga un permiso a un rol (del sistema o personalizado)
+   *
+   * @param id - ID del rol
+   * @param dto - Recurso, acción, aplicación y metadatos del permiso
+   * @returns Rol al que se otorgó el permiso
+   * @throws {RoleNotFoundException} Si el rol no existe
+   * @throws {InvalidPolicyActionException} Si la acción no corresponde a la aplicación
+   * @throws {PermissionAlreadyGrantedException} Si el rol ya tiene el permiso
+   */
+  async execute(id: string, dto: GrantPermissionDto): Promise<RoleEntity> {
+    // 1. Validar rol y acción
+    const role = await this.roleValidator.validateAndGetRole(id)
+    this.roleValidator.validatePolicyAction(dto.app, dto.action)
+
+    await this.authorizationService.updatePolicies(async () => {
+      // 2. Verificar que no esté otorgado
+      const existing = await this.casbinRulesRepository.findPolicy(
+        role.name,
+        dto.resource,
+        dto.action,
+      )
+      if (existing) {
+        throw new PermissionAlreadyGrantedException(
+          role.name,
+          dto.action,
+          dto.resource,
+        )
+      }
+
+      // 3. Crear la política con sus metadatos
+      await this.casbinRulesRepository.save({
+        ptype: 'p',
+        v0: role.name,
+        v1: dto.resource,
+        v2: dto.action,
+        v3: dto.app,
+        v4: dto.module ?? null,
+        v5: dto.description ?? null,
+      })
+
+      // 4. Registrar en el historial del rol
+      await this.auditTrailService.record({
+        entity: 'Role',
+        entityId: role.id,
+        rootId: role.id,
+        action: AuditAction.GRANT,
+        changes: [
+          {
+            field: 'permission',
+            oldValue: null,
+            newValue: {
+              app: dto.app,
+              resource: dto.resource,
+              action: dto.action,
+            },
+          },
+        ],
+      })
+    })
+
+    return role
+  }
+}
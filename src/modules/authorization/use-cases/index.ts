@@ -0,0 +1,13 @@
+export * from './find-roles/find-roles.use-case'
+export * from './create-role/create-role.use-case'
+export * from './remove-role/remove-role.use-case'
+export * from './find-role-permissions/find-role-permissions.use-case'
+export * from './grant-permission/grant-permission.use-case'
+export * from './revoke-permission/revoke-permission.use-case'
+export * from './assign-role/assign-role.use-case'
+export * from './unassign-role/unassign-role.use-case'
+export * from './get-permission-coverage/get-permission-coverage.use-case'
+export * from './find-effective-permissions/find-effective-permissions.use-case'
+export * from './find-role-grants/find-role-grants.use-case'
+export * from './create-role-grant/create-role-grant.use-case'
+export * from './revoke-role-grant/revoke-role-grant.use-case'
@@ -0,0 +1,40 @@
+import { Inject, Injectable } from '@nestjs/common'
+import type { RoleEntity } from '../../entities'
+import { ROLES_REPOSITORY } from '../../tokens'
+import type { IRolesRepository } from '../../repositories'
+import { CasbinRulesRepository } from '../../repositories'
+import { RoleValidator } from '../../validators'
+import { AuthorizationService } from '../../services'
+
+@Injectable()
+export class RemoveRoleUseCase {
+  constructor(
+    @Inject(ROLES_REPOSITORY)
+    private readonly rolesRepository: IRolesRepository,
+    private readonly casbinRulesRepository: CasbinRulesRepository,
+    private readonly roleValidator: RoleValidator,
+    private readonly authorizationService: AuthorizationService,
+  ) {}
+
+  /**
+   * Elimina un rol personalizado junto con sus permisos y asignaciones
+   *
+   * @param id - ID del rol
+   * @returns Rol eliminado
+   * @throws {RoleNotFoundException} Si el rol no existe
+   * @throws {SystemRoleException} Si es un rol del sistema
+   */
+  async execute(id: string): Promise<RoleEntity> {
+    // 1. Validar que exista y sea personalizado
+    const role = await this.roleValidator.validateAndGetRole(id)
+    this.roleValidator.validateCustomRole(role, 'eliminar')
+
+    // 2. Quitar reglas de Casbin y archivar el rol (auditado por @Auditable)
+    await this.authorizationService.updatePolicies(async () => {
+      await this.casbinRulesRepository.deleteByRole(role.name)
+      await this.rolesRepository.softDelete(role.id)
+    })
+
+    return role
+  }
+}
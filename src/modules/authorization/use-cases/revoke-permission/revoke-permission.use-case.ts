@@ -0,0 +1,72 @@
+import { Injectable } from '@nestjs/common'
+import { AuditAction } from '@core/database'
+import { AuditTrailService } from '../../../audit-library/audit-log/services'
+import { CasbinRulesRepository } from '../../repositories'
+import { RoleValidator } from '../../validators'
+import { AuthorizationService } from '../../services'
+import { PermissionNotGrantedException } from '../../exceptions'
+import type { RoleEntity } from '../../entities'
+import type { RevokePermissionDto } from '../../dtos'
+
+@Injectable()
+export class RevokePermissionUseCase {
+  constructor(
+    private readonly casbinRulesRepository: CasbinRulesRepository,
+    private readonly roleValidator: RoleValidator,
+    private readonly authorizationService: AuthorizationService,
+    private readonly auditTrailService: AuditTrailService,
+  ) {}
+
+  /**
+   * Revoca un permiso de un rol
+   *
+   * @param id - ID del rol
+   * @param dto - Recurso y acción del permiso
+   * @returns Rol al que se revocó el permiso
+   * @throws {RoleNotFoundException} Si el rol no existe
+   * @throws {PermissionNotGrantedException} Si el rol no tiene el permiso
+   */
+  async execute(id: string, dto: RevokePermissionDto): Promise<RoleEntity> {
+    const role = await this.roleValidator.validateAndGetRole(id)
+
+    await this.authorizationService.updatePolicies(async () => {
+      // 1. Buscar la política
+      const policy = await this.casbinRulesRepository.findPolicy(
+        role.name,
+        dto.resource,
+        dto.action,
+      )
+      if (!policy) {
+        throw new PermissionNotGrantedException(
+          role.name,
+          dto.action,
+          dto.resource,
+        )
+      }
+
+      // 2. Eliminarla
+      await this.casbinRulesRepository.remove(policy)
+
+      // 3. Registrar en el historial del rol
+      await this.auditTrailService.record({
+        entity: 'Role',
+        entityId: role.id,
+        rootId: role.id,
+        action: AuditAction.REVOKE,
+        changes: [
+          {
+            field: 'permission',
+            oldValue: {
+              app: policy.v3,
+              resource: dto.resource,
+              action: dto.action,
+            },
+            newValue: null,
+          },
+        ],
+      })
+    })
+
+    return role
+  }
+}
@@ -0,0 +1,28 @@
+import { Injectable } from '@nestjs/common'
+import { RoleGrantValidator } from '../../validators'
+import { RoleGrantsService } from '../../services'
+import type { RoleGrantEntity } from '../../entities'
+
+@Injectable()
+export class RevokeRoleGrantUseCase {
+  constructor(
+    private readonly roleGrantValidator: RoleGrantValidator,
+    private readonly roleGrantsService: RoleGrantsService,
+  ) {}
+
+  /**
+   * Revoca una asignación antes de su vencimiento
+   *
+   * @param id - ID de la asignación
+   * @param revokedById - Usuario que revoca (del JWT)
+   * @returns Asignación revocada
+   * @throws {RoleGrantNotFoundException} Si la asignación no existe
+   * @throws {RoleGrantAlreadyRevokedException} Si ya fue revocada o venció
+   */
+  async execute(id: string, revokedById: string): Promise<RoleGrantEntity> {
+    const grant = await this.roleGrantValidator.validateAndGetGrant(id)
+    this.roleGrantValidator.validateNotRevoked(grant)
+
+    return await this.roleGrantsService.revoke(grant, revokedById)
+  }
+}
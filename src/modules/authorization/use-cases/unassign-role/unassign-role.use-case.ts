@@ -0,0 +1,67 @@
+import { Inject, Injectable } from '@nestjs/common'
+import { AuditAction } from '@core/database'
+import { AuditTrailService } from '../../../audit-library/audit-log/services'
+import { USERS_REPOSITORY } from '../../../users/tokens'
+import type { IUsersRepository } from '../../../users/repositories'
+import { UserNotFoundException } from '../../../users/exceptions'
+import { CasbinRulesRepository } from '../../repositories'
+import { RoleValidator } from '../../validators'
+import { AuthorizationService } from '../../services'
+import { RoleNotAssignedException } from '../../exceptions'
+import type { RoleEntity } from '../../entities'
+
+@Injectable()
+export class UnassignRoleUseCase {
+  constructor(
+    @Inject(USERS_REPOSITORY)
+    private readonly usersRepository: IUsersRepository,
+    private readonly casbinRulesRepository: CasbinRulesRepository,
+    private readonly roleValidator: RoleValidator,
+    private readonly authorizationService: AuthorizationService,
+    private readonly auditTrailService: AuditTrailService,
+  ) {}
+
+  /**
+   * Quita un rol personalizado a un usuario
+   *
+   * @param id - ID del rol
+   * @param userId - ID del usuario
+   * @returns Rol quitado
+   * @throws {RoleNotFoundException} Si el rol no existe
+   * @throws {UserNotFoundException} Si el usuario no existe
+   * @throws {RoleNotAssignedException} Si el usuario no tiene el rol
+   */
+  async execute(id: string, userId: string): Promise<RoleEntity> {
+    const role = await this.roleValidator.validateAndGetRole(id)
+
+    const user = await this.usersRepository.findById(userId)
+    if (!user) {
+      throw new UserNotFoundException(userId)
+    }
+
+    await this.authorizationService.updatePolicies(async () => {
+      // 1. Buscar la asignación
+      const assignment = await this.casbinRulesRepository.findAssignment(
+        user.id,
+        role.name,
+      )
+      if (!assignment) {
+        throw new RoleNotAssignedException(role.name, user.username)
+      }
+
+      // 2. Eliminarla
+      await this.casbinRulesRepository.remove(assignment)
+
+      // 3. Registrar en el historial del usuario
+      await this.auditTrailService.record({
+        entity: 'User',
+        entityId: user.id,
+        rootId: user.id,
+        action: AuditAction.REVOKE,
+        changes: [{ field: 'role', oldValue: role.name, newValue: null }],
+      })
+    })
+
+    return role
+  }
+}
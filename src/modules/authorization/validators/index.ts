@@ -0,0 +1,2 @@
+export * from './role.validator'
+export * from './role-grant.validator'
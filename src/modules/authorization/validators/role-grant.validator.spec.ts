@@ -0,0 +1,195 @@
+/* eslint-disable @typescript-eslint/unbound-method */
+import { Test, TestingModule } from '@nestjs/testing'
+import { RoleGrantValidator } from './role-grant.validator'
+import type { IRoleGrantsRepository } from '../repositories'
+import { ROLE_GRANTS_REPOSITORY } from '../tokens'
+import { RoleGrantEntity } from '../entities/role-grant.entity'
+import { UserEntity, Role } from '../../users/entities/user.entity'
+import {
+  RoleGrantNotFoundException,
+  InvalidRoleGrantPeriodException,
+  RoleGrantOverlapException,
+  RoleDelegationNotAllowedException,
+  RoleGrantAlreadyRevokedException,
+  RoleAlreadyAssignedException,
+} from '../exceptions'
+
+describe('RoleGrantValidator', () => {
+  let validator: RoleGrantValidator
+  let repository: jest.Mocked<IRoleGrantsRepository>
+
+  const now = new Date('2026-07-01T12:00:00Z')
+  const startsAt = new Date('2026-07-01T00:00:00Z')
+  const expiresAt = new Date('2026-07-15T00:00:00Z')
+
+  const buildUser = (roles: Role[]): UserEntity =>
+    Object.assign(new UserEntity(), {
+      id: 'user-1',
+      username: 'jperez',
+      roles,
+    })
+
+  const buildGrant = (revokedAt: Date | null): RoleGrantEntity =>
+    Object.assign(new RoleGrantEntity(), {
+      id: 'grant-1',
+      userId: 'user-1',
+      role: Role.GERENTE,
+      startsAt,
+      expiresAt,
+      revokedAt,
+    })
+
+  beforeEach(async () => {
+    const mockRepository: Partial<jest.Mocked<IRoleGrantsRepository>> = {
+      findById: jest.fn(),
+      findOverlapping: jest.fn(),
+    }
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RoleGrantValidator,
+        {
+          provide: ROLE_GRANTS_REPOSITORY,
+          useValue: mockRepository,
+        },
+      ],
+    }).compile()
+
+    validator = module.get<RoleGrantValidator>(RoleGrantValidator)
+    repository = module.get(ROLE_GRANTS_REPOSITORY)
+  })
+
+  afterEach(() => {
+    jest.clearAllMocks()
+  })
+
+  describe('validateAndGetGrant', () => {
+    it('should return grant when it exists', async () => {
+      // Arrange
+      const grant = buildGrant(null)
+      repository.findById.mockResolvedValue(grant)
+
+      // Act
+      const result = await validator.validateAndGetGrant('grant-1')
+
+      // Assert
+      expect(result).toEqual(grant)
+    })
+
+    it('should throw RoleGrantNotFoundException when grant does not exist', async () => {
+      // Arrange
+      repository.findById.mockResolvedValue(null)
+
+      // Act & Assert
+      await expect(validator.validateAndGetGrant('grant-2')).rejects.toThrow(
+        RoleGrantNotFoundException,
+      )
+    })
+  })
+
+  describe('validatePeriod', () => {
+    it('should accept a period that ends in the future', () => {
+      // Act & Assert
+      expect(() =>
+        validator.validatePeriod(startsAt, expiresAt, now),
+      ).not.toThrow()
+    })
+
+    it('should throw InvalidRoleGrantPeriodException when it ends before it starts', () => {
+      // Act & Assert
+      expect(() => validator.validatePeriod(expiresAt, startsAt, now)).toThrow(
+        InvalidRoleGrantPeriodException,
+      )
+    })
+
+    it('should throw InvalidRoleGrantPeriodException when it already ended', () => {
+      // Arrange
+      const later = new Date('2026-08-01T00:00:00Z')
+
+      // Act & Assert
+      expect(() =>
+        validator.validatePeriod(startsAt, expiresAt, later),
+      ).toThrow(InvalidRoleGrantPeriodException)
+    })
+  })
+
+  describe('validateDelegation', () => {
+    it('should allow delegating a role the grantor holds', () => {
+      // Act & Assert
+      expect(() =>
+        validator.validateDelegation(buildUser([Role.GERENTE]), Role.GERENTE),
+      ).not.toThrow()
+    })
+
+    it('should allow an admin to grant any role', () => {
+      // Act & Assert
+      expect(() =>
+        validator.validateDelegation(buildUser([Role.ADMIN]), Role.GERENTE),
+      ).not.toThrow()
+    })
+
+    it('should throw RoleDelegationNotAllowedException for a role the grantor lacks', () => {
+      // Act & Assert
+      expect(() =>
+        validator.validateDelegation(buildUser([Role.AUDITOR]), Role.GERENTE),
+      ).toThrow(new RoleDelegationNotAllowedException(Role.GERENTE))
+    })
+  })
+
+  describe('validateNotHeld', () => {
+    it('should throw RoleAlreadyAssignedException when the user already has the role', () => {
+      // Act & Assert
+      expect(() =>
+        validator.validateNotHeld(buildUser([Role.GERENTE]), Role.GERENTE),
+      ).toThrow(new RoleAlreadyAssignedException(Role.GERENTE, 'jperez'))
+    })
+  })
+
+  describe('validateNoOverlap', () => {
+    it('should pass validation when no grant overlaps the period', async () => {
+      // Arrange
+      repository.findOverlapping.mockResolvedValue(null)
+
+      // Act & Assert
+      await expect(
+        validator.validateNoOverlap(
+          buildUser([Role.AUDITOR]),
+          Role.GERENTE,
+          startsAt,
+          expiresAt,
+        ),
+      ).resolves.not.toThrow()
+      expect(repository.findOverlapping).toHaveBeenCalledWith(
+        'user-1',
+        Role.GERENTE,
+        startsAt,
+        expiresAt,
+      )
+    })
+
+    it('should throw RoleGrantOverlapException when a grant overlaps', async () => {
+      // Arrange
+      repository.findOverlapping.mockResolvedValue(buildGrant(null))
+
+      // Act & Assert
+      await expect(
+        validator.validateNoOverlap(
+          buildUser([Role.AUDITOR]),
+          Role.GERENTE,
+          startsAt,
+          expiresAt,
+        ),
+      ).rejects.toThrow(RoleGrantOverlapException)
+    })
+  })
+
+  describe('validateNotRevoked', () => {
+    it('should throw RoleGrantAlreadyRevokedException for a revoked grant', () => {
+      // Act & Assert
+      expect(() => validator.validateNotRevoked(buildGrant(now))).toThrow(
+        RoleGrantAlreadyRevokedException,
+      )
+      expect(() => validator.validateNotRevoked(buildGrant(null))).not.toThrow()
+    })
+  })
+})
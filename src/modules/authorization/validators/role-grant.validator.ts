@@ -0,0 +1,87 @@
+import { Injectable, Inject } from '@nestjs/common'
+import type { IRoleGrantsRepository } from '../repositories'
+import { ROLE_GRANTS_REPOSITORY } from '../tokens'
+import {
+  RoleGrantNotFoundException,
+  InvalidRoleGrantPeriodException,
+  RoleGrantOverlapException,
+  RoleDelegationNotAllowedException,
+  RoleGrantAlreadyRevokedException,
+  RoleAlreadyAssignedException,
+} from '../exceptions'
+import { RoleGrantEntity } from '../entities'
+import { Role } from '../../users/entities/user.entity'
+import type { UserEntity } from '../../users/entities/user.entity'
+
+@Injectable()
+export class RoleGrantValidator {
+  constructor(
+    @Inject(ROLE_GRANTS_REPOSITORY)
+    private readonly roleGrantsRepository: IRoleGrantsRepository,
+  ) {}
+
+  async validateAndGetGrant(id: string): Promise<RoleGrantEntity> {
+    const grant = await this.roleGrantsRepository.findById(id)
+    if (!grant) {
+      throw new RoleGrantNotFoundException(id)
+    }
+    return grant
+  }
+
+  /**
+   * El periodo debe terminar después de empezar y no haber vencido
+   */
+  validatePeriod(startsAt: Date, expiresAt: Date, now = new Date()): void {
+    if (expiresAt <= startsAt) {
+      throw new InvalidRoleGrantPeriodException(
+        'la fecha de fin debe ser posterior a la de inicio',
+      )
+    }
+    if (expiresAt <= now) {
+      throw new InvalidRoleGrantPeriodException('la fecha de fin ya pasó')
+    }
+  }
+
+  /**
+   * Solo se delegan roles propios (permanentes); un administrador
+   * puede asignar cualquiera
+   */
+  validateDelegation(grantor: UserEntity, role: Role): void {
+    if (grantor.roles.includes(Role.ADMIN)) return
+    if (!grantor.roles.includes(role)) {
+      throw new RoleDelegationNotAllowedException(role)
+    }
+  }
+
+  /**
+   * No tiene sentido asignar por un tiempo un rol que el usuario ya tiene
+   */
+  validateNotHeld(user: UserEntity, role: Role): void {
+    if (user.roles.includes(role)) {
+      throw new RoleAlreadyAssignedException(role, user.username)
+    }
+  }
+
+  async validateNoOverlap(
+    user: UserEntity,
+    role: Role,
+    startsAt: Date,
+    expiresAt: Date,
+  ): Promise<void> {
+    const overlapping = await this.roleGrantsRepository.findOverlapping(
+      user.id,
+      role,
+      startsAt,
+      expiresAt,
+    )
+    if (overlapping) {
+      throw new RoleGrantOverlapException(role, user.username)
+    }
+  }
+
+  validateNotRevoked(grant: RoleGrantEntity): void {
+    if (grant.revokedAt) {
+      throw new RoleGrantAlreadyRevokedException(grant.id)
+    }
+  }
+}
@@ -0,0 +1,136 @@
+/* eslint-disable @typescript-eslint/unbound-method */
+import { Test, TestingModule } from '@nestjs/testing'
+import { RoleValidator } from './role.validator'
+import type { IRolesRepository } from '../repositories'
+import { ROLES_REPOSITORY } from '../tokens'
+import { RoleEntity } from '../entities/role.entity'
+import { AppType, PolicyAction } from '../constants'
+import {
+  RoleNotFoundException,
+  RoleAlreadyExistsException,
+  SystemRoleException,
+  InvalidPolicyActionException,
+} from '../exceptions'
+
+describe('RoleValidator', () => {
+  let validator: RoleValidator
+  let repository: jest.Mocked<IRolesRepository>
+
+  const buildRole = (isSystem: boolean): RoleEntity =>
+    Object.assign(new RoleEntity(), {
+      id: '1',
+      name: isSystem ? 'admin' : 'auditor-senior',
+      description: null,
+      isSystem,
+    })
+
+  beforeEach(async () => {
+    const mockRepository: Partial<jest.Mocked<IRolesRepository>> = {
+      findByName: jest.fn(),
+      findById: jest.fn(),
+    }
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RoleValidator,
+        {
+          provide: ROLES_REPOSITORY,
+          useValue: mockRepository,
+        },
+      ],
+    }).compile()
+
+    validator = module.get<RoleValidator>(RoleValidator)
+    repository = module.get(ROLES_REPOSITORY)
+  })
+
+  afterEach(() => {
+    jest.clearAllMocks()
+  })
+
+  describe('validateAndGetRole', () => {
+    it('should return role when it exists', async () => {
+      // Arrange
+      const role = buildRole(false)
+      repository.findById.mockResolvedValue(role)
+
+      // Act
+      const result = await validator.validateAndGetRole('1')
+
+      // Assert
+      expect(result).toEqual(role)
+      expect(repository.findById).toHaveBeenCalledWith('1')
+    })
+
+    it('should throw RoleNotFoundException when role does not exist', async () => {
+      // Arrange
+      repository.findById.mockResolvedValue(null)
+
+      // Act & Assert
+      await expect(validator.validateAndGetRole('2')).rejects.toThrow(
+        RoleNotFoundException,
+      )
+    })
+  })
+
+  describe('validateUniqueName', () => {
+    it('should pass validation when name does not exist', async () => {
+      // Arrange
+      repository.findByName.mockResolvedValue(null)
+
+      // Act & Assert
+      await expect(
+        validator.validateUniqueName('revisor'),
+      ).resolves.not.toThrow()
+      expect(repository.findByName).toHaveBeenCalledWith('revisor')
+    })
+
+    it('should throw RoleAlreadyExistsException when name already exists', async () => {
+      // Arrange
+      repository.findByName.mockResolvedValue(buildRole(false))
+
+      // Act & Assert
+      await expect(
+        validator.validateUniqueName('auditor-senior'),
+      ).rejects.toThrow(new RoleAlreadyExistsException('auditor-senior'))
+    })
+  })
+
+  describe('validateCustomRole', () => {
+    it('should pass validation for a custom role', () => {
+      // Act & Assert
+      expect(() =>
+        validator.validateCustomRole(buildRole(false), 'asignar'),
+      ).not.toThrow()
+    })
+
+    it('should throw SystemRoleException for a system role', () => {
+      // Act & Assert
+      expect(() =>
+        validator.validateCustomRole(buildRole(true), 'eliminar'),
+      ).toThrow(new SystemRoleException('admin', 'eliminar'))
+    })
+  })
+
+  describe('validatePolicyAction', () => {
+    it('should accept HTTP methods for backend and CRUD actions for frontend', () => {
+      // Act & Assert
+      expect(() =>
+        validator.validatePolicyAction(AppType.BACKEND, PolicyAction.PATCH),
+      ).not.toThrow()
+      expect(() =>
+        validator.validatePolicyAction(AppType.FRONTEND, PolicyAction.READ),
+      ).not.toThrow()
+    })
+
+    it('should throw InvalidPolicyActionException when the action belongs to the other app', () => {
+      // Act & Assert
+      expect(() =>
+        validator.validatePolicyAction(AppType.BACKEND, PolicyAction.READ),
+      ).toThrow(InvalidPolicyActionException)
+      expect(() =>
+        validator.validatePolicyAction(AppType.FRONTEND, PolicyAction.GET),
+      ).toThrow(InvalidPolicyActionException)
+    })
+  })
+})
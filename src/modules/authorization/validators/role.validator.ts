@@ -0,0 +1,54 @@
+import { Injectable, Inject } from '@nestjs/common'
+import type { IRolesRepository } from '../repositories'
+import { ROLES_REPOSITORY } from '../tokens'
+import {
+  RoleNotFoundException,
+  RoleAlreadyExistsException,
+  SystemRoleException,
+  InvalidPolicyActionException,
+} from '../exceptions'
+import { RoleEntity } from '../entities'
+import { AppType, PolicyAction, POLICY_ACTIONS_BY_APP } from '../constants'
+
+@Injectable()
+export class RoleValidator {
+  constructor(
+    @Inject(ROLES_REPOSITORY)
+    private readonly rolesRepository: IRolesRepository,
+  ) {}
+
+  async validateAndGetRole(roleId: string): Promise<RoleEntity> {
+    const role = await this.rolesRepository.findById(roleId)
+    if (!role) {
+      throw new RoleNotFoundException(roleId)
+    }
+    return role
+  }
+
+  async validateUniqueName(name: string): Promise<void> {
+    const existing = await this.rolesRepository.findByName(name)
+
+    if (existing) {
+      throw new RoleAlreadyExistsException(name)
+    }
+  }
+
+  /**
+   * Los roles del sistema no se eliminan ni se asignan con la API de roles
+   */
+  validateCustomRole(role: RoleEntity, operation: 'eliminar' | 'asignar') {
+    if (role.isSystem) {
+      throw new SystemRoleException(role.name, operation)
+    }
+  }
+
+  /**
+   * Frontend usa acciones CRUD (read, create...) y backend métodos HTTP
+   */
+  validatePolicyAction(app: AppType, action: PolicyAction): void {
+    const allowed = POLICY_ACTIONS_BY_APP[app]
+    if (!allowed.includes(action)) {
+      throw new InvalidPolicyActionException(action, app, allowed)
+    }
+  }
+}
@@ -0,0 +1,50 @@
+export enum CorrectiveActionStatus {
+  /**
+   * Propuesta - Registrada por la organización, aún sin iniciar
+   */
+  OPEN = 'open',
+
+  /**
+   * En progreso - El responsable está trabajando en ella
+   */
+  IN_PROGRESS = 'in_progress',
+
+  /**
+   * Completada - Implementada por la organización
+   */
+  COMPLETED = 'completed',
+
+  /**
+   * Cancelada - Reemplazada o descartada
+   */
+  CANCELLED = 'cancelled',
+}
+
+/**
+ * Transiciones permitidas de una acción correctiva
+ * open → in_progress → completed (open / in_progress → cancelled)
+ */
+export const CORRECTIVE_ACTION_STATUS_TRANSITIONS: Record<
+  CorrectiveActionStatus,
+  CorrectiveActionStatus[]
+> = {
+  [CorrectiveActionStatus.OPEN]: [
+    CorrectiveActionStatus.IN_PROGRESS,
+    CorrectiveActionStatus.COMPLETED,
+    CorrectiveActionStatus.CANCELLED,
+  ],
+  [CorrectiveActionStatus.IN_PROGRESS]: [
+    CorrectiveActionStatus.COMPLETED,
+    CorrectiveActionStatus.CANCELLED,
+  ],
+  [CorrectiveActionStatus.COMPLETED]: [],
+  [CorrectiveActionStatus.CANCELLED]: [],
+}
+
+/**
+ * Estados en los que la acción sigue pendiente (cuenta para vencimientos)
+ */
+export const CORRECTIVE_ACTION_PENDING_STATUSES = [
+  CorrectiveActionStatus.OPEN,
+  CorrectiveActionStatus.IN_PROGRESS,
+]
@@ -0,0 +1,29 @@
+export const CORRECTIVE_ACTION_CONSTRAINTS = {
+  DESCRIPTION: {
+    MIN_LENGTH: 10,
+    MAX_LENGTH: 5000,
+  },
+  NOTE: {
+    MIN_LENGTH: 3,
+    MAX_LENGTH: 5000,
+  },
+  PROGRESS: {
+    MIN: 0,
+    MAX: 100,
+  },
+} as const
+
+/**
+ * Cada cuánto se revisan las acciones vencidas (1 hora)
+ */
+export const CORRECTIVE_ACTION_OVERDUE_INTERVAL_MS = 60 * 60 * 1000
+
+/**
+ * Mínimo entre dos recordatorios al responsable de una acción vencida (1 día)
+ */
+export const CORRECTIVE_ACTION_REMINDER_INTERVAL_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Días de atraso a partir de los cuales se escala a la gerencia
+ */
+export const CORRECTIVE_ACTION_ESCALATION_DAYS = 7
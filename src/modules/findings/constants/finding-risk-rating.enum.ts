@@ -0,0 +1,9 @@
+/**
+ * Nivel de riesgo asignado a un hallazgo
+ */
+export enum FindingRiskRating {
+  LOW = 'low',
+  MEDIUM = 'medium',
+  HIGH = 'high',
+  CRITICAL = 'critical',
+}
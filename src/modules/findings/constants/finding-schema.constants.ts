@@ -0,0 +1,17 @@
+export const FINDING_CONSTRAINTS = {
+  TITLE: {
+    MIN_LENGTH: 5,
+    MAX_LENGTH: 200,
+  },
+  DESCRIPTION: {
+    MIN_LENGTH: 10,
+    MAX_LENGTH: 5000,
+  },
+  ROOT_CAUSE: {
+    MAX_LENGTH: 5000,
+  },
+  RESPONSE: {
+    MIN_LENGTH: 10,
+    MAX_LENGTH: 5000,
+  },
+} as const
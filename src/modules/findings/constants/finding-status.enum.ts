@@ -0,0 +1,44 @@
+export enum FindingStatus {
+  /**
+   * Borrador - El auditor aún lo está redactando
+   */
+  DRAFT = 'draft',
+
+  /**
+   * Comunicado - Notificado a la organización, pendiente de respuesta
+   */
+  COMMUNICATED = 'communicated',
+
+  /**
+   * Aceptado - La organización reconoce el hallazgo
+   */
+  ACCEPTED = 'accepted',
+
+  /**
+   * Disputado - La organización no está de acuerdo con el hallazgo
+   */
+  DISPUTED = 'disputed',
+
+  /**
+   * Cerrado - Hallazgo resuelto, no admite más cambios
+   */
+  CLOSED = 'closed',
+}
+
+/**
+ * Transiciones permitidas del ciclo de vida de un hallazgo
+ * draft → communicated → accepted / disputed → closed
+ */
+export const FINDING_STATUS_TRANSITIONS: Record<
+  FindingStatus,
+  FindingStatus[]
+> = {
+  [FindingStatus.DRAFT]: [FindingStatus.COMMUNICATED],
+  [FindingStatus.COMMUNICATED]: [
+    FindingStatus.ACCEPTED,
+    FindingStatus.DISPUTED,
+  ],
+  [FindingStatus.ACCEPTED]: [FindingStatus.CLOSED],
+  [FindingStatus.DISPUTED]: [FindingStatus.CLOSED],
+  [FindingStatus.CLOSED]: [],
+}
@@ -0,0 +1,24 @@
+/**
+ * Clasificación de un hallazgo
+ */
+export enum FindingType {
+  /**
+   * No conformidad mayor - Ausencia o falla sistemática de un control
+   */
+  MAJOR_NONCONFORMITY = 'major_nonconformity',
+
+  /**
+   * No conformidad menor - Incumplimiento puntual que no compromete el control
+   */
+  MINOR_NONCONFORMITY = 'minor_nonconformity',
+
+  /**
+   * Observación - Situación que podría derivar en una no conformidad
+   */
+  OBSERVATION = 'observation',
+
+  /**
+   * Oportunidad de mejora - Recomendación sin incumplimiento
+   */
+  OPPORTUNITY_FOR_IMPROVEMENT = 'opportunity_for_improvement',
+}
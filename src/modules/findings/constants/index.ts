@@ -0,0 +1,6 @@
+export * from './finding-type.enum'
+export * from './finding-risk-rating.enum'
+export * from './finding-status.enum'
+export * from './finding-schema.constants'
+export * from './corrective-action-status.enum'
+export * from './corrective-action.constants'
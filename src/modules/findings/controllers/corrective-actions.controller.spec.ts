@@ -0,0 +1,69 @@
+import type { INestApplication } from '@nestjs/common'
+import request from 'supertest'
+import { CorrectiveActionsController } from './corrective-actions.controller'
+import {
+  ChangeCorrectiveActionStatusUseCase,
+  FindCorrectiveActionsUseCase,
+} from '../use-cases'
+import { Role } from '../../users/entities/user.entity'
+import type { JwtPayload } from '../../auth/core/interfaces'
+import { createPermissionsTestingApp } from '../../authorization/testing'
+
+describe('CorrectiveActionsController (permissions)', () => {
+  let app: INestApplication
+  let user: Partial<JwtPayload>
+
+  const buildUser = (role: Role) => ({
+    sub: 'user-1',
+    roles: [role],
+    currentRole: role,
+    organizationId: 'org-1',
+  })
+
+  const base = '/api/findings/finding-1/corrective-actions'
+
+  beforeAll(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined)
+    app = await createPermissionsTestingApp(
+      CorrectiveActionsController,
+      () => user,
+    )
+  })
+
+  afterEach(() => {
+    jest.clearAllMocks()
+  })
+
+  afterAll(async () => {
+    await app.close()
+    jest.restoreAllMocks()
+  })
+
+  it('should only let the staff follow up the action plan', async () => {
+    user = buildUser(Role.AUDITOR)
+
+    await request(app.getHttpServer()).get(base).expect(200)
+    await request(app.getHttpServer())
+      .patch(`${base}/action-1/status`)
+      .send({ status: 'cancelled' })
+      .expect(403)
+
+    expect(app.get(FindCorrectiveActionsUseCase).execute).toHaveBeenCalled()
+    expect(
+      app.get(ChangeCorrectiveActionStatusUseCase).execute,
+    ).not.toHaveBeenCalled()
+  })
+
+  it('should let the CLIENTE manage the action plan', async () => {
+    user = buildUser(Role.CLIENTE)
+
+    await request(app.getHttpServer())
+      .patch(`${base}/action-1/status`)
+      .send({ status: 'in_progress' })
+      .expect(200)
+
+    expect(
+      app.get(ChangeCorrectiveActionStatusUseCase).execute,
+    ).toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,183 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Body,
+  Param,
+  UseGuards,
+} from '@nestjs/common'
+import { ApiTags, ApiOperation } from '@nestjs/swagger'
+import {
+  ApiOkResponse,
+  ApiNotFoundResponse,
+  ApiStandardResponses,
+} from '@core/swagger'
+import { UuidParamDto } from '@core/dtos'
+import { ResponseMessage } from '@core/decorators'
+import {
+  CreateCorrectiveActionDto,
+  UpdateCorrectiveActionDto,
+  ChangeCorrectiveActionStatusDto,
+  CreateCorrectiveActionNoteDto,
+  CorrectiveActionParamDto,
+} from '../dtos'
+import { CorrectiveActionEntity, CorrectiveActionNoteEntity } from '../entities'
+import {
+  FindCorrectiveActionsUseCase,
+  FindCorrectiveActionUseCase,
+  CreateCorrectiveActionUseCase,
+  UpdateCorrectiveActionUseCase,
+  ChangeCorrectiveActionStatusUseCase,
+  AddCorrectiveActionNoteUseCase,
+} from '../use-cases'
+import { GetUser } from '../../auth/core'
+import { PermissionsGuard } from '../../authorization/guards'
+import { CheckPermissions } from '../../authorization/decorators'
+
+/**
+ * Corrective Actions Controller
+ *
+ * El CLIENTE gestiona el plan de acción de sus hallazgos; GERENTE y AUDITOR
+ * le dan seguimiento en modo lectura.
+ */
+@ApiTags('findings')
+@Controller('findings')
+@UseGuards(PermissionsGuard)
+export class CorrectiveActionsController {
+  constructor(
+    private readonly findCorrectiveActionsUseCase: FindCorrectiveActionsUseCase,
+    private readonly findCorrectiveActionUseCase: FindCorrectiveActionUseCase,
+    private readonly createCorrectiveActionUseCase: CreateCorrectiveActionUseCase,
+    private readonly updateCorrectiveActionUseCase: UpdateCorrectiveActionUseCase,
+    private readonly changeCorrectiveActionStatusUseCase: ChangeCorrectiveActionStatusUseCase,
+    private readonly addCorrectiveActionNoteUseCase: AddCorrectiveActionNoteUseCase,
+  ) {}
+
+  @Get(':id/corrective-actions')
+  @CheckPermissions()
+  @ApiOperation({
+    summary: 'Listar el plan de acción del hallazgo',
+    description:
+      'Retorna las acciones correctivas con su responsable, ordenadas por fecha límite.',
+  })
+  @ApiOkResponse(CorrectiveActionEntity, 'Acciones correctivas', true)
+  @ApiNotFoundResponse('Hallazgo no encontrado')
+  @ApiStandardResponses({ exclude: [200, 404] })
+  async findAll(@Param() { id }: UuidParamDto) {
+    return await this.findCorrectiveActionsUseCase.execute(id)
+  }
+
+  @Post(':id/corrective-actions')
+  @CheckPermissions()
+  @ApiOperation({
+    summary: 'Proponer una acción correctiva',
+    description:
+      'Registra una acción con responsable (usuario activo de la organización) y fecha límite. ' +
+      'Solo para hallazgos aceptados.',
+  })
+  @ApiOkResponse(
+    CorrectiveActionEntity,
+    'Acción correctiva creada exitosamente',
+    false,
+  )
+  @ApiNotFoundResponse('Hallazgo o responsable no encontrado')
+  @ApiStandardResponses({ exclude: [200, 404] })
+  async create(
+    @Param() { id }: UuidParamDto,
+    @Body() dto: CreateCorrectiveActionDto,
+  ) {
+    return await this.createCorrectiveActionUseCase.execute(id, dto)
+  }
+
+  @Get(':id/corrective-actions/:actionId')
+  @CheckPermissions()
+  @ApiOperation({
+    summary: 'Obtener una acción correctiva',
+    description:
+      'Retorna la acción con su responsable y las notas de avance (la más reciente primero).',
+  })
+  @ApiOkResponse(CorrectiveActionEntity, 'Acción correctiva encontrada', false)
+  @ApiNotFoundResponse('Hallazgo o acción no encontrada')
+  @ApiStandardResponses({ exclude: [200, 404] })
+  async findOne(@Param() { id, actionId }: CorrectiveActionParamDto) {
+    return await this.findCorrectiveActionUseCase.execute(id, actionId)
+  }
+
+  @Patch(':id/corrective-actions/:actionId')
+  @CheckPermissions()
+  @ResponseMessage('Acción correctiva actualizada exitosamente')
+  @ApiOperation({
+    summary: 'Actualizar una acción correctiva',
+    description:
+      'Actualiza descripción, responsable o fecha límite de una acción pendiente. ' +
+      'Reprogramar la fecha reinicia los recordatorios y el escalamiento.',
+  })
+  @ApiOkResponse(
+    CorrectiveActionEntity,
+    'Acción correctiva actualizada exitosamente',
+    false,
+  )
+  @ApiNotFoundResponse('Hallazgo o acción no encontrada')
+  @ApiStandardResponses({ exclude: [200, 404] })
+  async update(
+    @Param() { id, actionId }: CorrectiveActionParamDto,
+    @Body() dto: UpdateCorrectiveActionDto,
+  ) {
+    return await this.updateCorrectiveActionUseCase.execute(id, actionId, dto)
+  }
+
+  @Patch(':id/corrective-actions/:actionId/status')
+  @CheckPermissions()
+  @ResponseMessage('Estado de la acción correctiva actualizado exitosamente')
+  @ApiOperation({
+    summary: 'Cambiar el estado de una acción correctiva',
+    description:
+      'open → in_progress / completed / cancelled; in_progress → completed / cancelled. ' +
+      'Completar la acción fija el avance en 100%.',
+  })
+  @ApiOkResponse(
+    CorrectiveActionEntity,
+    'Estado de la acción correctiva actualizado exitosamente',
+    false,
+  )
+  @ApiNotFoundResponse('Hallazgo o acción no encontrada')
+  @ApiStandardResponses({ exclude: [200, 404] })
+  async changeStatus(
+    @Param() { id, actionId }: CorrectiveActionParamDto,
+    @Body() dto: ChangeCorrectiveActionStatusDto,
+  ) {
+    return await this.changeCorrectiveActionStatusUseCase.execute(
+      id,
+      actionId,
+      dto,
+    )
+  }
+
+  @Post(':id/corrective-actions/:actionId/notes')
+  @CheckPermissions()
+  @ApiOperation({
+    summary: 'Registrar una nota de avance',
+    description:
+      'Agrega una nota a una acción pendiente. Si incluye un porcentaje, actualiza el avance de la acción.',
+  })
+  @ApiOkResponse(
+    CorrectiveActionNoteEntity,
+    'Nota registrada exitosamente',
+    false,
+  )
+  @ApiNotFoundResponse('Hallazgo o acción no encontrada')
+  @ApiStandardResponses({ exclude: [200, 404] })
+  async addNote(
+    @Param() { id, actionId }: CorrectiveActionParamDto,
+    @Body() dto: CreateCorrectiveActionNoteDto,
+    @GetUser('sub') userId: string,
+  ) {
+    return await this.addCorrectiveActionNoteUseCase.execute(
+      id,
+      actionId,
+      dto,
+      userId,
+    )
+  }
+}
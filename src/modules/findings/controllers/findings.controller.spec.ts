@@ -0,0 +1,68 @@
+import type { INestApplication } from '@nestjs/common'
+import request from 'supertest'
+import { FindingsController } from './findings.controller'
+import {
+  AcceptFindingUseCase,
+  CommunicateFindingUseCase,
+  CreateFindingUseCase,
+} from '../use-cases'
+import { Role } from '../../users/entities/user.entity'
+import type { JwtPayload } from '../../auth/core/interfaces'
+import { createPermissionsTestingApp } from '../../authorization/testing'
+
+describe('FindingsController (permissions)', () => {
+  let app: INestApplication
+  let user: Partial<JwtPayload>
+
+  const buildUser = (role: Role) => ({
+    sub: 'user-1',
+    roles: [role],
+    currentRole: role,
+    organizationId: 'org-1',
+  })
+
+  beforeAll(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined)
+    app = await createPermissionsTestingApp(FindingsController, () => user)
+  })
+
+  afterEach(() => {
+    jest.clearAllMocks()
+  })
+
+  afterAll(async () => {
+    await app.close()
+    jest.restoreAllMocks()
+  })
+
+  it('should not let a CLIENTE register or communicate findings', async () => {
+    user = buildUser(Role.CLIENTE)
+
+    await request(app.getHttpServer())
+      .post('/api/findings')
+      .send({ title: 'Sin política de contraseñas' })
+      .expect(403)
+    await request(app.getHttpServer())
+      .patch('/api/findings/finding-1/communicate')
+      .expect(403)
+
+    expect(app.get(CreateFindingUseCase).execute).not.toHaveBeenCalled()
+    expect(app.get(CommunicateFindingUseCase).execute).not.toHaveBeenCalled()
+  })
+
+  it('should let a CLIENTE accept a finding and an AUDITOR communicate it', async () => {
+    user = buildUser(Role.CLIENTE)
+    await request(app.getHttpServer())
+      .patch('/api/findings/finding-1/accept')
+      .send({})
+      .expect(200)
+
+    user = buildUser(Role.AUDITOR)
+    await request(app.getHttpServer())
+      .patch('/api/findings/finding-1/communicate')
+      .expect(200)
+
+    expect(app.get(AcceptFindingUseCase).execute).toHaveBeenCalled()
+    expect(app.get(CommunicateFindingUseCase).execute).toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,207 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  Query,
+  UseGuards,
+} from '@nestjs/common'
+import { ApiTags } from '@nestjs/swagger'
+import {
+  ApiCreate,
+  ApiList,
+  ApiFindOne,
+  ApiUpdateWithMessage,
+  ApiRemoveWithMessage,
+} from '@core/swagger'
+import { UuidParamDto } from '@core/dtos'
+import { ResponseMessage } from '@core/decorators'
+import {
+  CreateFindingDto,
+  UpdateFindingDto,
+  FindFindingsDto,
+  AcceptFindingDto,
+  DisputeFindingDto,
+  FINDING_SEARCH_FIELDS,
+  FINDING_SORTABLE_FIELDS,
+} from '../dtos'
+import { FindingEntity } from '../entities'
+import { FindingRiskRating, FindingStatus, FindingType } from '../constants'
+import {
+  CreateFindingUseCase,
+  UpdateFindingUseCase,
+  FindFindingsUseCase,
+  FindFindingUseCase,
+  CommunicateFindingUseCase,
+  AcceptFindingUseCase,
+  DisputeFindingUseCase,
+  CloseFindingUseCase,
+  DeleteFindingUseCase,
+} from '../use-cases'
+import { GetUser } from '../../auth/core'
+import { PermissionsGuard } from '../../authorization/guards'
+import { CheckPermissions } from '../../authorization/decorators'
+
+/**
+ * Findings Controller
+ *
+ * GERENTE y AUDITOR registran, comunican y cierran los hallazgos; el CLIENTE
+ * de la organización solo los consulta y los acepta o disputa.
+ */
+@ApiTags('findings')
+@Controller('findings')
+@UseGuards(PermissionsGuard)
+export class FindingsController {
+  constructor(
+    private readonly createFindingUseCase: CreateFindingUseCase,
+    private readonly updateFindingUseCase: UpdateFindingUseCase,
+    private readonly findFindingsUseCase: FindFindingsUseCase,
+    private readonly findFindingUseCase: FindFindingUseCase,
+    private readonly communicateFindingUseCase: CommunicateFindingUseCase,
+    private readonly acceptFindingUseCase: AcceptFindingUseCase,
+    private readonly disputeFindingUseCase: DisputeFindingUseCase,
+    private readonly closeFindingUseCase: CloseFindingUseCase,
+    private readonly deleteFindingUseCase: DeleteFindingUseCase,
+  ) {}
+
+  @Post()
+  @CheckPermissions()
+  @ApiCreate(FindingEntity, {
+    summary: 'Registrar un hallazgo',
+    description:
+      'Registra un hallazgo en borrador contra un standard para una organización. ' +
+      'El usuario autenticado queda como auditor que lo reporta.',
+  })
+  async create(
+    @Body() createFindingDto: CreateFindingDto,
+    @GetUser('sub') userId: string,
+  ) {
+    return await this.createFindingUseCase.execute(createFindingDto, userId)
+  }
+
+  @Get()
+  @CheckPermissions()
+  @ApiList(FindingEntity, {
+    summary: 'Listar hallazgos con paginación y filtros',
+    searchFields: FINDING_SEARCH_FIELDS,
+    sortableFields: FINDING_SORTABLE_FIELDS.map(String),
+    defaultSortBy: 'createdAt',
+    filterFields: [
+      {
+        name: 'type',
+        description: 'Filtrar por clasificación',
+        type: `enum: ${Object.values(FindingType).join(', ')}`,
+        example: 'major_nonconformity',
+      },
+      {
+        name: 'riskRating',
+        description: 'Filtrar por nivel de riesgo',
+        type: `enum: ${Object.values(FindingRiskRating).join(', ')}`,
+        example: 'high',
+      },
+      {
+        name: 'status',
+        description: 'Filtrar por estado del hallazgo',
+        type: `enum: ${Object.values(FindingStatus).join(', ')}`,
+        example: 'communicated',
+      },
+    ],
+  })
+  async findAll(@Query() query: FindFindingsDto) {
+    return await this.findFindingsUseCase.execute(query)
+  }
+
+  @Get(':id')
+  @CheckPermissions()
+  @ApiFindOne(FindingEntity, {
+    summary: 'Obtener un hallazgo por ID',
+    description:
+      'Retorna el hallazgo con su organización, standard y auditor que lo reportó.',
+  })
+  async findOne(@Param() { id }: UuidParamDto) {
+    return await this.findFindingUseCase.execute(id)
+  }
+
+  @Patch(':id')
+  @CheckPermissions()
+  @ResponseMessage('Hallazgo actualizado exitosamente')
+  @ApiUpdateWithMessage({
+    summary: 'Actualizar un hallazgo',
+    description:
+      'Actualiza standard, título, descripción, clasificación, riesgo o causa raíz. Solo en borrador.',
+  })
+  async update(
+    @Param() { id }: UuidParamDto,
+    @Body() updateFindingDto: UpdateFindingDto,
+  ) {
+    await this.updateFindingUseCase.execute(id, updateFindingDto)
+  }
+
+  @Patch(':id/communicate')
+  @CheckPermissions()
+  @ResponseMessage('Hallazgo comunicado exitosamente')
+  @ApiUpdateWithMessage({
+    summary: 'Comunicar hallazgo (draft → communicated)',
+    description:
+      'Notifica el hallazgo a la organización, que puede aceptarlo o disputarlo. Requiere que un revisor haya aprobado su contenido actual (PATCH /reviews/finding/:id/approve).',
+  })
+  async communicate(@Param() { id }: UuidParamDto) {
+    await this.communicateFindingUseCase.execute(id)
+  }
+
+  @Patch(':id/accept')
+  @CheckPermissions()
+  @ResponseMessage('Hallazgo aceptado exitosamente')
+  @ApiUpdateWithMessage({
+    summary: 'Aceptar hallazgo (communicated → accepted)',
+    description: 'La organización reconoce el hallazgo (comentario opcional).',
+  })
+  async accept(
+    @Param() { id }: UuidParamDto,
+    @Body() acceptFindingDto: AcceptFindingDto,
+  ) {
+    await this.acceptFindingUseCase.execute(id, acceptFindingDto)
+  }
+
+  @Patch(':id/dispute')
+  @CheckPermissions()
+  @ResponseMessage('Hallazgo disputado exitosamente')
+  @ApiUpdateWithMessage({
+    summary: 'Disputar hallazgo (communicated → disputed)',
+    description:
+      'La organización no está de acuerdo con el hallazgo y registra el motivo.',
+  })
+  async dispute(
+    @Param() { id }: UuidParamDto,
+    @Body() disputeFindingDto: DisputeFindingDto,
+  ) {
+    await this.disputeFindingUseCase.execute(id, disputeFindingDto)
+  }
+
+  @Patch(':id/close')
+  @CheckPermissions()
+  @ResponseMessage('Hallazgo cerrado exitosamente')
+  @ApiUpdateWithMessage({
+    summary: 'Cerrar hallazgo (accepted / disputed → closed)',
+    description:
+      'Cierra el hallazgo. Un hallazgo cerrado ya no admite modificaciones.',
+  })
+  async close(@Param() { id }: UuidParamDto) {
+    await this.closeFindingUseCase.execute(id)
+  }
+
+  @Delete(':id')
+  @CheckPermissions()
+  @ResponseMessage('Hallazgo eliminado exitosamente')
+  @ApiRemoveWithMessage({
+    summary: 'Eliminar un hallazgo',
+    description:
+      'Elimina un hallazgo que aún está en borrador. Retorna un mensaje de confirmación.',
+  })
+  async remove(@Param() { id }: UuidParamDto) {
+    await this.deleteFindingUseCase.execute(id)
+  }
+}
@@ -0,0 +1,13 @@
+import { IsEnum } from '@core/i18n'
+import { ApiProperty } from '@nestjs/swagger'
+import { CorrectiveActionStatus } from '../constants'
+
+export class ChangeCorrectiveActionStatusDto {
+  @ApiProperty({
+    description: 'Nuevo estado de la acción correctiva',
+    enum: CorrectiveActionStatus,
+    example: CorrectiveActionStatus.IN_PROGRESS,
+  })
+  @IsEnum(CorrectiveActionStatus)
+  status: CorrectiveActionStatus
+}
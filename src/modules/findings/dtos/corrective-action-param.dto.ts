@@ -0,0 +1,15 @@
+import { IsUUID } from '@core/i18n'
+import { ApiProperty } from '@nestjs/swagger'
+import { UuidParamDto } from '@core/dtos'
+
+/**
+ * Parámetros de ruta /findings/:id/corrective-actions/:actionId
+ */
+export class CorrectiveActionParamDto extends UuidParamDto {
+  @ApiProperty({
+    description: 'ID de la acción correctiva',
+    format: 'uuid',
+  })
+  @IsUUID()
+  actionId: string
+}
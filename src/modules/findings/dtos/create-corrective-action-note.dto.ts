@@ -0,0 +1,36 @@
+import {
+  IsString,
+  IsOptional,
+  IsInt,
+  Min,
+  Max,
+  MinLength,
+  MaxLength,
+} from '@core/i18n'
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger'
+import { CORRECTIVE_ACTION_CONSTRAINTS } from '../constants'
+
+export class CreateCorrectiveActionNoteDto {
+  @ApiProperty({
+    description: 'Nota de avance',
+    example: 'Se depuraron 10 de las 12 cuentas observadas',
+    minLength: CORRECTIVE_ACTION_CONSTRAINTS.NOTE.MIN_LENGTH,
+    maxLength: CORRECTIVE_ACTION_CONSTRAINTS.NOTE.MAX_LENGTH,
+  })
+  @IsString()
+  @MinLength(CORRECTIVE_ACTION_CONSTRAINTS.NOTE.MIN_LENGTH)
+  @MaxLength(CORRECTIVE_ACTION_CONSTRAINTS.NOTE.MAX_LENGTH)
+  note: string
+
+  @ApiPropertyOptional({
+    description: 'Avance de la acción (%)',
+    example: 80,
+    minimum: CORRECTIVE_ACTION_CONSTRAINTS.PROGRESS.MIN,
+    maximum: CORRECTIVE_ACTION_CONSTRAINTS.PROGRESS.MAX,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(CORRECTIVE_ACTION_CONSTRAINTS.PROGRESS.MIN)
+  @Max(CORRECTIVE_ACTION_CONSTRAINTS.PROGRESS.MAX)
+  progress?: number
+}
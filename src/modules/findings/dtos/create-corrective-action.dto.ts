@@ -0,0 +1,36 @@
+import {
+  IsString,
+  IsUUID,
+  IsDateString,
+  MinLength,
+  MaxLength,
+} from '@core/i18n'
+import { ApiProperty } from '@nestjs/swagger'
+import { CORRECTIVE_ACTION_CONSTRAINTS } from '../constants'
+
+export class CreateCorrectiveActionDto {
+  @ApiProperty({
+    description: 'Acción que la organización se compromete a implementar',
+    example: 'Depurar las cuentas y automatizar las bajas con RRHH',
+    minLength: CORRECTIVE_ACTION_CONSTRAINTS.DESCRIPTION.MIN_LENGTH,
+    maxLength: CORRECTIVE_ACTION_CONSTRAINTS.DESCRIPTION.MAX_LENGTH,
+  })
+  @IsString()
+  @MinLength(CORRECTIVE_ACTION_CONSTRAINTS.DESCRIPTION.MIN_LENGTH)
+  @MaxLength(CORRECTIVE_ACTION_CONSTRAINTS.DESCRIPTION.MAX_LENGTH)
+  description: string
+
+  @ApiProperty({
+    description: 'ID del usuario responsable (de la organización del hallazgo)',
+    example: '550e8400-e29b-41d4-a716-446655440000',
+  })
+  @IsUUID()
+  ownerId: string
+
+  @ApiProperty({
+    description: 'Fecha límite (YYYY-MM-DD)',
+    example: '2025-06-30',
+  })
+  @IsDateString()
+  dueDate: string
+}
@@ -0,0 +1,79 @@
+import {
+  IsString,
+  IsOptional,
+  IsUUID,
+  IsEnum,
+  MinLength,
+  MaxLength,
+} from '@core/i18n'
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger'
+import {
+  FINDING_CONSTRAINTS,
+  FindingRiskRating,
+  FindingType,
+} from '../constants'
+
+export class CreateFindingDto {
+  @ApiProperty({
+    description: 'ID de la organización a la que se comunica el hallazgo',
+    example: '550e8400-e29b-41d4-a716-446655440000',
+  })
+  @IsUUID()
+  organizationId: string
+
+  @ApiProperty({
+    description: 'ID del standard (control) incumplido',
+    example: '550e8400-e29b-41d4-a716-446655440001',
+  })
+  @IsUUID()
+  standardId: string
+
+  @ApiProperty({
+    description: 'Título del hallazgo',
+    example: 'Cuentas de usuarios cesados siguen activas',
+    minLength: FINDING_CONSTRAINTS.TITLE.MIN_LENGTH,
+    maxLength: FINDING_CONSTRAINTS.TITLE.MAX_LENGTH,
+  })
+  @IsString()
+  @MinLength(FINDING_CONSTRAINTS.TITLE.MIN_LENGTH)
+  @MaxLength(FINDING_CONSTRAINTS.TITLE.MAX_LENGTH)
+  title: string
+
+  @ApiProperty({
+    description: 'Condición encontrada y criterio incumplido',
+    example:
+      'Se identificaron 12 cuentas de personal cesado con acceso vigente al core bancario.',
+    minLength: FINDING_CONSTRAINTS.DESCRIPTION.MIN_LENGTH,
+    maxLength: FINDING_CONSTRAINTS.DESCRIPTION.MAX_LENGTH,
+  })
+  @IsString()
+  @MinLength(FINDING_CONSTRAINTS.DESCRIPTION.MIN_LENGTH)
+  @MaxLength(FINDING_CONSTRAINTS.DESCRIPTION.MAX_LENGTH)
+  description: string
+
+  @ApiProperty({
+    description: 'Clasificación del hallazgo',
+    enum: FindingType,
+    example: FindingType.MAJOR_NONCONFORMITY,
+  })
+  @IsEnum(FindingType)
+  type: FindingType
+
+  @ApiProperty({
+    description: 'Nivel de riesgo',
+    enum: FindingRiskRating,
+    example: FindingRiskRating.HIGH,
+  })
+  @IsEnum(FindingRiskRating)
+  riskRating: FindingRiskRating
+
+  @ApiPropertyOptional({
+    description: 'Causa raíz identificada',
+    example: 'RRHH no notifica las bajas a TI',
+    maxLength: FINDING_CONSTRAINTS.ROOT_CAUSE.MAX_LENGTH,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(FINDING_CONSTRAINTS.ROOT_CAUSE.MAX_LENGTH)
+  rootCause?: string
+}
@@ -0,0 +1,62 @@
+import { IsOptional, IsString, IsEnum, IsUUID } from 'class-validator'
+import { ApiPropertyOptional } from '@nestjs/swagger'
+import { PaginationDto } from '@core/dtos'
+import { IsIn } from '@core/i18n'
+import { FindingRiskRating, FindingStatus, FindingType } from '../constants'
+import { FindingEntity } from '../entities/finding.entity'
+
+/**
+ * Campos por los que se puede ordenar la lista de hallazgos
+ */
+export const FINDING_SORTABLE_FIELDS: (keyof FindingEntity)[] = [
+  'title',
+  'type',
+  'riskRating',
+  'status',
+  'communicatedAt',
+  'createdAt',
+]
+
+/**
+ * Campos en los que busca el parámetro 'search'
+ */
+export const FINDING_SEARCH_FIELDS: (keyof FindingEntity)[] = [
+  'title',
+  'description',
+  'rootCause',
+]
+
+export class FindFindingsDto extends PaginationDto {
+  @IsOptional()
+  @IsString()
+  search?: string
+
+  @ApiPropertyOptional({ description: 'Filtrar por organización' })
+  @IsOptional()
+  @IsUUID()
+  organizationId?: string
+
+  @ApiPropertyOptional({ description: 'Filtrar por standard' })
+  @IsOptional()
+  @IsUUID()
+  standardId?: string
+
+  @ApiPropertyOptional({ enum: FindingType })
+  @IsOptional()
+  @IsEnum(FindingType)
+  type?: FindingType
+
+  @ApiPropertyOptional({ enum: FindingRiskRating })
+  @IsOptional()
+  @IsEnum(FindingRiskRating)
+  riskRating?: FindingRiskRating
+
+  @ApiPropertyOptional({ enum: FindingStatus })
+  @IsOptional()
+  @IsEnum(FindingStatus)
+  status?: FindingStatus
+
+  @IsOptional()
+  @IsIn(FINDING_SORTABLE_FIELDS)
+  sortBy?: string = 'createdAt'
+}
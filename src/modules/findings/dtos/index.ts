@@ -0,0 +1,9 @@
+export * from './create-finding.dto'
+export * from './update-finding.dto'
+export * from './find-findings.dto'
+export * from './respond-finding.dto'
+export * from './create-corrective-action.dto'
+export * from './update-corrective-action.dto'
+export * from './change-corrective-action-status.dto'
+export * from './create-corrective-action-note.dto'
+export * from './corrective-action-param.dto'
@@ -0,0 +1,35 @@
+import { IsString, IsOptional, MinLength, MaxLength } from '@core/i18n'
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger'
+import { FINDING_CONSTRAINTS } from '../constants'
+
+/**
+ * Aceptación del hallazgo por la organización (comentario opcional)
+ */
+export class AcceptFindingDto {
+  @ApiPropertyOptional({
+    description: 'Comentario de la organización',
+    example: 'Se depurarán las cuentas y se revisará el procedimiento de bajas',
+    maxLength: FINDING_CONSTRAINTS.RESPONSE.MAX_LENGTH,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(FINDING_CONSTRAINTS.RESPONSE.MAX_LENGTH)
+  response?: string
+}
+
+/**
+ * Disputa del hallazgo por la organización (motivo obligatorio)
+ */
+export class DisputeFindingDto {
+  @ApiProperty({
+    description: 'Motivo por el que la organización no está de acuerdo',
+    example:
+      'Las cuentas observadas pertenecen a personal en licencia, no cesado',
+    minLength: FINDING_CONSTRAINTS.RESPONSE.MIN_LENGTH,
+    maxLength: FINDING_CONSTRAINTS.RESPONSE.MAX_LENGTH,
+  })
+  @IsString()
+  @MinLength(FINDING_CONSTRAINTS.RESPONSE.MIN_LENGTH)
+  @MaxLength(FINDING_CONSTRAINTS.RESPONSE.MAX_LENGTH)
+  reason: string
+}
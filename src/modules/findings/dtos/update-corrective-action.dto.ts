@@ -0,0 +1,9 @@
+import { PartialType } from '@nestjs/swagger'
+import { CreateCorrectiveActionDto } from './create-corrective-action.dto'
+
+/**
+ * Cambiar la fecha límite reinicia los recordatorios y el escalamiento
+ */
+export class UpdateCorrectiveActionDto extends PartialType(
+  CreateCorrectiveActionDto,
+) {}
@@ -0,0 +1,9 @@
+import { OmitType, PartialType } from '@nestjs/swagger'
+import { CreateFindingDto } from './create-finding.dto'
+
+/**
+ * La organización no se puede cambiar una vez registrado el hallazgo
+ */
+export class UpdateFindingDto extends PartialType(
+  OmitType(CreateFindingDto, ['organizationId']),
+) {}
@@ -0,0 +1,38 @@
+import { Entity, Column, ManyToOne, JoinColumn, Index } from 'typeorm'
+import { BaseEntity } from '@core/entities/base.entity'
+import { UserEntity } from '../../users/entities/user.entity'
+import { CorrectiveActionEntity } from './corrective-action.entity'
+
+/**
+ * Corrective Action Note Entity
+ *
+ * Nota de avance de una acción correctiva (solo se agregan, no se editan)
+ */
+@Entity('corrective_action_notes')
+@Index(['actionId', 'createdAt'])
+export class CorrectiveActionNoteEntity extends BaseEntity {
+  @Column({ type: 'uuid' })
+  actionId: string
+
+  @ManyToOne(() => CorrectiveActionEntity, (action) => action.notes, {
+    onDelete: 'CASCADE',
+  })
+  @JoinColumn({ name: 'actionId' })
+  action: CorrectiveActionEntity
+
+  @Column({ type: 'text' })
+  note: string
+
+  /**
+   * Avance declarado al registrar la nota (null si no se informó)
+   */
+  @Column({ type: 'int', nullable: true })
+  progress: number | null
+
+  @Column({ type: 'uuid' })
+  authorId: string
+
+  @ManyToOne(() => UserEntity)
+  @JoinColumn({ name: 'authorId' })
+  author: UserEntity
+}
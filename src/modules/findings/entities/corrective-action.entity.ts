@@ -0,0 +1,125 @@
+import {
+  Entity,
+  Column,
+  ManyToOne,
+  OneToMany,
+  JoinColumn,
+  Index,
+} from 'typeorm'
+import { BaseEntity } from '@core/entities/base.entity'
+import { Auditable } from '@core/database/auditable.decorator'
+import { AuditAction } from '@core/database/audit-action.enum'
+import { TenantScoped } from '@core/database/tenant-scoped.decorator'
+import { UserEntity } from '../../users/entities/user.entity'
+import {
+  CORRECTIVE_ACTION_PENDING_STATUSES,
+  CORRECTIVE_ACTION_STATUS_TRANSITIONS,
+  CorrectiveActionStatus,
+} from '../constants'
+import { FindingEntity } from './finding.entity'
+import { CorrectiveActionNoteEntity } from './corrective-action-note.entity'
+
+/**
+ * Corrective Action Entity
+ *
+ * Acción que la organización se compromete a implementar para resolver
+ * un hallazgo, con un responsable y una fecha límite. El historial se
+ * agrupa en el hallazgo (rootId).
+ *
+ * lastReminderAt / escalatedAt los mantiene CorrectiveActionOverdueJob
+ * para no repetir correos; se reinician si cambia la fecha límite.
+ */
+@TenantScoped<CorrectiveActionEntity>('organizationId')
+@Auditable<CorrectiveActionEntity>({
+  ignore: ['lastReminderAt', 'escalatedAt'],
+  rootId: (action) => action.findingId,
+  transitions: {
+    status: {
+      [CorrectiveActionStatus.COMPLETED]: AuditAction.CLOSE,
+    },
+  },
+})
+@Entity('corrective_actions')
+@Index(['findingId'])
+@Index(['ownerId'])
+@Index(['status', 'dueDate'])
+export class CorrectiveActionEntity extends BaseEntity {
+  @Column({ type: 'uuid' })
+  findingId: string
+
+  @ManyToOne(() => FindingEntity)
+  @JoinColumn({ name: 'findingId' })
+  finding: FindingEntity
+
+  /**
+   * Organización del hallazgo (copiada para el filtro multi-tenant)
+   */
+  @Column({ type: 'uuid' })
+  organizationId: string
+
+  @Column({ type: 'text' })
+  description: string
+
+  /**
+   * Usuario de la organización responsable de implementarla
+   */
+  @Column({ type: 'uuid' })
+  ownerId: string
+
+  @ManyToOne(() => UserEntity)
+  @JoinColumn({ name: 'ownerId' })
+  owner: UserEntity
+
+  @Column({ type: 'date' })
+  dueDate: string
+
+  @Column({
+    type: 'enum',
+    enum: CorrectiveActionStatus,
+    default: CorrectiveActionStatus.OPEN,
+  })
+  status: CorrectiveActionStatus
+
+  /**
+   * Avance declarado (0-100), actualizado con cada nota
+   */
+  @Column({ type: 'int', default: 0 })
+  progress: number
+
+  @Column({ type: 'timestamp', nullable: true })
+  completedAt: Date | null
+
+  @Column({ type: 'timestamp', nullable: true })
+  lastReminderAt: Date | null
+
+  @Column({ type: 'timestamp', nullable: true })
+  escalatedAt: Date | null
+
+  @OneToMany(() => CorrectiveActionNoteEntity, (note) => note.action)
+  notes: CorrectiveActionNoteEntity[]
+
+  /**
+   * ¿Sigue pendiente? (abierta o en progreso)
+   */
+  get isPending(): boolean {
+    return CORRECTIVE_ACTION_PENDING_STATUSES.includes(this.status)
+  }
+
+  canTransitionTo(status: CorrectiveActionStatus): boolean {
+    return CORRECTIVE_ACTION_STATUS_TRANSITIONS[this.status].includes(status)
+  }
+
+  changeStatus(status: CorrectiveActionStatus): void {
+    this.status = status
+    if (status === CorrectiveActionStatus.COMPLETED) {
+      this.progress = 100
+      this.completedAt = new Date()
+    }
+  }
+
+  reschedule(dueDate: string): void {
+    this.dueDate = dueDate
+    this.lastReminderAt = null
+    this.escalatedAt = null
+  }
+}
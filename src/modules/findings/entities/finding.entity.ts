@@ -0,0 +1,155 @@
+import { Entity, Column, ManyToOne, JoinColumn, Index } from 'typeorm'
+import { BaseEntity } from '@core/entities/base.entity'
+import { Auditable } from '@core/database/auditable.decorator'
+import { AuditAction } from '@core/database/audit-action.enum'
+import { TenantScoped } from '@core/database/tenant-scoped.decorator'
+import { Reviewable } from '@core/database/reviewable.decorator'
+import { OrganizationEntity } from '../../organizations/entities/organization.entity'
+import { StandardEntity } from '../../audit-library/standards/entities/standard.entity'
+import { UserEntity } from '../../users/entities/user.entity'
+import {
+  FINDING_CONSTRAINTS,
+  FINDING_STATUS_TRANSITIONS,
+  FindingRiskRating,
+  FindingStatus,
+  FindingType,
+} from '../constants'
+
+/**
+ * Finding Entity
+ *
+ * Hallazgo (no conformidad, observación u oportunidad de mejora) que un
+ * auditor registra contra un standard para una organización.
+ *
+ * Ciclo de vida: draft → communicated → accepted / disputed → closed
+ * Cada transición queda en el historial de auditoría con su propia acción.
+ *
+ * La redacción del auditor pasa por la revisión maker/checker ('finding'
+ * en /reviews); la respuesta de la organización no forma parte de lo firmado.
+ */
+@TenantScoped<FindingEntity>('organizationId')
+@Reviewable<FindingEntity>({
+  type: 'finding',
+  ignore: ['status', 'communicatedAt', 'response', 'respondedAt', 'closedAt'],
+})
+@Auditable<FindingEntity>({
+  transitions: {
+    status: {
+      [FindingStatus.COMMUNICATED]: AuditAction.COMMUNICATE,
+      [FindingStatus.ACCEPTED]: AuditAction.ACCEPT,
+      [FindingStatus.DISPUTED]: AuditAction.DISPUTE,
+      [FindingStatus.CLOSED]: AuditAction.CLOSE,
+    },
+  },
+})
+@Entity('findings')
+@Index(['organizationId'])
+@Index(['standardId'])
+@Index(['status'])
+export class FindingEntity extends BaseEntity {
+  @Column({ type: 'varchar', length: FINDING_CONSTRAINTS.TITLE.MAX_LENGTH })
+  title: string
+
+  /**
+   * Condición encontrada y criterio incumplido
+   */
+  @Column({ type: 'text' })
+  description: string
+
+  @Column({ type: 'enum', enum: FindingType })
+  type: FindingType
+
+  @Column({ type: 'enum', enum: FindingRiskRating })
+  riskRating: FindingRiskRating
+
+  /**
+   * Causa raíz identificada (se puede completar después del borrador)
+   */
+  @Column({ type: 'text', nullable: true })
+  rootCause: string | null
+
+  @Column({
+    type: 'enum',
+    enum: FindingStatus,
+    default: FindingStatus.DRAFT,
+  })
+  status: FindingStatus
+
+  /**
+   * Organización a la que se comunica el hallazgo
+   */
+  @Column({ type: 'uuid' })
+  organizationId: string
+
+  @ManyToOne(() => OrganizationEntity)
+  @JoinColumn({ name: 'organizationId' })
+  organization: OrganizationEntity
+
+  /**
+   * Standard (control) contra el que se registra el hallazgo
+   */
+  @Column({ type: 'uuid' })
+  standardId: string
+
+  @ManyToOne(() => StandardEntity)
+  @JoinColumn({ name: 'standardId' })
+  standard: StandardEntity
+
+  /**
+   * Auditor que registró el hallazgo
+   */
+  @Column({ type: 'uuid' })
+  reportedById: string
+
+  @ManyToOne(() => UserEntity)
+  @JoinColumn({ name: 'reportedById' })
+  reportedBy: UserEntity
+
+  @Column({ type: 'timestamp', nullable: true })
+  communicatedAt: Date | null
+
+  /**
+   * Respuesta de la organización (comentario al aceptar, motivo al disputar)
+   */
+  @Column({ type: 'text', nullable: true })
+  response: string | null
+
+  @Column({ type: 'timestamp', nullable: true })
+  respondedAt: Date | null
+
+  @Column({ type: 'timestamp', nullable: true })
+  closedAt: Date | null
+
+  /**
+   * Solo se editan (y eliminan) los borradores
+   */
+  get isEditable(): boolean {
+    return this.status === FindingStatus.DRAFT
+  }
+
+  canTransitionTo(status: FindingStatus): boolean {
+    return FINDING_STATUS_TRANSITIONS[this.status].includes(status)
+  }
+
+  communicate(): void {
+    this.status = FindingStatus.COMMUNICATED
+    this.communicatedAt = new Date()
+  }
+
+  accept(response: string | null): void {
+    this.status = FindingStatus.ACCEPTED
+    this.response = response
+    this.respondedAt = new Date()
+  }
+
+  dispute(reason: string): void {
+    this.status = FindingStatus.DISPUTED
+    this.response = reason
+    this.respondedAt = new Date()
+  }
+
+  close(): void {
+    this.status = FindingStatus.CLOSED
+    this.closedAt = new Date()
+  }
+}
@@ -0,0 +1,3 @@
+export * from './finding.entity'
+export * from './corrective-action.entity'
+export * from './corrective-action-note.entity'
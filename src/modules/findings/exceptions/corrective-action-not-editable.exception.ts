@@ -0,0 +1,10 @@
+import { BadRequestException } from '@nestjs/common'
+import { CorrectiveActionStatus } from '../constants'
+
+export class CorrectiveActionNotEditableException extends BadRequestException {
+  constructor(status: CorrectiveActionStatus) {
+    super(
+      `La acción correctiva está en estado "${status}" y ya no admite cambios`,
+    )
+  }
+}
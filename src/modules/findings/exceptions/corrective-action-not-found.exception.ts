@@ -0,0 +1,9 @@
+import { NotFoundException } from '@nestjs/common'
+
+export class CorrectiveActionNotFoundException extends NotFoundException {
+  constructor(actionId: string, findingId: string) {
+    super(
+      `Acción correctiva con ID ${actionId} no encontrada en el hallazgo ${findingId}`,
+    )
+  }
+}
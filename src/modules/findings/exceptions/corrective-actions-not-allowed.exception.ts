@@ -0,0 +1,10 @@
+import { BadRequestException } from '@nestjs/common'
+import { FindingStatus } from '../constants'
+
+export class CorrectiveActionsNotAllowedException extends BadRequestException {
+  constructor(title: string, status: FindingStatus) {
+    super(
+      `El hallazgo "${title}" está en estado "${status}": solo se proponen acciones correctivas para hallazgos aceptados`,
+    )
+  }
+}
@@ -0,0 +1,10 @@
+import { BadRequestException } from '@nestjs/common'
+import { FindingStatus } from '../constants'
+
+export class FindingNotEditableException extends BadRequestException {
+  constructor(title: string, status: FindingStatus) {
+    super(
+      `El hallazgo "${title}" está en estado "${status}" y solo se puede modificar en borrador`,
+    )
+  }
+}
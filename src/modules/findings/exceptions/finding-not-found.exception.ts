@@ -0,0 +1,7 @@
+import { NotFoundException } from '@nestjs/common'
+
+export class FindingNotFoundException extends NotFoundException {
+  constructor(findingId: string) {
+    super(`Hallazgo con ID ${findingId} no encontrado`)
+  }
+}
@@ -0,0 +1,9 @@
+export * from './finding-not-found.exception'
+export * from './finding-not-editable.exception'
+export * from './invalid-finding-status-transition.exception'
+export * from './corrective-action-not-found.exception'
+export * from './corrective-actions-not-allowed.exception'
+export * from './invalid-corrective-action-owner.exception'
+export * from './invalid-corrective-action-due-date.exception'
+export * from './corrective-action-not-editable.exception'
+export * from './invalid-corrective-action-status-transition.exception'
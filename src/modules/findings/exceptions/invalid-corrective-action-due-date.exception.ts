@@ -0,0 +1,7 @@
+import { BadRequestException } from '@nestjs/common'
+
+export class InvalidCorrectiveActionDueDateException extends BadRequestException {
+  constructor(dueDate: string) {
+    super(`La fecha límite (${dueDate}) no puede ser anterior a hoy`)
+  }
+}
@@ -0,0 +1,9 @@
+import { BadRequestException } from '@nestjs/common'
+
+export class InvalidCorrectiveActionOwnerException extends BadRequestException {
+  constructor(username: string) {
+    super(
+      `El usuario "${username}" no puede ser responsable: debe ser un usuario activo de la organización del hallazgo`,
+    )
+  }
+}
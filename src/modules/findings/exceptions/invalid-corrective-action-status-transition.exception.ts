@@ -0,0 +1,10 @@
+import { BadRequestException } from '@nestjs/common'
+import { CorrectiveActionStatus } from '../constants'
+
+export class InvalidCorrectiveActionStatusTransitionException extends BadRequestException {
+  constructor(from: CorrectiveActionStatus, to: CorrectiveActionStatus) {
+    super(
+      `No se puede cambiar el estado de la acción correctiva de "${from}" a "${to}"`,
+    )
+  }
+}
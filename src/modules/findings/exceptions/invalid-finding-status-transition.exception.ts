@@ -0,0 +1,8 @@
+import { BadRequestException } from '@nestjs/common'
+import { FindingStatus } from '../constants'
+
+export class InvalidFindingStatusTransitionException extends BadRequestException {
+  constructor(from: FindingStatus, to: FindingStatus) {
+    super(`No se puede cambiar el estado del hallazgo de "${from}" a "${to}"`)
+  }
+}
@@ -0,0 +1,92 @@
+import { Injectable } from '@nestjs/common'
+import {
+  CorrectiveActionEntity,
+  CorrectiveActionNoteEntity,
+  FindingEntity,
+} from '../entities'
+import { CorrectiveActionStatus } from '../constants'
+import {
+  CreateCorrectiveActionDto,
+  UpdateCorrectiveActionDto,
+  CreateCorrectiveActionNoteDto,
+} from '../dtos'
+
+@Injectable()
+export class CorrectiveActionFactory {
+  /**
+   * Crea una acción correctiva abierta para el hallazgo
+   *
+   * @param finding - Hallazgo (define la organización)
+   * @param dto - Descripción, responsable y fecha límite
+   * @returns Nueva instancia de CorrectiveActionEntity en estado OPEN
+   */
+  createFromDto(
+    finding: FindingEntity,
+    dto: CreateCorrectiveActionDto,
+  ): CorrectiveActionEntity {
+    const action = new CorrectiveActionEntity()
+    action.findingId = finding.id
+    action.organizationId = finding.organizationId
+    action.description = dto.description.trim()
+    action.ownerId = dto.ownerId
+    action.dueDate = dto.dueDate.slice(0, 10)
+    action.status = CorrectiveActionStatus.OPEN
+    action.progress = 0
+    action.completedAt = null
+    action.lastReminderAt = null
+    action.escalatedAt = null
+    return action
+  }
+
+  /**
+   * Actualiza una entidad existente.
+   * Solo actualiza los campos que vienen definidos en el DTO.
+   *
+   * @param action - La entidad original recuperada de la BD
+   * @param dto - Los datos a actualizar (Partial)
+   * @returns La misma entidad con los datos nuevos
+   */
+  updateFromDto(
+    action: CorrectiveActionEntity,
+    dto: UpdateCorrectiveActionDto,
+  ): CorrectiveActionEntity {
+    if (dto.description !== undefined) {
+      action.description = dto.description.trim()
+    }
+
+    if (dto.ownerId !== undefined && dto.ownerId !== action.ownerId) {
+      action.ownerId = dto.ownerId
+      // Al guardar, la relación cargada tendría prioridad sobre la FK
+      delete (action as Partial<CorrectiveActionEntity>).owner
+    }
+
+    if (
+      dto.dueDate !== undefined &&
+      dto.dueDate.slice(0, 10) !== action.dueDate
+    ) {
+      action.reschedule(dto.dueDate.slice(0, 10))
+    }
+
+    return action
+  }
+
+  /**
+   * Crea una nota de avance
+   *
+   * @param actionId - ID de la acción correctiva
+   * @param dto - Nota y avance opcional
+   * @param authorId - ID del usuario autenticado
+   */
+  createNote(
+    actionId: string,
+    dto: CreateCorrectiveActionNoteDto,
+    authorId: string,
+  ): CorrectiveActionNoteEntity {
+    const note = new CorrectiveActionNoteEntity()
+    note.actionId = actionId
+    note.note = dto.note.trim()
+    note.progress = dto.progress ?? null
+    note.authorId = authorId
+    return note
+  }
+}
@@ -0,0 +1,69 @@
+import { Injectable } from '@nestjs/common'
+import { FindingEntity } from '../entities'
+import { FindingStatus } from '../constants'
+import { CreateFindingDto, UpdateFindingDto } from '../dtos'
+
+@Injectable()
+export class FindingFactory {
+  /**
+   * Crea una nueva entidad FindingEntity desde el DTO.
+   * Aplica normalización de datos (trim).
+   *
+   * @param dto - Datos del hallazgo
+   * @param reportedById - ID del auditor que lo registra
+   * @returns Nueva instancia de FindingEntity en estado DRAFT
+   */
+  createFromDto(dto: CreateFindingDto, reportedById: string): FindingEntity {
+    const finding = new FindingEntity()
+    finding.organizationId = dto.organizationId
+    finding.standardId = dto.standardId
+    finding.title = dto.title.trim()
+    finding.description = dto.description.trim()
+    finding.type = dto.type
+    finding.riskRating = dto.riskRating
+    finding.rootCause = dto.rootCause?.trim() || null
+    finding.reportedById = reportedById
+    finding.status = FindingStatus.DRAFT
+    finding.communicatedAt = null
+    finding.response = null
+    finding.respondedAt = null
+    finding.closedAt = null
+    return finding
+  }
+
+  /**
+   * Actualiza una entidad existente.
+   * Solo actualiza los campos que vienen definidos en el DTO.
+   *
+   * @param finding - La entidad original recuperada de la BD
+   * @param dto - Los datos a actualizar (Partial)
+   * @returns La misma entidad con los datos nuevos
+   */
+  updateFromDto(finding: FindingEntity, dto: UpdateFindingDto): FindingEntity {
+    if (dto.standardId !== undefined) {
+      finding.standardId = dto.standardId
+    }
+
+    if (dto.title !== undefined) {
+      finding.title = dto.title.trim()
+    }
+
+    if (dto.description !== undefined) {
+      finding.description = dto.description.trim()
+    }
+
+    if (dto.type !== undefined) {
+      finding.type = dto.type
+    }
+
+    if (dto.riskRating !== undefined) {
+      finding.riskRating = dto.riskRating
+    }
+
+    if (dto.rootCause !== undefined) {
+      finding.rootCause = dto.rootCause?.trim() || null
+    }
+
+    return finding
+  }
+}
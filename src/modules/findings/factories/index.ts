@@ -0,0 +1,2 @@
+export * from './finding.factory'
+export * from './corrective-action.factory'
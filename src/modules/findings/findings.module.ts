@@ -0,0 +1,61 @@
+import { Module } from '@nestjs/common'
+import { ReviewsModule } from '../reviews/reviews.module'
+import { FindingsController } from './controllers/findings.controller'
+import { CorrectiveActionsController } from './controllers/corrective-actions.controller'
+import { FindingFactory, CorrectiveActionFactory } from './factories'
+import { FindingValidator, CorrectiveActionValidator } from './validators'
+import { CorrectiveActionOverdueService } from './services'
+import { CorrectiveActionOverdueJob } from './jobs'
+
+// Use Cases
+import {
+  CreateFindingUseCase,
+  UpdateFindingUseCase,
+  FindFindingsUseCase,
+  FindFindingUseCase,
+  CommunicateFindingUseCase,
+  AcceptFindingUseCase,
+  DisputeFindingUseCase,
+  CloseFindingUseCase,
+  DeleteFindingUseCase,
+  FindCorrectiveActionsUseCase,
+  FindCorrectiveActionUseCase,
+  CreateCorrectiveActionUseCase,
+  UpdateCorrectiveActionUseCase,
+  ChangeCorrectiveActionStatusUseCase,
+  AddCorrectiveActionNoteUseCase,
+} from './use-cases'
+
+@Module({
+  imports: [ReviewsModule],
+  controllers: [FindingsController, CorrectiveActionsController],
+  providers: [
+    FindingFactory,
+    FindingValidator,
+    CorrectiveActionFactory,
+    CorrectiveActionValidator,
+    CorrectiveActionOverdueService,
+
+    // Job: recordatorios y escalamiento de acciones correctivas vencidas
+    CorrectiveActionOverdueJob,
+
+    // Use Cases
+    CreateFindingUseCase,
+    UpdateFindingUseCase,
+    FindFindingsUseCase,
+    FindFindingUseCase,
+    CommunicateFindingUseCase,
+    AcceptFindingUseCase,
+    DisputeFindingUseCase,
+    CloseFindingUseCase,
+    DeleteFindingUseCase,
+    FindCorrectiveActionsUseCase,
+    FindCorrectiveActionUseCase,
+    CreateCorrectiveActionUseCase,
+    UpdateCorrectiveActionUseCase,
+    ChangeCorrectiveActionStatusUseCase,
+    AddCorrectiveActionNoteUseCase,
+  ],
+  exports: [FindingValidator],
+})
+export class FindingsModule {}
@@ -0,0 +1,120 @@
+/* eslint-disable @typescript-eslint/unbound-method */
+import type { AuditService } from '@core/database'
+import type { EmailEventService } from '@core/email'
+import type { LoggerService } from '@core/logger'
+import { CorrectiveActionOverdueJob } from './corrective-action-overdue.job'
+import type { ICorrectiveActionsRepository } from '../repositories'
+import { CorrectiveActionEntity, FindingEntity } from '../entities'
+import { CorrectiveActionOverdueService } from '../services'
+import { CorrectiveActionStatus } from '../constants'
+import type { IUsersRepository } from '../../users/repositories'
+import { Role, UserEntity } from '../../users/entities/user.entity'
+
+describe('CorrectiveActionOverdueJob', () => {
+  let job: CorrectiveActionOverdueJob
+  let usersRepository: jest.Mocked<IUsersRepository>
+  let emailEventService: jest.Mocked<EmailEventService>
+
+  const now = new Date('2026-05-10T12:00:00Z')
+
+  const buildUser = (id: string, organizationId: string) =>
+    Object.assign(new UserEntity(), {
+      id,
+      names: id,
+      lastNames: 'Test',
+      email: `${id}@example.com`,
+      organizationId,
+      isActive: true,
+    })
+
+  // Vencida hace varios días y ya recordada: corresponde escalar
+  const buildAction = (id: string, organizationId: string) =>
+    Object.assign(new CorrectiveActionEntity(), {
+      id,
+      findingId: `finding-${id}`,
+      description: `Acción ${id}`,
+      dueDate: '2026-05-01',
+      status: CorrectiveActionStatus.IN_PROGRESS,
+      lastReminderAt: new Date('2026-05-10T02:00:00Z'),
+      escalatedAt: null,
+      owner: null,
+      finding: Object.assign(new FindingEntity(), {
+        title: `Hallazgo ${id}`,
+        organizationId,
+      }),
+    })
+
+  const managers: Record<string, UserEntity[]> = {
+    'org-1': [buildUser('manager-1', 'org-1')],
+    'org-2': [buildUser('manager-2', 'org-2')],
+  }
+
+  beforeEach(() => {
+    const correctiveActionsRepository = {
+      findOverdue: jest
+        .fn()
+        .mockResolvedValue([
+          buildAction('action-1', 'org-1'),
+          buildAction('action-2', 'org-2'),
+          buildAction('action-3', 'org-1'),
+        ]),
+      update: jest.fn().mockResolvedValue(null),
+    } as unknown as jest.Mocked<ICorrectiveActionsRepository>
+    usersRepository = {
+      findActiveByRole: jest.fn((_role: Role, organizationId: string) =>
+        Promise.resolve(managers[organizationId] ?? []),
+      ),
+    } as unknown as jest.Mocked<IUsersRepository>
+    emailEventService = {
+      emitSendCorrectiveActionReminder: jest.fn(),
+      emitSendCorrectiveActionEscalation: jest.fn(),
+    } as unknown as jest.Mocked<EmailEventService>
+    const auditService = {
+      runWithoutUser: jest.fn((operation: () => Promise<number>) =>
+        operation(),
+      ),
+    } as unknown as AuditService
+
+    job = new CorrectiveActionOverdueJob(
+      correctiveActionsRepository,
+      usersRepository,
+      new CorrectiveActionOverdueService(),
+      emailEventService,
+      auditService,
+      { log: jest.fn(), error: jest.fn() } as unknown as LoggerService,
+    )
+  })
+
+  it('should escalate each action only to the managers of its organization', async () => {
+    // Act
+    const notified = await job.run(now)
+
+    // Assert
+    expect(notified).toBe(3)
+    const recipients =
+      emailEventService.emitSendCorrectiveActionEscalation.mock.calls.map(
+        ([data]) => [data.actionDescription, data.to],
+      )
+    expect(recipients).toEqual([
+      ['Acción action-1', 'manager-1@example.com'],
+      ['Acción action-2', 'manager-2@example.com'],
+      ['Acción action-3', 'manager-1@example.com'],
+    ])
+  })
+
+  it('should look up the managers once per organization', async () => {
+    // Act
+    await job.run(now)
+
+    // Assert
+    expect(usersRepository.findActiveByRole).toHaveBeenCalledTimes(2)
+    expect(usersRepository.findActiveByRole).toHaveBeenCalledWith(
+      Role.GERENTE,
+      'org-1',
+    )
+    expect(usersRepository.findActiveByRole).toHaveBeenCalledWith(
+      Role.GERENTE,
+      'org-2',
+    )
+  })
+})
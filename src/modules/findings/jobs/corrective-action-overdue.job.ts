@@ -0,0 +1,180 @@
+import {
+  Injectable,
+  Inject,
+  OnModuleInit,
+  OnModuleDestroy,
+} from '@nestjs/common'
+import { AuditService } from '@core/database'
+import { LoggerService } from '@core/logger'
+import { EmailEventService } from '@core/email'
+import { envs } from '@core/config'
+import { CORRECTIVE_ACTIONS_REPOSITORY } from '../tokens'
+import type { ICorrectiveActionsRepository } from '../repositories'
+import type { CorrectiveActionEntity } from '../entities'
+import { CorrectiveActionOverdueService } from '../services'
+import { CORRECTIVE_ACTION_OVERDUE_INTERVAL_MS } from '../constants'
+import { USERS_REPOSITORY } from '../../users/tokens'
+import type { IUsersRepository } from '../../users/repositories'
+import { Role, UserEntity } from '../../users/entities/user.entity'
+
+/**
+ * Corrective Action Overdue Job
+ *
+ * Revisa periódicamente las acciones correctivas vencidas: recuerda al
+ * responsable y, tras varios días de atraso, escala a los gerentes
+ */
+@Injectable()
+export class CorrectiveActionOverdueJob
+  implements OnModuleInit, OnModuleDestroy
+{
+  private timer: NodeJS.Timeout | null = null
+  private running = false
+
+  constructor(
+    @Inject(CORRECTIVE_ACTIONS_REPOSITORY)
+    private readonly correctiveActionsRepository: ICorrectiveActionsRepository,
+    @Inject(USERS_REPOSITORY)
+    private readonly usersRepository: IUsersRepository,
+    private readonly overdueService: CorrectiveActionOverdueService,
+    private readonly emailEventService: EmailEventService,
+    private readonly auditService: AuditService,
+    private readonly logger: LoggerService,
+  ) {}
+
+  onModuleInit(): void {
+    this.timer = setInterval(
+      () => void this.run(),
+      CORRECTIVE_ACTION_OVERDUE_INTERVAL_MS,
+    )
+    // No mantener vivo el proceso solo por el job
+    this.timer.unref()
+  }
+
+  onModuleDestroy(): void {
+    if (this.timer) clearInterval(this.timer)
+    this.timer = null
+  }
+
+  /**
+   * Envía los avisos pendientes (una ejecución a la vez)
+   *
+   * @returns Cantidad de acciones notificadas
+   */
+  async run(now = new Date()): Promise<number> {
+    if (this.running) return 0
+    this.running = true
+
+    try {
+      // Sin usuario en el contexto: el historial lo registra como 'System'
+      return await this.auditService.runWithoutUser(async () => {
+        const overdue = await this.correctiveActionsRepository.findOverdue(
+          this.overdueService.today(now),
+        )
+        // Gerentes por organización (solo se escala dentro de la del hallazgo)
+        const managers = new Map<string, UserEntity[]>()
+        let notified = 0
+
+        for (const action of overdue) {
+          const notice = this.overdueService.resolveNotice(action, now)
+          if (!notice) continue
+
+          try {
+            if (notice === 'escalation') {
+              const organizationId = action.finding.organizationId
+              if (!managers.has(organizationId)) {
+                managers.set(
+                  organizationId,
+                  await this.usersRepository.findActiveByRole(
+                    Role.GERENTE,
+                    organizationId,
+                  ),
+                )
+              }
+              this.escalate(action, managers.get(organizationId) ?? [], now)
+              await this.correctiveActionsRepository.update(action.id, {
+                escalatedAt: now,
+                lastReminderAt: now,
+              })
+            } else {
+              this.remind(action, now)
+              await this.correctiveActionsRepository.update(action.id, {
+                lastReminderAt: now,
+              })
+            }
+            notified++
+          } catch (error) {
+            // Una acción con error no detiene a las demás
+            this.logger.error(
+              error instanceof Error ? error : new Error(String(error)),
+              undefined,
+              'CorrectiveActionOverdueJob.run',
+            )
+          }
+        }
+
+        if (notified > 0) {
+          this.logger.log(
+            `${notified} acción(es) correctiva(s) vencida(s) notificada(s)`,
+            'CorrectiveActionOverdueJob.run',
+          )
+        }
+        return notified
+      })
+    } finally {
+      this.running = false
+    }
+  }
+
+  /**
+   * Recordatorio al responsable (si sigue activo)
+   */
+  private remind(action: CorrectiveActionEntity, now: Date): void {
+    if (!action.owner?.isActive) return
+
+    this.emailEventService.emitSendCorrectiveActionReminder({
+      to: action.owner.email,
+      userName: action.owner.fullName,
+      findingTitle: action.finding.title,
+      actionDescription: action.description,
+      dueDate: action.dueDate,
+      daysOverdue: this.overdueService.daysOverdue(action.dueDate, now),
+      actionLink: this.buildLink(action),
+    })
+  }
+
+  /**
+   * Escalamiento a los gerentes de la organización y recordatorio al
+   * responsable
+   */
+  private escalate(
+    action: CorrectiveActionEntity,
+    managers: UserEntity[],
+    now: Date,
+  ): void {
+    this.remind(action, now)
+
+    const recipients = new Map(
+      managers
+        .filter((manager) => manager.email !== action.owner?.email)
+        .map((manager) => [manager.email, manager]),
+    )
+
+    for (const manager of recipients.values()) {
+      this.emailEventService.emitSendCorrectiveActionEscalation({
+        to: manager.email,
+        userName: manager.fullName,
+        ownerName: action.owner?.fullName ?? '-',
+        organizationName: action.finding.organization?.name ?? '-',
+        findingTitle: action.finding.title,
+        actionDescription: action.description,
+        dueDate: action.dueDate,
+        daysOverdue: this.overdueService.daysOverdue(action.dueDate, now),
+        actionLink: this.buildLink(action),
+      })
+    }
+  }
+
+  private buildLink(action: CorrectiveActionEntity): string {
+    return `${envs.frontend.url}/findings/${action.findingId}`
+  }
+}
@@ -0,0 +1 @@
+export * from './corrective-action-overdue.job'
@@ -0,0 +1,22 @@
+import { Injectable } from '@nestjs/common'
+import { InjectRepository } from '@nestjs/typeorm'
+import { Repository } from 'typeorm'
+import { BaseRepository } from '@core/repositories'
+import { TransactionService, AuditService } from '@core/database'
+import { CorrectiveActionNoteEntity } from '../entities/corrective-action-note.entity'
+import type { ICorrectiveActionNotesRepository } from './interfaces/corrective-action-notes-repository.interface'
+
+@Injectable()
+export class CorrectiveActionNotesRepository
+  extends BaseRepository<CorrectiveActionNoteEntity>
+  implements ICorrectiveActionNotesRepository
+{
+  constructor(
+    @InjectRepository(CorrectiveActionNoteEntity)
+    repository: Repository<CorrectiveActionNoteEntity>,
+    transactionService: TransactionService,
+    auditService: AuditService,
+  ) {
+    super(repository, transactionService, auditService)
+  }
+}
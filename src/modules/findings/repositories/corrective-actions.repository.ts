@@ -0,0 +1,71 @@
+import { Injectable } from '@nestjs/common'
+import { InjectRepository } from '@nestjs/typeorm'
+import { In, LessThan, Repository } from 'typeorm'
+import { BaseRepository } from '@core/repositories'
+import { TransactionService, AuditService } from '@core/database'
+import { CorrectiveActionEntity } from '../entities/corrective-action.entity'
+import { CORRECTIVE_ACTION_PENDING_STATUSES } from '../constants'
+import type { ICorrectiveActionsRepository } from './interfaces/corrective-actions-repository.interface'
+
+/**
+ * Corrective Actions Repository
+ *
+ * Repositorio para gestionar los planes de acción de los hallazgos
+ * (limitados a la organización actual)
+ */
+@Injectable()
+export class CorrectiveActionsRepository
+  extends BaseRepository<CorrectiveActionEntity>
+  implements ICorrectiveActionsRepository
+{
+  constructor(
+    @InjectRepository(CorrectiveActionEntity)
+    repository: Repository<CorrectiveActionEntity>,
+    transactionService: TransactionService,
+    auditService: AuditService,
+  ) {
+    super(repository, transactionService, auditService)
+  }
+
+  /**
+   * Acciones de un hallazgo con su responsable, por fecha límite
+   */
+  async findByFinding(findingId: string): Promise<CorrectiveActionEntity[]> {
+    return await this.getRepo().find({
+      where: this.scopeWhere({ findingId }),
+      relations: { owner: true },
+      order: { dueDate: 'ASC', createdAt: 'ASC' },
+    })
+  }
+
+  /**
+   * Busca una acción asegurando que pertenece al hallazgo, con sus notas
+   * (la más reciente primero)
+   */
+  async findOneInFinding(
+    findingId: string,
+    actionId: string,
+  ): Promise<CorrectiveActionEntity | null> {
+    return await this.getRepo().findOne({
+      where: this.scopeWhere({ id: actionId, findingId }),
+      relations: { owner: true, notes: { author: true } },
+      order: { notes: { createdAt: 'DESC' } },
+    })
+  }
+
+  /**
+   * Acciones pendientes cuya fecha límite ya pasó, con responsable y hallazgo
+   *
+   * @param today - Fecha actual (YYYY-MM-DD)
+   */
+  async findOverdue(today: string): Promise<CorrectiveActionEntity[]> {
+    return await this.getRepo().find({
+      where: this.scopeWhere({
+        status: In(CORRECTIVE_ACTION_PENDING_STATUSES),
+        dueDate: LessThan(today),
+      }),
+      relations: { owner: true, finding: { organization: true } },
+      order: { dueDate: 'ASC' },
+    })
+  }
+}
@@ -0,0 +1,95 @@
+import { Injectable } from '@nestjs/common'
+import { InjectRepository } from '@nestjs/typeorm'
+import { Brackets, Repository } from 'typeorm'
+import { BaseRepository } from '@core/repositories'
+import { TransactionService, AuditService } from '@core/database'
+import { PaginatedData } from '@core/dtos'
+import { FindingEntity } from '../entities/finding.entity'
+import { FindFindingsDto, FINDING_SEARCH_FIELDS } from '../dtos'
+import type { IFindingsRepository } from './interfaces/findings-repository.interface'
+
+/**
+ * Findings Repository
+ *
+ * Repositorio para gestionar hallazgos (limitados a la organización actual)
+ * Usa BaseRepository para integración con CLS y transacciones
+ */
+@Injectable()
+export class FindingsRepository
+  extends BaseRepository<FindingEntity>
+  implements IFindingsRepository
+{
+  constructor(
+    @InjectRepository(FindingEntity)
+    repository: Repository<FindingEntity>,
+    transactionService: TransactionService,
+    auditService: AuditService,
+  ) {
+    super(repository, transactionService, auditService)
+  }
+
+  /**
+   * Obtiene un hallazgo con organización, standard y auditor
+   *
+   * @param id - ID del hallazgo
+   * @returns Hallazgo con relaciones o null
+   */
+  async findOneWithRelations(id: string): Promise<FindingEntity | null> {
+    return await this.getRepo().findOne({
+      where: this.scopeWhere({ id }),
+      relations: {
+        organization: true,
+        standard: true,
+        reportedBy: true,
+      },
+    })
+  }
+
+  async paginateFindings(
+    query: FindFindingsDto,
+  ): Promise<PaginatedData<FindingEntity>> {
+    const { search, organizationId, standardId, type, riskRating, status } =
+      query
+
+    const qb = this.getRepo()
+      .createQueryBuilder('finding')
+      .leftJoinAndSelect('finding.organization', 'organization')
+      .leftJoinAndSelect('finding.standard', 'standard')
+
+    if (organizationId) {
+      qb.andWhere('finding.organizationId = :organizationId', {
+        organizationId,
+      })
+    }
+
+    if (standardId) {
+      qb.andWhere('finding.standardId = :standardId', { standardId })
+    }
+
+    if (type) {
+      qb.andWhere('finding.type = :type', { type })
+    }
+
+    if (riskRating) {
+      qb.andWhere('finding.riskRating = :riskRating', { riskRating })
+    }
+
+    if (status) {
+      qb.andWhere('finding.status = :status', { status })
+    }
+
+    if (search) {
+      qb.andWhere(
+        new Brackets((innerQb) => {
+          FINDING_SEARCH_FIELDS.forEach((field) => {
+            innerQb.orWhere(`LOWER(finding.${field}) LIKE LOWER(:search)`, {
+              search: `%${search}%`,
+            })
+          })
+        }),
+      )
+    }
+
+    return await this.paginateQueryBuilder(qb, query)
+  }
+}
@@ -0,0 +1,6 @@
+export * from './findings.repository'
+export * from './interfaces/findings-repository.interface'
+export * from './corrective-actions.repository'
+export * from './interfaces/corrective-actions-repository.interface'
+export * from './corrective-action-notes.repository'
+export * from './interfaces/corrective-action-notes-repository.interface'
@@ -0,0 +1,5 @@
+import type { IBaseRepository } from '@core/repositories'
+import type { CorrectiveActionNoteEntity } from '../../entities/corrective-action-note.entity'
+
+export type ICorrectiveActionNotesRepository =
+  IBaseRepository<CorrectiveActionNoteEntity>
@@ -0,0 +1,11 @@
+import type { IBaseRepository } from '@core/repositories'
+import type { CorrectiveActionEntity } from '../../entities/corrective-action.entity'
+
+export interface ICorrectiveActionsRepository extends IBaseRepository<CorrectiveActionEntity> {
+  findByFinding(findingId: string): Promise<CorrectiveActionEntity[]>
+  findOneInFinding(
+    findingId: string,
+    actionId: string,
+  ): Promise<CorrectiveActionEntity | null>
+  findOverdue(today: string): Promise<CorrectiveActionEntity[]>
+}
@@ -0,0 +1,11 @@
+import type { IBaseRepository } from '@core/repositories'
+import type { FindingEntity } from '../../entities/finding.entity'
+import { FindFindingsDto } from '../../dtos'
+import { PaginatedData } from '@core/dtos'
+
+export interface IFindingsRepository extends IBaseRepository<FindingEntity> {
+  findOneWithRelations(id: string): Promise<FindingEntity | null>
+  paginateFindings(
+    query: FindFindingsDto,
+  ): Promise<PaginatedData<FindingEntity>>
+}
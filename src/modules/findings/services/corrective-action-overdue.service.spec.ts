@@ -0,0 +1,70 @@
+import { CorrectiveActionOverdueService } from './corrective-action-overdue.service'
+import { CorrectiveActionEntity } from '../entities'
+import { CorrectiveActionStatus } from '../constants'
+
+describe('CorrectiveActionOverdueService', () => {
+  let service: CorrectiveActionOverdueService
+
+  const now = new Date('2026-05-10T12:00:00Z')
+
+  const buildAction = (overrides: Partial<CorrectiveActionEntity> = {}) =>
+    Object.assign(new CorrectiveActionEntity(), {
+      id: 'action-1',
+      dueDate: '2026-05-08',
+      status: CorrectiveActionStatus.IN_PROGRESS,
+      lastReminderAt: null,
+      escalatedAt: null,
+      ...overrides,
+    })
+
+  beforeEach(() => {
+    service = new CorrectiveActionOverdueService()
+  })
+
+  it('should count whole days since the due date', () => {
+    expect(service.daysOverdue('2026-05-08', now)).toBe(2)
+    expect(service.daysOverdue('2026-05-10', now)).toBe(0)
+    expect(service.daysOverdue('2026-05-20', now)).toBe(0)
+  })
+
+  it('should remind the owner of a newly overdue action', () => {
+    expect(service.resolveNotice(buildAction(), now)).toBe('reminder')
+  })
+
+  it('should not remind again within the reminder interval', () => {
+    const action = buildAction({
+      lastReminderAt: new Date('2026-05-10T02:00:00Z'),
+    })
+
+    expect(service.resolveNotice(action, now)).toBeNull()
+  })
+
+  it('should remind again once the interval has passed', () => {
+    const action = buildAction({
+      lastReminderAt: new Date('2026-05-09T11:00:00Z'),
+    })
+
+    expect(service.resolveNotice(action, now)).toBe('reminder')
+  })
+
+  it('should escalate once after enough days overdue', () => {
+    const overdue = buildAction({
+      dueDate: '2026-05-01',
+      lastReminderAt: new Date('2026-05-10T02:00:00Z'),
+    })
+    const escalated = buildAction({
+      dueDate: '2026-05-01',
+      lastReminderAt: new Date('2026-05-10T02:00:00Z'),
+      escalatedAt: new Date('2026-05-09T00:00:00Z'),
+    })
+
+    expect(service.resolveNotice(overdue, now)).toBe('escalation')
+    expect(service.resolveNotice(escalated, now)).toBeNull()
+  })
+
+  it('should ignore completed or cancelled actions', () => {
+    const action = buildAction({ status: CorrectiveActionStatus.COMPLETED })
+
+    expect(service.resolveNotice(action, now)).toBeNull()
+  })
+})
@@ -0,0 +1,63 @@
+import { Injectable } from '@nestjs/common'
+import { CorrectiveActionEntity } from '../entities'
+import {
+  CORRECTIVE_ACTION_ESCALATION_DAYS,
+  CORRECTIVE_ACTION_REMINDER_INTERVAL_MS,
+} from '../constants'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Aviso que corresponde enviar por una acción vencida
+ */
+export type CorrectiveActionOverdueNotice = 'reminder' | 'escalation' | null
+
+/**
+ * Corrective Action Overdue Service
+ *
+ * Decide, sin acceso a datos, qué aviso corresponde a una acción correctiva
+ * vencida: recordatorio al responsable (como máximo uno por intervalo) o
+ * escalamiento a la gerencia (una sola vez, tras varios días de atraso)
+ */
+@Injectable()
+export class CorrectiveActionOverdueService {
+  /**
+   * Fecha (YYYY-MM-DD, UTC) con la que se comparan las fechas límite
+   */
+  today(now: Date): string {
+    return now.toISOString().slice(0, 10)
+  }
+
+  /**
+   * Días completos transcurridos desde la fecha límite (0 si no venció)
+   */
+  daysOverdue(dueDate: string, now: Date): number {
+    const elapsed = Date.parse(this.today(now)) - Date.parse(dueDate)
+    return Math.max(0, Math.floor(elapsed / DAY_MS))
+  }
+
+  /**
+   * @returns 'escalation', 'reminder' o null si no corresponde aviso
+   */
+  resolveNotice(
+    action: CorrectiveActionEntity,
+    now: Date,
+  ): CorrectiveActionOverdueNotice {
+    const days = this.daysOverdue(action.dueDate, now)
+    if (!action.isPending || days === 0) return null
+
+    if (!action.escalatedAt && days >= CORRECTIVE_ACTION_ESCALATION_DAYS) {
+      return 'escalation'
+    }
+
+    const lastReminder = action.lastReminderAt?.getTime()
+    if (
+      lastReminder === undefined ||
+      now.getTime() - lastReminder >= CORRECTIVE_ACTION_REMINDER_INTERVAL_MS
+    ) {
+      return 'reminder'
+    }
+
+    return null
+  }
+}
@@ -0,0 +1,7 @@
+export const FINDINGS_REPOSITORY = Symbol('FINDINGS_REPOSITORY')
+export const CORRECTIVE_ACTIONS_REPOSITORY = Symbol(
+  'CORRECTIVE_ACTIONS_REPOSITORY',
+)
+export const CORRECTIVE_ACTION_NOTES_REPOSITORY = Symbol(
+  'CORRECTIVE_ACTION_NOTES_REPOSITORY',
+)
@@ -0,0 +1,34 @@
+import { Inject, Injectable } from '@nestjs/common'
+import { Transactional } from '@core/database/transactional.decorator'
+import type { AcceptFindingDto } from '../../dtos'
+import type { FindingEntity } from '../../entities'
+import { FindingStatus } from '../../constants'
+import { FindingValidator } from '../../validators'
+import { FINDINGS_REPOSITORY } from '../../tokens'
+import type { IFindingsRepository } from '../../repositories'
+
+@Injectable()
+export class AcceptFindingUseCase {
+  constructor(
+    @Inject(FINDINGS_REPOSITORY)
+    private readonly findingsRepository: IFindingsRepository,
+    private readonly findingValidator: FindingValidator,
+  ) {}
+
+  /**
+   * La organización acepta el hallazgo (communicated → accepted)
+   *
+   * @param id - ID del hallazgo
+   * @param dto - Comentario opcional
+   * @returns Hallazgo actualizado
+   * @throws {FindingNotFoundException} Si el hallazgo no existe
+   * @throws {InvalidFindingStatusTransitionException} Si la transición no está permitida
+   */
+  @Transactional()
+  async execute(id: string, dto: AcceptFindingDto): Promise<FindingEntity> {
+    const finding = await this.findingValidator.validateAndGetFinding(id)
+    this.findingValidator.validateTransition(finding, FindingStatus.ACCEPTED)
+    finding.accept(dto.response?.trim() || null)
+    return await this.findingsRepository.save(finding)
+  }
+}
@@ -0,0 +1,65 @@
+import { Inject, Injectable } from '@nestjs/common'
+import { Transactional } from '@core/database/transactional.decorator'
+import type { CreateCorrectiveActionNoteDto } from '../../dtos'
+import type { CorrectiveActionNoteEntity } from '../../entities'
+import { CorrectiveActionFactory } from '../../factories'
+import { CorrectiveActionValidator } from '../../validators'
+import {
+  CORRECTIVE_ACTIONS_REPOSITORY,
+  CORRECTIVE_ACTION_NOTES_REPOSITORY,
+} from '../../tokens'
+import type {
+  ICorrectiveActionsRepository,
+  ICorrectiveActionNotesRepository,
+} from '../../repositories'
+
+@Injectable()
+export class AddCorrectiveActionNoteUseCase {
+  constructor(
+    @Inject(CORRECTIVE_ACTIONS_REPOSITORY)
+    private readonly correctiveActionsRepository: ICorrectiveActionsRepository,
+    @Inject(CORRECTIVE_ACTION_NOTES_REPOSITORY)
+    private readonly correctiveActionNotesRepository: ICorrectiveActionNotesRepository,
+    private readonly correctiveActionFactory: CorrectiveActionFactory,
+    private readonly correctiveActionValidator: CorrectiveActionValidator,
+  ) {}
+
+  /**
+   * Registra una nota de avance. Si indica un porcentaje, actualiza el
+   * avance de la acción.
+   *
+   * @param findingId - ID del hallazgo
+   * @param actionId - ID de la acción correctiva
+   * @param dto - Nota y avance opcional
+   * @param authorId - ID del usuario autenticado
+   * @returns Nota creada
+   * @throws {CorrectiveActionNotFoundException} Si la acción no pertenece al hallazgo
+   * @throws {CorrectiveActionNotEditableException} Si está completada o cancelada
+   */
+  @Transactional()
+  async execute(
+    findingId: string,
+    actionId: string,
+    dto: CreateCorrectiveActionNoteDto,
+    authorId: string,
+  ): Promise<CorrectiveActionNoteEntity> {
+    const action = await this.correctiveActionValidator.validateAndGetAction(
+      findingId,
+      actionId,
+    )
+    this.correctiveActionValidator.validateCanEdit(action)
+
+    if (dto.progress !== undefined && dto.progress !== action.progress) {
+      await this.correctiveActionsRepository.patch(action, {
+        progress: dto.progress,
+      })
+    }
+
+    const note = this.correctiveActionFactory.createNote(
+      action.id,
+      dto,
+      authorId,
+    )
+    return await this.correctiveActionNotesRepository.save(note)
+  }
+}
@@ -0,0 +1,42 @@
+import { Inject, Injectable } from '@nestjs/common'
+import { Transactional } from '@core/database/transactional.decorator'
+import type { ChangeCorrectiveActionStatusDto } from '../../dtos'
+import type { CorrectiveActionEntity } from '../../entities'
+import { CorrectiveActionValidator } from '../../validators'
+import { CORRECTIVE_ACTIONS_REPOSITORY } from '../../tokens'
+import type { ICorrectiveActionsRepository } from '../../repositories'
+
+@Injectable()
+export class ChangeCorrectiveActionStatusUseCase {
+  constructor(
+    @Inject(CORRECTIVE_ACTIONS_REPOSITORY)
+    private readonly correctiveActionsRepository: ICorrectiveActionsRepository,
+    private readonly correctiveActionValidator: CorrectiveActionValidator,
+  ) {}
+
+  /**
+   * Cambia el estado de una acción (completarla fija el avance en 100%)
+   *
+   * @param findingId - ID del hallazgo
+   * @param actionId - ID de la acción correctiva
+   * @param dto - Nuevo estado
+   * @returns Acción actualizada
+   * @throws {CorrectiveActionNotFoundException} Si la acción no pertenece al hallazgo
+   * @throws {InvalidCorrectiveActionStatusTransitionException} Si la transición no está permitida
+   */
+  @Transactional()
+  async execute(
+    findingId: string,
+    actionId: string,
+    dto: ChangeCorrectiveActionStatusDto,
+  ): Promise<CorrectiveActionEntity> {
+    const action = await this.correctiveActionValidator.validateAndGetAction(
+      findingId,
+      actionId,
+    )
+    this.correctiveActionValidator.validateTransition(action, dto.status)
+
+    action.changeStatus(dto.status)
+    return await this.correctiveActionsRepository.save(action)
+  }
+}
@@ -0,0 +1,32 @@
+import { Inject, Injectable } from '@nestjs/common'
+import { Transactional } from '@core/database/transactional.decorator'
+import type { FindingEntity } from '../../entities'
+import { FindingStatus } from '../../constants'
+import { FindingValidator } from '../../validators'
+import { FINDINGS_REPOSITORY } from '../../tokens'
+import type { IFindingsRepository } from '../../repositories'
+
+@Injectable()
+export class CloseFindingUseCase {
+  constructor(
+    @Inject(FINDINGS_REPOSITORY)
+    private readonly findingsRepository: IFindingsRepository,
+    private readonly findingValidator: FindingValidator,
+  ) {}
+
+  /**
+   * Cierra el hallazgo (accepted / disputed → closed)
+   *
+   * @param id - ID del hallazgo
+   * @returns Hallazgo actualizado
+   * @throws {FindingNotFoundException} Si el hallazgo no existe
+   * @throws {InvalidFindingStatusTransitionException} Si la transición no está permitida
+   */
+  @Transactional()
+  async execute(id: string): Promise<FindingEntity> {
+    const finding = await this.findingValidator.validateAndGetFinding(id)
+    this.findingValidator.validateTransition(finding, FindingStatus.CLOSED)
+    finding.close()
+    return await this.findingsRepository.save(finding)
+  }
+}
@@ -0,0 +1,40 @@
+import { Inject, Injectable } from '@nestjs/common'
+import { Transactional } from '@core/database/transactional.decorator'
+import { ReviewValidator } from '../../../reviews/validators'
+import type { FindingEntity } from '../../entities'
+import { FindingStatus } from '../../constants'
+import { FindingValidator } from '../../validators'
+import { FINDINGS_REPOSITORY } from '../../tokens'
+import type { IFindingsRepository } from '../../repositories'
+
+@Injectable()
+export class CommunicateFindingUseCase {
+  constructor(
+    @Inject(FINDINGS_REPOSITORY)
+    private readonly findingsRepository: IFindingsRepository,
+    private readonly findingValidator: FindingValidator,
+    private readonly reviewValidator: ReviewValidator,
+  ) {}
+
+  /**
+   * Comunica el hallazgo a la organización (draft → communicated)
+   *
+   * @param id - ID del hallazgo
+   * @returns Hallazgo actualizado
+   * @throws {FindingNotFoundException} Si el hallazgo no existe
+   * @throws {InvalidFindingStatusTransitionException} Si la transición no está permitida
+   * @throws {ReviewNotApprovedException} Si un revisor no aprobó el hallazgo
+   * @throws {ReviewContentChangedException} Si el hallazgo cambió después de aprobarse
+   */
+  @Transactional()
+  async execute(id: string): Promise<FindingEntity> {
+    const finding = await this.findingValidator.validateAndGetFinding(id)
+    this.findingValidator.validateTransition(
+      finding,
+      FindingStatus.COMMUNICATED,
+    )
+    await this.reviewValidator.validateApproved('finding', finding)
+    finding.communicate()
+    return await this.findingsRepository.save(finding)
+  }
+}
@@ -0,0 +1,53 @@
+import { Inject, Injectable } from '@nestjs/common'
+import { Transactional } from '@core/database/transactional.decorator'
+import type { CreateCorrectiveActionDto } from '../../dtos'
+import type { CorrectiveActionEntity } from '../../entities'
+import { CorrectiveActionFactory } from '../../factories'
+import { FindingValidator, CorrectiveActionValidator } from '../../validators'
+import { CorrectiveActionOverdueService } from '../../services'
+import { CORRECTIVE_ACTIONS_REPOSITORY } from '../../tokens'
+import type { ICorrectiveActionsRepository } from '../../repositories'
+
+@Injectable()
+export class CreateCorrectiveActionUseCase {
+  constructor(
+    @Inject(CORRECTIVE_ACTIONS_REPOSITORY)
+    private readonly correctiveActionsRepository: ICorrectiveActionsRepository,
+    private readonly correctiveActionFactory: CorrectiveActionFactory,
+    private readonly findingValidator: FindingValidator,
+    private readonly correctiveActionValidator: CorrectiveActionValidator,
+    private readonly overdueService: CorrectiveActionOverdueService,
+  ) {}
+
+  /**
+   * Propone una acción correctiva para un hallazgo aceptado
+   *
+   * @param findingId - ID del hallazgo
+   * @param dto - Descripción, responsable y fecha límite
+   * @returns Acción creada (estado OPEN)
+   * @throws {FindingNotFoundException} Si el hallazgo no existe
+   * @throws {CorrectiveActionsNotAllowedException} Si el hallazgo no está aceptado
+   * @throws {UserNotFoundException} Si el responsable no existe
+   * @throws {InvalidCorrectiveActionOwnerException} Si el responsable no es un usuario activo de la organización
+   * @throws {InvalidCorrectiveActionDueDateException} Si la fecha límite ya pasó
+   */
+  @Transactional()
+  async execute(
+    findingId: string,
+    dto: CreateCorrectiveActionDto,
+  ): Promise<CorrectiveActionEntity> {
+    const finding = await this.findingValidator.validateAndGetFinding(findingId)
+    this.correctiveActionValidator.validateFindingAcceptsActions(finding)
+    await this.correctiveActionValidator.validateOwner(
+      dto.ownerId,
+      finding.organizationId,
+    )
+    this.correctiveActionValidator.validateDueDate(
+      dto.dueDate,
+      this.overdueService.today(new Date()),
+    )
+
+    const action = this.correctiveActionFactory.createFromDto(finding, dto)
+    return await this.correctiveActionsRepository.save(action)
+  }
+}
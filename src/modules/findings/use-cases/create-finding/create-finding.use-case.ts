@@ -0,0 +1,40 @@
+import { Inject, Injectable } from '@nestjs/common'
+import { Transactional } from '@core/database/transactional.decorator'
+import type { CreateFindingDto } from '../../dtos'
+import type { FindingEntity } from '../../entities'
+import { FindingFactory } from '../../factories'
+import { FindingValidator } from '../../validators'
+import { FINDINGS_REPOSITORY } from '../../tokens'
+import type { IFindingsRepository } from '../../repositories'
+
+@Injectable()
+export class CreateFindingUseCase {
+  constructor(
+    @Inject(FINDINGS_REPOSITORY)
+    private readonly findingsRepository: IFindingsRepository,
+    private readonly findingFactory: FindingFactory,
+    private readonly findingValidator: FindingValidator,
+  ) {}
+
+  /**
+   * Registra un hallazgo en borrador
+   *
+   * @param dto - Datos del hallazgo
+   * @param reportedById - ID del auditor autenticado
+   * @returns Hallazgo creado (estado DRAFT)
+   * @throws {OrganizationNotFoundException} Si la organización no existe
+   * @throws {OrganizationNotActiveException} Si la organización está inactiva
+   * @throws {StandardNotFoundException} Si el standard no existe
+   */
+  @Transactional()
+  async execute(
+    dto: CreateFindingDto,
+    reportedById: string,
+  ): Promise<FindingEntity> {
+    await this.findingValidator.validateOrganization(dto.organizationId)
+    await this.findingValidator.validateStandard(dto.standardId)
+
+    const finding = this.findingFactory.createFromDto(dto, reportedById)
+    return await this.findingsRepository.save(finding)
+  }
+}
@@ -0,0 +1,31 @@
+import { Inject, Injectable } from '@nestjs/common'
+import { Transactional } from '@core/database/transactional.decorator'
+import { FindingValidator } from '../../validators'
+import { FINDINGS_REPOSITORY } from '../../tokens'
+import type { IFindingsRepository } from '../../repositories'
+
+/**
+ * Delete Finding Use Case
+ *
+ * Elimina (soft delete) un hallazgo que aún no fue comunicado
+ */
+@Injectable()
+export class DeleteFindingUseCase {
+  constructor(
+    @Inject(FINDINGS_REPOSITORY)
+    private readonly findingsRepository: IFindingsRepository,
+    private readonly findingValidator: FindingValidator,
+  ) {}
+
+  /**
+   * @param id - ID del hallazgo
+   * @throws {FindingNotFoundException} Si el hallazgo no existe
+   * @throws {FindingNotEditableException} Si ya fue comunicado
+   */
+  @Transactional()
+  async execute(id: string): Promise<void> {
+    const finding = await this.findingValidator.validateAndGetFinding(id)
+    this.findingValidator.validateCanEdit(finding)
+    await this.findingsRepository.softDelete(id)
+  }
+}
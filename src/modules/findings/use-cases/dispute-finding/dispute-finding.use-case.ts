@@ -0,0 +1,34 @@
+import { Inject, Injectable } from '@nestjs/common'
+import { Transactional } from '@core/database/transactional.decorator'
+import type { DisputeFindingDto } from '../../dtos'
+import type { FindingEntity } from '../../entities'
+import { FindingStatus } from '../../constants'
+import { FindingValidator } from '../../validators'
+import { FINDINGS_REPOSITORY } from '../../tokens'
+import type { IFindingsRepository } from '../../repositories'
+
+@Injectable()
+export class DisputeFindingUseCase {
+  constructor(
+    @Inject(FINDINGS_REPOSITORY)
+    private readonly findingsRepository: IFindingsRepository,
+    private readonly findingValidator: FindingValidator,
+  ) {}
+
+  /**
+   * La organización disputa el hallazgo (communicated → disputed)
+   *
+   * @param id - ID del hallazgo
+   * @param dto - Motivo de la disputa
+   * @returns Hallazgo actualizado
+   * @throws {FindingNotFoundException} Si el hallazgo no existe
+   * @throws {InvalidFindingStatusTransitionException} Si la transición no está permitida
+   */
+  @Transactional()
+  async execute(id: string, dto: DisputeFindingDto): Promise<FindingEntity> {
+    const finding = await this.findingValidator.validateAndGetFinding(id)
+    this.findingValidator.validateTransition(finding, FindingStatus.DISPUTED)
+    finding.dispute(dto.reason.trim())
+    return await this.findingsRepository.save(finding)
+  }
+}
@@ -0,0 +1,26 @@
+import { Injectable } from '@nestjs/common'
+import type { CorrectiveActionEntity } from '../../entities'
+import { CorrectiveActionValidator } from '../../validators'
+
+@Injectable()
+export class FindCorrectiveActionUseCase {
+  constructor(
+    private readonly correctiveActionValidator: CorrectiveActionValidator,
+  ) {}
+
+  /**
+   * @param findingId - ID del hallazgo
+   * @param actionId - ID de la acción correctiva
+   * @returns Acción con su responsable y notas de avance
+   * @throws {CorrectiveActionNotFoundException} Si la acción no pertenece al hallazgo
+   */
+  async execute(
+    findingId: string,
+    actionId: string,
+  ): Promise<CorrectiveActionEntity> {
+    return await this.correctiveActionValidator.validateAndGetAction(
+      findingId,
+      actionId,
+    )
+  }
+}
@@ -0,0 +1,24 @@
+import { Inject, Injectable } from '@nestjs/common'
+import type { CorrectiveActionEntity } from '../../entities'
+import { FindingValidator } from '../../validators'
+import { CORRECTIVE_ACTIONS_REPOSITORY } from '../../tokens'
+import type { ICorrectiveActionsRepository } from '../../repositories'
+
+@Injectable()
+export class FindCorrectiveActionsUseCase {
+  constructor(
+    @Inject(CORRECTIVE_ACTIONS_REPOSITORY)
+    private readonly correctiveActionsRepository: ICorrectiveActionsRepository,
+    private readonly findingValidator: FindingValidator,
+  ) {}
+
+  /**
+   * @param findingId - ID del hallazgo
+   * @returns Plan de acción del hallazgo (por fecha límite)
+   * @throws {FindingNotFoundException} Si el hallazgo no existe
+   */
+  async execute(findingId: string): Promise<CorrectiveActionEntity[]> {
+    await this.findingValidator.validateAndGetFinding(findingId)
+    return await this.correctiveActionsRepository.findByFinding(findingId)
+  }
+}
@@ -0,0 +1,28 @@
+import { Inject, Injectable } from '@nestjs/common'
+import type { FindingEntity } from '../../entities'
+import { FindingNotFoundException } from '../../exceptions'
+import { FINDINGS_REPOSITORY } from '../../tokens'
+import type { IFindingsRepository } from '../../repositories'
+
+@Injectable()
+export class FindFindingUseCase {
+  constructor(
+    @Inject(FINDINGS_REPOSITORY)
+    private readonly findingsRepository: IFindingsRepository,
+  ) {}
+
+  /**
+   * @param id - ID del hallazgo
+   * @returns Hallazgo con organización, standard y auditor
+   * @throws {FindingNotFoundException} Si el hallazgo no existe
+   */
+  async execute(id: string): Promise<FindingEntity> {
+    const finding = await this.findingsRepository.findOneWithRelations(id)
+
+    if (!finding) {
+      throw new FindingNotFoundException(id)
+    }
+
+    return finding
+  }
+}
@@ -0,0 +1,36 @@
+import { Inject, Injectable } from '@nestjs/common'
+import type { FindingEntity } from '../../entities'
+import { FINDINGS_REPOSITORY } from '../../tokens'
+import type { IFindingsRepository } from '../../repositories'
+import { FindFindingsDto } from '../../dtos'
+import { PaginatedResponse, PaginatedResponseBuilder } from '@core/dtos'
+
+/**
+ * Find Findings Use Case
+ *
+ * Lista los hallazgos con filtros por organización, standard, tipo, riesgo y estado
+ */
+@Injectable()
+export class FindFindingsUseCase {
+  constructor(
+    @Inject(FINDINGS_REPOSITORY)
+    private readonly findingsRepository: IFindingsRepository,
+  ) {}
+
+  async execute(
+    dto: FindFindingsDto,
+  ): Promise<PaginatedResponse<FindingEntity>> {
+    const { data, total } = await this.findingsRepository.paginateFindings(dto)
+
+    if (dto.all) {
+      return PaginatedResponseBuilder.createAll(data)
+    }
+
+    return PaginatedResponseBuilder.create(
+      data,
+      total,
+      dto.page || 1,
+      dto.limit || 10,
+    )
+  }
+}
@@ -0,0 +1,15 @@
+export * from './create-finding/create-finding.use-case'
+export * from './update-finding/update-finding.use-case'
+export * from './find-findings/find-findings.use-case'
+export * from './find-finding/find-finding.use-case'
+export * from './communicate-finding/communicate-finding.use-case'
+export * from './accept-finding/accept-finding.use-case'
+export * from './dispute-finding/dispute-finding.use-case'
+export * from './close-finding/close-finding.use-case'
+export * from './delete-finding/delete-finding.use-case'
+export * from './find-corrective-actions/find-corrective-actions.use-case'
+export * from './find-corrective-action/find-corrective-action.use-case'
+export * from './create-corrective-action/create-corrective-action.use-case'
+export * from './update-corrective-action/update-corrective-action.use-case'
+export * from './change-corrective-action-status/change-corrective-action-status.use-case'
+export * from './add-corrective-action-note/add-corrective-action-note.use-case'
@@ -0,0 +1,63 @@
+import { Inject, Injectable } from '@nestjs/common'
+import { Transactional } from '@core/database/transactional.decorator'
+import type { UpdateCorrectiveActionDto } from '../../dtos'
+import type { CorrectiveActionEntity } from '../../entities'
+import { CorrectiveActionFactory } from '../../factories'
+import { CorrectiveActionValidator } from '../../validators'
+import { CorrectiveActionOverdueService } from '../../services'
+import { CORRECTIVE_ACTIONS_REPOSITORY } from '../../tokens'
+import type { ICorrectiveActionsRepository } from '../../repositories'
+
+@Injectable()
+export class UpdateCorrectiveActionUseCase {
+  constructor(
+    @Inject(CORRECTIVE_ACTIONS_REPOSITORY)
+    private readonly correctiveActionsRepository: ICorrectiveActionsRepository,
+    private readonly correctiveActionFactory: CorrectiveActionFactory,
+    private readonly correctiveActionValidator: CorrectiveActionValidator,
+    private readonly overdueService: CorrectiveActionOverdueService,
+  ) {}
+
+  /**
+   * Actualiza descripción, responsable o fecha límite de una acción pendiente.
+   * Reprogramar la fecha reinicia los recordatorios y el escalamiento.
+   *
+   * @param findingId - ID del hallazgo
+   * @param actionId - ID de la acción correctiva
+   * @param dto - Datos a actualizar
+   * @returns Acción actualizada
+   * @throws {CorrectiveActionNotFoundException} Si la acción no pertenece al hallazgo
+   * @throws {CorrectiveActionNotEditableException} Si está completada o cancelada
+   * @throws {InvalidCorrectiveActionOwnerException} Si el nuevo responsable no es válido
+   * @throws {InvalidCorrectiveActionDueDateException} Si la nueva fecha ya pasó
+   */
+  @Transactional()
+  async execute(
+    findingId: string,
+    actionId: string,
+    dto: UpdateCorrectiveActionDto,
+  ): Promise<CorrectiveActionEntity> {
+    const action = await this.correctiveActionValidator.validateAndGetAction(
+      findingId,
+      actionId,
+    )
+    this.correctiveActionValidator.validateCanEdit(action)
+
+    if (dto.ownerId && dto.ownerId !== action.ownerId) {
+      await this.correctiveActionValidator.validateOwner(
+        dto.ownerId,
+        action.organizationId,
+      )
+    }
+
+    if (dto.dueDate) {
+      this.correctiveActionValidator.validateDueDate(
+        dto.dueDate,
+        this.overdueService.today(new Date()),
+      )
+    }
+
+    const updated = this.correctiveActionFactory.updateFromDto(action, dto)
+    return await this.correctiveActionsRepository.save(updated)
+  }
+}
@@ -0,0 +1,41 @@
+import { Inject, Injectable } from '@nestjs/common'
+import { Transactional } from '@core/database/transactional.decorator'
+import type { UpdateFindingDto } from '../../dtos'
+import type { FindingEntity } from '../../entities'
+import { FindingFactory } from '../../factories'
+import { FindingValidator } from '../../validators'
+import { FINDINGS_REPOSITORY } from '../../tokens'
+import type { IFindingsRepository } from '../../repositories'
+
+@Injectable()
+export class UpdateFindingUseCase {
+  constructor(
+    @Inject(FINDINGS_REPOSITORY)
+    private readonly findingsRepository: IFindingsRepository,
+    private readonly findingFactory: FindingFactory,
+    private readonly findingValidator: FindingValidator,
+  ) {}
+
+  /**
+   * Actualiza un hallazgo en borrador
+   *
+   * @param id - ID del hallazgo
+   * @param dto - Datos a actualizar
+   * @returns Hallazgo actualizado
+   * @throws {FindingNotFoundException} Si el hallazgo no existe
+   * @throws {FindingNotEditableException} Si ya fue comunicado
+   * @throws {StandardNotFoundException} Si el nuevo standard no existe
+   */
+  @Transactional()
+  async execute(id: string, dto: UpdateFindingDto): Promise<FindingEntity> {
+    const finding = await this.findingValidator.validateAndGetFinding(id)
+    this.findingValidator.validateCanEdit(finding)
+
+    if (dto.standardId && dto.standardId !== finding.standardId) {
+      await this.findingValidator.validateStandard(dto.standardId)
+    }
+
+    const updated = this.findingFactory.updateFromDto(finding, dto)
+    return await this.findingsRepository.save(updated)
+  }
+}
@@ -0,0 +1,171 @@
+/* eslint-disable @typescript-eslint/unbound-method */
+import { Test, TestingModule } from '@nestjs/testing'
+import { CorrectiveActionValidator } from './corrective-action.validator'
+import { CORRECTIVE_ACTIONS_REPOSITORY } from '../tokens'
+import type { ICorrectiveActionsRepository } from '../repositories'
+import { CorrectiveActionEntity, FindingEntity } from '../entities'
+import { CorrectiveActionStatus, FindingStatus } from '../constants'
+import {
+  CorrectiveActionNotFoundException,
+  CorrectiveActionsNotAllowedException,
+  InvalidCorrectiveActionOwnerException,
+  InvalidCorrectiveActionDueDateException,
+  CorrectiveActionNotEditableException,
+  InvalidCorrectiveActionStatusTransitionException,
+} from '../exceptions'
+import { createMock } from '@core/testing'
+import { USERS_REPOSITORY } from '../../users/tokens'
+import type { IUsersRepository } from '../../users/repositories'
+import { UserEntity } from '../../users/entities/user.entity'
+import { UserNotFoundException } from '../../users/exceptions'
+
+describe('CorrectiveActionValidator', () => {
+  let validator: CorrectiveActionValidator
+  let correctiveActionsRepository: jest.Mocked<ICorrectiveActionsRepository>
+  let usersRepository: jest.Mocked<IUsersRepository>
+
+  const buildAction = (status: CorrectiveActionStatus) =>
+    Object.assign(new CorrectiveActionEntity(), {
+      id: 'action-1',
+      findingId: 'finding-1',
+      status,
+    })
+
+  const buildOwner = (overrides: Partial<UserEntity> = {}) =>
+    Object.assign(new UserEntity(), {
+      id: 'user-1',
+      username: 'jperez',
+      organizationId: 'org-1',
+      isActive: true,
+      ...overrides,
+    })
+
+  beforeEach(async () => {
+    correctiveActionsRepository = createMock<ICorrectiveActionsRepository>({
+      findOneInFinding: jest.fn(),
+    })
+    usersRepository = createMock<IUsersRepository>({
+      findById: jest.fn(),
+    })
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CorrectiveActionValidator,
+        {
+          provide: CORRECTIVE_ACTIONS_REPOSITORY,
+          useValue: correctiveActionsRepository,
+        },
+        { provide: USERS_REPOSITORY, useValue: usersRepository },
+      ],
+    }).compile()
+
+    validator = module.get<CorrectiveActionValidator>(CorrectiveActionValidator)
+  })
+
+  afterEach(() => {
+    jest.clearAllMocks()
+  })
+
+  describe('validateAndGetAction', () => {
+    it('should throw when the action belongs to another finding', async () => {
+      correctiveActionsRepository.findOneInFinding.mockResolvedValue(null)
+
+      await expect(
+        validator.validateAndGetAction('finding-1', 'action-1'),
+      ).rejects.toThrow(CorrectiveActionNotFoundException)
+    })
+  })
+
+  describe('validateFindingAcceptsActions', () => {
+    it.each([
+      FindingStatus.DRAFT,
+      FindingStatus.COMMUNICATED,
+      FindingStatus.DISPUTED,
+      FindingStatus.CLOSED,
+    ])('should reject a %s finding', (status) => {
+      const finding = Object.assign(new FindingEntity(), {
+        title: 'Cuentas de cesados activas',
+        status,
+      })
+
+      expect(() => validator.validateFindingAcceptsActions(finding)).toThrow(
+        CorrectiveActionsNotAllowedException,
+      )
+    })
+  })
+
+  describe('validateOwner', () => {
+    it('should accept an active user of the organization', async () => {
+      usersRepository.findById.mockResolvedValue(buildOwner())
+
+      await expect(
+        validator.validateOwner('user-1', 'org-1'),
+      ).resolves.toBeUndefined()
+    })
+
+    it('should throw when the user does not exist', async () => {
+      usersRepository.findById.mockResolvedValue(null)
+
+      await expect(validator.validateOwner('user-1', 'org-1')).rejects.toThrow(
+        UserNotFoundException,
+      )
+    })
+
+    it.each([
+      ['another organization', { organizationId: 'org-2' }],
+      ['an inactive user', { isActive: false }],
+    ])('should reject %s', async (_case, overrides) => {
+      usersRepository.findById.mockResolvedValue(buildOwner(overrides))
+
+      await expect(validator.validateOwner('user-1', 'org-1')).rejects.toThrow(
+        InvalidCorrectiveActionOwnerException,
+      )
+    })
+  })
+
+  describe('validateDueDate', () => {
+    it('should accept today or a later date', () => {
+      expect(() =>
+        validator.validateDueDate('2026-05-10', '2026-05-10'),
+      ).not.toThrow()
+    })
+
+    it('should reject a date in the past', () => {
+      expect(() =>
+        validator.validateDueDate('2026-05-09', '2026-05-10'),
+      ).toThrow(InvalidCorrectiveActionDueDateException)
+    })
+  })
+
+  describe('validateCanEdit', () => {
+    it('should reject editing a completed action', () => {
+      expect(() =>
+        validator.validateCanEdit(
+          buildAction(CorrectiveActionStatus.COMPLETED),
+        ),
+      ).toThrow(CorrectiveActionNotEditableException)
+    })
+  })
+
+  describe('validateTransition', () => {
+    it.each([
+      [CorrectiveActionStatus.OPEN, CorrectiveActionStatus.IN_PROGRESS],
+      [CorrectiveActionStatus.IN_PROGRESS, CorrectiveActionStatus.COMPLETED],
+      [CorrectiveActionStatus.OPEN, CorrectiveActionStatus.CANCELLED],
+    ])('should allow %s → %s', (from, to) => {
+      expect(() =>
+        validator.validateTransition(buildAction(from), to),
+      ).not.toThrow()
+    })
+
+    it.each([
+      [CorrectiveActionStatus.IN_PROGRESS, CorrectiveActionStatus.OPEN],
+      [CorrectiveActionStatus.COMPLETED, CorrectiveActionStatus.IN_PROGRESS],
+      [CorrectiveActionStatus.CANCELLED, CorrectiveActionStatus.OPEN],
+    ])('should reject %s → %s', (from, to) => {
+      expect(() => validator.validateTransition(buildAction(from), to)).toThrow(
+        InvalidCorrectiveActionStatusTransitionException,
+      )
+    })
+  })
+})
@@ -0,0 +1,120 @@
+import { Injectable, Inject } from '@nestjs/common'
+import { CorrectiveActionEntity, FindingEntity } from '../entities'
+import { CorrectiveActionStatus, FindingStatus } from '../constants'
+import {
+  CorrectiveActionNotFoundException,
+  CorrectiveActionsNotAllowedException,
+  InvalidCorrectiveActionOwnerException,
+  InvalidCorrectiveActionDueDateException,
+  CorrectiveActionNotEditableException,
+  InvalidCorrectiveActionStatusTransitionException,
+} from '../exceptions'
+import { CORRECTIVE_ACTIONS_REPOSITORY } from '../tokens'
+import type { ICorrectiveActionsRepository } from '../repositories'
+import { UserNotFoundException } from '../../users/exceptions'
+import { USERS_REPOSITORY } from '../../users/tokens'
+import type { IUsersRepository } from '../../users/repositories'
+
+@Injectable()
+export class CorrectiveActionValidator {
+  constructor(
+    @Inject(CORRECTIVE_ACTIONS_REPOSITORY)
+    private readonly correctiveActionsRepository: ICorrectiveActionsRepository,
+    @Inject(USERS_REPOSITORY)
+    private readonly usersRepository: IUsersRepository,
+  ) {}
+
+  /**
+   * Valida que la acción existe en el hallazgo y la retorna (con notas)
+   *
+   * @throws {CorrectiveActionNotFoundException} Si la acción no pertenece al hallazgo
+   */
+  async validateAndGetAction(
+    findingId: string,
+    actionId: string,
+  ): Promise<CorrectiveActionEntity> {
+    const action = await this.correctiveActionsRepository.findOneInFinding(
+      findingId,
+      actionId,
+    )
+
+    if (!action) {
+      throw new CorrectiveActionNotFoundException(actionId, findingId)
+    }
+
+    return action
+  }
+
+  /**
+   * Valida que el hallazgo admite acciones correctivas (aceptado)
+   *
+   * @throws {CorrectiveActionsNotAllowedException} Si el hallazgo no está aceptado
+   */
+  validateFindingAcceptsActions(finding: FindingEntity): void {
+    if (finding.status !== FindingStatus.ACCEPTED) {
+      throw new CorrectiveActionsNotAllowedException(
+        finding.title,
+        finding.status,
+      )
+    }
+  }
+
+  /**
+   * Valida que el responsable es un usuario activo de la organización
+   *
+   * @throws {UserNotFoundException} Si el usuario no existe
+   * @throws {InvalidCorrectiveActionOwnerException} Si es de otra organización o está inactivo
+   */
+  async validateOwner(ownerId: string, organizationId: string): Promise<void> {
+    const owner = await this.usersRepository.findById(ownerId)
+
+    if (!owner) {
+      throw new UserNotFoundException(ownerId)
+    }
+
+    if (!owner.isActive || owner.organizationId !== organizationId) {
+      throw new InvalidCorrectiveActionOwnerException(owner.username)
+    }
+  }
+
+  /**
+   * Valida que la fecha límite no sea anterior a hoy
+   *
+   * @param dueDate - Fecha límite (YYYY-MM-DD)
+   * @param today - Fecha actual (YYYY-MM-DD)
+   * @throws {InvalidCorrectiveActionDueDateException} Si la fecha ya pasó
+   */
+  validateDueDate(dueDate: string, today: string): void {
+    if (dueDate.slice(0, 10) < today) {
+      throw new InvalidCorrectiveActionDueDateException(dueDate)
+    }
+  }
+
+  /**
+   * Valida que la acción sigue pendiente (abierta o en progreso)
+   *
+   * @throws {CorrectiveActionNotEditableException} Si está completada o cancelada
+   */
+  validateCanEdit(action: CorrectiveActionEntity): void {
+    if (!action.isPending) {
+      throw new CorrectiveActionNotEditableException(action.status)
+    }
+  }
+
+  /**
+   * Valida que la acción puede pasar al estado indicado
+   *
+   * @throws {InvalidCorrectiveActionStatusTransitionException} Si la transición no está permitida
+   */
+  validateTransition(
+    action: CorrectiveActionEntity,
+    status: CorrectiveActionStatus,
+  ): void {
+    if (!action.canTransitionTo(status)) {
+      throw new InvalidCorrectiveActionStatusTransitionException(
+        action.status,
+        status,
+      )
+    }
+  }
+}
@@ -0,0 +1,136 @@
+/* eslint-disable @typescript-eslint/unbound-method */
+import { Test, TestingModule } from '@nestjs/testing'
+import { FindingValidator } from './finding.validator'
+import { FINDINGS_REPOSITORY } from '../tokens'
+import type { IFindingsRepository } from '../repositories'
+import { FindingEntity } from '../entities'
+import { FindingStatus } from '../constants'
+import {
+  FindingNotFoundException,
+  FindingNotEditableException,
+  InvalidFindingStatusTransitionException,
+} from '../exceptions'
+import { createMock } from '@core/testing'
+import { ORGANIZATION_REPOSITORY } from '../../organizations/tokens'
+import type { IOrganizationRepository } from '../../organizations/repositories'
+import { OrganizationEntity } from '../../organizations/entities/organization.entity'
+import { OrganizationNotActiveException } from '../../audits/exceptions'
+import { STANDARDS_REPOSITORY } from '../../audit-library/standards/tokens'
+import type { IStandardsRepository } from '../../audit-library/standards/repositories'
+import { StandardNotFoundException } from '../../audit-library/standards/exceptions'
+
+describe('FindingValidator', () => {
+  let validator: FindingValidator
+  let findingsRepository: jest.Mocked<IFindingsRepository>
+  let organizationRepository: jest.Mocked<IOrganizationRepository>
+  let standardsRepository: jest.Mocked<IStandardsRepository>
+
+  const buildFinding = (status: FindingStatus) =>
+    Object.assign(new FindingEntity(), {
+      id: 'finding-1',
+      title: 'Cuentas de cesados activas',
+      status,
+    })
+
+  beforeEach(async () => {
+    findingsRepository = createMock<IFindingsRepository>({
+      findById: jest.fn(),
+    })
+    organizationRepository = createMock<IOrganizationRepository>({
+      findById: jest.fn(),
+    })
+    standardsRepository = createMock<IStandardsRepository>({
+      findById: jest.fn(),
+    })
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        FindingValidator,
+        { provide: FINDINGS_REPOSITORY, useValue: findingsRepository },
+        { provide: ORGANIZATION_REPOSITORY, useValue: organizationRepository },
+        { provide: STANDARDS_REPOSITORY, useValue: standardsRepository },
+      ],
+    }).compile()
+
+    validator = module.get<FindingValidator>(FindingValidator)
+  })
+
+  afterEach(() => {
+    jest.clearAllMocks()
+  })
+
+  describe('validateAndGetFinding', () => {
+    it('should throw when the finding is not visible to the organization', async () => {
+      findingsRepository.findById.mockResolvedValue(null)
+
+      await expect(
+        validator.validateAndGetFinding('finding-1'),
+      ).rejects.toThrow(FindingNotFoundException)
+    })
+  })
+
+  describe('validateOrganization', () => {
+    it('should reject an inactive organization', async () => {
+      organizationRepository.findById.mockResolvedValue(
+        Object.assign(new OrganizationEntity(), {
+          id: 'org-1',
+          name: 'Banco Unión',
+          isActive: false,
+        }),
+      )
+
+      await expect(validator.validateOrganization('org-1')).rejects.toThrow(
+        OrganizationNotActiveException,
+      )
+    })
+  })
+
+  describe('validateStandard', () => {
+    it('should throw when the standard does not exist', async () => {
+      standardsRepository.findById.mockResolvedValue(null)
+
+      await expect(validator.validateStandard('std-1')).rejects.toThrow(
+        StandardNotFoundException,
+      )
+    })
+  })
+
+  describe('validateCanEdit', () => {
+    it('should allow editing a draft', () => {
+      expect(() =>
+        validator.validateCanEdit(buildFinding(FindingStatus.DRAFT)),
+      ).not.toThrow()
+    })
+
+    it('should reject editing once communicated', () => {
+      expect(() =>
+        validator.validateCanEdit(buildFinding(FindingStatus.COMMUNICATED)),
+      ).toThrow(FindingNotEditableException)
+    })
+  })
+
+  describe('validateTransition', () => {
+    it.each([
+      [FindingStatus.DRAFT, FindingStatus.COMMUNICATED],
+      [FindingStatus.COMMUNICATED, FindingStatus.ACCEPTED],
+      [FindingStatus.COMMUNICATED, FindingStatus.DISPUTED],
+      [FindingStatus.ACCEPTED, FindingStatus.CLOSED],
+      [FindingStatus.DISPUTED, FindingStatus.CLOSED],
+    ])('should allow %s → %s', (from, to) => {
+      expect(() =>
+        validator.validateTransition(buildFinding(from), to),
+      ).not.toThrow()
+    })
+
+    it.each([
+      [FindingStatus.DRAFT, FindingStatus.ACCEPTED],
+      [FindingStatus.DRAFT, FindingStatus.CLOSED],
+      [FindingStatus.ACCEPTED, FindingStatus.DISPUTED],
+      [FindingStatus.CLOSED, FindingStatus.COMMUNICATED],
+    ])('should reject %s → %s', (from, to) => {
+      expect(() =>
+        validator.validateTransition(buildFinding(from), to),
+      ).toThrow(InvalidFindingStatusTransitionException)
+    })
+  })
+})
@@ -0,0 +1,100 @@
+import { Injectable, Inject } from '@nestjs/common'
+import { FindingEntity } from '../entities'
+import { FindingStatus } from '../constants'
+import {
+  FindingNotFoundException,
+  FindingNotEditableException,
+  InvalidFindingStatusTransitionException,
+} from '../exceptions'
+import { FINDINGS_REPOSITORY } from '../tokens'
+import type { IFindingsRepository } from '../repositories'
+import { OrganizationNotFoundException } from '../../organizations/exceptions'
+import { ORGANIZATION_REPOSITORY } from '../../organizations/tokens'
+import type { IOrganizationRepository } from '../../organizations/repositories'
+import { OrganizationNotActiveException } from '../../audits/exceptions'
+import { StandardNotFoundException } from '../../audit-library/standards/exceptions'
+import { STANDARDS_REPOSITORY } from '../../audit-library/standards/tokens'
+import type { IStandardsRepository } from '../../audit-library/standards/repositories'
+
+@Injectable()
+export class FindingValidator {
+  constructor(
+    @Inject(FINDINGS_REPOSITORY)
+    private readonly findingsRepository: IFindingsRepository,
+    @Inject(ORGANIZATION_REPOSITORY)
+    private readonly organizationRepository: IOrganizationRepository,
+    @Inject(STANDARDS_REPOSITORY)
+    private readonly standardsRepository: IStandardsRepository,
+  ) {}
+
+  /**
+   * Valida que un hallazgo existe (en la organización actual) y lo retorna
+   *
+   * @param findingId - ID del hallazgo
+   * @returns Hallazgo encontrado
+   * @throws {FindingNotFoundException} Si el hallazgo no existe
+   */
+  async validateAndGetFinding(findingId: string): Promise<FindingEntity> {
+    const finding = await this.findingsRepository.findById(findingId)
+
+    if (!finding) {
+      throw new FindingNotFoundException(findingId)
+    }
+
+    return finding
+  }
+
+  /**
+   * Valida que la organización existe y está activa
+   *
+   * @throws {OrganizationNotFoundException} Si la organización no existe
+   * @throws {OrganizationNotActiveException} Si la organización está inactiva
+   */
+  async validateOrganization(organizationId: string): Promise<void> {
+    const organization =
+      await this.organizationRepository.findById(organizationId)
+
+    if (!organization) {
+      throw new OrganizationNotFoundException(organizationId)
+    }
+
+    if (!organization.isActive) {
+      throw new OrganizationNotActiveException(organization.name)
+    }
+  }
+
+  /**
+   * Valida que el standard existe
+   *
+   * @throws {StandardNotFoundException} Si el standard no existe
+   */
+  async validateStandard(standardId: string): Promise<void> {
+    const standard = await this.standardsRepository.findById(standardId)
+
+    if (!standard) {
+      throw new StandardNotFoundException(standardId)
+    }
+  }
+
+  /**
+   * Valida que el hallazgo admite cambios (borrador)
+   *
+   * @throws {FindingNotEditableException} Si ya fue comunicado
+   */
+  validateCanEdit(finding: FindingEntity): void {
+    if (!finding.isEditable) {
+      throw new FindingNotEditableException(finding.title, finding.status)
+    }
+  }
+
+  /**
+   * Valida que el hallazgo puede pasar al estado indicado
+   *
+   * @throws {InvalidFindingStatusTransitionException} Si la transición no está permitida
+   */
+  validateTransition(finding: FindingEntity, status: FindingStatus): void {
+    if (!finding.canTransitionTo(status)) {
+      throw new InvalidFindingStatusTransitionException(finding.status, status)
+    }
+  }
+}
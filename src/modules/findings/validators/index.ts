@@ -0,0 +1,2 @@
+export * from './finding.validator'
+export * from './corrective-action.validator'
@@ -1,5 +1,7 @@
 import { Entity, Column, OneToMany, Index } from 'typeorm'
 import { BaseEntity } from '@core/entities/base.entity'
+import { Auditable } from '@core/database/auditable.decorator'
+import { AuditAction } from '@core/database/audit-action.enum'
 import { MaturityLevelEntity } from '../../levels/entities/maturity-level.entity'
 
 /**
@@ -23,6 +25,11 @@ import { MaturityLevelEntity } from '../../levels/entities/maturity-level.entity
  * }
  * ```
  */
+@Auditable<MaturityFrameworkEntity>({
+  transitions: {
+    isActive: { true: AuditAction.ACTIVATE, false: AuditAction.DEACTIVATE },
+  },
+})
 @Entity('maturity_frameworks')
 @Index(['code'], { unique: true })
 export class MaturityFrameworkEntity extends BaseEntity {
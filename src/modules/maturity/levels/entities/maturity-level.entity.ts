@@ -1,7 +1,11 @@
 import { Entity, Column, ManyToOne, JoinColumn, Index } from 'typeorm'
 import { BaseEntity } from '@core/entities/base.entity'
+import { Auditable } from '@core/database/auditable.decorator'
 import { MaturityFrameworkEntity } from '../../frameworks/entities/maturity-framework.entity'
 
+@Auditable<MaturityLevelEntity>({
+  rootId: (level) => level.frameworkId,
+})
 @Entity('maturity_levels')
 @Index(['frameworkId', 'level'], { unique: true })
 export class MaturityLevelEntity extends BaseEntity {
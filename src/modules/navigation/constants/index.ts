@@ -1 +1,2 @@
-export * from './navigation.config'
+export * from './navigation-schema.constants'
+export * from './navigation-cache.constants'
@@ -0,0 +1,11 @@
+/**
+ * Key de Redis con los items de navegación (lista plana)
+ * Se invalida al crear, editar o eliminar un item
+ */
+export const NAVIGATION_CACHE_KEY = 'navigation:items'
+
+/**
+ * Expiración de la caché en segundos (1 hora), por si se edita la tabla
+ * fuera de la API
+ */
+export const NAVIGATION_CACHE_TTL = 60 * 60
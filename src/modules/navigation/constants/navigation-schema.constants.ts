@@ -0,0 +1,23 @@
+/**
+ * Navigation Item Schema Constraints
+ *
+ * Límites de los campos de un item de navegación (entity, DTOs y Swagger)
+ */
+export const NAVIGATION_ITEM_CONSTRAINTS = {
+  TITLE: {
+    MIN: 2,
+    MAX: 100,
+  },
+  DESCRIPTION: {
+    MAX: 255,
+  },
+  URL: {
+    MAX: 255,
+  },
+  ICON: {
+    MAX: 50,
+  },
+  BADGE: {
+    MAX: 20,
+  },
+} as const
@@ -1 +1,2 @@
 export * from './navigation.controller'
+export * from './navigation-items.controller'
@@ -0,0 +1,104 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  HttpStatus,
+  UseGuards,
+} from '@nestjs/common'
+import { ApiTags, ApiOperation, ApiBearerAuth } from '@nestjs/swagger'
+import {
+  ApiCreate,
+  ApiUpdateWithMessage,
+  ApiRemoveWithMessage,
+  ApiWrappedResponse,
+} from '@core/swagger'
+import { UuidParamDto } from '@core/dtos'
+import { ResponseMessage } from '@core/decorators'
+import { JwtAuthGuard } from '../../auth/core/guards/jwt-auth.guard'
+import { PermissionsGuard } from '../../authorization/guards'
+import { CheckPermissions } from '../../authorization/decorators'
+import { NavigationItemEntity } from '../entities'
+import { CreateNavigationItemDto, UpdateNavigationItemDto } from '../dtos'
+import {
+  FindNavigationItemsUseCase,
+  CreateNavigationItemUseCase,
+  UpdateNavigationItemUseCase,
+  RemoveNavigationItemUseCase,
+} from '../use-cases'
+
+/**
+ * Navigation Items Controller
+ *
+ * Administración de los items del menú de navegación
+ * Cada cambio invalida la caché del menú. Solo ADMIN (políticas del seeder)
+ */
+@ApiTags('navigation')
+@Controller('navigation/items')
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+@ApiBearerAuth()
+export class NavigationItemsController {
+  constructor(
+    private readonly findNavigationItemsUseCase: FindNavigationItemsUseCase,
+    private readonly createNavigationItemUseCase: CreateNavigationItemUseCase,
+    private readonly updateNavigationItemUseCase: UpdateNavigationItemUseCase,
+    private readonly removeNavigationItemUseCase: RemoveNavigationItemUseCase,
+  ) {}
+
+  @Get()
+  @CheckPermissions()
+  @ApiOperation({
+    summary: 'Listar items de navegación',
+    description:
+      'Todos los items como árbol (children), sin filtrar por permisos ni roles',
+  })
+  @ApiWrappedResponse({
+    status: HttpStatus.OK,
+    description: 'Árbol de items de navegación',
+    type: NavigationItemEntity,
+    isArray: true,
+  })
+  async findAll() {
+    return await this.findNavigationItemsUseCase.execute()
+  }
+
+  @Post()
+  @CheckPermissions()
+  @ApiCreate(NavigationItemEntity, {
+    summary: 'Crear un item de navegación',
+    description:
+      'El item se muestra a los roles con permiso read sobre su url (políticas de frontend) y, si se indican roles, solo a esos roles.',
+  })
+  async create(@Body() dto: CreateNavigationItemDto) {
+    return await this.createNavigationItemUseCase.execute(dto)
+  }
+
+  @Patch(':id')
+  @CheckPermissions()
+  @ResponseMessage('Item de navegación actualizado exitosamente')
+  @ApiUpdateWithMessage({
+    summary: 'Actualizar un item de navegación',
+    description:
+      'Edita el item o lo mueve de padre (parentId null = nivel raíz). No puede moverse debajo de sí mismo ni de sus sub-items.',
+  })
+  async update(
+    @Param() { id }: UuidParamDto,
+    @Body() dto: UpdateNavigationItemDto,
+  ) {
+    await this.updateNavigationItemUseCase.execute(id, dto)
+  }
+
+  @Delete(':id')
+  @CheckPermissions()
+  @ResponseMessage('Item de navegación eliminado exitosamente')
+  @ApiRemoveWithMessage({
+    summary: 'Eliminar un item de navegación',
+    description: 'Solo se eliminan items sin sub-items',
+  })
+  async remove(@Param() { id }: UuidParamDto) {
+    await this.removeNavigationItemUseCase.execute(id)
+  }
+}
@@ -1,6 +1,13 @@
-import { Controller, Get, UseGuards, Request } from '@nestjs/common'
-import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger'
+import { Controller, Get, UseGuards } from '@nestjs/common'
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger'
 import { JwtAuthGuard } from '../../auth/core/guards/jwt-auth.guard'
+import { GetUser } from '../../auth/core/decorators'
+import type { JwtPayload } from '../../auth/core/interfaces'
 import { MenuResponseDto } from '../dtos'
 import { GetMenuUseCase } from '../use-cases'
 
@@ -25,8 +32,8 @@ export class NavigationController {
   @ApiOperation({
     summary: 'Obtener menú de navegación completo',
     description:
-      'Retorna la navegación estática (módulos según rol) y dinámica (plantillas disponibles). ' +
-      'El menú se personaliza según los roles del usuario autenticado.',
+      'Retorna la navegación estática (módulos según permisos) y dinámica (plantillas disponibles). ' +
+      'Un módulo se muestra si el rol activo tiene permiso read sobre su ruta en las políticas de frontend (Casbin).',
   })
   @ApiResponse({
     status: 200,
@@ -37,8 +44,7 @@ export class NavigationController {
     status: 401,
     description: 'No autenticado',
   })
-  async getMenu(@Request() req: any): Promise<MenuResponseDto> {
-    const userRoles = req.user.roles || []
-    return await this.getMenuUseCase.execute(userRoles)
+  async getMenu(@GetUser() user: JwtPayload): Promise<MenuResponseDto> {
+    return await this.getMenuUseCase.execute(user.currentRole, user.sub)
   }
 }
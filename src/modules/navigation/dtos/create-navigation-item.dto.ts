@@ -0,0 +1,114 @@
+import {
+  IsString,
+  IsOptional,
+  IsBoolean,
+  IsInt,
+  IsUUID,
+  IsArray,
+  Min,
+  MinLength,
+  MaxLength,
+  Matches,
+} from '@core/i18n'
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger'
+import { NAVIGATION_ITEM_CONSTRAINTS } from '../constants'
+
+export class CreateNavigationItemDto {
+  @ApiProperty({
+    description: 'Título del item del menú',
+    example: 'Usuarios',
+    minLength: NAVIGATION_ITEM_CONSTRAINTS.TITLE.MIN,
+    maxLength: NAVIGATION_ITEM_CONSTRAINTS.TITLE.MAX,
+  })
+  @IsString()
+  @MinLength(NAVIGATION_ITEM_CONSTRAINTS.TITLE.MIN)
+  @MaxLength(NAVIGATION_ITEM_CONSTRAINTS.TITLE.MAX)
+  title: string
+
+  @ApiPropertyOptional({
+    description: 'Descripción del item',
+    example: 'Gestión de usuarios del sistema',
+    maxLength: NAVIGATION_ITEM_CONSTRAINTS.DESCRIPTION.MAX,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(NAVIGATION_ITEM_CONSTRAINTS.DESCRIPTION.MAX)
+  description?: string
+
+  @ApiProperty({
+    description:
+      'Ruta del frontend. El item se muestra si el rol tiene permiso read sobre ella',
+    example: '/admin/users',
+    maxLength: NAVIGATION_ITEM_CONSTRAINTS.URL.MAX,
+  })
+  @IsString()
+  @MaxLength(NAVIGATION_ITEM_CONSTRAINTS.URL.MAX)
+  @Matches(/^\//)
+  url: string
+
+  @ApiPropertyOptional({
+    description: 'Icono del item',
+    example: 'users',
+    maxLength: NAVIGATION_ITEM_CONSTRAINTS.ICON.MAX,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(NAVIGATION_ITEM_CONSTRAINTS.ICON.MAX)
+  icon?: string
+
+  @ApiPropertyOptional({
+    description: 'Badge del item',
+    example: 'Nuevo',
+    maxLength: NAVIGATION_ITEM_CONSTRAINTS.BADGE.MAX,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(NAVIGATION_ITEM_CONSTRAINTS.BADGE.MAX)
+  badge?: string
+
+  @ApiPropertyOptional({
+    description: 'Orden entre los items del mismo nivel',
+    example: 20,
+    default: 0,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  order?: number
+
+  @ApiPropertyOptional({
+    description:
+      'Roles que ven el item (además del permiso read). Vacío = todos los roles con permiso',
+    example: ['admin'],
+    type: [String],
+  })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  roles?: string[]
+
+  @ApiPropertyOptional({
+    description: 'Se muestra deshabilitado',
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  disabled?: boolean
+
+  @ApiPropertyOptional({
+    description: 'Agrega las plantillas publicadas como sub-items',
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  includeTemplates?: boolean
+
+  @ApiPropertyOptional({
+    description: 'ID del item padre (null = nivel raíz)',
+    example: '550e8400-e29b-41d4-a716-446655440000',
+    nullable: true,
+  })
+  @IsOptional()
+  @IsUUID()
+  parentId?: string | null
+}
@@ -1,2 +1,4 @@
 export * from './navigation-item.dto'
 export * from './menu-response.dto'
+export * from './create-navigation-item.dto'
+export * from './update-navigation-item.dto'
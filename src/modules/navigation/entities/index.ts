@@ -0,0 +1 @@
+export * from './navigation-item.entity'
@@ -0,0 +1,94 @@
+import {
+  Entity,
+  Column,
+  ManyToOne,
+  OneToMany,
+  JoinColumn,
+  Index,
+} from 'typeorm'
+import { BaseEntity } from '@core/entities/base.entity'
+import { Auditable } from '@core/database/auditable.decorator'
+import { NAVIGATION_ITEM_CONSTRAINTS } from '../constants/navigation-schema.constants'
+
+/**
+ * Navigation Item Entity
+ *
+ * Item del menú de navegación (sidebar), editable por un administrador
+ * Estructura jerárquica (árbol) mediante parentId
+ *
+ * Visibilidad: el rol activo debe tener permiso read sobre la url en las
+ * políticas de frontend (Casbin) y, si roles no está vacío, alguno de sus
+ * roles efectivos debe estar en la lista
+ */
+@Index(['parentId'])
+@Auditable()
+@Entity('navigation_items')
+export class NavigationItemEntity extends BaseEntity {
+  @Column({ type: 'varchar', length: NAVIGATION_ITEM_CONSTRAINTS.TITLE.MAX })
+  title: string
+
+  @Column({
+    type: 'varchar',
+    length: NAVIGATION_ITEM_CONSTRAINTS.DESCRIPTION.MAX,
+    nullable: true,
+  })
+  description: string | null
+
+  /**
+   * Ruta del frontend (ej: /admin/users)
+   */
+  @Column({ type: 'varchar', length: NAVIGATION_ITEM_CONSTRAINTS.URL.MAX })
+  url: string
+
+  @Column({
+    type: 'varchar',
+    length: NAVIGATION_ITEM_CONSTRAINTS.ICON.MAX,
+    nullable: true,
+  })
+  icon: string | null
+
+  @Column({
+    type: 'varchar',
+    length: NAVIGATION_ITEM_CONSTRAINTS.BADGE.MAX,
+    nullable: true,
+  })
+  badge: string | null
+
+  /**
+   * Orden entre los items del mismo nivel
+   */
+  @Column({ type: 'int', default: 0 })
+  order: number
+
+  /**
+   * Roles que ven el item (además del permiso read). Vacío = todos
+   * Admite roles del sistema y personalizados
+   */
+  @Column({ type: 'varchar', array: true, default: [] })
+  roles: string[]
+
+  /**
+   * Se muestra deshabilitado (visible pero no navegable)
+   */
+  @Column({ type: 'boolean', default: false })
+  disabled: boolean
+
+  /**
+   * Agrega las plantillas publicadas como sub-items
+   */
+  @Column({ type: 'boolean', default: false })
+  includeTemplates: boolean
+
+  @Column({ type: 'uuid', nullable: true })
+  parentId: string | null
+
+  @ManyToOne(() => NavigationItemEntity, (item) => item.children, {
+    nullable: true,
+    onDelete: 'CASCADE',
+  })
+  @JoinColumn({ name: 'parentId' })
+  parent: NavigationItemEntity | null
+
+  @OneToMany(() => NavigationItemEntity, (item) => item.parent)
+  children: NavigationItemEntity[]
+}
@@ -0,0 +1,3 @@
+export * from './navigation-item-not-found.exception'
+export * from './invalid-navigation-parent.exception'
+export * from './navigation-item-has-children.exception'
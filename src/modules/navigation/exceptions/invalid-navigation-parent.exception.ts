@@ -0,0 +1,12 @@
+import { BadRequestException } from '@nestjs/common'
+
+/**
+ * Un item no puede colgar de sí mismo ni de uno de sus descendientes
+ */
+export class InvalidNavigationParentException extends BadRequestException {
+  constructor(title: string) {
+    super(
+      `El item '${title}' no puede moverse debajo de sí mismo ni de uno de sus sub-items`,
+    )
+  }
+}
@@ -0,0 +1,9 @@
+import { ConflictException } from '@nestjs/common'
+
+export class NavigationItemHasChildrenException extends ConflictException {
+  constructor(title: string, count: number) {
+    super(
+      `No se puede eliminar el item '${title}' porque tiene ${count} sub-item(s). Elimínelos o muévalos primero`,
+    )
+  }
+}
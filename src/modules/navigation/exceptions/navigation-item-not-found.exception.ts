@@ -0,0 +1,7 @@
+import { NotFoundException } from '@nestjs/common'
+
+export class NavigationItemNotFoundException extends NotFoundException {
+  constructor(identifier: string) {
+    super(`Item de navegación con ID ${identifier} no encontrado`)
+  }
+}
@@ -2,3 +2,4 @@ export * from './navigation.module'
 export * from './dtos'
 export * from './use-cases'
 export * from './constants'
+export * from './entities'
@@ -0,0 +1,9 @@
+/**
+ * Lo que determina qué items del menú ve un usuario
+ */
+export interface NavigationAccess {
+  /** Roles efectivos (rol activo, heredados y personalizados) */
+  roles: string[]
+  /** Rutas del frontend con permiso read */
+  resources: string[]
+}
@@ -1,10 +1,15 @@
 import { Module } from '@nestjs/common'
 import { TemplatesModule } from '../audit-library/templates/templates.module'
-import { NavigationController } from './controllers'
+import { NavigationController, NavigationItemsController } from './controllers'
+import { NavigationItemValidator } from './validators'
+import { NavigationCacheService, NavigationMenuService } from './services'
 import {
-  GetStaticNavigationUseCase,
   GetDynamicTemplatesUseCase,
   GetMenuUseCase,
+  FindNavigationItemsUseCase,
+  CreateNavigationItemUseCase,
+  UpdateNavigationItemUseCase,
+  RemoveNavigationItemUseCase,
 } from './use-cases'
 
 /**
@@ -13,24 +18,39 @@ import {
  * Módulo para gestionar la navegación del sidebar
  *
  * Características:
- * - Navegación estática según roles (módulos del sistema)
- * - Navegación dinámica (plantillas publicadas)
+ * - Items de navegación en base de datos (árbol con icono, orden, badge y
+ *   visibilidad por rol), administrables en /navigation/items
+ * - Un item se muestra si el rol activo tiene permiso read sobre su url
+ *   en las políticas de frontend (Casbin)
+ * - Navegación dinámica (plantillas publicadas) bajo los items con
+ *   includeTemplates
+ * - Items cacheados en Redis (CacheService), invalidados en cada cambio
  * - Endpoint GET /navigation/menu que retorna todo
  *
- * Separado de permisos (Casbin) para mantener responsabilidades claras:
- * - Navigation: ¿Qué ve en el menú?
- * - Casbin: ¿Qué puede hacer?
+ * Los permisos se resuelven con FindEffectivePermissionsUseCase
+ * (AuthorizationModule es global), el mismo que usa GET /auth/me/permissions
  */
 @Module({
   imports: [
     // Importar TemplatesModule para acceder al repositorio
     TemplatesModule,
   ],
-  controllers: [NavigationController],
+  controllers: [NavigationController, NavigationItemsController],
   providers: [
-    GetStaticNavigationUseCase,
+    // Services
+    NavigationCacheService,
+    NavigationMenuService,
+
+    // Validator
+    NavigationItemValidator,
+
+    // Use Cases
     GetDynamicTemplatesUseCase,
     GetMenuUseCase,
+    FindNavigationItemsUseCase,
+    CreateNavigationItemUseCase,
+    UpdateNavigationItemUseCase,
+    RemoveNavigationItemUseCase,
   ],
   exports: [GetMenuUseCase],
 })
@@ -0,0 +1,2 @@
+export * from './navigation-items-repository.interface'
+export * from './navigation-items.repository'
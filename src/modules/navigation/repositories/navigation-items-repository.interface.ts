@@ -0,0 +1,7 @@
+import type { IBaseRepository } from '@core/repositories'
+import type { NavigationItemEntity } from '../entities'
+
+export interface INavigationItemsRepository extends IBaseRepository<NavigationItemEntity> {
+  findAllOrdered(): Promise<NavigationItemEntity[]>
+  countChildren(parentId: string): Promise<number>
+}
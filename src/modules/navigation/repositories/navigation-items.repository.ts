@@ -0,0 +1,35 @@
+import { Injectable } from '@nestjs/common'
+import { InjectRepository } from '@nestjs/typeorm'
+import { Repository } from 'typeorm'
+import { BaseRepository } from '@core/repositories'
+import { TransactionService, AuditService } from '@core/database'
+import { NavigationItemEntity } from '../entities'
+import type { INavigationItemsRepository } from './navigation-items-repository.interface'
+
+@Injectable()
+export class NavigationItemsRepository
+  extends BaseRepository<NavigationItemEntity>
+  implements INavigationItemsRepository
+{
+  constructor(
+    @InjectRepository(NavigationItemEntity)
+    repository: Repository<NavigationItemEntity>,
+    transactionService: TransactionService,
+    auditService: AuditService,
+  ) {
+    super(repository, transactionService, auditService)
+  }
+
+  /**
+   * Todos los items (lista plana), por orden dentro de cada nivel
+   */
+  async findAllOrdered(): Promise<NavigationItemEntity[]> {
+    return await this.getRepo().find({
+      order: { order: 'ASC', title: 'ASC' },
+    })
+  }
+
+  async countChildren(parentId: string): Promise<number> {
+    return await this.getRepo().count({ where: { parentId } })
+  }
+}
@@ -0,0 +1,2 @@
+export * from './navigation-cache.service'
+export * from './navigation-menu.service'
@@ -0,0 +1,49 @@
+import { Inject, Injectable } from '@nestjs/common'
+import { CacheService } from '@core/cache'
+import type { INavigationItemsRepository } from '../repositories'
+import { NAVIGATION_ITEMS_REPOSITORY } from '../tokens'
+import { NAVIGATION_CACHE_KEY, NAVIGATION_CACHE_TTL } from '../constants'
+import type { NavigationItemEntity } from '../entities'
+
+/**
+ * Navigation Cache Service
+ *
+ * Guarda en Redis la lista plana de items de navegación (la misma para
+ * todos los usuarios: el filtrado por permisos se hace al armar el menú)
+ *
+ * IMPORTANTE: invalidar después de confirmar los cambios, no dentro de un
+ * @Transactional(), para no volver a cachear el estado anterior
+ */
+@Injectable()
+export class NavigationCacheService {
+  constructor(
+    @Inject(NAVIGATION_ITEMS_REPOSITORY)
+    private readonly navigationItemsRepository: INavigationItemsRepository,
+    private readonly cacheService: CacheService,
+  ) {}
+
+  /**
+   * @returns Items de navegación (de Redis o, si no están, de la base de datos)
+   */
+  async getItems(): Promise<NavigationItemEntity[]> {
+    const cached =
+      await this.cacheService.getJSON<NavigationItemEntity[]>(
+        NAVIGATION_CACHE_KEY,
+      )
+    if (cached) {
+      return cached
+    }
+
+    const items = await this.navigationItemsRepository.findAllOrdered()
+    await this.cacheService.setJSON(
+      NAVIGATION_CACHE_KEY,
+      items,
+      NAVIGATION_CACHE_TTL,
+    )
+    return items
+  }
+
+  async invalidate(): Promise<void> {
+    await this.cacheService.del(NAVIGATION_CACHE_KEY)
+  }
+}
@@ -0,0 +1,121 @@
+import { NavigationMenuService } from './navigation-menu.service'
+import { NavigationItemEntity } from '../entities'
+import type { NavigationItemDto } from '../dtos'
+
+describe('NavigationMenuService', () => {
+  let service: NavigationMenuService
+
+  const buildItem = (
+    id: string,
+    url: string,
+    order: number,
+    overrides: Partial<NavigationItemEntity> = {},
+  ): NavigationItemEntity =>
+    Object.assign(new NavigationItemEntity(), {
+      id,
+      title: id,
+      description: null,
+      url,
+      icon: null,
+      badge: null,
+      order,
+      roles: [],
+      disabled: false,
+      includeTemplates: false,
+      parentId: null,
+      ...overrides,
+    })
+
+  const template: NavigationItemDto = {
+    id: 'template-1',
+    title: 'ISO 27001',
+    url: '/admin/controls/?templateId=template-1',
+    type: 'dynamic',
+  }
+
+  beforeEach(() => {
+    service = new NavigationMenuService()
+  })
+
+  it('should show only the items whose url the role can read, in order', () => {
+    // Arrange: /admin/* alcanza /admin/users (keyMatch)
+    const items = [
+      buildItem('users', '/admin/users', 20),
+      buildItem('home', '/', 1),
+      buildItem('audits', '/audits', 10),
+    ]
+
+    // Act
+    const menu = service.build(
+      items,
+      { roles: ['admin'], resources: ['/', '/admin/*'] },
+      [],
+    )
+
+    // Assert
+    expect(menu.map((item) => item.url)).toEqual(['/', '/admin/users'])
+  })
+
+  it('should restrict items to their roles when declared', () => {
+    // Arrange
+    const items = [
+      buildItem('reports', '/reports', 1, { roles: ['auditor-senior'] }),
+      buildItem('home', '/', 2),
+    ]
+    const resources = ['/', '/reports']
+
+    // Act
+    const auditor = service.build(items, { roles: ['auditor'], resources }, [])
+    const senior = service.build(
+      items,
+      { roles: ['auditor', 'auditor-senior'], resources },
+      [],
+    )
+
+    // Assert
+    expect(auditor.map((item) => item.url)).toEqual(['/'])
+    expect(senior.map((item) => item.url)).toEqual(['/reports', '/'])
+  })
+
+  it('should nest children under visible parents and append templates', () => {
+    // Arrange
+    const items = [
+      buildItem('admin', '/admin', 1),
+      buildItem('roles', '/admin/roles', 2, { parentId: 'admin' }),
+      buildItem('users', '/admin/users', 1, { parentId: 'admin' }),
+      buildItem('controls', '/standards', 2, { includeTemplates: true }),
+      buildItem('hidden', '/hidden', 3),
+      buildItem('orphan', '/hidden/child', 1, { parentId: 'hidden' }),
+    ]
+
+    // Act
+    const menu = service.build(
+      items,
+      {
+        roles: ['admin'],
+        resources: ['/admin', '/admin/users', '/standards', '/hidden/child'],
+      },
+      [template],
+    )
+
+    // Assert
+    expect(menu.map((item) => item.url)).toEqual(['/admin', '/standards'])
+    expect(menu[0].items?.map((item) => item.url)).toEqual(['/admin/users'])
+    expect(menu[1].items).toEqual([template])
+  })
+
+  it('should build the full tree without filtering', () => {
+    // Arrange
+    const items = [
+      buildItem('users', '/admin/users', 1, { parentId: 'admin' }),
+      buildItem('admin', '/admin', 1),
+    ]
+
+    // Act
+    const tree = service.buildTree(items)
+
+    // Assert
+    expect(tree.map((item) => item.id)).toEqual(['admin'])
+    expect(tree[0].children.map((item) => item.id)).toEqual(['users'])
+  })
+})
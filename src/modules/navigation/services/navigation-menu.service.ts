@@ -0,0 +1,102 @@
+import { Injectable } from '@nestjs/common'
+import { Util } from 'casbin'
+import type { NavigationItemEntity } from '../entities'
+import type { NavigationItemDto } from '../dtos'
+import type { NavigationAccess } from '../interfaces'
+
+/**
+ * Navigation Menu Service
+ *
+ * Arma el árbol del menú a partir de la lista plana de items, dejando solo
+ * los visibles para el usuario (sin acceso a datos)
+ */
+@Injectable()
+export class NavigationMenuService {
+  /**
+   * @param items - Items de navegación (lista plana)
+   * @param access - Roles efectivos y rutas con permiso read del usuario
+   * @param templates - Plantillas publicadas (items dinámicos)
+   * @returns Menú ordenado. Un sub-item solo se muestra si su padre es visible
+   */
+  build(
+    items: NavigationItemEntity[],
+    access: NavigationAccess,
+    templates: NavigationItemDto[],
+  ): NavigationItemDto[] {
+    const visible = items.filter((item) => this.isVisible(item, access))
+    return this.toMenu(visible, null, templates)
+  }
+
+  /**
+   * Arma el árbol completo (roots con children), sin filtrar
+   */
+  buildTree(items: NavigationItemEntity[]): NavigationItemEntity[] {
+    const sorted = this.sort(items)
+    const byId = new Map(sorted.map((item) => [item.id, item]))
+    const roots: NavigationItemEntity[] = []
+
+    sorted.forEach((item) => {
+      item.children = []
+    })
+    sorted.forEach((item) => {
+      const parent = item.parentId ? byId.get(item.parentId) : null
+      if (parent) {
+        parent.children.push(item)
+      } else {
+        roots.push(item)
+      }
+    })
+    return roots
+  }
+
+  /**
+   * Permiso read sobre la url (igual o keyMatch, ej: /admin/*) y, si el
+   * item restringe roles, alguno de los roles efectivos del usuario
+   */
+  private isVisible(
+    item: NavigationItemEntity,
+    access: NavigationAccess,
+  ): boolean {
+    const readable = access.resources.some(
+      (resource) =>
+        item.url === resource || Util.keyMatchFunc(item.url, resource),
+    )
+    const hasRole =
+      !item.roles?.length ||
+      item.roles.some((role) => access.roles.includes(role))
+    return readable && hasRole
+  }
+
+  private toMenu(
+    items: NavigationItemEntity[],
+    parentId: string | null,
+    templates: NavigationItemDto[],
+  ): NavigationItemDto[] {
+    return this.sort(items.filter((item) => item.parentId === parentId)).map(
+      (item) => {
+        const children = [
+          ...this.toMenu(items, item.id, templates),
+          ...(item.includeTemplates ? templates : []),
+        ]
+
+        return {
+          title: item.title,
+          description: item.description ?? undefined,
+          url: item.url,
+          icon: item.icon ?? undefined,
+          badge: item.badge ?? undefined,
+          type: 'static' as const,
+          disabled: item.disabled,
+          order: item.order,
+          items: children.length > 0 ? children : undefined,
+        }
+      },
+    )
+  }
+
+  private sort(items: NavigationItemEntity[]): NavigationItemEntity[] {
+    return [...items].sort(
+      (a, b) => a.order - b.order || a.title.localeCompare(b.title),
+    )
+  }
+}
@@ -0,0 +1 @@
+export const NAVIGATION_ITEMS_REPOSITORY = Symbol('INavigationItemsRepository')
@@ -0,0 +1,49 @@
+import { Inject, Injectable } from '@nestjs/common'
+import { NAVIGATION_ITEMS_REPOSITORY } from '../tokens'
+import type { INavigationItemsRepository } from '../repositories'
+import { NavigationItemValidator } from '../validators'
+import { NavigationCacheService } from '../services'
+import type { NavigationItemEntity } from '../entities'
+import type { CreateNavigationItemDto } from '../dtos'
+
+/**
+ * Create Navigation Item Use Case
+ *
+ * Agrega un item al menú e invalida la caché de navegación
+ */
+@Injectable()
+export class CreateNavigationItemUseCase {
+  constructor(
+    @Inject(NAVIGATION_ITEMS_REPOSITORY)
+    private readonly navigationItemsRepository: INavigationItemsRepository,
+    private readonly navigationItemValidator: NavigationItemValidator,
+    private readonly navigationCacheService: NavigationCacheService,
+  ) {}
+
+  /**
+   * @param dto - Datos del item
+   * @returns Item creado
+   * @throws {NavigationItemNotFoundException} Si el padre no existe
+   */
+  async execute(dto: CreateNavigationItemDto): Promise<NavigationItemEntity> {
+    if (dto.parentId) {
+      await this.navigationItemValidator.validateParent(dto.parentId)
+    }
+
+    const item = await this.navigationItemsRepository.save({
+      title: dto.title.trim(),
+      description: dto.description?.trim() || null,
+      url: dto.url,
+      icon: dto.icon ?? null,
+      badge: dto.badge ?? null,
+      order: dto.order ?? 0,
+      roles: dto.roles ?? [],
+      disabled: dto.disabled ?? false,
+      includeTemplates: dto.includeTemplates ?? false,
+      parentId: dto.parentId ?? null,
+    })
+
+    await this.navigationCacheService.invalidate()
+    return item
+  }
+}
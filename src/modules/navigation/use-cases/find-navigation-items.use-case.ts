@@ -0,0 +1,27 @@
+import { Inject, Injectable } from '@nestjs/common'
+import { NAVIGATION_ITEMS_REPOSITORY } from '../tokens'
+import type { INavigationItemsRepository } from '../repositories'
+import { NavigationMenuService } from '../services'
+import type { NavigationItemEntity } from '../entities'
+
+/**
+ * Find Navigation Items Use Case
+ *
+ * Retorna todos los items de navegación como árbol (administración)
+ */
+@Injectable()
+export class FindNavigationItemsUseCase {
+  constructor(
+    @Inject(NAVIGATION_ITEMS_REPOSITORY)
+    private readonly navigationItemsRepository: INavigationItemsRepository,
+    private readonly navigationMenuService: NavigationMenuService,
+  ) {}
+
+  /**
+   * @returns Items raíz con sus children, sin filtrar por permisos
+   */
+  async execute(): Promise<NavigationItemEntity[]> {
+    const items = await this.navigationItemsRepository.findAllOrdered()
+    return this.navigationMenuService.buildTree(items)
+  }
+}
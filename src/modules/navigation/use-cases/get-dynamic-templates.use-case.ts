@@ -1,8 +1,6 @@
 import { Inject, Injectable } from '@nestjs/common'
 import type { ITemplatesRepository } from '../../audit-library/templates/repositories'
 import { NavigationItemDto } from '../dtos'
-import { TemplateStatus } from '../../audit-library/templates/constants'
-import { SortOrder } from '@core/dtos'
 import { TEMPLATES_REPOSITORY } from 'src/modules/audit-library/templates/tokens'
 
 /**
@@ -24,15 +22,8 @@ export class GetDynamicTemplatesUseCase {
    * @returns Items de navegación con plantillas reales
    */
   async execute(): Promise<NavigationItemDto[]> {
-    // Obtener plantillas publicadas usando paginación
-    const { data: templates } =
-      await this.templatesRepository.paginateTemplates({
-        status: TemplateStatus.PUBLISHED,
-        sortBy: 'createdAt',
-        sortOrder: SortOrder.ASC,
-        page: 1,
-        limit: 50,
-      })
+    // Obtener todas las plantillas publicadas
+    const templates = await this.templatesRepository.findPublished()
 
     // Convertir plantillas a items de navegación
     return templates.map((template) => ({
@@ -0,0 +1,134 @@
+/* eslint-disable @typescript-eslint/unbound-method */
+import { GetMenuUseCase } from './get-menu.use-case'
+import type { GetDynamicTemplatesUseCase } from './get-dynamic-templates.use-case'
+import { NavigationMenuService } from '../services'
+import type { NavigationCacheService } from '../services'
+import { NavigationItemEntity } from '../entities'
+import type { NavigationItemDto } from '../dtos'
+import type { FindEffectivePermissionsUseCase } from '../../authorization/use-cases'
+import type { RolePermissionResponseDto } from '../../authorization/dtos'
+import { AppType, PolicyAction } from '../../authorization/constants'
+
+// Mock del módulo: importa sus tokens con un path 'src/...' que jest no resuelve
+jest.mock('./get-dynamic-templates.use-case', () => ({
+  GetDynamicTemplatesUseCase: jest.fn(),
+}))
+
+describe('GetMenuUseCase', () => {
+  let useCase: GetMenuUseCase
+  let findEffectivePermissionsUseCase: jest.Mocked<FindEffectivePermissionsUseCase>
+  let getDynamicTemplatesUseCase: jest.Mocked<GetDynamicTemplatesUseCase>
+
+  const buildItem = (
+    id: string,
+    url: string,
+    order: number,
+    overrides: Partial<NavigationItemEntity> = {},
+  ): NavigationItemEntity =>
+    Object.assign(new NavigationItemEntity(), {
+      id,
+      title: id,
+      description: null,
+      url,
+      icon: null,
+      badge: null,
+      order,
+      roles: [],
+      disabled: false,
+      includeTemplates: false,
+      parentId: null,
+      ...overrides,
+    })
+
+  const buildPermission = (
+    resource: string,
+    action: PolicyAction,
+  ): RolePermissionResponseDto => ({
+    resource,
+    action,
+    app: AppType.FRONTEND,
+    module: null,
+    description: null,
+  })
+
+  const template: NavigationItemDto = {
+    id: 'template-1',
+    title: 'ISO 27001',
+    url: '/admin/controls/?templateId=template-1',
+    type: 'dynamic',
+  }
+
+  const items = [
+    buildItem('home', '/', 1),
+    buildItem('audits', '/audits', 10),
+    buildItem('users', '/admin/users', 20),
+    buildItem('controls', '/admin/controls', 30, { includeTemplates: true }),
+  ]
+
+  beforeEach(() => {
+    findEffectivePermissionsUseCase = {
+      execute: jest.fn(),
+    } as unknown as jest.Mocked<FindEffectivePermissionsUseCase>
+    getDynamicTemplatesUseCase = {
+      execute: jest.fn().mockResolvedValue([template]),
+    } as unknown as jest.Mocked<GetDynamicTemplatesUseCase>
+    const navigationCacheService = {
+      getItems: jest.fn().mockResolvedValue(items),
+    } as unknown as jest.Mocked<NavigationCacheService>
+
+    useCase = new GetMenuUseCase(
+      findEffectivePermissionsUseCase,
+      navigationCacheService,
+      new NavigationMenuService(),
+      getDynamicTemplatesUseCase,
+    )
+  })
+
+  it('should show only the routes the current role can read', async () => {
+    // Arrange: create sobre /audits no alcanza para ver el item
+    findEffectivePermissionsUseCase.execute.mockResolvedValue({
+      role: 'auditor',
+      roles: ['auditor'],
+      frontend: [
+        buildPermission('/', PolicyAction.READ),
+        buildPermission('/audits', PolicyAction.CREATE),
+        buildPermission('/admin/users', PolicyAction.UPDATE),
+      ],
+      backend: [],
+    })
+
+    // Act
+    const menu = await useCase.execute('auditor', 'user-1')
+
+    // Assert
+    expect(findEffectivePermissionsUseCase.execute).toHaveBeenCalledWith(
+      'auditor',
+      'user-1',
+    )
+    expect(menu.navMain.map((item) => item.url)).toEqual(['/'])
+  })
+
+  it('should match wildcard routes and append the templates to their items', async () => {
+    // Arrange: /admin/* alcanza /admin/users y /admin/controls (keyMatch)
+    findEffectivePermissionsUseCase.execute.mockResolvedValue({
+      role: 'admin',
+      roles: ['admin'],
+      frontend: [
+        buildPermission('/', PolicyAction.READ),
+        buildPermission('/admin/*', PolicyAction.READ),
+      ],
+      backend: [],
+    })
+
+    // Act
+    const menu = await useCase.execute('admin', 'user-1')
+
+    // Assert
+    expect(menu.navMain.map((item) => item.url)).toEqual([
+      '/',
+      '/admin/users',
+      '/admin/controls',
+    ])
+    expect(menu.navMain[2].items).toEqual([template])
+  })
+})
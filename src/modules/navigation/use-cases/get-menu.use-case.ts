@@ -1,87 +1,55 @@
 import { Injectable } from '@nestjs/common'
-import { Role } from '../../users/entities/user.entity'
 import { MenuResponseDto } from '../dtos'
-import { GetStaticNavigationUseCase } from './get-static-navigation.use-case'
+import { NavigationCacheService, NavigationMenuService } from '../services'
 import { GetDynamicTemplatesUseCase } from './get-dynamic-templates.use-case'
+import { FindEffectivePermissionsUseCase } from '../../authorization/use-cases'
+import { PolicyAction } from '../../authorization/constants'
 
 /**
  * Get Menu Use Case
  *
- * Retorna el menú completo de navegación (estático + dinámico)
+ * Retorna el menú completo de navegación (items de la base de datos +
+ * plantillas publicadas), filtrado con los permisos de frontend del rol
+ * activo (Casbin) y la visibilidad por rol de cada item
  */
 @Injectable()
 export class GetMenuUseCase {
   constructor(
-    private readonly getStaticNavigationUseCase: GetStaticNavigationUseCase,
+    private readonly findEffectivePermissionsUseCase: FindEffectivePermissionsUseCase,
+    private readonly navigationCacheService: NavigationCacheService,
+    private readonly navigationMenuService: NavigationMenuService,
     private readonly getDynamicTemplatesUseCase: GetDynamicTemplatesUseCase,
   ) {}
 
   /**
    * Ejecuta la obtención del menú completo
    *
-   * @param roles - Roles del usuario autenticado
-   * @returns Menú completo con navegación estática y plantillas dinámicas integradas
+   * @param role - Rol activo (currentRole del JWT)
+   * @param userId - ID del usuario, para sus roles personalizados
+   * @returns Menú con las plantillas dinámicas bajo los items que las incluyen
    */
-  async execute(roles: Role[]): Promise<MenuResponseDto> {
-    // Obtener navegación estática según rol
-    const staticNavigation = this.getStaticNavigationUseCase.execute(roles)
-
-    // Obtener plantillas dinámicas
-    const dynamicTemplates = await this.getDynamicTemplatesUseCase.execute()
-
-    // Combinar navegación estática + plantillas dinámicas
-    const navMain = this.combineNavigation(staticNavigation, dynamicTemplates)
+  async execute(role: string, userId: string): Promise<MenuResponseDto> {
+    // 1. Permisos efectivos: un item es visible si se puede leer (read) su ruta
+    const { roles, frontend } =
+      await this.findEffectivePermissionsUseCase.execute(role, userId)
+    const resources = frontend
+      .filter((permission) => permission.action === PolicyAction.READ)
+      .map((permission) => permission.resource)
+
+    // 2. Items de navegación (caché de Redis)
+    const items = await this.navigationCacheService.getItems()
+
+    // 3. Plantillas publicadas, solo si algún item las incluye
+    const templates = items.some((item) => item.includeTemplates)
+      ? await this.getDynamicTemplatesUseCase.execute()
+      : []
 
     return {
-      navMain,
-    }
-  }
-
-  /**
-   * Combina navegación estática con plantillas dinámicas
-   *
-   * Inserta las plantillas dinámicas como sub-items del item "Controles"
-   * Si no existe el item "Controles", lo agrega al final
-   *
-   * @param staticNav - Items de navegación estática
-   * @param templates - Plantillas dinámicas
-   * @returns Navegación combinada
-   */
-  private combineNavigation(staticNav: any[], templates: any[]): any[] {
-    // Buscar el item "Controles" en la navegación estática
-    const controlesItemIndex = staticNav.findIndex(
-      (item) =>
-        item.title === 'Controles' ||
-        item.url?.includes('/standards') ||
-        item.url?.includes('/controls'),
-    )
-
-    if (controlesItemIndex >= 0) {
-      // Si existe el item "Controles", agregar las plantillas como sub-items
-      const updatedItem = {
-        ...staticNav[controlesItemIndex],
-        items: templates.length > 0 ? templates : undefined,
-      }
-
-      // Crear copia del array con el item actualizado
-      return [
-        ...staticNav.slice(0, controlesItemIndex),
-        updatedItem,
-        ...staticNav.slice(controlesItemIndex + 1),
-      ]
-    } else {
-      // Si no existe, crear un nuevo item "Controles" con las plantillas
-      const controlesItem = {
-        title: 'Controles',
-        description: 'Controles y estándares por plantilla',
-        url: '/admin/standards',
-        icon: 'files',
-        type: 'static' as const,
-        order: 100,
-        items: templates.length > 0 ? templates : undefined,
-      }
-
-      return [...staticNav, controlesItem]
+      navMain: this.navigationMenuService.build(
+        items,
+        { roles, resources },
+        templates,
+      ),
     }
   }
 }
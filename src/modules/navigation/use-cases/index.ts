@@ -1,3 +1,6 @@
-export * from './get-static-navigation.use-case'
 export * from './get-dynamic-templates.use-case'
 export * from './get-menu.use-case'
+export * from './find-navigation-items.use-case'
+export * from './create-navigation-item.use-case'
+export * from './update-navigation-item.use-case'
+export * from './remove-navigation-item.use-case'
@@ -0,0 +1,37 @@
+import { Inject, Injectable } from '@nestjs/common'
+import { NAVIGATION_ITEMS_REPOSITORY } from '../tokens'
+import type { INavigationItemsRepository } from '../repositories'
+import { NavigationItemValidator } from '../validators'
+import { NavigationCacheService } from '../services'
+import type { NavigationItemEntity } from '../entities'
+
+/**
+ * Remove Navigation Item Use Case
+ *
+ * Elimina (soft delete) un item sin sub-items e invalida la caché
+ */
+@Injectable()
+export class RemoveNavigationItemUseCase {
+  constructor(
+    @Inject(NAVIGATION_ITEMS_REPOSITORY)
+    private readonly navigationItemsRepository: INavigationItemsRepository,
+    private readonly navigationItemValidator: NavigationItemValidator,
+    private readonly navigationCacheService: NavigationCacheService,
+  ) {}
+
+  /**
+   * @param id - ID del item
+   * @returns Item eliminado
+   * @throws {NavigationItemNotFoundException} Si el item no existe
+   * @throws {NavigationItemHasChildrenException} Si tiene sub-items
+   */
+  async execute(id: string): Promise<NavigationItemEntity> {
+    const item = await this.navigationItemValidator.validateAndGetItem(id)
+    await this.navigationItemValidator.validateNoChildren(item)
+
+    await this.navigationItemsRepository.softDelete(item.id)
+
+    await this.navigationCacheService.invalidate()
+    return item
+  }
+}
@@ -0,0 +1,51 @@
+import { Inject, Injectable } from '@nestjs/common'
+import { NAVIGATION_ITEMS_REPOSITORY } from '../tokens'
+import type { INavigationItemsRepository } from '../repositories'
+import { NavigationItemValidator } from '../validators'
+import { NavigationCacheService } from '../services'
+import type { NavigationItemEntity } from '../entities'
+import type { UpdateNavigationItemDto } from '../dtos'
+
+/**
+ * Update Navigation Item Use Case
+ *
+ * Edita un item (o lo mueve de padre) e invalida la caché de navegación
+ */
+@Injectable()
+export class UpdateNavigationItemUseCase {
+  constructor(
+    @Inject(NAVIGATION_ITEMS_REPOSITORY)
+    private readonly navigationItemsRepository: INavigationItemsRepository,
+    private readonly navigationItemValidator: NavigationItemValidator,
+    private readonly navigationCacheService: NavigationCacheService,
+  ) {}
+
+  /**
+   * @param id - ID del item
+   * @param dto - Campos a modificar (parentId null = mover a la raíz)
+   * @returns Item actualizado
+   * @throws {NavigationItemNotFoundException} Si el item o el padre no existen
+   * @throws {InvalidNavigationParentException} Si el padre es el item o un descendiente
+   */
+  async execute(
+    id: string,
+    dto: UpdateNavigationItemDto,
+  ): Promise<NavigationItemEntity> {
+    const item = await this.navigationItemValidator.validateAndGetItem(id)
+
+    if (dto.parentId) {
+      await this.navigationItemValidator.validateParent(dto.parentId, item)
+    }
+
+    const updated = await this.navigationItemsRepository.patch(item, {
+      ...dto,
+      ...(dto.title !== undefined && { title: dto.title.trim() }),
+      ...(dto.description !== undefined && {
+        description: dto.description?.trim() || null,
+      }),
+    })
+
+    await this.navigationCacheService.invalidate()
+    return updated
+  }
+}
@@ -0,0 +1,132 @@
+/* eslint-disable @typescript-eslint/unbound-method */
+import { Test, TestingModule } from '@nestjs/testing'
+import { NavigationItemValidator } from './navigation-item.validator'
+import type { INavigationItemsRepository } from '../repositories'
+import { NAVIGATION_ITEMS_REPOSITORY } from '../tokens'
+import { NavigationItemEntity } from '../entities/navigation-item.entity'
+import {
+  NavigationItemNotFoundException,
+  InvalidNavigationParentException,
+  NavigationItemHasChildrenException,
+} from '../exceptions'
+
+describe('NavigationItemValidator', () => {
+  let validator: NavigationItemValidator
+  let repository: jest.Mocked<INavigationItemsRepository>
+
+  const buildItem = (id: string, parentId: string | null) =>
+    Object.assign(new NavigationItemEntity(), {
+      id,
+      title: id,
+      url: `/${id}`,
+      parentId,
+    })
+
+  // Árbol: admin > users > roles
+  const items = [
+    buildItem('admin', null),
+    buildItem('users', 'admin'),
+    buildItem('roles', 'users'),
+  ]
+
+  beforeEach(async () => {
+    const mockRepository: Partial<jest.Mocked<INavigationItemsRepository>> = {
+      findById: jest.fn((id: string) =>
+        Promise.resolve(items.find((item) => item.id === id) ?? null),
+      ),
+      countChildren: jest.fn(),
+    }
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        NavigationItemValidator,
+        {
+          provide: NAVIGATION_ITEMS_REPOSITORY,
+          useValue: mockRepository,
+        },
+      ],
+    }).compile()
+
+    validator = module.get<NavigationItemValidator>(NavigationItemValidator)
+    repository = module.get(NAVIGATION_ITEMS_REPOSITORY)
+  })
+
+  afterEach(() => {
+    jest.clearAllMocks()
+  })
+
+  describe('validateAndGetItem', () => {
+    it('should return the item if it exists', async () => {
+      // Act
+      const result = await validator.validateAndGetItem('users')
+
+      // Assert
+      expect(result).toBe(items[1])
+    })
+
+    it('should throw NavigationItemNotFoundException if it does not exist', async () => {
+      // Act & Assert
+      await expect(validator.validateAndGetItem('missing')).rejects.toThrow(
+        NavigationItemNotFoundException,
+      )
+    })
+  })
+
+  describe('validateParent', () => {
+    it('should accept an existing parent for a new item', async () => {
+      // Act & Assert
+      await expect(validator.validateParent('roles')).resolves.toBeUndefined()
+    })
+
+    it('should throw NavigationItemNotFoundException if the parent does not exist', async () => {
+      // Act & Assert
+      await expect(validator.validateParent('missing')).rejects.toThrow(
+        NavigationItemNotFoundException,
+      )
+    })
+
+    it('should accept moving an item under another branch', async () => {
+      // Act & Assert
+      await expect(
+        validator.validateParent('admin', items[2]),
+      ).resolves.toBeUndefined()
+    })
+
+    it('should reject moving an item under itself', async () => {
+      // Act & Assert
+      await expect(validator.validateParent('users', items[1])).rejects.toThrow(
+        InvalidNavigationParentException,
+      )
+    })
+
+    it('should reject moving an item under one of its descendants', async () => {
+      // Act & Assert
+      await expect(validator.validateParent('roles', items[0])).rejects.toThrow(
+        InvalidNavigationParentException,
+      )
+    })
+  })
+
+  describe('validateNoChildren', () => {
+    it('should accept an item without children', async () => {
+      // Arrange
+      repository.countChildren.mockResolvedValue(0)
+
+      // Act & Assert
+      await expect(
+        validator.validateNoChildren(items[2]),
+      ).resolves.toBeUndefined()
+    })
+
+    it('should throw NavigationItemHasChildrenException if it has children', async () => {
+      // Arrange
+      repository.countChildren.mockResolvedValue(1)
+
+      // Act & Assert
+      await expect(validator.validateNoChildren(items[0])).rejects.toThrow(
+        NavigationItemHasChildrenException,
+      )
+      expect(repository.countChildren).toHaveBeenCalledWith('admin')
+    })
+  })
+})
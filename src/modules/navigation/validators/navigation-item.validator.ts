@@ -0,0 +1,58 @@
+import { Injectable, Inject } from '@nestjs/common'
+import type { INavigationItemsRepository } from '../repositories'
+import { NAVIGATION_ITEMS_REPOSITORY } from '../tokens'
+import {
+  NavigationItemNotFoundException,
+  InvalidNavigationParentException,
+  NavigationItemHasChildrenException,
+} from '../exceptions'
+import { NavigationItemEntity } from '../entities'
+
+@Injectable()
+export class NavigationItemValidator {
+  constructor(
+    @Inject(NAVIGATION_ITEMS_REPOSITORY)
+    private readonly navigationItemsRepository: INavigationItemsRepository,
+  ) {}
+
+  async validateAndGetItem(id: string): Promise<NavigationItemEntity> {
+    const item = await this.navigationItemsRepository.findById(id)
+    if (!item) {
+      throw new NavigationItemNotFoundException(id)
+    }
+    return item
+  }
+
+  /**
+   * Valida el nuevo padre de un item
+   *
+   * @param parentId - ID del padre
+   * @param item - Item que se mueve (al editar), para evitar ciclos
+   */
+  async validateParent(
+    parentId: string,
+    item?: NavigationItemEntity,
+  ): Promise<void> {
+    let current: NavigationItemEntity | null =
+      await this.validateAndGetItem(parentId)
+
+    if (!item) return
+
+    // Recorrer los ancestros del padre: el item no puede estar entre ellos
+    while (current) {
+      if (current.id === item.id) {
+        throw new InvalidNavigationParentException(item.title)
+      }
+      current = current.parentId
+        ? await this.navigationItemsRepository.findById(current.parentId)
+        : null
+    }
+  }
+
+  async validateNoChildren(item: NavigationItemEntity): Promise<void> {
+    const count = await this.navigationItemsRepository.countChildren(item.id)
+    if (count > 0) {
+      throw new NavigationItemHasChildrenException(item.title, count)
+    }
+  }
+}
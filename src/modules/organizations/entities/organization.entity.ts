@@ -1,8 +1,17 @@
 import { Entity, Column, OneToMany, Index } from 'typeorm'
 import { BaseEntity } from '@core/entities'
+import { Auditable } from '@core/database/auditable.decorator'
+import { AuditAction } from '@core/database/audit-action.enum'
+import { TenantScoped } from '@core/database/tenant-scoped.decorator'
 import { UserEntity } from '../../users/entities/user.entity'
 @Index(['nit'], { unique: true, where: '"deletedAt" IS NULL' })
 @Index(['name'], { unique: true, where: '"deletedAt" IS NULL' })
+@TenantScoped<OrganizationEntity>('id')
+@Auditable<OrganizationEntity>({
+  transitions: {
+    isActive: { true: AuditAction.ACTIVATE, false: AuditAction.DEACTIVATE },
+  },
+})
 @Entity('organizations')
 export class OrganizationEntity extends BaseEntity {
   @Column({ type: 'varchar', length: 200 })
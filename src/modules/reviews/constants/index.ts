@@ -0,0 +1,3 @@
+export * from './review-status.enum'
+export * from './sign-off-action.enum'
+export * from './review.constants'
@@ -0,0 +1,26 @@
+export enum ReviewStatus {
+  /**
+   * Enviada - El auditor terminó el trabajo, pendiente de revisión
+   */
+  SUBMITTED = 'submitted',
+
+  /**
+   * Devuelta - El revisor pidió correcciones (ver comentario)
+   */
+  RETURNED = 'returned',
+
+  /**
+   * Aprobada - El revisor firmó el contenido enviado
+   */
+  APPROVED = 'approved',
+}
+
+/**
+ * Transiciones permitidas de una revisión
+ * submitted → approved | returned, returned → submitted
+ */
+export const REVIEW_STATUS_TRANSITIONS: Record<ReviewStatus, ReviewStatus[]> = {
+  [ReviewStatus.SUBMITTED]: [ReviewStatus.APPROVED, ReviewStatus.RETURNED],
+  [ReviewStatus.RETURNED]: [ReviewStatus.SUBMITTED],
+  [ReviewStatus.APPROVED]: [],
+}
@@ -0,0 +1,13 @@
+export const REVIEW_CONSTRAINTS = {
+  SUBJECT_TYPE: {
+    MAX_LENGTH: 50,
+  },
+  COMMENT: {
+    MIN_LENGTH: 10,
+    MAX_LENGTH: 5000,
+  },
+  /** SHA-256 en hexadecimal */
+  CONTENT_HASH: {
+    LENGTH: 64,
+  },
+} as const
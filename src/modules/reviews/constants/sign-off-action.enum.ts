@@ -0,0 +1,13 @@
+/**
+ * Acción que se firma en una revisión
+ */
+export enum SignOffAction {
+  /** El autor envía su trabajo a revisión */
+  SUBMIT = 'submit',
+
+  /** El revisor aprueba el trabajo */
+  APPROVE = 'approve',
+
+  /** El revisor devuelve el trabajo con comentarios */
+  RETURN = 'return',
+}
@@ -0,0 +1,182 @@
+import {
+  Controller,
+  Get,
+  Body,
+  Patch,
+  Param,
+  Query,
+  UseGuards,
+} from '@nestjs/common'
+import { ApiTags, ApiOperation } from '@nestjs/swagger'
+import {
+  ApiList,
+  ApiFindOne,
+  ApiOkResponse,
+  ApiNotFoundResponse,
+  ApiStandardResponses,
+} from '@core/swagger'
+import {
+  FindReviewsDto,
+  ReviewSubjectParamDto,
+  SignOffReviewDto,
+  ReturnReviewDto,
+  REVIEW_SORTABLE_FIELDS,
+} from '../dtos'
+import { ReviewEntity } from '../entities'
+import { ReviewStatus } from '../constants'
+import {
+  FindReviewsUseCase,
+  FindReviewUseCase,
+  SubmitForReviewUseCase,
+  ApproveReviewUseCase,
+  ReturnReviewUseCase,
+} from '../use-cases'
+import { GetUser } from '../../auth/core'
+import { Role } from '../../users/entities/user.entity'
+import { PermissionsGuard } from '../../authorization/guards'
+import {
+  CheckPermissions,
+  CurrentRoleOnly,
+} from '../../authorization/decorators'
+
+/**
+ * Reviews Controller
+ *
+ * Flujo de revisión y firma (maker/checker) de los registros @Reviewable:
+ * el AUDITOR envía su trabajo y el GERENTE lo aprueba o lo devuelve.
+ * Enviar, aprobar y devolver se autorizan solo con el rol activo.
+ */
+@ApiTags('reviews')
+@Controller('reviews')
+@UseGuards(PermissionsGuard)
+export class ReviewsController {
+  constructor(
+    private readonly findReviewsUseCase: FindReviewsUseCase,
+    private readonly findReviewUseCase: FindReviewUseCase,
+    private readonly submitForReviewUseCase: SubmitForReviewUseCase,
+    private readonly approveReviewUseCase: ApproveReviewUseCase,
+    private readonly returnReviewUseCase: ReturnReviewUseCase,
+  ) {}
+
+  @Get()
+  @CheckPermissions()
+  @ApiList(ReviewEntity, {
+    summary: 'Listar revisiones con paginación y filtros',
+    sortableFields: REVIEW_SORTABLE_FIELDS.map(String),
+    defaultSortBy: 'submittedAt',
+    filterFields: [
+      {
+        name: 'subjectType',
+        description: 'Filtrar por tipo de registro',
+        type: 'string',
+        example: 'finding',
+      },
+      {
+        name: 'submittedById',
+        description: 'Filtrar por autor del último envío',
+        type: 'uuid',
+      },
+      {
+        name: 'status',
+        description: 'Filtrar por estado de la revisión',
+        type: `enum: ${Object.values(ReviewStatus).join(', ')}`,
+        example: 'submitted',
+      },
+    ],
+  })
+  async findAll(@Query() query: FindReviewsDto) {
+    return await this.findReviewsUseCase.execute(query)
+  }
+
+  @Get(':subjectType/:subjectId')
+  @CheckPermissions()
+  @ApiFindOne(ReviewEntity, {
+    summary: 'Obtener la revisión de un registro',
+    description:
+      'Retorna el estado de la revisión con el autor, el revisor y todas las firmas ' +
+      '(usuario, rol, fecha y hash del contenido).',
+  })
+  async findOne(@Param() { subjectType, subjectId }: ReviewSubjectParamDto) {
+    return await this.findReviewUseCase.execute(subjectType, subjectId)
+  }
+
+  @Patch(':subjectType/:subjectId/submit')
+  @CheckPermissions()
+  @CurrentRoleOnly()
+  @ApiOperation({
+    summary: 'Enviar a revisión',
+    description:
+      'El autor envía su trabajo (primer envío o después de una devolución). ' +
+      'Se firma el hash SHA-256 del contenido enviado.',
+  })
+  @ApiOkResponse(ReviewEntity, 'Trabajo enviado a revisión', false)
+  @ApiNotFoundResponse('Registro no encontrado')
+  @ApiStandardResponses({ exclude: [200, 404] })
+  async submit(
+    @Param() { subjectType, subjectId }: ReviewSubjectParamDto,
+    @Body() dto: SignOffReviewDto,
+    @GetUser('sub') userId: string,
+    @GetUser('currentRole') role: Role,
+  ) {
+    return await this.submitForReviewUseCase.execute(
+      subjectType,
+      subjectId,
+      dto,
+      userId,
+      role,
+    )
+  }
+
+  @Patch(':subjectType/:subjectId/approve')
+  @CheckPermissions()
+  @CurrentRoleOnly()
+  @ApiOperation({
+    summary: 'Aprobar (submitted → approved)',
+    description:
+      'El revisor aprueba el trabajo enviado. No puede aprobar quien lo preparó, ' +
+      'y el contenido debe ser el mismo que se envió.',
+  })
+  @ApiOkResponse(ReviewEntity, 'Trabajo aprobado', false)
+  @ApiNotFoundResponse('Registro o revisión no encontrados')
+  @ApiStandardResponses({ exclude: [200, 404] })
+  async approve(
+    @Param() { subjectType, subjectId }: ReviewSubjectParamDto,
+    @Body() dto: SignOffReviewDto,
+    @GetUser('sub') userId: string,
+    @GetUser('currentRole') role: Role,
+  ) {
+    return await this.approveReviewUseCase.execute(
+      subjectType,
+      subjectId,
+      dto,
+      userId,
+      role,
+    )
+  }
+
+  @Patch(':subjectType/:subjectId/return')
+  @CheckPermissions()
+  @CurrentRoleOnly()
+  @ApiOperation({
+    summary: 'Devolver con comentarios (submitted → returned)',
+    description:
+      'El revisor devuelve el trabajo indicando las correcciones. No puede devolverlo quien lo preparó.',
+  })
+  @ApiOkResponse(ReviewEntity, 'Trabajo devuelto', false)
+  @ApiNotFoundResponse('Registro o revisión no encontrados')
+  @ApiStandardResponses({ exclude: [200, 404] })
+  async returnForRevision(
+    @Param() { subjectType, subjectId }: ReviewSubjectParamDto,
+    @Body() dto: ReturnReviewDto,
+    @GetUser('sub') userId: string,
+    @GetUser('currentRole') role: Role,
+  ) {
+    return await this.returnReviewUseCase.execute(
+      subjectType,
+      subjectId,
+      dto,
+      userId,
+      role,
+    )
+  }
+}
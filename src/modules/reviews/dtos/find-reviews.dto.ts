@@ -0,0 +1,41 @@
+import { IsOptional, IsString, IsEnum, IsUUID } from 'class-validator'
+import { ApiPropertyOptional } from '@nestjs/swagger'
+import { PaginationDto } from '@core/dtos'
+import { IsIn } from '@core/i18n'
+import { ReviewStatus } from '../constants'
+import { ReviewEntity } from '../entities/review.entity'
+
+/**
+ * Campos por los que se puede ordenar la lista de revisiones
+ */
+export const REVIEW_SORTABLE_FIELDS: (keyof ReviewEntity)[] = [
+  'subjectType',
+  'status',
+  'submittedAt',
+  'reviewedAt',
+  'createdAt',
+]
+
+export class FindReviewsDto extends PaginationDto {
+  @ApiPropertyOptional({
+    description: 'Filtrar por tipo de registro',
+    example: 'finding',
+  })
+  @IsOptional()
+  @IsString()
+  subjectType?: string
+
+  @ApiPropertyOptional({ description: 'Filtrar por autor del último envío' })
+  @IsOptional()
+  @IsUUID()
+  submittedById?: string
+
+  @ApiPropertyOptional({ enum: ReviewStatus })
+  @IsOptional()
+  @IsEnum(ReviewStatus)
+  status?: ReviewStatus
+
+  @IsOptional()
+  @IsIn(REVIEW_SORTABLE_FIELDS)
+  sortBy?: string = 'submittedAt'
+}
@@ -0,0 +1,4 @@
+export * from './review-subject-param.dto'
+export * from './sign-off-review.dto'
+export * from './return-review.dto'
+export * from './find-reviews.dto'
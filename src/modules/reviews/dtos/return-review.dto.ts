@@ -0,0 +1,16 @@
+import { IsString, MinLength, MaxLength } from '@core/i18n'
+import { ApiProperty } from '@nestjs/swagger'
+import { REVIEW_CONSTRAINTS } from '../constants'
+
+export class ReturnReviewDto {
+  @ApiProperty({
+    description: 'Correcciones que se piden al autor',
+    example: 'Falta la evidencia de la revisión trimestral de accesos.',
+    minLength: REVIEW_CONSTRAINTS.COMMENT.MIN_LENGTH,
+    maxLength: REVIEW_CONSTRAINTS.COMMENT.MAX_LENGTH,
+  })
+  @IsString()
+  @MinLength(REVIEW_CONSTRAINTS.COMMENT.MIN_LENGTH)
+  @MaxLength(REVIEW_CONSTRAINTS.COMMENT.MAX_LENGTH)
+  comment: string
+}
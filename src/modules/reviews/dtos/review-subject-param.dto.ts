@@ -0,0 +1,23 @@
+import { IsString, IsUUID, MaxLength } from '@core/i18n'
+import { ApiProperty } from '@nestjs/swagger'
+import { REVIEW_CONSTRAINTS } from '../constants'
+
+/**
+ * Parámetros de ruta /reviews/:subjectType/:subjectId
+ */
+export class ReviewSubjectParamDto {
+  @ApiProperty({
+    description: 'Tipo del registro revisado (declarado en @Reviewable)',
+    example: 'finding',
+  })
+  @IsString()
+  @MaxLength(REVIEW_CONSTRAINTS.SUBJECT_TYPE.MAX_LENGTH)
+  subjectType: string
+
+  @ApiProperty({
+    description: 'ID del registro revisado',
+    format: 'uuid',
+  })
+  @IsUUID()
+  subjectId: string
+}
@@ -0,0 +1,20 @@
+import { IsString, IsOptional, MinLength, MaxLength } from '@core/i18n'
+import { ApiPropertyOptional } from '@nestjs/swagger'
+import { REVIEW_CONSTRAINTS } from '../constants'
+
+/**
+ * Firma de un envío o una aprobación (comentario opcional)
+ */
+export class SignOffReviewDto {
+  @ApiPropertyOptional({
+    description: 'Comentario que acompaña la firma',
+    example: 'Evaluación de controles de acceso concluida.',
+    minLength: REVIEW_CONSTRAINTS.COMMENT.MIN_LENGTH,
+    maxLength: REVIEW_CONSTRAINTS.COMMENT.MAX_LENGTH,
+  })
+  @IsOptional()
+  @IsString()
+  @MinLength(REVIEW_CONSTRAINTS.COMMENT.MIN_LENGTH)
+  @MaxLength(REVIEW_CONSTRAINTS.COMMENT.MAX_LENGTH)
+  comment?: string
+}
@@ -0,0 +1,59 @@
+import { Entity, Column, ManyToOne, JoinColumn, Index } from 'typeorm'
+import { BaseEntity } from '@core/entities/base.entity'
+import { Auditable } from '@core/database/auditable.decorator'
+import { Role, UserEntity } from '../../users/entities/user.entity'
+import { REVIEW_CONSTRAINTS, SignOffAction } from '../constants'
+import { ReviewEntity } from './review.entity'
+
+/**
+ * Review Sign-Off Entity
+ *
+ * Firma de un paso de la revisión: quién (usuario y rol activo), cuándo,
+ * qué hizo y sobre qué contenido (hash SHA-256). No se modifica ni se
+ * elimina: el historial de firmas es la evidencia del maker/checker.
+ */
+@Auditable<ReviewSignOffEntity>({
+  ignore: ['reviewId'],
+  rootId: (signOff) => signOff.reviewId,
+})
+@Entity('review_sign_offs')
+@Index(['reviewId'])
+@Index(['userId'])
+export class ReviewSignOffEntity extends BaseEntity {
+  @Column({ type: 'uuid' })
+  reviewId: string
+
+  @ManyToOne(() => ReviewEntity, (review) => review.signOffs, {
+    onDelete: 'CASCADE',
+  })
+  @JoinColumn({ name: 'reviewId' })
+  review: ReviewEntity
+
+  @Column({ type: 'enum', enum: SignOffAction })
+  action: SignOffAction
+
+  @Column({ type: 'uuid' })
+  userId: string
+
+  @ManyToOne(() => UserEntity)
+  @JoinColumn({ name: 'userId' })
+  user: UserEntity
+
+  /**
+   * Rol activo (currentRole) con el que se firmó
+   */
+  @Column({ type: 'enum', enum: Role })
+  role: Role
+
+  /**
+   * Hash SHA-256 del contenido firmado
+   */
+  @Column({ type: 'varchar', length: REVIEW_CONSTRAINTS.CONTENT_HASH.LENGTH })
+  contentHash: string
+
+  @Column({ type: 'text', nullable: true })
+  comment: string | null
+
+  @Column({ type: 'timestamp' })
+  signedAt: Date
+}
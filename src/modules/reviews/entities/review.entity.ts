@@ -0,0 +1,169 @@
+import {
+  Entity,
+  Column,
+  ManyToOne,
+  OneToMany,
+  JoinColumn,
+  Index,
+} from 'typeorm'
+import { BaseEntity } from '@core/entities/base.entity'
+import { Auditable } from '@core/database/auditable.decorator'
+import { AuditAction } from '@core/database/audit-action.enum'
+import { TenantScoped } from '@core/database/tenant-scoped.decorator'
+import { UserEntity } from '../../users/entities/user.entity'
+import {
+  REVIEW_CONSTRAINTS,
+  REVIEW_STATUS_TRANSITIONS,
+  ReviewStatus,
+  SignOffAction,
+} from '../constants'
+import { ReviewSignOffEntity } from './review-sign-off.entity'
+
+/**
+ * Review Entity
+ *
+ * Revisión (maker/checker) de un registro @Reviewable: un auditor envía
+ * su trabajo y un gerente lo aprueba o lo devuelve con comentarios.
+ * Nadie puede aprobar ni devolver su propio trabajo.
+ *
+ * Cada paso queda firmado en ReviewSignOffEntity con el usuario, el rol
+ * activo, la fecha y el hash del contenido revisado.
+ *
+ * Ciclo de vida: submitted → returned → submitted → approved
+ */
+@TenantScoped<ReviewEntity>('organizationId')
+@Auditable<ReviewEntity>({
+  transitions: {
+    status: {
+      [ReviewStatus.SUBMITTED]: AuditAction.SUBMIT,
+      [ReviewStatus.RETURNED]: AuditAction.RETURN,
+      [ReviewStatus.APPROVED]: AuditAction.APPROVE,
+    },
+  },
+})
+@Entity('reviews')
+@Index(['subjectType', 'subjectId'], {
+  unique: true,
+  where: '"deletedAt" IS NULL',
+})
+@Index(['organizationId'])
+@Index(['status'])
+export class ReviewEntity extends BaseEntity {
+  /**
+   * Tipo del registro revisado (declarado en @Reviewable, ej: 'finding')
+   */
+  @Column({
+    type: 'varchar',
+    length: REVIEW_CONSTRAINTS.SUBJECT_TYPE.MAX_LENGTH,
+  })
+  subjectType: string
+
+  /**
+   * ID del registro revisado
+   */
+  @Column({ type: 'uuid' })
+  subjectId: string
+
+  /**
+   * Organización dueña del registro revisado (null = sin organización)
+   */
+  @Column({ type: 'uuid', nullable: true })
+  organizationId: string | null
+
+  @Column({
+    type: 'enum',
+    enum: ReviewStatus,
+    default: ReviewStatus.SUBMITTED,
+  })
+  status: ReviewStatus
+
+  /**
+   * Hash del contenido en el último envío (lo que se revisa)
+   */
+  @Column({ type: 'varchar', length: REVIEW_CONSTRAINTS.CONTENT_HASH.LENGTH })
+  contentHash: string
+
+  /**
+   * Usuario que hizo el último envío
+   */
+  @Column({ type: 'uuid' })
+  submittedById: string
+
+  @ManyToOne(() => UserEntity)
+  @JoinColumn({ name: 'submittedById' })
+  submittedBy: UserEntity
+
+  @Column({ type: 'timestamp' })
+  submittedAt: Date
+
+  /**
+   * Revisor que tomó la última decisión (aprobar o devolver)
+   */
+  @Column({ type: 'uuid', nullable: true })
+  reviewedById: string | null
+
+  @ManyToOne(() => UserEntity, { nullable: true })
+  @JoinColumn({ name: 'reviewedById' })
+  reviewedBy: UserEntity | null
+
+  @Column({ type: 'timestamp', nullable: true })
+  reviewedAt: Date | null
+
+  /**
+   * Comentario de la última decisión del revisor
+   */
+  @Column({ type: 'text', nullable: true })
+  reviewComment: string | null
+
+  /**
+   * Firmas de cada paso de la revisión (solo se agregan)
+   */
+  @OneToMany(() => ReviewSignOffEntity, (signOff) => signOff.review)
+  signOffs: ReviewSignOffEntity[]
+
+  /**
+   * Usuarios que prepararon el trabajo (firmaron algún envío)
+   */
+  get authorIds(): string[] {
+    const submitters = (this.signOffs ?? [])
+      .filter((signOff) => signOff.action === SignOffAction.SUBMIT)
+      .map((signOff) => signOff.userId)
+    return [...new Set([this.submittedById, ...submitters])]
+  }
+
+  canTransitionTo(status: ReviewStatus): boolean {
+    return REVIEW_STATUS_TRANSITIONS[this.status].includes(status)
+  }
+
+  /**
+   * Envía (o reenvía) el trabajo a revisión
+   */
+  submit(userId: string, contentHash: string): void {
+    this.status = ReviewStatus.SUBMITTED
+    this.contentHash = contentHash
+    this.submittedById = userId
+    this.submittedAt = new Date()
+    this.reviewedById = null
+    this.reviewedAt = null
+    this.reviewComment = null
+  }
+
+  approve(userId: string, comment: string | null): void {
+    this.decide(ReviewStatus.APPROVED, userId, comment)
+  }
+
+  returnForRevision(userId: string, comment: string): void {
+    this.decide(ReviewStatus.RETURNED, userId, comment)
+  }
+
+  private decide(
+    status: ReviewStatus,
+    userId: string,
+    comment: string | null,
+  ): void {
+    this.status = status
+    this.reviewedById = userId
+    this.reviewedAt = new Date()
+    this.reviewComment = comment
+  }
+}
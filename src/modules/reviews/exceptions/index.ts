@@ -0,0 +1,7 @@
+export * from './review-not-found.exception'
+export * from './review-subject-not-found.exception'
+export * from './unsupported-review-subject-type.exception'
+export * from './invalid-review-status-transition.exception'
+export * from './self-review-not-allowed.exception'
+export * from './review-content-changed.exception'
+export * from './review-not-approved.exception'
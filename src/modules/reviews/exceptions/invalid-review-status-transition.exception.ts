@@ -0,0 +1,8 @@
+import { BadRequestException } from '@nestjs/common'
+import { ReviewStatus } from '../constants'
+
+export class InvalidReviewStatusTransitionException extends BadRequestException {
+  constructor(from: ReviewStatus, to: ReviewStatus) {
+    super(`No se puede cambiar el estado de la revisión de "${from}" a "${to}"`)
+  }
+}
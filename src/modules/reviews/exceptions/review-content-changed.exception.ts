@@ -0,0 +1,9 @@
+import { ConflictException } from '@nestjs/common'
+
+export class ReviewContentChangedException extends ConflictException {
+  constructor(subjectType: string, subjectId: string) {
+    super(
+      `El contenido de ${subjectType} ${subjectId} cambió después de enviarse a revisión. Debe devolverse y volver a enviarse`,
+    )
+  }
+}
@@ -0,0 +1,9 @@
+import { ConflictException } from '@nestjs/common'
+
+export class ReviewNotApprovedException extends ConflictException {
+  constructor(subjectType: string, subjectId: string) {
+    super(
+      `${subjectType} ${subjectId} no tiene una revisión aprobada. Debe enviarse a revisión y aprobarse antes de continuar`,
+    )
+  }
+}
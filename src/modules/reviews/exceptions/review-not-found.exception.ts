@@ -0,0 +1,7 @@
+import { NotFoundException } from '@nestjs/common'
+
+export class ReviewNotFoundException extends NotFoundException {
+  constructor(subjectType: string, subjectId: string) {
+    super(`No hay una revisión para ${subjectType} con ID ${subjectId}`)
+  }
+}
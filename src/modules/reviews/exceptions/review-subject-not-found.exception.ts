@@ -0,0 +1,7 @@
+import { NotFoundException } from '@nestjs/common'
+
+export class ReviewSubjectNotFoundException extends NotFoundException {
+  constructor(subjectType: string, subjectId: string) {
+    super(`Registro ${subjectType} con ID ${subjectId} no encontrado`)
+  }
+}
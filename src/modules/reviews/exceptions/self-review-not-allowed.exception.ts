@@ -0,0 +1,9 @@
+import { ForbiddenException } from '@nestjs/common'
+
+export class SelfReviewNotAllowedException extends ForbiddenException {
+  constructor() {
+    super(
+      'No puede aprobar ni devolver un trabajo que usted preparó (segregación de funciones)',
+    )
+  }
+}
@@ -0,0 +1,9 @@
+import { BadRequestException } from '@nestjs/common'
+
+export class UnsupportedReviewSubjectTypeException extends BadRequestException {
+  constructor(subjectType: string, allowed: string[]) {
+    super(
+      `El tipo "${subjectType}" no admite revisión. Tipos admitidos: ${allowed.join(', ')}`,
+    )
+  }
+}
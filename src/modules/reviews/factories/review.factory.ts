@@ -0,0 +1,58 @@
+import { Injectable } from '@nestjs/common'
+import type { ObjectLiteral } from 'typeorm'
+import type { ReviewableConfig } from '@core/database'
+import { Role } from '../../users/entities/user.entity'
+import { ReviewEntity, ReviewSignOffEntity } from '../entities'
+import { SignOffAction } from '../constants'
+
+@Injectable()
+export class ReviewFactory {
+  /**
+   * Crea la revisión del primer envío de un registro
+   *
+   * @param config - Configuración @Reviewable del tipo
+   * @param subject - Registro revisado
+   * @param userId - Autor que envía el trabajo
+   * @param contentHash - Hash del contenido enviado
+   */
+  createFromSubmission(
+    config: ReviewableConfig,
+    subject: ObjectLiteral,
+    userId: string,
+    contentHash: string,
+  ): ReviewEntity {
+    const review = new ReviewEntity()
+    review.subjectType = config.type
+    review.subjectId = subject.id as string
+    review.organizationId = config.organizationId(subject) ?? null
+    review.submit(userId, contentHash)
+    return review
+  }
+
+  /**
+   * Crea la firma de un paso de la revisión
+   *
+   * @param review - Revisión (ya con el paso aplicado)
+   * @param action - Paso firmado
+   * @param userId - Usuario que firma
+   * @param role - Rol activo con el que firma
+   * @param comment - Comentario opcional
+   */
+  createSignOff(
+    review: ReviewEntity,
+    action: SignOffAction,
+    userId: string,
+    role: Role,
+    comment: string | null,
+  ): ReviewSignOffEntity {
+    const signOff = new ReviewSignOffEntity()
+    signOff.reviewId = review.id
+    signOff.action = action
+    signOff.userId = userId
+    signOff.role = role
+    signOff.contentHash = review.contentHash
+    signOff.comment = comment
+    signOff.signedAt = new Date()
+    return signOff
+  }
+}
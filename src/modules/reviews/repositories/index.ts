@@ -0,0 +1,4 @@
+export * from './reviews.repository'
+export * from './interfaces/reviews-repository.interface'
+export * from './review-sign-offs.repository'
+export * from './interfaces/review-sign-offs-repository.interface'
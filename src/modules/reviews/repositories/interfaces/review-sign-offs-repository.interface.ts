@@ -0,0 +1,4 @@
+import type { IBaseRepository } from '@core/repositories'
+import type { ReviewSignOffEntity } from '../../entities/review-sign-off.entity'
+
+export type IReviewSignOffsRepository = IBaseRepository<ReviewSignOffEntity>
@@ -0,0 +1,16 @@
+import type { IBaseRepository } from '@core/repositories'
+import type { ReviewEntity } from '../../entities/review.entity'
+import { FindReviewsDto } from '../../dtos'
+import { PaginatedData } from '@core/dtos'
+
+export interface IReviewsRepository extends IBaseRepository<ReviewEntity> {
+  findBySubject(
+    subjectType: string,
+    subjectId: string,
+  ): Promise<ReviewEntity | null>
+  findOneWithRelations(
+    subjectType: string,
+    subjectId: string,
+  ): Promise<ReviewEntity | null>
+  paginateReviews(query: FindReviewsDto): Promise<PaginatedData<ReviewEntity>>
+}
@@ -0,0 +1,27 @@
+import { Injectable } from '@nestjs/common'
+import { InjectRepository } from '@nestjs/typeorm'
+import { Repository } from 'typeorm'
+import { BaseRepository } from '@core/repositories'
+import { TransactionService, AuditService } from '@core/database'
+import { ReviewSignOffEntity } from '../entities/review-sign-off.entity'
+import type { IReviewSignOffsRepository } from './interfaces/review-sign-offs-repository.interface'
+
+/**
+ * Review Sign-Offs Repository
+ *
+ * Firmas de las revisiones (se accede después de validar la revisión)
+ */
+@Injectable()
+export class ReviewSignOffsRepository
+  extends BaseRepository<ReviewSignOffEntity>
+  implements IReviewSignOffsRepository
+{
+  constructor(
+    @InjectRepository(ReviewSignOffEntity)
+    repository: Repository<ReviewSignOffEntity>,
+    transactionService: TransactionService,
+    auditService: AuditService,
+  ) {
+    super(repository, transactionService, auditService)
+  }
+}
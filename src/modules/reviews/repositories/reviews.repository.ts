@@ -0,0 +1,95 @@
+import { Injectable } from '@nestjs/common'
+import { InjectRepository } from '@nestjs/typeorm'
+import { Repository } from 'typeorm'
+import { BaseRepository } from '@core/repositories'
+import { TransactionService, AuditService } from '@core/database'
+import { PaginatedData } from '@core/dtos'
+import { ReviewEntity } from '../entities/review.entity'
+import { FindReviewsDto } from '../dtos'
+import type { IReviewsRepository } from './interfaces/reviews-repository.interface'
+
+/**
+ * Reviews Repository
+ *
+ * Repositorio para gestionar las revisiones (limitadas a la organización actual)
+ */
+@Injectable()
+export class ReviewsRepository
+  extends BaseRepository<ReviewEntity>
+  implements IReviewsRepository
+{
+  constructor(
+    @InjectRepository(ReviewEntity)
+    repository: Repository<ReviewEntity>,
+    transactionService: TransactionService,
+    auditService: AuditService,
+  ) {
+    super(repository, transactionService, auditService)
+  }
+
+  /**
+   * Obtiene la revisión de un registro con sus firmas (para validar quién
+   * preparó el trabajo antes de modificarla)
+   *
+   * @param subjectType - Tipo declarado en @Reviewable
+   * @param subjectId - ID del registro revisado
+   * @returns Revisión o null
+   */
+  async findBySubject(
+    subjectType: string,
+    subjectId: string,
+  ): Promise<ReviewEntity | null> {
+    return await this.getRepo().findOne({
+      where: this.scopeWhere({ subjectType, subjectId }),
+      relations: { signOffs: true },
+    })
+  }
+
+  /**
+   * Obtiene la revisión de un registro con los usuarios y sus firmas (de la
+   * más antigua a la más reciente)
+   *
+   * @param subjectType - Tipo declarado en @Reviewable
+   * @param subjectId - ID del registro revisado
+   * @returns Revisión con relaciones o null
+   */
+  async findOneWithRelations(
+    subjectType: string,
+    subjectId: string,
+  ): Promise<ReviewEntity | null> {
+    return await this.getRepo().findOne({
+      where: this.scopeWhere({ subjectType, subjectId }),
+      relations: {
+        submittedBy: true,
+        reviewedBy: true,
+        signOffs: { user: true },
+      },
+      order: { signOffs: { signedAt: 'ASC' } },
+    })
+  }
+
+  async paginateReviews(
+    query: FindReviewsDto,
+  ): Promise<PaginatedData<ReviewEntity>> {
+    const { subjectType, submittedById, status } = query
+
+    const qb = this.getRepo()
+      .createQueryBuilder('review')
+      .leftJoinAndSelect('review.submittedBy', 'submittedBy')
+      .leftJoinAndSelect('review.reviewedBy', 'reviewedBy')
+
+    if (subjectType) {
+      qb.andWhere('review.subjectType = :subjectType', { subjectType })
+    }
+
+    if (submittedById) {
+      qb.andWhere('review.submittedById = :submittedById', { submittedById })
+    }
+
+    if (status) {
+      qb.andWhere('review.status = :status', { status })
+    }
+
+    return await this.paginateQueryBuilder(qb, query)
+  }
+}
@@ -0,0 +1,34 @@
+import { Module } from '@nestjs/common'
+import { ReviewsController } from './controllers/reviews.controller'
+import { ReviewFactory } from './factories'
+import { ReviewValidator } from './validators'
+import { ReviewContentService, ReviewSubjectsService } from './services'
+
+// Use Cases
+import {
+  FindReviewsUseCase,
+  FindReviewUseCase,
+  SubmitForReviewUseCase,
+  ApproveReviewUseCase,
+  ReturnReviewUseCase,
+} from './use-cases'
+
+@Module({
+  imports: [],
+  controllers: [ReviewsController],
+  providers: [
+    ReviewFactory,
+    ReviewValidator,
+    ReviewContentService,
+    ReviewSubjectsService,
+
+    // Use Cases
+    FindReviewsUseCase,
+    FindReviewUseCase,
+    SubmitForReviewUseCase,
+    ApproveReviewUseCase,
+    ReturnReviewUseCase,
+  ],
+  exports: [ReviewValidator],
+})
+export class ReviewsModule {}
@@ -0,0 +1,2 @@
+export * from './review-content.service'
+export * from './review-subjects.service'
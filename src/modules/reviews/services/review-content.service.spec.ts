@@ -0,0 +1,51 @@
+import { ReviewContentService } from './review-content.service'
+
+describe('ReviewContentService', () => {
+  let service: ReviewContentService
+
+  beforeEach(() => {
+    service = new ReviewContentService()
+  })
+
+  it('should keep only the signed columns', () => {
+    const finding = {
+      id: 'finding-1',
+      title: 'Cuentas de cesados activas',
+      status: 'draft',
+      updatedAt: new Date('2026-05-10T12:00:00Z'),
+      rootCause: undefined,
+    }
+
+    expect(
+      service.snapshot(
+        finding,
+        ['id', 'title', 'status', 'updatedAt', 'rootCause'],
+        new Set(['status', 'updatedAt']),
+      ),
+    ).toEqual({
+      id: 'finding-1',
+      title: 'Cuentas de cesados activas',
+      rootCause: null,
+    })
+  })
+
+  it('should hash the same content the same way regardless of key order', () => {
+    const first = service.computeHash({
+      title: 'Hallazgo',
+      scores: [{ level: 3, justification: 'Política aprobada' }],
+    })
+    const second = service.computeHash({
+      scores: [{ justification: 'Política aprobada', level: 3 }],
+      title: 'Hallazgo',
+    })
+
+    expect(first).toMatch(/^[0-9a-f]{64}$/)
+    expect(second).toBe(first)
+  })
+
+  it('should change the hash when the content changes', () => {
+    expect(service.computeHash({ level: 3 })).not.toBe(
+      service.computeHash({ level: 4 }),
+    )
+  })
+})
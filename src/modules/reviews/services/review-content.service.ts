@@ -0,0 +1,61 @@
+import { Injectable } from '@nestjs/common'
+import { createHash } from 'crypto'
+
+/**
+ * Review Content Service
+ *
+ * Calcula la huella (SHA-256) del contenido que se firma en una revisión,
+ * para detectar cambios entre el envío y la aprobación (sin acceso a datos)
+ */
+@Injectable()
+export class ReviewContentService {
+  /**
+   * Valores de las columnas de la entidad, sin los campos ignorados
+   *
+   * @param entity - Registro revisado
+   * @param columns - Propiedades de las columnas (metadata de TypeORM)
+   * @param ignore - Campos que no forman parte del contenido
+   */
+  snapshot(
+    entity: object,
+    columns: string[],
+    ignore: Set<string>,
+  ): Record<string, unknown> {
+    return Object.fromEntries(
+      columns
+        .filter((column) => !ignore.has(column))
+        .map((column) => [
+          column,
+          (entity as Record<string, unknown>)[column] ?? null,
+        ]),
+    )
+  }
+
+  /**
+   * SHA-256 (hex) del contenido serializado con las claves ordenadas,
+   * para que el mismo contenido produzca siempre el mismo hash
+   */
+  computeHash(content: unknown): string {
+    return createHash('sha256').update(this.canonicalize(content)).digest('hex')
+  }
+
+  /**
+   * JSON con las claves de los objetos ordenadas (en todos los niveles)
+   */
+  private canonicalize(value: unknown): string {
+    if (Array.isArray(value)) {
+      return `[${value.map((item) => this.canonicalize(item)).join(',')}]`
+    }
+    if (value && typeof value === 'object' && !(value instanceof Date)) {
+      const entries = Object.keys(value)
+        .sort()
+        .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+        .map(
+          (key) =>
+            `${JSON.stringify(key)}:${this.canonicalize((value as Record<string, unknown>)[key])}`,
+        )
+      return `{${entries.join(',')}}`
+    }
+    return JSON.stringify(value ?? null)
+  }
+}
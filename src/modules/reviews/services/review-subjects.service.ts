@@ -0,0 +1,96 @@
+import { Injectable } from '@nestjs/common'
+import { InjectDataSource } from '@nestjs/typeorm'
+import type { DataSource, EntityTarget, ObjectLiteral } from 'typeorm'
+import {
+  AuditService,
+  TransactionService,
+  getTenantColumn,
+} from '@core/database'
+import type { ReviewableConfig } from '@core/database'
+import { ReviewContentService } from './review-content.service'
+
+/**
+ * Review Subjects Service
+ *
+ * Acceso genérico a los registros @Reviewable: los carga (limitados a la
+ * organización actual), calcula el hash de su contenido y resuelve sus autores
+ */
+@Injectable()
+export class ReviewSubjectsService {
+  constructor(
+    @InjectDataSource() private readonly dataSource: DataSource,
+    private readonly transactionService: TransactionService,
+    private readonly auditService: AuditService,
+    private readonly reviewContentService: ReviewContentService,
+  ) {}
+
+  /**
+   * Busca el registro revisado (null si no existe o es de otra organización)
+   */
+  async findSubject(
+    config: ReviewableConfig,
+    subjectId: string,
+  ): Promise<ObjectLiteral | null> {
+    const where: Record<string, string> = { id: subjectId }
+    const column = getTenantColumn(config.target)
+    const tenantId = this.auditService.getCurrentTenantId()
+    if (column && tenantId) where[column] = tenantId
+
+    return await this.getManager().findOne(this.getTarget(config), { where })
+  }
+
+  /**
+   * Hash SHA-256 del contenido actual del registro: sus columnas (sin los
+   * campos ignorados) más el contenido adicional declarado en @Reviewable
+   */
+  async computeContentHash(
+    config: ReviewableConfig,
+    subject: ObjectLiteral,
+  ): Promise<string> {
+    const manager = this.getManager()
+    const columns = manager
+      .getRepository(this.getTarget(config))
+      .metadata.columns.map((column) => column.propertyName)
+
+    const content = {
+      ...this.reviewContentService.snapshot(subject, columns, config.ignore),
+      ...(config.content
+        ? await config.content({ entity: subject, manager })
+        : {}),
+    }
+
+    return this.reviewContentService.computeHash(content)
+  }
+
+  /**
+   * Usuarios que prepararon el trabajo: quien creó el registro, quien lo
+   * editó por última vez y los autores declarados en @Reviewable
+   */
+  async findAuthorIds(
+    config: ReviewableConfig,
+    subject: ObjectLiteral,
+  ): Promise<string[]> {
+    const { createdBy, updatedBy } = subject as {
+      createdBy?: string
+      updatedBy?: string
+    }
+    const declared = config.authors
+      ? await config.authors({ entity: subject, manager: this.getManager() })
+      : []
+
+    return [createdBy, updatedBy, ...declared].filter(
+      (userId): userId is string => !!userId,
+    )
+  }
+
+  private getManager() {
+    return (
+      this.transactionService.getCurrentEntityManager() ??
+      this.dataSource.manager
+    )
+  }
+
+  private getTarget(config: ReviewableConfig): EntityTarget<ObjectLiteral> {
+    return config.target as EntityTarget<ObjectLiteral>
+  }
+}
@@ -0,0 +1,2 @@
+export const REVIEWS_REPOSITORY = Symbol('REVIEWS_REPOSITORY')
+export const REVIEW_SIGN_OFFS_REPOSITORY = Symbol('REVIEW_SIGN_OFFS_REPOSITORY')
@@ -0,0 +1,79 @@
+import { Inject, Injectable } from '@nestjs/common'
+import { Transactional } from '@core/database/transactional.decorator'
+import { Role } from '../../../users/entities/user.entity'
+import type { ReviewEntity } from '../../entities'
+import { ReviewStatus, SignOffAction } from '../../constants'
+import { SignOffReviewDto } from '../../dtos'
+import { ReviewValidator } from '../../validators'
+import { ReviewFactory } from '../../factories'
+import { ReviewSubjectsService } from '../../services'
+import { REVIEWS_REPOSITORY, REVIEW_SIGN_OFFS_REPOSITORY } from '../../tokens'
+import type {
+  IReviewsRepository,
+  IReviewSignOffsRepository,
+} from '../../repositories'
+
+@Injectable()
+export class ApproveReviewUseCase {
+  constructor(
+    @Inject(REVIEWS_REPOSITORY)
+    private readonly reviewsRepository: IReviewsRepository,
+    @Inject(REVIEW_SIGN_OFFS_REPOSITORY)
+    private readonly signOffsRepository: IReviewSignOffsRepository,
+    private readonly reviewValidator: ReviewValidator,
+    private readonly reviewFactory: ReviewFactory,
+    private readonly reviewSubjectsService: ReviewSubjectsService,
+  ) {}
+
+  /**
+   * Aprueba el trabajo enviado (submitted → approved) y firma su contenido
+   *
+   * @param subjectType - Tipo declarado en @Reviewable
+   * @param subjectId - ID del registro
+   * @param dto - Comentario del revisor
+   * @param userId - Revisor
+   * @param role - Rol activo del revisor
+   * @returns Revisión aprobada
+   * @throws {ReviewNotFoundException} Si el registro no se envió a revisión
+   * @throws {InvalidReviewStatusTransitionException} Si no está pendiente de revisión
+   * @throws {SelfReviewNotAllowedException} Si el revisor preparó el trabajo
+   * @throws {ReviewContentChangedException} Si el registro cambió después del envío
+   */
+  @Transactional()
+  async execute(
+    subjectType: string,
+    subjectId: string,
+    dto: SignOffReviewDto,
+    userId: string,
+    role: Role,
+  ): Promise<ReviewEntity> {
+    const config = this.reviewValidator.validateAndGetConfig(subjectType)
+    const subject = await this.reviewValidator.validateAndGetSubject(
+      config,
+      subjectId,
+    )
+    const review = await this.reviewValidator.validateAndGetReview(
+      config.type,
+      subjectId,
+    )
+    this.reviewValidator.validateTransition(review, ReviewStatus.APPROVED)
+    await this.reviewValidator.validateReviewer(config, review, subject, userId)
+    this.reviewValidator.validateContentUnchanged(
+      review,
+      await this.reviewSubjectsService.computeContentHash(config, subject),
+    )
+
+    review.approve(userId, dto.comment ?? null)
+    const saved = await this.reviewsRepository.save(review)
+    await this.signOffsRepository.save(
+      this.reviewFactory.createSignOff(
+        saved,
+        SignOffAction.APPROVE,
+        userId,
+        role,
+        dto.comment ?? null,
+      ),
+    )
+    return saved
+  }
+}
@@ -0,0 +1,32 @@
+import { Inject, Injectable } from '@nestjs/common'
+import type { ReviewEntity } from '../../entities'
+import { ReviewNotFoundException } from '../../exceptions'
+import { REVIEWS_REPOSITORY } from '../../tokens'
+import type { IReviewsRepository } from '../../repositories'
+
+@Injectable()
+export class FindReviewUseCase {
+  constructor(
+    @Inject(REVIEWS_REPOSITORY)
+    private readonly reviewsRepository: IReviewsRepository,
+  ) {}
+
+  /**
+   * @param subjectType - Tipo declarado en @Reviewable
+   * @param subjectId - ID del registro revisado
+   * @returns Revisión con autor, revisor y firmas
+   * @throws {ReviewNotFoundException} Si el registro nunca se envió a revisión
+   */
+  async execute(subjectType: string, subjectId: string): Promise<ReviewEntity> {
+    const review = await this.reviewsRepository.findOneWithRelations(
+      subjectType,
+      subjectId,
+    )
+
+    if (!review) {
+      throw new ReviewNotFoundException(subjectType, subjectId)
+    }
+
+    return review
+  }
+}
@@ -0,0 +1,35 @@
+import { Inject, Injectable } from '@nestjs/common'
+import type { ReviewEntity } from '../../entities'
+import { REVIEWS_REPOSITORY } from '../../tokens'
+import type { IReviewsRepository } from '../../repositories'
+import { FindReviewsDto } from '../../dtos'
+import { PaginatedResponse, PaginatedResponseBuilder } from '@core/dtos'
+
+/**
+ * Find Reviews Use Case
+ *
+ * Lista las revisiones con filtros por tipo de registro, autor y estado
+ * (ej: la bandeja de trabajos pendientes de aprobación)
+ */
+@Injectable()
+export class FindReviewsUseCase {
+  constructor(
+    @Inject(REVIEWS_REPOSITORY)
+    private readonly reviewsRepository: IReviewsRepository,
+  ) {}
+
+  async execute(dto: FindReviewsDto): Promise<PaginatedResponse<ReviewEntity>> {
+    const { data, total } = await this.reviewsRepository.paginateReviews(dto)
+
+    if (dto.all) {
+      return PaginatedResponseBuilder.createAll(data)
+    }
+
+    return PaginatedResponseBuilder.create(
+      data,
+      total,
+      dto.page || 1,
+      dto.limit || 10,
+    )
+  }
+}
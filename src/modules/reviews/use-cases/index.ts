@@ -0,0 +1,5 @@
+export * from './find-reviews/find-reviews.use-case'
+export * from './find-review/find-review.use-case'
+export * from './submit-for-review/submit-for-review.use-case'
+export * from './approve-review/approve-review.use-case'
+export * from './return-review/return-review.use-case'
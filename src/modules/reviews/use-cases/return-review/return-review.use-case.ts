@@ -0,0 +1,73 @@
+import { Inject, Injectable } from '@nestjs/common'
+import { Transactional } from '@core/database/transactional.decorator'
+import { Role } from '../../../users/entities/user.entity'
+import type { ReviewEntity } from '../../entities'
+import { ReviewStatus, SignOffAction } from '../../constants'
+import { ReturnReviewDto } from '../../dtos'
+import { ReviewValidator } from '../../validators'
+import { ReviewFactory } from '../../factories'
+import { REVIEWS_REPOSITORY, REVIEW_SIGN_OFFS_REPOSITORY } from '../../tokens'
+import type {
+  IReviewsRepository,
+  IReviewSignOffsRepository,
+} from '../../repositories'
+
+@Injectable()
+export class ReturnReviewUseCase {
+  constructor(
+    @Inject(REVIEWS_REPOSITORY)
+    private readonly reviewsRepository: IReviewsRepository,
+    @Inject(REVIEW_SIGN_OFFS_REPOSITORY)
+    private readonly signOffsRepository: IReviewSignOffsRepository,
+    private readonly reviewValidator: ReviewValidator,
+    private readonly reviewFactory: ReviewFactory,
+  ) {}
+
+  /**
+   * Devuelve el trabajo al autor con comentarios (submitted → returned).
+   * La firma registra el contenido que se envió a revisión.
+   *
+   * @param subjectType - Tipo declarado en @Reviewable
+   * @param subjectId - ID del registro
+   * @param dto - Correcciones pedidas
+   * @param userId - Revisor
+   * @param role - Rol activo del revisor
+   * @returns Revisión devuelta
+   * @throws {ReviewNotFoundException} Si el registro no se envió a revisión
+   * @throws {InvalidReviewStatusTransitionException} Si no está pendiente de revisión
+   * @throws {SelfReviewNotAllowedException} Si el revisor preparó el trabajo
+   */
+  @Transactional()
+  async execute(
+    subjectType: string,
+    subjectId: string,
+    dto: ReturnReviewDto,
+    userId: string,
+    role: Role,
+  ): Promise<ReviewEntity> {
+    const config = this.reviewValidator.validateAndGetConfig(subjectType)
+    const subject = await this.reviewValidator.validateAndGetSubject(
+      config,
+      subjectId,
+    )
+    const review = await this.reviewValidator.validateAndGetReview(
+      config.type,
+      subjectId,
+    )
+    this.reviewValidator.validateTransition(review, ReviewStatus.RETURNED)
+    await this.reviewValidator.validateReviewer(config, review, subject, userId)
+
+    review.returnForRevision(userId, dto.comment)
+    const saved = await this.reviewsRepository.save(review)
+    await this.signOffsRepository.save(
+      this.reviewFactory.createSignOff(
+        saved,
+        SignOffAction.RETURN,
+        userId,
+        role,
+        dto.comment,
+      ),
+    )
+    return saved
+  }
+}
@@ -0,0 +1,88 @@
+import { Inject, Injectable } from '@nestjs/common'
+import { Transactional } from '@core/database/transactional.decorator'
+import { Role } from '../../../users/entities/user.entity'
+import type { ReviewEntity } from '../../entities'
+import { ReviewStatus, SignOffAction } from '../../constants'
+import { SignOffReviewDto } from '../../dtos'
+import { ReviewValidator } from '../../validators'
+import { ReviewFactory } from '../../factories'
+import { ReviewSubjectsService } from '../../services'
+import { REVIEWS_REPOSITORY, REVIEW_SIGN_OFFS_REPOSITORY } from '../../tokens'
+import type {
+  IReviewsRepository,
+  IReviewSignOffsRepository,
+} from '../../repositories'
+
+@Injectable()
+export class SubmitForReviewUseCase {
+  constructor(
+    @Inject(REVIEWS_REPOSITORY)
+    private readonly reviewsRepository: IReviewsRepository,
+    @Inject(REVIEW_SIGN_OFFS_REPOSITORY)
+    private readonly signOffsRepository: IReviewSignOffsRepository,
+    private readonly reviewValidator: ReviewValidator,
+    private readonly reviewFactory: ReviewFactory,
+    private readonly reviewSubjectsService: ReviewSubjectsService,
+  ) {}
+
+  /**
+   * Envía un registro a revisión (primer envío o returned → submitted)
+   * y firma el contenido enviado
+   *
+   * @param subjectType - Tipo declarado en @Reviewable
+   * @param subjectId - ID del registro
+   * @param dto - Comentario del autor
+   * @param userId - Autor que envía
+   * @param role - Rol activo del autor
+   * @returns Revisión actualizada
+   * @throws {UnsupportedReviewSubjectTypeException} Si el tipo no admite revisión
+   * @throws {ReviewSubjectNotFoundException} Si el registro no existe
+   * @throws {InvalidReviewStatusTransitionException} Si ya está en revisión o aprobado
+   */
+  @Transactional()
+  async execute(
+    subjectType: string,
+    subjectId: string,
+    dto: SignOffReviewDto,
+    userId: string,
+    role: Role,
+  ): Promise<ReviewEntity> {
+    const config = this.reviewValidator.validateAndGetConfig(subjectType)
+    const subject = await this.reviewValidator.validateAndGetSubject(
+      config,
+      subjectId,
+    )
+    const contentHash = await this.reviewSubjectsService.computeContentHash(
+      config,
+      subject,
+    )
+
+    let review = await this.reviewsRepository.findBySubject(
+      config.type,
+      subjectId,
+    )
+    if (review) {
+      this.reviewValidator.validateTransition(review, ReviewStatus.SUBMITTED)
+      review.submit(userId, contentHash)
+    } else {
+      review = this.reviewFactory.createFromSubmission(
+        config,
+        subject,
+        userId,
+        contentHash,
+      )
+    }
+
+    const saved = await this.reviewsRepository.save(review)
+    await this.signOffsRepository.save(
+      this.reviewFactory.createSignOff(
+        saved,
+        SignOffAction.SUBMIT,
+        userId,
+        role,
+        dto.comment ?? null,
+      ),
+    )
+    return saved
+  }
+}
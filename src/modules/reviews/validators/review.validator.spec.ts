@@ -0,0 +1,270 @@
+/* eslint-disable @typescript-eslint/unbound-method */
+import { Test, TestingModule } from '@nestjs/testing'
+import { getDataSourceToken } from '@nestjs/typeorm'
+import type { EntityManager } from 'typeorm'
+import {
+  AuditService,
+  ReviewableRegistry,
+  TransactionService,
+} from '@core/database'
+import { ReviewValidator } from './review.validator'
+import { ReviewContentService, ReviewSubjectsService } from '../services'
+import { REVIEWS_REPOSITORY } from '../tokens'
+import type { IReviewsRepository } from '../repositories'
+import { ReviewEntity, ReviewSignOffEntity } from '../entities'
+import { ReviewStatus, SignOffAction } from '../constants'
+import {
+  InvalidReviewStatusTransitionException,
+  ReviewContentChangedException,
+  ReviewNotApprovedException,
+  ReviewNotFoundException,
+  SelfReviewNotAllowedException,
+  UnsupportedReviewSubjectTypeException,
+} from '../exceptions'
+import { createMock } from '@core/testing'
+// Registra las entidades @Reviewable 'finding' y 'audit'
+import '../../findings/entities/finding.entity'
+import { AuditScoreEntity } from '../../audits/entities/audit-score.entity'
+import '../../audits/entities/audit.entity'
+
+describe('ReviewValidator', () => {
+  let validator: ReviewValidator
+  let reviewsRepository: jest.Mocked<IReviewsRepository>
+  let manager: jest.Mocked<EntityManager>
+  let reviewSubjectsService: ReviewSubjectsService
+
+  const buildReview = (status: ReviewStatus, submitters: string[] = []) =>
+    Object.assign(new ReviewEntity(), {
+      id: 'review-1',
+      subjectType: 'finding',
+      subjectId: 'finding-1',
+      status,
+      contentHash: 'a'.repeat(64),
+      submittedById: 'auditor-2',
+      signOffs: submitters.map((userId) =>
+        Object.assign(new ReviewSignOffEntity(), {
+          action: SignOffAction.SUBMIT,
+          userId,
+        }),
+      ),
+    })
+
+  beforeEach(async () => {
+    reviewsRepository = createMock<IReviewsRepository>({
+      findBySubject: jest.fn(),
+    })
+    manager = createMock<EntityManager>({
+      find: jest.fn().mockResolvedValue([]),
+    })
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ReviewValidator,
+        { provide: REVIEWS_REPOSITORY, useValue: reviewsRepository },
+        ReviewSubjectsService,
+        ReviewContentService,
+        { provide: getDataSourceToken(), useValue: { manager } },
+        {
+          provide: TransactionService,
+          useValue: createMock<TransactionService>({
+            getCurrentEntityManager: jest.fn().mockReturnValue(undefined),
+          }),
+        },
+        { provide: AuditService, useValue: createMock() },
+      ],
+    }).compile()
+
+    validator = module.get<ReviewValidator>(ReviewValidator)
+    reviewSubjectsService = module.get<ReviewSubjectsService>(
+      ReviewSubjectsService,
+    )
+  })
+
+  afterEach(() => {
+    jest.clearAllMocks()
+  })
+
+  describe('validateAndGetConfig', () => {
+    it('should return the configuration of a reviewable type', () => {
+      expect(validator.validateAndGetConfig('finding').type).toBe('finding')
+      expect(ReviewableRegistry.getTypes()).toContain('finding')
+    })
+
+    it('should reject a type that did not opt into reviews', () => {
+      expect(() => validator.validateAndGetConfig('invoice')).toThrow(
+        UnsupportedReviewSubjectTypeException,
+      )
+    })
+  })
+
+  describe('validateAndGetReview', () => {
+    it('should throw when the record was never submitted', async () => {
+      reviewsRepository.findBySubject.mockResolvedValue(null)
+
+      await expect(
+        validator.validateAndGetReview('finding', 'finding-1'),
+      ).rejects.toThrow(ReviewNotFoundException)
+    })
+  })
+
+  describe('validateTransition', () => {
+    it('should not approve a review that was returned', () => {
+      expect(() =>
+        validator.validateTransition(
+          buildReview(ReviewStatus.RETURNED),
+          ReviewStatus.APPROVED,
+        ),
+      ).toThrow(InvalidReviewStatusTransitionException)
+    })
+
+    it('should not reopen an approved review', () => {
+      expect(() =>
+        validator.validateTransition(
+          buildReview(ReviewStatus.APPROVED),
+          ReviewStatus.SUBMITTED,
+        ),
+      ).toThrow(InvalidReviewStatusTransitionException)
+    })
+  })
+
+  describe('validateReviewer', () => {
+    const subject = { id: 'finding-1', createdBy: 'auditor-1' }
+
+    it('should reject the author of the record', async () => {
+      await expect(
+        validator.validateReviewer(
+          validator.validateAndGetConfig('finding'),
+          buildReview(ReviewStatus.SUBMITTED),
+          subject,
+          'auditor-1',
+        ),
+      ).rejects.toThrow(SelfReviewNotAllowedException)
+    })
+
+    it('should reject the last editor of the record', async () => {
+      await expect(
+        validator.validateReviewer(
+          validator.validateAndGetConfig('finding'),
+          buildReview(ReviewStatus.SUBMITTED),
+          { ...subject, updatedBy: 'auditor-4' },
+          'auditor-4',
+        ),
+      ).rejects.toThrow(SelfReviewNotAllowedException)
+    })
+
+    it('should reject anyone who submitted the work in a previous round', async () => {
+      await expect(
+        validator.validateReviewer(
+          validator.validateAndGetConfig('finding'),
+          buildReview(ReviewStatus.SUBMITTED, ['auditor-3', 'auditor-2']),
+          subject,
+          'auditor-3',
+        ),
+      ).rejects.toThrow(SelfReviewNotAllowedException)
+    })
+
+    it('should reject a GERENTE who scored the audit as AUDITOR', async () => {
+      // Arrange: el usuario tiene ambos roles, evaluó un control y otro
+      // auditor creó y envió la auditoría
+      manager.find.mockResolvedValue([
+        { assessedById: 'auditor-2' },
+        { assessedById: 'gerente-auditor-1' },
+      ])
+      const review = Object.assign(buildReview(ReviewStatus.SUBMITTED), {
+        subjectType: 'audit',
+        subjectId: 'audit-1',
+      })
+
+      // Act & Assert
+      await expect(
+        validator.validateReviewer(
+          validator.validateAndGetConfig('audit'),
+          review,
+          { id: 'audit-1', createdBy: 'auditor-2', updatedBy: 'auditor-2' },
+          'gerente-auditor-1',
+        ),
+      ).rejects.toThrow(SelfReviewNotAllowedException)
+      expect(manager.find).toHaveBeenCalledWith(
+        AuditScoreEntity,
+        expect.objectContaining({ where: { auditId: 'audit-1' } }),
+      )
+    })
+
+    it('should accept an independent reviewer', async () => {
+      await expect(
+        validator.validateReviewer(
+          validator.validateAndGetConfig('finding'),
+          buildReview(ReviewStatus.SUBMITTED, ['auditor-2']),
+          subject,
+          'gerente-1',
+        ),
+      ).resolves.toBeUndefined()
+    })
+  })
+
+  describe('validateContentUnchanged', () => {
+    it('should reject signing content that changed after submission', () => {
+      expect(() =>
+        validator.validateContentUnchanged(
+          buildReview(ReviewStatus.SUBMITTED),
+          'b'.repeat(64),
+        ),
+      ).toThrow(ReviewContentChangedException)
+    })
+  })
+
+  describe('validateApproved', () => {
+    const finding = { id: 'finding-1', createdBy: 'auditor-1' }
+
+    beforeEach(() => {
+      jest
+        .spyOn(reviewSubjectsService, 'computeContentHash')
+        .mockResolvedValue('a'.repeat(64))
+    })
+
+    it('should reject a record that was never submitted', async () => {
+      reviewsRepository.findBySubject.mockResolvedValue(null)
+
+      await expect(
+        validator.validateApproved('finding', finding),
+      ).rejects.toThrow(ReviewNotApprovedException)
+    })
+
+    it('should reject a review that is still pending', async () => {
+      reviewsRepository.findBySubject.mockResolvedValue(
+        buildReview(ReviewStatus.SUBMITTED),
+      )
+
+      await expect(
+        validator.validateApproved('finding', finding),
+      ).rejects.toThrow(ReviewNotApprovedException)
+    })
+
+    it('should reject content that changed after the approval', async () => {
+      reviewsRepository.findBySubject.mockResolvedValue(
+        buildReview(ReviewStatus.APPROVED),
+      )
+      jest
+        .spyOn(reviewSubjectsService, 'computeContentHash')
+        .mockResolvedValue('b'.repeat(64))
+
+      await expect(
+        validator.validateApproved('finding', finding),
+      ).rejects.toThrow(ReviewContentChangedException)
+    })
+
+    it('should accept the approved content', async () => {
+      reviewsRepository.findBySubject.mockResolvedValue(
+        buildReview(ReviewStatus.APPROVED),
+      )
+
+      await expect(
+        validator.validateApproved('finding', finding),
+      ).resolves.toBeUndefined()
+      expect(reviewsRepository.findBySubject).toHaveBeenCalledWith(
+        'finding',
+        'finding-1',
+      )
+    })
+  })
+})
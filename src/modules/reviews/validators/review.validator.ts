@@ -0,0 +1,163 @@
+import { Injectable, Inject } from '@nestjs/common'
+import type { ObjectLiteral } from 'typeorm'
+import { ReviewableRegistry } from '@core/database'
+import type { ReviewableConfig } from '@core/database'
+import { ReviewEntity } from '../entities'
+import { ReviewStatus } from '../constants'
+import {
+  ReviewNotFoundException,
+  ReviewSubjectNotFoundException,
+  UnsupportedReviewSubjectTypeException,
+  InvalidReviewStatusTransitionException,
+  SelfReviewNotAllowedException,
+  ReviewContentChangedException,
+  ReviewNotApprovedException,
+} from '../exceptions'
+import { ReviewSubjectsService } from '../services'
+import { REVIEWS_REPOSITORY } from '../tokens'
+import type { IReviewsRepository } from '../repositories'
+
+@Injectable()
+export class ReviewValidator {
+  constructor(
+    @Inject(REVIEWS_REPOSITORY)
+    private readonly reviewsRepository: IReviewsRepository,
+    private readonly reviewSubjectsService: ReviewSubjectsService,
+  ) {}
+
+  /**
+   * Valida que el tipo de registro admite revisión y retorna su configuración
+   *
+   * @throws {UnsupportedReviewSubjectTypeException} Si no hay una entidad @Reviewable con ese tipo
+   */
+  validateAndGetConfig(subjectType: string): ReviewableConfig {
+    const config = ReviewableRegistry.get(subjectType)
+
+    if (!config) {
+      throw new UnsupportedReviewSubjectTypeException(
+        subjectType,
+        ReviewableRegistry.getTypes(),
+      )
+    }
+
+    return config
+  }
+
+  /**
+   * Valida que el registro existe (en la organización actual) y lo retorna
+   *
+   * @throws {ReviewSubjectNotFoundException} Si no existe
+   */
+  async validateAndGetSubject(
+    config: ReviewableConfig,
+    subjectId: string,
+  ): Promise<ObjectLiteral> {
+    const subject = await this.reviewSubjectsService.findSubject(
+      config,
+      subjectId,
+    )
+
+    if (!subject) {
+      throw new ReviewSubjectNotFoundException(config.type, subjectId)
+    }
+
+    return subject
+  }
+
+  /**
+   * Valida que el registro fue enviado a revisión y retorna la revisión
+   *
+   * @throws {ReviewNotFoundException} Si nunca se envió a revisión
+   */
+  async validateAndGetReview(
+    subjectType: string,
+    subjectId: string,
+  ): Promise<ReviewEntity> {
+    const review = await this.reviewsRepository.findBySubject(
+      subjectType,
+      subjectId,
+    )
+
+    if (!review) {
+      throw new ReviewNotFoundException(subjectType, subjectId)
+    }
+
+    return review
+  }
+
+  /**
+   * Valida que la revisión puede pasar al estado indicado
+   *
+   * @throws {InvalidReviewStatusTransitionException} Si la transición no está permitida
+   */
+  validateTransition(review: ReviewEntity, status: ReviewStatus): void {
+    if (!review.canTransitionTo(status)) {
+      throw new InvalidReviewStatusTransitionException(review.status, status)
+    }
+  }
+
+  /**
+   * Segregación de funciones: quien preparó el trabajo (lo creó, lo editó,
+   * lo envió a revisión alguna vez o figura como autor en @Reviewable) no
+   * puede aprobarlo ni devolverlo, aunque tenga también el rol revisor
+   *
+   * @throws {SelfReviewNotAllowedException} Si el revisor es autor del trabajo
+   */
+  async validateReviewer(
+    config: ReviewableConfig,
+    review: ReviewEntity,
+    subject: ObjectLiteral,
+    userId: string,
+  ): Promise<void> {
+    const authors = [
+      ...review.authorIds,
+      ...(await this.reviewSubjectsService.findAuthorIds(config, subject)),
+    ]
+
+    if (authors.includes(userId)) {
+      throw new SelfReviewNotAllowedException()
+    }
+  }
+
+  /**
+   * Valida que el registro tiene una revisión aprobada sobre su contenido
+   * actual. Lo usan los pasos que requieren el visto bueno del revisor
+   * (ej: cerrar una auditoría, comunicar un hallazgo)
+   *
+   * @throws {ReviewNotApprovedException} Si no se envió a revisión o no está aprobada
+   * @throws {ReviewContentChangedException} Si el registro cambió después de aprobarse
+   */
+  async validateApproved(
+    subjectType: string,
+    subject: ObjectLiteral & { id: string },
+  ): Promise<void> {
+    const config = this.validateAndGetConfig(subjectType)
+    const review = await this.reviewsRepository.findBySubject(
+      config.type,
+      subject.id,
+    )
+
+    if (review?.status !== ReviewStatus.APPROVED) {
+      throw new ReviewNotApprovedException(config.type, subject.id)
+    }
+
+    this.validateContentUnchanged(
+      review,
+      await this.reviewSubjectsService.computeContentHash(config, subject),
+    )
+  }
+
+  /**
+   * Valida que se firma el mismo contenido que se envió a revisión
+   *
+   * @throws {ReviewContentChangedException} Si el registro cambió después del envío
+   */
+  validateContentUnchanged(review: ReviewEntity, contentHash: string): void {
+    if (review.contentHash !== contentHash) {
+      throw new ReviewContentChangedException(
+        review.subjectType,
+        review.subjectId,
+      )
+    }
+  }
+}
@@ -0,0 +1,4 @@
+export * from './self-assessment-status.enum'
+export * from './self-assessment-answer.enum'
+export * from './response-review-status.enum'
+export * from './self-assessment-schema.constants'
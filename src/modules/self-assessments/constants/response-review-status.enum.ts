@@ -0,0 +1,19 @@
+/**
+ * Revisión del auditor sobre una respuesta
+ */
+export enum ResponseReviewStatus {
+  /**
+   * Pendiente - Sin revisar (o modificada después de revisarse)
+   */
+  PENDING = 'pending',
+
+  /**
+   * Aceptada - El auditor está conforme con la respuesta
+   */
+  ACCEPTED = 'accepted',
+
+  /**
+   * Observada - El auditor cuestiona la respuesta (con comentario)
+   */
+  CHALLENGED = 'challenged',
+}
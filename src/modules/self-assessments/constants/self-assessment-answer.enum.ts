@@ -0,0 +1,18 @@
+/**
+ * Respuesta de la organización sobre un control
+ */
+export enum SelfAssessmentAnswer {
+  IMPLEMENTED = 'implemented',
+  PARTIALLY_IMPLEMENTED = 'partially_implemented',
+  NOT_IMPLEMENTED = 'not_implemented',
+  NOT_APPLICABLE = 'not_applicable',
+}
+
+/**
+ * Respuestas que requieren un comentario que las justifique
+ */
+export const SELF_ASSESSMENT_ANSWERS_REQUIRING_COMMENT: SelfAssessmentAnswer[] =
+  [
+    SelfAssessmentAnswer.PARTIALLY_IMPLEMENTED,
+    SelfAssessmentAnswer.NOT_APPLICABLE,
+  ]
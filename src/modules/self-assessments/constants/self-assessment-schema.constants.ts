@@ -0,0 +1,36 @@
+import { FileType } from '@core/files/enums'
+import { FILE_UPLOAD_CONFIGS } from '@core/files/dtos'
+import type { FileUploadOptions } from '@core/files/dtos'
+
+export const SELF_ASSESSMENT_CONSTRAINTS = {
+  TITLE: {
+    MIN_LENGTH: 5,
+    MAX_LENGTH: 200,
+  },
+  COMMENT: {
+    MAX_LENGTH: 5000,
+  },
+  REVIEW_COMMENT: {
+    MIN_LENGTH: 10,
+    MAX_LENGTH: 5000,
+  },
+  FILE_NAME: {
+    MAX_LENGTH: 255,
+  },
+} as const
+
+/**
+ * Tipos de archivo aceptados como adjunto de una respuesta
+ * (políticas, procedimientos, exportaciones y capturas de pantalla)
+ */
+export const SELF_ASSESSMENT_ATTACHMENT_UPLOAD_CONFIGS: Partial<
+  Record<FileType, FileUploadOptions>
+> = {
+  [FileType.DOCUMENT]: FILE_UPLOAD_CONFIGS.DOCUMENT,
+  [FileType.PDF]: FILE_UPLOAD_CONFIGS.PDF,
+  [FileType.SPREADSHEET]: FILE_UPLOAD_CONFIGS.SPREADSHEET,
+  [FileType.IMAGE]: {
+    fileType: FileType.IMAGE,
+    maxSize: 10 * 1024 * 1024, // 10MB
+  },
+}
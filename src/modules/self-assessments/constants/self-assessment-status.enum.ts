@@ -0,0 +1,38 @@
+export enum SelfAssessmentStatus {
+  /**
+   * Abierto - La organización está respondiendo (guarda borradores)
+   */
+  OPEN = 'open',
+
+  /**
+   * Enviado - Respuestas enviadas, en revisión por los auditores
+   */
+  SUBMITTED = 'submitted',
+
+  /**
+   * Devuelto - Hay respuestas observadas que la organización debe corregir
+   */
+  RETURNED = 'returned',
+
+  /**
+   * Completado - Todas las respuestas fueron aceptadas
+   */
+  COMPLETED = 'completed',
+}
+
+/**
+ * Transiciones permitidas del ciclo de vida de una autoevaluación
+ * open → submitted → returned → submitted → completed
+ */
+export const SELF_ASSESSMENT_STATUS_TRANSITIONS: Record<
+  SelfAssessmentStatus,
+  SelfAssessmentStatus[]
+> = {
+  [SelfAssessmentStatus.OPEN]: [SelfAssessmentStatus.SUBMITTED],
+  [SelfAssessmentStatus.SUBMITTED]: [
+    SelfAssessmentStatus.RETURNED,
+    SelfAssessmentStatus.COMPLETED,
+  ],
+  [SelfAssessmentStatus.RETURNED]: [SelfAssessmentStatus.SUBMITTED],
+  [SelfAssessmentStatus.COMPLETED]: [],
+}
@@ -0,0 +1,95 @@
+import type { INestApplication } from '@nestjs/common'
+import request from 'supertest'
+import { SelfAssessmentsController } from './self-assessments.controller'
+import {
+  AnswerSelfAssessmentResponseUseCase,
+  CompleteSelfAssessmentUseCase,
+  ReviewSelfAssessmentResponseUseCase,
+  SubmitSelfAssessmentUseCase,
+} from '../use-cases'
+import { Role } from '../../users/entities/user.entity'
+import type { JwtPayload } from '../../auth/core/interfaces'
+import { createPermissionsTestingApp } from '../../authorization/testing'
+
+describe('SelfAssessmentsController (permissions)', () => {
+  let app: INestApplication
+  let user: Partial<JwtPayload>
+
+  const buildUser = (roles: Role[], currentRole = roles[0]) => ({
+    sub: 'user-1',
+    roles,
+    currentRole,
+    organizationId: 'org-1',
+  })
+
+  const base = '/api/self-assessments/assessment-1'
+
+  beforeAll(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined)
+    app = await createPermissionsTestingApp(
+      SelfAssessmentsController,
+      () => user,
+    )
+  })
+
+  afterEach(() => {
+    jest.clearAllMocks()
+  })
+
+  afterAll(async () => {
+    await app.close()
+    jest.restoreAllMocks()
+  })
+
+  it('should not let a CLIENTE review the answers of their questionnaire', async () => {
+    user = buildUser([Role.CLIENTE])
+
+    await request(app.getHttpServer())
+      .patch(`${base}/responses/response-1/review`)
+      .send({ status: 'accepted' })
+      .expect(403)
+    expect(
+      app.get(ReviewSelfAssessmentResponseUseCase).execute,
+    ).not.toHaveBeenCalled()
+  })
+
+  it('should not let a CLIENTE complete their questionnaire', async () => {
+    user = buildUser([Role.CLIENTE])
+
+    await request(app.getHttpServer()).patch(`${base}/complete`).expect(403)
+    expect(
+      app.get(CompleteSelfAssessmentUseCase).execute,
+    ).not.toHaveBeenCalled()
+  })
+
+  it('should not let an AUDITOR answer for the client', async () => {
+    user = buildUser([Role.AUDITOR])
+
+    await request(app.getHttpServer())
+      .patch(`${base}/responses/response-1`)
+      .send({ answer: 'yes' })
+      .expect(403)
+    expect(
+      app.get(AnswerSelfAssessmentResponseUseCase).execute,
+    ).not.toHaveBeenCalled()
+  })
+
+  it('should only authorize state changes with the active role', async () => {
+    // Arrange: también es GERENTE, pero trabaja como CLIENTE
+    user = buildUser([Role.GERENTE, Role.CLIENTE], Role.CLIENTE)
+
+    // Act & Assert
+    await request(app.getHttpServer()).patch(`${base}/complete`).expect(403)
+  })
+
+  it('should let the CLIENTE submit and the staff complete', async () => {
+    user = buildUser([Role.CLIENTE])
+    await request(app.getHttpServer()).patch(`${base}/submit`).expect(200)
+
+    user = buildUser([Role.GERENTE])
+    await request(app.getHttpServer()).patch(`${base}/complete`).expect(200)
+
+    expect(app.get(SubmitSelfAssessmentUseCase).execute).toHaveBeenCalled()
+    expect(app.get(CompleteSelfAssessmentUseCase).execute).toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,295 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  Query,
+  UploadedFile,
+  BadRequestException,
+  UseGuards,
+} from '@nestjs/common'
+import { ApiTags, ApiOperation } from '@nestjs/swagger'
+import {
+  ApiCreate,
+  ApiList,
+  ApiFindOne,
+  ApiUpdateWithMessage,
+  ApiRemoveWithMessage,
+  ApiOkResponse,
+  ApiNotFoundResponse,
+  ApiStandardResponses,
+} from '@core/swagger'
+import { UuidParamDto } from '@core/dtos'
+import { ResponseMessage } from '@core/decorators'
+import { FileType, FILE_EXTENSIONS, createUploadDecorator } from '@core/files'
+import {
+  CreateSelfAssessmentDto,
+  FindSelfAssessmentsDto,
+  AnswerSelfAssessmentResponseDto,
+  ReviewSelfAssessmentResponseDto,
+  SelfAssessmentResponseParamDto,
+  SelfAssessmentAttachmentParamDto,
+  SELF_ASSESSMENT_SEARCH_FIELDS,
+  SELF_ASSESSMENT_SORTABLE_FIELDS,
+} from '../dtos'
+import {
+  SelfAssessmentEntity,
+  SelfAssessmentResponseEntity,
+  SelfAssessmentAttachmentEntity,
+} from '../entities'
+import { SelfAssessmentStatus } from '../constants'
+import {
+  CreateSelfAssessmentUseCase,
+  FindSelfAssessmentsUseCase,
+  FindSelfAssessmentUseCase,
+  DeleteSelfAssessmentUseCase,
+  AnswerSelfAssessmentResponseUseCase,
+  UploadResponseAttachmentUseCase,
+  DeleteResponseAttachmentUseCase,
+  SubmitSelfAssessmentUseCase,
+  ReviewSelfAssessmentResponseUseCase,
+  ReturnSelfAssessmentUseCase,
+  CompleteSelfAssessmentUseCase,
+} from '../use-cases'
+import { GetUser } from '../../auth/core'
+import { PermissionsGuard } from '../../authorization/guards'
+import {
+  CheckPermissions,
+  CurrentRoleOnly,
+} from '../../authorization/decorators'
+
+/**
+ * Upload de adjuntos: documentos, PDF, hojas de cálculo e imágenes en el
+ * campo 'file' (el tamaño máximo real lo valida cada tipo de archivo)
+ */
+const UploadAttachmentFile = () =>
+  createUploadDecorator({
+    fileType: FileType.PDF,
+    defaultFieldName: 'file',
+    defaultMaxSize: 20 * 1024 * 1024, // 20MB
+    allowedExtensions: [
+      ...FILE_EXTENSIONS[FileType.DOCUMENT],
+      ...FILE_EXTENSIONS[FileType.PDF],
+      ...FILE_EXTENSIONS[FileType.SPREADSHEET],
+      ...FILE_EXTENSIONS[FileType.IMAGE],
+    ],
+  })
+
+/**
+ * Self Assessments Controller
+ *
+ * GERENTE y AUDITOR asignan los cuestionarios y revisan las respuestas; el
+ * CLIENTE de la organización responde y envía su cuestionario. Las acciones
+ * que lo modifican se autorizan solo con el rol activo.
+ */
+@ApiTags('self-assessments')
+@Controller('self-assessments')
+@UseGuards(PermissionsGuard)
+export class SelfAssessmentsController {
+  constructor(
+    private readonly createSelfAssessmentUseCase: CreateSelfAssessmentUseCase,
+    private readonly findSelfAssessmentsUseCase: FindSelfAssessmentsUseCase,
+    private readonly findSelfAssessmentUseCase: FindSelfAssessmentUseCase,
+    private readonly deleteSelfAssessmentUseCase: DeleteSelfAssessmentUseCase,
+    private readonly answerResponseUseCase: AnswerSelfAssessmentResponseUseCase,
+    private readonly uploadAttachmentUseCase: UploadResponseAttachmentUseCase,
+    private readonly deleteAttachmentUseCase: DeleteResponseAttachmentUseCase,
+    private readonly submitSelfAssessmentUseCase: SubmitSelfAssessmentUseCase,
+    private readonly reviewResponseUseCase: ReviewSelfAssessmentResponseUseCase,
+    private readonly returnSelfAssessmentUseCase: ReturnSelfAssessmentUseCase,
+    private readonly completeSelfAssessmentUseCase: CompleteSelfAssessmentUseCase,
+  ) {}
+
+  @Post()
+  @CheckPermissions()
+  @CurrentRoleOnly()
+  @ApiCreate(SelfAssessmentEntity, {
+    summary: 'Generar un cuestionario de autoevaluación',
+    description:
+      'Genera el cuestionario con los standards auditables de una plantilla publicada ' +
+      'y lo asigna a una organización. El usuario autenticado queda como quien lo asignó.',
+  })
+  async create(
+    @Body() createSelfAssessmentDto: CreateSelfAssessmentDto,
+    @GetUser('sub') userId: string,
+  ) {
+    return await this.createSelfAssessmentUseCase.execute(
+      createSelfAssessmentDto,
+      userId,
+    )
+  }
+
+  @Get()
+  @CheckPermissions()
+  @ApiList(SelfAssessmentEntity, {
+    summary: 'Listar autoevaluaciones con paginación y filtros',
+    searchFields: SELF_ASSESSMENT_SEARCH_FIELDS,
+    sortableFields: SELF_ASSESSMENT_SORTABLE_FIELDS.map(String),
+    defaultSortBy: 'createdAt',
+    filterFields: [
+      {
+        name: 'status',
+        description: 'Filtrar por estado de la autoevaluación',
+        type: `enum: ${Object.values(SelfAssessmentStatus).join(', ')}`,
+        example: 'submitted',
+      },
+    ],
+  })
+  async findAll(@Query() query: FindSelfAssessmentsDto) {
+    return await this.findSelfAssessmentsUseCase.execute(query)
+  }
+
+  @Get(':id')
+  @CheckPermissions()
+  @ApiFindOne(SelfAssessmentEntity, {
+    summary: 'Obtener una autoevaluación por ID',
+    description:
+      'Retorna el cuestionario con sus respuestas (en el orden de la plantilla), adjuntos y revisión.',
+  })
+  async findOne(@Param() { id }: UuidParamDto) {
+    return await this.findSelfAssessmentUseCase.execute(id)
+  }
+
+  @Delete(':id')
+  @CheckPermissions()
+  @CurrentRoleOnly()
+  @ResponseMessage('Autoevaluación eliminada exitosamente')
+  @ApiRemoveWithMessage({
+    summary: 'Eliminar una autoevaluación',
+    description:
+      'Elimina una autoevaluación que aún no fue enviada. Retorna un mensaje de confirmación.',
+  })
+  async remove(@Param() { id }: UuidParamDto) {
+    await this.deleteSelfAssessmentUseCase.execute(id)
+  }
+
+  @Patch(':id/responses/:responseId')
+  @CheckPermissions()
+  @CurrentRoleOnly()
+  @ApiOperation({
+    summary: 'Guardar la respuesta de un control',
+    description:
+      'Guarda como borrador la respuesta y/o el comentario. Si la autoevaluación fue devuelta, ' +
+      'solo se corrigen las respuestas observadas.',
+  })
+  @ApiOkResponse(SelfAssessmentResponseEntity, 'Respuesta guardada', false)
+  @ApiNotFoundResponse('Autoevaluación o respuesta no encontrada')
+  @ApiStandardResponses({ exclude: [200, 404] })
+  async answer(
+    @Param() { id, responseId }: SelfAssessmentResponseParamDto,
+    @Body() dto: AnswerSelfAssessmentResponseDto,
+    @GetUser('sub') userId: string,
+  ) {
+    return await this.answerResponseUseCase.execute(id, responseId, dto, userId)
+  }
+
+  @Post(':id/responses/:responseId/attachments')
+  @CheckPermissions()
+  @CurrentRoleOnly()
+  @UploadAttachmentFile()
+  @ApiOperation({
+    summary: 'Adjuntar un archivo a la respuesta',
+    description:
+      'Sube un archivo de respaldo (documento, PDF, hoja de cálculo o imagen). ' +
+      'La respuesta vuelve a quedar pendiente de revisión.',
+  })
+  @ApiOkResponse(
+    SelfAssessmentAttachmentEntity,
+    'Archivo adjuntado exitosamente',
+    false,
+  )
+  @ApiNotFoundResponse('Autoevaluación o respuesta no encontrada')
+  @ApiStandardResponses({ exclude: [200, 404] })
+  async uploadAttachment(
+    @Param() { id, responseId }: SelfAssessmentResponseParamDto,
+    @UploadedFile() file: Express.Multer.File,
+    @GetUser('sub') userId: string,
+  ) {
+    if (!file) {
+      throw new BadRequestException('No se proporcionó archivo')
+    }
+    return await this.uploadAttachmentUseCase.execute(
+      id,
+      responseId,
+      file,
+      userId,
+    )
+  }
+
+  @Delete(':id/responses/:responseId/attachments/:attachmentId')
+  @CheckPermissions()
+  @CurrentRoleOnly()
+  @ResponseMessage('Adjunto eliminado exitosamente')
+  @ApiRemoveWithMessage({
+    summary: 'Quitar un adjunto de la respuesta',
+    description: 'Elimina el adjunto y su archivo.',
+  })
+  async removeAttachment(
+    @Param() { id, responseId, attachmentId }: SelfAssessmentAttachmentParamDto,
+  ) {
+    await this.deleteAttachmentUseCase.execute(id, responseId, attachmentId)
+  }
+
+  @Patch(':id/submit')
+  @CheckPermissions()
+  @CurrentRoleOnly()
+  @ResponseMessage('Autoevaluación enviada exitosamente')
+  @ApiUpdateWithMessage({
+    summary: 'Enviar autoevaluación (open / returned → submitted)',
+    description:
+      'Envía las respuestas a revisión. Todas deben estar respondidas (con comentario si es ' +
+      'parcial o no aplica) y las observadas, corregidas.',
+  })
+  async submit(@Param() { id }: UuidParamDto) {
+    await this.submitSelfAssessmentUseCase.execute(id)
+  }
+
+  @Patch(':id/responses/:responseId/review')
+  @CheckPermissions()
+  @CurrentRoleOnly()
+  @ApiOperation({
+    summary: 'Revisar una respuesta',
+    description:
+      'El auditor acepta u observa la respuesta (el comentario es obligatorio al observar). ' +
+      'Solo en autoevaluaciones enviadas.',
+  })
+  @ApiOkResponse(SelfAssessmentResponseEntity, 'Respuesta revisada', false)
+  @ApiNotFoundResponse('Autoevaluación o respuesta no encontrada')
+  @ApiStandardResponses({ exclude: [200, 404] })
+  async review(
+    @Param() { id, responseId }: SelfAssessmentResponseParamDto,
+    @Body() dto: ReviewSelfAssessmentResponseDto,
+    @GetUser('sub') userId: string,
+  ) {
+    return await this.reviewResponseUseCase.execute(id, responseId, dto, userId)
+  }
+
+  @Patch(':id/return')
+  @CheckPermissions()
+  @CurrentRoleOnly()
+  @ResponseMessage('Autoevaluación devuelta exitosamente')
+  @ApiUpdateWithMessage({
+    summary: 'Devolver autoevaluación (submitted → returned)',
+    description:
+      'Devuelve el cuestionario para que la organización corrija las respuestas observadas.',
+  })
+  async returnForRevision(@Param() { id }: UuidParamDto) {
+    await this.returnSelfAssessmentUseCase.execute(id)
+  }
+
+  @Patch(':id/complete')
+  @CheckPermissions()
+  @CurrentRoleOnly()
+  @ResponseMessage('Autoevaluación completada exitosamente')
+  @ApiUpdateWithMessage({
+    summary: 'Completar autoevaluación (submitted → completed)',
+    description:
+      'Cierra la revisión. Todas las respuestas deben estar aceptadas.',
+  })
+  async complete(@Param() { id }: UuidParamDto) {
+    await this.completeSelfAssessmentUseCase.execute(id)
+  }
+}
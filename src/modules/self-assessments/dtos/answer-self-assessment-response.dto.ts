@@ -0,0 +1,29 @@
+import { IsString, IsOptional, IsEnum, MaxLength } from '@core/i18n'
+import { ApiPropertyOptional } from '@nestjs/swagger'
+import { SELF_ASSESSMENT_CONSTRAINTS, SelfAssessmentAnswer } from '../constants'
+
+/**
+ * Guarda (como borrador) la respuesta de un control.
+ * Solo se actualizan los campos enviados.
+ */
+export class AnswerSelfAssessmentResponseDto {
+  @ApiPropertyOptional({
+    description: 'Grado de implementación del control',
+    enum: SelfAssessmentAnswer,
+    example: SelfAssessmentAnswer.PARTIALLY_IMPLEMENTED,
+  })
+  @IsOptional()
+  @IsEnum(SelfAssessmentAnswer)
+  answer?: SelfAssessmentAnswer
+
+  @ApiPropertyOptional({
+    description:
+      'Comentario o justificación (obligatorio para parcial y no aplica al enviar)',
+    example: 'La política está aprobada, falta implementarla en sucursales.',
+    maxLength: SELF_ASSESSMENT_CONSTRAINTS.COMMENT.MAX_LENGTH,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(SELF_ASSESSMENT_CONSTRAINTS.COMMENT.MAX_LENGTH)
+  comment?: string
+}
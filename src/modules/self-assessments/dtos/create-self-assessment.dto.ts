@@ -0,0 +1,47 @@
+import {
+  IsString,
+  IsOptional,
+  IsUUID,
+  IsDateString,
+  MinLength,
+  MaxLength,
+} from '@core/i18n'
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger'
+import { SELF_ASSESSMENT_CONSTRAINTS } from '../constants'
+
+export class CreateSelfAssessmentDto {
+  @ApiProperty({
+    description:
+      'ID de la plantilla publicada de la que se genera el cuestionario',
+    example: '550e8400-e29b-41d4-a716-446655440000',
+  })
+  @IsUUID()
+  templateId: string
+
+  @ApiProperty({
+    description: 'ID de la organización que responde el cuestionario',
+    example: '550e8400-e29b-41d4-a716-446655440001',
+  })
+  @IsUUID()
+  organizationId: string
+
+  @ApiProperty({
+    description: 'Título del cuestionario',
+    example: 'Autoevaluación de seguridad de la información 2025',
+    minLength: SELF_ASSESSMENT_CONSTRAINTS.TITLE.MIN_LENGTH,
+    maxLength: SELF_ASSESSMENT_CONSTRAINTS.TITLE.MAX_LENGTH,
+  })
+  @IsString()
+  @MinLength(SELF_ASSESSMENT_CONSTRAINTS.TITLE.MIN_LENGTH)
+  @MaxLength(SELF_ASSESSMENT_CONSTRAINTS.TITLE.MAX_LENGTH)
+  title: string
+
+  @ApiPropertyOptional({
+    description:
+      'Fecha límite sugerida para enviar las respuestas (YYYY-MM-DD)',
+    example: '2025-06-30',
+  })
+  @IsOptional()
+  @IsDateString()
+  dueDate?: string
+}
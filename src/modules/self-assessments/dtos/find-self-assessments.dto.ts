@@ -0,0 +1,49 @@
+import { IsOptional, IsString, IsEnum, IsUUID } from 'class-validator'
+import { ApiPropertyOptional } from '@nestjs/swagger'
+import { PaginationDto } from '@core/dtos'
+import { IsIn } from '@core/i18n'
+import { SelfAssessmentStatus } from '../constants'
+import { SelfAssessmentEntity } from '../entities/self-assessment.entity'
+
+/**
+ * Campos por los que se puede ordenar la lista de autoevaluaciones
+ */
+export const SELF_ASSESSMENT_SORTABLE_FIELDS: (keyof SelfAssessmentEntity)[] = [
+  'title',
+  'status',
+  'dueDate',
+  'submittedAt',
+  'createdAt',
+]
+
+/**
+ * Campos en los que busca el parámetro 'search'
+ */
+export const SELF_ASSESSMENT_SEARCH_FIELDS: (keyof SelfAssessmentEntity)[] = [
+  'title',
+]
+
+export class FindSelfAssessmentsDto extends PaginationDto {
+  @IsOptional()
+  @IsString()
+  search?: string
+
+  @ApiPropertyOptional({ description: 'Filtrar por organización' })
+  @IsOptional()
+  @IsUUID()
+  organizationId?: string
+
+  @ApiPropertyOptional({ description: 'Filtrar por plantilla' })
+  @IsOptional()
+  @IsUUID()
+  templateId?: string
+
+  @ApiPropertyOptional({ enum: SelfAssessmentStatus })
+  @IsOptional()
+  @IsEnum(SelfAssessmentStatus)
+  status?: SelfAssessmentStatus
+
+  @IsOptional()
+  @IsIn(SELF_ASSESSMENT_SORTABLE_FIELDS)
+  sortBy?: string = 'createdAt'
+}
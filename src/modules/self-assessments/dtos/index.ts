@@ -0,0 +1,5 @@
+export * from './create-self-assessment.dto'
+export * from './find-self-assessments.dto'
+export * from './answer-self-assessment-response.dto'
+export * from './review-self-assessment-response.dto'
+export * from './self-assessment-param.dto'
@@ -0,0 +1,25 @@
+import { IsString, IsOptional, IsIn, MinLength, MaxLength } from '@core/i18n'
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger'
+import { ResponseReviewStatus, SELF_ASSESSMENT_CONSTRAINTS } from '../constants'
+
+export class ReviewSelfAssessmentResponseDto {
+  @ApiProperty({
+    description: 'Resultado de la revisión',
+    enum: [ResponseReviewStatus.ACCEPTED, ResponseReviewStatus.CHALLENGED],
+    example: ResponseReviewStatus.CHALLENGED,
+  })
+  @IsIn([ResponseReviewStatus.ACCEPTED, ResponseReviewStatus.CHALLENGED])
+  status: ResponseReviewStatus.ACCEPTED | ResponseReviewStatus.CHALLENGED
+
+  @ApiPropertyOptional({
+    description: 'Comentario del auditor (obligatorio al observar)',
+    example: 'Adjunte el acta de aprobación de la política.',
+    minLength: SELF_ASSESSMENT_CONSTRAINTS.REVIEW_COMMENT.MIN_LENGTH,
+    maxLength: SELF_ASSESSMENT_CONSTRAINTS.REVIEW_COMMENT.MAX_LENGTH,
+  })
+  @IsOptional()
+  @IsString()
+  @MinLength(SELF_ASSESSMENT_CONSTRAINTS.REVIEW_COMMENT.MIN_LENGTH)
+  @MaxLength(SELF_ASSESSMENT_CONSTRAINTS.REVIEW_COMMENT.MAX_LENGTH)
+  comment?: string
+}
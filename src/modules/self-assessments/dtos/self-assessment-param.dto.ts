@@ -0,0 +1,27 @@
+import { IsUUID } from '@core/i18n'
+import { ApiProperty } from '@nestjs/swagger'
+import { UuidParamDto } from '@core/dtos'
+
+/**
+ * Parámetros de ruta /self-assessments/:id/responses/:responseId
+ */
+export class SelfAssessmentResponseParamDto extends UuidParamDto {
+  @ApiProperty({
+    description: 'ID de la respuesta',
+    format: 'uuid',
+  })
+  @IsUUID()
+  responseId: string
+}
+
+/**
+ * Parámetros de ruta /self-assessments/:id/responses/:responseId/attachments/:attachmentId
+ */
+export class SelfAssessmentAttachmentParamDto extends SelfAssessmentResponseParamDto {
+  @ApiProperty({
+    description: 'ID del adjunto',
+    format: 'uuid',
+  })
+  @IsUUID()
+  attachmentId: string
+}
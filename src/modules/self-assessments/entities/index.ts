@@ -0,0 +1,3 @@
+export * from './self-assessment.entity'
+export * from './self-assessment-response.entity'
+export * from './self-assessment-attachment.entity'
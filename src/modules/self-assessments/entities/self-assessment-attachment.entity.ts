@@ -0,0 +1,60 @@
+import { Entity, Column, ManyToOne, JoinColumn, Index } from 'typeorm'
+import { BaseEntity } from '@core/entities/base.entity'
+import { FileType } from '@core/files/enums'
+import { UserEntity } from '../../users/entities/user.entity'
+import { SELF_ASSESSMENT_CONSTRAINTS } from '../constants'
+import { SelfAssessmentResponseEntity } from './self-assessment-response.entity'
+
+/**
+ * Self Assessment Attachment Entity
+ *
+ * Archivo que la organización adjunta a una respuesta como respaldo
+ */
+@Entity('self_assessment_attachments')
+@Index(['responseId'])
+export class SelfAssessmentAttachmentEntity extends BaseEntity {
+  @Column({ type: 'uuid' })
+  responseId: string
+
+  @ManyToOne(
+    () => SelfAssessmentResponseEntity,
+    (response) => response.attachments,
+    { onDelete: 'CASCADE' },
+  )
+  @JoinColumn({ name: 'responseId' })
+  response: SelfAssessmentResponseEntity
+
+  /**
+   * Nombre del archivo tal como se subió
+   */
+  @Column({
+    type: 'varchar',
+    length: SELF_ASSESSMENT_CONSTRAINTS.FILE_NAME.MAX_LENGTH,
+  })
+  originalName: string
+
+  /**
+   * Path del archivo (relativo a uploads)
+   */
+  @Column({ type: 'varchar', length: 500 })
+  filePath: string
+
+  @Column({ type: 'enum', enum: FileType })
+  fileType: FileType
+
+  @Column({ type: 'varchar', length: 150 })
+  mimeType: string
+
+  /**
+   * Tamaño en bytes
+   */
+  @Column({ type: 'int' })
+  size: number
+
+  @Column({ type: 'uuid' })
+  uploadedById: string
+
+  @ManyToOne(() => UserEntity)
+  @JoinColumn({ name: 'uploadedById' })
+  uploadedBy: UserEntity
+}
@@ -0,0 +1,160 @@
+import {
+  Entity,
+  Column,
+  ManyToOne,
+  OneToMany,
+  JoinColumn,
+  Index,
+} from 'typeorm'
+import { BaseEntity } from '@core/entities/base.entity'
+import { Auditable } from '@core/database/auditable.decorator'
+import { STANDARDS_CONSTRAINTS } from '../../audit-library/standards/constants'
+import { UserEntity } from '../../users/entities/user.entity'
+import {
+  ResponseReviewStatus,
+  SELF_ASSESSMENT_ANSWERS_REQUIRING_COMMENT,
+  SelfAssessmentAnswer,
+} from '../constants'
+import { SelfAssessmentEntity } from './self-assessment.entity'
+import { SelfAssessmentAttachmentEntity } from './self-assessment-attachment.entity'
+
+/**
+ * Self Assessment Response Entity
+ *
+ * Respuesta de la organización sobre un control del cuestionario.
+ * Guarda una copia del standard (código, título y descripción) y la
+ * revisión del auditor. El historial se agrupa en el cuestionario (rootId).
+ */
+@Auditable<SelfAssessmentResponseEntity>({
+  rootId: (response) => response.selfAssessmentId,
+})
+@Entity('self_assessment_responses')
+@Index(['selfAssessmentId', 'order'])
+@Index(['selfAssessmentId', 'sourceStandardId'], { unique: true })
+export class SelfAssessmentResponseEntity extends BaseEntity {
+  @Column({ type: 'uuid' })
+  selfAssessmentId: string
+
+  @ManyToOne(() => SelfAssessmentEntity, (assessment) => assessment.responses, {
+    onDelete: 'CASCADE',
+  })
+  @JoinColumn({ name: 'selfAssessmentId' })
+  selfAssessment: SelfAssessmentEntity
+
+  /**
+   * ID del standard original de la plantilla (trazabilidad)
+   */
+  @Column({ type: 'uuid' })
+  sourceStandardId: string
+
+  @Column({ type: 'varchar', length: STANDARDS_CONSTRAINTS.CODE.MAX_LENGTH })
+  code: string
+
+  @Column({ type: 'varchar', length: STANDARDS_CONSTRAINTS.TITLE.MAX_LENGTH })
+  title: string
+
+  @Column({ type: 'text', nullable: true })
+  description: string | null
+
+  /**
+   * Posición en el cuestionario (orden jerárquico de la plantilla)
+   */
+  @Column({ type: 'int' })
+  order: number
+
+  /**
+   * null = aún sin responder
+   */
+  @Column({ type: 'enum', enum: SelfAssessmentAnswer, nullable: true })
+  answer: SelfAssessmentAnswer | null
+
+  @Column({ type: 'text', nullable: true })
+  comment: string | null
+
+  @Column({ type: 'uuid', nullable: true })
+  answeredById: string | null
+
+  @ManyToOne(() => UserEntity, { nullable: true })
+  @JoinColumn({ name: 'answeredById' })
+  answeredBy: UserEntity | null
+
+  @Column({ type: 'timestamp', nullable: true })
+  answeredAt: Date | null
+
+  @Column({
+    type: 'enum',
+    enum: ResponseReviewStatus,
+    default: ResponseReviewStatus.PENDING,
+  })
+  reviewStatus: ResponseReviewStatus
+
+  /**
+   * Comentario del auditor (obligatorio al observar)
+   */
+  @Column({ type: 'text', nullable: true })
+  reviewComment: string | null
+
+  @Column({ type: 'uuid', nullable: true })
+  reviewedById: string | null
+
+  @ManyToOne(() => UserEntity, { nullable: true })
+  @JoinColumn({ name: 'reviewedById' })
+  reviewedBy: UserEntity | null
+
+  @Column({ type: 'timestamp', nullable: true })
+  reviewedAt: Date | null
+
+  @OneToMany(
+    () => SelfAssessmentAttachmentEntity,
+    (attachment) => attachment.response,
+  )
+  attachments: SelfAssessmentAttachmentEntity[]
+
+  get isAnswered(): boolean {
+    return this.answer !== null
+  }
+
+  /**
+   * ¿La respuesta tiene el comentario que exige su valor?
+   */
+  get isComplete(): boolean {
+    if (!this.answer) return false
+    return (
+      !SELF_ASSESSMENT_ANSWERS_REQUIRING_COMMENT.includes(this.answer) ||
+      !!this.comment
+    )
+  }
+
+  /**
+   * Registra (o corrige) la respuesta. Vuelve a quedar pendiente de revisión.
+   */
+  answerWith(
+    answer: SelfAssessmentAnswer | null,
+    comment: string | null,
+    userId: string,
+  ): void {
+    this.answer = answer
+    this.comment = comment
+    this.answeredById = userId
+    this.answeredAt = new Date()
+    this.markForReview()
+  }
+
+  /**
+   * Un cambio en la respuesta (o sus adjuntos) exige revisarla de nuevo
+   */
+  markForReview(): void {
+    this.reviewStatus = ResponseReviewStatus.PENDING
+  }
+
+  review(
+    status: ResponseReviewStatus.ACCEPTED | ResponseReviewStatus.CHALLENGED,
+    comment: string | null,
+    userId: string,
+  ): void {
+    this.reviewStatus = status
+    this.reviewComment = comment
+    this.reviewedById = userId
+    this.reviewedAt = new Date()
+  }
+}
@@ -0,0 +1,156 @@
+import {
+  Entity,
+  Column,
+  ManyToOne,
+  OneToMany,
+  JoinColumn,
+  Index,
+} from 'typeorm'
+import { BaseEntity } from '@core/entities/base.entity'
+import { Auditable } from '@core/database/auditable.decorator'
+import { AuditAction } from '@core/database/audit-action.enum'
+import { TenantScoped } from '@core/database/tenant-scoped.decorator'
+import { TemplateEntity } from '../../audit-library/templates/entities/template.entity'
+import { OrganizationEntity } from '../../organizations/entities/organization.entity'
+import { UserEntity } from '../../users/entities/user.entity'
+import {
+  SELF_ASSESSMENT_CONSTRAINTS,
+  SELF_ASSESSMENT_STATUS_TRANSITIONS,
+  SelfAssessmentStatus,
+} from '../constants'
+import { SelfAssessmentResponseEntity } from './self-assessment-response.entity'
+
+/**
+ * Self Assessment Entity
+ *
+ * Cuestionario de autoevaluación generado a partir de una plantilla
+ * PUBLICADA y asignado a una organización. Al crearse se copia cada
+ * standard auditable como una respuesta pendiente, de modo que ediciones
+ * posteriores de la plantilla no alteren el cuestionario.
+ *
+ * Ciclo de vida: open → submitted → returned → submitted → completed
+ */
+@TenantScoped<SelfAssessmentEntity>('organizationId')
+@Auditable<SelfAssessmentEntity>({
+  transitions: {
+    status: {
+      [SelfAssessmentStatus.SUBMITTED]: AuditAction.SUBMIT,
+      [SelfAssessmentStatus.RETURNED]: AuditAction.RETURN,
+      [SelfAssessmentStatus.COMPLETED]: AuditAction.CLOSE,
+    },
+  },
+})
+@Entity('self_assessments')
+@Index(['organizationId'])
+@Index(['templateId'])
+@Index(['status'])
+export class SelfAssessmentEntity extends BaseEntity {
+  @Column({
+    type: 'varchar',
+    length: SELF_ASSESSMENT_CONSTRAINTS.TITLE.MAX_LENGTH,
+  })
+  title: string
+
+  /**
+   * Plantilla de la que se generó el cuestionario
+   */
+  @Column({ type: 'uuid' })
+  templateId: string
+
+  @ManyToOne(() => TemplateEntity)
+  @JoinColumn({ name: 'templateId' })
+  template: TemplateEntity
+
+  /**
+   * Organización que responde el cuestionario
+   */
+  @Column({ type: 'uuid' })
+  organizationId: string
+
+  @ManyToOne(() => OrganizationEntity)
+  @JoinColumn({ name: 'organizationId' })
+  organization: OrganizationEntity
+
+  /**
+   * Usuario (gerente o auditor) que asignó el cuestionario
+   */
+  @Column({ type: 'uuid' })
+  assignedById: string
+
+  @ManyToOne(() => UserEntity)
+  @JoinColumn({ name: 'assignedById' })
+  assignedBy: UserEntity
+
+  /**
+   * Fecha límite sugerida para enviar las respuestas
+   */
+  @Column({ type: 'date', nullable: true })
+  dueDate: string | null
+
+  @Column({
+    type: 'enum',
+    enum: SelfAssessmentStatus,
+    default: SelfAssessmentStatus.OPEN,
+  })
+  status: SelfAssessmentStatus
+
+  /**
+   * Último envío de la organización
+   */
+  @Column({ type: 'timestamp', nullable: true })
+  submittedAt: Date | null
+
+  @Column({ type: 'timestamp', nullable: true })
+  completedAt: Date | null
+
+  /**
+   * Una respuesta por standard auditable de la plantilla
+   */
+  @OneToMany(
+    () => SelfAssessmentResponseEntity,
+    (response) => response.selfAssessment,
+    { cascade: ['insert'] },
+  )
+  responses: SelfAssessmentResponseEntity[]
+
+  /**
+   * ¿La organización puede responder? (abierto o devuelto)
+   */
+  get isAnswerable(): boolean {
+    return [SelfAssessmentStatus.OPEN, SelfAssessmentStatus.RETURNED].includes(
+      this.status,
+    )
+  }
+
+  /**
+   * Solo se revisan las respuestas de un cuestionario enviado
+   */
+  get isUnderReview(): boolean {
+    return this.status === SelfAssessmentStatus.SUBMITTED
+  }
+
+  /**
+   * Solo se elimina un cuestionario que aún no se envió
+   */
+  get isDeletable(): boolean {
+    return this.status === SelfAssessmentStatus.OPEN
+  }
+
+  canTransitionTo(status: SelfAssessmentStatus): boolean {
+    return SELF_ASSESSMENT_STATUS_TRANSITIONS[this.status].includes(status)
+  }
+
+  submit(): void {
+    this.status = SelfAssessmentStatus.SUBMITTED
+    this.submittedAt = new Date()
+  }
+
+  returnForRevision(): void {
+    this.status = SelfAssessmentStatus.RETURNED
+  }
+
+  complete(): void {
+    this.status = SelfAssessmentStatus.COMPLETED
+    this.completedAt = new Date()
+  }
+}
@@ -0,0 +1,13 @@
+import { BadRequestException } from '@nestjs/common'
+
+/**
+ * Excepción lanzada al enviar un cuestionario con controles sin responder,
+ * sin el comentario que exige su respuesta o con observaciones sin corregir
+ */
+export class IncompleteSelfAssessmentException extends BadRequestException {
+  constructor(codes: string[]) {
+    super(
+      `Faltan ${codes.length} respuesta(s) por completar o corregir: ${codes.join(', ')}`,
+    )
+  }
+}
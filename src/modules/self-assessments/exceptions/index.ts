@@ -0,0 +1,13 @@
+export * from './incomplete-self-assessment.exception'
+export * from './invalid-self-assessment-status-transition.exception'
+export * from './response-not-editable.exception'
+export * from './review-comment-required.exception'
+export * from './self-assessment-attachment-not-found.exception'
+export * from './self-assessment-not-answerable.exception'
+export * from './self-assessment-not-deletable.exception'
+export * from './self-assessment-not-found.exception'
+export * from './self-assessment-not-under-review.exception'
+export * from './self-assessment-response-not-found.exception'
+export * from './self-assessment-review-incomplete.exception'
+export * from './template-not-usable-for-self-assessment.exception'
+export * from './unsupported-attachment-file.exception'
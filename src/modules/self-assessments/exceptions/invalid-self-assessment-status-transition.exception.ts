@@ -0,0 +1,10 @@
+import { BadRequestException } from '@nestjs/common'
+import { SelfAssessmentStatus } from '../constants'
+
+export class InvalidSelfAssessmentStatusTransitionException extends BadRequestException {
+  constructor(from: SelfAssessmentStatus, to: SelfAssessmentStatus) {
+    super(
+      `No se puede cambiar el estado de la autoevaluación de "${from}" a "${to}"`,
+    )
+  }
+}
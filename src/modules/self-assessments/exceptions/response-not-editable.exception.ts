@@ -0,0 +1,13 @@
+import { BadRequestException } from '@nestjs/common'
+
+/**
+ * Excepción lanzada al modificar una respuesta no observada de una
+ * autoevaluación devuelta
+ */
+export class ResponseNotEditableException extends BadRequestException {
+  constructor(code: string) {
+    super(
+      `La respuesta del control "${code}" no fue observada: solo se corrigen las respuestas observadas`,
+    )
+  }
+}
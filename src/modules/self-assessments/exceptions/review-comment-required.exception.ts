@@ -0,0 +1,9 @@
+import { BadRequestException } from '@nestjs/common'
+
+export class ReviewCommentRequiredException extends BadRequestException {
+  constructor(code: string) {
+    super(
+      `Debe indicar un comentario para observar la respuesta del control "${code}"`,
+    )
+  }
+}
@@ -0,0 +1,9 @@
+import { NotFoundException } from '@nestjs/common'
+
+export class SelfAssessmentAttachmentNotFoundException extends NotFoundException {
+  constructor(attachmentId: string, responseId: string) {
+    super(
+      `Adjunto con ID ${attachmentId} no encontrado en la respuesta ${responseId}`,
+    )
+  }
+}
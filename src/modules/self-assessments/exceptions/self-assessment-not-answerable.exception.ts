@@ -0,0 +1,10 @@
+import { BadRequestException } from '@nestjs/common'
+import { SelfAssessmentStatus } from '../constants'
+
+export class SelfAssessmentNotAnswerableException extends BadRequestException {
+  constructor(status: SelfAssessmentStatus) {
+    super(
+      `La autoevaluación está en estado "${status}" y no admite cambios en las respuestas`,
+    )
+  }
+}
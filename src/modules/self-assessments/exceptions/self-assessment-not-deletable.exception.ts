@@ -0,0 +1,10 @@
+import { BadRequestException } from '@nestjs/common'
+import { SelfAssessmentStatus } from '../constants'
+
+export class SelfAssessmentNotDeletableException extends BadRequestException {
+  constructor(status: SelfAssessmentStatus) {
+    super(
+      `La autoevaluación está en estado "${status}": solo se eliminan las que aún no se enviaron`,
+    )
+  }
+}
@@ -0,0 +1,7 @@
+import { NotFoundException } from '@nestjs/common'
+
+export class SelfAssessmentNotFoundException extends NotFoundException {
+  constructor(id: string) {
+    super(`Autoevaluación con ID ${id} no encontrada`)
+  }
+}
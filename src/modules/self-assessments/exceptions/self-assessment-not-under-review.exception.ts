@@ -0,0 +1,10 @@
+import { BadRequestException } from '@nestjs/common'
+import { SelfAssessmentStatus } from '../constants'
+
+export class SelfAssessmentNotUnderReviewException extends BadRequestException {
+  constructor(status: SelfAssessmentStatus) {
+    super(
+      `La autoevaluación está en estado "${status}": solo se revisan las respuestas de una autoevaluación enviada`,
+    )
+  }
+}
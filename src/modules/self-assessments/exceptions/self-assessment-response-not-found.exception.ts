@@ -0,0 +1,9 @@
+import { NotFoundException } from '@nestjs/common'
+
+export class SelfAssessmentResponseNotFoundException extends NotFoundException {
+  constructor(responseId: string, selfAssessmentId: string) {
+    super(
+      `Respuesta con ID ${responseId} no encontrada en la autoevaluación ${selfAssessmentId}`,
+    )
+  }
+}
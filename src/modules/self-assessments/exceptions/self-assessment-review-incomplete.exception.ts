@@ -0,0 +1,12 @@
+import { BadRequestException } from '@nestjs/common'
+
+/**
+ * Excepción lanzada al cerrar la revisión cuando las respuestas no están
+ * en el estado requerido (todas aceptadas para completar, alguna
+ * observada para devolver)
+ */
+export class SelfAssessmentReviewIncompleteException extends BadRequestException {
+  constructor(reason: string) {
+    super(`No se puede cerrar la revisión de la autoevaluación: ${reason}`)
+  }
+}
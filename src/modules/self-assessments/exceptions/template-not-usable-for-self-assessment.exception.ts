@@ -0,0 +1,13 @@
+import { BadRequestException } from '@nestjs/common'
+
+/**
+ * Excepción lanzada cuando la plantilla no puede generar un cuestionario
+ * (no está publicada o no tiene standards auditables)
+ */
+export class TemplateNotUsableForSelfAssessmentException extends BadRequestException {
+  constructor(templateName: string, reason: string) {
+    super(
+      `La plantilla "${templateName}" no puede usarse para una autoevaluación: ${reason}`,
+    )
+  }
+}
@@ -0,0 +1,87 @@
+import { Injectable } from '@nestjs/common'
+import type { FileType, SaveFileResult } from '@core/files'
+import {
+  SelfAssessmentEntity,
+  SelfAssessmentResponseEntity,
+  SelfAssessmentAttachmentEntity,
+} from '../entities'
+import { SelfAssessmentStatus } from '../constants'
+import {
+  CreateSelfAssessmentDto,
+  AnswerSelfAssessmentResponseDto,
+} from '../dtos'
+
+@Injectable()
+export class SelfAssessmentFactory {
+  /**
+   * Crea un cuestionario abierto (sin respuestas)
+   *
+   * @param dto - Plantilla, organización, título y fecha límite
+   * @param assignedById - ID del usuario autenticado
+   * @returns Nueva instancia de SelfAssessmentEntity en estado OPEN
+   */
+  createFromDto(
+    dto: CreateSelfAssessmentDto,
+    assignedById: string,
+  ): SelfAssessmentEntity {
+    const selfAssessment = new SelfAssessmentEntity()
+    selfAssessment.title = dto.title.trim()
+    selfAssessment.templateId = dto.templateId
+    selfAssessment.organizationId = dto.organizationId
+    selfAssessment.assignedById = assignedById
+    selfAssessment.dueDate = dto.dueDate?.slice(0, 10) ?? null
+    selfAssessment.status = SelfAssessmentStatus.OPEN
+    selfAssessment.submittedAt = null
+    selfAssessment.completedAt = null
+    return selfAssessment
+  }
+
+  /**
+   * Aplica el borrador de la respuesta.
+   * Solo actualiza los campos que vienen definidos en el DTO.
+   *
+   * @param response - Respuesta recuperada de la BD
+   * @param dto - Respuesta y/o comentario
+   * @param userId - ID del usuario autenticado
+   * @returns La misma entidad, pendiente de revisión
+   */
+  answerFromDto(
+    response: SelfAssessmentResponseEntity,
+    dto: AnswerSelfAssessmentResponseDto,
+    userId: string,
+  ): SelfAssessmentResponseEntity {
+    const answer = dto.answer ?? response.answer
+    const comment =
+      dto.comment !== undefined ? dto.comment.trim() || null : response.comment
+
+    response.answerWith(answer, comment, userId)
+    return response
+  }
+
+  /**
+   * Crea el adjunto con el archivo ya guardado
+   *
+   * @param responseId - ID de la respuesta
+   * @param file - Archivo subido (nombre original)
+   * @param fileType - Tipo validado
+   * @param stored - Path, tamaño y MIME type del archivo guardado
+   * @param uploadedById - ID del usuario que sube el archivo
+   */
+  createAttachment(
+    responseId: string,
+    file: Express.Multer.File,
+    fileType: FileType,
+    stored: SaveFileResult,
+    uploadedById: string,
+  ): SelfAssessmentAttachmentEntity {
+    const attachment = new SelfAssessmentAttachmentEntity()
+    attachment.responseId = responseId
+    attachment.originalName = file.originalname
+    attachment.filePath = stored.filePath
+    attachment.fileType = fileType
+    attachment.mimeType = stored.mimeType
+    attachment.size = stored.size
+    attachment.uploadedById = uploadedById
+    return attachment
+  }
+}
@@ -0,0 +1,7 @@
+export * from './self-assessments.module'
+export * from './constants'
+export * from './entities'
+export * from './dtos'
+export * from './repositories'
+export * from './exceptions'
+export * from './tokens'
@@ -0,0 +1,6 @@
+export * from './self-assessments.repository'
+export * from './interfaces/self-assessments-repository.interface'
+export * from './self-assessment-responses.repository'
+export * from './interfaces/self-assessment-responses-repository.interface'
+export * from './self-assessment-attachments.repository'
+export * from './interfaces/self-assessment-attachments-repository.interface'
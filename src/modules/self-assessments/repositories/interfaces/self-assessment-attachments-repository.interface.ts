@@ -0,0 +1,5 @@
+import type { IBaseRepository } from '@core/repositories'
+import type { SelfAssessmentAttachmentEntity } from '../../entities/self-assessment-attachment.entity'
+
+export type ISelfAssessmentAttachmentsRepository =
+  IBaseRepository<SelfAssessmentAttachmentEntity>
@@ -0,0 +1,12 @@
+import type { IBaseRepository } from '@core/repositories'
+import type { SelfAssessmentResponseEntity } from '../../entities/self-assessment-response.entity'
+
+export interface ISelfAssessmentResponsesRepository extends IBaseRepository<SelfAssessmentResponseEntity> {
+  findByAssessment(
+    selfAssessmentId: string,
+  ): Promise<SelfAssessmentResponseEntity[]>
+  findOneInAssessment(
+    selfAssessmentId: string,
+    responseId: string,
+  ): Promise<SelfAssessmentResponseEntity | null>
+}
@@ -0,0 +1,11 @@
+import type { IBaseRepository } from '@core/repositories'
+import type { SelfAssessmentEntity } from '../../entities/self-assessment.entity'
+import { FindSelfAssessmentsDto } from '../../dtos'
+import { PaginatedData } from '@core/dtos'
+
+export interface ISelfAssessmentsRepository extends IBaseRepository<SelfAssessmentEntity> {
+  findOneWithRelations(id: string): Promise<SelfAssessmentEntity | null>
+  paginateSelfAssessments(
+    query: FindSelfAssessmentsDto,
+  ): Promise<PaginatedData<SelfAssessmentEntity>>
+}
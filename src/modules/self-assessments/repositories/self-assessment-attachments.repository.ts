@@ -0,0 +1,27 @@
+import { Injectable } from '@nestjs/common'
+import { InjectRepository } from '@nestjs/typeorm'
+import { Repository } from 'typeorm'
+import { BaseRepository } from '@core/repositories'
+import { TransactionService, AuditService } from '@core/database'
+import { SelfAssessmentAttachmentEntity } from '../entities/self-assessment-attachment.entity'
+import type { ISelfAssessmentAttachmentsRepository } from './interfaces/self-assessment-attachments-repository.interface'
+
+/**
+ * Self Assessment Attachments Repository
+ *
+ * Adjuntos de las respuestas (se accede después de validar la respuesta)
+ */
+@Injectable()
+export class SelfAssessmentAttachmentsRepository
+  extends BaseRepository<SelfAssessmentAttachmentEntity>
+  implements ISelfAssessmentAttachmentsRepository
+{
+  constructor(
+    @InjectRepository(SelfAssessmentAttachmentEntity)
+    repository: Repository<SelfAssessmentAttachmentEntity>,
+    transactionService: TransactionService,
+    auditService: AuditService,
+  ) {
+    super(repository, transactionService, auditService)
+  }
+}
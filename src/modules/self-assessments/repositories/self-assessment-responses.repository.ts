@@ -0,0 +1,54 @@
+import { Injectable } from '@nestjs/common'
+import { InjectRepository } from '@nestjs/typeorm'
+import { Repository } from 'typeorm'
+import { BaseRepository } from '@core/repositories'
+import { TransactionService, AuditService } from '@core/database'
+import { SelfAssessmentResponseEntity } from '../entities/self-assessment-response.entity'
+import type { ISelfAssessmentResponsesRepository } from './interfaces/self-assessment-responses-repository.interface'
+
+/**
+ * Self Assessment Responses Repository
+ *
+ * Respuestas de un cuestionario. No filtra por organización: se accede
+ * siempre después de validar la autoevaluación (que sí está limitada).
+ */
+@Injectable()
+export class SelfAssessmentResponsesRepository
+  extends BaseRepository<SelfAssessmentResponseEntity>
+  implements ISelfAssessmentResponsesRepository
+{
+  constructor(
+    @InjectRepository(SelfAssessmentResponseEntity)
+    repository: Repository<SelfAssessmentResponseEntity>,
+    transactionService: TransactionService,
+    auditService: AuditService,
+  ) {
+    super(repository, transactionService, auditService)
+  }
+
+  /**
+   * Respuestas del cuestionario en el orden de la plantilla
+   */
+  async findByAssessment(
+    selfAssessmentId: string,
+  ): Promise<SelfAssessmentResponseEntity[]> {
+    return await this.getRepo().find({
+      where: { selfAssessmentId },
+      order: { order: 'ASC' },
+    })
+  }
+
+  /**
+   * Busca una respuesta asegurando que pertenece al cuestionario, con sus adjuntos
+   */
+  async findOneInAssessment(
+    selfAssessmentId: string,
+    responseId: string,
+  ): Promise<SelfAssessmentResponseEntity | null> {
+    return await this.getRepo().findOne({
+      where: { id: responseId, selfAssessmentId },
+      relations: { attachments: true },
+      order: { attachments: { createdAt: 'ASC' } },
+    })
+  }
+}
@@ -0,0 +1,96 @@
+import { Injectable } from '@nestjs/common'
+import { InjectRepository } from '@nestjs/typeorm'
+import { Brackets, Repository } from 'typeorm'
+import { BaseRepository } from '@core/repositories'
+import { TransactionService, AuditService } from '@core/database'
+import { PaginatedData } from '@core/dtos'
+import { SelfAssessmentEntity } from '../entities/self-assessment.entity'
+import { FindSelfAssessmentsDto, SELF_ASSESSMENT_SEARCH_FIELDS } from '../dtos'
+import type { ISelfAssessmentsRepository } from './interfaces/self-assessments-repository.interface'
+
+/**
+ * Self Assessments Repository
+ *
+ * Repositorio para gestionar los cuestionarios de autoevaluación
+ * (limitados a la organización actual)
+ */
+@Injectable()
+export class SelfAssessmentsRepository
+  extends BaseRepository<SelfAssessmentEntity>
+  implements ISelfAssessmentsRepository
+{
+  constructor(
+    @InjectRepository(SelfAssessmentEntity)
+    repository: Repository<SelfAssessmentEntity>,
+    transactionService: TransactionService,
+    auditService: AuditService,
+  ) {
+    super(repository, transactionService, auditService)
+  }
+
+  /**
+   * Obtiene el cuestionario con organización, plantilla y respuestas
+   * (en el orden de la plantilla, con sus adjuntos)
+   *
+   * @param id - ID de la autoevaluación
+   * @returns Autoevaluación con relaciones o null
+   */
+  async findOneWithRelations(id: string): Promise<SelfAssessmentEntity | null> {
+    return await this.getRepo().findOne({
+      where: this.scopeWhere({ id }),
+      relations: {
+        organization: true,
+        template: true,
+        assignedBy: true,
+        responses: {
+          answeredBy: true,
+          reviewedBy: true,
+          attachments: true,
+        },
+      },
+      order: {
+        responses: { order: 'ASC', attachments: { createdAt: 'ASC' } },
+      },
+    })
+  }
+
+  async paginateSelfAssessments(
+    query: FindSelfAssessmentsDto,
+  ): Promise<PaginatedData<SelfAssessmentEntity>> {
+    const { search, organizationId, templateId, status } = query
+
+    const qb = this.getRepo()
+      .createQueryBuilder('selfAssessment')
+      .leftJoinAndSelect('selfAssessment.organization', 'organization')
+      .leftJoinAndSelect('selfAssessment.template', 'template')
+
+    if (organizationId) {
+      qb.andWhere('selfAssessment.organizationId = :organizationId', {
+        organizationId,
+      })
+    }
+
+    if (templateId) {
+      qb.andWhere('selfAssessment.templateId = :templateId', { templateId })
+    }
+
+    if (status) {
+      qb.andWhere('selfAssessment.status = :status', { status })
+    }
+
+    if (search) {
+      qb.andWhere(
+        new Brackets((innerQb) => {
+          SELF_ASSESSMENT_SEARCH_FIELDS.forEach((field) => {
+            innerQb.orWhere(
+              `LOWER(selfAssessment.${field}) LIKE LOWER(:search)`,
+              { search: `%${search}%` },
+            )
+          })
+        }),
+      )
+    }
+
+    return await this.paginateQueryBuilder(qb, query)
+  }
+}
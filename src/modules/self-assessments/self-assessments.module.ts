@@ -0,0 +1,45 @@
+import { Module } from '@nestjs/common'
+import { SelfAssessmentsController } from './controllers/self-assessments.controller'
+import { SelfAssessmentFactory } from './factories'
+import { SelfAssessmentValidator } from './validators'
+import { SelfAssessmentQuestionnaireService } from './services'
+
+// Use Cases
+import {
+  CreateSelfAssessmentUseCase,
+  FindSelfAssessmentsUseCase,
+  FindSelfAssessmentUseCase,
+  DeleteSelfAssessmentUseCase,
+  AnswerSelfAssessmentResponseUseCase,
+  UploadResponseAttachmentUseCase,
+  DeleteResponseAttachmentUseCase,
+  SubmitSelfAssessmentUseCase,
+  ReviewSelfAssessmentResponseUseCase,
+  ReturnSelfAssessmentUseCase,
+  CompleteSelfAssessmentUseCase,
+} from './use-cases'
+
+@Module({
+  imports: [],
+  controllers: [SelfAssessmentsController],
+  providers: [
+    SelfAssessmentFactory,
+    SelfAssessmentValidator,
+    SelfAssessmentQuestionnaireService,
+
+    // Use Cases
+    CreateSelfAssessmentUseCase,
+    FindSelfAssessmentsUseCase,
+    FindSelfAssessmentUseCase,
+    DeleteSelfAssessmentUseCase,
+    AnswerSelfAssessmentResponseUseCase,
+    UploadResponseAttachmentUseCase,
+    DeleteResponseAttachmentUseCase,
+    SubmitSelfAssessmentUseCase,
+    ReviewSelfAssessmentResponseUseCase,
+    ReturnSelfAssessmentUseCase,
+    CompleteSelfAssessmentUseCase,
+  ],
+  exports: [SelfAssessmentValidator],
+})
+export class SelfAssessmentsModule {}
@@ -0,0 +1,98 @@
+import { SelfAssessmentQuestionnaireService } from './self-assessment-questionnaire.service'
+import { SelfAssessmentResponseEntity } from '../entities'
+import { ResponseReviewStatus, SelfAssessmentAnswer } from '../constants'
+import { StandardEntity } from '../../audit-library/standards/entities/standard.entity'
+
+describe('SelfAssessmentQuestionnaireService', () => {
+  let service: SelfAssessmentQuestionnaireService
+
+  const buildStandard = (
+    id: string,
+    parentId: string | null,
+    order: number,
+    isAuditable = true,
+  ) =>
+    Object.assign(new StandardEntity(), {
+      id,
+      parentId,
+      code: id.toUpperCase(),
+      title: `Control ${id}`,
+      description: null,
+      order,
+      isAuditable,
+    })
+
+  const buildResponse = (
+    code: string,
+    overrides: Partial<SelfAssessmentResponseEntity> = {},
+  ) =>
+    Object.assign(new SelfAssessmentResponseEntity(), {
+      code,
+      answer: SelfAssessmentAnswer.IMPLEMENTED,
+      comment: null,
+      reviewStatus: ResponseReviewStatus.PENDING,
+      ...overrides,
+    })
+
+  beforeEach(() => {
+    service = new SelfAssessmentQuestionnaireService()
+  })
+
+  describe('buildResponses', () => {
+    it('should order the questions as the template tree is read', () => {
+      // Arrange: a (1) -> a1, a2 ; b (2)
+      const standards = [
+        buildStandard('b', null, 2),
+        buildStandard('a2', 'a', 2),
+        buildStandard('a', null, 1),
+        buildStandard('a1', 'a', 1),
+      ]
+
+      // Act
+      const responses = service.buildResponses(standards)
+
+      // Assert
+      expect(responses.map((r) => [r.code, r.order])).toEqual([
+        ['A', 1],
+        ['A1', 2],
+        ['A2', 3],
+        ['B', 4],
+      ])
+    })
+
+    it('should only ask for auditable standards', () => {
+      const standards = [
+        buildStandard('a', null, 1, false),
+        buildStandard('a1', 'a', 1),
+      ]
+
+      const responses = service.buildResponses(standards)
+
+      expect(responses).toHaveLength(1)
+      expect(responses[0]).toMatchObject({
+        sourceStandardId: 'a1',
+        answer: null,
+        reviewStatus: ResponseReviewStatus.PENDING,
+      })
+    })
+  })
+
+  describe('findIncomplete', () => {
+    it('should report unanswered, uncommented and challenged answers', () => {
+      const responses = [
+        buildResponse('C1'),
+        buildResponse('C2', { answer: null }),
+        buildResponse('C3', {
+          answer: SelfAssessmentAnswer.NOT_APPLICABLE,
+        }),
+        buildResponse('C4', {
+          answer: SelfAssessmentAnswer.PARTIALLY_IMPLEMENTED,
+          comment: 'Falta el área de sistemas',
+        }),
+        buildResponse('C5', { reviewStatus: ResponseReviewStatus.CHALLENGED }),
+      ]
+
+      expect(service.findIncomplete(responses)).toEqual(['C2', 'C3', 'C5'])
+    })
+  })
+})
@@ -0,0 +1,90 @@
+import { Injectable } from '@nestjs/common'
+import { StandardEntity } from '../../audit-library/standards/entities/standard.entity'
+import { SelfAssessmentResponseEntity } from '../entities'
+import { ResponseReviewStatus } from '../constants'
+
+/**
+ * Self Assessment Questionnaire Service
+ *
+ * Arma las preguntas del cuestionario a partir de los standards de la
+ * plantilla y resume el estado de las respuestas (sin acceso a datos)
+ */
+@Injectable()
+export class SelfAssessmentQuestionnaireService {
+  /**
+   * Una respuesta pendiente por cada standard auditable, en el orden en que
+   * se leen en el árbol de la plantilla (cada padre antes que sus hijos)
+   *
+   * @param standards - Todos los standards de la plantilla (planos)
+   * @returns Respuestas sin responder, numeradas desde 1
+   */
+  buildResponses(standards: StandardEntity[]): SelfAssessmentResponseEntity[] {
+    const children = new Map<string | null, StandardEntity[]>()
+    standards.forEach((standard) => {
+      const siblings = children.get(standard.parentId) ?? []
+      siblings.push(standard)
+      children.set(standard.parentId, siblings)
+    })
+
+    const ordered: StandardEntity[] = []
+    const visit = (parentId: string | null) => {
+      const siblings = [...(children.get(parentId) ?? [])].sort(
+        (a, b) => a.order - b.order,
+      )
+      siblings.forEach((standard) => {
+        ordered.push(standard)
+        visit(standard.id)
+      })
+    }
+    visit(null)
+
+    return ordered
+      .filter((standard) => standard.isAuditable)
+      .map((standard, index) => {
+        const response = new SelfAssessmentResponseEntity()
+        response.sourceStandardId = standard.id
+        response.code = standard.code
+        response.title = standard.title
+        response.description = standard.description
+        response.order = index + 1
+        response.answer = null
+        response.comment = null
+        response.answeredById = null
+        response.answeredAt = null
+        response.reviewStatus = ResponseReviewStatus.PENDING
+        response.reviewComment = null
+        response.reviewedById = null
+        response.reviewedAt = null
+        return response
+      })
+  }
+
+  /**
+   * Códigos de los controles que impiden enviar el cuestionario: sin
+   * responder, sin el comentario requerido u observados sin corregir
+   */
+  findIncomplete(responses: SelfAssessmentResponseEntity[]): string[] {
+    return responses
+      .filter(
+        (response) =>
+          !response.isComplete ||
+          response.reviewStatus === ResponseReviewStatus.CHALLENGED,
+      )
+      .map((response) => response.code)
+  }
+
+  /**
+   * Cantidad de respuestas en cada estado de revisión
+   */
+  countByReviewStatus(
+    responses: SelfAssessmentResponseEntity[],
+  ): Record<ResponseReviewStatus, number> {
+    const counts = {
+      [ResponseReviewStatus.PENDING]: 0,
+      [ResponseReviewStatus.ACCEPTED]: 0,
+      [ResponseReviewStatus.CHALLENGED]: 0,
+    }
+    responses.forEach((response) => counts[response.reviewStatus]++)
+    return counts
+  }
+}
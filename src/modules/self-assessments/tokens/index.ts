@@ -0,0 +1,7 @@
+export const SELF_ASSESSMENTS_REPOSITORY = Symbol('SELF_ASSESSMENTS_REPOSITORY')
+export const SELF_ASSESSMENT_RESPONSES_REPOSITORY = Symbol(
+  'SELF_ASSESSMENT_RESPONSES_REPOSITORY',
+)
+export const SELF_ASSESSMENT_ATTACHMENTS_REPOSITORY = Symbol(
+  'SELF_ASSESSMENT_ATTACHMENTS_REPOSITORY',
+)
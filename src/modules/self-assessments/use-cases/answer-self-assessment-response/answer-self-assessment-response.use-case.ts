@@ -0,0 +1,54 @@
+import { Inject, Injectable } from '@nestjs/common'
+import { Transactional } from '@core/database/transactional.decorator'
+import type { AnswerSelfAssessmentResponseDto } from '../../dtos'
+import type { SelfAssessmentResponseEntity } from '../../entities'
+import { SelfAssessmentFactory } from '../../factories'
+import { SelfAssessmentValidator } from '../../validators'
+import { SELF_ASSESSMENT_RESPONSES_REPOSITORY } from '../../tokens'
+import type { ISelfAssessmentResponsesRepository } from '../../repositories'
+
+@Injectable()
+export class AnswerSelfAssessmentResponseUseCase {
+  constructor(
+    @Inject(SELF_ASSESSMENT_RESPONSES_REPOSITORY)
+    private readonly responsesRepository: ISelfAssessmentResponsesRepository,
+    private readonly selfAssessmentFactory: SelfAssessmentFactory,
+    private readonly selfAssessmentValidator: SelfAssessmentValidator,
+  ) {}
+
+  /**
+   * Guarda el borrador de la respuesta de un control
+   *
+   * @param id - ID de la autoevaluación
+   * @param responseId - ID de la respuesta
+   * @param dto - Respuesta y/o comentario
+   * @param userId - ID del usuario autenticado
+   * @returns Respuesta actualizada (pendiente de revisión)
+   * @throws {SelfAssessmentNotFoundException} Si la autoevaluación no existe
+   * @throws {SelfAssessmentResponseNotFoundException} Si la respuesta no pertenece al cuestionario
+   * @throws {SelfAssessmentNotAnswerableException} Si ya fue enviada o completada
+   * @throws {ResponseNotEditableException} Si fue devuelta y la respuesta no está observada
+   */
+  @Transactional()
+  async execute(
+    id: string,
+    responseId: string,
+    dto: AnswerSelfAssessmentResponseDto,
+    userId: string,
+  ): Promise<SelfAssessmentResponseEntity> {
+    const selfAssessment =
+      await this.selfAssessmentValidator.validateAndGetSelfAssessment(id)
+    const response = await this.selfAssessmentValidator.validateAndGetResponse(
+      id,
+      responseId,
+    )
+    this.selfAssessmentValidator.validateCanAnswer(selfAssessment, response)
+
+    const updated = this.selfAssessmentFactory.answerFromDto(
+      response,
+      dto,
+      userId,
+    )
+    return await this.responsesRepository.save(updated)
+  }
+}
@@ -0,0 +1,50 @@
+import { Inject, Injectable } from '@nestjs/common'
+import { Transactional } from '@core/database/transactional.decorator'
+import type { SelfAssessmentEntity } from '../../entities'
+import { SelfAssessmentStatus } from '../../constants'
+import { SelfAssessmentValidator } from '../../validators'
+import {
+  SELF_ASSESSMENTS_REPOSITORY,
+  SELF_ASSESSMENT_RESPONSES_REPOSITORY,
+} from '../../tokens'
+import type {
+  ISelfAssessmentsRepository,
+  ISelfAssessmentResponsesRepository,
+} from '../../repositories'
+
+@Injectable()
+export class CompleteSelfAssessmentUseCase {
+  constructor(
+    @Inject(SELF_ASSESSMENTS_REPOSITORY)
+    private readonly selfAssessmentsRepository: ISelfAssessmentsRepository,
+    @Inject(SELF_ASSESSMENT_RESPONSES_REPOSITORY)
+    private readonly responsesRepository: ISelfAssessmentResponsesRepository,
+    private readonly selfAssessmentValidator: SelfAssessmentValidator,
+  ) {}
+
+  /**
+   * Cierra la revisión con todas las respuestas aceptadas
+   * (submitted → completed)
+   *
+   * @param id - ID de la autoevaluación
+   * @returns Autoevaluación actualizada
+   * @throws {SelfAssessmentNotFoundException} Si no existe
+   * @throws {InvalidSelfAssessmentStatusTransitionException} Si la transición no está permitida
+   * @throws {SelfAssessmentReviewIncompleteException} Si hay respuestas pendientes u observadas
+   */
+  @Transactional()
+  async execute(id: string): Promise<SelfAssessmentEntity> {
+    const selfAssessment =
+      await this.selfAssessmentValidator.validateAndGetSelfAssessment(id)
+    this.selfAssessmentValidator.validateTransition(
+      selfAssessment,
+      SelfAssessmentStatus.COMPLETED,
+    )
+
+    const responses = await this.responsesRepository.findByAssessment(id)
+    this.selfAssessmentValidator.validateCanComplete(responses)
+
+    selfAssessment.complete()
+    return await this.selfAssessmentsRepository.save(selfAssessment)
+  }
+}
@@ -0,0 +1,71 @@
+import { Inject, Injectable } from '@nestjs/common'
+import { Transactional } from '@core/database/transactional.decorator'
+import type { CreateSelfAssessmentDto } from '../../dtos'
+import type { SelfAssessmentEntity } from '../../entities'
+import { SelfAssessmentFactory } from '../../factories'
+import { SelfAssessmentValidator } from '../../validators'
+import { SelfAssessmentQuestionnaireService } from '../../services'
+import { SELF_ASSESSMENTS_REPOSITORY } from '../../tokens'
+import type { ISelfAssessmentsRepository } from '../../repositories'
+import { TemplateNotUsableForSelfAssessmentException } from '../../exceptions'
+import { STANDARDS_REPOSITORY } from '../../../audit-library/standards/tokens'
+import type { IStandardsRepository } from '../../../audit-library/standards/repositories'
+
+/**
+ * Create Self Assessment Use Case
+ *
+ * Genera un cuestionario a partir de los standards auditables de una
+ * plantilla publicada y lo asigna a una organización
+ */
+@Injectable()
+export class CreateSelfAssessmentUseCase {
+  constructor(
+    @Inject(SELF_ASSESSMENTS_REPOSITORY)
+    private readonly selfAssessmentsRepository: ISelfAssessmentsRepository,
+    @Inject(STANDARDS_REPOSITORY)
+    private readonly standardsRepository: IStandardsRepository,
+    private readonly selfAssessmentFactory: SelfAssessmentFactory,
+    private readonly selfAssessmentValidator: SelfAssessmentValidator,
+    private readonly questionnaireService: SelfAssessmentQuestionnaireService,
+  ) {}
+
+  /**
+   * @param dto - Plantilla, organización, título y fecha límite
+   * @param assignedById - ID del usuario autenticado
+   * @returns Autoevaluación creada (estado OPEN) con sus respuestas
+   * @throws {TemplateNotFoundException} Si la plantilla no existe
+   * @throws {TemplateNotUsableForSelfAssessmentException} Si la plantilla no está publicada o no tiene standards auditables
+   * @throws {OrganizationNotFoundException} Si la organización no existe
+   * @throws {OrganizationNotActiveException} Si la organización está inactiva
+   */
+  @Transactional()
+  async execute(
+    dto: CreateSelfAssessmentDto,
+    assignedById: string,
+  ): Promise<SelfAssessmentEntity> {
+    // 1. Validar referencias
+    const template = await this.selfAssessmentValidator.validateTemplate(
+      dto.templateId,
+    )
+    await this.selfAssessmentValidator.validateOrganization(dto.organizationId)
+
+    // 2. Una pregunta por standard auditable
+    const standards = await this.standardsRepository.findByTemplate(template.id)
+    const responses = this.questionnaireService.buildResponses(standards)
+
+    if (responses.length === 0) {
+      throw new TemplateNotUsableForSelfAssessmentException(
+        template.name,
+        'no tiene standards auditables',
+      )
+    }
+
+    // 3. Guardar el cuestionario con sus respuestas (cascade)
+    const selfAssessment = this.selfAssessmentFactory.createFromDto(
+      dto,
+      assignedById,
+    )
+    selfAssessment.responses = responses
+    return await this.selfAssessmentsRepository.save(selfAssessment)
+  }
+}
@@ -0,0 +1,60 @@
+import { Inject, Injectable } from '@nestjs/common'
+import { Transactional } from '@core/database/transactional.decorator'
+import { FilesService } from '@core/files'
+import { SelfAssessmentValidator } from '../../validators'
+import {
+  SELF_ASSESSMENT_RESPONSES_REPOSITORY,
+  SELF_ASSESSMENT_ATTACHMENTS_REPOSITORY,
+} from '../../tokens'
+import type {
+  ISelfAssessmentResponsesRepository,
+  ISelfAssessmentAttachmentsRepository,
+} from '../../repositories'
+
+@Injectable()
+export class DeleteResponseAttachmentUseCase {
+  constructor(
+    @Inject(SELF_ASSESSMENT_RESPONSES_REPOSITORY)
+    private readonly responsesRepository: ISelfAssessmentResponsesRepository,
+    @Inject(SELF_ASSESSMENT_ATTACHMENTS_REPOSITORY)
+    private readonly attachmentsRepository: ISelfAssessmentAttachmentsRepository,
+    private readonly selfAssessmentValidator: SelfAssessmentValidator,
+    private readonly filesService: FilesService,
+  ) {}
+
+  /**
+   * Quita un adjunto de la respuesta y elimina su archivo
+   *
+   * @param id - ID de la autoevaluación
+   * @param responseId - ID de la respuesta
+   * @param attachmentId - ID del adjunto
+   * @throws {SelfAssessmentNotFoundException} Si la autoevaluación no existe
+   * @throws {SelfAssessmentResponseNotFoundException} Si la respuesta no pertenece al cuestionario
+   * @throws {SelfAssessmentAttachmentNotFoundException} Si el adjunto no pertenece a la respuesta
+   * @throws {SelfAssessmentNotAnswerableException} Si ya fue enviada o completada
+   * @throws {ResponseNotEditableException} Si fue devuelta y la respuesta no está observada
+   */
+  @Transactional()
+  async execute(
+    id: string,
+    responseId: string,
+    attachmentId: string,
+  ): Promise<void> {
+    const selfAssessment =
+      await this.selfAssessmentValidator.validateAndGetSelfAssessment(id)
+    const response = await this.selfAssessmentValidator.validateAndGetResponse(
+      id,
+      responseId,
+    )
+    const attachment = this.selfAssessmentValidator.validateAndGetAttachment(
+      response,
+      attachmentId,
+    )
+    this.selfAssessmentValidator.validateCanAnswer(selfAssessment, response)
+
+    response.markForReview()
+    await this.responsesRepository.save(response)
+    await this.attachmentsRepository.delete(attachment.id)
+    await this.filesService.deleteFile(attachment.filePath)
+  }
+}
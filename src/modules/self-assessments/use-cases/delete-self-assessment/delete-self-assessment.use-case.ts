@@ -0,0 +1,32 @@
+import { Inject, Injectable } from '@nestjs/common'
+import { Transactional } from '@core/database/transactional.decorator'
+import { SelfAssessmentValidator } from '../../validators'
+import { SELF_ASSESSMENTS_REPOSITORY } from '../../tokens'
+import type { ISelfAssessmentsRepository } from '../../repositories'
+
+/**
+ * Delete Self Assessment Use Case
+ *
+ * Elimina (soft delete) una autoevaluación que aún no fue enviada
+ */
+@Injectable()
+export class DeleteSelfAssessmentUseCase {
+  constructor(
+    @Inject(SELF_ASSESSMENTS_REPOSITORY)
+    private readonly selfAssessmentsRepository: ISelfAssessmentsRepository,
+    private readonly selfAssessmentValidator: SelfAssessmentValidator,
+  ) {}
+
+  /**
+   * @param id - ID de la autoevaluación
+   * @throws {SelfAssessmentNotFoundException} Si no existe
+   * @throws {SelfAssessmentNotDeletableException} Si ya fue enviada
+   */
+  @Transactional()
+  async execute(id: string): Promise<void> {
+    const selfAssessment =
+      await this.selfAssessmentValidator.validateAndGetSelfAssessment(id)
+    this.selfAssessmentValidator.validateCanDelete(selfAssessment)
+    await this.selfAssessmentsRepository.softDelete(id)
+  }
+}
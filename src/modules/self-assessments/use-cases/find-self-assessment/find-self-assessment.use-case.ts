@@ -0,0 +1,29 @@
+import { Inject, Injectable } from '@nestjs/common'
+import type { SelfAssessmentEntity } from '../../entities'
+import { SelfAssessmentNotFoundException } from '../../exceptions'
+import { SELF_ASSESSMENTS_REPOSITORY } from '../../tokens'
+import type { ISelfAssessmentsRepository } from '../../repositories'
+
+@Injectable()
+export class FindSelfAssessmentUseCase {
+  constructor(
+    @Inject(SELF_ASSESSMENTS_REPOSITORY)
+    private readonly selfAssessmentsRepository: ISelfAssessmentsRepository,
+  ) {}
+
+  /**
+   * @param id - ID de la autoevaluación
+   * @returns Autoevaluación con organización, plantilla y respuestas (con adjuntos)
+   * @throws {SelfAssessmentNotFoundException} Si no existe
+   */
+  async execute(id: string): Promise<SelfAssessmentEntity> {
+    const selfAssessment =
+      await this.selfAssessmentsRepository.findOneWithRelations(id)
+
+    if (!selfAssessment) {
+      throw new SelfAssessmentNotFoundException(id)
+    }
+
+    return selfAssessment
+  }
+}
@@ -0,0 +1,37 @@
+import { Inject, Injectable } from '@nestjs/common'
+import type { SelfAssessmentEntity } from '../../entities'
+import { SELF_ASSESSMENTS_REPOSITORY } from '../../tokens'
+import type { ISelfAssessmentsRepository } from '../../repositories'
+import { FindSelfAssessmentsDto } from '../../dtos'
+import { PaginatedResponse, PaginatedResponseBuilder } from '@core/dtos'
+
+/**
+ * Find Self Assessments Use Case
+ *
+ * Lista las autoevaluaciones con filtros por organización, plantilla y estado
+ */
+@Injectable()
+export class FindSelfAssessmentsUseCase {
+  constructor(
+    @Inject(SELF_ASSESSMENTS_REPOSITORY)
+    private readonly selfAssessmentsRepository: ISelfAssessmentsRepository,
+  ) {}
+
+  async execute(
+    dto: FindSelfAssessmentsDto,
+  ): Promise<PaginatedResponse<SelfAssessmentEntity>> {
+    const { data, total } =
+      await this.selfAssessmentsRepository.paginateSelfAssessments(dto)
+
+    if (dto.all) {
+      return PaginatedResponseBuilder.createAll(data)
+    }
+
+    return PaginatedResponseBuilder.create(
+      data,
+      total,
+      dto.page || 1,
+      dto.limit || 10,
+    )
+  }
+}
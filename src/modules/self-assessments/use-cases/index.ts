@@ -0,0 +1,11 @@
+export * from './create-self-assessment/create-self-assessment.use-case'
+export * from './find-self-assessments/find-self-assessments.use-case'
+export * from './find-self-assessment/find-self-assessment.use-case'
+export * from './delete-self-assessment/delete-self-assessment.use-case'
+export * from './answer-self-assessment-response/answer-self-assessment-response.use-case'
+export * from './upload-response-attachment/upload-response-attachment.use-case'
+export * from './delete-response-attachment/delete-response-attachment.use-case'
+export * from './submit-self-assessment/submit-self-assessment.use-case'
+export * from './review-self-assessment-response/review-self-assessment-response.use-case'
+export * from './return-self-assessment/return-self-assessment.use-case'
+export * from './complete-self-assessment/complete-self-assessment.use-case'
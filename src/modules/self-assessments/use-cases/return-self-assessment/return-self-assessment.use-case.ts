@@ -0,0 +1,50 @@
+import { Inject, Injectable } from '@nestjs/common'
+import { Transactional } from '@core/database/transactional.decorator'
+import type { SelfAssessmentEntity } from '../../entities'
+import { SelfAssessmentStatus } from '../../constants'
+import { SelfAssessmentValidator } from '../../validators'
+import {
+  SELF_ASSESSMENTS_REPOSITORY,
+  SELF_ASSESSMENT_RESPONSES_REPOSITORY,
+} from '../../tokens'
+import type {
+  ISelfAssessmentsRepository,
+  ISelfAssessmentResponsesRepository,
+} from '../../repositories'
+
+@Injectable()
+export class ReturnSelfAssessmentUseCase {
+  constructor(
+    @Inject(SELF_ASSESSMENTS_REPOSITORY)
+    private readonly selfAssessmentsRepository: ISelfAssessmentsRepository,
+    @Inject(SELF_ASSESSMENT_RESPONSES_REPOSITORY)
+    private readonly responsesRepository: ISelfAssessmentResponsesRepository,
+    private readonly selfAssessmentValidator: SelfAssessmentValidator,
+  ) {}
+
+  /**
+   * Devuelve el cuestionario para que la organización corrija las
+   * respuestas observadas (submitted → returned)
+   *
+   * @param id - ID de la autoevaluación
+   * @returns Autoevaluación actualizada
+   * @throws {SelfAssessmentNotFoundException} Si no existe
+   * @throws {InvalidSelfAssessmentStatusTransitionException} Si la transición no está permitida
+   * @throws {SelfAssessmentReviewIncompleteException} Si ninguna respuesta está observada
+   */
+  @Transactional()
+  async execute(id: string): Promise<SelfAssessmentEntity> {
+    const selfAssessment =
+      await this.selfAssessmentValidator.validateAndGetSelfAssessment(id)
+    this.selfAssessmentValidator.validateTransition(
+      selfAssessment,
+      SelfAssessmentStatus.RETURNED,
+    )
+
+    const responses = await this.responsesRepository.findByAssessment(id)
+    this.selfAssessmentValidator.validateCanReturn(responses)
+
+    selfAssessment.returnForRevision()
+    return await this.selfAssessmentsRepository.save(selfAssessment)
+  }
+}
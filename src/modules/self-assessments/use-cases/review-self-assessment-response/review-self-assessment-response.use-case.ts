@@ -0,0 +1,55 @@
+import { Inject, Injectable } from '@nestjs/common'
+import { Transactional } from '@core/database/transactional.decorator'
+import type { ReviewSelfAssessmentResponseDto } from '../../dtos'
+import type { SelfAssessmentResponseEntity } from '../../entities'
+import { SelfAssessmentValidator } from '../../validators'
+import { SELF_ASSESSMENT_RESPONSES_REPOSITORY } from '../../tokens'
+import type { ISelfAssessmentResponsesRepository } from '../../repositories'
+
+@Injectable()
+export class ReviewSelfAssessmentResponseUseCase {
+  constructor(
+    @Inject(SELF_ASSESSMENT_RESPONSES_REPOSITORY)
+    private readonly responsesRepository: ISelfAssessmentResponsesRepository,
+    private readonly selfAssessmentValidator: SelfAssessmentValidator,
+  ) {}
+
+  /**
+   * El auditor acepta u observa una respuesta
+   *
+   * @param id - ID de la autoevaluación
+   * @param responseId - ID de la respuesta
+   * @param dto - Resultado y comentario
+   * @param userId - ID del auditor autenticado
+   * @returns Respuesta revisada
+   * @throws {SelfAssessmentNotFoundException} Si la autoevaluación no existe
+   * @throws {SelfAssessmentResponseNotFoundException} Si la respuesta no pertenece al cuestionario
+   * @throws {SelfAssessmentNotUnderReviewException} Si la autoevaluación no fue enviada
+   * @throws {ReviewCommentRequiredException} Si se observa sin comentario
+   */
+  @Transactional()
+  async execute(
+    id: string,
+    responseId: string,
+    dto: ReviewSelfAssessmentResponseDto,
+    userId: string,
+  ): Promise<SelfAssessmentResponseEntity> {
+    const selfAssessment =
+      await this.selfAssessmentValidator.validateAndGetSelfAssessment(id)
+    this.selfAssessmentValidator.validateCanReview(selfAssessment)
+    const response = await this.selfAssessmentValidator.validateAndGetResponse(
+      id,
+      responseId,
+    )
+
+    const comment = dto.comment?.trim() || null
+    this.selfAssessmentValidator.validateReviewComment(
+      response,
+      dto.status,
+      comment,
+    )
+
+    response.review(dto.status, comment, userId)
+    return await this.responsesRepository.save(response)
+  }
+}
@@ -0,0 +1,50 @@
+import { Inject, Injectable } from '@nestjs/common'
+import { Transactional } from '@core/database/transactional.decorator'
+import type { SelfAssessmentEntity } from '../../entities'
+import { SelfAssessmentStatus } from '../../constants'
+import { SelfAssessmentValidator } from '../../validators'
+import {
+  SELF_ASSESSMENTS_REPOSITORY,
+  SELF_ASSESSMENT_RESPONSES_REPOSITORY,
+} from '../../tokens'
+import type {
+  ISelfAssessmentsRepository,
+  ISelfAssessmentResponsesRepository,
+} from '../../repositories'
+
+@Injectable()
+export class SubmitSelfAssessmentUseCase {
+  constructor(
+    @Inject(SELF_ASSESSMENTS_REPOSITORY)
+    private readonly selfAssessmentsRepository: ISelfAssessmentsRepository,
+    @Inject(SELF_ASSESSMENT_RESPONSES_REPOSITORY)
+    private readonly responsesRepository: ISelfAssessmentResponsesRepository,
+    private readonly selfAssessmentValidator: SelfAssessmentValidator,
+  ) {}
+
+  /**
+   * La organización envía sus respuestas a revisión
+   * (open / returned → submitted)
+   *
+   * @param id - ID de la autoevaluación
+   * @returns Autoevaluación actualizada
+   * @throws {SelfAssessmentNotFoundException} Si no existe
+   * @throws {InvalidSelfAssessmentStatusTransitionException} Si la transición no está permitida
+   * @throws {IncompleteSelfAssessmentException} Si hay respuestas sin completar o sin corregir
+   */
+  @Transactional()
+  async execute(id: string): Promise<SelfAssessmentEntity> {
+    const selfAssessment =
+      await this.selfAssessmentValidator.validateAndGetSelfAssessment(id)
+    this.selfAssessmentValidator.validateTransition(
+      selfAssessment,
+      SelfAssessmentStatus.SUBMITTED,
+    )
+
+    const responses = await this.responsesRepository.findByAssessment(id)
+    this.selfAssessmentValidator.validateCanSubmit(responses)
+
+    selfAssessment.submit()
+    return await this.selfAssessmentsRepository.save(selfAssessment)
+  }
+}
@@ -0,0 +1,79 @@
+import { Inject, Injectable } from '@nestjs/common'
+import { Transactional } from '@core/database/transactional.decorator'
+import { FilesService } from '@core/files'
+import type { SelfAssessmentAttachmentEntity } from '../../entities'
+import { SelfAssessmentFactory } from '../../factories'
+import { SelfAssessmentValidator } from '../../validators'
+import { SELF_ASSESSMENT_ATTACHMENT_UPLOAD_CONFIGS } from '../../constants'
+import {
+  SELF_ASSESSMENT_RESPONSES_REPOSITORY,
+  SELF_ASSESSMENT_ATTACHMENTS_REPOSITORY,
+} from '../../tokens'
+import type {
+  ISelfAssessmentResponsesRepository,
+  ISelfAssessmentAttachmentsRepository,
+} from '../../repositories'
+
+@Injectable()
+export class UploadResponseAttachmentUseCase {
+  constructor(
+    @Inject(SELF_ASSESSMENT_RESPONSES_REPOSITORY)
+    private readonly responsesRepository: ISelfAssessmentResponsesRepository,
+    @Inject(SELF_ASSESSMENT_ATTACHMENTS_REPOSITORY)
+    private readonly attachmentsRepository: ISelfAssessmentAttachmentsRepository,
+    private readonly selfAssessmentFactory: SelfAssessmentFactory,
+    private readonly selfAssessmentValidator: SelfAssessmentValidator,
+    private readonly filesService: FilesService,
+  ) {}
+
+  /**
+   * Adjunta un archivo de respaldo a la respuesta
+   * (en self-assessments/<id>/responses/<responseId>)
+   *
+   * @param id - ID de la autoevaluación
+   * @param responseId - ID de la respuesta
+   * @param file - Archivo subido
+   * @param userId - ID del usuario autenticado
+   * @returns Adjunto creado
+   * @throws {SelfAssessmentNotFoundException} Si la autoevaluación no existe
+   * @throws {SelfAssessmentResponseNotFoundException} Si la respuesta no pertenece al cuestionario
+   * @throws {SelfAssessmentNotAnswerableException} Si ya fue enviada o completada
+   * @throws {ResponseNotEditableException} Si fue devuelta y la respuesta no está observada
+   * @throws {UnsupportedAttachmentFileException} Si el tipo de archivo no está admitido
+   */
+  @Transactional()
+  async execute(
+    id: string,
+    responseId: string,
+    file: Express.Multer.File,
+    userId: string,
+  ): Promise<SelfAssessmentAttachmentEntity> {
+    const selfAssessment =
+      await this.selfAssessmentValidator.validateAndGetSelfAssessment(id)
+    const response = await this.selfAssessmentValidator.validateAndGetResponse(
+      id,
+      responseId,
+    )
+    this.selfAssessmentValidator.validateCanAnswer(selfAssessment, response)
+    const fileType = this.selfAssessmentValidator.validateAndGetFileType(file)
+
+    const stored = await this.filesService.uploadFile({
+      file,
+      folder: `self-assessments/${id}/responses/${responseId}`,
+      validationOptions: SELF_ASSESSMENT_ATTACHMENT_UPLOAD_CONFIGS[fileType]!,
+    })
+
+    // Un nuevo respaldo vuelve a dejar la respuesta pendiente de revisión
+    response.markForReview()
+    await this.responsesRepository.save(response)
+
+    const attachment = this.selfAssessmentFactory.createAttachment(
+      response.id,
+      file,
+      fileType,
+      stored,
+      userId,
+    )
+    return await this.attachmentsRepository.save(attachment)
+  }
+}
@@ -0,0 +1,178 @@
+/* eslint-disable @typescript-eslint/unbound-method */
+import { Test, TestingModule } from '@nestjs/testing'
+import { SelfAssessmentValidator } from './self-assessment.validator'
+import { SelfAssessmentQuestionnaireService } from '../services'
+import {
+  SELF_ASSESSMENTS_REPOSITORY,
+  SELF_ASSESSMENT_RESPONSES_REPOSITORY,
+} from '../tokens'
+import { SelfAssessmentEntity, SelfAssessmentResponseEntity } from '../entities'
+import {
+  ResponseReviewStatus,
+  SelfAssessmentAnswer,
+  SelfAssessmentStatus,
+} from '../constants'
+import {
+  IncompleteSelfAssessmentException,
+  ResponseNotEditableException,
+  ReviewCommentRequiredException,
+  SelfAssessmentNotAnswerableException,
+  SelfAssessmentReviewIncompleteException,
+  TemplateNotUsableForSelfAssessmentException,
+} from '../exceptions'
+import { createMock } from '@core/testing'
+import { TEMPLATES_REPOSITORY } from '../../audit-library/templates/tokens'
+import type { ITemplatesRepository } from '../../audit-library/templates/repositories'
+import { TemplateEntity } from '../../audit-library/templates/entities/template.entity'
+import { TemplateStatus } from '../../audit-library/templates/constants'
+import { ORGANIZATION_REPOSITORY } from '../../organizations/tokens'
+
+describe('SelfAssessmentValidator', () => {
+  let validator: SelfAssessmentValidator
+  let templatesRepository: jest.Mocked<ITemplatesRepository>
+
+  const buildSelfAssessment = (status: SelfAssessmentStatus) =>
+    Object.assign(new SelfAssessmentEntity(), { id: 'sa-1', status })
+
+  const buildResponse = (
+    reviewStatus: ResponseReviewStatus,
+    overrides: Partial<SelfAssessmentResponseEntity> = {},
+  ) =>
+    Object.assign(new SelfAssessmentResponseEntity(), {
+      id: 'response-1',
+      code: 'A.5.1',
+      answer: SelfAssessmentAnswer.IMPLEMENTED,
+      comment: null,
+      reviewStatus,
+      ...overrides,
+    })
+
+  beforeEach(async () => {
+    templatesRepository = createMock<ITemplatesRepository>({
+      findById: jest.fn(),
+    })
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SelfAssessmentValidator,
+        SelfAssessmentQuestionnaireService,
+        { provide: SELF_ASSESSMENTS_REPOSITORY, useValue: createMock() },
+        {
+          provide: SELF_ASSESSMENT_RESPONSES_REPOSITORY,
+          useValue: createMock(),
+        },
+        { provide: TEMPLATES_REPOSITORY, useValue: templatesRepository },
+        { provide: ORGANIZATION_REPOSITORY, useValue: createMock() },
+      ],
+    }).compile()
+
+    validator = module.get<SelfAssessmentValidator>(SelfAssessmentValidator)
+  })
+
+  afterEach(() => {
+    jest.clearAllMocks()
+  })
+
+  describe('validateTemplate', () => {
+    it('should reject a template that is not published', async () => {
+      templatesRepository.findById.mockResolvedValue(
+        Object.assign(new TemplateEntity(), {
+          id: 'template-1',
+          name: 'ISO 27001',
+          status: TemplateStatus.DRAFT,
+        }),
+      )
+
+      await expect(validator.validateTemplate('template-1')).rejects.toThrow(
+        TemplateNotUsableForSelfAssessmentException,
+      )
+    })
+  })
+
+  describe('validateCanAnswer', () => {
+    it('should reject answers once the questionnaire was submitted', () => {
+      expect(() =>
+        validator.validateCanAnswer(
+          buildSelfAssessment(SelfAssessmentStatus.SUBMITTED),
+          buildResponse(ResponseReviewStatus.PENDING),
+        ),
+      ).toThrow(SelfAssessmentNotAnswerableException)
+    })
+
+    it('should only allow challenged answers when returned', () => {
+      const returned = buildSelfAssessment(SelfAssessmentStatus.RETURNED)
+
+      expect(() =>
+        validator.validateCanAnswer(
+          returned,
+          buildResponse(ResponseReviewStatus.ACCEPTED),
+        ),
+      ).toThrow(ResponseNotEditableException)
+      expect(() =>
+        validator.validateCanAnswer(
+          returned,
+          buildResponse(ResponseReviewStatus.CHALLENGED),
+        ),
+      ).not.toThrow()
+    })
+  })
+
+  describe('validateReviewComment', () => {
+    it('should require a comment to challenge an answer', () => {
+      expect(() =>
+        validator.validateReviewComment(
+          buildResponse(ResponseReviewStatus.PENDING),
+          ResponseReviewStatus.CHALLENGED,
+          null,
+        ),
+      ).toThrow(ReviewCommentRequiredException)
+    })
+  })
+
+  describe('validateCanSubmit', () => {
+    it('should list the controls missing a required comment', () => {
+      const responses = [
+        buildResponse(ResponseReviewStatus.PENDING),
+        buildResponse(ResponseReviewStatus.PENDING, {
+          code: 'A.5.2',
+          answer: SelfAssessmentAnswer.NOT_APPLICABLE,
+        }),
+      ]
+
+      expect(() => validator.validateCanSubmit(responses)).toThrow(
+        new IncompleteSelfAssessmentException(['A.5.2']),
+      )
+    })
+  })
+
+  describe('validateCanComplete', () => {
+    it('should reject completion while answers are pending review', () => {
+      const responses = [
+        buildResponse(ResponseReviewStatus.ACCEPTED),
+        buildResponse(ResponseReviewStatus.PENDING),
+      ]
+
+      expect(() => validator.validateCanComplete(responses)).toThrow(
+        SelfAssessmentReviewIncompleteException,
+      )
+    })
+
+    it('should accept when every answer was accepted', () => {
+      expect(() =>
+        validator.validateCanComplete([
+          buildResponse(ResponseReviewStatus.ACCEPTED),
+        ]),
+      ).not.toThrow()
+    })
+  })
+
+  describe('validateCanReturn', () => {
+    it('should reject returning without challenged answers', () => {
+      expect(() =>
+        validator.validateCanReturn([
+          buildResponse(ResponseReviewStatus.ACCEPTED),
+        ]),
+      ).toThrow(SelfAssessmentReviewIncompleteException)
+    })
+  })
+})
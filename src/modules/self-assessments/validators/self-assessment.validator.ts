@@ -0,0 +1,308 @@
+import { Injectable, Inject } from '@nestjs/common'
+import { FileType, ALLOWED_MIME_TYPES } from '@core/files'
+import {
+  SelfAssessmentEntity,
+  SelfAssessmentResponseEntity,
+  SelfAssessmentAttachmentEntity,
+} from '../entities'
+import {
+  ResponseReviewStatus,
+  SELF_ASSESSMENT_ATTACHMENT_UPLOAD_CONFIGS,
+  SelfAssessmentStatus,
+} from '../constants'
+import {
+  SelfAssessmentNotFoundException,
+  SelfAssessmentResponseNotFoundException,
+  SelfAssessmentAttachmentNotFoundException,
+  TemplateNotUsableForSelfAssessmentException,
+  SelfAssessmentNotAnswerableException,
+  SelfAssessmentNotUnderReviewException,
+  SelfAssessmentNotDeletableException,
+  ResponseNotEditableException,
+  ReviewCommentRequiredException,
+  InvalidSelfAssessmentStatusTransitionException,
+  UnsupportedAttachmentFileException,
+  IncompleteSelfAssessmentException,
+  SelfAssessmentReviewIncompleteException,
+} from '../exceptions'
+import { SelfAssessmentQuestionnaireService } from '../services'
+import {
+  SELF_ASSESSMENTS_REPOSITORY,
+  SELF_ASSESSMENT_RESPONSES_REPOSITORY,
+} from '../tokens'
+import type {
+  ISelfAssessmentsRepository,
+  ISelfAssessmentResponsesRepository,
+} from '../repositories'
+import { TemplateEntity } from '../../audit-library/templates/entities/template.entity'
+import { TemplateNotFoundException } from '../../audit-library/templates/exceptions'
+import { TEMPLATES_REPOSITORY } from '../../audit-library/templates/tokens'
+import type { ITemplatesRepository } from '../../audit-library/templates/repositories'
+import { OrganizationNotFoundException } from '../../organizations/exceptions'
+import { ORGANIZATION_REPOSITORY } from '../../organizations/tokens'
+import type { IOrganizationRepository } from '../../organizations/repositories'
+import { OrganizationNotActiveException } from '../../audits/exceptions'
+
+@Injectable()
+export class SelfAssessmentValidator {
+  constructor(
+    @Inject(SELF_ASSESSMENTS_REPOSITORY)
+    private readonly selfAssessmentsRepository: ISelfAssessmentsRepository,
+    @Inject(SELF_ASSESSMENT_RESPONSES_REPOSITORY)
+    private readonly responsesRepository: ISelfAssessmentResponsesRepository,
+    @Inject(TEMPLATES_REPOSITORY)
+    private readonly templatesRepository: ITemplatesRepository,
+    @Inject(ORGANIZATION_REPOSITORY)
+    private readonly organizationRepository: IOrganizationRepository,
+    private readonly questionnaireService: SelfAssessmentQuestionnaireService,
+  ) {}
+
+  /**
+   * Valida que la autoevaluación existe (en la organización actual) y la retorna
+   *
+   * @throws {SelfAssessmentNotFoundException} Si no existe
+   */
+  async validateAndGetSelfAssessment(
+    id: string,
+  ): Promise<SelfAssessmentEntity> {
+    const selfAssessment = await this.selfAssessmentsRepository.findById(id)
+
+    if (!selfAssessment) {
+      throw new SelfAssessmentNotFoundException(id)
+    }
+
+    return selfAssessment
+  }
+
+  /**
+   * Valida que la respuesta pertenece al cuestionario y la retorna con sus adjuntos
+   *
+   * @throws {SelfAssessmentResponseNotFoundException} Si no pertenece al cuestionario
+   */
+  async validateAndGetResponse(
+    selfAssessmentId: string,
+    responseId: string,
+  ): Promise<SelfAssessmentResponseEntity> {
+    const response = await this.responsesRepository.findOneInAssessment(
+      selfAssessmentId,
+      responseId,
+    )
+
+    if (!response) {
+      throw new SelfAssessmentResponseNotFoundException(
+        responseId,
+        selfAssessmentId,
+      )
+    }
+
+    return response
+  }
+
+  /**
+   * Valida que el adjunto pertenece a la respuesta y lo retorna
+   *
+   * @throws {SelfAssessmentAttachmentNotFoundException} Si no pertenece a la respuesta
+   */
+  validateAndGetAttachment(
+    response: SelfAssessmentResponseEntity,
+    attachmentId: string,
+  ): SelfAssessmentAttachmentEntity {
+    const attachment = response.attachments?.find(
+      (item) => item.id === attachmentId,
+    )
+
+    if (!attachment) {
+      throw new SelfAssessmentAttachmentNotFoundException(
+        attachmentId,
+        response.id,
+      )
+    }
+
+    return attachment
+  }
+
+  /**
+   * Valida que la plantilla existe y está publicada
+   *
+   * @throws {TemplateNotFoundException} Si la plantilla no existe
+   * @throws {TemplateNotUsableForSelfAssessmentException} Si no está publicada
+   */
+  async validateTemplate(templateId: string): Promise<TemplateEntity> {
+    const template = await this.templatesRepository.findById(templateId)
+
+    if (!template) {
+      throw new TemplateNotFoundException(templateId)
+    }
+
+    if (!template.isUsable) {
+      throw new TemplateNotUsableForSelfAssessmentException(
+        template.name,
+        `su estado es "${template.status}" (debe estar publicada)`,
+      )
+    }
+
+    return template
+  }
+
+  /**
+   * Valida que la organización existe y está activa
+   *
+   * @throws {OrganizationNotFoundException} Si la organización no existe
+   * @throws {OrganizationNotActiveException} Si la organización está inactiva
+   */
+  async validateOrganization(organizationId: string): Promise<void> {
+    const organization =
+      await this.organizationRepository.findById(organizationId)
+
+    if (!organization) {
+      throw new OrganizationNotFoundException(organizationId)
+    }
+
+    if (!organization.isActive) {
+      throw new OrganizationNotActiveException(organization.name)
+    }
+  }
+
+  /**
+   * Valida que la organización puede modificar la respuesta: el cuestionario
+   * está abierto o, si fue devuelto, la respuesta está observada
+   *
+   * @throws {SelfAssessmentNotAnswerableException} Si el cuestionario fue enviado o completado
+   * @throws {ResponseNotEditableException} Si fue devuelto y la respuesta no está observada
+   */
+  validateCanAnswer(
+    selfAssessment: SelfAssessmentEntity,
+    response: SelfAssessmentResponseEntity,
+  ): void {
+    if (!selfAssessment.isAnswerable) {
+      throw new SelfAssessmentNotAnswerableException(selfAssessment.status)
+    }
+
+    if (
+      selfAssessment.status === SelfAssessmentStatus.RETURNED &&
+      response.reviewStatus !== ResponseReviewStatus.CHALLENGED
+    ) {
+      throw new ResponseNotEditableException(response.code)
+    }
+  }
+
+  /**
+   * Valida que el cuestionario está en revisión (enviado)
+   *
+   * @throws {SelfAssessmentNotUnderReviewException} Si no fue enviado
+   */
+  validateCanReview(selfAssessment: SelfAssessmentEntity): void {
+    if (!selfAssessment.isUnderReview) {
+      throw new SelfAssessmentNotUnderReviewException(selfAssessment.status)
+    }
+  }
+
+  /**
+   * Valida que una observación incluye el comentario del auditor
+   *
+   * @throws {ReviewCommentRequiredException} Si se observa sin comentario
+   */
+  validateReviewComment(
+    response: SelfAssessmentResponseEntity,
+    status: ResponseReviewStatus,
+    comment: string | null,
+  ): void {
+    if (status === ResponseReviewStatus.CHALLENGED && !comment) {
+      throw new ReviewCommentRequiredException(response.code)
+    }
+  }
+
+  /**
+   * Valida que todas las respuestas están completas para enviar
+   *
+   * @throws {IncompleteSelfAssessmentException} Si hay respuestas sin completar o sin corregir
+   */
+  validateCanSubmit(responses: SelfAssessmentResponseEntity[]): void {
+    const incomplete = this.questionnaireService.findIncomplete(responses)
+
+    if (incomplete.length > 0) {
+      throw new IncompleteSelfAssessmentException(incomplete)
+    }
+  }
+
+  /**
+   * Valida que todas las respuestas fueron aceptadas
+   *
+   * @throws {SelfAssessmentReviewIncompleteException} Si hay respuestas pendientes u observadas
+   */
+  validateCanComplete(responses: SelfAssessmentResponseEntity[]): void {
+    const counts = this.questionnaireService.countByReviewStatus(responses)
+    const pending = counts[ResponseReviewStatus.PENDING]
+    const challenged = counts[ResponseReviewStatus.CHALLENGED]
+
+    if (pending > 0 || challenged > 0) {
+      throw new SelfAssessmentReviewIncompleteException(
+        `hay ${pending} respuesta(s) sin revisar y ${challenged} observada(s)`,
+      )
+    }
+  }
+
+  /**
+   * Valida que hay respuestas observadas para devolver a la organización
+   *
+   * @throws {SelfAssessmentReviewIncompleteException} Si ninguna respuesta está observada
+   */
+  validateCanReturn(responses: SelfAssessmentResponseEntity[]): void {
+    const counts = this.questionnaireService.countByReviewStatus(responses)
+
+    if (counts[ResponseReviewStatus.CHALLENGED] === 0) {
+      throw new SelfAssessmentReviewIncompleteException(
+        'no hay respuestas observadas para devolver',
+      )
+    }
+  }
+
+  /**
+   * @throws {SelfAssessmentNotDeletableException} Si ya fue enviado
+   */
+  validateCanDelete(selfAssessment: SelfAssessmentEntity): void {
+    if (!selfAssessment.isDeletable) {
+      throw new SelfAssessmentNotDeletableException(selfAssessment.status)
+    }
+  }
+
+  /**
+   * Valida que el cuestionario puede pasar al estado indicado
+   *
+   * @throws {InvalidSelfAssessmentStatusTransitionException} Si la transición no está permitida
+   */
+  validateTransition(
+    selfAssessment: SelfAssessmentEntity,
+    status: SelfAssessmentStatus,
+  ): void {
+    if (!selfAssessment.canTransitionTo(status)) {
+      throw new InvalidSelfAssessmentStatusTransitionException(
+        selfAssessment.status,
+        status,
+      )
+    }
+  }
+
+  /**
+   * Determina el tipo del adjunto a partir de su MIME type
+   *
+   * @throws {UnsupportedAttachmentFileException} Si el tipo no está admitido
+   */
+  validateAndGetFileType(file: Express.Multer.File): FileType {
+    const types = Object.keys(
+      SELF_ASSESSMENT_ATTACHMENT_UPLOAD_CONFIGS,
+    ) as FileType[]
+    const fileType = types.find((type) =>
+      ALLOWED_MIME_TYPES[type].includes(file.mimetype),
+    )
+
+    if (!fileType) {
+      throw new UnsupportedAttachmentFileException(
+        file.mimetype,
+        types.flatMap((type) => ALLOWED_MIME_TYPES[type]),
+      )
+    }
+
+    return fileType
+  }
+}
@@ -1,5 +1,8 @@
 import { Entity, Column, ManyToOne, JoinColumn, Index } from 'typeorm'
 import { BaseEntity } from '@core/entities/base.entity'
+import { Auditable } from '@core/database/auditable.decorator'
+import { AuditAction } from '@core/database/audit-action.enum'
+import { TenantScoped } from '@core/database/tenant-scoped.decorator'
 import { OrganizationEntity } from '../../organizations/entities/organization.entity'
 import { USER_CONSTRAINTS } from '../constants/user-schema.constants'
 
@@ -12,6 +15,13 @@ export enum Role {
 @Index(['email'], { unique: true, where: '"deletedAt" IS NULL' })
 @Index(['username'], { unique: true, where: '"deletedAt" IS NULL' })
 @Index(['ci'], { unique: true, where: '"deletedAt" IS NULL' })
+@TenantScoped<UserEntity>('organizationId')
+@Auditable<UserEntity>({
+  redact: ['password'],
+  transitions: {
+    isActive: { true: AuditAction.ACTIVATE, false: AuditAction.DEACTIVATE },
+  },
+})
 @Entity('users')
 export class UserEntity extends BaseEntity {
   @Column({ type: 'varchar', length: USER_CONSTRAINTS.NAMES.MAX })
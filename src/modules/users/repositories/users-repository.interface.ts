@@ -1,5 +1,5 @@
 import { IBaseRepository } from '@core/repositories/base-repository.interface'
-import { UserEntity } from '../entities/user.entity'
+import { UserEntity, Role } from '../entities/user.entity'
 import { PaginatedData } from '@core/dtos'
 import { FindUsersDto } from '../use-cases/find-all-users'
 
@@ -20,6 +20,7 @@ export interface IUsersRepository extends IBaseRepository<UserEntity> {
   // Validaciones de organización
   findByOrganization(organizationId: string): Promise<UserEntity[]>
   countUsersByOrganization(organizationId: string): Promise<number>
+  findActiveByRole(role: Role, organizationId: string): Promise<UserEntity[]>
   // Búsquedas avanzadas
   paginateUsers(query: FindUsersDto): Promise<PaginatedData<UserEntity>>
   //metodos adicionales si es necesario
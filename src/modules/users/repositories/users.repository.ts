@@ -3,7 +3,7 @@ import { InjectRepository } from '@nestjs/typeorm'
 import { Repository, FindOptionsWhere, ILike } from 'typeorm'
 import { TransactionService, AuditService } from '@core/database'
 import { BaseRepository } from '@core/repositories/base.repository'
-import { UserEntity } from '../entities/user.entity'
+import { UserEntity, Role } from '../entities/user.entity'
 import { IUsersRepository } from './users-repository.interface'
 import { PaginatedData } from '@core/dtos'
 import { FindUsersDto, USER_SEARCH_FIELDS } from '../use-cases/find-all-users'
@@ -165,6 +165,25 @@ export class UsersRepository
     })
   }
 
+  /**
+   * Busca los usuarios activos de una organización que tienen un rol
+   * @param role - Rol buscado
+   * @param organizationId - ID de la organización
+   * @returns Lista de usuarios
+   */
+  async findActiveByRole(
+    role: Role,
+    organizationId: string,
+  ): Promise<UserEntity[]> {
+    return await this.getRepo().find({
+      where: this.scopeWhere({
+        organizationId,
+        isActive: true,
+        roles: ArrayContains([role]),
+      }),
+    })
+  }
+
   /**
    * Paginación de usuarios con filtros avanzados
    *